@@ -23,10 +23,16 @@ const resolveAlias = nodeResolve({
   }
 });
 
-// 处理外部依赖
+// 处理外部依赖，Node.js平台入口使用的内置模块不打包
 const external = [
   ...Object.keys(pkg.dependencies || {}),
-  ...Object.keys(pkg.peerDependencies || {})
+  ...Object.keys(pkg.peerDependencies || {}),
+  'fs',
+  'fs/promises',
+  'http',
+  'https',
+  'os',
+  'path'
 ];
 
 // 处理全局模块(UMD格式使用)
@@ -67,13 +73,30 @@ const baseConfig = {
   external
 };
 
+// 子入口，与package.json的exports对应
+const entries = {
+  index: 'src/index.ts',
+  core: 'src/core/index.ts',
+  transport: 'src/modules/transport/index.ts',
+  queue: 'src/modules/queue/index.ts',
+  storage: 'src/modules/storage/index.ts',
+  platforms: 'src/platforms/index.ts',
+  'platforms/native': 'src/platforms/native/index.ts',
+  'platforms/node': 'src/platforms/node/index.ts',
+  reactive: 'src/reactive/index.ts',
+  workers: 'src/workers/index.ts'
+};
+
 // 各种输出格式配置
 export default [
-  // ESM格式
+  // ESM格式，各子入口共享的代码拆分为公共chunk
   {
     ...baseConfig,
+    input: entries,
     output: {
-      file: pkg.module,
+      dir: path.dirname(pkg.module),
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/[name]-[hash].js',
       format: 'es',
       sourcemap: true
     },
@@ -83,9 +106,13 @@ export default [
   // CommonJS格式
   {
     ...baseConfig,
+    input: entries,
     output: {
-      file: pkg.main,
+      dir: path.dirname(pkg.main),
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/[name]-[hash].js',
       format: 'cjs',
+      exports: 'named',
       sourcemap: true
     },
     plugins
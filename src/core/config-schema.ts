@@ -0,0 +1,262 @@
+import {
+  ConfigFieldSchema,
+  ConfigSchema,
+  ConfigValidationError,
+  ConfigValidationResult,
+  ConfigValueType
+} from '../types/config';
+
+/**
+ * 配置参考文档中的配置项
+ */
+export interface ConfigReferenceEntry {
+  path: string; // 配置项路径
+  type: string; // 值类型描述
+  required: boolean;
+  default?: unknown;
+  description: string;
+  constraints: string[]; // 取值范围和可选值
+  deprecated?: string; // 弃用说明
+}
+
+/**
+ * 校验配置是否符合声明
+ * 未在声明中出现的配置项不做校验
+ *
+ * @param schema - 配置声明
+ * @param config - 待校验的配置
+ * @param basePath - 配置所在路径，用于生成问题中的配置项路径
+ * @returns 包含所有问题的校验结果
+ */
+export function validateConfig(
+  schema: ConfigSchema,
+  config: Record<string, unknown> | undefined,
+  basePath: string = ''
+): ConfigValidationResult {
+  const result: ConfigValidationResult = { valid: true, violations: [], deprecations: [] };
+  validateFields(schema, config || {}, basePath, result);
+  result.valid = result.violations.length === 0;
+  return result;
+}
+
+/**
+ * 校验配置，存在问题时抛出包含所有问题的错误，使用已弃用的配置项时给出警告
+ *
+ * @param schema - 配置声明
+ * @param config - 待校验的配置
+ * @param name - 配置所属的模块或路径，用于错误信息
+ * @throws {ConfigValidationError} 当配置不符合声明时抛出
+ */
+export function assertValidConfig(
+  schema: ConfigSchema,
+  config: Record<string, unknown> | undefined,
+  name: string
+): void {
+  const { violations, deprecations } = validateConfig(schema, config, name);
+
+  deprecations.forEach(deprecation => console.warn(deprecation.message));
+
+  if (violations.length > 0) {
+    throw new ConfigValidationError(`${name} 配置无效`, violations);
+  }
+}
+
+/**
+ * 使用声明中的默认值补全配置，不修改传入的配置
+ *
+ * @param schema - 配置声明
+ * @param config - 已有配置
+ * @returns 补全默认值后的配置
+ */
+export function applyConfigDefaults<T extends Record<string, unknown>>(
+  schema: ConfigSchema,
+  config: T = {} as T
+): T {
+  const result: Record<string, unknown> = { ...config };
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = result[key];
+
+    if (value === undefined && field.default !== undefined) {
+      result[key] = cloneDefault(field.default);
+    } else if (field.properties && (value === undefined || isPlainObject(value))) {
+      const nested = applyConfigDefaults(
+        field.properties,
+        (value || {}) as Record<string, unknown>
+      );
+      if (value !== undefined || Object.keys(nested).length > 0) {
+        result[key] = nested;
+      }
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * 将配置声明展开为配置参考文档的配置项列表，嵌套配置项使用点表示法路径
+ *
+ * @param schema - 配置声明
+ * @param basePath - 配置所在路径
+ * @returns 配置项列表
+ */
+export function describeConfigSchema(
+  schema: ConfigSchema,
+  basePath: string = ''
+): ConfigReferenceEntry[] {
+  const entries: ConfigReferenceEntry[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const path = joinPath(basePath, key);
+    const constraints: string[] = [];
+
+    if (field.min !== undefined) constraints.push(`>= ${field.min}`);
+    if (field.max !== undefined) constraints.push(`<= ${field.max}`);
+    if (field.enum) constraints.push(`可选值: ${field.enum.map(formatValue).join(', ')}`);
+
+    entries.push({
+      path,
+      type: describeType(field),
+      required: !!field.required,
+      default: field.default,
+      description: field.description || '',
+      constraints,
+      deprecated: field.deprecated
+    });
+
+    if (field.properties) {
+      entries.push(...describeConfigSchema(field.properties, path));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 逐项校验配置并记录问题
+ */
+function validateFields(
+  schema: ConfigSchema,
+  config: Record<string, unknown>,
+  basePath: string,
+  result: ConfigValidationResult
+): void {
+  for (const [key, field] of Object.entries(schema)) {
+    validateField(field, config[key], joinPath(basePath, key), result);
+  }
+}
+
+/**
+ * 校验单个配置项
+ */
+function validateField(
+  field: ConfigFieldSchema,
+  value: unknown,
+  path: string,
+  result: ConfigValidationResult
+): void {
+  if (value === undefined) {
+    if (field.required) {
+      result.violations.push({ path, message: `${path} 为必填项`, value });
+    }
+    return;
+  }
+
+  if (field.deprecated) {
+    result.deprecations.push({ path, message: `${path} 已弃用: ${field.deprecated}`, value });
+  }
+
+  const types = toArray(field.type);
+  if (!types.some(type => matchesType(value, type))) {
+    result.violations.push({
+      path,
+      message: `${path} 应为 ${types.join(' | ')}，实际为 ${formatValue(value)}`,
+      value
+    });
+    return;
+  }
+
+  if (field.enum && !field.enum.includes(value)) {
+    result.violations.push({
+      path,
+      message: `${path} 应为 ${field.enum.map(formatValue).join(', ')} 之一，实际为 ${formatValue(value)}`,
+      value
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (field.min !== undefined && value < field.min) {
+      result.violations.push({
+        path,
+        message: `${path} 不能小于 ${field.min}，实际为 ${value}`,
+        value
+      });
+    }
+    if (field.max !== undefined && value > field.max) {
+      result.violations.push({
+        path,
+        message: `${path} 不能大于 ${field.max}，实际为 ${value}`,
+        value
+      });
+    }
+  }
+
+  if (field.properties && isPlainObject(value)) {
+    validateFields(field.properties, value, path, result);
+  }
+
+  if (field.items && Array.isArray(value)) {
+    value.forEach((item, index) => validateField(field.items!, item, `${path}[${index}]`, result));
+  }
+}
+
+/**
+ * 检查值是否为指定类型
+ */
+function matchesType(value: unknown, type: ConfigValueType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * 生成配置项的类型描述
+ */
+function describeType(field: ConfigFieldSchema): string {
+  return toArray(field.type)
+    .map(type => (type === 'array' && field.items ? `${describeType(field.items)}[]` : type))
+    .join(' | ');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function joinPath(basePath: string, key: string): string {
+  return basePath ? `${basePath}.${key}` : key;
+}
+
+function cloneDefault(value: unknown): unknown {
+  if (Array.isArray(value)) return [...value];
+  if (isPlainObject(value)) return { ...value };
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'function') return 'function';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return JSON.stringify(value) ?? String(value);
+}
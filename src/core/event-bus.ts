@@ -4,6 +4,17 @@
  * 实现发布/订阅模式的事件系统，提供事件注册、触发和管理功能。
  */
 
+import {
+  EventBus,
+  EventEmitOptions,
+  EventHandler as BusEventHandler,
+  EventHistoryOptions,
+  EventRecord,
+  EventSubscription,
+  EventSubscriptionOptions
+} from '../types/events';
+import { EventArgs, EventName, FileChunkEventMap, WildcardEvent } from './event-map';
+
 /**
  * 事件处理器类型定义
  */
@@ -29,369 +40,765 @@ export interface EventHandlerConfig<T = any> {
 }
 
 /**
- * 事件总线类
- * 实现事件的发布/订阅模式
+ * 处理器超时的错误码
  */
-export class EventEmitter {
-  private handlers: Map<string, EventHandlerConfig[]> = new Map();
-  private wildcardHandlers: EventHandlerConfig[] = [];
-  private eventHistory: Map<string, any[]> = new Map();
-  private maxHistoryLength = 100;
-  private enableHistory = false;
-
-  constructor(options?: { enableHistory?: boolean; maxHistoryLength?: number }) {
-    this.enableHistory = options?.enableHistory || false;
-    this.maxHistoryLength = options?.maxHistoryLength || 100;
+export const EVENT_HANDLER_TIMEOUT_ERROR_CODE = 'EVENT_HANDLER_TIMEOUT';
+
+/**
+ * 事件总线订阅选项
+ */
+export interface EventBusSubscriptionOptions extends EventSubscriptionOptions {
+  /**
+   * 订阅后立即将历史记录中匹配的事件重放给该处理器，一次性订阅只重放最近一条
+   */
+  replay?: boolean;
+}
+
+/**
+ * 事件总线构造选项
+ */
+export interface EventBusOptions {
+  /**
+   * 事件历史配置
+   */
+  history?: Partial<EventHistoryOptions>;
+
+  /**
+   * 默认发布选项
+   */
+  emit?: EventEmitOptions;
+}
+
+/**
+ * 内部订阅记录
+ */
+interface Subscription extends EventSubscription {
+  /**
+   * 含通配符的事件名编译后的匹配规则
+   */
+  pattern: RegExp | null;
+}
+
+/**
+ * 将含通配符*的事件名编译为正则
+ */
+function compilePattern(eventName: string): RegExp | null {
+  if (!eventName.includes('*')) {
+    return null;
+  }
+
+  const source = eventName
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 判断事件名是否匹配订阅的事件名或通配符
+ */
+function matchEvent(eventName: string, name: string, pattern: RegExp | null): boolean {
+  return pattern ? pattern.test(eventName) : name === eventName;
+}
+
+/**
+ * 取最近的若干条记录，不指定数量时返回全部
+ */
+function takeLast<T>(records: T[], limit?: number): T[] {
+  if (limit === undefined || limit < 0) {
+    return [...records];
+  }
+  return limit === 0 ? [] : records.slice(-limit);
+}
+
+/**
+ * 事件总线实现
+ *
+ * 订阅返回订阅ID，可按订阅ID、事件名或订阅者ID取消；事件名支持通配符*；
+ * 开启历史记录后可查询和重放已发布的事件。
+ * 通配符订阅的处理器以第二个参数接收实际发布的事件名。
+ */
+export class EventBusImpl implements EventBus {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private nextId = 0;
+  private history: EventRecord[] = [];
+  private historyOptions: EventHistoryOptions = {
+    enabled: false,
+    maxEvents: 100,
+    includeData: true,
+    eventFilter: null
+  };
+  private defaultEmitOptions: Required<Omit<EventEmitOptions, 'isReplay'>> = {
+    async: false,
+    waitForAll: true,
+    catchErrors: true,
+    timeout: 0
+  };
+
+  constructor(options: EventBusOptions = {}) {
+    if (options.history) {
+      this.configureHistory(options.history);
+    }
+    if (options.emit) {
+      this.defaultEmitOptions = { ...this.defaultEmitOptions, ...options.emit };
+    }
   }
 
   /**
    * 订阅事件
    */
   on<T = any>(
-    event: string,
-    handler: EventHandler<T>,
-    options?: {
-      priority?: EventPriority;
-      group?: string;
-    }
-  ): this {
-    const config: EventHandlerConfig = {
-      handler,
-      priority: options?.priority || EventPriority.NORMAL,
-      once: false,
-      group: options?.group
-    };
-
-    this.addHandler(event, config);
-    return this;
+    eventName: string,
+    handler: BusEventHandler<T>,
+    options: EventBusSubscriptionOptions = {}
+  ): string {
+    return this.subscribe(eventName, handler, options);
   }
 
   /**
-   * 一次性订阅事件
+   * 订阅事件，但只触发一次
    */
   once<T = any>(
-    event: string,
-    handler: EventHandler<T>,
-    options?: {
-      priority?: EventPriority;
-      group?: string;
+    eventName: string,
+    handler: BusEventHandler<T>,
+    options: EventBusSubscriptionOptions = {}
+  ): string {
+    return this.subscribe(eventName, handler, { ...options, once: true });
+  }
+
+  /**
+   * 取消订阅
+   *
+   * @param subscriptionIdOrEvent 订阅ID；同时传入handler时为事件名
+   * @param handler 按事件名和处理器取消订阅
+   * @returns 是否成功取消
+   */
+  off(subscriptionIdOrEvent: string, handler?: BusEventHandler): boolean {
+    if (!handler) {
+      return this.subscriptions.delete(subscriptionIdOrEvent);
     }
-  ): this {
-    const config: EventHandlerConfig = {
-      handler,
-      priority: options?.priority || EventPriority.NORMAL,
-      once: true,
-      group: options?.group
-    };
 
-    this.addHandler(event, config);
-    return this;
+    let removed = false;
+    for (const [id, subscription] of this.subscriptions) {
+      if (subscription.eventName === subscriptionIdOrEvent && subscription.handler === handler) {
+        this.subscriptions.delete(id);
+        removed = true;
+      }
+    }
+    return removed;
   }
 
   /**
-   * 使用通配符订阅所有事件
+   * 取消特定事件的所有订阅，通配符订阅需传入相同的事件名
    */
-  onAny<T = any>(
-    handler: EventHandler<T>,
-    options?: {
-      priority?: EventPriority;
-      group?: string;
-    }
-  ): this {
-    const config: EventHandlerConfig = {
-      handler,
-      priority: options?.priority || EventPriority.NORMAL,
-      once: false,
-      group: options?.group
-    };
+  offAll(eventName: string): number {
+    return this.removeWhere(subscription => subscription.eventName === eventName);
+  }
 
-    this.wildcardHandlers.push(config);
-    this.sortHandlers(this.wildcardHandlers);
-    return this;
+  /**
+   * 取消指定订阅者的所有订阅
+   */
+  offBySubscriber(subscriberId: string): number {
+    return this.removeWhere(subscription => subscription.subscriberId === subscriberId);
   }
 
   /**
-   * 取消事件订阅
+   * 发布事件
+   *
+   * 同步模式下返回处理器数量，异步处理器返回的Promise不等待；
+   * 异步模式（options.async）等同于emitAsync
    */
-  off<T = any>(event: string, handler?: EventHandler<T>): this {
-    if (!this.handlers.has(event)) {
-      return this;
+  emit<T = any>(
+    eventName: string,
+    eventData: T,
+    options: EventEmitOptions = {}
+  ): Promise<void[]> | number {
+    const emitOptions = { ...this.defaultEmitOptions, ...options };
+    if (emitOptions.async) {
+      return this.emitAsync(eventName, eventData, options);
     }
 
-    if (!handler) {
-      // 移除所有该事件的处理器
-      this.handlers.delete(event);
-      return this;
+    const subscriptions = this.prepare(eventName, eventData, emitOptions.isReplay);
+    for (const subscription of subscriptions) {
+      const result = this.invoke(subscription, eventName, eventData, emitOptions.catchErrors);
+      if (result) {
+        result.catch(error => this.handleError(eventName, error, true));
+      }
     }
+    return subscriptions.length;
+  }
 
-    // 移除特定的处理器
-    const handlers = this.handlers.get(event)!.filter(config => config.handler !== handler);
+  /**
+   * 发布事件并等待所有处理器完成
+   *
+   * 处理器按优先级同步调用，返回的Promise统一等待；
+   * 设置timeout时超时的处理器不再等待，catchErrors为false时以错误结束
+   */
+  emitAsync<T = any>(
+    eventName: string,
+    eventData: T,
+    options: EventEmitOptions = {}
+  ): Promise<void[]> {
+    const emitOptions = { ...this.defaultEmitOptions, ...options };
+    const subscriptions = this.prepare(eventName, eventData, emitOptions.isReplay);
+    const results: Promise<void>[] = [];
+
+    for (const subscription of subscriptions) {
+      let result: Promise<void> | undefined;
+      try {
+        result = this.invoke(subscription, eventName, eventData, emitOptions.catchErrors);
+      } catch (error) {
+        return Promise.reject(error);
+      }
 
-    if (handlers.length === 0) {
-      this.handlers.delete(event);
-    } else {
-      this.handlers.set(event, handlers);
+      const settled = this.settle(
+        result ?? Promise.resolve(),
+        subscription,
+        eventName,
+        emitOptions.timeout
+      );
+      results.push(
+        emitOptions.catchErrors
+          ? settled.catch(error => this.handleError(eventName, error, true))
+          : settled
+      );
     }
 
-    return this;
+    if (!emitOptions.waitForAll) {
+      results.forEach(result => result.catch(() => undefined));
+      return Promise.resolve([]);
+    }
+    return Promise.all(results);
   }
 
   /**
-   * 取消通配符事件订阅
+   * 判断事件是否有订阅者，包括匹配的通配符订阅
    */
-  offAny<T = any>(handler?: EventHandler<T>): this {
-    if (!handler) {
-      this.wildcardHandlers = [];
-      return this;
+  hasSubscribers(eventName: string): boolean {
+    return this.countSubscribers(eventName) > 0;
+  }
+
+  /**
+   * 获取指定事件的订阅者数量，包括匹配的通配符订阅；不传事件名时返回全部订阅数量
+   */
+  countSubscribers(eventName?: string): number {
+    if (eventName === undefined) {
+      return this.subscriptions.size;
+    }
+    return this.match(eventName).length;
+  }
+
+  /**
+   * 获取所有已订阅的事件名称
+   */
+  getEventNames(): string[] {
+    const names = new Set<string>();
+    for (const subscription of this.subscriptions.values()) {
+      names.add(subscription.eventName);
     }
+    return [...names];
+  }
 
-    this.wildcardHandlers = this.wildcardHandlers.filter(config => config.handler !== handler);
+  /**
+   * 清空所有订阅
+   */
+  clear(): this {
+    this.subscriptions.clear();
     return this;
   }
 
   /**
-   * 按组取消订阅
+   * 配置事件历史记录
    */
-  offGroup(group: string): this {
-    // 从所有事件中移除该组的处理器
-    for (const [event, handlers] of this.handlers.entries()) {
-      const filteredHandlers = handlers.filter(config => config.group !== group);
-
-      if (filteredHandlers.length === 0) {
-        this.handlers.delete(event);
-      } else {
-        this.handlers.set(event, filteredHandlers);
-      }
+  configureHistory(options: Partial<EventHistoryOptions>): this {
+    this.historyOptions = { ...this.historyOptions, ...options };
+    this.trimHistory();
+    return this;
+  }
+
+  /**
+   * 清空事件历史记录
+   *
+   * @param eventName 可选，只清除匹配的事件，支持通配符
+   */
+  clearHistory(eventName?: string): this {
+    if (eventName === undefined) {
+      this.history = [];
+    } else {
+      const pattern = compilePattern(eventName);
+      this.history = this.history.filter(
+        record => !matchEvent(record.eventName, eventName, pattern)
+      );
     }
+    return this;
+  }
+
+  /**
+   * 获取事件历史记录，按发布顺序排列
+   *
+   * @param eventName 可选，指定事件名称过滤，支持通配符
+   * @param limit 可选，只返回最近的若干条
+   */
+  getHistory(eventName?: string, limit?: number): EventRecord[] {
+    let records = this.history;
 
-    // 从通配符处理器中移除该组
-    this.wildcardHandlers = this.wildcardHandlers.filter(config => config.group !== group);
+    if (eventName !== undefined) {
+      const pattern = compilePattern(eventName);
+      records = records.filter(record => matchEvent(record.eventName, eventName, pattern));
+    }
 
-    return this;
+    return takeLast(records, limit);
   }
 
   /**
-   * 发布事件
+   * 重放历史事件给当前的订阅者
+   *
+   * 重放的事件不会再次记录到历史中
    */
-  async emit<T = any>(event: string, payload?: T): Promise<void> {
-    // 记录事件历史
-    if (this.enableHistory) {
-      this.recordEventHistory(event, payload);
+  async replayHistory(
+    eventFilter?: string | ((record: EventRecord) => boolean),
+    limit?: number
+  ): Promise<number> {
+    const records = takeLast(
+      typeof eventFilter === 'function'
+        ? this.history.filter(eventFilter)
+        : this.getHistory(eventFilter),
+      limit
+    );
+
+    for (const record of records) {
+      await this.emitAsync(record.eventName, record.data, { isReplay: true });
     }
+    return records.length;
+  }
+
+  /**
+   * 添加订阅
+   */
+  private subscribe(
+    eventName: string,
+    handler: BusEventHandler,
+    options: EventBusSubscriptionOptions
+  ): string {
+    const subscription: Subscription = {
+      id: `sub_${++this.nextId}`,
+      eventName,
+      handler,
+      once: options.once ?? false,
+      priority: options.priority ?? 0,
+      subscriberId: options.subscriberId,
+      pattern: compilePattern(eventName)
+    };
 
-    const promises: Promise<void>[] = [];
-
-    // 执行特定事件处理器
-    if (this.handlers.has(event)) {
-      const handlers = [...this.handlers.get(event)!];
-      const oncers: EventHandlerConfig[] = [];
-
-      // 执行处理器并收集一次性处理器
-      for (const config of handlers) {
-        try {
-          const result = config.handler(payload);
-          if (result instanceof Promise) {
-            promises.push(result);
-          }
-
-          if (config.once) {
-            oncers.push(config);
-          }
-        } catch (error) {
-          console.error(`Error in event handler for "${event}":`, error);
+    if (options.replay) {
+      const records = this.getHistory(eventName, subscription.once ? 1 : undefined);
+      for (const record of records) {
+        const result = this.invoke(subscription, record.eventName, record.data, true);
+        if (result) {
+          result.catch(error => this.handleError(record.eventName, error, true));
         }
       }
 
-      // 移除一次性处理器
-      if (oncers.length > 0) {
-        const remaining = handlers.filter(config => !oncers.includes(config));
-        if (remaining.length === 0) {
-          this.handlers.delete(event);
-        } else {
-          this.handlers.set(event, remaining);
-        }
+      // 一次性订阅已经收到事件，不再保留
+      if (subscription.once && records.length > 0) {
+        return subscription.id;
       }
     }
 
-    // 执行通配符处理器
-    for (const config of this.wildcardHandlers) {
-      try {
-        const result = config.handler({ event, payload });
-        if (result instanceof Promise) {
-          promises.push(result);
-        }
-      } catch (error) {
-        console.error(`Error in wildcard handler for "${event}":`, error);
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription.id;
+  }
+
+  /**
+   * 记录历史并取出本次需要调用的订阅，一次性订阅在调用前移除
+   */
+  private prepare(eventName: string, eventData: unknown, isReplay?: boolean): Subscription[] {
+    if (!isReplay) {
+      this.recordHistory(eventName, eventData);
+    }
+
+    const subscriptions = this.match(eventName);
+    for (const subscription of subscriptions) {
+      if (subscription.once) {
+        this.subscriptions.delete(subscription.id);
       }
     }
+    return subscriptions;
+  }
 
-    // 等待所有异步处理器完成
-    if (promises.length > 0) {
-      await Promise.all(promises);
+  /**
+   * 查找匹配事件的订阅，按优先级从高到低排列，同优先级按订阅顺序
+   */
+  private match(eventName: string): Subscription[] {
+    const matched: Subscription[] = [];
+    for (const subscription of this.subscriptions.values()) {
+      if (matchEvent(eventName, subscription.eventName, subscription.pattern)) {
+        matched.push(subscription);
+      }
     }
+    return matched.sort((a, b) => b.priority - a.priority);
   }
 
   /**
-   * 同步发布事件（不等待异步处理器完成）
+   * 调用处理器，返回异步处理器的Promise
+   */
+  private invoke(
+    subscription: Subscription,
+    eventName: string,
+    eventData: unknown,
+    catchErrors: boolean
+  ): Promise<void> | undefined {
+    try {
+      const result = subscription.pattern
+        ? subscription.handler(eventData, eventName)
+        : subscription.handler(eventData);
+      return result instanceof Promise ? result : undefined;
+    } catch (error) {
+      this.handleError(eventName, error, catchErrors);
+      return undefined;
+    }
+  }
+
+  /**
+   * 等待异步处理器完成，超时后不再等待
    */
-  emitSync<T = any>(event: string, payload?: T): void {
-    // 记录事件历史
-    if (this.enableHistory) {
-      this.recordEventHistory(event, payload);
+  private settle(
+    result: Promise<void>,
+    subscription: Subscription,
+    eventName: string,
+    timeout: number
+  ): Promise<void> {
+    if (!timeout || timeout <= 0) {
+      return result.then(() => undefined);
     }
 
-    // 执行特定事件处理器
-    if (this.handlers.has(event)) {
-      const handlers = [...this.handlers.get(event)!];
-      const oncers: EventHandlerConfig[] = [];
-
-      // 执行处理器并收集一次性处理器
-      for (const config of handlers) {
-        try {
-          config.handler(payload);
-
-          if (config.once) {
-            oncers.push(config);
-          }
-        } catch (error) {
-          console.error(`Error in event handler for "${event}":`, error);
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new Error(
+          `事件 "${eventName}" 的处理器 ${subscription.id} 超过 ${timeout}ms 未完成`
+        );
+        (error as any).code = EVENT_HANDLER_TIMEOUT_ERROR_CODE;
+        reject(error);
+      }, timeout);
+
+      result.then(
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
         }
-      }
+      );
+    });
+  }
 
-      // 移除一次性处理器
-      if (oncers.length > 0) {
-        const remaining = handlers.filter(config => !oncers.includes(config));
-        if (remaining.length === 0) {
-          this.handlers.delete(event);
-        } else {
-          this.handlers.set(event, remaining);
-        }
-      }
+  /**
+   * 处理处理器错误，catchErrors为false时继续抛出
+   */
+  private handleError(eventName: string, error: unknown, catchErrors: boolean): void {
+    if (!catchErrors) {
+      throw error;
     }
 
-    // 执行通配符处理器
-    for (const config of this.wildcardHandlers) {
-      try {
-        config.handler({ event, payload });
-      } catch (error) {
-        console.error(`Error in wildcard handler for "${event}":`, error);
-      }
+    if ((error as any)?.code === EVENT_HANDLER_TIMEOUT_ERROR_CODE) {
+      console.warn((error as Error).message);
+    } else {
+      console.error(`Error in event handler for "${eventName}":`, error);
     }
   }
 
   /**
-   * 检查是否有事件监听器
+   * 记录事件历史
    */
-  hasListeners(event?: string): boolean {
-    if (event) {
-      return this.handlers.has(event) && this.handlers.get(event)!.length > 0;
+  private recordHistory(eventName: string, eventData: unknown): void {
+    const { enabled, includeData, eventFilter } = this.historyOptions;
+    if (!enabled || (eventFilter && !eventFilter(eventName, eventData))) {
+      return;
+    }
+
+    const record: EventRecord = { timestamp: Date.now(), eventName };
+    if (includeData) {
+      record.data = eventData;
     }
-    return this.handlers.size > 0 || this.wildcardHandlers.length > 0;
+    this.history.push(record);
+    this.trimHistory();
   }
 
   /**
-   * 获取事件监听器数量
+   * 限制历史记录长度
    */
-  listenerCount(event?: string): number {
-    if (event) {
-      return this.handlers.has(event) ? this.handlers.get(event)!.length : 0;
+  private trimHistory(): void {
+    const overflow = this.history.length - this.historyOptions.maxEvents;
+    if (overflow > 0) {
+      this.history.splice(0, overflow);
     }
+  }
 
-    let count = this.wildcardHandlers.length;
-    for (const handlers of this.handlers.values()) {
-      count += handlers.length;
+  /**
+   * 按条件移除订阅
+   */
+  private removeWhere(predicate: (subscription: Subscription) => boolean): number {
+    let count = 0;
+    for (const [id, subscription] of this.subscriptions) {
+      if (predicate(subscription)) {
+        this.subscriptions.delete(id);
+        count++;
+      }
     }
     return count;
   }
+}
+
+/**
+ * 事件监听选项
+ */
+export interface EventListenerOptions {
+  priority?: EventPriority;
 
   /**
-   * 清除所有事件监听器
+   * 订阅者ID，可通过offBySubscriber取消该订阅者的全部订阅
    */
-  clear(): this {
-    this.handlers.clear();
-    this.wildcardHandlers = [];
+  subscriberId?: string;
+
+  /**
+   * 分组，等同于subscriberId
+   */
+  group?: string;
+
+  /**
+   * 订阅后立即重放历史记录中匹配的事件
+   */
+  replay?: boolean;
+}
+
+/**
+ * 事件总线选项
+ */
+export interface EventEmitterOptions {
+  enableHistory?: boolean;
+  maxHistoryLength?: number;
+
+  /**
+   * 异步处理器的超时时间(ms)，超时后emit不再等待该处理器，默认不限制
+   */
+  handlerTimeout?: number;
+}
+
+/**
+ * 事件总线类
+ * 实现事件的发布/订阅模式
+ *
+ * 事件名和事件数据按事件映射M检查，默认为FileChunkEventMap；
+ * 不需要检查时可使用 new EventEmitter<Record<string, any>>()
+ */
+export class EventEmitter<M extends object = FileChunkEventMap> {
+  private bus: EventBusImpl;
+  private handlerTimeout: number;
+  private enableHistory: boolean;
+
+  // 通配符处理器到实际订阅处理器的映射
+  private wildcardHandlers: WeakMap<EventHandler, BusEventHandler> = new WeakMap();
+
+  constructor(options?: EventEmitterOptions) {
+    this.enableHistory = options?.enableHistory || false;
+    this.handlerTimeout = options?.handlerTimeout || 0;
+    this.bus = new EventBusImpl({
+      history: {
+        enabled: this.enableHistory,
+        maxEvents: options?.maxHistoryLength || 100
+      }
+    });
+  }
+
+  /**
+   * 订阅事件
+   */
+  on<K extends EventName<M>>(
+    event: K,
+    handler: EventHandler<M[K]>,
+    options?: EventListenerOptions
+  ): this {
+    this.bus.on(event, handler, this.toSubscriptionOptions(options));
     return this;
   }
 
   /**
-   * 获取事件历史记录
+   * 一次性订阅事件
    */
-  getEventHistory(event?: string): Array<{ event: string; payload: any; timestamp: number }> {
-    if (!this.enableHistory) {
-      return [];
-    }
+  once<K extends EventName<M>>(
+    event: K,
+    handler: EventHandler<M[K]>,
+    options?: EventListenerOptions
+  ): this {
+    this.bus.once(event, handler, this.toSubscriptionOptions(options));
+    return this;
+  }
 
-    if (event) {
-      return this.eventHistory.get(event) || [];
-    }
+  /**
+   * 使用通配符订阅所有事件
+   */
+  onAny(handler: EventHandler<WildcardEvent<M>>, options?: EventListenerOptions): this {
+    const wrapper = (payload: unknown, event?: string) =>
+      handler({ event, payload } as WildcardEvent<M>);
 
-    const history: Array<{ event: string; payload: any; timestamp: number }> = [];
-    for (const [, events] of this.eventHistory.entries()) {
-      history.push(...events);
-    }
+    this.wildcardHandlers.set(handler, wrapper);
+    this.bus.on('*', wrapper, this.toSubscriptionOptions(options));
+    return this;
+  }
 
-    // 按时间戳排序
-    return history.sort((a, b) => a.timestamp - b.timestamp);
+  /**
+   * 取消事件订阅
+   */
+  off<K extends EventName<M>>(event: K, handler?: EventHandler<M[K]>): this {
+    if (handler) {
+      this.bus.off(event, handler);
+    } else {
+      // 移除所有该事件的处理器
+      this.bus.offAll(event);
+    }
+    return this;
   }
 
   /**
-   * 清除事件历史
+   * 取消通配符事件订阅
    */
-  clearHistory(event?: string): this {
-    if (!this.enableHistory) {
+  offAny(handler?: EventHandler<WildcardEvent<M>>): this {
+    if (!handler) {
+      this.bus.offAll('*');
       return this;
     }
 
-    if (event) {
-      this.eventHistory.delete(event);
-    } else {
-      this.eventHistory.clear();
+    const wrapper = this.wildcardHandlers.get(handler);
+    if (wrapper) {
+      this.bus.off('*', wrapper);
+      this.wildcardHandlers.delete(handler);
     }
+    return this;
+  }
 
+  /**
+   * 取消指定订阅者的所有订阅
+   *
+   * @returns 取消的订阅数量
+   */
+  offBySubscriber(subscriberId: string): number {
+    return this.bus.offBySubscriber(subscriberId);
+  }
+
+  /**
+   * 按组取消订阅
+   */
+  offGroup(group: string): this {
+    this.bus.offBySubscriber(group);
     return this;
   }
 
   /**
-   * 添加事件处理器
+   * 发布事件，等待异步处理器完成
+   *
+   * 处理器出错只记录日志；设置了handlerTimeout时不再等待超时的处理器
    */
-  private addHandler(event: string, config: EventHandlerConfig): void {
-    if (!this.handlers.has(event)) {
-      this.handlers.set(event, []);
-    }
+  async emit<K extends EventName<M>>(event: K, ...[payload]: EventArgs<M, K>): Promise<void> {
+    await this.bus.emitAsync(event, payload, { timeout: this.handlerTimeout });
+  }
 
-    this.handlers.get(event)!.push(config);
-    this.sortHandlers(this.handlers.get(event)!);
+  /**
+   * 按发布选项发布事件并等待处理器完成
+   *
+   * @returns 各处理器的结果
+   */
+  emitAsync<K extends EventName<M>>(
+    event: K,
+    payload: M[K],
+    options?: EventEmitOptions
+  ): Promise<void[]> {
+    return this.bus.emitAsync(event, payload, { timeout: this.handlerTimeout, ...options });
   }
 
   /**
-   * 按优先级排序处理器
+   * 同步发布事件（不等待异步处理器完成）
    */
-  private sortHandlers(handlers: EventHandlerConfig[]): void {
-    handlers.sort((a, b) => a.priority - b.priority);
+  emitSync<K extends EventName<M>>(event: K, ...[payload]: EventArgs<M, K>): void {
+    this.bus.emit(event, payload);
   }
 
   /**
-   * 记录事件历史
+   * 检查是否有事件监听器，包括匹配的通配符订阅
    */
-  private recordEventHistory<T>(event: string, payload?: T): void {
-    if (!this.enableHistory) {
-      return;
+  hasListeners(event?: EventName<M>): boolean {
+    return this.listenerCount(event) > 0;
+  }
+
+  /**
+   * 获取事件监听器数量，包括匹配的通配符订阅
+   */
+  listenerCount(event?: EventName<M>): number {
+    return this.bus.countSubscribers(event);
+  }
+
+  /**
+   * 清除所有事件监听器
+   */
+  clear(): this {
+    this.bus.clear();
+    return this;
+  }
+
+  /**
+   * 配置事件历史记录
+   */
+  configureHistory(options: Partial<EventHistoryOptions>): this {
+    if (options.enabled !== undefined) {
+      this.enableHistory = options.enabled;
     }
+    this.bus.configureHistory(options);
+    return this;
+  }
 
-    if (!this.eventHistory.has(event)) {
-      this.eventHistory.set(event, []);
+  /**
+   * 获取事件历史记录
+   */
+  getEventHistory(event?: EventName<M>): Array<{ event: string; payload: any; timestamp: number }> {
+    if (!this.enableHistory) {
+      return [];
     }
 
-    const eventList = this.eventHistory.get(event)!;
-    eventList.push({
-      event,
-      payload,
-      timestamp: Date.now()
-    });
+    return this.bus.getHistory(event).map(record => ({
+      event: record.eventName,
+      payload: record.data,
+      timestamp: record.timestamp
+    }));
+  }
 
-    // 限制历史记录长度
-    if (eventList.length > this.maxHistoryLength) {
-      eventList.shift();
-    }
+  /**
+   * 重放历史事件给当前的订阅者
+   *
+   * @param event 可选，事件名称，支持通配符
+   * @param limit 可选，只重放最近的若干条
+   * @returns 重放的事件数量
+   */
+  replayHistory(event?: string, limit?: number): Promise<number> {
+    return this.bus.replayHistory(event, limit);
+  }
+
+  /**
+   * 清除事件历史
+   */
+  clearHistory(event?: EventName<M>): this {
+    this.bus.clearHistory(event);
+    return this;
+  }
+
+  /**
+   * 转换为事件总线的订阅选项，优先级数值越小越先执行
+   */
+  private toSubscriptionOptions(options?: EventListenerOptions): EventBusSubscriptionOptions {
+    return {
+      priority: -(options?.priority ?? EventPriority.NORMAL),
+      subscriberId: options?.subscriberId ?? options?.group,
+      replay: options?.replay
+    };
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * FileChunk Pro - 事件类型映射
+ *
+ * 描述事件总线上所有事件的名称及其数据类型，EventEmitter、BaseModule等的on/emit据此在编译期检查事件名和数据。
+ * 插件可以通过声明合并扩展事件：
+ *
+ * @example
+ * declare module 'filechunk-pro' {
+ *   interface FileChunkEventMap {
+ *     'watermark:applied': { fileId: string };
+ *   }
+ * }
+ */
+
+import type { KernelEventType } from './kernel';
+import type {
+  QueueEvents,
+  QueueItem,
+  QueueStateSummary,
+  QueueStatus
+} from '../modules/queue/interfaces';
+import type { ProcessingJobRef, UploadStage } from '../modules/transport/interfaces';
+import type {
+  HttpTransportOptions,
+  UploadStatus
+} from '../modules/transport/implementations/http-transport';
+import type {
+  DownloadResult,
+  DownloadStatus,
+  DownloadTransportOptions
+} from '../modules/transport/implementations/download-transport';
+import type { CDNHealthCheckResult } from '../modules/network/cdn-connector';
+
+/**
+ * 任务错误信息
+ */
+interface TaskError {
+  message: string;
+  code: string;
+}
+
+/**
+ * 模块事件数据
+ */
+interface ModuleEvent {
+  moduleId: string;
+}
+
+/**
+ * 分片事件数据
+ */
+interface ChunkEvent {
+  taskId: string;
+  chunkIndex: number;
+}
+
+/**
+ * 暂停全部任务时的事件数据
+ */
+interface PauseAllEvent<S> {
+  timestamp: number;
+  tasks: Array<{ id: string; status: S; progress: number }>;
+}
+
+/**
+ * 事件名称到事件数据类型的映射
+ */
+export interface FileChunkEventMap {
+  // 内核
+  'module:registered': ModuleEvent;
+  'module:beforeInitialize': ModuleEvent;
+  'module:initialized': ModuleEvent;
+  'module:beforeStart': ModuleEvent;
+  'module:started': ModuleEvent;
+  'module:beforeStop': ModuleEvent;
+  'module:stopped': ModuleEvent;
+  'module:beforeDestroy': ModuleEvent;
+  'module:destroyed': ModuleEvent;
+  'module:error': ModuleEvent & { error: unknown };
+  [KernelEventType.CONFIG_CHANGED]: { path: string; oldValue: unknown; newValue: unknown };
+  [KernelEventType.MODULE_REPLACE]: ModuleEvent;
+  [KernelEventType.MODULE_REPLACE_COMPLETE]: ModuleEvent & { stateTransferred: boolean };
+
+  // 模块基类
+  'module.config.updated': ModuleEvent & { config: Record<string, unknown> };
+  'module.error': ModuleEvent & { error: Error };
+
+  // 平台适配
+  featureFallback: { platform: string; feature: string | number | symbol };
+  platformError: { error: Error; platform: string; context?: unknown };
+
+  // 上传传输
+  'transport:initialized': { module: 'transport'; options: HttpTransportOptions };
+  'transport:start': { taskId: string; file: unknown };
+  'transport:hashProgress': { taskId: string; progress: number };
+  'transport:hashComplete': { taskId: string; hash: string; algorithm: string };
+  'transport:quickUploadSuccess': { taskId: string; url?: string; hash: string };
+  'transport:resumeFromCheckpoint': { taskId: string; uploadedChunks: number[] };
+  'transport:checkpointReconciled': {
+    taskId: string;
+    hash: string;
+    localChunks: number;
+    serverChunks: number | null;
+    resumedChunks: number;
+    sessionChanged: boolean;
+  };
+  'transport:chunkSuccess': ChunkEvent & { speed: number; remainingChunks: number };
+  'transport:chunkError': ChunkEvent & { error: string; retryable: boolean };
+  'transport:chunkRetry': ChunkEvent & { retryCount: number; delay: number };
+  'transport:chunkIntegrityMismatch': ChunkEvent & { expected: string; actual: string | null };
+  'transport:rechunked': {
+    taskId: string;
+    fromIndex: number;
+    chunkSize: number;
+    totalChunks: number;
+  };
+  'transport:mergeSuccess': {
+    hash: string;
+    url: string;
+    fileName: string;
+    job?: ProcessingJobRef;
+  };
+  'transport:processing': { taskId: string; job: ProcessingJobRef };
+  'transport:progress': {
+    taskId: string;
+    progress: number;
+    stage: UploadStage;
+    stageName?: string;
+    stageProgress?: number;
+  };
+  'transport:statusChanged': {
+    taskId: string;
+    status: UploadStatus;
+    progress: number;
+    result: any;
+    error: TaskError | null;
+  };
+  'transport:success': { taskId: string; result: any };
+  'transport:ready': { taskId: string; result: any };
+  'transport:rejected': { taskId: string; result: any; error: TaskError | null };
+  'transport:error':
+    | { taskId: string; error: TaskError | null }
+    | { message: string; code: string; original: unknown };
+  'transport:canceled': { taskId: string };
+  'transport:paused': PauseAllEvent<UploadStatus>;
+  'transport:resumed': { taskId: string };
+  'transport:cancelAll': { timestamp: number; taskCount: number };
+  'transport:taskPaused': { taskId: string; progress: number };
+  'transport:taskCanceled': { taskId: string };
+
+  // 下载传输
+  'download:initialized': { module: 'download'; options: DownloadTransportOptions };
+  'download:start': { taskId: string; url: string };
+  'download:resumeFromCheckpoint': { taskId: string; downloadedChunks: number[] };
+  'download:chunkSuccess': ChunkEvent & { size: number };
+  'download:chunkError': ChunkEvent & { error: string; retryable: boolean };
+  'download:chunkRetry': ChunkEvent & { retryCount: number; delay: number };
+  'download:statusChanged': {
+    taskId: string;
+    status: DownloadStatus;
+    progress: number;
+    result: DownloadResult | null;
+    error: TaskError | null;
+  };
+  'download:success': { taskId: string; result: DownloadResult | null };
+  'download:error': { taskId: string; error: TaskError | null };
+  'download:canceled': { taskId: string };
+  'download:progress': {
+    taskId: string;
+    progress: number;
+    loaded: number;
+    total: number;
+    completedChunks: number;
+    totalChunks: number;
+  };
+  'download:paused': PauseAllEvent<DownloadStatus>;
+  'download:resumed': { taskId: string };
+  'download:cancelAll': { timestamp: number; taskCount: number };
+  'download:taskPaused': { taskId: string; progress: number };
+  'download:taskCanceled': { taskId: string };
+
+  // 带宽限制
+  'bandwidth:limitChanged': {
+    taskId?: string;
+    globalLimit: number;
+    effectiveLimit: number;
+    taskLimit?: number;
+  };
+
+  // 上传队列
+  [QueueEvents.UPLOAD_STARTED]: QueueItem;
+  [QueueEvents.UPLOAD_PROGRESS]: { id: string; progress: number };
+  [QueueEvents.UPLOAD_PROCESSING]: { id: string; stage?: string; progress?: number };
+  [QueueEvents.UPLOAD_COMPLETED]: { id: string; result: any };
+  [QueueEvents.UPLOAD_FAILED]: { id: string; error: unknown };
+  [QueueEvents.UPLOAD_CANCELED]: { id: string };
+  [QueueEvents.UPLOAD_PREEMPTED]: { id: string; progress: number };
+  [QueueEvents.QUEUE_UPDATED]: QueueStateSummary;
+  [QueueEvents.QUEUE_RESTORED]: QueueStateSummary;
+  [QueueEvents.STATUS_CHANGED]: QueueStatus;
+  [QueueEvents.QUEUE_PAUSED]: void;
+  [QueueEvents.QUEUE_RESUMED]: void;
+  [QueueEvents.QUEUE_CLEARED]: void;
+  [QueueEvents.QUEUE_EMPTY]: void;
+  [QueueEvents.NETWORK_OFFLINE]: void;
+  [QueueEvents.NETWORK_ONLINE]: void;
+
+  // 安全
+  'security:initialized': {
+    encryptionEnabled?: boolean;
+    signatureEnabled?: boolean;
+    integrityCheck?: boolean;
+  };
+  'security:started': Record<string, never>;
+  'security:stopped': Record<string, never>;
+  'security:destroyed': Record<string, never>;
+  'security:decryption-error': unknown;
+  'security:token-error': unknown;
+  'security:validation-error': unknown;
+  'security:rule-error': { rule: unknown; error: unknown };
+
+  // CDN
+  'monitoring:started': void;
+  'monitoring:stopped': void;
+  'healthCheck:complete': CDNHealthCheckResult[];
+  'cdn:failover': {
+    from: string | null;
+    to: string;
+    failedProvider: string;
+    newProvider: string;
+    timestamp: number;
+  };
+  'cdn:allFailed': { message: string; timestamp: number };
+  'cdn:recovered': { providerId: string; providerName: string; timestamp: number };
+  'cdn:backupAdded': { providerId: string; providerName: string; timestamp: number };
+  'cdn:switched': { from: string | null; to: string; manual: boolean; timestamp: number };
+  'cache:invalidated': {
+    providerId: string;
+    providerName: string;
+    urlCount: number;
+    timestamp: number;
+  };
+  'cache:invalidationFailed': {
+    providerId: string;
+    providerName: string;
+    error: string;
+    timestamp: number;
+  };
+  'file:allCdnsFailed': { fileHash: string; fileName: string; timestamp: number };
+
+  // 插件
+  'plugin:initialized': { name: string };
+  'plugin:unloaded': { name: string };
+  'plugin:disabled': { name: string; error?: string; failures: number };
+  'plugin:incompatible': { name: string; reason: string };
+  'plugin:config:updated': { name: string; config: Record<string, any> | undefined };
+
+  // 文档
+  'docs.info': { message: string };
+  'docs.error': { message: string; error?: unknown };
+
+  // 响应式上传
+  backpressure: { applied: boolean; queueSize: number };
+}
+
+/**
+ * 事件名称
+ */
+export type FileChunkEventName = keyof FileChunkEventMap & string;
+
+/**
+ * 事件映射中的事件名称
+ */
+export type EventName<M> = keyof M & string;
+
+/**
+ * emit的参数，数据类型允许undefined时可以省略
+ */
+export type EventArgs<M, K extends keyof M> = undefined extends M[K]
+  ? [payload?: M[K]]
+  : [payload: M[K]];
+
+/**
+ * 通配符处理器收到的事件
+ */
+export type WildcardEvent<M> = {
+  [K in EventName<M>]: { event: K; payload: M[K] };
+}[EventName<M>];
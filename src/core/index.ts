@@ -6,12 +6,66 @@
 
 // 导出事件总线
 export {
+  EventBusImpl,
   EventEmitter,
   EventPriority,
+  EVENT_HANDLER_TIMEOUT_ERROR_CODE,
   type EventHandler,
-  type EventSubscriptionOptions
+  type EventListenerOptions,
+  type EventEmitterOptions,
+  type EventBusOptions,
+  type EventBusSubscriptionOptions
 } from './event-bus';
+export type {
+  EventBus,
+  EventSubscriptionOptions,
+  EventEmitOptions,
+  EventHistoryOptions,
+  EventRecord
+} from '../types/events';
 
-// TODO: 导出其他核心组件，如微内核、模块基类等
-// export { Kernel } from './kernel';
-// export { ModuleBase } from './module-base';
+// 导出事件类型映射
+export type {
+  FileChunkEventMap,
+  FileChunkEventName,
+  EventName,
+  EventArgs,
+  WildcardEvent
+} from './event-map';
+
+// 导出微内核
+export {
+  FileChunkKernel,
+  KernelEventType,
+  ModuleState,
+  type KernelConfig,
+  type KernelLifecycleReport,
+  type KernelModuleOptions,
+  type KernelOptions,
+  type KernelState,
+  type Module,
+  type ModuleLifecycleFailure
+} from './kernel';
+
+// 导出模块生命周期工具
+export { runLifecycle, sortByDependencies, type ModuleLifecyclePhase } from './module-registry';
+
+// 导出配置声明与校验
+export {
+  validateConfig,
+  assertValidConfig,
+  applyConfigDefaults,
+  describeConfigSchema,
+  type ConfigReferenceEntry
+} from './config-schema';
+export {
+  ConfigValidationError,
+  type ConfigFieldSchema,
+  type ConfigSchema,
+  type ConfigValidationResult,
+  type ConfigValueType,
+  type ConfigViolation
+} from '../types/config';
+
+// 导出模块基类
+export { BaseModule, ModuleBase } from './module-base';
@@ -1,5 +1,21 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { EventEmitter } from './event-bus';
+import { EventEmitter, EventEmitterOptions } from './event-bus';
+import {
+  DEFAULT_REGISTRATION_OPTIONS,
+  ModuleHotReplaceOptions,
+  ModuleLifecyclePhase,
+  runLifecycle,
+  sortByDependencies
+} from './module-registry';
+import { ModuleDependencyError, ModuleMetadata, ModuleRegistrationOptions } from '../types/modules';
+import type { PlatformFeatures } from '../platforms/platform-base';
+import { validateConfig } from './config-schema';
+import {
+  ConfigFieldSchema,
+  ConfigSchema,
+  ConfigValidationError,
+  ConfigViolation
+} from '../types/config';
 
 /**
  * 内核事件类型
@@ -69,6 +85,16 @@ export interface KernelOptions {
    */
   moduleStartTimeout?: number;
 
+  /**
+   * 模块停止超时时间(ms)
+   */
+  moduleStopTimeout?: number;
+
+  /**
+   * 模块销毁超时时间(ms)
+   */
+  moduleDestroyTimeout?: number;
+
   /**
    * 是否自动启动已初始化的模块
    */
@@ -79,6 +105,11 @@ export interface KernelOptions {
    */
   debug?: boolean;
 
+  /**
+   * 事件总线选项
+   */
+  eventBus?: EventEmitterOptions;
+
   /**
    * 全局配置初始值
    */
@@ -128,11 +159,84 @@ export interface KernelState {
  */
 export interface Module {
   id: string;
+
+  /**
+   * 依赖的模块ID或接口ID
+   */
   dependencies?: string[];
+
+  /**
+   * 模块元数据，metadata.implements声明实现的接口ID
+   */
+  metadata?: ModuleMetadata;
+
   initialize: () => Promise<void> | void;
   start?: () => Promise<void> | void;
   stop?: () => Promise<void> | void;
   destroy?: () => Promise<void> | void;
+
+  /**
+   * 热替换时导出交接给新模块的可序列化状态
+   */
+  exportState?(): unknown | Promise<unknown>;
+
+  /**
+   * 热替换时导入被替换模块交接的状态
+   * 替换失败时被替换的模块导入自己导出的状态，撤销交接
+   */
+  importState?(state: unknown): Promise<void> | void;
+
+  /**
+   * 依赖的模块被热替换后调用，用于更新持有的模块引用
+   */
+  onDependencyReplaced?(
+    moduleId: string,
+    newModule: Module,
+    oldModule: Module
+  ): Promise<void> | void;
+}
+
+/**
+ * 内核中模块的注册选项
+ * 未设置的超时时间使用内核配置的模块超时时间，为0时不限制
+ */
+export type KernelModuleOptions = Omit<ModuleRegistrationOptions, 'override'>;
+
+/**
+ * 模块生命周期失败信息
+ */
+export interface ModuleLifecycleFailure {
+  moduleId: string;
+  error: unknown;
+
+  /**
+   * 是否为可选模块
+   */
+  optional: boolean;
+}
+
+/**
+ * 批量执行模块生命周期的结果报告
+ */
+export interface KernelLifecycleReport {
+  phase: ModuleLifecyclePhase;
+
+  /**
+   * 是否所有必需模块都执行成功，可选模块失败不影响该结果
+   */
+  success: boolean;
+
+  /**
+   * 执行成功的模块ID，按执行顺序排列
+   */
+  completed: string[];
+
+  failed: ModuleLifecycleFailure[];
+
+  /**
+   * 必需模块启动失败后被停止的模块ID
+   */
+  rolledBack: string[];
 }
 
 /**
@@ -164,6 +268,15 @@ export class FileChunkKernel {
   // 模块状态表
   private moduleStates: Map<string, ModuleState> = new Map();
 
+  // 模块注册选项表
+  private moduleOptions: Map<string, KernelModuleOptions> = new Map();
+
+  // 模块最近一次生命周期错误
+  private moduleErrors: Map<string, unknown> = new Map();
+
+  // 配置声明表，键为声明所在的配置路径
+  private configSchemas: Map<string, ConfigSchema> = new Map();
+
   // 全局配置
   private config: KernelConfig = {};
 
@@ -175,7 +288,7 @@ export class FileChunkKernel {
    */
   constructor(config?: KernelConfig) {
     this.config = config || {};
-    this.eventBus = new EventEmitter();
+    this.eventBus = new EventEmitter(this.config.eventBus);
     this.initializeEvents();
   }
 
@@ -190,24 +303,73 @@ export class FileChunkKernel {
 
   /**
    * 注册模块
+   * 模块声明了metadata.configSchema时以模块ID为路径注册配置声明，现有配置不符合声明时抛出ConfigValidationError。
+   * 设置autoInit/autoStart时注册后异步初始化和启动模块，失败时通过module:error事件报告
    */
-  registerModule(module: Module): boolean {
+  registerModule(module: Module, options: KernelModuleOptions = {}): boolean {
     if (this.modules.has(module.id)) {
       console.warn(`Module ${module.id} is already registered`);
       return false;
     }
 
+    if (module.metadata?.configSchema) {
+      this.registerConfigSchema(module.id, module.metadata.configSchema);
+    }
+
     this.modules.set(module.id, module);
     this.moduleStates.set(module.id, ModuleState.REGISTERED);
+    this.moduleOptions.set(module.id, { ...this.getDefaultModuleOptions(), ...options });
     this.eventBus.emit('module:registered', { moduleId: module.id });
+
+    if (options.autoInit) {
+      void this.initializeModule(module.id).then(
+        initialized => initialized && !!options.autoStart && this.startModule(module.id)
+      );
+    }
+
     return true;
   }
 
+  /**
+   * 获取模块的注册选项
+   */
+  getModuleOptions(moduleId: string): KernelModuleOptions | undefined {
+    return this.moduleOptions.get(moduleId);
+  }
+
   /**
    * 获取模块
+   * 未注册该ID的模块时按接口ID解析到优先级最高的可用实现
    */
   getModule<T extends Module>(id: string): T | undefined {
-    return this.modules.get(id) as T | undefined;
+    const [resolved] = this.resolveModuleIds(id);
+    return resolved ? (this.modules.get(resolved) as T) : undefined;
+  }
+
+  /**
+   * 解析模块ID或接口ID
+   *
+   * 已注册该ID的模块时直接返回；否则返回metadata.implements为该ID的实现，
+   * 按metadata.priority从高到低排列，排除出错的实现和当前平台缺少requiredFeatures的实现
+   *
+   * @param id 模块ID或接口ID
+   * @returns 可用的模块ID
+   */
+  resolveModuleIds(id: string): string[] {
+    if (this.modules.has(id)) {
+      return [id];
+    }
+
+    const features = this.getPlatformFeatures();
+    return Array.from(this.modules.values())
+      .filter(
+        module =>
+          module.metadata?.implements === id &&
+          this.moduleStates.get(module.id) !== ModuleState.ERROR &&
+          (module.metadata.requiredFeatures || []).every(feature => !!features?.[feature])
+      )
+      .sort((a, b) => (b.metadata?.priority || 0) - (a.metadata?.priority || 0))
+      .map(module => module.id);
   }
 
   /**
@@ -219,7 +381,12 @@ export class FileChunkKernel {
       return false;
     }
 
-    if (this.moduleStates.get(moduleId) !== ModuleState.REGISTERED) {
+    const state = this.moduleStates.get(moduleId);
+    if (state === ModuleState.ERROR) {
+      return false;
+    }
+
+    if (state !== ModuleState.REGISTERED) {
       return true; // 已经初始化
     }
 
@@ -228,24 +395,22 @@ export class FileChunkKernel {
     // 检查依赖并初始化
     if (module.dependencies && module.dependencies.length > 0) {
       for (const depId of module.dependencies) {
-        if (!this.modules.has(depId)) {
+        const candidates = this.resolveModuleIds(depId);
+        if (candidates.length === 0) {
           console.error(`Module ${moduleId} depends on ${depId}, but it's not registered`);
-          this.moduleStates.set(moduleId, ModuleState.ERROR);
-          this.eventBus.emit('module:error', {
-            moduleId,
-            error: new Error(`Missing dependency: ${depId}`)
-          });
+          this.setModuleError(moduleId, this.createDependencyError(moduleId, depId));
           return false;
         }
 
-        // 初始化依赖模块
-        const success = await this.initializeModule(depId);
+        // 初始化依赖模块，接口的实现初始化失败时依次尝试下一个实现
+        let success = false;
+        for (const candidate of candidates) {
+          success = await this.initializeModule(candidate);
+          if (success) break;
+        }
+
         if (!success) {
-          this.moduleStates.set(moduleId, ModuleState.ERROR);
-          this.eventBus.emit('module:error', {
-            moduleId,
-            error: new Error(`Failed to initialize dependency: ${depId}`)
-          });
+          this.setModuleError(moduleId, new Error(`Failed to initialize dependency: ${depId}`));
           return false;
         }
       }
@@ -254,13 +419,17 @@ export class FileChunkKernel {
     // 初始化模块
     try {
       this.eventBus.emit('module:beforeInitialize', { moduleId });
-      await Promise.resolve(module.initialize());
+      await runLifecycle(
+        moduleId,
+        'init',
+        () => module.initialize(),
+        this.moduleOptions.get(moduleId)?.initTimeout
+      );
       this.moduleStates.set(moduleId, ModuleState.INITIALIZED);
       this.eventBus.emit('module:initialized', { moduleId });
       return true;
     } catch (error) {
-      this.moduleStates.set(moduleId, ModuleState.ERROR);
-      this.eventBus.emit('module:error', { moduleId, error });
+      this.setModuleError(moduleId, error);
       return false;
     }
   }
@@ -294,15 +463,19 @@ export class FileChunkKernel {
       this.eventBus.emit('module:beforeStart', { moduleId });
 
       if (module.start) {
-        await Promise.resolve(module.start());
+        await runLifecycle(
+          moduleId,
+          'start',
+          () => module.start!(),
+          this.moduleOptions.get(moduleId)?.startTimeout
+        );
       }
 
       this.moduleStates.set(moduleId, ModuleState.STARTED);
       this.eventBus.emit('module:started', { moduleId });
       return true;
     } catch (error) {
-      this.moduleStates.set(moduleId, ModuleState.ERROR);
-      this.eventBus.emit('module:error', { moduleId, error });
+      this.setModuleError(moduleId, error);
       return false;
     }
   }
@@ -328,7 +501,7 @@ export class FileChunkKernel {
       if (
         id !== moduleId &&
         this.moduleStates.get(id) === ModuleState.STARTED &&
-        mod.dependencies?.includes(moduleId)
+        this.findDependency(mod, moduleId)
       ) {
         console.error(`Cannot stop module ${moduleId}: it's a dependency of running module ${id}`);
         return false;
@@ -340,15 +513,19 @@ export class FileChunkKernel {
       this.eventBus.emit('module:beforeStop', { moduleId });
 
       if (module.stop) {
-        await Promise.resolve(module.stop());
+        await runLifecycle(
+          moduleId,
+          'stop',
+          () => module.stop!(),
+          this.moduleOptions.get(moduleId)?.stopTimeout
+        );
       }
 
       this.moduleStates.set(moduleId, ModuleState.STOPPED);
       this.eventBus.emit('module:stopped', { moduleId });
       return true;
     } catch (error) {
-      this.moduleStates.set(moduleId, ModuleState.ERROR);
-      this.eventBus.emit('module:error', { moduleId, error });
+      this.setModuleError(moduleId, error);
       return false;
     }
   }
@@ -364,7 +541,7 @@ export class FileChunkKernel {
 
     // 检查是否有其他模块依赖该模块
     for (const [id, mod] of this.modules.entries()) {
-      if (id !== moduleId && mod.dependencies?.includes(moduleId)) {
+      if (id !== moduleId && this.findDependency(mod, moduleId)) {
         console.error(`Cannot destroy module ${moduleId}: it's a dependency of module ${id}`);
         return false;
       }
@@ -386,18 +563,196 @@ export class FileChunkKernel {
       this.eventBus.emit('module:beforeDestroy', { moduleId });
 
       if (module.destroy) {
-        await Promise.resolve(module.destroy());
+        await runLifecycle(
+          moduleId,
+          'destroy',
+          () => module.destroy!(),
+          this.moduleOptions.get(moduleId)?.destroyTimeout
+        );
       }
 
       this.modules.delete(moduleId);
       this.moduleStates.delete(moduleId);
+      this.moduleOptions.delete(moduleId);
+      this.moduleErrors.delete(moduleId);
+      if (module.metadata?.configSchema) {
+        this.configSchemas.delete(moduleId);
+      }
+      this.eventBus.offBySubscriber(moduleId);
       this.eventBus.emit('module:destroyed', { moduleId });
       return true;
     } catch (error) {
-      this.moduleStates.set(moduleId, ModuleState.ERROR);
+      this.setModuleError(moduleId, error);
+      return false;
+    }
+  }
+
+  /**
+   * 热替换模块
+   *
+   * 停止旧模块，通过exportState/importState交接状态（keepState为false时不交接）后初始化新模块，
+   * 未指定autoInit/autoStart时新模块沿用旧模块的运行状态；新模块导入状态、初始化或启动失败时销毁已初始化的新模块，
+   * 恢复旧模块及其配置声明，并将导出的状态交还旧模块以撤销交接。
+   * 替换成功后通知依赖该模块的模块，最后销毁旧模块
+   *
+   * @param moduleId 被替换的模块ID
+   * @param newModule 新模块，ID必须与被替换的模块相同，未声明依赖时沿用旧模块的依赖
+   * @param options 热替换选项
+   * @returns 是否替换成功
+   */
+  async replaceModule(
+    moduleId: string,
+    newModule: Module,
+    options: ModuleHotReplaceOptions<Module> = {}
+  ): Promise<boolean> {
+    if (!this.modules.has(moduleId)) {
+      console.error(`Module ${moduleId} is not registered`);
+      return false;
+    }
+
+    if (newModule.id !== moduleId) {
+      console.error(`Module ${newModule.id} cannot replace module ${moduleId}`);
+      return false;
+    }
+
+    const oldModule = this.modules.get(moduleId)!;
+    const oldState = this.moduleStates.get(moduleId)!;
+    const wasStarted = oldState === ModuleState.STARTED;
+    const wasInitialized = wasStarted || oldState === ModuleState.INITIALIZED;
+    const moduleOptions = this.moduleOptions.get(moduleId) || {};
+
+    if (!newModule.dependencies) {
+      newModule.dependencies = oldModule.dependencies;
+    }
+
+    const oldError = this.moduleErrors.get(moduleId);
+    const oldSchema = this.configSchemas.get(moduleId);
+
+    this.eventBus.emit(KernelEventType.MODULE_REPLACE, { moduleId });
+
+    let state: unknown;
+    let initialized = false;
+    try {
+      // 直接停止旧模块，依赖它的运行中模块由新模块接替
+      if (wasStarted && oldModule.stop) {
+        await runLifecycle(moduleId, 'stop', () => oldModule.stop!(), moduleOptions.stopTimeout);
+      }
+
+      if (options.keepState !== false && oldModule.exportState) {
+        state = await Promise.resolve(oldModule.exportState());
+      }
+
+      // 新模块的配置声明代替旧模块的声明
+      if (oldModule.metadata?.configSchema) {
+        this.configSchemas.delete(moduleId);
+      }
+      if (newModule.metadata?.configSchema) {
+        this.registerConfigSchema(moduleId, newModule.metadata.configSchema);
+      }
+
+      this.modules.set(moduleId, newModule);
+      this.moduleStates.set(moduleId, ModuleState.REGISTERED);
+
+      if (state !== undefined && newModule.importState) {
+        await Promise.resolve(newModule.importState(state));
+      }
+
+      if (options.autoInit ?? wasInitialized) {
+        if (!(await this.initializeModule(moduleId))) {
+          throw new Error(`Failed to initialize replacement module: ${moduleId}`);
+        }
+        initialized = true;
+      }
+
+      if ((options.autoStart ?? wasStarted) && !(await this.startModule(moduleId))) {
+        throw new Error(`Failed to start replacement module: ${moduleId}`);
+      }
+    } catch (error) {
+      // 销毁已初始化的新模块，释放其定时器和事件订阅
+      if (initialized && newModule.destroy) {
+        try {
+          await runLifecycle(
+            moduleId,
+            'destroy',
+            () => newModule.destroy!(),
+            moduleOptions.destroyTimeout
+          );
+        } catch (destroyError) {
+          console.warn(`Failed to destroy replacement module ${moduleId}:`, destroyError);
+        }
+      }
+
+      // 恢复旧模块、错误记录和配置声明
+      this.modules.set(moduleId, oldModule);
+      this.moduleStates.set(moduleId, oldState);
+      if (oldError !== undefined) {
+        this.moduleErrors.set(moduleId, oldError);
+      } else {
+        this.moduleErrors.delete(moduleId);
+      }
+      if (oldSchema) {
+        this.configSchemas.set(moduleId, oldSchema);
+      } else {
+        this.configSchemas.delete(moduleId);
+      }
+
+      // 撤销交接，旧模块继续负责导出状态时交出的资源
+      if (state !== undefined && oldModule.importState) {
+        try {
+          await Promise.resolve(oldModule.importState(state));
+        } catch (importError) {
+          console.warn(`Failed to restore state of module ${moduleId}:`, importError);
+        }
+      }
+
+      if (wasStarted && oldModule.start) {
+        try {
+          await runLifecycle(
+            moduleId,
+            'start',
+            () => oldModule.start!(),
+            moduleOptions.startTimeout
+          );
+        } catch (restartError) {
+          this.setModuleError(moduleId, restartError);
+        }
+      }
+
       this.eventBus.emit('module:error', { moduleId, error });
       return false;
     }
+
+    // 通知依赖该模块的模块，依赖接口时传入接口ID
+    for (const [id, module] of this.modules.entries()) {
+      const dependency = id !== moduleId ? this.findDependency(module, moduleId) : undefined;
+      if (dependency && module.onDependencyReplaced) {
+        try {
+          await Promise.resolve(module.onDependencyReplaced(dependency, newModule, oldModule));
+        } catch (error) {
+          this.eventBus.emit('module:error', { moduleId: id, error });
+        }
+      }
+    }
+
+    try {
+      if (oldModule.destroy) {
+        await runLifecycle(
+          moduleId,
+          'destroy',
+          () => oldModule.destroy!(),
+          moduleOptions.destroyTimeout
+        );
+      }
+    } catch (error) {
+      console.warn(`Failed to destroy replaced module ${moduleId}:`, error);
+    }
+
+    this.eventBus.emit(KernelEventType.MODULE_REPLACE_COMPLETE, {
+      moduleId,
+      stateTransferred: state !== undefined
+    });
+    options.onReplaced?.(oldModule, newModule);
+    return true;
   }
 
   /**
@@ -422,53 +777,161 @@ export class FileChunkKernel {
   }
 
   /**
-   * 设置配置项
+   * 注册配置声明
+   * 之后对该路径下配置的修改都按声明校验，未设置的配置项通过getConfig读取时返回声明的默认值
+   *
+   * @param path 配置路径
+   * @param schema 配置声明
+   * @throws {ConfigValidationError} 现有配置不符合声明时抛出
    */
-  setConfig(path: string, value: any): void {
-    // 支持点表示法路径设置配置
-    const parts = path.split('.');
-    let current = this.config;
-
-    for (let i = 0; i < parts.length - 1; i++) {
-      const part = parts[i];
-      if (!current[part] || typeof current[part] !== 'object') {
-        current[part] = {};
-      }
-      current = current[part];
+  registerConfigSchema(path: string, schema: ConfigSchema): void {
+    const { violations } = validateConfig(schema, this.getConfigAt(this.config, path), path);
+    if (violations.length > 0) {
+      throw new ConfigValidationError(`Invalid config for ${path}`, violations);
     }
 
-    current[parts[parts.length - 1]] = value;
-    this.eventBus.emit('config:updated', { path, value });
+    this.configSchemas.set(path, schema);
+  }
+
+  /**
+   * 获取已注册的配置声明，键为声明所在的配置路径
+   */
+  getConfigSchemas(): Record<string, ConfigSchema> {
+    return Object.fromEntries(this.configSchemas);
+  }
+
+  /**
+   * 设置配置项
+   *
+   * @throws {ConfigValidationError} 修改后的配置不符合声明时抛出，配置保持不变
+   */
+  setConfig(path: string, value: any): void {
+    this.applyConfig(this.setConfigAt(this.config, path.split('.'), value), [path]);
   }
 
   /**
    * 获取配置项
+   * 配置项未设置且未提供默认值时返回配置声明中的默认值
    */
   getConfig<T = any>(path?: string, defaultValue?: T): T {
     if (!path) {
       return this.config as unknown as T;
     }
 
-    // 支持点表示法路径获取配置
-    const parts = path.split('.');
-    let current: any = this.config;
+    const value = this.getConfigAt(this.config, path);
+    if (value !== undefined) {
+      return value as T;
+    }
+
+    return defaultValue !== undefined ? defaultValue : (this.getConfigField(path)?.default as T);
+  }
+
+  /**
+   * 批量更新配置
+   *
+   * @throws {ConfigValidationError} 修改后的配置不符合声明时抛出，配置保持不变
+   */
+  updateConfig(config: KernelConfig): void {
+    this.applyConfig(this.deepMerge(this.config, config), this.collectConfigPaths(config));
+  }
 
-    for (const part of parts) {
+  /**
+   * 按配置声明校验修改后的配置，全部通过后替换当前配置并为每个变化的配置项发布CONFIG_CHANGED事件
+   *
+   * @param next 修改后的配置
+   * @param paths 修改的配置路径
+   */
+  private applyConfig(next: KernelConfig, paths: string[]): void {
+    const violations: ConfigViolation[] = [];
+    const overlaps = (a: string, b: string) =>
+      a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+
+    for (const [schemaPath, schema] of this.configSchemas) {
+      if (!paths.some(path => overlaps(path, schemaPath))) {
+        continue;
+      }
+
+      const result = validateConfig(schema, this.getConfigAt(next, schemaPath), schemaPath);
+      violations.push(...result.violations);
+      result.deprecations
+        .filter(deprecation => paths.some(path => overlaps(path, deprecation.path)))
+        .forEach(deprecation => console.warn(deprecation.message));
+    }
+
+    if (violations.length > 0) {
+      throw new ConfigValidationError('Invalid config', violations);
+    }
+
+    const previous = this.config;
+    this.config = next;
+
+    for (const path of paths) {
+      const oldValue = this.getConfigAt(previous, path);
+      const newValue = this.getConfigAt(next, path);
+      if (oldValue !== newValue) {
+        this.eventBus.emit(KernelEventType.CONFIG_CHANGED, { path, oldValue, newValue });
+      }
+    }
+  }
+
+  /**
+   * 按点表示法路径读取配置
+   */
+  private getConfigAt(config: KernelConfig, path: string): any {
+    let current: any = config;
+
+    for (const part of path.split('.')) {
       if (current === undefined || current === null || typeof current !== 'object') {
-        return defaultValue as T;
+        return undefined;
       }
       current = current[part];
     }
 
-    return current !== undefined ? current : (defaultValue as T);
+    return current;
   }
 
   /**
-   * 批量更新配置
+   * 按路径设置配置，返回新的配置对象，不修改原配置
    */
-  updateConfig(config: KernelConfig): void {
-    this.config = this.deepMerge(this.config, config);
-    this.eventBus.emit('config:batch:updated', { config });
+  private setConfigAt(config: KernelConfig, parts: string[], value: any): KernelConfig {
+    const [part, ...rest] = parts;
+    const child = this.isObject(config[part]) ? config[part] : {};
+
+    return { ...config, [part]: rest.length > 0 ? this.setConfigAt(child, rest, value) : value };
+  }
+
+  /**
+   * 收集批量更新中所有叶子配置项的路径
+   */
+  private collectConfigPaths(config: KernelConfig, basePath: string = ''): string[] {
+    return Object.keys(config).flatMap(key => {
+      const path = basePath ? `${basePath}.${key}` : key;
+      return this.isObject(config[key]) ? this.collectConfigPaths(config[key], path) : [path];
+    });
+  }
+
+  /**
+   * 查找配置路径对应的配置项声明
+   */
+  private getConfigField(path: string): ConfigFieldSchema | undefined {
+    for (const [schemaPath, schema] of this.configSchemas) {
+      if (!path.startsWith(`${schemaPath}.`)) {
+        continue;
+      }
+
+      let field: ConfigFieldSchema | undefined;
+      let properties: ConfigSchema | undefined = schema;
+      for (const part of path.slice(schemaPath.length + 1).split('.')) {
+        field = properties?.[part];
+        properties = field?.properties;
+      }
+
+      if (field) {
+        return field;
+      }
+    }
+
+    return undefined;
   }
 
   /**
@@ -502,135 +965,191 @@ export class FileChunkKernel {
   }
 
   /**
-   * 初始化所有模块
+   * 按依赖顺序初始化所有模块
    */
-  async initializeAll(): Promise<boolean> {
-    let success = true;
-
-    // 获取模块依赖图的拓扑排序
-    const sortedModules = this.topologicalSort();
-
-    for (const moduleId of sortedModules) {
-      const result = await this.initializeModule(moduleId);
-      if (!result) {
-        success = false;
-      }
-    }
-
-    return success;
+  async initializeAll(): Promise<KernelLifecycleReport> {
+    return this.runAll('init', this.topologicalSort(), moduleId =>
+      this.isStandbyImplementation(moduleId) ? undefined : this.initializeModule(moduleId)
+    );
   }
 
   /**
-   * 启动所有模块
+   * 按依赖顺序启动所有模块
+   * 必需模块启动失败时以依赖的逆序停止本次启动的模块，可选模块启动失败时其余模块继续运行
    */
-  async startAll(): Promise<boolean> {
-    let success = true;
+  async startAll(): Promise<KernelLifecycleReport> {
+    const report = await this.runAll('start', this.topologicalSort(), moduleId => {
+      if (
+        this.isStandbyImplementation(moduleId) ||
+        this.moduleStates.get(moduleId) === ModuleState.STARTED
+      ) {
+        return undefined;
+      }
 
-    // 获取模块依赖图的拓扑排序
-    const sortedModules = this.topologicalSort();
+      return this.startModule(moduleId);
+    });
 
-    for (const moduleId of sortedModules) {
-      const result = await this.startModule(moduleId);
-      if (!result) {
-        success = false;
+    if (!report.success) {
+      for (const moduleId of [...report.completed].reverse()) {
+        if (await this.stopModule(moduleId)) {
+          report.rolledBack.push(moduleId);
+        }
       }
     }
 
-    return success;
+    return report;
   }
 
   /**
-   * 停止所有模块
+   * 以依赖的逆序停止所有模块
    */
-  async stopAll(): Promise<boolean> {
-    let success = true;
-
-    // 以依赖的逆序停止模块
-    const sortedModules = this.topologicalSort().reverse();
-
-    for (const moduleId of sortedModules) {
-      const result = await this.stopModule(moduleId);
-      if (!result) {
-        success = false;
-      }
-    }
-
-    return success;
+  async stopAll(): Promise<KernelLifecycleReport> {
+    return this.runAll('stop', this.topologicalSort().reverse(), moduleId =>
+      this.moduleStates.get(moduleId) === ModuleState.STARTED
+        ? this.stopModule(moduleId)
+        : undefined
+    );
   }
 
   /**
-   * 销毁所有模块
+   * 以依赖的逆序销毁所有模块
    */
-  async destroyAll(): Promise<boolean> {
-    let success = true;
+  async destroyAll(): Promise<KernelLifecycleReport> {
+    return this.runAll('destroy', this.topologicalSort().reverse(), moduleId =>
+      this.destroyModule(moduleId)
+    );
+  }
 
-    // 以依赖的逆序销毁模块
-    const sortedModules = this.topologicalSort().reverse();
+  /**
+   * 依次执行模块的生命周期并汇总结果
+   *
+   * @param phase 生命周期阶段
+   * @param moduleIds 按执行顺序排列的模块ID
+   * @param run 执行单个模块的生命周期，返回undefined表示跳过该模块
+   */
+  private async runAll(
+    phase: ModuleLifecyclePhase,
+    moduleIds: string[],
+    run: (moduleId: string) => Promise<boolean> | undefined
+  ): Promise<KernelLifecycleReport> {
+    const report: KernelLifecycleReport = {
+      phase,
+      success: true,
+      completed: [],
+      failed: [],
+      rolledBack: []
+    };
 
-    for (const moduleId of sortedModules) {
-      const result = await this.destroyModule(moduleId);
+    for (const moduleId of moduleIds) {
+      const optional = !!this.moduleOptions.get(moduleId)?.optional;
+      const result = run(moduleId);
       if (!result) {
-        success = false;
+        continue;
+      }
+
+      if (await result) {
+        report.completed.push(moduleId);
+        continue;
+      }
+
+      report.failed.push({
+        moduleId,
+        error:
+          this.moduleErrors.get(moduleId) ?? new Error(`Failed to ${phase} module ${moduleId}`),
+        optional
+      });
+      if (!optional) {
+        report.success = false;
       }
     }
 
-    return success;
+    return report;
   }
 
   /**
-   * 模块拓扑排序（处理依赖关系）
+   * 将模块标记为出错并发布module:error事件
    */
-  private topologicalSort(): string[] {
-    const result: string[] = [];
-    const visited = new Set<string>();
-    const temp = new Set<string>();
-
-    // 深度优先搜索函数
-    const dfs = (moduleId: string): boolean => {
-      if (temp.has(moduleId)) {
-        // 检测到循环依赖
-        console.error(`Circular dependency detected: ${moduleId}`);
-        return false;
-      }
+  private setModuleError(moduleId: string, error: unknown): void {
+    this.moduleStates.set(moduleId, ModuleState.ERROR);
+    this.moduleErrors.set(moduleId, error);
+    this.eventBus.emit('module:error', { moduleId, error });
+  }
 
-      if (visited.has(moduleId)) {
-        return true;
-      }
+  /**
+   * 获取由内核配置决定的默认模块注册选项
+   */
+  private getDefaultModuleOptions(): KernelModuleOptions {
+    const { override, ...defaults } = DEFAULT_REGISTRATION_OPTIONS;
+    return {
+      ...defaults,
+      initTimeout: this.config.moduleInitTimeout ?? defaults.initTimeout,
+      startTimeout: this.config.moduleStartTimeout ?? defaults.startTimeout,
+      stopTimeout: this.config.moduleStopTimeout ?? defaults.stopTimeout,
+      destroyTimeout: this.config.moduleDestroyTimeout ?? defaults.destroyTimeout
+    };
+  }
 
-      temp.add(moduleId);
+  /**
+   * 查找模块对指定模块的依赖，返回声明的模块ID或接口ID
+   */
+  private findDependency(module: Module, moduleId: string): string | undefined {
+    return module.dependencies?.find(
+      depId => depId === moduleId || this.resolveModuleIds(depId).includes(moduleId)
+    );
+  }
 
-      const module = this.modules.get(moduleId);
-      if (module && module.dependencies) {
-        for (const depId of module.dependencies) {
-          if (!this.modules.has(depId)) {
-            console.error(
-              `Missing dependency: ${moduleId} depends on ${depId}, but it's not registered`
-            );
-            return false;
-          }
+  /**
+   * 是否为当前未选用的接口实现，这类模块被依赖解析选中前不初始化和启动
+   */
+  private isStandbyImplementation(moduleId: string): boolean {
+    const interfaceId = this.modules.get(moduleId)?.metadata?.implements;
+    return (
+      !!interfaceId &&
+      !this.modules.has(interfaceId) &&
+      this.resolveModuleIds(interfaceId)[0] !== moduleId
+    );
+  }
 
-          if (!dfs(depId)) {
-            return false;
-          }
-        }
-      }
+  /**
+   * 创建依赖缺失错误
+   */
+  private createDependencyError(moduleId: string, depId: string): ModuleDependencyError {
+    const hasImplementations = Array.from(this.modules.values()).some(
+      module => module.metadata?.implements === depId
+    );
+    const message = hasImplementations
+      ? `No available implementation of ${depId} for module ${moduleId}`
+      : `Missing dependency: ${moduleId} depends on ${depId}, but it's not registered`;
+
+    return new ModuleDependencyError(message, moduleId, depId);
+  }
 
-      temp.delete(moduleId);
-      visited.add(moduleId);
-      result.push(moduleId);
-      return true;
-    };
+  /**
+   * 获取平台模块提供的平台特性
+   */
+  private getPlatformFeatures(): Partial<PlatformFeatures> | undefined {
+    const platform = this.modules.get('platform') as
+      | (Module & { getFeatures?: () => PlatformFeatures })
+      | undefined;
+    return platform?.getFeatures?.();
+  }
 
-    // 遍历所有模块
-    for (const moduleId of this.modules.keys()) {
-      if (!visited.has(moduleId)) {
-        if (!dfs(moduleId)) {
-          throw new Error('Cannot sort modules due to circular dependency');
+  /**
+   * 模块拓扑排序（处理依赖关系）
+   * 接口的所有可用实现都排在依赖它的模块之前
+   *
+   * @throws {ModuleDependencyError} 依赖缺失或存在循环依赖时抛出
+   */
+  private topologicalSort(): string[] {
+    return sortByDependencies(Array.from(this.modules.keys()), moduleId =>
+      (this.modules.get(moduleId)!.dependencies || []).flatMap(depId => {
+        const candidates = this.resolveModuleIds(depId);
+        if (candidates.length === 0) {
+          throw this.createDependencyError(moduleId, depId);
         }
-      }
-    }
-
-    return result;
+        return candidates;
+      })
+    );
   }
 }
 
@@ -1,6 +1,13 @@
-import { ModuleMetadata, ModuleStatus, ModuleLifecycleError } from '../types/modules';
+import {
+  ModuleMetadata,
+  ModuleStatus,
+  ModuleLifecycleError,
+  ModuleDependencyError
+} from '../types/modules';
 import { Module as ModuleInterface } from '../types/modules';
 import { EventEmitter } from './event-bus';
+import { applyConfigDefaults, assertValidConfig } from './config-schema';
+import { EventArgs, FileChunkEventMap, FileChunkEventName } from './event-map';
 import { FileChunkKernel } from './kernel';
 
 /**
@@ -15,6 +22,11 @@ export interface Module {
   init(kernel: FileChunkKernel): void;
 }
 
+/**
+ * 模块事件订阅者ID序号
+ */
+let subscriberSequence = 0;
+
 /**
  * 模块基类
  *
@@ -53,15 +65,22 @@ export abstract class BaseModule implements ModuleInterface {
    */
   protected _config: Record<string, unknown> = {};
 
+  /**
+   * 事件订阅者ID，按实例区分，热替换时新旧模块的订阅互不影响
+   */
+  private readonly subscriberId: string;
+
   /**
    * 构造函数
    *
    * @param metadata - 模块元数据
    * @param config - 模块配置（可选）
+   * @throws {ConfigValidationError} 当配置不符合metadata.configSchema声明时抛出
    */
   constructor(metadata: ModuleMetadata, config?: Record<string, unknown>) {
     this.validateMetadata(metadata);
     this.metadata = { ...metadata };
+    this.subscriberId = `${metadata.id}#${++subscriberSequence}`;
 
     // 确保依赖项是数组
     if (!this.metadata.dependencies) {
@@ -72,6 +91,13 @@ export abstract class BaseModule implements ModuleInterface {
     if (config) {
       this._config = this._mergeConfig(this._config, config);
     }
+
+    // 按配置声明补全默认值并校验
+    const schema = this.metadata.configSchema;
+    if (schema) {
+      this._config = applyConfigDefaults(schema, this._config);
+      assertValidConfig(schema, this._config, this.metadata.id);
+    }
   }
 
   /**
@@ -159,9 +185,14 @@ export abstract class BaseModule implements ModuleInterface {
    *
    * @param config - 新的配置，将与现有配置合并
    * @param notify - 是否发送配置变更事件，默认为true
+   * @throws {ConfigValidationError} 当合并后的配置不符合metadata.configSchema声明时抛出，配置保持不变
    */
   updateConfig(config: Record<string, unknown>, notify: boolean = true): void {
-    this._config = this._mergeConfig(this._config, config);
+    const merged = this._mergeConfig(this._config, config);
+    if (this.metadata.configSchema) {
+      assertValidConfig(this.metadata.configSchema, merged, this.metadata.id);
+    }
+    this._config = merged;
 
     if (notify && this._eventBus) {
       this._eventBus.emit('module.config.updated', {
@@ -326,6 +357,9 @@ export abstract class BaseModule implements ModuleInterface {
       // 销毁后钩子
       await this.onAfterDestroy();
 
+      // 取消模块注册的所有事件订阅
+      this._eventBus?.offBySubscriber(this.subscriberId);
+
       this._status = ModuleStatus.REGISTERED;
     } catch (error) {
       this._status = ModuleStatus.ERROR;
@@ -350,28 +384,32 @@ export abstract class BaseModule implements ModuleInterface {
   }
 
   /**
-   * 保护方法：注册事件监听器
+   * 保护方法：注册事件监听器，模块销毁时自动取消
    * @param eventName - 事件名称
    * @param handler - 事件处理函数
-   * @returns 订阅ID，可用于取消订阅
    */
-  protected on<T>(eventName: string, handler: (data: T) => void): void {
+  protected on<K extends FileChunkEventName>(
+    eventName: K,
+    handler: (data: FileChunkEventMap[K]) => void
+  ): void {
     if (this._eventBus) {
-      this._eventBus.on(eventName, handler);
+      this._eventBus.on(eventName, handler, { subscriberId: this.subscriberId });
     } else {
       console.warn(`模块 ${this.metadata.id} 没有事件总线，无法注册事件: ${eventName}`);
     }
   }
 
   /**
-   * 保护方法：注册一次性事件监听器
+   * 保护方法：注册一次性事件监听器，模块销毁时自动取消
    * @param eventName - 事件名称
    * @param handler - 事件处理函数
-   * @returns 订阅ID，可用于取消订阅
    */
-  protected once<T>(eventName: string, handler: (data: T) => void): void {
+  protected once<K extends FileChunkEventName>(
+    eventName: K,
+    handler: (data: FileChunkEventMap[K]) => void
+  ): void {
     if (this._eventBus) {
-      this._eventBus.once(eventName, handler);
+      this._eventBus.once(eventName, handler, { subscriberId: this.subscriberId });
     } else {
       console.warn(`模块 ${this.metadata.id} 没有事件总线，无法注册事件: ${eventName}`);
     }
@@ -382,9 +420,12 @@ export abstract class BaseModule implements ModuleInterface {
    * @param eventName - 事件名称
    * @param eventData - 事件数据
    */
-  protected emit<T>(eventName: string, eventData: T): void {
+  protected emit<K extends FileChunkEventName>(
+    eventName: K,
+    ...eventData: EventArgs<FileChunkEventMap, K>
+  ): void {
     if (this._eventBus) {
-      this._eventBus.emit(eventName, eventData);
+      this._eventBus.emit(eventName, ...eventData);
     } else {
       console.warn(`模块 ${this.metadata.id} 没有事件总线，无法发布事件: ${eventName}`);
     }
@@ -455,16 +496,26 @@ export abstract class BaseModule implements ModuleInterface {
 
   /**
    * 获取其他模块实例
-   * @param moduleId - 模块ID
+   * @param moduleId - 模块ID或接口ID，接口ID解析到优先级最高的可用实现
    * @returns 模块实例
+   * @throws {ModuleDependencyError} 模块未注册或接口没有可用的实现时抛出
    */
   protected getModule<T>(moduleId: string): T {
     if (!this._kernel) {
       throw new Error(`模块 ${this.metadata.id} 没有关联内核实例，无法获取其他模块`);
     }
 
+    const module = this._kernel.getModule(moduleId);
+    if (!module) {
+      throw new ModuleDependencyError(
+        `模块 ${this.metadata.id} 依赖的 ${moduleId} 未注册或没有可用的实现`,
+        this.metadata.id,
+        moduleId
+      );
+    }
+
     // 使用双重断言解决类型约束问题
-    return this._kernel.getModule(moduleId) as unknown as T;
+    return module as unknown as T;
   }
 
   /**
@@ -560,7 +611,10 @@ export abstract class ModuleBase {
   /**
    * 注册事件监听器
    */
-  on<T = any>(event: string, handler: (data?: T) => void): () => void {
+  on<K extends FileChunkEventName>(
+    event: K,
+    handler: (data: FileChunkEventMap[K]) => void
+  ): () => void {
     // 假设内核提供了事件总线或事件方法
     const eventBus = this.kernel.getEventBus();
     eventBus.on(event, handler);
@@ -570,9 +624,9 @@ export abstract class ModuleBase {
   /**
    * 触发事件
    */
-  emit<T = any>(event: string, data?: T): void {
+  emit<K extends FileChunkEventName>(event: K, ...data: EventArgs<FileChunkEventMap, K>): void {
     // 假设内核提供了事件总线或事件方法
     const eventBus = this.kernel.getEventBus();
-    eventBus.emit(event, data);
+    eventBus.emit(event, ...data);
   }
 }
@@ -10,11 +10,13 @@ export * from './core';
 // 导出Workers模块
 export * from './workers';
 
-// 导出其他功能模块
-// TODO: 随着项目发展，添加更多模块导出
+// 导出上传器
+export * from './uploader';
 
 // 导出平台适配
-// export * from './platforms';
+export * from './platforms';
+
+// 传输、队列、存储和响应式模块通过子入口引入，例如 'filechunk-pro/transport'
 
 // 导出工具函数
 // export * from './utils';
@@ -23,4 +25,4 @@ export * from './workers';
 // export * from './types';
 
 // 版本信息
-export const VERSION = '0.1.0';
+export { VERSION } from './version';
@@ -1,6 +1,8 @@
 import { FileChunkKernel } from '../../core/kernel';
 import { Module } from '../../core/module-base';
 import { AdaptiveCompressionStrategy } from './compression-strategies';
+import { assertValidConfig } from '../../core/config-schema';
+import { ConfigSchema } from '../../types/config';
 
 /**
  * 压缩优先级配置文件类型
@@ -28,6 +30,61 @@ export interface CompressionOptions {
   profileType: CompressionProfile; // 压缩配置文件类型
 }
 
+/**
+ * 压缩管理器配置声明
+ */
+export const COMPRESSION_CONFIG_SCHEMA: ConfigSchema = {
+  enabled: { type: 'boolean', default: true, description: '是否启用压缩' },
+  minSize: { type: 'integer', min: 0, default: 50 * 1024, description: '最小压缩大小(字节)' },
+  defaultCompressionLevel: {
+    type: 'integer',
+    min: 1,
+    max: 9,
+    default: 6,
+    description: '默认压缩级别'
+  },
+  adaptiveCompression: { type: 'boolean', default: true, description: '是否启用自适应压缩' },
+  maxCompressionLevel: { type: 'integer', min: 1, max: 9, default: 9, description: '最大压缩级别' },
+  minCompressionLevel: { type: 'integer', min: 1, max: 9, default: 1, description: '最小压缩级别' },
+  mimeTypesToCompress: {
+    type: 'array',
+    items: { type: 'string' },
+    description: '要压缩的MIME类型列表'
+  },
+  compressionThreshold: {
+    type: 'number',
+    min: 0,
+    default: 1,
+    description: '网速(MB/s)低于此值时使用较高压缩级别'
+  },
+  devicePerformanceWeight: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 0.3,
+    description: '设备性能对压缩级别的影响权重'
+  },
+  adaptiveThreshold: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 0.1,
+    description: '最小压缩比例，低于此值使用较低压缩级别'
+  },
+  learningRate: { type: 'number', min: 0, max: 1, default: 0.2, description: '自适应学习率' },
+  useCompressionStream: {
+    type: 'boolean',
+    default: true,
+    description: '是否使用CompressionStream API'
+  },
+  profileType: {
+    type: 'string',
+    enum: ['speed', 'balanced', 'compression', 'maximum-compression', 'custom'],
+    default: 'custom',
+    description: '压缩配置文件类型'
+  }
+};
+
 export class CompressionManager implements Module {
   private options: CompressionOptions;
   private kernel!: FileChunkKernel; // 使用非空断言操作符，因为会在init方法中初始化
@@ -38,6 +95,8 @@ export class CompressionManager implements Module {
   private _lastCustomOptions: Partial<CompressionOptions> | null = null;
 
   constructor(options: Partial<CompressionOptions> = {}) {
+    assertValidConfig(COMPRESSION_CONFIG_SCHEMA, { ...options }, 'compression');
+
     this.options = {
       enabled: true,
       minSize: 50 * 1024, // 最小50KB才压缩
@@ -925,6 +984,12 @@ export class CompressionManager implements Module {
     profile: CompressionProfile,
     customOptions?: Partial<CompressionOptions>
   ): void {
+    assertValidConfig(
+      COMPRESSION_CONFIG_SCHEMA,
+      { ...customOptions, profileType: profile },
+      'compression'
+    );
+
     // 保存当前自定义设置（如果是自定义模式）
     if (this.options.profileType === 'custom') {
       this._lastCustomOptions = { ...this.options };
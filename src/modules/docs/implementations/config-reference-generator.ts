@@ -0,0 +1,88 @@
+/**
+ * 配置参考文档生成器
+ *
+ * 根据模块的配置声明生成配置项参考文档
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocsGenerateOptions } from '../interfaces';
+import { GeneratorResult } from './api-docs-generator';
+import { ConfigReferenceEntry, describeConfigSchema } from '../../../core/config-schema';
+import { ConfigSchema } from '../../../types/config';
+
+/**
+ * 配置参考文档生成器类
+ */
+export class ConfigReferenceGenerator {
+  /**
+   * 生成配置参考文档
+   *
+   * @param options 生成选项
+   * @param schemas 配置声明，键为模块ID或配置路径
+   * @returns 生成结果
+   */
+  async generate(
+    options: DocsGenerateOptions,
+    schemas: Record<string, ConfigSchema>
+  ): Promise<GeneratorResult> {
+    try {
+      const outputDir = options.outputDir || 'docs/config';
+
+      // 确保输出目录存在
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+
+      const filePath = path.join(outputDir, 'config-reference.md');
+      fs.writeFileSync(filePath, this.render(schemas), 'utf8');
+
+      return {
+        success: true,
+        files: [filePath]
+      };
+    } catch (error) {
+      return {
+        success: false,
+        files: [],
+        error: (error as Error).message
+      };
+    }
+  }
+
+  /**
+   * 将配置声明渲染为Markdown，每个模块一张配置项表格
+   *
+   * @param schemas 配置声明，键为模块ID或配置路径
+   * @returns Markdown文本
+   */
+  render(schemas: Record<string, ConfigSchema>): string {
+    const sections = Object.entries(schemas).map(([moduleId, schema]) =>
+      [
+        `## ${moduleId}`,
+        '',
+        '| 配置项 | 类型 | 默认值 | 说明 |',
+        '| --- | --- | --- | --- |',
+        ...describeConfigSchema(schema).map(entry => this.renderRow(entry))
+      ].join('\n')
+    );
+
+    return ['# 配置参考', '', ...sections.flatMap(section => [section, ''])].join('\n');
+  }
+
+  /**
+   * 渲染配置项表格行
+   */
+  private renderRow(entry: ConfigReferenceEntry): string {
+    const notes = [
+      entry.description,
+      entry.required ? '必填' : '',
+      ...entry.constraints,
+      entry.deprecated ? `**已弃用**：${entry.deprecated}` : ''
+    ].filter(Boolean);
+    const defaultValue = entry.default === undefined ? '-' : `\`${JSON.stringify(entry.default)}\``;
+
+    return `| \`${entry.path}\` | \`${entry.type}\` | ${defaultValue} | ${notes
+      .join('；')
+      .replace(/\|/g, '\\|')} |`;
+  }
+}
@@ -14,6 +14,11 @@ import { GuideGenerator } from './guide-generator';
 import { ExamplesGenerator } from './examples-generator';
 import { ArchitectureDocsGenerator } from './architecture-docs-generator';
 import { PluginGuideGenerator } from './plugin-guide-generator';
+import { ConfigReferenceGenerator } from './config-reference-generator';
+import { ConfigSchema } from '../../../types/config';
+import { HTTP_TRANSPORT_CONFIG_SCHEMA } from '../../transport/implementations/http-transport';
+import { UPLOAD_QUEUE_CONFIG_SCHEMA } from '../../queue/implementations/upload-queue-manager';
+import { COMPRESSION_CONFIG_SCHEMA } from '../../compression/compression-manager';
 import path from 'path';
 import fs from 'fs';
 
@@ -26,6 +31,7 @@ export class DocsModule extends BaseModule implements DocsModuleInterface {
   private examplesGenerator: ExamplesGenerator;
   private architectureDocsGenerator: ArchitectureDocsGenerator;
   private pluginGuideGenerator: PluginGuideGenerator;
+  private configReferenceGenerator: ConfigReferenceGenerator;
 
   /**
    * 构造函数
@@ -52,6 +58,7 @@ export class DocsModule extends BaseModule implements DocsModuleInterface {
       outputDir: 'docs/architecture'
     });
     this.pluginGuideGenerator = new PluginGuideGenerator();
+    this.configReferenceGenerator = new ConfigReferenceGenerator();
   }
 
   /**
@@ -309,6 +316,50 @@ export class DocsModule extends BaseModule implements DocsModuleInterface {
     }
   }
 
+  /**
+   * 生成配置参考文档
+   * 包含内置模块的配置声明，以及内核中已注册的配置声明
+   */
+  async generateConfigReference(options?: DocsGenerateOptions): Promise<DocsGenerationResult> {
+    try {
+      this.logInfo('开始生成配置参考文档');
+      const mergedOptions = this.getDefaultOptions(options);
+      const configOutputDir = path.join(mergedOptions.outputDir!, 'config');
+
+      this.ensureOutputDir(configOutputDir);
+
+      const schemas: Record<string, ConfigSchema> = {
+        transport: HTTP_TRANSPORT_CONFIG_SCHEMA,
+        queue: UPLOAD_QUEUE_CONFIG_SCHEMA,
+        compression: COMPRESSION_CONFIG_SCHEMA,
+        ...this._kernel?.getConfigSchemas()
+      };
+      const result = await this.configReferenceGenerator.generate(
+        { ...mergedOptions, outputDir: configOutputDir },
+        schemas
+      );
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      this.logInfo(`配置参考文档生成完成，输出至: ${configOutputDir}`);
+      return {
+        success: true,
+        outputPath: configOutputDir,
+        generatedFiles: result.files
+      };
+    } catch (error) {
+      this.logError('配置参考文档生成失败', error as Error);
+      return {
+        success: false,
+        outputPath: options?.outputDir || 'docs/config',
+        generatedFiles: [],
+        error: (error as Error).message
+      };
+    }
+  }
+
   /**
    * 生成所有文档
    */
@@ -320,20 +371,23 @@ export class DocsModule extends BaseModule implements DocsModuleInterface {
       this.ensureOutputDir(mergedOptions.outputDir!);
 
       // 并行生成所有文档
-      const [apiResult, guideResult, archResult, pluginResult, examplesResult] = await Promise.all([
-        this.generateApiDocs(mergedOptions),
-        this.generateGuides(mergedOptions),
-        this.generateArchitectureDocs(mergedOptions),
-        this.generatePluginGuides(mergedOptions),
-        this.generateExamples(mergedOptions)
-      ]);
+      const [apiResult, guideResult, archResult, pluginResult, examplesResult, configResult] =
+        await Promise.all([
+          this.generateApiDocs(mergedOptions),
+          this.generateGuides(mergedOptions),
+          this.generateArchitectureDocs(mergedOptions),
+          this.generatePluginGuides(mergedOptions),
+          this.generateExamples(mergedOptions),
+          this.generateConfigReference(mergedOptions)
+        ]);
 
       const allFiles = [
         ...apiResult.generatedFiles,
         ...guideResult.generatedFiles,
         ...archResult.generatedFiles,
         ...pluginResult.generatedFiles,
-        ...examplesResult.generatedFiles
+        ...examplesResult.generatedFiles,
+        ...configResult.generatedFiles
       ];
 
       this.logInfo(`所有文档生成完成，输出至: ${mergedOptions.outputDir}`);
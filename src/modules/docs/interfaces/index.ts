@@ -113,6 +113,13 @@ export interface DocsModuleInterface extends ModuleInterface {
    */
   generateExamples(options?: DocsGenerateOptions): Promise<DocsGenerationResult>;
 
+  /**
+   * 生成配置参考文档
+   * @param options 文档生成选项
+   * @returns 文档生成结果
+   */
+  generateConfigReference(options?: DocsGenerateOptions): Promise<DocsGenerationResult>;
+
   /**
    * 生成完整文档（包含所有类型的文档）
    * @param options 文档生成选项
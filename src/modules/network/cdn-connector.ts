@@ -1,4 +1,7 @@
-import { EventEmitter } from 'events';
+import { EventEmitter, EventHandler } from '../../core/event-bus';
+import { FileChunkEventMap, FileChunkEventName } from '../../core/event-map';
+import { PluginManager } from '../../plugins/plugin-manager';
+import { ExtensionPoint } from '../../plugins/plugin-api';
 
 /**
  * CDN提供商配置接口
@@ -76,6 +79,20 @@ export interface CDNConnectorOptions {
   testFilePath?: string;
   /** 启用日志 */
   enableLogging?: boolean;
+  /** 插件管理器，处理失效文件时执行NETWORK_CDN_SELECT扩展点钩子 */
+  pluginManager?: Pick<PluginManager, 'executeHook'>;
+}
+
+/**
+ * NETWORK_CDN_SELECT扩展点钩子上下文
+ * 处理失效文件时执行，钩子可修改providerId指定优先尝试的CDN提供商，
+ * 指定的提供商不存在或已离线时沿用当前活跃CDN；提供商列表不包含密钥和令牌
+ */
+export interface CdnSelectHookContext {
+  fileHash: string; // 文件哈希
+  fileName: string; // 文件名
+  providers: Array<Pick<CDNProvider, 'id' | 'name' | 'baseUrl' | 'status'>>; // 可选的CDN提供商
+  providerId: string | null; // 优先尝试的CDN提供商ID，默认为当前活跃CDN
 }
 
 /**
@@ -579,9 +596,12 @@ export class CDNConnector {
   public async handleInvalidatedFile(fileHash: string, fileName: string): Promise<string | null> {
     this.log(`处理失效的文件: ${fileName} (${fileHash})`);
 
-    // 尝试使用当前活跃CDN
-    if (this.activeCDN) {
-      const currentUrl = this.getCdnUrl(fileHash, fileName);
+    // 插件可指定优先尝试的CDN
+    const preferredCDN = await this.selectProvider(fileHash, fileName);
+
+    // 尝试使用优先CDN
+    if (preferredCDN) {
+      const currentUrl = this.getCdnUrl(fileHash, fileName, preferredCDN);
       if (currentUrl) {
         try {
           // 检查URL是否可访问
@@ -600,8 +620,8 @@ export class CDNConnector {
 
     // 当前活跃CDN不可用或文件不存在，尝试所有其他CDN
     for (const [providerId, provider] of this.providers.entries()) {
-      // 跳过当前活跃CDN，因为已经检查过了
-      if (providerId === this.activeCDN) continue;
+      // 跳过优先CDN，因为已经检查过了
+      if (providerId === preferredCDN) continue;
 
       // 跳过离线的CDN
       if (provider.status === 'offline') continue;
@@ -640,6 +660,36 @@ export class CDNConnector {
     return null; // 所有CDN均不可用
   }
 
+  /**
+   * 选择处理失效文件时优先尝试的CDN提供商
+   * @param fileHash 文件哈希
+   * @param fileName 文件名
+   */
+  private async selectProvider(fileHash: string, fileName: string): Promise<string | null> {
+    if (!this.options.pluginManager) {
+      return this.activeCDN;
+    }
+
+    const context: CdnSelectHookContext = {
+      fileHash,
+      fileName,
+      providers: Array.from(this.providers.values()).map(({ id, name, baseUrl, status }) => ({
+        id,
+        name,
+        baseUrl,
+        status
+      })),
+      providerId: this.activeCDN
+    };
+    await this.options.pluginManager.executeHook(ExtensionPoint.NETWORK_CDN_SELECT, context);
+
+    const selected = context.providerId ? this.providers.get(context.providerId) : undefined;
+    if (!selected || selected.status === 'offline') {
+      return this.activeCDN;
+    }
+    return selected.id;
+  }
+
   /**
    * 检查URL是否可访问
    * @param url 要检查的URL
@@ -789,7 +839,10 @@ export class CDNConnector {
    * @param event 事件名称
    * @param handler 事件处理函数
    */
-  public on(event: string, handler: (...args: any[]) => void): void {
+  public on<K extends FileChunkEventName>(
+    event: K,
+    handler: EventHandler<FileChunkEventMap[K]>
+  ): void {
     this.eventEmitter.on(event, handler);
   }
 
@@ -798,7 +851,10 @@ export class CDNConnector {
    * @param event 事件名称
    * @param handler 事件处理函数
    */
-  public off(event: string, handler: (...args: any[]) => void): void {
+  public off<K extends FileChunkEventName>(
+    event: K,
+    handler: EventHandler<FileChunkEventMap[K]>
+  ): void {
     this.eventEmitter.off(event, handler);
   }
 
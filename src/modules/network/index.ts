@@ -3,7 +3,8 @@ export {
   CDNConnector,
   CDNProvider,
   CDNConnectorOptions,
-  CDNHealthCheckResult
+  CDNHealthCheckResult,
+  CdnSelectHookContext
 } from './cdn-connector';
 
 /**
@@ -4,17 +4,58 @@
  */
 
 import { FileChunkKernel } from '../../../core/kernel';
+import { EventArgs, FileChunkEventMap } from '../../../core/event-map';
 import {
   PersistentQueue,
+  QueueAddHookContext,
   QueueEventHandler,
+  QueueEventName,
   QueueEvents,
   QueueItem,
+  QueueItemHookContext,
   QueueManagerOptions,
   QueueState,
   QueueStateSummary,
   QueueItemStatus,
   SerializedQueueItem
 } from '../interfaces';
+import { ProgressInfo } from '../../transport/interfaces';
+import { BandwidthLimiter } from '../../transport/bandwidth-limiter';
+import { assertValidConfig } from '../../../core/config-schema';
+import { ConfigSchema } from '../../../types/config';
+import { ExtensionPoint, runExtensionPoint } from '../../../plugins/plugin-api';
+
+/**
+ * 上传队列管理器配置声明
+ */
+export const UPLOAD_QUEUE_CONFIG_SCHEMA: ConfigSchema = {
+  maxQueueSize: { type: 'integer', min: 1, default: 100, description: '队列最大容量' },
+  persistQueue: { type: 'boolean', default: true, description: '是否持久化队列' },
+  autoResume: { type: 'boolean', default: true, description: '网络恢复时是否自动恢复' },
+  queueKey: { type: 'string', default: 'filechunk_upload_queue', description: '队列存储键名' },
+  processingKey: {
+    type: 'string',
+    default: 'filechunk_processing',
+    description: '处理中项目存储键名'
+  },
+  prioritySort: { type: 'function', description: '优先级排序函数，返回负数表示a排在b之前' },
+  maxConcurrentUploads: {
+    type: 'integer',
+    min: 1,
+    default: 3,
+    description: '同时上传的最大文件数'
+  },
+  chunkConcurrency: {
+    type: 'integer',
+    min: 1,
+    description: '全局分片并发预算，不设置时沿用传输模块配置'
+  },
+  enablePreemption: {
+    type: 'boolean',
+    default: false,
+    description: '排序靠前的排队项是否可暂停排序靠后的上传项以获得上传名额'
+  }
+};
 
 /**
  * 上传队列管理器实现类
@@ -29,9 +70,17 @@ export class UploadQueueManager implements PersistentQueue {
     persistQueue: true,
     autoResume: true,
     queueKey: 'filechunk_upload_queue',
-    processingKey: 'filechunk_processing'
+    processingKey: 'filechunk_processing',
+    maxConcurrentUploads: 3,
+    enablePreemption: false
   };
 
+  /**
+   * 传输模块暂停任务时抛出的错误代码
+   * @private
+   */
+  private static readonly PAUSED_ERROR_CODE = 'UPLOAD_PAUSED';
+
   /**
    * 队列管理选项
    * @private
@@ -45,10 +94,28 @@ export class UploadQueueManager implements PersistentQueue {
   private queue: QueueItem[] = [];
 
   /**
-   * 当前处理的项目
+   * 正在上传的项目（按开始顺序）
    * @private
    */
-  private processing: QueueItem | null = null;
+  private processing: Map<string, QueueItem> = new Map();
+
+  /**
+   * 被抢占、等待重新排队的项目ID
+   * @private
+   */
+  private preempted: Set<string> = new Set();
+
+  /**
+   * 传输模块热替换时从旧传输模块交接、等待重新排队的项目ID
+   * @private
+   */
+  private handedOff: Set<string> = new Set();
+
+  /**
+   * 进行中的上传调用，热替换传输模块时等待其结束
+   * @private
+   */
+  private uploads: Map<string, Promise<void>> = new Map();
 
   /**
    * 队列状态
@@ -58,6 +125,7 @@ export class UploadQueueManager implements PersistentQueue {
     status: QueueItemStatus.IDLE,
     isOnline: true,
     processingItem: null,
+    processingItems: [],
     activeUploads: 0,
     totalQueued: 0
   };
@@ -85,6 +153,8 @@ export class UploadQueueManager implements PersistentQueue {
    * @param options 队列管理选项
    */
   constructor(options: QueueManagerOptions = {}) {
+    assertValidConfig(UPLOAD_QUEUE_CONFIG_SCHEMA, { ...options }, 'queue');
+
     this.options = {
       ...UploadQueueManager.DEFAULT_OPTIONS,
       ...options,
@@ -100,7 +170,11 @@ export class UploadQueueManager implements PersistentQueue {
    * @private
    */
   private defaultPrioritySort(a: QueueItem, b: QueueItem): number {
-    // 默认按添加时间排序
+    // 优先级高的在前，优先级相同时按添加时间排序
+    const priorityDiff = (b.metadata.priority || 0) - (a.metadata.priority || 0);
+    if (priorityDiff !== 0) {
+      return priorityDiff;
+    }
     return a.metadata.addedAt - b.metadata.addedAt;
   }
 
@@ -118,6 +192,12 @@ export class UploadQueueManager implements PersistentQueue {
       // 初始化网络监听
       this.setupNetworkListeners();
 
+      // 设置全局分片并发预算
+      this.applyChunkConcurrency();
+
+      // 连接带宽限制模块
+      this.applyBandwidthLimiter();
+
       // 恢复持久化的队列
       if (this.options.persistQueue) {
         await this.restoreQueue();
@@ -135,6 +215,13 @@ export class UploadQueueManager implements PersistentQueue {
    * @returns 队列项ID
    */
   async addToQueue<T = File>(file: T, metadata: Record<string, any> = {}): Promise<string> {
+    // 插件可修改元数据或拒绝加入队列
+    ({ metadata } = await runExtensionPoint<QueueAddHookContext<T>>(
+      this.options.pluginManager,
+      ExtensionPoint.QUEUE_BEFORE_ADD,
+      { file, metadata: { ...metadata } }
+    ));
+
     // 生成队列项唯一ID
     const queueId = `upload_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -183,10 +270,11 @@ export class UploadQueueManager implements PersistentQueue {
     // 触发事件
     this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
 
-    // 如果是空闲状态且在线，开始处理队列
-    if (this.state.status === QueueItemStatus.IDLE && this.state.isOnline) {
-      this.processQueue();
-    }
+    const afterAddContext: QueueItemHookContext<T> = { item: queueItem };
+    await this.options.pluginManager?.executeHook(ExtensionPoint.QUEUE_AFTER_ADD, afterAddContext);
+
+    // 开始处理队列（空闲时启动，处理中时填充空闲名额或抢占）
+    this.processQueue();
 
     return queueId;
   }
@@ -225,126 +313,369 @@ export class UploadQueueManager implements PersistentQueue {
 
   /**
    * 处理上传队列
+   * 按排序顺序启动排队项，直到达到文件并发上限
    */
   async processQueue(): Promise<void> {
-    // 如果不在线、已暂停或正在处理，直接返回
-    if (
-      !this.state.isOnline ||
-      this.state.status === QueueItemStatus.PAUSED ||
-      this.state.status === QueueItemStatus.PROCESSING
-    ) {
+    // 如果不在线或已暂停，直接返回
+    if (!this.state.isOnline || this.state.status === QueueItemStatus.PAUSED) {
       return;
     }
 
-    // 标记为处理中
-    this.state.status = QueueItemStatus.PROCESSING;
-    this.emitEvent(QueueEvents.STATUS_CHANGED, this.state.status);
+    // 优先级抢占：为排序靠前的排队项腾出名额
+    if (this.options.enablePreemption) {
+      this.preemptLowerPriority();
+    }
+
+    const started: QueueItem[] = [];
+
+    // 填充空闲的上传名额，名额在启动前同步占用，避免重复启动
+    // 从存储恢复、尚未重新关联文件的项目不参与上传
+    while (this.processing.size < this.options.maxConcurrentUploads) {
+      const nextItem = this.queue.find(
+        item => item.status === QueueItemStatus.QUEUED && hasFile(item)
+      );
+      if (!nextItem) break;
+
+      this.markProcessing(nextItem);
+      started.push(nextItem);
+    }
 
-    // 获取队列中的下一个项目
-    const nextItem = this.queue.find(item => item.status === QueueItemStatus.QUEUED);
+    if (this.processing.size === 0) {
+      // 没有进行中的上传且队列中没有待处理项，标记为空闲
+      if (this.state.status !== QueueItemStatus.IDLE) {
+        this.state.status = QueueItemStatus.IDLE;
+        this.emitEvent(QueueEvents.STATUS_CHANGED, this.state.status);
+        this.emitEvent(QueueEvents.QUEUE_EMPTY);
+      }
+      return;
+    }
 
-    if (!nextItem) {
-      // 队列为空，标记为空闲
-      this.state.status = QueueItemStatus.IDLE;
+    // 标记为处理中
+    if (this.state.status !== QueueItemStatus.PROCESSING) {
+      this.state.status = QueueItemStatus.PROCESSING;
       this.emitEvent(QueueEvents.STATUS_CHANGED, this.state.status);
-      this.emitEvent(QueueEvents.QUEUE_EMPTY);
+    }
+
+    if (started.length === 0) {
       return;
     }
 
-    // 更新状态
-    nextItem.status = QueueItemStatus.PROCESSING;
-    this.processing = nextItem;
-    this.state.processingItem = nextItem.id;
-    this.state.activeUploads++;
+    // 先启动上传再持久化，避免等待存储期间暂停的项目仍开始上传
+    for (const item of started) {
+      const upload = this.uploadItem(item).finally(() => {
+        if (this.uploads.get(item.id) === upload) {
+          this.uploads.delete(item.id);
+        }
+      });
+      this.uploads.set(item.id, upload);
+    }
 
     // 持久化当前处理状态
-    if (this.options.persistQueue && this.storage) {
-      await this.storage.save(this.options.processingKey, this.serializeQueueItem(nextItem));
-      await this.persistQueue();
-    }
+    await this.persistProcessing();
+  }
+
+  /**
+   * 将队列项标记为上传中并占用名额
+   * @param item 队列项
+   * @private
+   */
+  private markProcessing(item: QueueItem): void {
+    item.status = QueueItemStatus.PROCESSING;
+    this.processing.set(item.id, item);
+    this.syncProcessingState();
+  }
 
+  /**
+   * 释放队列项占用的上传名额
+   * @param id 队列项ID
+   * @private
+   */
+  private releaseProcessing(id: string): void {
+    this.processing.delete(id);
+    this.preempted.delete(id);
+    this.handedOff.delete(id);
+    this.syncProcessingState();
+
+    // 任务速率上限在重新开始上传时按元数据重新设置
+    this.getBandwidthLimiter()?.removeTask(id);
+  }
+
+  /**
+   * 同步处理中项目到队列状态
+   * @private
+   */
+  private syncProcessingState(): void {
+    const ids = Array.from(this.processing.keys());
+    this.state.processingItems = ids;
+    this.state.processingItem = ids.length > 0 ? ids[ids.length - 1] : null;
+    this.state.activeUploads = ids.length;
+  }
+
+  /**
+   * 上传单个队列项
+   * 多个队列项并行调用，每个调用结束后释放名额并继续处理队列
+   * @param item 队列项
+   * @private
+   */
+  private async uploadItem(item: QueueItem): Promise<void> {
     // 触发事件
-    this.emitEvent(QueueEvents.UPLOAD_STARTED, nextItem);
+    this.emitEvent(QueueEvents.UPLOAD_STARTED, item);
 
     try {
-      // 使用传输模块上传文件
-      if (this.kernel) {
-        const transport = this.kernel.getModule('transport');
-        const platform = this.kernel.getModule('platform');
-
-        // 注册进度回调
-        const progressHandler = (progress: number) => {
-          if (nextItem && typeof progress === 'number') {
-            nextItem.progress = progress;
-            this.emitEvent(QueueEvents.UPLOAD_PROGRESS, { id: nextItem.id, progress });
+      if (!this.kernel) {
+        throw new Error('队列管理器未初始化');
+      }
+
+      // 插件可在上传开始前拒绝该项目
+      await runExtensionPoint<QueueItemHookContext>(
+        this.options.pluginManager,
+        ExtensionPoint.QUEUE_BEFORE_PROCESS,
+        { item }
+      );
+
+      // 等待插件期间队列被暂停时，传输任务尚未创建而无法暂停，不再开始上传
+      if (item.status !== QueueItemStatus.PROCESSING) {
+        const error = new Error(`上传已暂停: ${item.id}`);
+        (error as any).code = UploadQueueManager.PAUSED_ERROR_CODE;
+        throw error;
+      }
+
+      const transport = this.getTransport();
+      const platform = this.kernel.getModule('platform');
+
+      if (item.metadata.bandwidthLimit) {
+        this.getBandwidthLimiter()?.setTaskLimit(item.id, item.metadata.bandwidthLimit);
+      }
+
+      // 以队列项ID作为传输任务ID，暂停或抢占后重新上传时复用同一任务
+      const result = await transport.uploadFile(item.file, platform, {
+        taskId: item.id,
+        priority: item.metadata.priority || 0,
+        onProgress: (progress: number, info?: ProgressInfo) => {
+          // 服务端后处理阶段单独通知，项目在后处理完成后才算完成
+          if (info?.stage === 'processing') {
+            this.emitEvent(QueueEvents.UPLOAD_PROCESSING, {
+              id: item.id,
+              stage: info.stageName,
+              progress: info.stageProgress
+            });
+            return;
           }
-        };
 
-        this.kernel.on('progress', progressHandler as (data?: number) => void);
+          if (typeof progress === 'number') {
+            item.progress = progress;
+            this.emitEvent(QueueEvents.UPLOAD_PROGRESS, { id: item.id, progress });
+          }
+        }
+      });
 
-        // 执行上传
-        const result = await transport.start(nextItem.file, platform);
+      // 已被取消或清空的项目不再更新
+      if (!this.processing.has(item.id)) return;
 
-        // 更新队列项
-        nextItem.status = QueueItemStatus.COMPLETED;
-        nextItem.progress = 100;
-        nextItem.result = result;
+      // 更新队列项
+      item.status = QueueItemStatus.COMPLETED;
+      item.progress = 100;
+      item.result = result;
 
-        // 从队列中移除
-        this.queue = this.queue.filter(item => item.id !== nextItem.id);
-        this.state.totalQueued = this.queue.length;
+      // 从队列中移除
+      this.queue = this.queue.filter(queueItem => queueItem.id !== item.id);
+      this.state.totalQueued = this.queue.length;
+      this.releaseProcessing(item.id);
 
-        // 清除正在处理项
-        this.processing = null;
-        this.state.processingItem = null;
-        this.state.activeUploads--;
+      // 持久化队列
+      await this.persistProcessing();
 
-        // 持久化队列
-        if (this.options.persistQueue && this.storage) {
-          await this.storage.remove(this.options.processingKey);
-          await this.persistQueue();
+      // 触发事件
+      this.emitEvent(QueueEvents.UPLOAD_COMPLETED, { id: item.id, result });
+      this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+    } catch (error) {
+      if (!this.processing.has(item.id)) return;
+
+      if ((error as any)?.code === UploadQueueManager.PAUSED_ERROR_CODE) {
+        // 被抢占或交接给新传输模块的项目重新排队，队列暂停导致的项目保持暂停
+        const wasPreempted = this.preempted.has(item.id);
+        const requeue = wasPreempted || this.handedOff.has(item.id);
+        item.status = requeue ? QueueItemStatus.QUEUED : QueueItemStatus.PAUSED;
+        this.releaseProcessing(item.id);
+        this.sortQueue();
+
+        await this.persistProcessing();
+
+        if (wasPreempted) {
+          this.emitEvent(QueueEvents.UPLOAD_PREEMPTED, { id: item.id, progress: item.progress });
         }
+        this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+      } else {
+        // 上传失败
+        item.status = QueueItemStatus.FAILED;
+        item.error = {
+          message: error instanceof Error ? error.message : '上传失败',
+          code: 'UPLOAD_ERROR',
+          timestamp: Date.now()
+        };
+        item.retries++;
+        this.releaseProcessing(item.id);
+
+        // 持久化队列
+        await this.persistProcessing();
 
         // 触发事件
-        this.emitEvent(QueueEvents.UPLOAD_COMPLETED, { id: nextItem.id, result });
+        this.emitEvent(QueueEvents.UPLOAD_FAILED, { id: item.id, error });
         this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+      }
+    }
 
-        // 移除进度监听器
-        this.kernel.off('progress', progressHandler);
+    // 继续处理队列
+    this.processQueue();
+  }
 
-        // 继续处理队列
-        this.processQueue();
+  /**
+   * 优先级抢占
+   * 名额已满时，若排队项排序先于某个上传项，则暂停排序最靠后的上传项并让出名额
+   * @private
+   */
+  private preemptLowerPriority(): void {
+    const transport = this.kernel ? this.getTransport() : null;
+    if (!transport || typeof transport.pauseTask !== 'function') return;
+
+    const waiting = this.queue.filter(item => item.status === QueueItemStatus.QUEUED);
+    const running = Array.from(this.processing.values()).filter(
+      item => !this.preempted.has(item.id)
+    );
+
+    // 已被抢占但尚未释放的名额视为即将空出
+    let freeSlots = this.options.maxConcurrentUploads - running.length;
+
+    for (const candidate of waiting) {
+      if (freeSlots > 0) {
+        freeSlots--;
+        continue;
       }
-    } catch (error) {
-      if (!nextItem) return;
-
-      // 上传失败
-      nextItem.status = QueueItemStatus.FAILED;
-      nextItem.error = {
-        message: error instanceof Error ? error.message : '上传失败',
-        code: 'UPLOAD_ERROR',
-        timestamp: Date.now()
-      };
-      nextItem.retries++;
 
-      // 清除正在处理项
-      this.processing = null;
-      this.state.processingItem = null;
-      this.state.activeUploads--;
+      // 找到排序最靠后的上传项，排序相同时选择最后开始的
+      const victim = running.reduce<QueueItem | null>(
+        (last, item) => (!last || this.options.prioritySort(item, last) >= 0 ? item : last),
+        null
+      );
 
-      // 持久化队列
-      if (this.options.persistQueue && this.storage) {
-        await this.storage.remove(this.options.processingKey);
-        await this.persistQueue();
+      if (!victim || this.options.prioritySort(candidate, victim) >= 0) break;
+
+      if (transport.pauseTask(victim.id)) {
+        this.preempted.add(victim.id);
+        running.splice(running.indexOf(victim), 1);
+      } else {
+        break;
       }
+    }
+  }
 
-      // 触发事件
-      this.emitEvent(QueueEvents.UPLOAD_FAILED, { id: nextItem.id, error });
-      this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+  /**
+   * 依赖模块被热替换后调用
+   * 传输模块替换后，暂停正在旧传输模块上传的项目并重新排队，由新的传输模块继续上传
+   * @param moduleId 被替换的模块ID
+   * @param _newModule 新模块
+   * @param oldModule 被替换的模块
+   */
+  async onDependencyReplaced(moduleId: string, _newModule: unknown, oldModule: any): Promise<void> {
+    if (moduleId === 'storage') {
+      this.storage = this.kernel?.getModule('storage') ?? null;
+      return;
+    }
 
-      // 继续处理队列
-      this.processQueue();
+    if (moduleId !== 'transport') return;
+
+    this.applyChunkConcurrency();
+    this.applyBandwidthLimiter();
+
+    const pending: Promise<void>[] = [];
+    for (const item of this.processing.values()) {
+      if (!this.preempted.has(item.id)) {
+        if (typeof oldModule.pauseTask !== 'function' || !oldModule.pauseTask(item.id)) {
+          continue;
+        }
+        this.handedOff.add(item.id);
+      }
+
+      const upload = this.uploads.get(item.id);
+      if (upload) pending.push(upload);
     }
+
+    // 旧传输模块上的上传结束后才能销毁旧模块
+    await Promise.all(pending);
+  }
+
+  /**
+   * 获取传输模块
+   * @private
+   */
+  private getTransport(): any {
+    return this.kernel!.getModule<any>('transport');
+  }
+
+  /**
+   * 将全局分片并发预算应用到传输模块的并发管理器
+   * @private
+   */
+  private applyChunkConcurrency(): void {
+    if (!this.kernel || !this.options.chunkConcurrency) return;
+
+    const transport = this.getTransport();
+    if (!transport || typeof transport.getConcurrencyManager !== 'function') return;
+
+    const concurrencyManager = transport.getConcurrencyManager();
+    concurrencyManager.setMaxConcurrency(this.options.chunkConcurrency);
+    concurrencyManager.setConcurrency(this.options.chunkConcurrency);
+  }
+
+  /**
+   * 获取带宽限制模块，未注册时返回null
+   * @private
+   */
+  private getBandwidthLimiter(): BandwidthLimiter | null {
+    if (!this.kernel) return null;
+
+    const limiter = this.kernel.getModule<any>('bandwidth');
+    return limiter && typeof limiter.acquire === 'function' ? limiter : null;
+  }
+
+  /**
+   * 将带宽限制模块连接到传输模块，所有队列项的分片共享全局速率上限
+   * 传输模块已配置带宽限制器时保留其配置
+   * @private
+   */
+  private applyBandwidthLimiter(): void {
+    const limiter = this.getBandwidthLimiter();
+    if (!limiter) return;
+
+    const transport = this.getTransport();
+    if (!transport || typeof transport.setBandwidthLimiter !== 'function') return;
+
+    if (!transport.getBandwidthLimiter?.()) {
+      transport.setBandwidthLimiter(limiter);
+    }
+  }
+
+  /**
+   * 持久化队列与处理中项目
+   * 存储失败时只记录错误，不影响上传结果和队列事件
+   * @private
+   */
+  private async persistProcessing(): Promise<void> {
+    if (!this.options.persistQueue || !this.storage) return;
+
+    try {
+      if (this.processing.size > 0) {
+        await this.storage.save(
+          this.options.processingKey,
+          Array.from(this.processing.values()).map(item => this.serializeQueueItem(item))
+        );
+      } else {
+        await this.storage.remove(this.options.processingKey);
+      }
+    } catch (error) {
+      console.error('持久化处理中项目失败:', error);
+    }
+    await this.persistQueue();
   }
 
   /**
@@ -359,13 +690,14 @@ export class UploadQueueManager implements PersistentQueue {
     // 标记为暂停
     this.state.status = QueueItemStatus.PAUSED;
 
-    // 如果有正在处理的项目，暂停它
-    if (this.processing && this.kernel) {
-      const transport = this.kernel.getModule('transport');
-      transport.pause();
+    // 暂停所有正在上传的项目，服务端会话保留，恢复时续传
+    if (this.processing.size > 0 && this.kernel) {
+      const transport = this.getTransport();
 
-      // 更新状态
-      this.processing.status = QueueItemStatus.PAUSED;
+      for (const item of this.processing.values()) {
+        transport.pauseTask(item.id);
+        item.status = QueueItemStatus.PAUSED;
+      }
 
       // 持久化
       if (this.options.persistQueue && this.storage) {
@@ -390,26 +722,52 @@ export class UploadQueueManager implements PersistentQueue {
     // 标记为处理中
     this.state.status = QueueItemStatus.PROCESSING;
 
-    // 如果有暂停的处理项，恢复它
-    if (this.processing && this.kernel) {
-      const transport = this.kernel.getModule('transport');
-      transport.resume();
-
-      // 更新状态
-      this.processing.status = QueueItemStatus.PROCESSING;
-
-      // 持久化
-      if (this.options.persistQueue && this.storage) {
-        await this.persistQueue();
+    // 暂停的项目重新排队，按优先级重新获得上传名额；没有文件的项目等待重新关联文件
+    for (const item of this.queue) {
+      if (
+        item.status === QueueItemStatus.PAUSED &&
+        !this.processing.has(item.id) &&
+        hasFile(item)
+      ) {
+        item.status = QueueItemStatus.QUEUED;
       }
-    } else {
-      // 没有正在处理的项目，开始处理队列
-      this.processQueue();
+    }
+
+    // 持久化
+    if (this.options.persistQueue && this.storage) {
+      await this.persistQueue();
     }
 
     // 触发事件
     this.emitEvent(QueueEvents.STATUS_CHANGED, this.state.status);
     this.emitEvent(QueueEvents.QUEUE_RESUMED);
+
+    this.processQueue();
+  }
+
+  /**
+   * 为从存储恢复的项目重新关联文件
+   * 恢复的队列只保留元数据，关联文件后项目重新排队，队列未暂停时开始上传
+   * @param id 队列项ID
+   * @param file 重新选择的文件
+   * @returns 是否找到该项目
+   */
+  async attachFile<T = File>(id: string, file: T): Promise<boolean> {
+    const item = this.queue.find(queueItem => queueItem.id === id);
+    if (!item) return false;
+
+    item.file = file as unknown as File;
+    if (item.status === QueueItemStatus.PAUSED && this.state.status !== QueueItemStatus.PAUSED) {
+      item.status = QueueItemStatus.QUEUED;
+    }
+
+    if (this.options.persistQueue && this.storage) {
+      await this.persistQueue();
+    }
+
+    this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+    this.processQueue();
+    return true;
   }
 
   /**
@@ -425,34 +783,25 @@ export class UploadQueueManager implements PersistentQueue {
     }
 
     // 如果是正在处理的项目，取消上传
-    if (this.processing && this.processing.id === id && this.kernel) {
-      const transport = this.kernel.getModule('transport');
-      transport.cancel();
-
-      // 清除正在处理项
-      this.processing = null;
-      this.state.processingItem = null;
-      this.state.activeUploads--;
+    if (this.processing.has(id) && this.kernel) {
+      const transport = this.getTransport();
+      transport.cancelTask(id);
     }
+    this.releaseProcessing(id);
 
     // 从队列中移除
     this.queue = this.queue.filter(item => item.id !== id);
     this.state.totalQueued = this.queue.length;
 
     // 持久化队列
-    if (this.options.persistQueue && this.storage) {
-      if (id === this.state.processingItem) {
-        await this.storage.remove(this.options.processingKey);
-      }
-      await this.persistQueue();
-    }
+    await this.persistProcessing();
 
     // 触发事件
     this.emitEvent(QueueEvents.UPLOAD_CANCELED, { id });
     this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
 
-    // 如果当前没有处理中的项目，继续处理队列
-    if (!this.processing && this.state.status === QueueItemStatus.PROCESSING) {
+    // 继续处理队列，填充空出的名额
+    if (this.state.status === QueueItemStatus.PROCESSING) {
       this.processQueue();
     }
   }
@@ -461,17 +810,20 @@ export class UploadQueueManager implements PersistentQueue {
    * 清空上传队列
    */
   async clearQueue(): Promise<void> {
-    // 如果有正在处理的项目，取消它
-    if (this.processing && this.kernel) {
-      const transport = this.kernel.getModule('transport');
-      transport.cancel();
-
-      // 清除正在处理项
-      this.processing = null;
-      this.state.processingItem = null;
-      this.state.activeUploads = 0;
+    // 如果有正在处理的项目，取消它们
+    if (this.processing.size > 0 && this.kernel) {
+      const transport = this.getTransport();
+      for (const id of this.processing.keys()) {
+        transport.cancelTask(id);
+      }
     }
 
+    // 清除正在处理项
+    this.processing.clear();
+    this.preempted.clear();
+    this.handedOff.clear();
+    this.syncProcessingState();
+
     // 清空队列
     this.queue = [];
     this.state.totalQueued = 0;
@@ -497,6 +849,7 @@ export class UploadQueueManager implements PersistentQueue {
       status: this.state.status,
       isOnline: this.state.isOnline,
       processingItem: this.state.processingItem,
+      processingItems: [...this.state.processingItems],
       activeUploads: this.state.activeUploads,
       totalQueued: this.state.totalQueued,
       queue: this.queue.map(item => ({
@@ -530,6 +883,7 @@ export class UploadQueueManager implements PersistentQueue {
 
   /**
    * 更新队列项优先级
+   * 上传中的项目同步调整其分片的排队优先级；启用抢占时可能触发抢占
    * @param id 队列项ID
    * @param priority 新的优先级值
    */
@@ -542,6 +896,14 @@ export class UploadQueueManager implements PersistentQueue {
       // 重新排序
       this.sortQueue();
 
+      // 同步到传输任务
+      if (this.processing.has(id) && this.kernel) {
+        const transport = this.getTransport();
+        if (typeof transport.setTaskPriority === 'function') {
+          transport.setTaskPriority(id, priority);
+        }
+      }
+
       // 持久化
       if (this.options.persistQueue && this.storage) {
         await this.persistQueue();
@@ -549,7 +911,38 @@ export class UploadQueueManager implements PersistentQueue {
 
       // 触发事件
       this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
+
+      // 优先级变化可能需要抢占
+      if (this.state.status === QueueItemStatus.PROCESSING) {
+        this.processQueue();
+      }
+    }
+  }
+
+  /**
+   * 更新队列项上传速率上限
+   * 上传中的项目立即生效，其他项目在开始上传时生效
+   * @param id 队列项ID
+   * @param limit 字节/秒，0表示不单独限速
+   */
+  async setBandwidthLimit(id: string, limit: number): Promise<void> {
+    const item = this.getQueueItem(id);
+    if (!item) {
+      throw new Error(`未找到上传项: ${id}`);
+    }
+
+    item.metadata.bandwidthLimit = limit > 0 ? limit : undefined;
+
+    if (this.processing.has(id)) {
+      this.getBandwidthLimiter()?.setTaskLimit(id, limit);
     }
+
+    // 持久化
+    if (this.options.persistQueue && this.storage) {
+      await this.persistQueue();
+    }
+
+    this.emitEvent(QueueEvents.QUEUE_UPDATED, this.getQueueState());
   }
 
   /**
@@ -576,7 +969,10 @@ export class UploadQueueManager implements PersistentQueue {
    * @param handler 事件处理函数
    * @returns 取消订阅函数
    */
-  on<T = any>(event: QueueEvents | string, handler: QueueEventHandler<T>): () => void {
+  on<K extends QueueEventName>(
+    event: K,
+    handler: QueueEventHandler<FileChunkEventMap[K]>
+  ): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
     }
@@ -592,7 +988,7 @@ export class UploadQueueManager implements PersistentQueue {
    * @param event 事件类型
    * @param handler 事件处理函数
    */
-  off<T = any>(event: QueueEvents | string, handler: QueueEventHandler<T>): void {
+  off<K extends QueueEventName>(event: K, handler: QueueEventHandler<FileChunkEventMap[K]>): void {
     if (!this.listeners.has(event)) return;
 
     const handlers = this.listeners.get(event)!;
@@ -614,7 +1010,10 @@ export class UploadQueueManager implements PersistentQueue {
    * @param data 事件数据
    * @private
    */
-  private emitEvent<T = any>(event: QueueEvents | string, data?: T): void {
+  private emitEvent<K extends QueueEventName>(
+    event: K,
+    ...[data]: EventArgs<FileChunkEventMap, K>
+  ): void {
     if (!this.listeners.has(event)) return;
 
     const handlers = [...this.listeners.get(event)!]; // 创建副本以避免迭代时修改
@@ -673,11 +1072,14 @@ export class UploadQueueManager implements PersistentQueue {
    * @param handler 事件处理函数
    * @returns 取消订阅函数
    */
-  once<T = any>(event: QueueEvents | string, handler: QueueEventHandler<T>): () => void {
-    const onceHandler: QueueEventHandler = data => {
+  once<K extends QueueEventName>(
+    event: K,
+    handler: QueueEventHandler<FileChunkEventMap[K]>
+  ): () => void {
+    const onceHandler: QueueEventHandler<FileChunkEventMap[K]> = data => {
       // 先移除监听器，再调用处理函数
       this.off(event, onceHandler);
-      (handler as QueueEventHandler)(data);
+      handler(data);
     };
 
     return this.on(event, onceHandler);
@@ -773,7 +1175,8 @@ export class UploadQueueManager implements PersistentQueue {
    * @private
    */
   private serializeQueueItem(item: QueueItem): SerializedQueueItem {
-    const file = item.file as any;
+    // 从存储恢复的项目没有文件，保留恢复时的文件信息
+    const file = (item.file || (item as any).fileInfo || {}) as any;
 
     return {
       id: item.id,
@@ -807,12 +1210,21 @@ export class UploadQueueManager implements PersistentQueue {
         this.state.totalQueued = savedQueue.length;
       }
 
-      // 恢复正在处理的项目
-      const processingItem = await this.storage.get(this.options.processingKey);
-      if (processingItem) {
-        this.processing = processingItem;
-        this.state.processingItem = processingItem.id;
-        this.state.activeUploads = 1;
+      // 恢复上次中断时正在处理的项目，兼容旧版本保存的单个项目
+      const processingItems = await this.storage.get(this.options.processingKey);
+      if (processingItems) {
+        const ids = new Set(
+          (Array.isArray(processingItems) ? processingItems : [processingItems]).map(
+            (item: SerializedQueueItem) => item.id
+          )
+        );
+
+        // 中断的上传没有对应的传输任务和文件，保持暂停直到通过attachFile重新关联文件
+        for (const item of this.queue) {
+          if (ids.has(item.id)) {
+            item.status = QueueItemStatus.PAUSED;
+          }
+        }
       }
 
       // 触发事件
@@ -839,3 +1251,10 @@ export class UploadQueueManager implements PersistentQueue {
     }
   }
 }
+
+/**
+ * 队列项是否有可上传的文件
+ */
+function hasFile(item: QueueItem): boolean {
+  return item.file !== undefined && item.file !== null;
+}
@@ -4,6 +4,8 @@
  */
 
 import { FileChunkKernel } from '../../../core/kernel';
+import type { FileChunkEventMap } from '../../../core/event-map';
+import type { PluginManager } from '../../../plugins/plugin-manager';
 
 /**
  * 队列项状态枚举
@@ -42,6 +44,8 @@ export interface QueueItemMetadata {
   fileSize: number;
   // 文件类型
   fileType: string;
+  // 上传速率上限（字节/秒），需要注册带宽限制模块
+  bandwidthLimit?: number;
   // 自定义元数据，可以由用户扩展
   [key: string]: any;
 }
@@ -91,8 +95,10 @@ export interface QueueState {
   status: QueueStatus;
   // 网络是否在线
   isOnline: boolean;
-  // 当前处理项ID
+  // 当前处理项ID（最近开始上传的项目）
   processingItem: string | null;
+  // 所有正在上传的项目ID
+  processingItems: string[];
   // 活跃上传数量
   activeUploads: number;
   // 队列中的总项目数
@@ -131,9 +137,11 @@ export enum QueueEvents {
   QUEUE_EMPTY = 'queue:empty',
   UPLOAD_STARTED = 'upload:started',
   UPLOAD_PROGRESS = 'upload:progress',
+  UPLOAD_PROCESSING = 'upload:processing',
   UPLOAD_COMPLETED = 'upload:completed',
   UPLOAD_FAILED = 'upload:failed',
   UPLOAD_CANCELED = 'upload:canceled',
+  UPLOAD_PREEMPTED = 'upload:preempted',
   QUEUE_PAUSED = 'queue:paused',
   QUEUE_RESUMED = 'queue:resumed',
   QUEUE_STOPPED = 'queue:stopped',
@@ -146,6 +154,11 @@ export enum QueueEvents {
  */
 export type QueueEventHandler<T = any> = (data: T) => void;
 
+/**
+ * 队列管理器派发的事件，事件数据见FileChunkEventMap
+ */
+export type QueueEventName = Extract<keyof FileChunkEventMap, QueueEvents>;
+
 /**
  * 队列管理器选项接口
  */
@@ -160,8 +173,33 @@ export interface QueueManagerOptions {
   queueKey?: string;
   // 处理中项目存储键名
   processingKey?: string;
-  // 优先级排序函数
+  // 优先级排序函数，返回负数表示a排在b之前
   prioritySort?: (a: QueueItem, b: QueueItem) => number;
+  // 同时上传的最大文件数
+  maxConcurrentUploads?: number;
+  // 全局分片并发预算，所有文件的分片请求共享传输模块的并发管理器，不设置时沿用传输模块配置
+  chunkConcurrency?: number;
+  // 是否启用优先级抢占：排序靠前的排队项可暂停排序靠后的上传项以获得上传名额
+  enablePreemption?: boolean;
+  // 插件管理器，执行QUEUE_BEFORE_ADD、QUEUE_AFTER_ADD和QUEUE_BEFORE_PROCESS扩展点钩子
+  pluginManager?: Pick<PluginManager, 'executeHook'>;
+}
+
+/**
+ * QUEUE_BEFORE_ADD扩展点钩子上下文
+ * 钩子可修改metadata（如设置优先级，需要queue:modifyMetadata能力），返回false时拒绝加入队列
+ */
+export interface QueueAddHookContext<T = File> {
+  file: T;
+  metadata: Record<string, any>;
+}
+
+/**
+ * QUEUE_AFTER_ADD和QUEUE_BEFORE_PROCESS扩展点钩子上下文
+ * QUEUE_BEFORE_PROCESS在开始上传前执行，钩子返回false时该项目标记为失败
+ */
+export interface QueueItemHookContext<T = File> {
+  item: QueueItem<T>;
 }
 
 /**
@@ -207,6 +245,14 @@ export interface QueueManager {
    */
   resumeQueue(): Promise<void>;
 
+  /**
+   * 为从存储恢复的项目重新关联文件
+   * @param id 队列项ID
+   * @param file 重新选择的文件
+   * @returns 是否找到该项目
+   */
+  attachFile<T = File>(id: string, file: T): Promise<boolean>;
+
   /**
    * 取消指定上传
    * @param id 队列项ID
@@ -230,14 +276,17 @@ export interface QueueManager {
    * @param handler 事件处理函数
    * @returns 取消订阅函数
    */
-  on<T = any>(event: QueueEvents | string, handler: QueueEventHandler<T>): () => void;
+  on<K extends QueueEventName>(
+    event: K,
+    handler: QueueEventHandler<FileChunkEventMap[K]>
+  ): () => void;
 
   /**
    * 移除事件处理器
    * @param event 事件类型
    * @param handler 事件处理函数
    */
-  off<T = any>(event: QueueEvents | string, handler: QueueEventHandler<T>): void;
+  off<K extends QueueEventName>(event: K, handler: QueueEventHandler<FileChunkEventMap[K]>): void;
 
   /**
    * 获取指定队列项
@@ -253,6 +302,13 @@ export interface QueueManager {
    */
   updatePriority(id: string, priority: number): Promise<void>;
 
+  /**
+   * 更新队列项上传速率上限
+   * @param id 队列项ID
+   * @param limit 字节/秒，0表示不单独限速
+   */
+  setBandwidthLimit(id: string, limit: number): Promise<void>;
+
   /**
    * 获取队列长度
    * @returns 队列中的项目数量
@@ -1,5 +1,9 @@
 import { IKernel } from '../../core/interfaces';
-import { StorageEngine } from '../../modules/storage/storage-engine';
+import {
+  ByteRange,
+  StorageEngine,
+  supportsBinaryStorage
+} from '../../modules/storage/storage-engine';
 import { QueueItem, QueueStatus, QueueEvents } from './interfaces';
 
 /**
@@ -541,11 +545,13 @@ export class PersistentQueue {
       const storageId = `${id}_${Date.now()}`;
       const fileDataKey = this.getFileDataKey(storageId);
 
-      // 读取文件数据
-      const fileData = await this.readFileAsArrayBuffer(file);
-
-      // 存储文件数据
-      await this.storage.save(fileDataKey, fileData);
+      // 支持二进制存储时直接保存文件，避免序列化
+      if (supportsBinaryStorage(this.storage)) {
+        await this.storage.saveBlob(fileDataKey, file);
+      } else {
+        const fileData = await this.readFileAsArrayBuffer(file);
+        await this.storage.save(fileDataKey, fileData);
+      }
 
       // 更新队列项引用
       const updatedItem = {
@@ -576,6 +582,10 @@ export class PersistentQueue {
       if (!item || !item.fileRef?.storageId || !this.storage) return null;
 
       const fileDataKey = this.getFileDataKey(item.fileRef.storageId);
+      if (supportsBinaryStorage(this.storage)) {
+        const blob = await this.storage.getBlob(fileDataKey);
+        return blob ? await this.readFileAsArrayBuffer(blob) : null;
+      }
       return await this.storage.get<ArrayBuffer>(fileDataKey);
     } catch (error) {
       console.error('获取文件数据失败:', error);
@@ -583,6 +593,26 @@ export class PersistentQueue {
     }
   }
 
+  /**
+   * 按字节范围获取存储的文件数据，用于恢复上传时只读取需要的分片
+   * @param id 队列项ID
+   * @param range 字节范围
+   * @returns 文件数据，未存储或存储引擎不支持二进制数据时返回null
+   */
+  async getFileBlob(id: string, range?: ByteRange): Promise<Blob | null> {
+    try {
+      const item = this.queueItems.get(id);
+      if (!item || !item.fileRef?.storageId || !supportsBinaryStorage(this.storage)) {
+        return null;
+      }
+
+      return await this.storage.getBlob(this.getFileDataKey(item.fileRef.storageId), range);
+    } catch (error) {
+      console.error('获取文件数据失败:', error);
+      return null;
+    }
+  }
+
   /**
    * 更新已上传的分片信息
    * @param id 队列项ID
@@ -0,0 +1,197 @@
+import { ChunkEncryptionMetadata } from '../interfaces';
+import {
+  CHUNK_ENCRYPTION_VERSION,
+  base64ToBytes,
+  buildChunkAad,
+  buildChunkNonce,
+  deriveEcdhWrappingKey,
+  readChunkData
+} from './chunk-encryptor';
+
+/**
+ * 分片流式解密器
+ *
+ * 与ChunkEncryptor对应，用于下载加密文件：用接收方私钥解包数据密钥，
+ * 按元数据中的分片大小切分任意大小的密文数据块，逐分片解密并按顺序输出明文，
+ * 内存中最多缓存一个密文分片。
+ */
+export class ChunkDecryptor {
+  private metadata: ChunkEncryptionMetadata;
+  private key: CryptoKey;
+  private noncePrefix: Uint8Array;
+
+  /**
+   * 密文分片大小（明文分片大小 + 认证标签）
+   */
+  private encryptedChunkSize: number;
+
+  private buffer: Uint8Array = new Uint8Array(0);
+  private nextIndex = 0;
+
+  private constructor(metadata: ChunkEncryptionMetadata, key: CryptoKey) {
+    this.metadata = metadata;
+    this.key = key;
+    this.noncePrefix = base64ToBytes(metadata.noncePrefix);
+    this.encryptedChunkSize = metadata.chunkSize + metadata.tagLength / 8;
+  }
+
+  /**
+   * 解包数据密钥并创建解密器
+   * @param metadata 上传时写入的加密元数据
+   * @param privateKey 接收方私钥（RSA-OAEP需要unwrapKey用途，ECDH需要deriveBits用途）
+   */
+  static async create(
+    metadata: ChunkEncryptionMetadata,
+    privateKey: CryptoKey
+  ): Promise<ChunkDecryptor> {
+    if (metadata.version !== CHUNK_ENCRYPTION_VERSION || metadata.algorithm !== 'AES-GCM') {
+      throw new Error(`不支持的加密元数据: v${metadata.version} ${metadata.algorithm}`);
+    }
+
+    const key = await ChunkDecryptor.unwrapKey(metadata, privateKey);
+    return new ChunkDecryptor(metadata, key);
+  }
+
+  /**
+   * 解包数据密钥
+   */
+  static async unwrapKey(
+    metadata: ChunkEncryptionMetadata,
+    privateKey: CryptoKey
+  ): Promise<CryptoKey> {
+    const wrappedKey = base64ToBytes(metadata.wrappedKey);
+    const { algorithm, ephemeralPublicKey } = metadata.keyWrap;
+
+    if (algorithm === 'RSA-OAEP') {
+      return crypto.subtle.unwrapKey(
+        'raw',
+        wrappedKey,
+        privateKey,
+        { name: 'RSA-OAEP' },
+        { name: 'AES-GCM' },
+        false,
+        ['decrypt']
+      );
+    }
+
+    if (algorithm === 'ECDH-HKDF-A256KW') {
+      if (!ephemeralPublicKey) {
+        throw new Error('加密元数据缺少ECDH临时公钥');
+      }
+
+      const namedCurve = (privateKey.algorithm as EcKeyAlgorithm).namedCurve;
+      const publicKey = await crypto.subtle.importKey(
+        'jwk',
+        ephemeralPublicKey,
+        { name: 'ECDH', namedCurve },
+        false,
+        []
+      );
+      const unwrappingKey = await deriveEcdhWrappingKey(publicKey, privateKey, 'unwrapKey');
+
+      return crypto.subtle.unwrapKey(
+        'raw',
+        wrappedKey,
+        unwrappingKey,
+        'AES-KW',
+        { name: 'AES-GCM' },
+        false,
+        ['decrypt']
+      );
+    }
+
+    throw new Error(`不支持的密钥包装算法: ${algorithm}`);
+  }
+
+  /**
+   * 解密单个密文分片
+   * @param chunkIndex 分片索引
+   * @param data 密文分片
+   * @returns 明文分片
+   */
+  async decryptChunk(
+    chunkIndex: number,
+    data: Blob | ArrayBuffer | Uint8Array
+  ): Promise<ArrayBuffer> {
+    if (chunkIndex >= this.metadata.totalChunks) {
+      throw new Error(`分片索引超出范围: ${chunkIndex}/${this.metadata.totalChunks}`);
+    }
+
+    return crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: buildChunkNonce(this.noncePrefix, chunkIndex),
+        additionalData: buildChunkAad(this.metadata),
+        tagLength: this.metadata.tagLength
+      },
+      this.key,
+      await readChunkData(data)
+    );
+  }
+
+  /**
+   * 写入按顺序到达的密文数据
+   * @param data 任意大小的密文数据块
+   * @returns 本次可以输出的明文分片
+   */
+  async push(data: ArrayBuffer | Uint8Array): Promise<Uint8Array[]> {
+    const incoming = new Uint8Array(await readChunkData(data));
+    const merged = new Uint8Array(this.buffer.length + incoming.length);
+    merged.set(this.buffer);
+    merged.set(incoming, this.buffer.length);
+
+    const output: Uint8Array[] = [];
+    let offset = 0;
+
+    // 最后一个分片可能小于分片大小，只在flush时处理
+    while (merged.length - offset >= this.encryptedChunkSize) {
+      const chunk = merged.subarray(offset, offset + this.encryptedChunkSize);
+      output.push(new Uint8Array(await this.decryptChunk(this.nextIndex++, chunk)));
+      offset += this.encryptedChunkSize;
+    }
+
+    this.buffer = merged.slice(offset);
+    return output;
+  }
+
+  /**
+   * 结束输入，解密剩余数据并校验分片数量
+   * @returns 剩余的明文分片
+   */
+  async flush(): Promise<Uint8Array[]> {
+    const output: Uint8Array[] = [];
+
+    if (this.buffer.length > 0) {
+      output.push(new Uint8Array(await this.decryptChunk(this.nextIndex++, this.buffer)));
+      this.buffer = new Uint8Array(0);
+    }
+
+    if (this.nextIndex !== this.metadata.totalChunks) {
+      throw new Error(`密文分片数量不匹配: ${this.nextIndex}/${this.metadata.totalChunks}`);
+    }
+
+    return output;
+  }
+
+  /**
+   * 创建解密转换流，可直接用于 response.body.pipeThrough()
+   */
+  createStream(): TransformStream<Uint8Array, Uint8Array> {
+    if (typeof TransformStream === 'undefined') {
+      throw new Error('当前环境不支持TransformStream，请使用push/flush');
+    }
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+      transform: async (chunk, controller) => {
+        for (const plain of await this.push(chunk)) {
+          controller.enqueue(plain);
+        }
+      },
+      flush: async controller => {
+        for (const plain of await this.flush()) {
+          controller.enqueue(plain);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,358 @@
+import {
+  ChunkEncryptionHookContext,
+  ChunkEncryptionMetadata,
+  KeyWrapAlgorithm
+} from '../interfaces';
+import { FileChunk } from '../../transport/interfaces';
+import { PluginManager } from '../../../plugins/plugin-manager';
+import { ExtensionPoint } from '../../../plugins/plugin-api';
+
+/**
+ * 加密元数据格式版本
+ */
+export const CHUNK_ENCRYPTION_VERSION = 1;
+
+/**
+ * AES-GCM认证标签长度(位)
+ */
+export const CHUNK_TAG_LENGTH = 128;
+
+/**
+ * 随机数前缀长度(字节)，剩余4字节为分片索引
+ */
+const NONCE_PREFIX_LENGTH = 8;
+
+/**
+ * ECDH派生包装密钥时HKDF使用的info
+ */
+export const ECDH_KEY_WRAP_INFO = 'filechunk-pro/ecdh-hkdf-a256kw';
+
+/**
+ * 分片加密选项
+ */
+export interface ChunkEncryptorOptions {
+  /**
+   * 接收方公钥（RSA-OAEP或ECDH），用于包装每个文件的数据密钥
+   */
+  publicKey: CryptoKey;
+
+  /**
+   * 接收方公钥标识，写入加密元数据
+   */
+  keyId?: string;
+
+  /**
+   * 插件管理器，加密前后执行SECURITY_BEFORE_ENCRYPTION和SECURITY_AFTER_ENCRYPTION钩子
+   */
+  pluginManager?: Pick<PluginManager, 'executeHook'>;
+}
+
+/**
+ * 文件加密会话
+ */
+interface EncryptionSession {
+  key: CryptoKey;
+  noncePrefix: Uint8Array;
+  metadata: ChunkEncryptionMetadata;
+}
+
+/**
+ * 构造分片随机数：8字节文件随机前缀 + 4字节大端分片索引
+ * 同一分片重试时密文不变，不同分片的随机数不会重复
+ */
+export function buildChunkNonce(noncePrefix: Uint8Array, chunkIndex: number): Uint8Array {
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 4);
+  nonce.set(noncePrefix.subarray(0, NONCE_PREFIX_LENGTH));
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, chunkIndex);
+  return nonce;
+}
+
+/**
+ * 构造分片附加认证数据，绑定分片总数，防止密文被截断或拼接到其他文件
+ */
+export function buildChunkAad(metadata: ChunkEncryptionMetadata): Uint8Array {
+  const aad = new Uint8Array(8);
+  const view = new DataView(aad.buffer);
+  view.setUint32(0, metadata.version);
+  view.setUint32(4, metadata.totalChunks);
+  return aad;
+}
+
+/**
+ * 根据公钥算法确定包装算法
+ */
+export function getKeyWrapAlgorithm(key: CryptoKey): KeyWrapAlgorithm {
+  switch (key.algorithm.name) {
+    case 'RSA-OAEP':
+      return 'RSA-OAEP';
+    case 'ECDH':
+      return 'ECDH-HKDF-A256KW';
+    default:
+      throw new Error(`不支持的密钥包装算法: ${key.algorithm.name}`);
+  }
+}
+
+/**
+ * 从ECDH共享密钥派生AES-KW包装密钥
+ */
+export async function deriveEcdhWrappingKey(
+  publicKey: CryptoKey,
+  privateKey: CryptoKey,
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  const namedCurve = (privateKey.algorithm as EcKeyAlgorithm).namedCurve;
+  const bits = namedCurve === 'P-521' ? 528 : namedCurve === 'P-384' ? 384 : 256;
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    bits
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode(ECDH_KEY_WRAP_INFO)
+    },
+    hkdfKey,
+    { name: 'AES-KW', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * 判断是否为ArrayBuffer
+ * Web Crypto返回的缓冲区可能来自其他realm（如Worker或测试环境），不能用instanceof判断
+ */
+function isArrayBuffer(data: unknown): data is ArrayBuffer {
+  return Object.prototype.toString.call(data) === '[object ArrayBuffer]';
+}
+
+/**
+ * 读取分片数据
+ */
+export async function readChunkData(data: Blob | ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+  if (isArrayBuffer(data)) {
+    return data;
+  }
+
+  if (ArrayBuffer.isView(data)) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  }
+
+  if (typeof (data as Blob).arrayBuffer === 'function') {
+    return (data as Blob).arrayBuffer();
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error('读取分片数据失败'));
+    reader.readAsArrayBuffer(data as Blob);
+  });
+}
+
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.byteLength; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 分片加密器
+ *
+ * 每个文件生成独立的AES-256-GCM数据密钥，分片在上传前逐个加密，
+ * 随机数由文件随机前缀和分片索引确定，重试或乱序上传都能得到相同密文。
+ * 数据密钥用接收方公钥包装后写入加密元数据，服务端只保存密文和被包装的密钥。
+ *
+ * 数据密钥只保存在内存中：同一页面内暂停、重试可以续传，
+ * 页面刷新后无法恢复密钥，需要重新上传全部分片。
+ */
+export class ChunkEncryptor {
+  private options: ChunkEncryptorOptions;
+  private keyWrapAlgorithm: KeyWrapAlgorithm;
+  private sessions: Map<string, EncryptionSession> = new Map();
+
+  constructor(options: ChunkEncryptorOptions) {
+    if (!options || !options.publicKey) {
+      throw new Error('加密上传必须提供接收方公钥');
+    }
+
+    this.options = options;
+    this.keyWrapAlgorithm = getKeyWrapAlgorithm(options.publicKey);
+  }
+
+  /**
+   * 是否已有该文件的加密会话（可以续传已上传的密文分片）
+   * @param hash 文件哈希
+   */
+  hasSession(hash: string): boolean {
+    return this.sessions.has(hash);
+  }
+
+  /**
+   * 获取文件现有加密会话的元数据
+   * 续传时需沿用其中的分片大小，分片布局变化会生成新的数据密钥
+   * @param hash 文件哈希
+   */
+  getMetadata(hash: string): ChunkEncryptionMetadata | null {
+    return this.sessions.get(hash)?.metadata || null;
+  }
+
+  /**
+   * 创建或复用文件的加密会话
+   * @param params 文件信息
+   * @returns 加密元数据
+   */
+  async prepare(params: {
+    hash: string;
+    chunkSize: number;
+    totalChunks: number;
+    fileSize: number;
+  }): Promise<ChunkEncryptionMetadata> {
+    const existing = this.sessions.get(params.hash);
+    if (
+      existing &&
+      existing.metadata.chunkSize === params.chunkSize &&
+      existing.metadata.totalChunks === params.totalChunks
+    ) {
+      return existing.metadata;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+      'encrypt',
+      'decrypt'
+    ]);
+    const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+    const keyWrap = await this.wrapKey(key);
+
+    const metadata: ChunkEncryptionMetadata = {
+      version: CHUNK_ENCRYPTION_VERSION,
+      algorithm: 'AES-GCM',
+      keyLength: 256,
+      tagLength: CHUNK_TAG_LENGTH,
+      noncePrefix: bytesToBase64(noncePrefix),
+      chunkSize: params.chunkSize,
+      totalChunks: params.totalChunks,
+      plaintextSize: params.fileSize,
+      wrappedKey: keyWrap.wrappedKey,
+      keyWrap: {
+        algorithm: this.keyWrapAlgorithm,
+        keyId: this.options.keyId,
+        ephemeralPublicKey: keyWrap.ephemeralPublicKey
+      }
+    };
+
+    this.sessions.set(params.hash, { key, noncePrefix, metadata });
+    return metadata;
+  }
+
+  /**
+   * 加密分片
+   * @param hash 文件哈希
+   * @param chunk 明文分片
+   * @returns 密文分片，start/end仍为明文位置，size为密文大小
+   */
+  async encryptChunk(hash: string, chunk: FileChunk): Promise<FileChunk> {
+    const session = this.sessions.get(hash);
+    if (!session) {
+      throw new Error(`文件没有加密会话: ${hash}`);
+    }
+
+    const context: ChunkEncryptionHookContext = {
+      hash,
+      chunkIndex: chunk.index,
+      data: await readChunkData(chunk.data),
+      metadata: session.metadata
+    };
+
+    await this.runHook(ExtensionPoint.SECURITY_BEFORE_ENCRYPTION, context);
+
+    const nonce = buildChunkNonce(session.noncePrefix, chunk.index);
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: nonce,
+        additionalData: buildChunkAad(session.metadata),
+        tagLength: CHUNK_TAG_LENGTH
+      },
+      session.key,
+      context.data
+    );
+
+    const afterContext: ChunkEncryptionHookContext = { ...context, data: ciphertext, nonce };
+    await this.runHook(ExtensionPoint.SECURITY_AFTER_ENCRYPTION, afterContext);
+
+    return {
+      ...chunk,
+      data: new Blob([afterContext.data]),
+      size: afterContext.data.byteLength
+    };
+  }
+
+  /**
+   * 释放文件的加密会话
+   * @param hash 文件哈希
+   */
+  release(hash: string): void {
+    this.sessions.delete(hash);
+  }
+
+  /**
+   * 使用接收方公钥包装数据密钥
+   */
+  private async wrapKey(
+    key: CryptoKey
+  ): Promise<{ wrappedKey: string; ephemeralPublicKey?: JsonWebKey }> {
+    const publicKey = this.options.publicKey;
+
+    if (this.keyWrapAlgorithm === 'RSA-OAEP') {
+      const wrapped = await crypto.subtle.wrapKey('raw', key, publicKey, { name: 'RSA-OAEP' });
+      return { wrappedKey: bytesToBase64(wrapped) };
+    }
+
+    // ECDH：生成与接收方同曲线的临时密钥对
+    const namedCurve = (publicKey.algorithm as EcKeyAlgorithm).namedCurve;
+    const ephemeral = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve }, true, [
+      'deriveBits'
+    ])) as CryptoKeyPair;
+
+    const wrappingKey = await deriveEcdhWrappingKey(publicKey, ephemeral.privateKey, 'wrapKey');
+    const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW');
+
+    return {
+      wrappedKey: bytesToBase64(wrapped),
+      ephemeralPublicKey: await crypto.subtle.exportKey('jwk', ephemeral.publicKey)
+    };
+  }
+
+  /**
+   * 执行加密扩展点钩子，声明file:modifyContent能力的钩子可替换上下文中的data
+   */
+  private async runHook(point: ExtensionPoint, context: ChunkEncryptionHookContext): Promise<void> {
+    if (!this.options.pluginManager) return;
+
+    await this.options.pluginManager.executeHook(point, context);
+
+    if (!isArrayBuffer(context.data) && !ArrayBuffer.isView(context.data)) {
+      throw new Error(`扩展点 ${point} 返回了无效的分片数据`);
+    }
+    context.data = await readChunkData(context.data);
+  }
+}
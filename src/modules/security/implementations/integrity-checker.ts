@@ -63,15 +63,15 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
 
   /**
    * 计算文件哈希
-   * @param file - 文件对象
+   * @param file - 文件对象，或已读取的文件内容
    * @param algorithm - 覆盖默认哈希算法
    * @returns 哈希值
    */
-  async calculateHash(file: File, algorithm?: HashAlgorithm): Promise<string> {
+  async calculateHash(file: File | Blob | ArrayBuffer, algorithm?: HashAlgorithm): Promise<string> {
     const hashAlgorithm = algorithm || this.algorithm;
 
-    // 使用Web Worker计算
-    if (this.useWorker && typeof Worker !== 'undefined') {
+    // 使用Web Worker计算，已读取的内容直接在主线程计算
+    if (this.useWorker && typeof Worker !== 'undefined' && !this.isArrayBuffer(file)) {
       try {
         return await this.calculateHashWithWorker(file, hashAlgorithm);
       } catch (error) {
@@ -91,12 +91,16 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
 
   /**
    * 验证文件哈希
-   * @param file - 文件对象
+   * @param file - 文件对象，或已读取的文件内容
    * @param expectedHash - 期望的哈希值
    * @param algorithm - 哈希算法
    * @returns 哈希是否匹配
    */
-  async verifyHash(file: File, expectedHash: string, algorithm?: HashAlgorithm): Promise<boolean> {
+  async verifyHash(
+    file: File | Blob | ArrayBuffer,
+    expectedHash: string,
+    algorithm?: HashAlgorithm
+  ): Promise<boolean> {
     try {
       const actualHash = await this.calculateHash(file, algorithm);
       return actualHash.toLowerCase() === expectedHash.toLowerCase();
@@ -135,7 +139,10 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
    * @param algorithm - 哈希算法
    * @returns 哈希值
    */
-  private async calculateHashWithCrypto(file: File, algorithm: HashAlgorithm): Promise<string> {
+  private async calculateHashWithCrypto(
+    file: Blob | ArrayBuffer,
+    algorithm: HashAlgorithm
+  ): Promise<string> {
     const buffer = await this.readFileAsArrayBuffer(file);
     const hashBuffer = await crypto.subtle.digest(this.getAlgorithmName(algorithm), buffer);
 
@@ -149,7 +156,7 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
    * @param algorithm - 哈希算法
    * @returns 哈希值
    */
-  private calculateHashWithWorker(file: File, algorithm: HashAlgorithm): Promise<string> {
+  private calculateHashWithWorker(file: Blob, algorithm: HashAlgorithm): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
         // 创建Worker
@@ -191,7 +198,7 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
    * @param file - 文件对象
    * @returns 哈希值
    */
-  private calculateHashWithSparkMD5(file: File): Promise<string> {
+  private calculateHashWithSparkMD5(file: Blob | ArrayBuffer): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
         // 检查是否有SparkMD5
@@ -201,6 +208,12 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
 
         // 使用类型断言处理全局对象
         const sparkMD5 = (window as any).SparkMD5;
+
+        if (this.isArrayBuffer(file)) {
+          resolve(sparkMD5.ArrayBuffer.hash(file));
+          return;
+        }
+
         const spark = new sparkMD5.ArrayBuffer();
         const fileReader = new FileReader();
         let currentChunk = 0;
@@ -274,7 +287,11 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
    * @param file - 文件对象
    * @returns ArrayBuffer
    */
-  private readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  private readFileAsArrayBuffer(file: Blob | ArrayBuffer): Promise<ArrayBuffer> {
+    if (this.isArrayBuffer(file)) {
+      return Promise.resolve(file);
+    }
+
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
@@ -291,6 +308,13 @@ export class IntegrityChecker implements IntegrityCheckerInterface {
     });
   }
 
+  /**
+   * 判断是否为已读取的文件内容
+   */
+  private isArrayBuffer(data: unknown): data is ArrayBuffer {
+    return Object.prototype.toString.call(data) === '[object ArrayBuffer]';
+  }
+
   /**
    * 检查是否支持Web Crypto API
    * @returns 是否支持
@@ -7,6 +7,9 @@ export { CryptoHelper } from './implementations/crypto-helper';
 export { IntegrityChecker } from './implementations/integrity-checker';
 export { SecurityDefense } from './implementations/security-defense';
 export { SignatureGenerator } from './implementations/signature-generator';
+export { ChunkEncryptor } from './implementations/chunk-encryptor';
+export type { ChunkEncryptorOptions } from './implementations/chunk-encryptor';
+export { ChunkDecryptor } from './implementations/chunk-decryptor';
 
 // 默认导出安全管理器
 import { SecurityManager } from './implementations/security-manager';
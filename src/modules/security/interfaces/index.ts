@@ -181,6 +181,89 @@ export interface EncryptionInterface {
   importKey(key: string | ArrayBuffer, algorithm: string): Promise<CryptoKey>;
 }
 
+/**
+ * 文件数据密钥的包装算法
+ * - RSA-OAEP: 使用接收方RSA公钥直接加密数据密钥
+ * - ECDH-HKDF-A256KW: 临时ECDH密钥协商，HKDF-SHA256派生AES-KW密钥包装数据密钥
+ */
+export type KeyWrapAlgorithm = 'RSA-OAEP' | 'ECDH-HKDF-A256KW';
+
+/**
+ * 分片加密元数据
+ * 随合并请求提交给服务端，下载方据此解包数据密钥并逐分片解密
+ */
+export interface ChunkEncryptionMetadata {
+  /**
+   * 元数据格式版本
+   */
+  version: number;
+
+  /**
+   * 分片加密算法
+   */
+  algorithm: 'AES-GCM';
+
+  /**
+   * 数据密钥长度(位)
+   */
+  keyLength: number;
+
+  /**
+   * 认证标签长度(位)，每个密文分片比明文长 tagLength / 8 字节
+   */
+  tagLength: number;
+
+  /**
+   * 随机数前缀(Base64，8字节)，分片随机数为 前缀 + 4字节大端分片索引
+   */
+  noncePrefix: string;
+
+  /**
+   * 明文分片大小(字节)
+   */
+  chunkSize: number;
+
+  /**
+   * 分片总数
+   */
+  totalChunks: number;
+
+  /**
+   * 明文文件大小(字节)
+   */
+  plaintextSize: number;
+
+  /**
+   * 被包装的数据密钥(Base64)
+   */
+  wrappedKey: string;
+
+  /**
+   * 密钥包装信息
+   */
+  keyWrap: {
+    algorithm: KeyWrapAlgorithm;
+    /** 接收方公钥标识，便于服务端或下载方选择私钥 */
+    keyId?: string;
+    /** ECDH临时公钥 */
+    ephemeralPublicKey?: JsonWebKey;
+  };
+}
+
+/**
+ * 加密扩展点钩子上下文
+ * SECURITY_BEFORE_ENCRYPTION钩子可替换data（如压缩）；
+ * SECURITY_AFTER_ENCRYPTION钩子收到密文和随机数，用于审计或附加处理。
+ * 分片随机数固定，重试时会再次执行钩子，替换data的钩子对同一分片必须输出相同结果
+ */
+export interface ChunkEncryptionHookContext {
+  hash: string;
+  chunkIndex: number;
+  data: ArrayBuffer;
+  metadata: ChunkEncryptionMetadata;
+  nonce?: Uint8Array;
+}
+
 /**
  * 签名验证接口
  */
@@ -219,20 +302,24 @@ export interface SignatureInterface {
 export interface IntegrityCheckerInterface {
   /**
    * 计算文件哈希
-   * @param file - 文件对象
+   * @param file - 文件对象，或已读取的文件内容（如小程序下载的文件）
    * @param algorithm - 哈希算法（可选）
    * @returns 哈希字符串
    */
-  calculateHash(file: File, algorithm?: HashAlgorithm): Promise<string>;
+  calculateHash(file: File | Blob | ArrayBuffer, algorithm?: HashAlgorithm): Promise<string>;
 
   /**
    * 验证文件哈希
-   * @param file - 文件对象
+   * @param file - 文件对象，或已读取的文件内容
    * @param expectedHash - 期望的哈希值
    * @param algorithm - 哈希算法（可选）
    * @returns 哈希是否匹配
    */
-  verifyHash(file: File, expectedHash: string, algorithm?: HashAlgorithm): Promise<boolean>;
+  verifyHash(
+    file: File | Blob | ArrayBuffer,
+    expectedHash: string,
+    algorithm?: HashAlgorithm
+  ): Promise<boolean>;
 
   /**
    * 生成文件指纹
@@ -0,0 +1,364 @@
+import { StorageEngine } from './storage-engine';
+
+/**
+ * 检查点数据格式版本，格式变化时旧检查点视为失效
+ */
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * 上传检查点
+ * 客户端记录的上传会话状态，用于页面刷新或应用重启后续传
+ */
+export interface UploadCheckpoint {
+  /** 数据格式版本 */
+  version: number;
+  /** 文件内容哈希 */
+  hash: string;
+  /** 文件名 */
+  fileName: string;
+  /** 文件大小(字节) */
+  fileSize: number;
+  /** 分片大小(字节)，续传时必须沿用 */
+  chunkSize: number;
+  /** 分片总数 */
+  totalChunks: number;
+  /** 分片字节范围 [start, end)，自适应分片重新切分后记录，续传时按此切分 */
+  chunkRanges?: Array<[number, number]>;
+  /** 上传协议名称 */
+  protocol: string;
+  /** 服务端上传ID（如S3 UploadId） */
+  uploadId?: string;
+  /** 服务端上传URL（如tus上传地址） */
+  uploadUrl?: string;
+  /** 服务端已确认的分片索引 */
+  acknowledgedChunks: number[];
+  /** 分片的协议数据（如S3 ETag），[分片索引, 数据] */
+  parts: Array<[number, any]>;
+  /** 创建时间戳 */
+  createdAt: number;
+  /** 最后更新时间戳 */
+  updatedAt: number;
+}
+
+/**
+ * STORAGE_BEFORE_SAVE和STORAGE_AFTER_SAVE扩展点钩子上下文
+ * 传输模块保存上传检查点前后执行，检查点对钩子只读；
+ * BEFORE_SAVE钩子返回false时不保存检查点，上传照常进行但重启后不能从客户端记录续传
+ */
+export interface CheckpointHookContext {
+  hash: string; // 文件哈希
+  checkpoint: Omit<UploadCheckpoint, 'version' | 'createdAt' | 'updatedAt'>; // 将要保存的检查点
+}
+
+/**
+ * 检查点存储选项
+ */
+export interface CheckpointStoreOptions {
+  /**
+   * 存储键前缀
+   */
+  prefix?: string;
+
+  /**
+   * 检查点有效期(毫秒)，超过该时间未更新的检查点自动失效，默认7天
+   */
+  ttl?: number;
+}
+
+/**
+ * 上传检查点存储
+ *
+ * 基于IndexedDBStorage或MiniappStorage持久化每个文件的上传会话状态，
+ * 不依赖服务端的秒传检查接口即可恢复上传进度。
+ * 过期或格式损坏的检查点在读取或清理时自动删除。
+ */
+export class CheckpointStore {
+  private storage: StorageEngine;
+  private options: Required<CheckpointStoreOptions>;
+
+  /**
+   * 内存中的检查点缓存，避免每次确认分片都读取存储
+   */
+  private cache: Map<string, UploadCheckpoint> = new Map();
+
+  /**
+   * 每个文件的写入队列，保证并发确认的分片按顺序写入，不丢失更新
+   */
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  /**
+   * 索引写入队列，多个文件同时更新索引时不丢失更新
+   */
+  private indexQueue: Promise<void> = Promise.resolve();
+
+  constructor(storage: StorageEngine, options: CheckpointStoreOptions = {}) {
+    this.storage = storage;
+    this.options = {
+      prefix: 'checkpoint:',
+      ttl: 7 * 24 * 60 * 60 * 1000,
+      ...options
+    };
+  }
+
+  /**
+   * 读取检查点
+   * @param hash 文件哈希
+   * @returns 有效的检查点，不存在、过期或损坏时返回null
+   */
+  async load(hash: string): Promise<UploadCheckpoint | null> {
+    const cached = this.cache.get(hash);
+    if (cached && !this.isExpired(cached)) {
+      return this.copy(cached);
+    }
+
+    let data: unknown;
+    try {
+      data = await this.storage.get(this.getKey(hash));
+    } catch (error) {
+      console.warn('读取上传检查点失败:', error);
+      return null;
+    }
+
+    if (data === null || data === undefined) {
+      return null;
+    }
+
+    if (!this.isValid(data, hash) || this.isExpired(data)) {
+      await this.remove(hash);
+      return null;
+    }
+
+    this.cache.set(hash, data);
+    return this.copy(data);
+  }
+
+  /**
+   * 保存检查点
+   * @param checkpoint 检查点数据，版本号和时间戳由存储自动填写
+   */
+  async save(
+    checkpoint: Omit<UploadCheckpoint, 'version' | 'createdAt' | 'updatedAt'> &
+      Partial<Pick<UploadCheckpoint, 'createdAt'>>
+  ): Promise<void> {
+    const now = Date.now();
+    const record: UploadCheckpoint = {
+      ...checkpoint,
+      version: CHECKPOINT_VERSION,
+      acknowledgedChunks: Array.from(new Set(checkpoint.acknowledgedChunks)).sort((a, b) => a - b),
+      createdAt: checkpoint.createdAt || this.cache.get(checkpoint.hash)?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.cache.set(record.hash, record);
+    await this.enqueueWrite(record.hash);
+    await this.updateIndex(record.hash, true);
+  }
+
+  /**
+   * 记录服务端已确认的分片
+   * @param hash 文件哈希
+   * @param chunkIndex 分片索引
+   * @param part 分片的协议数据（如S3 ETag）
+   */
+  async acknowledge(hash: string, chunkIndex: number, part?: any): Promise<void> {
+    const checkpoint = this.cache.get(hash);
+    if (!checkpoint) {
+      return;
+    }
+
+    if (!checkpoint.acknowledgedChunks.includes(chunkIndex)) {
+      checkpoint.acknowledgedChunks.push(chunkIndex);
+      checkpoint.acknowledgedChunks.sort((a, b) => a - b);
+    }
+
+    if (part !== undefined) {
+      checkpoint.parts = checkpoint.parts.filter(([index]) => index !== chunkIndex);
+      checkpoint.parts.push([chunkIndex, part]);
+    }
+
+    checkpoint.updatedAt = Date.now();
+    await this.enqueueWrite(hash);
+  }
+
+  /**
+   * 删除检查点
+   * @param hash 文件哈希
+   */
+  async remove(hash: string): Promise<void> {
+    this.cache.delete(hash);
+
+    // 等待已排队的写入完成，避免删除后被旧数据覆盖
+    await this.writeQueues.get(hash);
+
+    try {
+      await this.storage.remove(this.getKey(hash));
+    } catch (error) {
+      console.warn('删除上传检查点失败:', error);
+    }
+    await this.updateIndex(hash, false);
+  }
+
+  /**
+   * 清理过期和损坏的检查点
+   * @returns 清理的检查点数量
+   */
+  async cleanupExpired(): Promise<number> {
+    const index = await this.readIndex();
+    let removed = 0;
+
+    for (const hash of Object.keys(index)) {
+      // 索引中的更新时间可能落后于检查点，读取检查点本身判断
+      const checkpoint = await this.load(hash);
+      if (!checkpoint) {
+        await this.updateIndex(hash, false);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * 获取所有有效检查点对应的文件哈希
+   */
+  async list(): Promise<string[]> {
+    return Object.keys(await this.readIndex());
+  }
+
+  /**
+   * 将缓存中的检查点加入写入队列
+   */
+  private enqueueWrite(hash: string): Promise<void> {
+    const previous = this.writeQueues.get(hash) || Promise.resolve();
+
+    const next = previous.then(async () => {
+      const checkpoint = this.cache.get(hash);
+      // 检查点已被删除，跳过写入
+      if (!checkpoint) return;
+
+      try {
+        await this.storage.save(this.getKey(hash), checkpoint);
+      } catch (error) {
+        console.warn('保存上传检查点失败:', error);
+      }
+    });
+
+    this.writeQueues.set(hash, next);
+    next.then(() => {
+      if (this.writeQueues.get(hash) === next) {
+        this.writeQueues.delete(hash);
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * 读取检查点索引
+   * 存储引擎没有统一的键枚举接口，因此单独维护索引用于清理
+   */
+  private async readIndex(): Promise<Record<string, number>> {
+    try {
+      const index = await this.storage.get<Record<string, number>>(this.getIndexKey());
+      return index && typeof index === 'object' && !Array.isArray(index) ? index : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 更新检查点索引
+   */
+  private updateIndex(hash: string, present: boolean): Promise<void> {
+    this.indexQueue = this.indexQueue.then(async () => {
+      const index = await this.readIndex();
+
+      if (present) {
+        index[hash] = Date.now();
+      } else if (hash in index) {
+        delete index[hash];
+      } else {
+        return;
+      }
+
+      try {
+        await this.storage.save(this.getIndexKey(), index);
+      } catch (error) {
+        console.warn('更新上传检查点索引失败:', error);
+      }
+    });
+
+    return this.indexQueue;
+  }
+
+  /**
+   * 校验检查点结构
+   */
+  private isValid(data: any, hash: string): data is UploadCheckpoint {
+    if (!data || typeof data !== 'object') return false;
+    if (data.version !== CHECKPOINT_VERSION || data.hash !== hash) return false;
+
+    const { chunkSize, totalChunks, fileSize, chunkRanges, acknowledgedChunks, parts, updatedAt } =
+      data;
+
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) return false;
+    if (!Number.isInteger(totalChunks) || totalChunks <= 0) return false;
+    if (!Number.isInteger(fileSize) || fileSize < 0) return false;
+    if (chunkRanges !== undefined) {
+      if (!this.isValidRanges(chunkRanges, totalChunks, fileSize)) return false;
+    } else if (Math.ceil(fileSize / chunkSize) !== totalChunks && fileSize > 0) {
+      return false;
+    }
+    if (typeof updatedAt !== 'number') return false;
+    if (!Array.isArray(parts)) return false;
+
+    return (
+      Array.isArray(acknowledgedChunks) &&
+      acknowledgedChunks.every(
+        (index: unknown) =>
+          Number.isInteger(index) && (index as number) >= 0 && (index as number) < totalChunks
+      )
+    );
+  }
+
+  /**
+   * 校验分片字节范围，范围必须首尾相接并覆盖整个文件
+   */
+  private isValidRanges(ranges: unknown, totalChunks: number, fileSize: number): boolean {
+    if (!Array.isArray(ranges) || ranges.length !== totalChunks) return false;
+
+    let offset = 0;
+    for (const range of ranges) {
+      if (!Array.isArray(range) || range[0] !== offset || !(range[1] > range[0])) return false;
+      offset = range[1];
+    }
+
+    return offset === fileSize;
+  }
+
+  /**
+   * 检查点是否过期
+   */
+  private isExpired(checkpoint: UploadCheckpoint): boolean {
+    return Date.now() - checkpoint.updatedAt > this.options.ttl;
+  }
+
+  /**
+   * 复制检查点，避免调用方修改缓存
+   */
+  private copy(checkpoint: UploadCheckpoint): UploadCheckpoint {
+    return {
+      ...checkpoint,
+      acknowledgedChunks: [...checkpoint.acknowledgedChunks],
+      parts: checkpoint.parts.map(([index, part]) => [index, part])
+    };
+  }
+
+  private getKey(hash: string): string {
+    return `${this.options.prefix}${hash}`;
+  }
+
+  private getIndexKey(): string {
+    return `${this.options.prefix}index`;
+  }
+}
@@ -0,0 +1,759 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BaseStorageEngine,
+  BinaryStorage,
+  BlobStreamOptions,
+  ByteRange,
+  StorageEngine
+} from './storage-engine';
+import {
+  CacheCleanupStrategy,
+  IStorageOptions,
+  StorageItem,
+  StorageStats
+} from '../../types/storage';
+
+/**
+ * 获取存储锁超时的错误码
+ */
+export const STORAGE_LOCK_TIMEOUT_ERROR_CODE = 'STORAGE_LOCK_TIMEOUT';
+
+/**
+ * 索引文件名
+ */
+const INDEX_FILE = 'index.json';
+
+/**
+ * 锁文件名
+ */
+const LOCK_FILE = '.lock';
+
+/**
+ * 索引文件格式版本
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * 数据文件扩展名
+ */
+const DATA_EXTENSION = '.data';
+
+/**
+ * 临时文件扩展名，写入完成后重命名为目标文件
+ */
+const TEMP_EXTENSION = '.tmp';
+
+/**
+ * 打开存储时清理的临时文件的最小存在时间：1小时
+ * 更新的临时文件可能正由其他进程写入
+ */
+const TEMP_FILE_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * 写入Blob时每次读入内存的字节数
+ */
+const WRITE_SLICE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * 按段读取二进制数据时默认的每段大小：1MB
+ */
+const DEFAULT_STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * 获取锁失败后的重试间隔(毫秒)
+ */
+const LOCK_RETRY_INTERVAL = 20;
+
+/**
+ * 文件存储记录
+ */
+interface FileSystemRecord extends StorageItem {
+  /** 二进制数据的MIME类型 */
+  mimeType?: string;
+}
+
+/**
+ * 索引文件内容
+ */
+interface FileSystemIndex {
+  version: number;
+  lastCleanup: number;
+  items: FileSystemRecord[];
+}
+
+/**
+ * 文件系统存储引擎配置
+ */
+export interface FileSystemStorageOptions extends IStorageOptions {
+  /** 存储根目录，默认为系统临时目录，数据保存在其中以前缀命名的子目录 */
+  directory?: string;
+  /** 等待存储锁的最长时间(毫秒)，默认10秒 */
+  lockTimeout?: number;
+  /** 锁文件超过该时间未释放时视为持有进程已退出(毫秒)，默认30秒 */
+  staleLockTime?: number;
+}
+
+/**
+ * 文件系统存储引擎实现
+ * 用于Node.js环境，数据保存为文件，元数据保存在同一目录的索引文件中。
+ * 文件先写入临时文件再重命名，读取方不会看到写入一半的数据；
+ * 修改索引时持有锁文件，同一目录可由多个进程共享
+ */
+export class FileSystemStorage extends BaseStorageEngine implements StorageEngine, BinaryStorage {
+  private directory: string;
+  private lockTimeout: number;
+  private staleLockTime: number;
+  private initPromise: Promise<void> | null = null;
+  private lockQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 构造文件系统存储引擎
+   */
+  constructor(options: FileSystemStorageOptions = {}) {
+    const { directory, lockTimeout, staleLockTime, ...storageOptions } = options;
+    super(storageOptions);
+
+    this.directory = path.join(
+      directory || os.tmpdir(),
+      encodeURIComponent(`${this.options.prefix}storage`)
+    );
+    this.lockTimeout = lockTimeout ?? 10000;
+    this.staleLockTime = staleLockTime ?? 30000;
+  }
+
+  /**
+   * 初始化存储引擎
+   */
+  override async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.open();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * 创建存储目录，删除中断遗留的文件和已过期的数据
+   */
+  private async open(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    await this.withIndex(async index => {
+      const fileNames = new Set(index.items.map(record => this.getFileName(record.key)));
+      const now = Date.now();
+
+      for (const name of await fs.readdir(this.directory)) {
+        if (name.endsWith(TEMP_EXTENSION)) {
+          const stats = await fs.stat(this.getPath(name)).catch(() => null);
+          if (stats && now - stats.mtimeMs > TEMP_FILE_MAX_AGE) {
+            await fs.rm(this.getPath(name), { force: true });
+          }
+        } else if (name.endsWith(DATA_EXTENSION) && !fileNames.has(name)) {
+          // 重命名数据文件后、更新索引前中断会遗留没有记录的数据文件
+          await fs.rm(this.getPath(name), { force: true });
+        }
+      }
+
+      return this.deleteRecords(
+        index,
+        index.items.filter(record => this.isExpired(record))
+      );
+    });
+  }
+
+  /**
+   * 保存数据到存储
+   */
+  async save<T>(key: string, data: T): Promise<void> {
+    await this.init();
+    await this.writeRecord(key, Buffer.from(this.serialize(data), 'utf8'), { isBinary: false });
+  }
+
+  /**
+   * 获取存储的数据
+   * 二进制数据以Blob返回
+   */
+  async get<T>(key: string): Promise<T | null> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record) return null;
+
+    if (record.isBinary) {
+      return (await this.getBlob(key)) as T | null;
+    }
+
+    const buffer = await this.readRecord(record);
+    return buffer ? this.deserialize(buffer.toString('utf8')) : null;
+  }
+
+  /**
+   * 保存二进制数据
+   * Blob分段读入内存写入文件
+   */
+  async saveBlob(key: string, data: Blob | ArrayBuffer | ArrayBufferView): Promise<void> {
+    await this.init();
+
+    const binary = ArrayBuffer.isView(data)
+      ? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+      : data instanceof ArrayBuffer
+        ? Buffer.from(data)
+        : data;
+
+    await this.writeRecord(key, binary, {
+      isBinary: true,
+      mimeType: 'type' in binary ? binary.type : ''
+    });
+  }
+
+  /**
+   * 获取二进制数据
+   * @param key 键
+   * @param range 字节范围，超出数据长度的部分被忽略
+   * @returns 数据，不存在或不是二进制数据时返回null
+   */
+  async getBlob(key: string, range?: ByteRange): Promise<Blob | null> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record?.isBinary) return null;
+
+    const buffer = await this.readRecord(record, range);
+    return buffer ? new Blob([buffer], { type: record.mimeType || '' }) : null;
+  }
+
+  /**
+   * 按段依次读取二进制数据，每次只读取当前段
+   * 数据不存在或不是二进制数据时不产生任何段
+   * @param key 键
+   * @param options 字节范围和每段大小，每段大小默认为binaryChunkSize
+   */
+  async *streamBlob(key: string, options: BlobStreamOptions = {}): AsyncGenerator<Blob> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record?.isBinary) return;
+
+    const end = Math.min(options.end ?? record.size, record.size);
+    const chunkSize =
+      options.chunkSize || this.options.binaryChunkSize || DEFAULT_STREAM_CHUNK_SIZE;
+
+    for (let start = Math.max(0, options.start ?? 0); start < end; start += chunkSize) {
+      const buffer = await this.readFile(this.getFileName(key), {
+        start,
+        end: Math.min(start + chunkSize, end)
+      });
+      if (!buffer) return;
+
+      yield new Blob([buffer], { type: record.mimeType || '' });
+    }
+
+    await this.touch(key);
+  }
+
+  /**
+   * 检查数据是否存在
+   */
+  async exists(key: string): Promise<boolean> {
+    await this.init();
+    return !!(await this.getRecord(key));
+  }
+
+  /**
+   * 删除指定数据
+   */
+  async remove(key: string): Promise<void> {
+    await this.init();
+
+    try {
+      await this.withIndex(index =>
+        this.deleteRecords(
+          index,
+          index.items.filter(record => record.key === key)
+        )
+      );
+    } catch (error) {
+      throw new Error(`删除失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 清空所有存储
+   * 正在写入的临时文件不受影响
+   */
+  async clear(): Promise<void> {
+    await this.init();
+
+    await this.withIndex(async index => {
+      const names = await fs.readdir(this.directory);
+      await Promise.all(
+        names
+          .filter(name => name.endsWith(DATA_EXTENSION))
+          .map(name => fs.rm(this.getPath(name), { force: true }))
+      );
+
+      index.items = [];
+      return true;
+    });
+  }
+
+  /**
+   * 获取存储状态统计
+   */
+  override async getStats(): Promise<StorageStats> {
+    await this.init();
+
+    const index = await this.readIndex();
+    const currentSize = index.items.reduce((sum, record) => sum + record.size, 0);
+    const limitSize = this.options.maxStorageSize || 0;
+
+    return {
+      keys: index.items.map(record => record.key),
+      currentSize,
+      limitSize,
+      items: index.items.length,
+      lastCleanup: index.lastCleanup,
+      usagePercentage: limitSize ? (currentSize / limitSize) * 100 : 0
+    };
+  }
+
+  /**
+   * 检查并在需要时清理缓存
+   * @param requiredBytes 即将写入的字节数，计入使用量
+   */
+  async checkAndCleanupIfNeeded(requiredBytes: number = 0): Promise<boolean> {
+    try {
+      await this.init();
+
+      return await this.withIndex(async index => {
+        const expiredCount = await this.deleteRecords(
+          index,
+          index.items.filter(record => this.isExpired(record))
+        );
+
+        const limitSize = this.options.maxStorageSize || 0;
+        const currentSize = index.items.reduce((sum, record) => sum + record.size, 0);
+        const threshold = limitSize * (this.options.cleanupThreshold || 0.8);
+
+        if (currentSize + requiredBytes >= threshold) {
+          await this.freeSpace(index, currentSize + requiredBytes - limitSize * 0.5);
+          return true;
+        }
+
+        return expiredCount > 0;
+      });
+    } catch (error) {
+      console.warn('检查存储状态失败:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 强制执行缓存清理
+   * @param targetPercentage 清理后的目标使用比例
+   */
+  async cleanup(targetPercentage: number = 0.5): Promise<void> {
+    await this.init();
+
+    await this.withIndex(index => {
+      const currentSize = index.items.reduce((sum, record) => sum + record.size, 0);
+      return this.freeSpace(
+        index,
+        currentSize - (this.options.maxStorageSize || 0) * targetPercentage
+      );
+    });
+  }
+
+  /**
+   * 清理所有过期项
+   */
+  async cleanupExpired(): Promise<number> {
+    await this.init();
+
+    let deletedCount = 0;
+    await this.withIndex(async index => {
+      deletedCount = await this.deleteRecords(
+        index,
+        index.items.filter(record => this.isExpired(record))
+      );
+      return deletedCount > 0;
+    });
+
+    return deletedCount;
+  }
+
+  /**
+   * 设置数据项过期时间
+   */
+  async setExpiry(key: string, ttlMs: number): Promise<void> {
+    await this.init();
+    await this.updateRecord(key, { expireAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * 设置数据项优先级
+   * 优先级越高，清理时越后删除
+   */
+  async setPriority(key: string, priority: number): Promise<void> {
+    await this.init();
+    await this.updateRecord(key, { priority });
+  }
+
+  /**
+   * 写入数据文件并更新记录
+   * 数据先写入临时文件，持有锁时才替换数据文件并更新索引，写入大文件时不阻塞其他操作
+   */
+  private async writeRecord(
+    key: string,
+    data: Blob | Buffer,
+    fields: Partial<FileSystemRecord>
+  ): Promise<void> {
+    const size = 'size' in data ? data.size : data.byteLength;
+
+    if (this.options.autoCleanup) {
+      await this.checkAndCleanupIfNeeded(size);
+    }
+
+    const fileName = this.getFileName(key);
+    let tempPath: string;
+    try {
+      tempPath = await this.writeTempFile(fileName, data);
+    } catch (error) {
+      console.error('保存数据失败:', error);
+      throw new Error(`保存失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      await this.withIndex(async index => {
+        await fs.rename(tempPath, this.getPath(fileName));
+
+        const existing = index.items.find(record => record.key === key);
+        const now = Date.now();
+        const record: FileSystemRecord = {
+          key,
+          size,
+          createdAt: existing ? existing.createdAt : now,
+          lastModified: now,
+          lastAccessed: now,
+          accessCount: existing ? existing.accessCount + 1 : 1,
+          priority: existing?.priority || 0,
+          expireAt: this.options.defaultTTL ? now + this.options.defaultTTL : undefined,
+          ...fields
+        };
+
+        index.items = [...index.items.filter(item => item.key !== key), record];
+        return true;
+      });
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * 读取数据文件并更新访问信息
+   * 数据文件丢失时删除记录
+   */
+  private async readRecord(record: FileSystemRecord, range?: ByteRange): Promise<Buffer | null> {
+    const buffer = await this.readFile(this.getFileName(record.key), range);
+
+    if (!buffer) {
+      await this.remove(record.key);
+      return null;
+    }
+
+    await this.touch(record.key);
+    return buffer;
+  }
+
+  /**
+   * 获取未过期的记录，已过期的记录被删除
+   */
+  private async getRecord(key: string): Promise<FileSystemRecord | null> {
+    const index = await this.readIndex();
+    const record = index.items.find(item => item.key === key);
+    if (!record) return null;
+
+    if (this.isExpired(record)) {
+      await this.remove(key);
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * 修改记录的元数据
+   */
+  private updateRecord(key: string, fields: Partial<FileSystemRecord>): Promise<boolean> {
+    return this.withIndex(async index => {
+      const record = index.items.find(item => item.key === key);
+      if (!record) return false;
+
+      Object.assign(record, fields);
+      return true;
+    });
+  }
+
+  /**
+   * 更新记录的访问信息
+   */
+  private async touch(key: string): Promise<void> {
+    try {
+      await this.withIndex(async index => {
+        const record = index.items.find(item => item.key === key);
+        if (!record) return false;
+
+        record.lastAccessed = Date.now();
+        record.accessCount += 1;
+        return true;
+      });
+    } catch (error) {
+      console.warn('更新访问信息失败:', error);
+    }
+  }
+
+  /**
+   * 删除数据文件并从索引中移除记录，调用方需持有锁
+   * @returns 删除的记录数
+   */
+  private async deleteRecords(
+    index: FileSystemIndex,
+    records: FileSystemRecord[]
+  ): Promise<number> {
+    let deletedCount = 0;
+
+    for (const record of records) {
+      try {
+        await fs.rm(this.getPath(this.getFileName(record.key)), { force: true });
+        index.items = index.items.filter(item => item.key !== record.key);
+        deletedCount++;
+      } catch (error) {
+        console.warn(`删除数据失败: ${record.key}`, error);
+      }
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * 按清理策略删除数据，直到释放指定的字节数，调用方需持有锁
+   */
+  private async freeSpace(index: FileSystemIndex, bytesToFree: number): Promise<boolean> {
+    if (bytesToFree <= 0) return false;
+
+    const items = sortForCleanup(
+      index.items,
+      this.options.cleanupStrategy || CacheCleanupStrategy.LRU
+    );
+
+    let freedBytes = 0;
+    const selected: FileSystemRecord[] = [];
+    for (const item of items) {
+      if (freedBytes >= bytesToFree) break;
+      selected.push(item);
+      freedBytes += item.size;
+    }
+
+    const deletedCount = await this.deleteRecords(index, selected);
+    index.lastCleanup = Date.now();
+
+    console.log(`缓存清理完成: 释放 ${freedBytes} 字节, 删除 ${deletedCount} 项`);
+    return true;
+  }
+
+  /**
+   * 持有锁读取索引并执行修改，task返回true时写回索引
+   */
+  private withIndex<T extends boolean | number>(
+    task: (index: FileSystemIndex) => Promise<T>
+  ): Promise<T> {
+    return this.withLock(async () => {
+      const index = await this.readIndex();
+      const result = await task(index);
+
+      if (result) {
+        await this.writeIndex(index);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * 持有锁执行操作
+   * 进程内的操作依次排队，进程间通过独占创建锁文件互斥
+   */
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lockQueue.then(async () => {
+      await this.acquireLock();
+      try {
+        return await task();
+      } finally {
+        await fs.rm(this.getPath(LOCK_FILE), { force: true });
+      }
+    });
+
+    this.lockQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 创建锁文件，已存在时等待持有进程释放
+   * 锁文件超过staleLockTime未更新时视为持有进程已退出，删除后重新获取
+   */
+  private async acquireLock(): Promise<void> {
+    const lockPath = this.getPath(LOCK_FILE);
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > this.staleLockTime) {
+        console.warn(`删除过期的存储锁: ${lockPath}`);
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        const error = new Error(`获取存储锁超时: ${lockPath}`);
+        (error as any).code = STORAGE_LOCK_TIMEOUT_ERROR_CODE;
+        throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_INTERVAL));
+    }
+  }
+
+  /**
+   * 读取索引文件，不存在或已损坏时返回空索引
+   */
+  private async readIndex(): Promise<FileSystemIndex> {
+    const empty: FileSystemIndex = { version: INDEX_VERSION, lastCleanup: 0, items: [] };
+
+    const buffer = await this.readFile(INDEX_FILE);
+    if (!buffer) return empty;
+
+    try {
+      const index = JSON.parse(buffer.toString('utf8')) as FileSystemIndex;
+      return Array.isArray(index.items) ? index : empty;
+    } catch (error) {
+      console.warn('文件存储索引已损坏:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * 写入索引文件，调用方需持有锁
+   */
+  private async writeIndex(index: FileSystemIndex): Promise<void> {
+    const tempPath = await this.writeTempFile(
+      INDEX_FILE,
+      Buffer.from(JSON.stringify({ ...index, version: INDEX_VERSION }), 'utf8')
+    );
+    await fs.rename(tempPath, this.getPath(INDEX_FILE));
+  }
+
+  /**
+   * 读取存储目录中的文件
+   * @param range 字节范围，不提供时读取整个文件
+   * @returns 文件数据，不存在时返回null
+   */
+  private async readFile(name: string, range: ByteRange = {}): Promise<Buffer | null> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.getPath(name), 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      const start = Math.min(Math.max(0, range.start ?? 0), size);
+      const end = Math.max(start, Math.min(range.end ?? size, size));
+
+      const buffer = Buffer.alloc(end - start);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 将数据写入临时文件并落盘，由调用方重命名为目标文件
+   * @returns 临时文件路径
+   */
+  private async writeTempFile(name: string, data: Blob | Buffer): Promise<string> {
+    const suffix = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const tempPath = this.getPath(`${name}.${suffix}${TEMP_EXTENSION}`);
+    const handle = await fs.open(tempPath, 'w');
+
+    try {
+      if (Buffer.isBuffer(data)) {
+        await handle.write(data, 0, data.length, 0);
+      } else {
+        // 分段读入Blob，避免大文件一次性占用内存
+        for (let offset = 0; offset < data.size; offset += WRITE_SLICE_SIZE) {
+          const slice = Buffer.from(
+            await data.slice(offset, offset + WRITE_SLICE_SIZE).arrayBuffer()
+          );
+          await handle.write(slice, 0, slice.length, offset);
+        }
+      }
+
+      await handle.sync();
+      await handle.close();
+      return tempPath;
+    } catch (error) {
+      await handle.close().catch(() => undefined);
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private isExpired(record: FileSystemRecord): boolean {
+    return !!record.expireAt && record.expireAt < Date.now();
+  }
+
+  /**
+   * 获取键对应的数据文件名，键经过编码，不会包含路径分隔符
+   */
+  private getFileName(key: string): string {
+    return `${encodeURIComponent(key)}${DATA_EXTENSION}`;
+  }
+
+  private getPath(name: string): string {
+    return path.join(this.directory, name);
+  }
+}
+
+/**
+ * 按清理策略排列待清理的记录，已过期的记录总是最先清理
+ */
+function sortForCleanup(items: StorageItem[], strategy: CacheCleanupStrategy): StorageItem[] {
+  const now = Date.now();
+  const compare: Record<CacheCleanupStrategy, (a: StorageItem, b: StorageItem) => number> = {
+    [CacheCleanupStrategy.LRU]: (a, b) => a.lastAccessed - b.lastAccessed,
+    [CacheCleanupStrategy.LFU]: (a, b) => a.accessCount - b.accessCount,
+    [CacheCleanupStrategy.FIFO]: (a, b) => a.createdAt - b.createdAt,
+    [CacheCleanupStrategy.EXPIRE]: (a, b) => (a.expireAt || Infinity) - (b.expireAt || Infinity),
+    [CacheCleanupStrategy.SIZE]: (a, b) => b.size - a.size,
+    // 同一优先级内按最近最少使用清理
+    [CacheCleanupStrategy.PRIORITY]: (a, b) =>
+      (a.priority || 0) - (b.priority || 0) || a.lastAccessed - b.lastAccessed
+  };
+
+  const isExpired = (item: StorageItem) => !!item.expireAt && item.expireAt < now;
+  return [...items].sort(
+    (a, b) => Number(isExpired(b)) - Number(isExpired(a)) || compare[strategy](a, b)
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * 存储模块入口文件
+ */
+
+// 导出存储引擎基类
+export * from './storage-engine';
+
+// 导出存储引擎实现
+export { IndexedDBStorage } from './indexeddb-storage';
+export { OPFSStorage, type OPFSStorageOptions } from './opfs-storage';
+export * from './opfs-file-system';
+export { MiniappStorage } from './miniapp-storage';
+// 文件系统存储引擎依赖fs模块，随Node.js适配器通过 'filechunk-pro/platforms/node' 引入
+
+// 导出上传检查点存储
+export * from './checkpoint-store';
@@ -1,4 +1,10 @@
-import { BaseStorageEngine, StorageEngine } from './storage-engine';
+import {
+  BaseStorageEngine,
+  BinaryStorage,
+  BlobStreamOptions,
+  ByteRange,
+  StorageEngine
+} from './storage-engine';
 import {
   IStorageOptions,
   StorageItem,
@@ -6,11 +12,17 @@ import {
   CacheCleanupStrategy
 } from '../../types/storage';
 
+/**
+ * 二进制数据默认分段大小：1MB
+ */
+const DEFAULT_BINARY_CHUNK_SIZE = 1024 * 1024;
+
 /**
  * IndexedDB存储引擎实现
- * 提供浏览器环境下的持久化存储能力，支持大文件分块存储和高效检索
+ * 提供浏览器环境下的持久化存储能力，支持大文件分块存储和高效检索。
+ * 二进制数据以Blob或ArrayBuffer原样分段存入文件块存储，按字节范围读取时只加载涉及的分段
  */
-export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine {
+export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine, BinaryStorage {
   private db: IDBDatabase | null = null;
   private dbName: string;
   private storeName: string = 'fileData'; // 主存储对象
@@ -90,13 +102,12 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
           console.error('IndexedDB错误:', (event.target as any).errorCode);
         };
 
-        // 检查存储空间使用情况
-        this.checkAndCleanupIfNeeded()
-          .then(() => resolve())
-          .catch(err => {
-            console.warn('初始清理检查失败:', err);
-            resolve(); // 即使清理失败也继续，不阻塞初始化
-          });
+        resolve();
+
+        // 检查存储空间使用情况，清理检查依赖初始化完成，不能阻塞初始化
+        this.checkAndCleanupIfNeeded().catch(err => {
+          console.warn('初始清理检查失败:', err);
+        });
       };
 
       // 打开数据库失败
@@ -230,7 +241,8 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
       // 将数据分块
       const chunks = this.chunkData(data);
       const chunkSize = chunks[0]?.length || 0;
-      const totalSize = data.length;
+      // 与直接保存的数据使用相同的大小估算，保证配额统计一致
+      const totalSize = this.getDataSize(data);
 
       // 创建事务保存所有块和元数据
       const transaction = this.createTransaction([this.storeName, this.chunkStore], 'readwrite');
@@ -239,7 +251,7 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
 
       // 保存每个块
       chunks.forEach((chunk, index) => {
-        const chunkId = `${key}_chunk_${index}`;
+        const chunkId = this.getChunkId(key, index);
         chunkStore.put({
           id: chunkId,
           fileKey: key,
@@ -277,6 +289,180 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
     }
   }
 
+  /**
+   * 保存二进制数据
+   * 数据按分段大小切分后原样存入文件块存储，ArrayBuffer视图按其引用的字节保存
+   */
+  async saveBlob(key: string, data: Blob | ArrayBuffer | ArrayBufferView): Promise<void> {
+    await this.init();
+
+    const binary: Blob | ArrayBuffer = ArrayBuffer.isView(data)
+      ? (data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer)
+      : data;
+    const size = 'size' in binary ? binary.size : binary.byteLength;
+    const chunkSize = this.options.binaryChunkSize || DEFAULT_BINARY_CHUNK_SIZE;
+    const totalChunks = Math.ceil(size / chunkSize);
+
+    try {
+      // 与save相同，写入较大数据前检查存储使用情况
+      if (this.options.autoCleanup && size > 512 * 1024) {
+        await this.checkAndCleanupIfNeeded();
+      }
+
+      const existing = await this.getMainRecord(key);
+      await this.removeChunks(key);
+
+      const transaction = this.createTransaction([this.storeName, this.chunkStore], 'readwrite');
+      const mainStore = transaction.objectStore(this.storeName);
+      const chunkStore = transaction.objectStore(this.chunkStore);
+
+      for (let index = 0; index < totalChunks; index++) {
+        chunkStore.put({
+          id: this.getChunkId(key, index),
+          fileKey: key,
+          sequence: index,
+          data: binary.slice(index * chunkSize, (index + 1) * chunkSize),
+          totalChunks
+        });
+      }
+
+      const now = Date.now();
+      const mainRecord: StorageItem & {
+        totalChunks: number;
+        chunkSize: number;
+        mimeType: string;
+      } = {
+        key,
+        size,
+        createdAt: existing ? existing.createdAt : now,
+        lastModified: now,
+        lastAccessed: now,
+        accessCount: existing ? existing.accessCount + 1 : 1,
+        priority: existing?.priority || 0,
+        isChunked: true,
+        isBinary: true,
+        totalChunks,
+        chunkSize,
+        mimeType: 'type' in binary ? binary.type : ''
+      };
+      mainStore.put(mainRecord);
+
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error('二进制数据事务失败'));
+      });
+    } catch (error) {
+      console.error('保存二进制数据失败:', error);
+      throw new Error(`保存失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 获取二进制数据
+   * @param key 键
+   * @param range 字节范围，超出数据长度的部分被忽略
+   * @returns 数据，不存在或不是二进制数据时返回null
+   */
+  async getBlob(key: string, range: ByteRange = {}): Promise<Blob | null> {
+    await this.init();
+
+    try {
+      const mainRecord = await this.getMainRecord(key);
+      if (!mainRecord?.isBinary) return null;
+
+      this.updateAccessMetadata(key).catch(console.warn);
+
+      return await this.readBinaryRange(key, mainRecord, range);
+    } catch (error) {
+      console.error('获取二进制数据失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 按段依次读取二进制数据，每次只加载当前段涉及的分段
+   * 数据不存在或不是二进制数据时不产生任何段
+   * @param key 键
+   * @param options 字节范围和每段大小，每段大小默认为保存时的分段大小
+   */
+  async *streamBlob(key: string, options: BlobStreamOptions = {}): AsyncGenerator<Blob> {
+    await this.init();
+
+    const mainRecord = await this.getMainRecord(key);
+    if (!mainRecord?.isBinary) return;
+
+    this.updateAccessMetadata(key).catch(console.warn);
+
+    const end = Math.min(options.end ?? mainRecord.size, mainRecord.size);
+    const chunkSize = options.chunkSize || mainRecord.chunkSize;
+
+    for (let start = Math.max(0, options.start ?? 0); start < end; start += chunkSize) {
+      yield await this.readBinaryRange(key, mainRecord, {
+        start,
+        end: Math.min(start + chunkSize, end)
+      });
+    }
+  }
+
+  /**
+   * 读取二进制数据的字节范围，只获取范围涉及的分段
+   */
+  private readBinaryRange(
+    key: string,
+    mainRecord: { size: number; chunkSize: number; mimeType?: string },
+    range: ByteRange
+  ): Promise<Blob> {
+    const { size, chunkSize, mimeType = '' } = mainRecord;
+    const start = Math.min(Math.max(0, range.start ?? 0), size);
+    const end = Math.max(start, Math.min(range.end ?? size, size));
+
+    if (start === end) {
+      return Promise.resolve(new Blob([], { type: mimeType }));
+    }
+
+    const first = Math.floor(start / chunkSize);
+    const last = Math.floor((end - 1) / chunkSize);
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = this.createTransaction(this.chunkStore);
+        const store = transaction.objectStore(this.chunkStore);
+        const parts: Array<Blob | ArrayBuffer> = [];
+
+        for (let index = first; index <= last; index++) {
+          const request = store.get(this.getChunkId(key, index));
+          request.onsuccess = () => {
+            if (request.result) {
+              parts[index - first] = request.result.data;
+            }
+          };
+        }
+
+        transaction.oncomplete = () => {
+          const loaded = parts.filter(Boolean).length;
+          if (loaded !== last - first + 1) {
+            return reject(new Error(`数据块不完整: 预期 ${last - first + 1}, 实际 ${loaded}`));
+          }
+
+          const offset = first * chunkSize;
+          resolve(
+            new Blob(parts, { type: mimeType }).slice(start - offset, end - offset, mimeType)
+          );
+        };
+        transaction.onerror = () => reject(new Error('获取数据块失败'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * 获取文件块ID
+   */
+  private getChunkId(key: string, index: number): string {
+    return `${key}_chunk_${index}`;
+  }
+
   /**
    * 将数据分块
    */
@@ -307,6 +493,11 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
       // 更新访问时间
       this.updateAccessMetadata(key).catch(console.warn);
 
+      // 二进制数据直接返回Blob
+      if (mainRecord.isBinary) {
+        return this.readBinaryRange(key, mainRecord, {});
+      }
+
       // 检查是否为分块存储
       if (mainRecord.isChunked) {
         // 获取并组装所有块
@@ -322,6 +513,20 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
     }
   }
 
+  /**
+   * 检查数据是否存在
+   */
+  async exists(key: string): Promise<boolean> {
+    await this.init();
+
+    try {
+      return !!(await this.getMainRecord(key));
+    } catch (error) {
+      console.error('检查数据失败:', error);
+      return false;
+    }
+  }
+
   /**
    * 获取主记录
    */
@@ -553,7 +758,8 @@ export class IndexedDBStorage extends BaseStorageEngine implements StorageEngine
           // 过滤掉非元数据字段
           const records = request.result.map(item => {
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { data, isChunked, totalChunks, chunkSize, ...metadata } = item;
+            const { data, isChunked, isBinary, totalChunks, chunkSize, mimeType, ...metadata } =
+              item;
             return metadata as StorageItem;
           });
 
@@ -188,6 +188,21 @@ export class MiniappStorage extends BaseStorageEngine implements StorageEngine {
     });
   }
 
+  /**
+   * 检查数据是否存在
+   */
+  async exists(key: string): Promise<boolean> {
+    const fullKey = this.getFullKey(key);
+
+    return new Promise<boolean>(resolve => {
+      this.storageApi.getStorage({
+        key: fullKey,
+        success: () => resolve(true),
+        fail: () => resolve(false)
+      });
+    });
+  }
+
   /**
    * 删除指定数据
    */
@@ -0,0 +1,392 @@
+/**
+ * OPFS(Origin Private File System)文件访问
+ *
+ * 同步访问句柄只能在专用Worker中创建，因此文件读写由Worker中的SyncAccessFileSystem完成，
+ * 主线程通过WorkerFileSystem以消息调用。两者实现相同的OPFSFileSystem接口，
+ * 存储引擎不关心文件操作在哪个线程执行。
+ * 路径使用`/`分隔，各级名称由调用方保证不含`/`
+ */
+
+import { ByteRange } from './storage-engine';
+
+/**
+ * 写入Blob时每次读入内存的字节数
+ */
+const WRITE_SLICE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * OPFS同步访问句柄，对应FileSystemSyncAccessHandle中用到的部分
+ */
+export interface OPFSSyncAccessHandle {
+  read(buffer: ArrayBufferView, options?: { at?: number }): number;
+  write(buffer: ArrayBufferView, options?: { at?: number }): number;
+  truncate(size: number): void;
+  getSize(): number;
+  flush(): void;
+  close(): void;
+}
+
+/**
+ * OPFS文件句柄，对应FileSystemFileHandle中用到的部分
+ */
+export interface OPFSFileHandle {
+  createSyncAccessHandle(): Promise<OPFSSyncAccessHandle>;
+  move(destination: OPFSDirectoryHandle, name: string): Promise<void>;
+}
+
+/**
+ * OPFS目录句柄，对应FileSystemDirectoryHandle中用到的部分
+ */
+export interface OPFSDirectoryHandle {
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<OPFSFileHandle>;
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<OPFSDirectoryHandle>;
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
+  keys(): AsyncIterableIterator<string>;
+}
+
+/**
+ * OPFS文件操作接口
+ */
+export interface OPFSFileSystem {
+  /**
+   * 写入文件，文件不存在时创建，已存在时覆盖
+   * @returns 写入的字节数
+   */
+  writeFile(path: string, data: Blob | ArrayBuffer): Promise<number>;
+
+  /**
+   * 读取文件
+   * @param range 字节范围，不提供时读取整个文件
+   * @returns 文件数据，不存在时返回null
+   */
+  readFile(path: string, range?: ByteRange): Promise<ArrayBuffer | null>;
+
+  /**
+   * 获取文件大小，不存在时返回null
+   */
+  getSize(path: string): Promise<number | null>;
+
+  /**
+   * 重命名文件，目标文件已存在时被替换
+   * 用于先写入临时文件再替换目标文件，避免写入中断时目标文件不完整
+   */
+  rename(from: string, to: string): Promise<void>;
+
+  /**
+   * 删除文件或目录，不存在时忽略
+   */
+  remove(path: string): Promise<void>;
+
+  /**
+   * 列出目录中的条目名称，目录不存在时返回空数组
+   */
+  list(path: string): Promise<string[]>;
+}
+
+/**
+ * Worker消息：调用文件操作
+ */
+export interface OPFSRequest {
+  id: number;
+  method: keyof OPFSFileSystem;
+  args: unknown[];
+}
+
+/**
+ * Worker消息：文件操作结果
+ */
+export interface OPFSResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * 基于同步访问句柄的文件操作
+ * 同步访问句柄是独占的，同一文件的操作依次执行
+ */
+export class SyncAccessFileSystem implements OPFSFileSystem {
+  private root: Promise<OPFSDirectoryHandle>;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(root: OPFSDirectoryHandle | Promise<OPFSDirectoryHandle>) {
+    this.root = Promise.resolve(root);
+  }
+
+  writeFile(path: string, data: Blob | ArrayBuffer): Promise<number> {
+    return this.exclusive(path, async () => {
+      const file = await this.getFileHandle(path, true);
+      const handle = await file!.createSyncAccessHandle();
+
+      try {
+        handle.truncate(0);
+
+        if ('size' in data) {
+          // 分段读入Blob，避免大文件一次性占用内存
+          for (let offset = 0; offset < data.size; offset += WRITE_SLICE_SIZE) {
+            const slice = await readBlob(data.slice(offset, offset + WRITE_SLICE_SIZE));
+            handle.write(new Uint8Array(slice), { at: offset });
+          }
+        } else {
+          handle.write(new Uint8Array(data), { at: 0 });
+        }
+
+        handle.flush();
+        return handle.getSize();
+      } finally {
+        handle.close();
+      }
+    });
+  }
+
+  readFile(path: string, range: ByteRange = {}): Promise<ArrayBuffer | null> {
+    return this.exclusive(path, async () => {
+      const file = await this.getFileHandle(path, false);
+      if (!file) return null;
+
+      const handle = await file.createSyncAccessHandle();
+      try {
+        const size = handle.getSize();
+        const start = Math.min(Math.max(0, range.start ?? 0), size);
+        const end = Math.max(start, Math.min(range.end ?? size, size));
+
+        const buffer = new Uint8Array(end - start);
+        handle.read(buffer, { at: start });
+        return buffer.buffer;
+      } finally {
+        handle.close();
+      }
+    });
+  }
+
+  getSize(path: string): Promise<number | null> {
+    return this.exclusive(path, async () => {
+      const file = await this.getFileHandle(path, false);
+      if (!file) return null;
+
+      const handle = await file.createSyncAccessHandle();
+      try {
+        return handle.getSize();
+      } finally {
+        handle.close();
+      }
+    });
+  }
+
+  rename(from: string, to: string): Promise<void> {
+    return this.exclusive(from, () =>
+      this.exclusive(to, async () => {
+        const file = await this.getFileHandle(from, false);
+        if (!file) {
+          throw new Error(`文件不存在: ${from}`);
+        }
+
+        const { parent, name } = splitPath(to);
+        await file.move((await this.getDirectory(parent, true))!, name);
+      })
+    );
+  }
+
+  remove(path: string): Promise<void> {
+    return this.exclusive(path, async () => {
+      const { parent, name } = splitPath(path);
+      const directory = await this.getDirectory(parent, false);
+
+      try {
+        await directory?.removeEntry(name, { recursive: true });
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    });
+  }
+
+  async list(path: string): Promise<string[]> {
+    const directory = await this.getDirectory(path.split('/').filter(Boolean), false);
+    const names: string[] = [];
+
+    if (directory) {
+      for await (const name of directory.keys()) {
+        names.push(name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * 获取文件句柄，不创建且不存在时返回null
+   */
+  private async getFileHandle(path: string, create: boolean): Promise<OPFSFileHandle | null> {
+    const { parent, name } = splitPath(path);
+    const directory = await this.getDirectory(parent, create);
+    if (!directory) return null;
+
+    try {
+      return await directory.getFileHandle(name, { create });
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * 逐级获取目录句柄，不创建且不存在时返回null
+   */
+  private async getDirectory(path: string[], create: boolean): Promise<OPFSDirectoryHandle | null> {
+    let directory = await this.root;
+
+    for (const name of path) {
+      try {
+        directory = await directory.getDirectoryHandle(name, { create });
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    }
+    return directory;
+  }
+
+  /**
+   * 串行执行同一路径上的操作
+   */
+  private exclusive<T>(path: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(path) || Promise.resolve();
+    const result = previous.then(task, task);
+    const settled = result.catch(() => undefined);
+
+    this.locks.set(path, settled);
+    settled.then(() => {
+      if (this.locks.get(path) === settled) {
+        this.locks.delete(path);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * 执行Worker收到的文件操作请求
+ * @returns 响应消息和需要转移的ArrayBuffer
+ */
+export async function handleOPFSRequest(
+  fileSystem: OPFSFileSystem,
+  request: OPFSRequest
+): Promise<{ response: OPFSResponse; transfer: Transferable[] }> {
+  try {
+    const method = fileSystem[request.method] as (...args: unknown[]) => Promise<unknown>;
+    const result = await method.apply(fileSystem, request.args);
+
+    return {
+      response: { id: request.id, result },
+      transfer: result instanceof ArrayBuffer ? [result] : []
+    };
+  } catch (error) {
+    return {
+      response: {
+        id: request.id,
+        error: error instanceof Error ? error.message : String(error)
+      },
+      transfer: []
+    };
+  }
+}
+
+/**
+ * 通过Worker消息调用文件操作
+ */
+export class WorkerFileSystem implements OPFSFileSystem {
+  private nextId = 0;
+  private pending: Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }> =
+    new Map();
+
+  constructor(private worker: Worker) {
+    worker.addEventListener('message', (event: MessageEvent<OPFSResponse>) => {
+      const { id, result, error } = event.data;
+      const call = this.pending.get(id);
+      if (!call) return;
+
+      this.pending.delete(id);
+      if (error !== undefined) {
+        call.reject(new Error(error));
+      } else {
+        call.resolve(result);
+      }
+    });
+
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      const error = new Error(`OPFS Worker错误: ${event.message}`);
+      this.pending.forEach(call => call.reject(error));
+      this.pending.clear();
+    });
+  }
+
+  writeFile(path: string, data: Blob | ArrayBuffer): Promise<number> {
+    // ArrayBuffer复制后转移，Blob按引用传递，不会读入内存
+    const payload = data instanceof ArrayBuffer ? data.slice(0) : data;
+    return this.call('writeFile', [path, payload], payload instanceof ArrayBuffer ? [payload] : []);
+  }
+
+  readFile(path: string, range?: ByteRange): Promise<ArrayBuffer | null> {
+    return this.call('readFile', [path, range]);
+  }
+
+  getSize(path: string): Promise<number | null> {
+    return this.call('getSize', [path]);
+  }
+
+  rename(from: string, to: string): Promise<void> {
+    return this.call('rename', [from, to]);
+  }
+
+  remove(path: string): Promise<void> {
+    return this.call('remove', [path]);
+  }
+
+  list(path: string): Promise<string[]> {
+    return this.call('list', [path]);
+  }
+
+  /**
+   * 终止Worker，未完成的操作将被拒绝
+   */
+  terminate(): void {
+    this.worker.terminate();
+    const error = new Error('OPFS Worker已终止');
+    this.pending.forEach(call => call.reject(error));
+    this.pending.clear();
+  }
+
+  private call<T>(
+    method: keyof OPFSFileSystem,
+    args: unknown[],
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, method, args } satisfies OPFSRequest, transfer);
+    });
+  }
+}
+
+function splitPath(path: string): { parent: string[]; name: string } {
+  const parts = path.split('/').filter(Boolean);
+  return { parent: parts.slice(0, -1), name: parts[parts.length - 1] };
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as DOMException)?.name === 'NotFoundError';
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error('读取文件数据失败'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
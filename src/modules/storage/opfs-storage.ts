@@ -0,0 +1,601 @@
+import {
+  BaseStorageEngine,
+  BinaryStorage,
+  BlobStreamOptions,
+  ByteRange,
+  StorageEngine
+} from './storage-engine';
+import { OPFSFileSystem, WorkerFileSystem } from './opfs-file-system';
+import {
+  CacheCleanupStrategy,
+  IStorageOptions,
+  StorageItem,
+  StorageStats
+} from '../../types/storage';
+import { getWorkerManager, WorkerType } from '../../workers/worker-manager';
+
+/**
+ * 索引文件名
+ */
+const INDEX_FILE = 'index.json';
+
+/**
+ * 索引文件格式版本
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * 数据文件扩展名
+ */
+const DATA_EXTENSION = '.data';
+
+/**
+ * 临时文件扩展名，写入完成后重命名为目标文件
+ */
+const TEMP_EXTENSION = '.tmp';
+
+/**
+ * 读取数据后延迟写入访问信息的时间：1秒
+ * 连续读取（如按范围读取分片）合并为一次索引写入
+ */
+const ACCESS_PERSIST_DELAY = 1000;
+
+/**
+ * 按段读取二进制数据时默认的每段大小：1MB
+ */
+const DEFAULT_STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * OPFS存储记录
+ */
+interface OPFSRecord extends StorageItem {
+  /** 二进制数据的MIME类型 */
+  mimeType?: string;
+}
+
+/**
+ * 索引文件内容
+ */
+interface OPFSIndex {
+  version: number;
+  lastCleanup: number;
+  items: OPFSRecord[];
+}
+
+/**
+ * OPFS存储引擎配置
+ */
+export interface OPFSStorageOptions extends IStorageOptions {
+  /** 文件操作实现，默认在专用Worker中通过同步访问句柄访问OPFS */
+  fileSystem?: OPFSFileSystem;
+}
+
+/**
+ * OPFS存储引擎实现
+ * 数据保存为OPFS中的文件，元数据保存在同一目录的索引文件中。
+ * 二进制数据直接写入文件，不经过序列化，适合离线时暂存GB级的待上传文件，
+ * 上传时可按字节范围读取分片
+ */
+export class OPFSStorage extends BaseStorageEngine implements StorageEngine, BinaryStorage {
+  private fileSystem: OPFSFileSystem | null;
+  private directory: string;
+  private records: Map<string, OPFSRecord> = new Map();
+  private lastCleanup = 0;
+  private initPromise: Promise<void> | null = null;
+  private indexWrite: Promise<void> = Promise.resolve();
+  private accessTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * 构造OPFS存储引擎
+   */
+  constructor(options: OPFSStorageOptions = {}) {
+    const { fileSystem, ...storageOptions } = options;
+    super(storageOptions);
+
+    this.fileSystem = fileSystem || null;
+    this.directory = encodeURIComponent(`${this.options.prefix}storage`);
+  }
+
+  /**
+   * 初始化存储引擎
+   */
+  override async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.open();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * 打开存储目录并加载索引
+   */
+  private async open(): Promise<void> {
+    if (!this.fileSystem) {
+      const worker = getWorkerManager().createDedicatedWorker(WorkerType.OPFS);
+      if (!worker) {
+        throw new Error('当前环境不支持OPFS');
+      }
+      this.fileSystem = new WorkerFileSystem(worker);
+    }
+
+    const index = await this.readIndex();
+    if (index) {
+      this.lastCleanup = index.lastCleanup;
+      index.items.forEach(record => this.records.set(record.key, record));
+    }
+
+    // 写入中断会遗留临时文件；重命名数据文件后、更新索引前中断会遗留没有记录的数据文件。
+    // 索引无法解析时无法判断数据文件是否有记录，保留所有数据文件
+    const fileNames = new Set([...this.records.keys()].map(key => this.getFileName(key)));
+    const orphans = (await this.fileSystem.list(this.directory)).filter(
+      name =>
+        name.endsWith(TEMP_EXTENSION) ||
+        (index !== null && name.endsWith(DATA_EXTENSION) && !fileNames.has(name))
+    );
+    await Promise.all(orphans.map(name => this.fileSystem!.remove(this.getPath(name))));
+
+    const expiredKeys = [...this.records.values()]
+      .filter(record => this.isExpired(record))
+      .map(record => record.key);
+    for (const key of expiredKeys) {
+      await this.deleteRecord(key);
+    }
+  }
+
+  /**
+   * 保存数据到存储
+   */
+  async save<T>(key: string, data: T): Promise<void> {
+    await this.init();
+    await this.writeRecord(key, encodeText(this.serialize(data)), { isBinary: false });
+  }
+
+  /**
+   * 获取存储的数据
+   * 二进制数据以Blob返回
+   */
+  async get<T>(key: string): Promise<T | null> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record) return null;
+
+    if (record.isBinary) {
+      return (await this.getBlob(key)) as T | null;
+    }
+
+    const buffer = await this.readRecord(record);
+    return buffer ? this.deserialize(decodeText(buffer)) : null;
+  }
+
+  /**
+   * 保存二进制数据
+   * Blob不会读入主线程内存，由Worker分段写入文件
+   */
+  async saveBlob(key: string, data: Blob | ArrayBuffer | ArrayBufferView): Promise<void> {
+    await this.init();
+
+    const binary: Blob | ArrayBuffer = ArrayBuffer.isView(data)
+      ? (data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer)
+      : data;
+
+    await this.writeRecord(key, binary, {
+      isBinary: true,
+      mimeType: 'type' in binary ? binary.type : ''
+    });
+  }
+
+  /**
+   * 获取二进制数据
+   * @param key 键
+   * @param range 字节范围，超出数据长度的部分被忽略
+   * @returns 数据，不存在或不是二进制数据时返回null
+   */
+  async getBlob(key: string, range?: ByteRange): Promise<Blob | null> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record?.isBinary) return null;
+
+    const buffer = await this.readRecord(record, range);
+    return buffer ? new Blob([buffer], { type: record.mimeType || '' }) : null;
+  }
+
+  /**
+   * 按段依次读取二进制数据，每次只读取当前段
+   * 数据不存在或不是二进制数据时不产生任何段
+   * @param key 键
+   * @param options 字节范围和每段大小，每段大小默认为binaryChunkSize
+   */
+  async *streamBlob(key: string, options: BlobStreamOptions = {}): AsyncGenerator<Blob> {
+    await this.init();
+
+    const record = await this.getRecord(key);
+    if (!record?.isBinary) return;
+
+    const end = Math.min(options.end ?? record.size, record.size);
+    const chunkSize =
+      options.chunkSize || this.options.binaryChunkSize || DEFAULT_STREAM_CHUNK_SIZE;
+
+    for (let start = Math.max(0, options.start ?? 0); start < end; start += chunkSize) {
+      const buffer = await this.readRecord(record, {
+        start,
+        end: Math.min(start + chunkSize, end)
+      });
+      if (!buffer) return;
+
+      yield new Blob([buffer], { type: record.mimeType || '' });
+    }
+  }
+
+  /**
+   * 检查数据是否存在
+   */
+  async exists(key: string): Promise<boolean> {
+    await this.init();
+    return !!(await this.getRecord(key));
+  }
+
+  /**
+   * 删除指定数据
+   */
+  async remove(key: string): Promise<void> {
+    await this.init();
+
+    try {
+      await this.deleteRecord(key);
+    } catch (error) {
+      throw new Error(`删除失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 清空所有存储
+   */
+  async clear(): Promise<void> {
+    await this.init();
+
+    await this.fileSystem!.remove(this.directory);
+    this.records.clear();
+    await this.persistIndex();
+  }
+
+  /**
+   * 获取存储状态统计
+   * 存储上限优先使用浏览器报告的配额
+   */
+  override async getStats(): Promise<StorageStats> {
+    await this.init();
+
+    const records = [...this.records.values()];
+    const currentSize = records.reduce((sum, record) => sum + record.size, 0);
+    const limitSize =
+      typeof navigator !== 'undefined' && navigator.storage && navigator.storage.estimate
+        ? (await navigator.storage.estimate()).quota || this.options.maxStorageSize || 0
+        : this.options.maxStorageSize || 0;
+
+    return {
+      keys: records.map(record => record.key),
+      currentSize,
+      limitSize,
+      items: records.length,
+      lastCleanup: this.lastCleanup,
+      usagePercentage: limitSize ? (currentSize / limitSize) * 100 : 0
+    };
+  }
+
+  /**
+   * 检查并在需要时清理缓存
+   * @param requiredBytes 即将写入的字节数，计入使用量
+   */
+  async checkAndCleanupIfNeeded(requiredBytes: number = 0): Promise<boolean> {
+    try {
+      const expiredCount = await this.cleanupExpired();
+      const stats = await this.getStats();
+      const threshold = stats.limitSize * (this.options.cleanupThreshold || 0.8);
+
+      if (stats.currentSize + requiredBytes >= threshold) {
+        await this.freeSpace(stats.currentSize + requiredBytes - stats.limitSize * 0.5);
+        return true;
+      }
+
+      return expiredCount > 0;
+    } catch (error) {
+      console.warn('检查存储状态失败:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 强制执行缓存清理
+   * @param targetPercentage 清理后的目标使用比例
+   */
+  async cleanup(targetPercentage: number = 0.5): Promise<void> {
+    const stats = await this.getStats();
+    await this.freeSpace(stats.currentSize - stats.limitSize * targetPercentage);
+  }
+
+  /**
+   * 清理所有过期项
+   */
+  async cleanupExpired(): Promise<number> {
+    await this.init();
+
+    const expiredKeys = [...this.records.values()]
+      .filter(record => this.isExpired(record))
+      .map(record => record.key);
+
+    let deletedCount = 0;
+    for (const key of expiredKeys) {
+      try {
+        await this.deleteRecord(key);
+        deletedCount++;
+      } catch (error) {
+        console.warn(`删除过期项失败: ${key}`, error);
+      }
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * 设置数据项过期时间
+   */
+  async setExpiry(key: string, ttlMs: number): Promise<void> {
+    await this.init();
+    await this.updateRecord(key, { expireAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * 设置数据项优先级
+   * 优先级越高，清理时越后删除
+   */
+  async setPriority(key: string, priority: number): Promise<void> {
+    await this.init();
+    await this.updateRecord(key, { priority });
+  }
+
+  /**
+   * 释放资源，立即写入尚未写入索引的访问信息
+   */
+  async dispose(): Promise<void> {
+    if (this.accessTimer) {
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * 写入数据文件并更新记录
+   */
+  private async writeRecord(
+    key: string,
+    data: Blob | ArrayBuffer,
+    fields: Partial<OPFSRecord>
+  ): Promise<void> {
+    const size = 'size' in data ? data.size : data.byteLength;
+
+    if (this.options.autoCleanup) {
+      await this.checkAndCleanupIfNeeded(size);
+    }
+
+    // 先写入临时文件再替换数据文件，写入中断时原数据保持完整
+    const fileName = this.getFileName(key);
+    const tempPath = this.getPath(`${fileName}${TEMP_EXTENSION}`);
+    try {
+      await this.fileSystem!.writeFile(tempPath, data);
+      await this.fileSystem!.rename(tempPath, this.getPath(fileName));
+    } catch (error) {
+      console.error('保存数据失败:', error);
+      await this.fileSystem!.remove(tempPath).catch(() => undefined);
+      throw new Error(`保存失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const existing = this.records.get(key);
+    const now = Date.now();
+    this.records.set(key, {
+      key,
+      size,
+      createdAt: existing ? existing.createdAt : now,
+      lastModified: now,
+      lastAccessed: now,
+      accessCount: existing ? existing.accessCount + 1 : 1,
+      priority: existing?.priority || 0,
+      expireAt: this.options.defaultTTL ? now + this.options.defaultTTL : undefined,
+      ...fields
+    });
+
+    await this.persistIndex();
+  }
+
+  /**
+   * 读取数据文件并更新访问信息
+   * 访问信息延迟写入索引，数据文件丢失时删除记录
+   */
+  private async readRecord(record: OPFSRecord, range?: ByteRange): Promise<ArrayBuffer | null> {
+    const buffer = await this.fileSystem!.readFile(
+      this.getPath(this.getFileName(record.key)),
+      range
+    );
+
+    if (!buffer) {
+      await this.deleteRecord(record.key);
+      return null;
+    }
+
+    record.lastAccessed = Date.now();
+    record.accessCount += 1;
+    this.scheduleAccessPersist();
+
+    return buffer;
+  }
+
+  /**
+   * 延迟写入访问信息，期间的多次读取只写入一次索引
+   */
+  private scheduleAccessPersist(): void {
+    if (this.accessTimer) return;
+
+    this.accessTimer = setTimeout(() => {
+      this.accessTimer = null;
+      this.persistIndex().catch(console.warn);
+    }, ACCESS_PERSIST_DELAY);
+  }
+
+  /**
+   * 获取未过期的记录，已过期的记录被删除
+   */
+  private async getRecord(key: string): Promise<OPFSRecord | null> {
+    const record = this.records.get(key);
+    if (!record) return null;
+
+    if (this.isExpired(record)) {
+      await this.deleteRecord(key);
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * 修改记录的元数据
+   */
+  private async updateRecord(key: string, fields: Partial<OPFSRecord>): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      Object.assign(record, fields);
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * 删除数据文件和记录
+   */
+  private async deleteRecord(key: string): Promise<void> {
+    await this.fileSystem!.remove(this.getPath(this.getFileName(key)));
+    if (this.records.delete(key)) {
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * 按清理策略删除数据，直到释放指定的字节数
+   */
+  private async freeSpace(bytesToFree: number): Promise<void> {
+    if (bytesToFree <= 0) return;
+
+    const items = sortForCleanup(
+      [...this.records.values()],
+      this.options.cleanupStrategy || CacheCleanupStrategy.LRU
+    );
+
+    let freedBytes = 0;
+    let deletedCount = 0;
+    for (const item of items) {
+      if (freedBytes >= bytesToFree) break;
+
+      try {
+        await this.deleteRecord(item.key);
+        freedBytes += item.size;
+        deletedCount++;
+      } catch (error) {
+        console.warn(`清理缓存项失败: ${item.key}`, error);
+      }
+    }
+
+    this.lastCleanup = Date.now();
+    await this.persistIndex();
+
+    console.log(`缓存清理完成: 释放 ${freedBytes} 字节, 删除 ${deletedCount} 项`);
+  }
+
+  /**
+   * 读取索引文件
+   * @returns 索引，不存在时返回空索引，已损坏时返回null
+   */
+  private async readIndex(): Promise<OPFSIndex | null> {
+    const buffer = await this.fileSystem!.readFile(this.getPath(INDEX_FILE));
+    if (!buffer) return { version: INDEX_VERSION, lastCleanup: 0, items: [] };
+
+    try {
+      const index = JSON.parse(decodeText(buffer)) as OPFSIndex;
+      if (Array.isArray(index.items)) return index;
+    } catch (error) {
+      console.warn('OPFS存储索引已损坏:', error);
+      return null;
+    }
+
+    console.warn('OPFS存储索引格式无效');
+    return null;
+  }
+
+  /**
+   * 写入索引文件，写入依次进行，每次写入当时的完整索引
+   * 索引先写入临时文件再替换，写入中断时原索引保持完整
+   */
+  private persistIndex(): Promise<void> {
+    // 本次写入包含所有待写入的访问信息
+    if (this.accessTimer) {
+      clearTimeout(this.accessTimer);
+      this.accessTimer = null;
+    }
+
+    this.indexWrite = this.indexWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const index: OPFSIndex = {
+          version: INDEX_VERSION,
+          lastCleanup: this.lastCleanup,
+          items: [...this.records.values()]
+        };
+        const tempPath = this.getPath(`${INDEX_FILE}${TEMP_EXTENSION}`);
+        await this.fileSystem!.writeFile(tempPath, encodeText(JSON.stringify(index)));
+        await this.fileSystem!.rename(tempPath, this.getPath(INDEX_FILE));
+      });
+
+    return this.indexWrite;
+  }
+
+  private isExpired(record: OPFSRecord): boolean {
+    return !!record.expireAt && record.expireAt < Date.now();
+  }
+
+  /**
+   * 获取键对应的数据文件名，键经过编码，不会包含路径分隔符
+   */
+  private getFileName(key: string): string {
+    return `${encodeURIComponent(key)}${DATA_EXTENSION}`;
+  }
+
+  private getPath(name: string): string {
+    return `${this.directory}/${name}`;
+  }
+}
+
+/**
+ * 按清理策略排列待清理的记录，已过期的记录总是最先清理
+ */
+function sortForCleanup(items: StorageItem[], strategy: CacheCleanupStrategy): StorageItem[] {
+  const now = Date.now();
+  const compare: Record<CacheCleanupStrategy, (a: StorageItem, b: StorageItem) => number> = {
+    [CacheCleanupStrategy.LRU]: (a, b) => a.lastAccessed - b.lastAccessed,
+    [CacheCleanupStrategy.LFU]: (a, b) => a.accessCount - b.accessCount,
+    [CacheCleanupStrategy.FIFO]: (a, b) => a.createdAt - b.createdAt,
+    [CacheCleanupStrategy.EXPIRE]: (a, b) => (a.expireAt || Infinity) - (b.expireAt || Infinity),
+    [CacheCleanupStrategy.SIZE]: (a, b) => b.size - a.size,
+    // 同一优先级内按最近最少使用清理
+    [CacheCleanupStrategy.PRIORITY]: (a, b) =>
+      (a.priority || 0) - (b.priority || 0) || a.lastAccessed - b.lastAccessed
+  };
+
+  const isExpired = (item: StorageItem) => !!item.expireAt && item.expireAt < now;
+  return [...items].sort(
+    (a, b) => Number(isExpired(b)) - Number(isExpired(a)) || compare[strategy](a, b)
+  );
+}
+
+function encodeText(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function decodeText(buffer: ArrayBuffer): string {
+  return new TextDecoder().decode(buffer);
+}
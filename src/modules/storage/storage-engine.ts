@@ -45,6 +45,66 @@ export abstract class StorageEngine implements IModule {
   abstract exists(key: string): Promise<boolean>;
 }
 
+/**
+ * 二进制数据的字节范围，包含start，不包含end
+ */
+export interface ByteRange {
+  /** 起始字节，默认0 */
+  start?: number;
+  /** 结束字节，默认数据末尾 */
+  end?: number;
+}
+
+/**
+ * 按段读取二进制数据的选项
+ */
+export interface BlobStreamOptions extends ByteRange {
+  /** 每段的字节数，默认为存储引擎的分段大小 */
+  chunkSize?: number;
+}
+
+/**
+ * 二进制数据存储接口
+ * 数据按原始字节保存，不经过序列化，可只读取指定的字节范围
+ */
+export interface BinaryStorage {
+  /**
+   * 保存二进制数据
+   * @param key 键
+   * @param data 二进制数据
+   */
+  saveBlob(key: string, data: Blob | ArrayBuffer | ArrayBufferView): Promise<void>;
+
+  /**
+   * 获取二进制数据
+   * @param key 键
+   * @param range 字节范围，不提供时返回全部数据
+   * @returns 数据，不存在时返回null
+   */
+  getBlob(key: string, range?: ByteRange): Promise<Blob | null>;
+
+  /**
+   * 按段依次读取二进制数据
+   * @param key 键
+   * @param options 字节范围和每段大小
+   */
+  streamBlob(key: string, options?: BlobStreamOptions): AsyncIterable<Blob>;
+}
+
+/**
+ * 检查存储引擎是否支持二进制数据存储
+ */
+export function supportsBinaryStorage<S extends StorageEngine>(
+  storage: S | undefined
+): storage is S & BinaryStorage {
+  return (
+    !!storage &&
+    typeof (storage as any).saveBlob === 'function' &&
+    typeof (storage as any).getBlob === 'function' &&
+    typeof (storage as any).streamBlob === 'function'
+  );
+}
+
 /**
  * 基础存储引擎实现
  * 提供通用功能的默认实现
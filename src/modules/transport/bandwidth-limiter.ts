@@ -0,0 +1,481 @@
+import { BaseModule } from '../../core/module-base';
+
+/**
+ * 带宽时段规则
+ */
+export interface BandwidthScheduleRule {
+  /**
+   * 开始时间，格式HH:mm
+   */
+  start: string;
+
+  /**
+   * 结束时间（不包含），格式HH:mm；早于开始时间表示跨越午夜
+   */
+  end: string;
+
+  /**
+   * 时段内的全局速率上限(字节/秒)，0表示不限速
+   */
+  limit: number;
+
+  /**
+   * 生效的星期（0为周日），默认每天生效
+   */
+  days?: number[];
+}
+
+/**
+ * 带宽限制器选项
+ */
+export interface BandwidthLimiterOptions {
+  /**
+   * 全局速率上限(字节/秒)，0表示不限速，默认0
+   * 没有匹配的时段规则时使用
+   */
+  globalLimit?: number;
+
+  /**
+   * 各任务的速率上限(字节/秒)
+   */
+  taskLimits?: Record<string, number>;
+
+  /**
+   * 时段规则，按顺序匹配，第一条匹配的规则覆盖全局速率上限
+   */
+  schedule?: BandwidthScheduleRule[];
+
+  /**
+   * 令牌桶容量对应的秒数，默认1秒，即空闲后最多突发1秒的流量
+   */
+  burstSeconds?: number;
+}
+
+/**
+ * 申请带宽选项
+ */
+export interface BandwidthAcquireOptions {
+  /**
+   * 任务ID，设置了任务速率上限时同时受任务令牌桶限制
+   */
+  taskId?: string;
+
+  /**
+   * 中止信号，中止后等待中的申请以AbortError拒绝
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 令牌桶
+ */
+interface TokenBucket {
+  rate: number; // 速率(字节/秒)，0表示不限速
+  tokens: number; // 可用令牌(字节)，发送大于桶容量的数据时可为负数
+  updatedAt: number;
+}
+
+/**
+ * 等待中的申请
+ */
+interface PendingAcquire {
+  bytes: number;
+  taskId?: string;
+  signal?: AbortSignal;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 解析HH:mm格式的时间为当天分钟数
+ */
+function parseTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+
+  if (!match || hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    throw new Error(`无效的时段时间: ${value}`);
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * 带宽限制器
+ *
+ * 以令牌桶限制每秒发送的字节数，全局令牌桶由所有传输和队列项共享，
+ * 设置了任务速率上限的任务还需同时满足任务令牌桶。
+ * 发送前调用acquire申请与数据大小相同的令牌；大于桶容量的分片先行发送，
+ * 产生的欠额由后续申请等待偿还，长期平均速率不超过上限。
+ * 全局令牌按申请顺序分配，避免大分片一直等待。
+ */
+export class BandwidthLimiter extends BaseModule {
+  private globalLimit: number;
+  private burstSeconds: number;
+  private schedule: Array<BandwidthScheduleRule & { startMinute: number; endMinute: number }> = [];
+  private taskLimits: Map<string, number> = new Map();
+
+  private globalBucket: TokenBucket;
+  private taskBuckets: Map<string, TokenBucket> = new Map();
+  private pending: PendingAcquire[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * 创建带宽限制器实例
+   */
+  constructor(options: BandwidthLimiterOptions = {}) {
+    super({
+      id: 'bandwidth',
+      name: '带宽限制模块',
+      version: '1.0.0'
+    });
+
+    this.globalLimit = this.normalizeLimit(options.globalLimit);
+    this.burstSeconds = options.burstSeconds && options.burstSeconds > 0 ? options.burstSeconds : 1;
+    this.globalBucket = this.createBucket(this.getEffectiveLimit());
+
+    for (const [taskId, limit] of Object.entries(options.taskLimits || {})) {
+      this.setTaskLimit(taskId, limit);
+    }
+    if (options.schedule) {
+      this.setSchedule(options.schedule);
+    }
+  }
+
+  /**
+   * 申请发送指定字节数的带宽
+   * @param bytes 待发送的字节数
+   * @param options 申请选项
+   * @returns 获得令牌后resolve
+   */
+  acquire(bytes: number, options: BandwidthAcquireOptions = {}): Promise<void> {
+    if (options.signal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+    if (!(bytes > 0)) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const request: PendingAcquire = {
+        bytes,
+        taskId: options.taskId,
+        signal: options.signal,
+        resolve,
+        reject
+      };
+
+      if (options.signal) {
+        request.onAbort = () => {
+          this.removePending(request);
+          reject(this.createAbortError());
+          this.drain();
+        };
+        options.signal.addEventListener('abort', request.onAbort);
+      }
+
+      this.pending.push(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * 设置全局速率上限
+   * @param limit 字节/秒，0表示不限速
+   */
+  setGlobalLimit(limit: number): void {
+    this.globalLimit = this.normalizeLimit(limit);
+    this.notifyLimitChanged();
+    this.drain();
+  }
+
+  /**
+   * 获取全局速率上限（不考虑时段规则）
+   */
+  getGlobalLimit(): number {
+    return this.globalLimit;
+  }
+
+  /**
+   * 设置任务速率上限
+   * @param taskId 任务ID
+   * @param limit 字节/秒，0表示取消任务限速
+   */
+  setTaskLimit(taskId: string, limit: number): void {
+    const normalized = this.normalizeLimit(limit);
+
+    if (normalized > 0) {
+      this.taskLimits.set(taskId, normalized);
+    } else {
+      this.taskLimits.delete(taskId);
+    }
+
+    this.notifyLimitChanged(taskId);
+    this.drain();
+  }
+
+  /**
+   * 获取任务速率上限，未设置时返回0
+   */
+  getTaskLimit(taskId: string): number {
+    return this.taskLimits.get(taskId) || 0;
+  }
+
+  /**
+   * 移除任务的速率上限和令牌桶，任务结束后调用
+   * @param taskId 任务ID
+   */
+  removeTask(taskId: string): void {
+    this.taskLimits.delete(taskId);
+    this.taskBuckets.delete(taskId);
+    this.drain();
+  }
+
+  /**
+   * 设置时段规则
+   * @param rules 时段规则，传入空数组取消时段限速
+   */
+  setSchedule(rules: BandwidthScheduleRule[]): void {
+    this.schedule = rules.map(rule => ({
+      ...rule,
+      limit: this.normalizeLimit(rule.limit),
+      startMinute: parseTime(rule.start),
+      endMinute: parseTime(rule.end)
+    }));
+
+    this.notifyLimitChanged();
+    this.drain();
+  }
+
+  /**
+   * 获取时段规则
+   */
+  getSchedule(): BandwidthScheduleRule[] {
+    return this.schedule.map(({ start, end, limit, days }) => ({ start, end, limit, days }));
+  }
+
+  /**
+   * 获取指定时间生效的全局速率上限
+   * @param date 时间，默认当前时间
+   * @returns 字节/秒，0表示不限速
+   */
+  getEffectiveLimit(date: Date = new Date()): number {
+    const rule = this.schedule.find(item => this.matchesRule(item, date));
+    return rule ? rule.limit : this.globalLimit;
+  }
+
+  /**
+   * 等待中的申请数量
+   */
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * 模块销毁时拒绝所有等待中的申请
+   */
+  protected async onDestroy(): Promise<void> {
+    this.clearTimer();
+
+    const pending = this.pending;
+    this.pending = [];
+    for (const request of pending) {
+      this.detachSignal(request);
+      request.reject(new Error('带宽限制器已销毁'));
+    }
+  }
+
+  /**
+   * 按申请顺序分配令牌，无法满足时在令牌足够或时段切换时重新分配
+   */
+  private drain(): void {
+    this.clearTimer();
+    if (this.pending.length === 0) return;
+
+    const now = Date.now();
+    this.refill(this.globalBucket, this.getEffectiveLimit(new Date(now)), now);
+
+    let nextWait = Infinity;
+
+    for (let i = 0; i < this.pending.length; ) {
+      const request = this.pending[i];
+      const taskBucket = this.getTaskBucket(request.taskId, now);
+      const globalWait = this.getWaitTime(this.globalBucket, request.bytes);
+      const taskWait = taskBucket ? this.getWaitTime(taskBucket, request.bytes) : 0;
+
+      if (globalWait === 0 && taskWait === 0) {
+        this.consume(this.globalBucket, request.bytes);
+        if (taskBucket) this.consume(taskBucket, request.bytes);
+
+        this.pending.splice(i, 1);
+        this.detachSignal(request);
+        request.resolve();
+        continue;
+      }
+
+      nextWait = Math.min(nextWait, Math.max(globalWait, taskWait));
+
+      // 全局令牌不足时后续申请也需等待；只受任务限速的申请不阻塞其他任务
+      if (globalWait > 0) break;
+      i++;
+    }
+
+    if (this.pending.length > 0) {
+      const wait = Math.min(nextWait, this.getTimeToScheduleChange(now));
+      this.timer = setTimeout(() => this.drain(), Math.max(1, Math.ceil(wait)));
+    }
+  }
+
+  /**
+   * 获取任务令牌桶，任务未设置速率上限时返回null
+   */
+  private getTaskBucket(taskId: string | undefined, now: number): TokenBucket | null {
+    const limit = taskId ? this.taskLimits.get(taskId) : undefined;
+    if (!taskId || !limit) return null;
+
+    let bucket = this.taskBuckets.get(taskId);
+    if (!bucket) {
+      bucket = this.createBucket(limit);
+      this.taskBuckets.set(taskId, bucket);
+    }
+
+    this.refill(bucket, limit, now);
+    return bucket;
+  }
+
+  private createBucket(rate: number): TokenBucket {
+    return { rate, tokens: this.getCapacity(rate), updatedAt: Date.now() };
+  }
+
+  /**
+   * 按经过的时间补充令牌，速率变化时先按原速率结算
+   */
+  private refill(bucket: TokenBucket, rate: number, now: number): void {
+    if (bucket.rate > 0) {
+      const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(
+        this.getCapacity(bucket.rate),
+        bucket.tokens + elapsed * bucket.rate
+      );
+    }
+
+    if (bucket.rate !== rate) {
+      // 从不限速切换为限速时令牌桶从满桶开始
+      bucket.tokens =
+        bucket.rate > 0 ? Math.min(bucket.tokens, this.getCapacity(rate)) : this.getCapacity(rate);
+      bucket.rate = rate;
+    }
+
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * 计算令牌足够前需要等待的毫秒数
+   * 申请大于桶容量时只需等待满桶
+   */
+  private getWaitTime(bucket: TokenBucket, bytes: number): number {
+    if (bucket.rate <= 0) return 0;
+
+    const required = Math.min(bytes, this.getCapacity(bucket.rate));
+    if (bucket.tokens >= required) return 0;
+
+    return ((required - bucket.tokens) / bucket.rate) * 1000;
+  }
+
+  private consume(bucket: TokenBucket, bytes: number): void {
+    if (bucket.rate > 0) {
+      bucket.tokens -= bytes;
+    }
+  }
+
+  private getCapacity(rate: number): number {
+    return rate * this.burstSeconds;
+  }
+
+  /**
+   * 判断时间是否落在时段规则内
+   */
+  private matchesRule(
+    rule: BandwidthScheduleRule & { startMinute: number; endMinute: number },
+    date: Date
+  ): boolean {
+    if (rule.days && !rule.days.includes(date.getDay())) {
+      return false;
+    }
+
+    const minute = date.getHours() * 60 + date.getMinutes();
+    const { startMinute, endMinute } = rule;
+
+    if (startMinute === endMinute) return true;
+    if (startMinute < endMinute) return minute >= startMinute && minute < endMinute;
+    return minute >= startMinute || minute < endMinute;
+  }
+
+  /**
+   * 计算距离下一个时段边界的毫秒数，用于时段切换时重新分配令牌
+   */
+  private getTimeToScheduleChange(now: number): number {
+    if (this.schedule.length === 0) return Infinity;
+
+    const date = new Date(now);
+    const minute = date.getHours() * 60 + date.getMinutes();
+    const offset = date.getSeconds() * 1000 + date.getMilliseconds();
+    let minutes = MINUTES_PER_DAY;
+
+    for (const rule of this.schedule) {
+      for (const boundary of [rule.startMinute, rule.endMinute]) {
+        const delta = (boundary - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+        if (delta > 0) minutes = Math.min(minutes, delta);
+      }
+    }
+
+    return minutes * 60 * 1000 - offset;
+  }
+
+  private normalizeLimit(limit?: number): number {
+    return typeof limit === 'number' && isFinite(limit) && limit > 0 ? limit : 0;
+  }
+
+  private removePending(request: PendingAcquire): void {
+    const index = this.pending.indexOf(request);
+    if (index !== -1) this.pending.splice(index, 1);
+    this.detachSignal(request);
+  }
+
+  private detachSignal(request: PendingAcquire): void {
+    if (request.signal && request.onAbort) {
+      request.signal.removeEventListener('abort', request.onAbort);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 通知速率上限变化，未连接事件总线时不通知
+   */
+  private notifyLimitChanged(taskId?: string): void {
+    if (!this._eventBus) return;
+
+    this.emit('bandwidth:limitChanged', {
+      taskId,
+      globalLimit: this.globalLimit,
+      effectiveLimit: this.getEffectiveLimit(),
+      taskLimit: taskId ? this.getTaskLimit(taskId) : undefined
+    });
+  }
+
+  private createAbortError(): Error {
+    const error = new Error('带宽申请已中止');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -268,6 +268,28 @@ export class ChunkIterator {
     this.currentIndex = this.totalChunks;
   }
 
+  /**
+   * 替换从指定索引开始的分片
+   * 用于自适应分片时重新切分尚未访问的分片，已访问的分片不可替换
+   *
+   * @param index 第一个被替换的分片索引
+   * @param chunks 新的分片，索引应从index开始连续递增
+   */
+  replaceFrom(index: number, chunks: FileChunk[]): void {
+    if (index < this.currentIndex || index > this.totalChunks) {
+      throw new Error(`无法替换已访问的分片: ${index}`);
+    }
+
+    this.chunks = [...this.chunks.slice(0, index), ...chunks];
+    this.totalChunks = this.chunks.length;
+
+    for (const key of Array.from(this.chunkCache.keys())) {
+      if (key >= index) {
+        this.chunkCache.delete(key);
+      }
+    }
+  }
+
   /**
    * 清理缓存
    */
@@ -59,6 +59,11 @@ export class ChunkStrategy {
    */
   private targetChunkTime: number;
 
+  /**
+   * 请求往返时间（毫秒）
+   */
+  private rtt: number = 0;
+
   /**
    * 初始化分片策略
    *
@@ -91,6 +96,37 @@ export class ChunkStrategy {
     this.measurementCount++;
   }
 
+  /**
+   * 更新请求往返时间
+   * 使用不携带文件数据的请求（如秒传检查、合并）的耗时测量
+   *
+   * @param milliseconds 往返时间（毫秒）
+   */
+  updateRtt(milliseconds: number): void {
+    if (milliseconds <= 0) {
+      return;
+    }
+
+    this.rtt = this.rtt === 0 ? milliseconds : this.rtt * 0.7 + milliseconds * 0.3;
+  }
+
+  /**
+   * 记录分片上传耗时并更新网络速度
+   * 扣除往返时间后得到传输数据的实际速度
+   *
+   * @param bytes 分片大小（字节）
+   * @param milliseconds 分片上传耗时（毫秒）
+   */
+  recordChunk(bytes: number, milliseconds: number): void {
+    if (bytes <= 0 || milliseconds <= 0) {
+      return;
+    }
+
+    // 往返时间测量有误差，至少保留一半耗时用于传输
+    const transferTime = Math.max(milliseconds - this.rtt, milliseconds / 2);
+    this.updateNetworkSpeed((bytes / transferTime) * 1000);
+  }
+
   /**
    * 获取最优分片大小
    *
@@ -110,8 +146,9 @@ export class ChunkStrategy {
       return Math.min(Math.max(this.minChunkSize, Math.ceil(fileSize / 100)), this.maxChunkSize);
     }
 
-    // 基于当前网速和目标上传时间计算分片大小
-    let optimalSize = this.networkSpeed * this.targetChunkTime;
+    // 基于当前网速和目标上传时间计算分片大小，每个分片的耗时包含一次往返时间
+    const transferTime = Math.max(this.targetChunkTime - this.rtt / 1000, this.targetChunkTime / 2);
+    let optimalSize = this.networkSpeed * transferTime;
 
     // 确保在限制范围内
     optimalSize = Math.max(this.minChunkSize, Math.min(optimalSize, this.maxChunkSize));
@@ -125,6 +162,7 @@ export class ChunkStrategy {
   resetMeasurements(): void {
     this.networkSpeed = 0;
     this.measurementCount = 0;
+    this.rtt = 0;
   }
 
   /**
@@ -136,13 +174,23 @@ export class ChunkStrategy {
     return this.networkSpeed;
   }
 
+  /**
+   * 获取当前往返时间
+   *
+   * @returns 往返时间（毫秒）
+   */
+  getCurrentRtt(): number {
+    return this.rtt;
+  }
+
   /**
    * 获取网速统计信息
    */
-  getSpeedStats(): { speed: number; measurements: number } {
+  getSpeedStats(): { speed: number; measurements: number; rtt: number } {
     return {
       speed: this.networkSpeed,
-      measurements: this.measurementCount
+      measurements: this.measurementCount,
+      rtt: this.rtt
     };
   }
 }
@@ -346,15 +346,37 @@ export class ConcurrencyManager {
    */
   setConcurrency(value: number): void {
     const newValue = Math.max(this.minConcurrency, Math.min(value, this.maxConcurrency));
+    const increased = newValue > this._concurrency;
 
     this._concurrency = newValue;
 
     // 如果增加了并发数，尝试处理队列
-    if (newValue > this._concurrency) {
+    if (increased) {
       this.processQueue();
     }
   }
 
+  /**
+   * 设置并发上限
+   * 自适应调整不会超过该上限，可用作多个上传任务共享的全局并发预算
+   *
+   * @param value 新的并发上限
+   */
+  setMaxConcurrency(value: number): void {
+    this.maxConcurrency = Math.max(this.minConcurrency, value);
+
+    if (this._concurrency > this.maxConcurrency) {
+      this._concurrency = this.maxConcurrency;
+    }
+  }
+
+  /**
+   * 获取并发上限
+   */
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
   /**
    * 部分重置计数器
    * 保留一部分最近的数据，给予新数据更多权重
@@ -0,0 +1,218 @@
+import { PlatformAdapter } from '../../platforms/platform-base';
+import { StorageEngine, supportsBinaryStorage } from '../storage/storage-engine';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  readChunkData
+} from '../security/implementations/chunk-encryptor';
+
+/**
+ * 下载分片范围
+ */
+export interface DownloadRange {
+  index: number; // 分片索引
+  start: number; // 起始位置（包含）
+  end: number; // 结束位置（不包含）
+}
+
+/**
+ * 下载输出目标
+ * 分片可能乱序写入，输出目标负责按位置组装完整文件
+ */
+export interface DownloadSink {
+  /**
+   * 确认续传时已下载的分片是否仍然可用
+   * @param indices 检查点记录的已下载分片
+   * @returns 数据仍然可用的分片，其余分片需要重新下载
+   */
+  restore(indices: number[]): Promise<number[]>;
+
+  /**
+   * 写入分片数据
+   */
+  write(range: DownloadRange, data: ArrayBuffer): Promise<void>;
+
+  /**
+   * 所有分片写入完成，返回下载结果（浏览器为Blob，小程序和React Native为文件路径）
+   */
+  finish(): Promise<Blob | string>;
+
+  /**
+   * 读取完整文件内容，用于完整性校验
+   */
+  read(): Promise<Blob | ArrayBuffer>;
+
+  /**
+   * 丢弃已写入的数据
+   */
+  discard(): Promise<void>;
+}
+
+/**
+ * Blob输出选项
+ */
+export interface BlobDownloadSinkOptions {
+  /**
+   * 存储引擎，提供时已下载的分片会持久化，页面刷新后可以续传
+   */
+  storage?: StorageEngine;
+
+  /**
+   * 存储键前缀，通常使用下载任务的检查点键
+   */
+  key: string;
+
+  /**
+   * 文件MIME类型
+   */
+  type?: string;
+}
+
+/**
+ * Blob输出目标（浏览器）
+ *
+ * 分片保存在内存中，下载完成后拼接为Blob。
+ * 存储引擎支持二进制数据时分片按原始字节持久化，否则以Base64字符串保存。
+ */
+export class BlobDownloadSink implements DownloadSink {
+  private options: BlobDownloadSinkOptions;
+  private parts: Map<number, ArrayBuffer> = new Map();
+  private persisted: Set<number> = new Set();
+
+  constructor(options: BlobDownloadSinkOptions) {
+    this.options = options;
+  }
+
+  async restore(indices: number[]): Promise<number[]> {
+    const storage = this.options.storage;
+    if (!storage) {
+      return indices.filter(index => this.parts.has(index));
+    }
+
+    const available: number[] = [];
+    for (const index of indices) {
+      if (this.parts.has(index) || (await storage.exists(this.getPartKey(index)))) {
+        this.persisted.add(index);
+        available.push(index);
+      }
+    }
+    return available;
+  }
+
+  async write(range: DownloadRange, data: ArrayBuffer): Promise<void> {
+    this.parts.set(range.index, data);
+
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    if (supportsBinaryStorage(storage)) {
+      await storage.saveBlob(this.getPartKey(range.index), data);
+    } else {
+      await storage.save(this.getPartKey(range.index), bytesToBase64(data));
+    }
+    this.persisted.add(range.index);
+  }
+
+  async finish(): Promise<Blob> {
+    return this.read();
+  }
+
+  async read(): Promise<Blob> {
+    const indices = new Set([...this.parts.keys(), ...this.persisted]);
+    const blobs: BlobPart[] = [];
+
+    for (const index of Array.from(indices).sort((a, b) => a - b)) {
+      blobs.push(await this.readPart(index));
+    }
+
+    return new Blob(blobs, { type: this.options.type || '' });
+  }
+
+  async discard(): Promise<void> {
+    const storage = this.options.storage;
+    if (storage) {
+      for (const index of this.persisted) {
+        await storage.remove(this.getPartKey(index));
+      }
+    }
+
+    this.parts.clear();
+    this.persisted.clear();
+  }
+
+  /**
+   * 读取分片数据，内存中没有时从存储引擎恢复
+   */
+  private async readPart(index: number): Promise<ArrayBuffer> {
+    const cached = this.parts.get(index);
+    if (cached) return cached;
+
+    const data = await this.loadPart(index);
+    if (!data) {
+      throw new Error(`下载分片数据丢失: ${index}`);
+    }
+
+    this.parts.set(index, data);
+    return data;
+  }
+
+  /**
+   * 从存储引擎读取持久化的分片数据
+   * @returns 分片数据，不存在时返回null
+   */
+  private async loadPart(index: number): Promise<ArrayBuffer | null> {
+    const storage = this.options.storage;
+    const key = this.getPartKey(index);
+
+    if (supportsBinaryStorage(storage)) {
+      const blob = await storage.getBlob(key);
+      return blob ? readChunkData(blob) : null;
+    }
+
+    const stored = await storage?.get<string>(key);
+    return typeof stored === 'string' ? readChunkData(base64ToBytes(stored)) : null;
+  }
+
+  private getPartKey(index: number): string {
+    return `${this.options.key}:part:${index}`;
+  }
+}
+
+/**
+ * 文件路径输出目标（小程序、React Native）
+ *
+ * 分片通过平台适配器直接写入文件的对应位置，内存中不保留分片数据，
+ * 已写入文件的分片在应用重启后仍然可用。
+ */
+export class FileDownloadSink implements DownloadSink {
+  private platform: PlatformAdapter;
+  private filePath: string;
+
+  constructor(platform: PlatformAdapter, filePath: string) {
+    this.platform = platform;
+    this.filePath = filePath;
+  }
+
+  async restore(indices: number[]): Promise<number[]> {
+    return indices;
+  }
+
+  async write(range: DownloadRange, data: ArrayBuffer): Promise<void> {
+    await this.platform.writeFile(this.filePath, data, range.start);
+  }
+
+  async finish(): Promise<string> {
+    return this.filePath;
+  }
+
+  async read(): Promise<ArrayBuffer> {
+    const content = await this.platform.readFile(this.filePath);
+    return typeof content === 'string'
+      ? (new TextEncoder().encode(content).buffer as ArrayBuffer)
+      : content;
+  }
+
+  async discard(): Promise<void> {
+    // 文件由调用方管理，不在这里删除；重新下载时按位置覆盖写入
+  }
+}
@@ -0,0 +1,1196 @@
+import { ProgressInfo, RequestHookContext, ResponseHookContext } from '../interfaces';
+import { BaseModule } from '../../../core/module-base';
+import { PlatformAdapter, RawResponse } from '../../../platforms/platform-base';
+import { ChunkStrategy } from '../chunk-strategy';
+import { ConcurrencyManager } from '../concurrency-manager';
+import { BandwidthLimiter } from '../bandwidth-limiter';
+import { BlobDownloadSink, DownloadRange, DownloadSink, FileDownloadSink } from '../download-sink';
+import { CheckpointStore, UploadCheckpoint } from '../../storage/checkpoint-store';
+import { StorageEngine } from '../../storage/storage-engine';
+import { IntegrityChecker } from '../../security/implementations/integrity-checker';
+import { HashAlgorithm, IntegrityCheckerInterface } from '../../security/interfaces';
+import { readChunkData } from '../../security/implementations/chunk-encryptor';
+import { PluginManager } from '../../../plugins/plugin-manager';
+import { ExtensionPoint, runExtensionPoint } from '../../../plugins/plugin-api';
+
+/**
+ * 下载传输选项
+ */
+export interface DownloadTransportOptions {
+  /**
+   * 初始分片大小(字节)，默认2MB，实际大小由分片策略根据文件大小确定
+   */
+  chunkSize?: number;
+
+  /**
+   * 并发下载数，默认3
+   */
+  concurrency?: number;
+
+  /**
+   * 共享的并发管理器，与HttpTransport共享时上传和下载共用并发名额
+   */
+  concurrencyManager?: ConcurrencyManager;
+
+  /**
+   * 是否自动重试
+   */
+  autoRetry?: boolean;
+
+  /**
+   * 最大重试次数
+   */
+  maxRetries?: number;
+
+  /**
+   * 重试延迟(毫秒)
+   */
+  retryDelay?: number;
+
+  /**
+   * 单个分片请求超时时间(毫秒)
+   */
+  timeout?: number;
+
+  /**
+   * 自定义请求头
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * 下载检查点存储
+   * 记录已下载的分片，与上传共用存储引擎时应使用独立前缀，
+   * 如 new CheckpointStore(storage, { prefix: 'download:' })
+   */
+  checkpointStore?: CheckpointStore;
+
+  /**
+   * 分片数据存储引擎
+   * 输出为Blob时持久化已下载的分片，页面刷新后配合检查点续传
+   */
+  storage?: StorageEngine;
+
+  /**
+   * 完整性检查器，默认在主线程计算哈希
+   */
+  integrityChecker?: IntegrityCheckerInterface;
+
+  /**
+   * 带宽限制器，每个分片请求前按分片大小申请带宽
+   */
+  bandwidthLimiter?: BandwidthLimiter;
+
+  /**
+   * 插件管理器，每个下载请求执行NETWORK_REQUEST_INTERCEPTOR和NETWORK_RESPONSE_INTERCEPTOR钩子
+   */
+  pluginManager?: Pick<PluginManager, 'executeHook'>;
+}
+
+/**
+ * 单个文件的下载选项
+ */
+export interface DownloadFileOptions {
+  /**
+   * 任务ID，传入已暂停任务的ID时继续下载
+   */
+  taskId?: string;
+
+  /**
+   * 任务优先级，数字越大其分片越先获得并发名额
+   */
+  priority?: number;
+
+  /**
+   * 文件名
+   */
+  fileName?: string;
+
+  /**
+   * 保存路径，小程序和React Native必须提供，提供时结果为文件路径而不是Blob
+   */
+  filePath?: string;
+
+  /**
+   * 检查点键，默认使用下载地址（和保存路径）
+   */
+  checkpointKey?: string;
+
+  /**
+   * 期望的文件哈希，提供时下载完成后校验
+   */
+  expectedHash?: string;
+
+  /**
+   * 校验使用的哈希算法，默认SHA256
+   */
+  hashAlgorithm?: HashAlgorithm;
+
+  /**
+   * 额外的请求头
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * 任务进度回调（0-100）
+   */
+  onProgress?: (progress: number, info?: ProgressInfo) => void;
+}
+
+/**
+ * 下载任务状态
+ */
+export type DownloadStatus =
+  | 'idle'
+  | 'preparing'
+  | 'downloading'
+  | 'paused'
+  | 'verifying'
+  | 'completed'
+  | 'error'
+  | 'canceled';
+
+/**
+ * 下载结果
+ */
+export interface DownloadResult {
+  /**
+   * 下载地址
+   */
+  url: string;
+
+  /**
+   * 文件内容，浏览器为Blob，小程序和React Native为文件路径
+   */
+  data: Blob | string;
+
+  /**
+   * 文件大小(字节)
+   */
+  size: number;
+
+  /**
+   * 文件名
+   */
+  fileName?: string;
+
+  /**
+   * 校验通过的文件哈希
+   */
+  hash?: string;
+}
+
+/**
+ * 下载任务信息
+ */
+export interface DownloadTask {
+  id: string;
+  url: string;
+  status: DownloadStatus;
+  progress: number; // 下载进度（0-100）
+  loaded: number; // 已下载字节数
+  total: number; // 文件大小，开始下载前为0
+  startTime: number;
+  endTime: number | null;
+  result: DownloadResult | null;
+  error: { message: string; code: string } | null;
+}
+
+/**
+ * 任务被暂停时download抛出的错误代码
+ */
+export const DOWNLOAD_PAUSED_ERROR_CODE = 'DOWNLOAD_PAUSED';
+
+/**
+ * 下载内容与期望哈希不一致时的错误代码
+ */
+export const DOWNLOAD_INTEGRITY_ERROR_CODE = 'DOWNLOAD_INTEGRITY_MISMATCH';
+
+/**
+ * 续传过程中远端文件发生变化时的错误代码
+ */
+export const DOWNLOAD_SOURCE_CHANGED_ERROR_CODE = 'DOWNLOAD_SOURCE_CHANGED';
+
+/**
+ * 检查点中记录的协议名称
+ */
+const DOWNLOAD_CHECKPOINT_PROTOCOL = 'http-range';
+
+/**
+ * 探测请求的结果
+ */
+interface ProbeResult {
+  total: number;
+  rangeSupported: boolean;
+  validator?: string; // ETag或Last-Modified，续传时用于判断远端文件是否变化
+  type?: string;
+  body?: ArrayBuffer; // 服务端不支持Range时的完整文件内容
+}
+
+/**
+ * 下载会话
+ * 同一任务暂停后继续下载时复用，沿用原分片大小，内存中的分片不必重新下载
+ */
+interface DownloadSession {
+  sink: DownloadSink;
+  total: number;
+  validator?: string;
+  chunkSize?: number;
+  completed: Set<number>;
+}
+
+/**
+ * HTTP分片下载模块
+ *
+ * 先用 Range: bytes=0-0 探测文件大小和是否支持Range，再按分片策略切分并发下载，
+ * 分片乱序写入输出目标（浏览器为Blob，小程序和React Native为文件路径）。
+ * 已下载的分片记录在检查点中，暂停、失败或应用重启后只下载缺少的分片；
+ * 服务端不支持Range时退化为一次完整下载。
+ */
+export class DownloadTransport extends BaseModule {
+  private options: DownloadTransportOptions;
+  private chunkStrategy: ChunkStrategy;
+  private concurrencyManager: ConcurrencyManager;
+  private ownsConcurrencyManager: boolean;
+  private integrityChecker: IntegrityCheckerInterface;
+
+  // 下载状态
+  private tasks: Map<string, DownloadTask> = new Map();
+  private requests: Map<string, { url: string; platform: any; options: DownloadFileOptions }> =
+    new Map();
+  private sessions: Map<string, DownloadSession> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private checkpointsCleaned: boolean = false;
+
+  /**
+   * 创建下载模块实例
+   */
+  constructor(options: DownloadTransportOptions = {}) {
+    super({
+      id: 'download',
+      name: '文件下载模块',
+      version: '1.0.0',
+      dependencies: ['platform']
+    });
+
+    this.options = {
+      chunkSize: 2 * 1024 * 1024, // 2MB
+      concurrency: 3,
+      autoRetry: true,
+      maxRetries: 3,
+      retryDelay: 1000,
+      timeout: 30000,
+      ...options
+    };
+
+    this.chunkStrategy = new ChunkStrategy({
+      minChunkSize: 512 * 1024, // 512KB
+      maxChunkSize: 10 * 1024 * 1024, // 10MB
+      initialChunkSize: this.options.chunkSize
+    });
+
+    this.ownsConcurrencyManager = !this.options.concurrencyManager;
+    this.concurrencyManager =
+      this.options.concurrencyManager ||
+      new ConcurrencyManager({ maxConcurrency: this.options.concurrency });
+
+    // Worker哈希需要独立的脚本文件，默认在主线程计算
+    this.integrityChecker =
+      this.options.integrityChecker || new IntegrityChecker({ useWorker: false });
+  }
+
+  /**
+   * 模块初始化，连接到微内核
+   */
+  protected async onInit(): Promise<void> {
+    this.emit('download:initialized', {
+      module: 'download',
+      options: this.options
+    });
+  }
+
+  /**
+   * 下载文件
+   * 任务被暂停时以DOWNLOAD_PAUSED错误结束，之后以相同taskId再次调用或调用resumeTask即可续传
+   * @param url 下载地址
+   * @param platform 平台适配器，不传时使用内核中的platform模块
+   * @param downloadOptions 单个文件的下载选项
+   * @returns 下载结果
+   */
+  async download(
+    url: string,
+    platform?: any,
+    downloadOptions: DownloadFileOptions = {}
+  ): Promise<DownloadResult> {
+    const taskId = downloadOptions.taskId || this.generateTaskId();
+    const platformAdapter: PlatformAdapter = platform || this.getModule<any>('platform');
+    this.requests.set(taskId, { url, platform: platformAdapter, options: downloadOptions });
+
+    const existing = this.tasks.get(taskId);
+    const task: DownloadTask = {
+      id: taskId,
+      url,
+      status: 'preparing',
+      progress: existing?.progress || 0,
+      loaded: existing?.loaded || 0,
+      total: existing?.total || 0,
+      startTime: Date.now(),
+      endTime: null,
+      result: null,
+      error: null
+    };
+    this.tasks.set(taskId, task);
+    this.updateTaskStatus(taskId, 'preparing');
+    this.emit('download:start', { taskId, url });
+
+    const key = this.getCheckpointKey(url, downloadOptions);
+
+    try {
+      const probe = await this.probe(taskId, url, platformAdapter, downloadOptions);
+      this.assertTaskActive(taskId);
+
+      task.total = probe.total;
+      const session = await this.getSession(taskId, key, platformAdapter, downloadOptions, probe);
+      const sink = session.sink;
+
+      if (!probe.rangeSupported) {
+        // 服务端不支持Range，探测请求已返回完整内容
+        await sink.write({ index: 0, start: 0, end: probe.total }, probe.body!);
+        this.updateTaskProgress(taskId, probe.total, 1, 1);
+      } else {
+        await this.downloadRanges(
+          taskId,
+          key,
+          url,
+          probe,
+          platformAdapter,
+          session,
+          downloadOptions
+        );
+      }
+
+      // 校验完整性
+      let hash: string | undefined;
+      if (downloadOptions.expectedHash) {
+        this.updateTaskStatus(taskId, 'verifying');
+        hash = await this.verify(taskId, key, sink, downloadOptions);
+      }
+
+      const data = await sink.finish();
+
+      // 结果已生成，检查点和持久化的分片不再需要
+      this.sessions.delete(taskId);
+      this.requests.delete(taskId);
+      await this.removeCheckpoint(key);
+      if (typeof data !== 'string') {
+        await sink.discard();
+      }
+
+      const result: DownloadResult = {
+        url,
+        data,
+        size: probe.total,
+        fileName: downloadOptions.fileName,
+        hash
+      };
+      this.updateTaskStatus(taskId, 'completed', 100, result);
+
+      return result;
+    } catch (error: any) {
+      const status = this.tasks.get(taskId)?.status;
+
+      if (status === 'paused') {
+        throw this.createPausedError(taskId);
+      }
+
+      if (status === 'canceled') {
+        throw new Error('下载已取消');
+      }
+
+      this.updateTaskStatus(taskId, 'error', undefined, undefined, {
+        message: error.message || '下载失败',
+        code: error.code || 'DOWNLOAD_ERROR'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 探测文件大小和Range支持
+   */
+  private async probe(
+    taskId: string,
+    url: string,
+    platform: PlatformAdapter,
+    downloadOptions: DownloadFileOptions
+  ): Promise<ProbeResult> {
+    const controllerKey = `${taskId}_probe`;
+    const abortController = new AbortController();
+    this.abortControllers.set(controllerKey, abortController);
+
+    try {
+      let response: RawResponse;
+      try {
+        response = await this.request(platform, url, downloadOptions, abortController.signal, {
+          Range: 'bytes=0-0'
+        });
+      } catch (error: any) {
+        // 空文件无法满足Range请求
+        if (error.status !== 416) throw error;
+        response = await this.request(platform, url, downloadOptions, abortController.signal);
+      }
+
+      const headers = response.headers || {};
+      const validator = headers['etag'] || headers['last-modified'];
+      const type = headers['content-type'];
+      const contentRange = /\/(\d+)\s*$/.exec(headers['content-range'] || '');
+
+      if (response.status === 206 && contentRange) {
+        return { total: parseInt(contentRange[1], 10), rangeSupported: true, validator, type };
+      }
+
+      const body = await readChunkData(response.data);
+      return { total: body.byteLength, rangeSupported: false, validator, type, body };
+    } finally {
+      this.abortControllers.delete(controllerKey);
+    }
+  }
+
+  /**
+   * 并发下载所有缺少的分片
+   */
+  private async downloadRanges(
+    taskId: string,
+    key: string,
+    url: string,
+    probe: ProbeResult,
+    platform: PlatformAdapter,
+    session: DownloadSession,
+    downloadOptions: DownloadFileOptions
+  ): Promise<void> {
+    const sink = session.sink;
+    const checkpoint = await this.loadCheckpoint(key, probe);
+
+    // 续传时必须沿用原分片大小，分片策略会随网速调整分片大小
+    const chunkSize =
+      session.chunkSize ||
+      checkpoint?.chunkSize ||
+      this.chunkStrategy.getOptimalChunkSize(probe.total);
+    session.chunkSize = chunkSize;
+
+    const ranges: DownloadRange[] = [];
+    for (let start = 0, index = 0; start < probe.total; start += chunkSize, index++) {
+      ranges.push({ index, start, end: Math.min(start + chunkSize, probe.total) });
+    }
+
+    // 检查点记录的分片还需输出目标确认数据仍然可用
+    const recorded =
+      checkpoint?.chunkSize === chunkSize
+        ? [...checkpoint.acknowledgedChunks, ...session.completed]
+        : [...session.completed];
+    const completed = new Set(await sink.restore(Array.from(new Set(recorded))));
+    session.completed = completed;
+
+    await this.saveCheckpoint(
+      key,
+      url,
+      probe,
+      chunkSize,
+      ranges.length,
+      completed,
+      downloadOptions
+    );
+
+    if (completed.size > 0) {
+      this.emit('download:resumeFromCheckpoint', {
+        taskId,
+        downloadedChunks: Array.from(completed)
+      });
+    }
+
+    const loaded = () =>
+      ranges.reduce(
+        (sum, range) => (completed.has(range.index) ? sum + range.end - range.start : sum),
+        0
+      );
+    this.updateTaskProgress(taskId, loaded(), completed.size, ranges.length);
+
+    this.assertTaskActive(taskId);
+    this.updateTaskStatus(taskId, 'downloading');
+
+    const pending = ranges.filter(range => !completed.has(range.index));
+    let failure: any = null;
+
+    // 每个下载通道依次领取分片，第一个失败后不再领取新分片
+    const runChannel = async (): Promise<void> => {
+      for (;;) {
+        const range = pending.shift();
+        if (!range || failure) return;
+
+        try {
+          await this.downloadRange(taskId, url, probe, platform, sink, range, downloadOptions);
+        } catch (error) {
+          failure = failure || error;
+          return;
+        }
+
+        completed.add(range.index);
+        this.acknowledgeCheckpoint(key, range.index);
+        this.updateTaskProgress(taskId, loaded(), completed.size, ranges.length, range.index);
+      }
+    };
+
+    const channels = Math.min(this.concurrencyManager.concurrency, pending.length);
+    await Promise.all(Array.from({ length: channels }, runChannel));
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * 下载单个分片，失败时按退避策略重试
+   */
+  private async downloadRange(
+    taskId: string,
+    url: string,
+    probe: ProbeResult,
+    platform: PlatformAdapter,
+    sink: DownloadSink,
+    range: DownloadRange,
+    downloadOptions: DownloadFileOptions
+  ): Promise<void> {
+    const chunkKey = `${taskId}_${range.index}`;
+
+    for (let retryCount = 0; ; retryCount++) {
+      this.assertTaskActive(taskId);
+
+      const abortController = new AbortController();
+      this.abortControllers.set(chunkKey, abortController);
+
+      try {
+        const startTime = Date.now();
+
+        // 使用并发管理器控制下载，优先级高的任务先获得并发名额
+        const data = await this.concurrencyManager.execute(async () => {
+          await this.options.bandwidthLimiter?.acquire(range.end - range.start, {
+            taskId,
+            signal: abortController.signal
+          });
+          return this.fetchRange(
+            url,
+            probe,
+            platform,
+            range,
+            downloadOptions,
+            abortController.signal
+          );
+        }, downloadOptions.priority || 0);
+
+        const duration = (Date.now() - startTime) / 1000;
+        this.chunkStrategy.updateNetworkSpeed(data.byteLength / Math.max(duration, 0.001));
+
+        await sink.write(range, data);
+
+        this.emit('download:chunkSuccess', {
+          taskId,
+          chunkIndex: range.index,
+          size: data.byteLength
+        });
+        return;
+      } catch (error: any) {
+        // 暂停或取消导致的中止不是错误
+        this.assertTaskActive(taskId);
+
+        const retryable = this.isRetryableError(error);
+        this.emit('download:chunkError', {
+          taskId,
+          chunkIndex: range.index,
+          error: error.message,
+          retryable
+        });
+
+        if (!this.options.autoRetry || !retryable || retryCount >= this.options.maxRetries!) {
+          throw error;
+        }
+
+        const delay = this.calculateRetryDelay(retryCount);
+        this.emit('download:chunkRetry', {
+          taskId,
+          chunkIndex: range.index,
+          retryCount: retryCount + 1,
+          delay
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        this.abortControllers.delete(chunkKey);
+      }
+    }
+  }
+
+  /**
+   * 请求分片数据并校验响应
+   */
+  private async fetchRange(
+    url: string,
+    probe: ProbeResult,
+    platform: PlatformAdapter,
+    range: DownloadRange,
+    downloadOptions: DownloadFileOptions,
+    signal: AbortSignal
+  ): Promise<ArrayBuffer> {
+    const response = await this.request(platform, url, downloadOptions, signal, {
+      Range: `bytes=${range.start}-${range.end - 1}`,
+      ...(probe.validator ? { 'If-Range': probe.validator } : {})
+    });
+
+    // If-Range不匹配时服务端返回完整文件
+    const validator = response.headers?.['etag'] || response.headers?.['last-modified'];
+    if (
+      response.status !== 206 ||
+      (probe.validator && validator && validator !== probe.validator)
+    ) {
+      const error = new Error('远端文件在下载过程中发生变化');
+      (error as any).code = DOWNLOAD_SOURCE_CHANGED_ERROR_CODE;
+      throw error;
+    }
+
+    const data = await readChunkData(response.data);
+    if (data.byteLength !== range.end - range.start) {
+      const error = new Error(
+        `分片${range.index}长度不匹配: ${data.byteLength}/${range.end - range.start}`
+      );
+      (error as any).code = 'DOWNLOAD_RANGE_MISMATCH';
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * 发送下载请求
+   * 插件可改写请求地址和请求头，并读取或改写响应
+   */
+  private async request(
+    platform: PlatformAdapter,
+    url: string,
+    downloadOptions: DownloadFileOptions,
+    signal: AbortSignal,
+    headers: Record<string, string> = {}
+  ): Promise<RawResponse> {
+    const { request } = await runExtensionPoint<RequestHookContext>(
+      this.options.pluginManager,
+      ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR,
+      {
+        request: {
+          url,
+          method: 'GET',
+          headers: {
+            ...(this.options.headers || {}),
+            ...(downloadOptions.headers || {}),
+            ...headers
+          },
+          timeout: this.options.timeout,
+          signal
+        }
+      }
+    );
+
+    const raw: RawResponse = await platform.request(request.url, request.method, undefined, {
+      headers: request.headers,
+      timeout: request.timeout,
+      signal: request.signal,
+      fullResponse: true,
+      responseType: 'arraybuffer'
+    });
+
+    const { response } = await runExtensionPoint<ResponseHookContext>(
+      this.options.pluginManager,
+      ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR,
+      { request, response: raw }
+    );
+    return response;
+  }
+
+  /**
+   * 校验下载内容的哈希
+   * 校验失败时丢弃已下载的数据，下次从头下载
+   * @returns 文件哈希
+   */
+  private async verify(
+    taskId: string,
+    key: string,
+    sink: DownloadSink,
+    downloadOptions: DownloadFileOptions
+  ): Promise<string> {
+    const expectedHash = downloadOptions.expectedHash!;
+    const content = await sink.read();
+    const valid = await this.integrityChecker.verifyHash(
+      content,
+      expectedHash,
+      downloadOptions.hashAlgorithm || 'SHA256'
+    );
+
+    if (!valid) {
+      this.sessions.delete(taskId);
+      await sink.discard();
+      await this.removeCheckpoint(key);
+
+      const error = new Error('下载文件完整性校验失败');
+      (error as any).code = DOWNLOAD_INTEGRITY_ERROR_CODE;
+      throw error;
+    }
+
+    return expectedHash.toLowerCase();
+  }
+
+  /**
+   * 获取或创建任务的下载会话
+   * 远端文件变化时丢弃原会话已下载的数据
+   */
+  private async getSession(
+    taskId: string,
+    key: string,
+    platform: PlatformAdapter,
+    downloadOptions: DownloadFileOptions,
+    probe: ProbeResult
+  ): Promise<DownloadSession> {
+    const existing = this.sessions.get(taskId);
+    if (existing && existing.total === probe.total && existing.validator === probe.validator) {
+      return existing;
+    }
+    if (existing) {
+      await existing.sink.discard();
+    }
+
+    let sink: DownloadSink;
+    if (downloadOptions.filePath) {
+      sink = new FileDownloadSink(platform, downloadOptions.filePath);
+    } else if (typeof Blob !== 'undefined') {
+      sink = new BlobDownloadSink({ storage: this.options.storage, key, type: probe.type });
+    } else {
+      throw new Error('当前平台不支持Blob，下载时必须提供filePath');
+    }
+
+    const session: DownloadSession = {
+      sink,
+      total: probe.total,
+      validator: probe.validator,
+      completed: new Set()
+    };
+    this.sessions.set(taskId, session);
+    return session;
+  }
+
+  /**
+   * 读取下载检查点
+   * 文件大小、分片协议或远端文件标识变化时检查点失效
+   */
+  private async loadCheckpoint(key: string, probe: ProbeResult): Promise<UploadCheckpoint | null> {
+    const store = this.options.checkpointStore;
+    if (!store) return null;
+
+    if (!this.checkpointsCleaned) {
+      this.checkpointsCleaned = true;
+      await store.cleanupExpired();
+    }
+
+    const checkpoint = await store.load(key);
+    if (!checkpoint) return null;
+
+    if (
+      checkpoint.fileSize !== probe.total ||
+      checkpoint.protocol !== DOWNLOAD_CHECKPOINT_PROTOCOL ||
+      (!!checkpoint.uploadId && checkpoint.uploadId !== probe.validator)
+    ) {
+      await store.remove(key);
+      return null;
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * 保存下载检查点
+   * 复用上传检查点结构：uploadUrl为下载地址，uploadId为远端文件标识（ETag或Last-Modified）
+   */
+  private async saveCheckpoint(
+    key: string,
+    url: string,
+    probe: ProbeResult,
+    chunkSize: number,
+    totalChunks: number,
+    completed: Set<number>,
+    downloadOptions: DownloadFileOptions
+  ): Promise<void> {
+    const store = this.options.checkpointStore;
+    if (!store) return;
+
+    await store.save({
+      hash: key,
+      fileName: downloadOptions.fileName || '',
+      fileSize: probe.total,
+      chunkSize,
+      totalChunks,
+      protocol: DOWNLOAD_CHECKPOINT_PROTOCOL,
+      uploadId: probe.validator,
+      uploadUrl: url,
+      acknowledgedChunks: Array.from(completed),
+      parts: []
+    });
+  }
+
+  /**
+   * 记录分片已下载
+   * 检查点写入失败不影响下载
+   */
+  private acknowledgeCheckpoint(key: string, chunkIndex: number): void {
+    const store = this.options.checkpointStore;
+    if (!store) return;
+
+    store.acknowledge(key, chunkIndex).catch(error => {
+      console.warn('记录下载检查点失败:', error);
+    });
+  }
+
+  /**
+   * 获取检查点键，同一地址保存到不同路径时视为不同的下载
+   */
+  private getCheckpointKey(url: string, downloadOptions: DownloadFileOptions): string {
+    if (downloadOptions.checkpointKey) {
+      return downloadOptions.checkpointKey;
+    }
+    return downloadOptions.filePath ? `${url}|${downloadOptions.filePath}` : url;
+  }
+
+  /**
+   * 删除下载检查点
+   */
+  private async removeCheckpoint(key: string): Promise<void> {
+    if (this.options.checkpointStore) {
+      await this.options.checkpointStore.remove(key);
+    }
+  }
+
+  /**
+   * 检查任务是否仍应继续下载
+   */
+  private assertTaskActive(taskId: string): void {
+    const status = this.tasks.get(taskId)?.status;
+
+    if (status === 'paused') {
+      throw this.createPausedError(taskId);
+    }
+
+    if (status === 'canceled') {
+      throw new Error('下载已取消');
+    }
+  }
+
+  /**
+   * 创建任务暂停错误
+   */
+  private createPausedError(taskId: string): Error {
+    const error = new Error(`下载任务已暂停: ${taskId}`);
+    (error as any).code = DOWNLOAD_PAUSED_ERROR_CODE;
+    return error;
+  }
+
+  /**
+   * 生成唯一的任务ID
+   */
+  private generateTaskId(): string {
+    return `download_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  /**
+   * 更新任务状态
+   */
+  private updateTaskStatus(
+    taskId: string,
+    status: DownloadStatus,
+    progress?: number,
+    result?: DownloadResult,
+    error?: { message: string; code: string }
+  ): void {
+    const task = this.tasks.get(taskId);
+    if (!task) return;
+
+    task.status = status;
+
+    if (progress !== undefined) {
+      task.progress = progress;
+    }
+
+    if (result !== undefined) {
+      task.result = result;
+    }
+
+    if (error !== undefined) {
+      task.error = error;
+    }
+
+    if (['completed', 'error', 'canceled'].includes(status)) {
+      task.endTime = Date.now();
+    }
+
+    this.emit('download:statusChanged', {
+      taskId,
+      status,
+      progress: task.progress,
+      result: task.result,
+      error: task.error
+    });
+
+    if (status === 'completed') {
+      this.emit('download:success', { taskId, result: task.result });
+    } else if (status === 'error') {
+      this.emit('download:error', { taskId, error: task.error });
+    } else if (status === 'canceled') {
+      this.emit('download:canceled', { taskId });
+    }
+  }
+
+  /**
+   * 更新任务进度
+   */
+  private updateTaskProgress(
+    taskId: string,
+    loaded: number,
+    completedChunks: number,
+    totalChunks: number,
+    currentChunk?: number
+  ): void {
+    const task = this.tasks.get(taskId);
+    if (!task) return;
+
+    const progress = task.total > 0 ? Math.floor((loaded / task.total) * 100) : 100;
+    task.progress = progress;
+    task.loaded = loaded;
+
+    const info: ProgressInfo = {
+      progress,
+      loaded,
+      total: task.total,
+      speed: this.chunkStrategy.getCurrentNetworkSpeed() || undefined,
+      currentChunk,
+      totalChunks,
+      startTime: task.startTime,
+      elapsedTime: Date.now() - task.startTime
+    };
+
+    const onProgress = this.requests.get(taskId)?.options.onProgress;
+    if (onProgress) {
+      onProgress(progress, info);
+    }
+
+    this.emit('download:progress', {
+      taskId,
+      progress,
+      loaded,
+      total: task.total,
+      completedChunks,
+      totalChunks
+    });
+  }
+
+  /**
+   * 检查错误是否可重试
+   */
+  private isRetryableError(error: any): boolean {
+    if (error.code === DOWNLOAD_SOURCE_CHANGED_ERROR_CODE) {
+      return false;
+    }
+
+    if (
+      error.name === 'NetworkError' ||
+      error.name === 'AbortError' ||
+      error.message?.includes('network') ||
+      error.message?.includes('timeout') ||
+      error.code === 'ECONNRESET' ||
+      error.code === 'ETIMEDOUT' ||
+      error.code === 'DOWNLOAD_RANGE_MISMATCH'
+    ) {
+      return true;
+    }
+
+    return error.status >= 500 || error.status === 429;
+  }
+
+  /**
+   * 计算重试延迟，指数退避
+   */
+  private calculateRetryDelay(retryCount: number): number {
+    const baseDelay = this.options.retryDelay || 1000;
+    const jitter = Math.random() * 0.3 + 0.85;
+    return Math.min(baseDelay * Math.pow(2, retryCount) * jitter, 30000);
+  }
+
+  /**
+   * 暂停所有下载
+   */
+  pause(): void {
+    for (const [taskId, task] of this.tasks.entries()) {
+      if (['preparing', 'downloading'].includes(task.status)) {
+        this.pauseTask(taskId);
+      }
+    }
+
+    this.emit('download:paused', {
+      timestamp: Date.now(),
+      tasks: Array.from(this.tasks.values()).map(task => ({
+        id: task.id,
+        status: task.status,
+        progress: task.progress
+      }))
+    });
+  }
+
+  /**
+   * 恢复所有暂停的下载
+   * 下载结果通过download:success事件通知
+   */
+  resume(): void {
+    for (const [taskId, task] of this.tasks.entries()) {
+      if (task.status === 'paused') {
+        this.resumeTask(taskId)?.catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 取消所有下载
+   */
+  cancel(): void {
+    for (const [taskId, task] of this.tasks.entries()) {
+      if (['preparing', 'downloading', 'paused', 'verifying'].includes(task.status)) {
+        this.cancelTask(taskId);
+      }
+    }
+
+    this.emit('download:cancelAll', {
+      timestamp: Date.now(),
+      taskCount: this.tasks.size
+    });
+  }
+
+  /**
+   * 暂停指定的下载任务
+   * 中止进行中的分片请求，已下载的分片保留，对应的download调用以DOWNLOAD_PAUSED错误结束
+   * @param taskId 任务ID
+   * @returns 是否成功暂停
+   */
+  pauseTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || !['preparing', 'downloading'].includes(task.status)) {
+      return false;
+    }
+
+    // 先更新状态，使被中止的分片请求识别为暂停而不是失败
+    this.updateTaskStatus(taskId, 'paused');
+    this.abortTaskRequests(taskId);
+    this.emit('download:taskPaused', { taskId, progress: task.progress });
+
+    return true;
+  }
+
+  /**
+   * 继续已暂停的下载任务
+   * @param taskId 任务ID
+   * @returns 下载结果，任务不存在或未暂停时返回null
+   */
+  resumeTask(taskId: string): Promise<DownloadResult> | null {
+    const task = this.tasks.get(taskId);
+    const request = this.requests.get(taskId);
+    if (!task || !request || task.status !== 'paused') {
+      return null;
+    }
+
+    this.emit('download:resumed', { taskId });
+    return this.download(request.url, request.platform, { ...request.options, taskId });
+  }
+
+  /**
+   * 取消指定的下载任务，丢弃已下载的数据和检查点
+   */
+  cancelTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || ['completed', 'error', 'canceled'].includes(task.status)) {
+      return false;
+    }
+
+    this.updateTaskStatus(taskId, 'canceled');
+    this.abortTaskRequests(taskId);
+
+    const request = this.requests.get(taskId);
+    const session = this.sessions.get(taskId);
+    this.requests.delete(taskId);
+    this.sessions.delete(taskId);
+
+    session?.sink.discard().catch(error => {
+      console.warn('丢弃下载数据失败:', error);
+    });
+    if (request) {
+      this.removeCheckpoint(this.getCheckpointKey(request.url, request.options)).catch(error => {
+        console.warn('删除下载检查点失败:', error);
+      });
+    }
+
+    this.emit('download:taskCanceled', { taskId });
+
+    return true;
+  }
+
+  /**
+   * 中止任务的所有请求
+   */
+  private abortTaskRequests(taskId: string): void {
+    for (const [key, controller] of this.abortControllers.entries()) {
+      if (key.startsWith(`${taskId}_`)) {
+        controller.abort();
+        this.abortControllers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 获取下载任务信息
+   */
+  getTask(taskId: string): DownloadTask | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  /**
+   * 获取所有下载任务
+   */
+  getAllTasks(): DownloadTask[] {
+    return Array.from(this.tasks.values());
+  }
+
+  /**
+   * 获取并发管理器
+   */
+  getConcurrencyManager(): ConcurrencyManager {
+    return this.concurrencyManager;
+  }
+
+  /**
+   * 设置带宽限制器，传入null取消限速
+   */
+  setBandwidthLimiter(limiter: BandwidthLimiter | null): void {
+    this.options.bandwidthLimiter = limiter || undefined;
+  }
+
+  /**
+   * 模块销毁时清理资源
+   */
+  protected async onDestroy(): Promise<void> {
+    this.cancel();
+
+    // 共享的并发管理器由创建者销毁
+    if (this.ownsConcurrencyManager) {
+      this.concurrencyManager.destroy();
+    }
+
+    this.tasks.clear();
+  }
+}
@@ -1,19 +1,58 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { FileChunk } from '../interfaces';
+import {
+  ChunkHookContext,
+  ChunkRange,
+  FileChunk,
+  ProcessingJobRef,
+  ProcessingStatus,
+  ProgressInfo,
+  ProtocolContext,
+  ProtocolPrepareResult,
+  ProtocolRequest,
+  ProtocolResponse,
+  RequestHookContext,
+  ResponseHookContext,
+  UploadHookContext,
+  UploadProtocol,
+  UploadSession
+} from '../interfaces';
 import { BaseModule } from '../../../core/module-base';
-import { PlatformAdapter } from '../../../platforms/platform-base';
+import { ChunkByteRange, PlatformAdapter } from '../../../platforms/platform-base';
 import { ChunkStrategy } from '../chunk-strategy';
 import { ConcurrencyManager } from '../concurrency-manager';
+import { BandwidthLimiter } from '../bandwidth-limiter';
 import { ChunkIterator } from '../chunk-iterator';
+import { getWorkerManager, WorkerManager } from '../../../workers/worker-manager';
+import { FileHashAlgorithm, computeMerkleRoot, hexToBytes } from '../../../workers/hash-algorithms';
+import { DefaultUploadProtocol } from './protocols/default-protocol';
+import {
+  CheckpointHookContext,
+  CheckpointStore,
+  UploadCheckpoint
+} from '../../storage/checkpoint-store';
+import {
+  PROCESSING_REJECTED_ERROR_CODE,
+  ProcessingTracker,
+  ProcessingTrackerOptions
+} from '../processing-tracker';
+import { ChunkEncryptor } from '../../security/implementations/chunk-encryptor';
+import { assertValidConfig } from '../../../core/config-schema';
+import { ConfigSchema } from '../../../types/config';
+import { PluginManager } from '../../../plugins/plugin-manager';
+import {
+  ExtensionPoint,
+  PLUGIN_HOOK_REJECTED_ERROR_CODE,
+  runExtensionPoint
+} from '../../../plugins/plugin-api';
 
 /**
  * HTTP传输模块选项
  */
 export interface HttpTransportOptions {
   /**
-   * 上传目标URL
+   * 上传目标URL，使用默认协议时必须提供
    */
-  target: string;
+  target?: string;
 
   /**
    * 检查文件是否已存在的URL
@@ -84,11 +123,81 @@ export interface HttpTransportOptions {
     totalChunks: number
   ) => string | Promise<string>;
 
+  /**
+   * 服务端上传协议适配器
+   * 默认使用check/chunk/merge协议（DefaultUploadProtocol），也可使用tus或S3分片上传
+   */
+  protocol?: UploadProtocol;
+
   /**
    * 启用秒传功能
    */
   enableQuickUpload?: boolean;
 
+  /**
+   * 文件哈希算法，默认md5
+   * 超大文件可使用sample抽样哈希，以少量准确性换取速度
+   */
+  hashAlgorithm?: FileHashAlgorithm;
+
+  /**
+   * 计算哈希时每次读取的分块大小(字节)，默认2MB
+   */
+  hashChunkSize?: number;
+
+  /**
+   * 哈希计算使用的Worker管理器，默认使用全局单例
+   */
+  workerManager?: WorkerManager;
+
+  /**
+   * 上传检查点存储
+   * 在客户端记录已确认的分片，服务端没有检查接口时页面刷新后仍可续传
+   */
+  checkpointStore?: CheckpointStore;
+
+  /**
+   * 服务端后处理状态跟踪选项
+   * 合并响应包含后处理任务时，uploadFile在后处理完成后才返回
+   */
+  processing?: ProcessingTrackerOptions;
+
+  /**
+   * 端到端加密上传
+   * 每个分片上传前用文件数据密钥加密，加密元数据随合并请求提交；
+   * 启用后不进行秒传，且不支持顺序上传协议（如tus）
+   */
+  encryption?: ChunkEncryptor;
+
+  /**
+   * 分片完整性校验，传入true时使用sha256
+   * 启用后每个分片在Worker中计算哈希并随请求发送摘要头，校验服务端确认，
+   * 合并时提交分片哈希的Merkle根
+   */
+  chunkIntegrity?: boolean | ChunkIntegrityOptions;
+
+  /**
+   * 带宽限制器，每个分片发送前按分片大小申请带宽
+   * 上传任务ID即限制器中的任务ID，可为单个任务设置速率上限
+   */
+  bandwidthLimiter?: BandwidthLimiter;
+
+  /**
+   * 插件管理器，上传过程中执行传输和网络扩展点钩子：
+   * SECURITY_VALIDATE_FILE、TRANSPORT_BEFORE_UPLOAD、STORAGE_BEFORE_SAVE、STORAGE_AFTER_SAVE、
+   * TRANSPORT_BEFORE_CHUNK_UPLOAD、NETWORK_REQUEST_INTERCEPTOR、NETWORK_RESPONSE_INTERCEPTOR、
+   * TRANSPORT_AFTER_CHUNK_UPLOAD、TRANSPORT_AFTER_UPLOAD
+   */
+  pluginManager?: Pick<PluginManager, 'executeHook'>;
+
+  /**
+   * 自适应分片，传入true时使用默认选项
+   * 启用后根据实测的分片吞吐量和请求往返时间重新切分尚未发送的部分，
+   * 使每个分片的上传时间接近targetChunkTime；分片索引到字节范围的映射随会话和检查点保存。
+   * 不能与加密上传同时使用
+   */
+  adaptiveChunking?: boolean | AdaptiveChunkingOptions;
+
   /**
    * 是否启用惰性加载分片
    */
@@ -110,6 +219,42 @@ export interface HttpTransportOptions {
   onChunkError?: (chunkIndex: number, error: Error) => void;
 }
 
+/**
+ * 分片完整性校验选项
+ */
+export interface ChunkIntegrityOptions {
+  /**
+   * 分片哈希算法，默认sha256
+   * sha256发送Content-Digest请求头，md5发送Content-MD5请求头
+   */
+  algorithm?: Exclude<FileHashAlgorithm, 'sample'>;
+}
+
+/**
+ * 自适应分片选项
+ */
+export interface AdaptiveChunkingOptions {
+  /**
+   * 目标分片上传时间（秒），默认3秒
+   */
+  targetChunkTime?: number;
+
+  /**
+   * 最小分片大小（字节），默认512KB，协议要求更大时以协议为准
+   */
+  minChunkSize?: number;
+
+  /**
+   * 最大分片大小（字节），默认10MB
+   */
+  maxChunkSize?: number;
+
+  /**
+   * 重新切分阈值，最优分片大小与当前分片大小的相对差超过该值时才重新切分，默认0.25
+   */
+  threshold?: number;
+}
+
 /**
  * 上传任务状态
  */
@@ -119,6 +264,9 @@ export type UploadStatus =
   | 'uploading'
   | 'paused'
   | 'completed'
+  | 'processing'
+  | 'ready'
+  | 'rejected'
   | 'error'
   | 'canceled';
 
@@ -167,22 +315,143 @@ export interface UploadTask {
   error: { message: string; code: string } | null;
 }
 
+/**
+ * 单个文件的上传选项
+ */
+export interface UploadFileOptions {
+  /**
+   * 任务ID，传入已有任务ID时复用该任务（如暂停后重新上传）
+   */
+  taskId?: string;
+
+  /**
+   * 任务优先级，数字越大其分片越先获得并发名额
+   */
+  priority?: number;
+
+  /**
+   * 任务进度回调（0-100）
+   * 服务端后处理阶段进度保持100，info中包含阶段和后处理步骤进度
+   */
+  onProgress?: (progress: number, info?: ProgressInfo) => void;
+}
+
+/**
+ * 任务被暂停时uploadFile抛出的错误代码
+ */
+export const UPLOAD_PAUSED_ERROR_CODE = 'UPLOAD_PAUSED';
+
+/**
+ * 服务端确认的分片摘要与本地不一致时的错误代码，该分片会单独重试
+ */
+export const CHUNK_INTEGRITY_MISMATCH_ERROR_CODE = 'CHUNK_INTEGRITY_MISMATCH';
+
+/**
+ * 热替换传输模块时交接的状态
+ */
+export interface TransportHandoffState {
+  /**
+   * 测得的网络速度（字节/秒），0表示尚无测量
+   */
+  networkSpeed: number;
+
+  /**
+   * 测得的请求往返时间（毫秒）
+   */
+  rtt: number;
+
+  /**
+   * 当前分片并发数
+   */
+  concurrency: number;
+}
+
+/**
+ * HTTP传输模块配置声明
+ */
+export const HTTP_TRANSPORT_CONFIG_SCHEMA: ConfigSchema = {
+  target: { type: 'string', description: '上传目标URL，使用默认协议时必须提供' },
+  checkUrl: { type: 'string', description: '检查文件是否已存在的URL' },
+  mergeUrl: { type: 'string', description: '合并分片的URL' },
+  baseUrl: { type: 'string', description: '文件下载URL基础路径' },
+  chunkSize: { type: 'integer', min: 1, default: 2 * 1024 * 1024, description: '分片大小(字节)' },
+  concurrency: { type: 'integer', min: 1, default: 3, description: '并发上传的分片数' },
+  autoRetry: { type: 'boolean', default: true, description: '分片失败时是否自动重试' },
+  maxRetries: { type: 'integer', min: 0, default: 3, description: '最大重试次数' },
+  retryDelay: { type: 'number', min: 0, default: 1000, description: '重试间隔(毫秒)' },
+  timeout: { type: 'number', min: 0, default: 30000, description: '请求超时时间(毫秒)' },
+  headers: { type: 'object', description: '请求头' },
+  enableQuickUpload: { type: 'boolean', default: true, description: '是否启用秒传' },
+  hashAlgorithm: {
+    type: 'string',
+    enum: ['md5', 'sha256', 'sample'],
+    default: 'md5',
+    description: '文件哈希算法'
+  },
+  hashChunkSize: {
+    type: 'integer',
+    min: 1,
+    default: 2 * 1024 * 1024,
+    description: '计算哈希时每次读取的字节数'
+  },
+  chunkIntegrity: {
+    type: ['boolean', 'object'],
+    description: '分片完整性校验，传入true时使用sha256'
+  },
+  adaptiveChunking: {
+    type: ['boolean', 'object'],
+    description: '根据实测吞吐量和往返时间重新切分尚未发送的部分，不能与加密上传同时使用',
+    properties: {
+      targetChunkTime: { type: 'number', min: 0, default: 3, description: '目标分片上传时间(秒)' },
+      minChunkSize: {
+        type: 'integer',
+        min: 1,
+        default: 512 * 1024,
+        description: '最小分片大小(字节)'
+      },
+      maxChunkSize: {
+        type: 'integer',
+        min: 1,
+        default: 10 * 1024 * 1024,
+        description: '最大分片大小(字节)'
+      },
+      threshold: {
+        type: 'number',
+        min: 0,
+        max: 1,
+        default: 0.25,
+        description: '新分片大小与当前分片大小相差超过该比例时才重新切分'
+      }
+    }
+  },
+  lazyLoadChunks: { type: 'boolean', default: false, description: '是否启用惰性加载分片' }
+};
+
 /**
  * HTTP传输模块实现类
  */
 export class HttpTransport extends BaseModule {
   private options: HttpTransportOptions;
   private chunkStrategy: ChunkStrategy;
+  private adaptiveChunking: Required<AdaptiveChunkingOptions> | null;
   private concurrencyManager: ConcurrencyManager;
+  private workerManager: WorkerManager;
+  private protocol: UploadProtocol;
+  private processingTracker: ProcessingTracker;
 
   // 上传状态
   private tasks: Map<string, UploadTask> = new Map();
+  private sessions: Map<string, { session: UploadSession; context: ProtocolContext }> = new Map();
   private abortControllers: Map<string, AbortController> = new Map();
-  private isPaused: boolean = false;
   private currentFileUrl: string | null = null;
+  private taskOptions: Map<string, UploadFileOptions> = new Map();
+  private checkpointsCleaned: boolean = false;
 
-  // 断点续传存储
-  private retryCountMap: Map<number, number> = new Map();
+  // 状态已交接给替换的传输模块，销毁时保留服务端会话
+  private handedOff: boolean = false;
+
+  // 分片重试计数，键为 任务ID_分片索引
+  private retryCountMap: Map<string, number> = new Map();
 
   /**
    * 创建HTTP传输模块实例
@@ -192,9 +461,12 @@ export class HttpTransport extends BaseModule {
       id: 'transport',
       name: '文件传输模块',
       version: '1.0.0',
-      dependencies: ['platform']
+      dependencies: ['platform'],
+      configSchema: HTTP_TRANSPORT_CONFIG_SCHEMA
     });
 
+    assertValidConfig(HTTP_TRANSPORT_CONFIG_SCHEMA, { ...options }, 'transport');
+
     // 默认配置与用户选项合并
     this.options = {
       chunkSize: 2 * 1024 * 1024, // 2MB
@@ -205,34 +477,65 @@ export class HttpTransport extends BaseModule {
       timeout: 30000,
       enableQuickUpload: true,
       lazyLoadChunks: false,
+      hashAlgorithm: 'md5',
+      hashChunkSize: 2 * 1024 * 1024,
       ...options
     };
 
-    // 确保必要的选项已提供
-    if (!this.options.target) {
+    // 确保必要的选项已提供（自定义协议自行管理服务端地址）
+    if (!this.options.target && !this.options.protocol) {
       throw new Error('上传目标URL必须提供');
     }
 
-    // 设置默认的检查和合并URL
-    if (!this.options.checkUrl) {
-      this.options.checkUrl = `${this.options.target}/check`;
+    // 未指定协议时使用默认的check/chunk/merge协议
+    this.protocol =
+      this.options.protocol ||
+      new DefaultUploadProtocol({
+        target: this.options.target!,
+        checkUrl: this.options.checkUrl,
+        mergeUrl: this.options.mergeUrl,
+        generateUploadUrl: this.options.generateUploadUrl
+      });
+
+    // 密文分片比明文长，顺序协议按明文偏移续传，无法与加密同时使用
+    if (this.options.encryption && this.protocol.sequential) {
+      throw new Error(`加密上传不支持顺序上传协议: ${this.protocol.name}`);
     }
 
-    if (!this.options.mergeUrl) {
-      this.options.mergeUrl = `${this.options.target}/merge`;
+    // 加密元数据绑定了固定的分片大小和分片数，无法重新切分
+    if (this.options.encryption && this.options.adaptiveChunking) {
+      throw new Error('加密上传不支持自适应分片');
     }
 
+    const adaptive = this.options.adaptiveChunking;
+    this.adaptiveChunking = adaptive
+      ? {
+          targetChunkTime: 3,
+          minChunkSize: 512 * 1024, // 512KB
+          maxChunkSize: 10 * 1024 * 1024, // 10MB
+          threshold: 0.25,
+          ...(adaptive === true ? {} : adaptive)
+        }
+      : null;
+
     // 创建分片策略
     this.chunkStrategy = new ChunkStrategy({
-      minChunkSize: 512 * 1024, // 512KB
-      maxChunkSize: 10 * 1024 * 1024, // 10MB
-      initialChunkSize: this.options.chunkSize
+      minChunkSize: this.adaptiveChunking?.minChunkSize || 512 * 1024, // 512KB
+      maxChunkSize: this.adaptiveChunking?.maxChunkSize || 10 * 1024 * 1024, // 10MB
+      initialChunkSize: this.options.chunkSize,
+      targetChunkTime: this.adaptiveChunking?.targetChunkTime
     });
 
     // 创建并发管理器
     this.concurrencyManager = new ConcurrencyManager({
       maxConcurrency: this.options.concurrency
     });
+
+    // 服务端后处理状态跟踪器
+    this.processingTracker = new ProcessingTracker(this.options.processing);
+
+    // Worker管理器，不支持Worker时自动降级到主线程计算
+    this.workerManager = this.options.workerManager || getWorkerManager();
   }
 
   /**
@@ -249,12 +552,20 @@ export class HttpTransport extends BaseModule {
 
   /**
    * 上传文件
+   * 多个文件可同时上传，所有分片共享同一个并发管理器的并发名额
    * @param file 要上传的文件
+   * @param platform 平台适配器
+   * @param uploadOptions 单个文件的上传选项
    * @returns 上传成功后的文件URL
    */
-  async uploadFile(file: File, platform: any): Promise<string> {
+  async uploadFile(
+    file: File,
+    platform: any,
+    uploadOptions: UploadFileOptions = {}
+  ): Promise<string> {
     // 创建任务ID
-    const taskId = this.generateTaskId(file);
+    const taskId = uploadOptions.taskId || this.generateTaskId(file);
+    this.taskOptions.set(taskId, uploadOptions);
 
     // 更新任务状态
     this.updateTaskStatus(taskId, 'preparing', 0);
@@ -281,592 +592,1189 @@ export class HttpTransport extends BaseModule {
       // 更新状态并触发事件
       this.updateTaskStatus(taskId, 'preparing');
 
-      // 重置暂停状态
-      this.isPaused = false;
-
       // 发送开始事件
       this.emit('transport:start', { taskId, file });
 
-      // 计算文件哈希（用于秒传和断点续传）
-      let fileHash: string;
-
-      // 尝试从平台适配器获取哈希计算功能
-      if (typeof platformAdapter.getFileInfo === 'function') {
-        const fileInfo = await platformAdapter.getFileInfo(file);
-        fileHash = `${fileInfo.name}_${fileInfo.size}_${fileInfo.lastModified}`;
-        this.emit('transport:hashComplete', { hash: fileHash, taskId });
-      } else {
-        // 使用默认哈希方法（基于文件名和大小的简单哈希）
-        fileHash = `${file.name}_${file.size}_${file.lastModified}`;
-        this.emit('transport:hashComplete', {
+      // 插件可校验文件（如类型、大小白名单），校验不通过时拒绝上传
+      await this.runHook<UploadHookContext>(ExtensionPoint.SECURITY_VALIDATE_FILE, {
+        taskId,
+        file
+      });
+      this.assertTaskActive(taskId);
+
+      // 插件可在计算哈希前取消上传
+      await this.runHook<UploadHookContext>(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, {
+        taskId,
+        file
+      });
+      this.assertTaskActive(taskId);
+
+      // 计算文件内容哈希（用于秒传和断点续传）
+      const fileHash = await this.calculateFileHash(file, platformAdapter, taskId);
+      this.assertTaskActive(taskId);
+
+      // 加密上传只有内存中仍有数据密钥时才能续传，否则已上传的密文分片无法解密
+      const encryption = this.options.encryption;
+      const encryptionSession = encryption?.getMetadata(fileHash) || null;
+      let resumable = !encryption || encryptionSession !== null;
+
+      // 读取客户端检查点，续传时必须沿用原分片大小
+      const checkpoint = resumable ? await this.loadCheckpoint(fileHash, file) : null;
+
+      // 确定最佳分片大小，不小于协议要求的最小分片
+      // 没有检查点时沿用加密会话的分片大小，否则分片策略的变化会导致数据密钥被替换
+      const optimalChunkSize = checkpoint
+        ? checkpoint.chunkSize
+        : encryptionSession
+          ? encryptionSession.chunkSize
+          : Math.max(
+              this.chunkStrategy.getOptimalChunkSize(file.size),
+              this.protocol.minChunkSize || 0
+            );
+
+      // 创建文件分片，自适应分片重新切分过的文件按检查点记录的字节范围切分
+      const chunks: FileChunk[] = checkpoint?.chunkRanges
+        ? await platformAdapter.createRangeChunks(
+            file,
+            checkpoint.chunkRanges.map(([start, end], index) => ({ index, start, end }))
+          )
+        : await platformAdapter.createChunks(file, optimalChunkSize);
+
+      // 创建上传会话
+      const session: UploadSession = {
+        hash: fileHash,
+        file,
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type || '',
+        chunkSize: optimalChunkSize,
+        totalChunks: chunks.length,
+        quickUpload: this.options.enableQuickUpload !== false && !encryption,
+        uploadId: checkpoint?.uploadId,
+        uploadUrl: checkpoint?.uploadUrl,
+        chunkRanges: checkpoint?.chunkRanges,
+        parts: new Map(checkpoint?.parts || []),
+        data: {}
+      };
+
+      // 生成或复用文件数据密钥
+      if (encryption) {
+        session.data.encryption = await encryption.prepare({
           hash: fileHash,
+          chunkSize: optimalChunkSize,
+          totalChunks: chunks.length,
+          fileSize: file.size
+        });
+        // 分片布局与原会话不一致时生成了新的数据密钥，已上传的分片无法再续传
+        resumable = resumable && session.data.encryption === encryptionSession;
+      }
+
+      const context = this.createProtocolContext(platformAdapter);
+      this.sessions.set(taskId, { session, context });
+
+      // 检查文件是否已存在（秒传），并创建或恢复服务端上传会话
+      const prepareResult = await this.protocol.prepare(session, context);
+
+      // 新的数据密钥无法解密服务端已有的分片，全部重新上传
+      if (!resumable) {
+        prepareResult.uploadedChunks = [];
+      }
+
+      if (prepareResult.exists) {
+        this.currentFileUrl = prepareResult.url || null;
+        this.updateTaskStatus(taskId, 'completed', 100, {
+          url: prepareResult.url,
+          hash: fileHash
+        });
+
+        this.emit('transport:quickUploadSuccess', {
           taskId,
-          warning: '使用简单哈希，不适合生产环境'
+          url: prepareResult.url,
+          hash: fileHash
         });
+
+        this.sessions.delete(taskId);
+        await this.removeCheckpoint(fileHash);
+        await this.afterUpload(taskId, file, fileHash, prepareResult.url || '');
+        return prepareResult.url || '';
       }
 
-      // 检查文件是否已存在（秒传）
-      if (this.options.enableQuickUpload) {
-        const quickUploadResult = await this.checkFileExists(fileHash, file, platformAdapter);
+      // 以服务端结果校正客户端检查点，得到已上传的分片
+      const uploadedChunks = this.reconcileCheckpoint(taskId, session, prepareResult, checkpoint);
+      await this.saveCheckpoint(session, uploadedChunks);
 
-        if (quickUploadResult.exists) {
-          this.currentFileUrl = quickUploadResult.url || null;
-          this.updateTaskStatus(taskId, 'completed', 100, {
-            url: quickUploadResult.url,
-            hash: fileHash
-          });
+      // 如果有断点续传的数据，通知进度
+      if (uploadedChunks.size > 0) {
+        this.emit('transport:resumeFromCheckpoint', {
+          taskId,
+          uploadedChunks: Array.from(uploadedChunks)
+        });
+      }
 
-          this.emit('transport:quickUploadSuccess', {
-            taskId,
-            url: quickUploadResult.url,
-            hash: fileHash
-          });
+      // 创建分片迭代器，优化内存使用
+      const chunkIterator = new ChunkIterator(chunks, {
+        lazyLoad: this.options.lazyLoadChunks,
+        enableCache: true
+      });
 
-          return quickUploadResult.url || '';
-        }
+      // 从已上传分片中恢复状态
+      if (uploadedChunks.size > 0) {
+        chunkIterator.recoverFromUploaded(uploadedChunks);
+      }
 
-        // 获取已上传的分片信息
-        const uploadedChunks = new Set(quickUploadResult.uploadedChunks || []);
+      // 上传分片
+      this.assertTaskActive(taskId);
+      this.updateTaskStatus(taskId, 'uploading');
+      if (uploadedChunks.size < chunks.length) {
+        await this.uploadChunks(
+          chunkIterator,
+          uploadedChunks,
+          session,
+          context,
+          platformAdapter,
+          taskId
+        );
+      }
 
-        // 如果有断点续传的数据，通知进度
-        if (uploadedChunks.size > 0) {
-          this.emit('transport:resumeFromCheckpoint', {
-            taskId,
-            uploadedChunks: Array.from(uploadedChunks)
-          });
-        }
+      // 如果上传被取消或失败，抛出错误
+      const currentTask = this.tasks.get(taskId);
+      if (!currentTask) {
+        throw new Error('任务已被移除');
+      }
+
+      if (currentTask.status === 'canceled') {
+        throw new Error('上传已取消');
+      }
 
-        // 确定最佳分片大小
-        const optimalChunkSize = this.chunkStrategy.getOptimalChunkSize(file.size);
+      if (currentTask.status === 'error') {
+        throw new Error(currentTask.error?.message || '上传失败');
+      }
 
-        // 创建文件分片
-        const chunks = await platformAdapter.createChunks(file, optimalChunkSize);
+      // 提交分片哈希的Merkle根，供服务端校验合并后的文件
+      await this.prepareIntegrity(session, chunkIterator.getAllChunks());
 
-        // 创建分片迭代器，优化内存使用
-        const chunkIterator = new ChunkIterator(chunks, {
-          lazyLoad: this.options.lazyLoadChunks,
-          enableCache: true
-        });
+      // 所有分片上传成功，完成上传（合并分片）
+      const mergeResult = await this.mergeChunks(session, context);
+
+      // 分片已合并，服务端会话、检查点和数据密钥不再需要
+      this.sessions.delete(taskId);
+      await this.removeCheckpoint(fileHash);
+      encryption?.release(fileHash);
+
+      // 服务端还需后处理时，等待处理完成后才算上传完成
+      if (mergeResult.job) {
+        const url = await this.waitForProcessing(taskId, fileHash, mergeResult, context);
+        await this.afterUpload(taskId, file, fileHash, url);
+        return url;
+      }
+
+      // 更新任务状态
+      this.currentFileUrl = mergeResult.url;
+      this.updateTaskStatus(taskId, 'completed', 100, {
+        url: mergeResult.url,
+        hash: fileHash
+      });
+
+      await this.afterUpload(taskId, file, fileHash, mergeResult.url);
+      return mergeResult.url;
+    } catch (error: any) {
+      // 暂停不是错误，服务端会话保留以便重新上传时续传
+      if (error.code !== UPLOAD_PAUSED_ERROR_CODE) {
+        this.handleError(error);
+      }
+      throw error;
+    } finally {
+      this.taskOptions.delete(taskId);
+    }
+  }
+
+  /**
+   * 计算文件内容哈希
+   * 通过Worker流式计算，文件改名或重新下载后哈希不变，保证秒传和断点续传可用
+   * @param file 文件对象
+   * @param platform 平台适配器
+   * @param taskId 任务ID
+   * @returns 文件哈希值
+   */
+  private async calculateFileHash(
+    file: any,
+    platform: PlatformAdapter,
+    taskId: string
+  ): Promise<string> {
+    const algorithm = this.options.hashAlgorithm || 'md5';
+    let data: Blob | ArrayBuffer;
+
+    if (typeof Blob !== 'undefined' && file instanceof Blob) {
+      data = file;
+    } else {
+      // 小程序等环境的文件不是Blob，通过平台适配器读取内容
+      const content = await platform.readFile(file);
+      data =
+        typeof content === 'string'
+          ? (new TextEncoder().encode(content).buffer as ArrayBuffer)
+          : content;
+    }
+
+    const hash = await this.workerManager.calculateHash({
+      fileId: taskId,
+      data,
+      algorithm,
+      chunkSize: this.options.hashChunkSize,
+      onProgress: progress => {
+        this.emit('transport:hashProgress', { taskId, progress });
+      }
+    });
+
+    this.emit('transport:hashComplete', { hash, taskId, algorithm });
+
+    return hash;
+  }
 
-        // 从已上传分片中恢复状态
-        if (uploadedChunks.size > 0) {
-          chunkIterator.recoverFromUploaded(uploadedChunks);
+  /**
+   * 上传文件分片
+   * @param chunkIterator 分片迭代器
+   * @param uploadedChunks 已上传的分片集合
+   * @param session 上传会话
+   * @param context 协议上下文
+   * @param platform 平台适配器
+   * @param taskId 任务ID
+   */
+  private async uploadChunks(
+    chunkIterator: ChunkIterator,
+    uploadedChunks: Set<number>,
+    session: UploadSession,
+    context: ProtocolContext,
+    platform: PlatformAdapter,
+    taskId: string
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      // 自适应分片会重新切分尚未发送的分片，总分片数以迭代器为准
+      const getTotalChunks = () => chunkIterator.getTotalChunks();
+      let completedChunks = uploadedChunks.size;
+
+      // 进行中的分片数，顺序协议（如tus）同一时间只允许一个分片
+      let inFlight = 0;
+
+      // 是否正在重新切分分片
+      let reslicing = false;
+
+      // 分片大小不一致时按已上传字节计算进度
+      const getProgress = () => {
+        const ranges = session.chunkRanges;
+        if (!ranges) {
+          return Math.floor((completedChunks / getTotalChunks()) * 100);
         }
 
-        // 上传分片
-        this.updateTaskStatus(taskId, 'uploading');
-        await this.uploadChunks(chunkIterator, uploadedChunks, fileHash, platformAdapter, taskId);
+        let loaded = 0;
+        uploadedChunks.forEach(index => {
+          loaded += ranges[index][1] - ranges[index][0];
+        });
+        return Math.floor((loaded / session.fileSize) * 100);
+      };
 
-        // 如果上传被取消或失败，抛出错误
-        const currentTask = this.tasks.get(taskId);
-        if (!currentTask) {
-          throw new Error('任务已被移除');
+      // 更新初始进度
+      const initialProgress = getProgress();
+      if (initialProgress > 0) {
+        this.updateTaskProgress(taskId, initialProgress);
+      }
+
+      // 处理下一批分片的函数
+      const processNextChunks = async () => {
+        // 任务被暂停时不再派发分片，暂停状态按任务记录，不影响同一传输模块上的其他任务
+        if (this.tasks.get(taskId)?.status === 'paused') {
+          return reject(this.createPausedError(taskId));
         }
 
-        if (currentTask.status === 'canceled') {
-          throw new Error('上传已取消');
+        // 按最新测量结果重新切分尚未发送的分片，切分期间不派发新分片
+        if (this.adaptiveChunking) {
+          if (reslicing) return;
+          reslicing = true;
+          try {
+            await this.resliceRemaining(chunkIterator, uploadedChunks, session, platform, taskId);
+          } finally {
+            reslicing = false;
+          }
         }
 
-        if (currentTask.status === 'error') {
-          throw new Error(currentTask.error?.message || '上传失败');
+        // 获取当前任务
+        const currentTask = this.tasks.get(taskId);
+        if (currentTask?.status === 'paused') {
+          return reject(this.createPausedError(taskId));
+        }
+        if (!currentTask || currentTask.status === 'canceled' || currentTask.status === 'error') {
+          return reject(new Error(currentTask?.error?.message || '上传已停止'));
         }
 
-        // 所有分片上传成功，发送合并请求
-        const mergeResult = await this.mergeChunks(
-          fileHash,
-          chunks.length,
-          file.name,
-          platformAdapter
-        );
+        // 顺序协议需等待上一个分片完成
+        if (this.protocol.sequential && inFlight > 0) return;
 
-        // 更新任务状态
-        this.currentFileUrl = mergeResult.url;
-        this.updateTaskStatus(taskId, 'completed', 100, {
-          url: mergeResult.url,
-          hash: fileHash
-        });
+        // 获取当前活跃的上传数量
+        let activeUploads = 0;
+        const limit = this.protocol.sequential ? 1 : this.concurrencyManager.concurrency;
 
-        return mergeResult.url;
-      } else {
-        // 不启用秒传，直接上传全部内容
-        const optimalChunkSize = this.chunkStrategy.getOptimalChunkSize(file.size);
-        const chunks = await platformAdapter.createChunks(file, optimalChunkSize);
+        // 不断获取新的分片，直到达到并发限制或没有更多分片
+        while (chunkIterator.hasNext() && activeUploads < limit) {
+          const chunk = chunkIterator.next();
 
-        // 创建分片迭代器
-        const chunkIterator = new ChunkIterator(chunks, {
-          lazyLoad: this.options.lazyLoadChunks
-        });
+          if (!chunk) break;
 
-        // 上传分片
-        this.updateTaskStatus(taskId, 'uploading');
-        await this.uploadChunks(chunkIterator, new Set(), fileHash, platformAdapter, taskId);
+          // 跳过已上传的分片
+          if (uploadedChunks.has(chunk.index)) continue;
 
-        // 检查上传状态
-        const currentTask = this.tasks.get(taskId);
-        if (!currentTask) {
-          throw new Error('任务已被移除');
-        }
+          activeUploads++;
+          inFlight++;
 
-        if (currentTask.status === 'canceled') {
-          throw new Error('上传已取消');
-        }
+          // 创建中止控制器
+          const abortController = new AbortController();
+          const chunkKey = `${taskId}_${chunk.index}`;
+          this.abortControllers.set(chunkKey, abortController);
+
+          // 使用并发管理器控制上传，优先级高的任务先获得并发名额
+          this.concurrencyManager.execute(
+            async () => {
+              // 可重试的错误按退避延迟重试，直到成功或达到最大重试次数
+              let controller = abortController;
+              for (;;) {
+                try {
+                  // 记录开始时间用于网速估算
+                  const startTime = Date.now();
+
+                  // 上传分片
+                  await this.sendChunk(session, chunk, context, taskId, controller.signal);
+
+                  // 计算上传速度并更新分片策略
+                  const endTime = Date.now();
+                  const duration = (endTime - startTime) / 1000; // 秒
+                  const speed = chunk.size / duration; // 字节/秒
+
+                  // 更新分片策略的网络速度，扣除请求往返时间
+                  this.chunkStrategy.recordChunk(chunk.size, endTime - startTime);
+
+                  // 标记分片已完成
+                  uploadedChunks.add(chunk.index);
+                  completedChunks++;
+                  inFlight--;
+                  this.acknowledgeCheckpoint(session, chunk.index);
+
+                  // 触发分片完成事件
+                  if (this.options.onChunkComplete) {
+                    this.options.onChunkComplete(chunk.index);
+                  }
+
+                  this.emit('transport:chunkSuccess', {
+                    taskId,
+                    chunkIndex: chunk.index,
+                    speed,
+                    remainingChunks: getTotalChunks() - completedChunks
+                  });
+
+                  // 更新进度
+                  this.updateTaskProgress(taskId, getProgress());
+
+                  // 清除中止控制器引用
+                  this.abortControllers.delete(chunkKey);
+
+                  // 处理下一批分片
+                  processNextChunks();
+
+                  // 检查是否全部完成
+                  if (completedChunks === getTotalChunks()) {
+                    resolve();
+                  }
+                  return;
+                } catch (error: any) {
+                  // 如果是因暂停而中止，不算错误
+                  if (this.tasks.get(taskId)?.status === 'paused') {
+                    inFlight--;
+                    this.abortControllers.delete(chunkKey);
+                    return reject(this.createPausedError(taskId));
+                  }
+
+                  // 触发分片错误事件
+                  if (this.options.onChunkError) {
+                    this.options.onChunkError(chunk.index, error);
+                  }
+
+                  const retryable = this.isRetryableError(error);
+                  this.emit('transport:chunkError', {
+                    taskId,
+                    chunkIndex: chunk.index,
+                    error: error.message,
+                    retryable
+                  });
+
+                  if (!this.options.autoRetry || !retryable) {
+                    // 非可重试错误或不自动重试，更新任务状态
+                    this.updateTaskStatus(taskId, 'error', undefined, undefined, {
+                      message: `分片${chunk.index}上传失败：${error.message}`,
+                      code: 'CHUNK_UPLOAD_FAILED'
+                    });
+
+                    return reject(error);
+                  }
+
+                  const retryCount = this.retryCountMap.get(chunkKey) || 0;
+                  if (retryCount >= this.options.maxRetries!) {
+                    // 超过最大重试次数，以最后一次的错误结束上传
+                    this.updateTaskStatus(taskId, 'error', undefined, undefined, {
+                      message: `分片${chunk.index}上传失败，已重试${retryCount}次：${error.message}`,
+                      code: 'CHUNK_UPLOAD_FAILED'
+                    });
+
+                    return reject(error);
+                  }
+
+                  // 增加重试计数
+                  this.retryCountMap.set(chunkKey, retryCount + 1);
+
+                  // 计算退避延迟
+                  const delay = this.calculateRetryDelay(retryCount);
+
+                  this.emit('transport:chunkRetry', {
+                    taskId,
+                    chunkIndex: chunk.index,
+                    retryCount: retryCount + 1,
+                    delay
+                  });
+
+                  // 等待后重试
+                  await new Promise(r => setTimeout(r, delay));
+
+                  // 等待期间任务被暂停时不再重试
+                  if (this.tasks.get(taskId)?.status === 'paused') {
+                    inFlight--;
+                    this.abortControllers.delete(chunkKey);
+                    return reject(this.createPausedError(taskId));
+                  }
 
-        if (currentTask.status === 'error') {
-          throw new Error(currentTask.error?.message || '上传失败');
+                  // 重新创建中止控制器
+                  controller = new AbortController();
+                  this.abortControllers.set(chunkKey, controller);
+                }
+              }
+            },
+            this.taskOptions.get(taskId)?.priority || 0
+          );
         }
+      };
 
-        // 发送合并请求
-        const mergeResult = await this.mergeChunks(
-          fileHash,
-          chunks.length,
-          file.name,
-          platformAdapter
-        );
+      // 开始处理分片
+      processNextChunks();
+    });
+  }
 
-        // 更新任务状态
-        this.currentFileUrl = mergeResult.url;
-        this.updateTaskStatus(taskId, 'completed', 100, {
-          url: mergeResult.url,
-          hash: fileHash
-        });
+  /**
+   * 按实测吞吐量重新切分尚未发送的分片
+   * 只切分已上传分片和已派发分片之后的部分，新的分片索引从切分点开始连续编号，
+   * 字节范围写入会话和检查点，合并时提交给服务端。切分失败时保持原有分片
+   */
+  private async resliceRemaining(
+    chunkIterator: ChunkIterator,
+    uploadedChunks: Set<number>,
+    session: UploadSession,
+    platform: PlatformAdapter,
+    taskId: string
+  ): Promise<void> {
+    if (!this.adaptiveChunking || this.chunkStrategy.getSpeedStats().measurements === 0) {
+      return;
+    }
 
-        return mergeResult.url;
-      }
+    // 续传时已上传的分片可能不连续，切分点之前的分片保持原有字节范围
+    let fromIndex = chunkIterator.getCurrentIndex();
+    uploadedChunks.forEach(index => {
+      fromIndex = Math.max(fromIndex, index + 1);
+    });
+
+    const remaining = chunkIterator.getAllChunks().slice(fromIndex);
+    if (remaining.length === 0) return;
+
+    const chunkSize = Math.max(
+      this.chunkStrategy.getOptimalChunkSize(session.fileSize),
+      this.protocol.minChunkSize || 0
+    );
+    const start = remaining[0].start;
+
+    // 变化不大或剩余数据只够一个分片时不切分
+    if (
+      Math.abs(chunkSize - session.chunkSize) / session.chunkSize <
+      this.adaptiveChunking.threshold
+    ) {
+      return;
+    }
+    if (remaining.length === 1 && session.fileSize - start <= chunkSize) {
+      return;
+    }
+
+    const ranges: ChunkByteRange[] = [];
+    for (let offset = start; offset < session.fileSize; offset += chunkSize) {
+      ranges.push({
+        index: fromIndex + ranges.length,
+        start: offset,
+        end: Math.min(offset + chunkSize, session.fileSize)
+      });
+    }
+
+    try {
+      const chunks = await platform.createRangeChunks(session.file, ranges);
+      chunkIterator.replaceFrom(fromIndex, chunks);
+    } catch (error) {
+      console.warn('重新切分分片失败，继续使用原有分片:', error);
+      return;
+    }
+
+    session.chunkSize = chunkSize;
+    session.totalChunks = chunkIterator.getTotalChunks();
+    session.chunkRanges = chunkIterator
+      .getAllChunks()
+      .map(chunk => [chunk.start, chunk.end] as ChunkRange);
+
+    await this.saveCheckpoint(session, uploadedChunks);
+
+    this.emit('transport:rechunked', {
+      taskId,
+      fromIndex,
+      chunkSize,
+      totalChunks: session.totalChunks
+    });
+  }
+
+  /**
+   * 上传单个分片
+   * 依次加密、执行分片扩展点钩子、计算分片哈希并附加摘要头，上传后校验服务端确认的摘要
+   */
+  private async sendChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    taskId: string,
+    signal: AbortSignal
+  ): Promise<any> {
+    const encrypted = await this.encryptChunk(session, chunk);
+
+    // 插件可替换分片数据或附加请求头，摘要按替换后的数据计算
+    const hookContext = await this.runHook<ChunkHookContext>(
+      ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD,
+      { taskId, hash: session.hash, chunk: { ...encrypted }, headers: {} }
+    );
+    let payload: FileChunk = hookContext.chunk;
+    if (payload.data !== encrypted.data) {
+      // 钩子可能以ArrayBuffer或TypedArray替换数据，统一为Blob后按替换后的字节数计算分片大小
+      const replaced: any = payload.data;
+      const data =
+        typeof Blob !== 'undefined' && !(replaced instanceof Blob)
+          ? new Blob([replaced])
+          : replaced;
+      payload = { ...payload, data, size: data.byteLength ?? data.size };
+    }
+    const hookedContext: ProtocolContext = {
+      ...context,
+      headers: { ...context.headers, ...hookContext.headers }
+    };
+
+    const ack = await this.uploadPayload(session, payload, hookedContext, taskId, signal);
+
+    await this.options.pluginManager?.executeHook(ExtensionPoint.TRANSPORT_AFTER_CHUNK_UPLOAD, {
+      ...hookContext,
+      chunk: payload,
+      response: ack
+    });
+
+    return ack;
+  }
+
+  /**
+   * 发送分片数据，启用完整性校验时附加摘要头并校验服务端确认的摘要
+   */
+  private async uploadPayload(
+    session: UploadSession,
+    payload: FileChunk,
+    context: ProtocolContext,
+    taskId: string,
+    signal: AbortSignal
+  ): Promise<any> {
+    const algorithm = this.getChunkHashAlgorithm();
+
+    if (!algorithm) {
+      await this.acquireBandwidth(taskId, payload.size, signal);
+      return this.protocol.uploadChunk(session, payload, context, signal);
+    }
+
+    const hash = await this.hashChunk(session, payload, algorithm);
+    await this.acquireBandwidth(taskId, payload.size, signal);
+    const chunkContext: ProtocolContext = {
+      ...context,
+      headers: { ...context.headers, ...this.createDigestHeaders(hash, algorithm) }
+    };
+
+    let ack: any;
+    try {
+      ack = await this.protocol.uploadChunk(session, { ...payload, hash }, chunkContext, signal);
     } catch (error: any) {
-      // 处理上传过程中的错误
-      this.handleError(error);
+      // 服务端校验摘要失败
+      if (error.status === 422 || error.statusCode === 422) {
+        throw this.createIntegrityError(taskId, payload.index, hash, null);
+      }
       throw error;
     }
+
+    const acknowledged = this.readAckDigest(ack, hash.length);
+    if (acknowledged && acknowledged !== hash) {
+      throw this.createIntegrityError(taskId, payload.index, hash, acknowledged);
+    }
+
+    return ack;
+  }
+
+  /**
+   * 按带宽限制等待发送分片所需的令牌，未配置带宽限制器时直接返回
+   */
+  private async acquireBandwidth(
+    taskId: string,
+    bytes: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!this.options.bandwidthLimiter) return;
+    await this.options.bandwidthLimiter.acquire(bytes, { taskId, signal });
+  }
+
+  /**
+   * 获取分片哈希算法，未启用分片完整性校验时返回null
+   */
+  private getChunkHashAlgorithm(): Exclude<FileHashAlgorithm, 'sample'> | null {
+    const integrity = this.options.chunkIntegrity;
+    if (!integrity) return null;
+    return (integrity === true ? undefined : integrity.algorithm) || 'sha256';
+  }
+
+  /**
+   * 在Worker中计算分片哈希
+   * 哈希按分片索引缓存在会话中，重试和合并时复用
+   */
+  private async hashChunk(
+    session: UploadSession,
+    payload: FileChunk,
+    algorithm: Exclude<FileHashAlgorithm, 'sample'>
+  ): Promise<string> {
+    const hashes: Map<number, string> = session.data.chunkHashes || new Map();
+    session.data.chunkHashes = hashes;
+
+    const cached = hashes.get(payload.index);
+    if (cached) return cached;
+
+    const hash = await this.workerManager.calculateHash({
+      fileId: `${session.hash}_chunk_${payload.index}`,
+      data: payload.data,
+      algorithm
+    });
+
+    hashes.set(payload.index, hash);
+    return hash;
+  }
+
+  /**
+   * 创建摘要请求头
+   * sha256使用RFC 9530的Content-Digest，md5使用Content-MD5
+   */
+  private createDigestHeaders(
+    hash: string,
+    algorithm: Exclude<FileHashAlgorithm, 'sample'>
+  ): Record<string, string> {
+    const base64 = btoa(String.fromCharCode(...Array.from(hexToBytes(hash))));
+
+    return algorithm === 'md5'
+      ? { 'Content-MD5': base64 }
+      : { 'Content-Digest': `sha-256=:${base64}:` };
+  }
+
+  /**
+   * 读取服务端确认中的分片摘要
+   * 支持十六进制、Base64和Content-Digest格式，确认中没有摘要时返回null
+   */
+  private readAckDigest(ack: any, hexLength: number): string | null {
+    const value = ack && typeof ack === 'object' ? (ack.digest ?? ack.chunkHash) : null;
+    if (typeof value !== 'string' || !value) {
+      return null;
+    }
+
+    const digest = value.replace(/^"|"$/g, '');
+    if (digest.length === hexLength && /^[0-9a-f]+$/i.test(digest)) {
+      return digest.toLowerCase();
+    }
+
+    const base64 = /^[a-z0-9-]+=:(.*):$/i.exec(digest)?.[1] ?? digest;
+    try {
+      return Array.from(atob(base64), char =>
+        char.charCodeAt(0).toString(16).padStart(2, '0')
+      ).join('');
+    } catch {
+      return digest;
+    }
+  }
+
+  /**
+   * 创建分片摘要不一致错误
+   */
+  private createIntegrityError(
+    taskId: string,
+    chunkIndex: number,
+    expected: string,
+    actual: string | null
+  ): Error {
+    this.emit('transport:chunkIntegrityMismatch', { taskId, chunkIndex, expected, actual });
+
+    const error = new Error(`分片${chunkIndex}完整性校验失败`);
+    (error as any).code = CHUNK_INTEGRITY_MISMATCH_ERROR_CODE;
+    return error;
+  }
+
+  /**
+   * 计算所有分片哈希的Merkle根并写入会话，随合并请求提交
+   * 续传时跳过的分片在此补算哈希
+   */
+  private async prepareIntegrity(session: UploadSession, chunks: FileChunk[]): Promise<void> {
+    const algorithm = this.getChunkHashAlgorithm();
+    if (!algorithm) return;
+
+    const leaves: string[] = [];
+    for (const chunk of chunks) {
+      leaves.push(
+        await this.hashChunk(session, await this.encryptChunk(session, chunk), algorithm)
+      );
+    }
+
+    session.data.integrity = {
+      algorithm,
+      merkleRoot: computeMerkleRoot(leaves, algorithm),
+      totalChunks: chunks.length
+    };
+  }
+
+  /**
+   * 执行扩展点钩子，钩子返回false时抛出PLUGIN_HOOK_REJECTED错误
+   */
+  private runHook<T>(point: ExtensionPoint, context: T): Promise<T> {
+    return runExtensionPoint(this.options.pluginManager, point, context);
+  }
+
+  /**
+   * 上传完成后执行TRANSPORT_AFTER_UPLOAD钩子
+   */
+  private async afterUpload(taskId: string, file: File, hash: string, url: string): Promise<void> {
+    const context: UploadHookContext = { taskId, file, hash, url };
+    await this.options.pluginManager?.executeHook(ExtensionPoint.TRANSPORT_AFTER_UPLOAD, context);
   }
 
   /**
-   * 上传文件分片
-   * @param chunkIterator 分片迭代器
-   * @param uploadedChunks 已上传的分片集合
-   * @param fileHash 文件哈希值
-   * @param platform 平台适配器
-   * @param taskId 任务ID
+   * 加密上传时加密分片，否则原样返回
+   * 分片随机数由分片索引确定，重试时得到相同的密文
    */
-  private async uploadChunks(
-    chunkIterator: ChunkIterator,
-    uploadedChunks: Set<number>,
-    fileHash: string,
-    platform: PlatformAdapter,
-    taskId: string
-  ): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      // 计算总分片数和已完成分片数
-      const totalChunks = chunkIterator.getTotalChunks();
-      let completedChunks = uploadedChunks.size;
+  private async encryptChunk(session: UploadSession, chunk: FileChunk): Promise<FileChunk> {
+    if (!this.options.encryption || !session.data.encryption) {
+      return chunk;
+    }
 
-      // 更新初始进度
-      const initialProgress = Math.floor((completedChunks / totalChunks) * 100);
-      if (initialProgress > 0) {
-        this.updateTaskProgress(taskId, initialProgress);
-      }
+    return this.options.encryption.encryptChunk(session.hash, chunk);
+  }
 
-      // 处理下一批分片的函数
-      const processNextChunks = async () => {
-        // 如果上传被暂停，暂停处理
-        if (this.isPaused) return;
+  /**
+   * 创建协议上下文
+   * 协议适配器发出的所有请求都经过请求/响应拦截器
+   * @param platform 平台适配器
+   */
+  private createProtocolContext(platform: PlatformAdapter): ProtocolContext {
+    return {
+      headers: { ...(this.options.headers || {}) },
+      timeout: this.options.timeout,
+      request: async <T = any>(config: ProtocolRequest): Promise<ProtocolResponse<T>> => {
+        // 准备请求配置
+        let requestConfig: any = { ...config };
 
-        // 获取当前任务
-        const currentTask = this.tasks.get(taskId);
-        if (!currentTask || currentTask.status === 'canceled' || currentTask.status === 'error') {
-          return reject(new Error(currentTask?.error?.message || '上传已停止'));
+        // 应用请求拦截器
+        if (this.options.requestInterceptor) {
+          requestConfig = await this.options.requestInterceptor(requestConfig);
         }
 
-        // 获取当前活跃的上传数量
-        let activeUploads = 0;
+        // 插件可改写请求地址、请求头和请求数据
+        ({ request: requestConfig } = await this.runHook<RequestHookContext>(
+          ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR,
+          { request: { ...requestConfig, headers: { ...requestConfig.headers } } }
+        ));
+
+        // 使用平台适配器执行请求
+        const startTime = Date.now();
+        const raw = await platform.request(
+          requestConfig.url,
+          requestConfig.method,
+          requestConfig.data,
+          {
+            headers: requestConfig.headers,
+            timeout: requestConfig.timeout,
+            signal: requestConfig.signal,
+            fullResponse: true
+          }
+        );
 
-        // 不断获取新的分片，直到达到并发限制或没有更多分片
-        while (chunkIterator.hasNext() && activeUploads < this.concurrencyManager.concurrency) {
-          const chunk = chunkIterator.next();
+        // 不携带文件数据的请求耗时即往返时间，用于分片策略扣除每个分片的固定开销
+        if (!this.isPayloadBody(requestConfig.data)) {
+          this.chunkStrategy.updateRtt(Date.now() - startTime);
+        }
 
-          if (!chunk) break;
+        // 平台不支持完整响应时，只有响应数据可用
+        let response: ProtocolResponse = this.isRawResponse(raw)
+          ? raw
+          : { status: 200, headers: {}, data: raw };
 
-          // 跳过已上传的分片
-          if (uploadedChunks.has(chunk.index)) continue;
+        // 插件先于响应拦截器读取或改写原始响应
+        ({ response } = await this.runHook<ResponseHookContext>(
+          ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR,
+          { request: requestConfig, response }
+        ));
 
-          activeUploads++;
+        // 应用响应拦截器
+        if (this.options.responseInterceptor) {
+          response.data = await this.options.responseInterceptor(response.data);
+        }
 
-          // 创建中止控制器
-          const abortController = new AbortController();
-          const chunkKey = `${taskId}_${chunk.index}`;
-          this.abortControllers.set(chunkKey, abortController);
+        return response as ProtocolResponse<T>;
+      }
+    };
+  }
 
-          // 使用并发管理器控制上传
-          this.concurrencyManager.execute(async () => {
-            try {
-              // 记录开始时间用于网速估算
-              const startTime = Date.now();
-
-              // 上传分片
-              await this.uploadChunk(
-                chunk,
-                fileHash,
-                totalChunks,
-                platform,
-                abortController.signal,
-                taskId
-              );
-
-              // 计算上传速度并更新分片策略
-              const endTime = Date.now();
-              const duration = (endTime - startTime) / 1000; // 秒
-              const speed = chunk.size / duration; // 字节/秒
-
-              // 更新分片策略的网络速度
-              this.chunkStrategy.updateNetworkSpeed(speed);
-
-              // 标记分片已完成
-              uploadedChunks.add(chunk.index);
-              completedChunks++;
-
-              // 触发分片完成事件
-              if (this.options.onChunkComplete) {
-                this.options.onChunkComplete(chunk.index);
-              }
+  /**
+   * 判断请求体是否携带文件数据
+   */
+  private isPayloadBody(data: any): boolean {
+    return (
+      (typeof FormData !== 'undefined' && data instanceof FormData) ||
+      (typeof Blob !== 'undefined' && data instanceof Blob) ||
+      data instanceof ArrayBuffer ||
+      ArrayBuffer.isView(data)
+    );
+  }
 
-              this.emit('transport:chunkSuccess', {
-                taskId,
-                chunkIndex: chunk.index,
-                speed,
-                remainingChunks: totalChunks - completedChunks
-              });
+  /**
+   * 判断平台返回的是否为完整响应
+   */
+  private isRawResponse(value: any): value is ProtocolResponse {
+    return (
+      !!value &&
+      typeof value === 'object' &&
+      typeof value.status === 'number' &&
+      !!value.headers &&
+      typeof value.headers === 'object' &&
+      'data' in value
+    );
+  }
 
-              // 更新进度
-              const progress = Math.floor((completedChunks / totalChunks) * 100);
-              this.updateTaskProgress(taskId, progress);
+  /**
+   * 完成上传（合并文件分片）
+   * @param session 上传会话
+   * @param context 协议上下文
+   * @returns 合并结果，包含文件URL
+   */
+  private async mergeChunks(
+    session: UploadSession,
+    context: ProtocolContext
+  ): Promise<{ url: string; job?: ProcessingJobRef }> {
+    const result = await this.protocol.complete(session, context);
 
-              // 清除中止控制器引用
-              this.abortControllers.delete(chunkKey);
+    // 触发合并成功事件
+    this.emit('transport:mergeSuccess', {
+      hash: session.hash,
+      url: result.url,
+      fileName: session.fileName,
+      job: result.job
+    });
 
-              // 处理下一批分片
-              processNextChunks();
+    return { url: result.url, job: result.job };
+  }
 
-              // 检查是否全部完成
-              if (completedChunks === totalChunks) {
-                resolve();
-              }
-            } catch (error: any) {
-              // 如果是因暂停而中止，不算错误
-              if (this.isPaused && error.name === 'AbortError') return;
+  /**
+   * 等待服务端后处理完成
+   * 处理期间任务状态为processing，完成后为ready，被拒绝时为rejected并抛出错误
+   * @param taskId 任务ID
+   * @param hash 文件哈希
+   * @param mergeResult 合并结果
+   * @param context 协议上下文
+   * @returns 后处理完成后的文件URL
+   */
+  private async waitForProcessing(
+    taskId: string,
+    hash: string,
+    mergeResult: { url: string; job?: ProcessingJobRef },
+    context: ProtocolContext
+  ): Promise<string> {
+    const job = mergeResult.job!;
+    const controllerKey = `${taskId}_processing`;
+    const abortController = new AbortController();
+    this.abortControllers.set(controllerKey, abortController);
+
+    this.updateTaskStatus(taskId, 'processing', 100, { url: mergeResult.url, hash, job });
+    this.emit('transport:processing', { taskId, job });
+    this.updateProcessingProgress(taskId, { state: 'processing' });
+
+    let status: ProcessingStatus;
+    try {
+      status = await this.processingTracker.track(
+        job,
+        context,
+        update => this.updateProcessingProgress(taskId, update),
+        abortController.signal
+      );
+    } catch (error) {
+      // 取消任务时以取消错误结束
+      if (this.tasks.get(taskId)?.status === 'canceled') {
+        throw new Error('上传已取消');
+      }
+      this.updateTaskStatus(taskId, 'error', undefined, undefined, {
+        message: (error as Error).message || '后处理状态查询失败',
+        code: (error as any).code || 'PROCESSING_ERROR'
+      });
+      throw error;
+    } finally {
+      this.abortControllers.delete(controllerKey);
+    }
 
-              // 触发分片错误事件
-              if (this.options.onChunkError) {
-                this.options.onChunkError(chunk.index, error);
-              }
+    const url = status.url || mergeResult.url;
 
-              this.emit('transport:chunkError', {
-                taskId,
-                chunkIndex: chunk.index,
-                error: error.message,
-                retryable: this.isRetryableError(error)
-              });
+    if (status.state === 'rejected') {
+      const reason = status.reason || '服务端拒绝了该文件';
+      this.updateTaskStatus(
+        taskId,
+        'rejected',
+        100,
+        { url, hash, job, processing: status.data },
+        { message: reason, code: PROCESSING_REJECTED_ERROR_CODE }
+      );
 
-              // 尝试重试上传分片
-              if (this.options.autoRetry && this.isRetryableError(error)) {
-                const retryCount = this.retryCountMap.get(chunk.index) || 0;
+      const error = new Error(`文件后处理失败: ${reason}`);
+      (error as any).code = PROCESSING_REJECTED_ERROR_CODE;
+      (error as any).reason = reason;
+      throw error;
+    }
 
-                if (retryCount < this.options.maxRetries!) {
-                  // 增加重试计数
-                  this.retryCountMap.set(chunk.index, retryCount + 1);
+    this.currentFileUrl = url;
+    this.updateTaskStatus(taskId, 'ready', 100, { url, hash, job, processing: status.data });
 
-                  // 计算退避延迟
-                  const delay = this.calculateRetryDelay(retryCount);
+    return url;
+  }
 
-                  this.emit('transport:chunkRetry', {
-                    taskId,
-                    chunkIndex: chunk.index,
-                    retryCount: retryCount + 1,
-                    delay
-                  });
+  /**
+   * 更新后处理阶段进度
+   */
+  private updateProcessingProgress(taskId: string, status: ProcessingStatus): void {
+    const task = this.tasks.get(taskId);
+    if (!task) return;
 
-                  // 等待后重试
-                  await new Promise(r => setTimeout(r, delay));
+    const info: ProgressInfo = {
+      loaded: task.file.size,
+      total: task.file.size,
+      progress: 100,
+      stage: 'processing',
+      stageName: status.stage,
+      stageProgress: status.progress
+    };
 
-                  // 重新创建中止控制器
-                  const newController = new AbortController();
-                  this.abortControllers.set(chunkKey, newController);
-
-                  try {
-                    // 重试上传分片
-                    await this.uploadChunk(
-                      chunk,
-                      fileHash,
-                      totalChunks,
-                      platform,
-                      newController.signal,
-                      taskId
-                    );
-
-                    // 标记分片已完成
-                    uploadedChunks.add(chunk.index);
-                    completedChunks++;
-
-                    // 触发分片完成事件
-                    if (this.options.onChunkComplete) {
-                      this.options.onChunkComplete(chunk.index);
-                    }
-
-                    // 更新进度
-                    const progress = Math.floor((completedChunks / totalChunks) * 100);
-                    this.updateTaskProgress(taskId, progress);
-
-                    // 清除中止控制器引用
-                    this.abortControllers.delete(chunkKey);
+    const onProgress = this.taskOptions.get(taskId)?.onProgress;
+    if (onProgress) {
+      onProgress(100, info);
+    }
 
-                    // 处理下一批分片
-                    processNextChunks();
+    this.emit('transport:progress', {
+      taskId,
+      progress: 100,
+      stage: 'processing',
+      stageName: status.stage,
+      stageProgress: status.progress
+    });
+  }
 
-                    // 检查是否全部完成
-                    if (completedChunks === totalChunks) {
-                      resolve();
-                    }
-                  } catch (retryError: any) {
-                    // 如果重试仍然失败，继续处理下一批
-                    this.abortControllers.delete(chunkKey);
-                    processNextChunks();
-                  }
-                } else {
-                  // 超过最大重试次数，更新任务状态
-                  this.updateTaskStatus(taskId, 'error', undefined, undefined, {
-                    message: `分片${chunk.index}上传失败，已重试${retryCount}次：${error.message}`,
-                    code: 'CHUNK_UPLOAD_FAILED'
-                  });
+  /**
+   * 终止任务对应的服务端上传会话
+   * 失败时仅记录日志，不影响取消流程
+   */
+  private abortSession(taskId: string): void {
+    const entry = this.sessions.get(taskId);
+    this.sessions.delete(taskId);
+
+    if (entry) {
+      this.removeCheckpoint(entry.session.hash).catch(error => {
+        console.warn('删除上传检查点失败:', error);
+      });
+      this.options.encryption?.release(entry.session.hash);
+    }
 
-                  reject(new Error(`分片${chunk.index}上传失败，已达到最大重试次数`));
-                }
-              } else {
-                // 非可重试错误或不自动重试，更新任务状态
-                this.updateTaskStatus(taskId, 'error', undefined, undefined, {
-                  message: `分片${chunk.index}上传失败：${error.message}`,
-                  code: 'CHUNK_UPLOAD_FAILED'
-                });
-
-                reject(error);
-              }
-            }
-          });
-        }
-      };
+    if (!entry || !this.protocol.abort) {
+      return;
+    }
 
-      // 开始处理分片
-      processNextChunks();
+    this.protocol.abort(entry.session, entry.context).catch(error => {
+      console.warn('终止服务端上传失败:', error);
     });
   }
 
   /**
-   * 上传单个分片
-   * @param chunk 文件分片
-   * @param hash 文件哈希值
-   * @param totalChunks 总分片数
-   * @param platform 平台适配器
-   * @param signal 中止信号
-   * @param taskId 任务ID
+   * 读取文件的上传检查点
+   * 首次使用时清理过期检查点；与当前文件或协议不匹配的检查点直接删除
+   * @param hash 文件哈希
+   * @param file 文件对象
    */
-  private async uploadChunk(
-    chunk: FileChunk,
-    hash: string,
-    totalChunks: number,
-    platform: PlatformAdapter,
-    signal: AbortSignal,
-    taskId: string
-  ): Promise<any> {
-    // 构建表单数据
-    const formData = new FormData();
-    formData.append('chunk', chunk.data);
-    formData.append('hash', hash);
-    formData.append('index', chunk.index.toString());
-    formData.append('total', totalChunks.toString());
-
-    // 生成上传URL
-    let uploadUrl = this.options.target;
-    if (this.options.generateUploadUrl) {
-      uploadUrl = await Promise.resolve(
-        this.options.generateUploadUrl(
-          this.tasks.get(taskId)?.file as File,
-          chunk.index,
-          totalChunks
-        )
-      );
-    }
-
-    // 准备请求配置
-    let requestConfig: any = {
-      url: uploadUrl,
-      method: 'POST',
-      data: formData,
-      headers: this.options.headers || {},
-      timeout: this.options.timeout,
-      signal
-    };
+  private async loadCheckpoint(hash: string, file: File): Promise<UploadCheckpoint | null> {
+    const store = this.options.checkpointStore;
+    if (!store) return null;
 
-    // 应用请求拦截器
-    if (this.options.requestInterceptor) {
-      requestConfig = await this.options.requestInterceptor(requestConfig);
+    if (!this.checkpointsCleaned) {
+      this.checkpointsCleaned = true;
+      await store.cleanupExpired();
     }
 
-    // 使用平台适配器执行请求
-    let response = await platform.request(
-      requestConfig.url,
-      requestConfig.method,
-      requestConfig.data,
-      {
-        headers: requestConfig.headers,
-        timeout: requestConfig.timeout,
-        signal: requestConfig.signal
-      }
-    );
+    const checkpoint = await store.load(hash);
+    if (!checkpoint) return null;
 
-    // 应用响应拦截器
-    if (this.options.responseInterceptor) {
-      response = await this.options.responseInterceptor(response);
+    if (
+      checkpoint.fileSize !== file.size ||
+      checkpoint.protocol !== this.protocol.name ||
+      checkpoint.chunkSize < (this.protocol.minChunkSize || 0)
+    ) {
+      await store.remove(hash);
+      return null;
     }
 
-    return response;
+    return checkpoint;
   }
 
   /**
-   * 检查文件是否已存在
-   * @param hash 文件哈希值
-   * @param file 文件对象
-   * @param platform 平台适配器
-   * @returns 检查结果，包含是否存在、URL和已上传分片信息
+   * 以服务端结果校正客户端检查点
+   * 服务端能报告已上传分片时以服务端为准；服务端会话已变化（如上传被清理后重新创建）时
+   * 客户端记录失效；服务端无法报告时使用客户端记录
+   * @returns 续传时跳过的分片
    */
-  private async checkFileExists(
-    hash: string,
-    file: File,
-    platform: PlatformAdapter
-  ): Promise<{ exists: boolean; url?: string; uploadedChunks?: number[] }> {
-    try {
-      // 准备请求数据
-      const requestData = {
-        hash,
-        size: file.size,
-        name: file.name,
-        type: file.type
-      };
-
-      // 构建请求配置
-      let requestConfig: any = {
-        url: this.options.checkUrl as string,
-        method: 'POST',
-        data: requestData,
-        headers: {
-          'Content-Type': 'application/json',
-          ...this.options.headers
-        }
-      };
+  private reconcileCheckpoint(
+    taskId: string,
+    session: UploadSession,
+    prepareResult: ProtocolPrepareResult,
+    checkpoint: UploadCheckpoint | null
+  ): Set<number> {
+    const serverChunks = prepareResult.uploadedChunks;
+
+    if (!checkpoint) {
+      return new Set(serverChunks || []);
+    }
 
-      // 应用请求拦截器
-      if (this.options.requestInterceptor) {
-        requestConfig = await this.options.requestInterceptor(requestConfig);
-      }
+    const sessionChanged =
+      (!!checkpoint.uploadId && checkpoint.uploadId !== session.uploadId) ||
+      (!!checkpoint.uploadUrl && checkpoint.uploadUrl !== session.uploadUrl);
+
+    let chunks: number[];
+    if (serverChunks) {
+      chunks = serverChunks;
+    } else if (sessionChanged) {
+      chunks = [];
+    } else {
+      chunks = checkpoint.acknowledgedChunks;
+    }
 
-      // 发送请求
-      let response = await platform.request(
-        requestConfig.url,
-        requestConfig.method,
-        requestConfig.data,
-        { headers: requestConfig.headers }
-      );
+    const uploadedChunks = new Set(chunks.filter(index => index < session.totalChunks));
 
-      // 应用响应拦截器
-      if (this.options.responseInterceptor) {
-        response = await this.options.responseInterceptor(response);
-      }
+    this.emit('transport:checkpointReconciled', {
+      taskId,
+      hash: session.hash,
+      localChunks: checkpoint.acknowledgedChunks.length,
+      serverChunks: serverChunks ? serverChunks.length : null,
+      resumedChunks: uploadedChunks.size,
+      sessionChanged
+    });
 
-      // 默认返回结构
-      const defaultResult = { exists: false, uploadedChunks: [] };
+    return uploadedChunks;
+  }
 
-      // 如果没有响应数据，返回默认结果
-      if (!response || typeof response !== 'object') {
-        return defaultResult;
+  /**
+   * 保存上传会话检查点
+   * 保存前后执行STORAGE_BEFORE_SAVE和STORAGE_AFTER_SAVE钩子，钩子拒绝时不保存
+   */
+  private async saveCheckpoint(session: UploadSession, uploadedChunks: Set<number>): Promise<void> {
+    const store = this.options.checkpointStore;
+    if (!store) return;
+
+    const context: CheckpointHookContext = {
+      hash: session.hash,
+      checkpoint: {
+        hash: session.hash,
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        chunkSize: session.chunkSize,
+        totalChunks: session.totalChunks,
+        chunkRanges: session.chunkRanges,
+        protocol: this.protocol.name,
+        uploadId: session.uploadId,
+        uploadUrl: session.uploadUrl,
+        acknowledgedChunks: Array.from(uploadedChunks),
+        parts: Array.from(session.parts.entries()).filter(([index]) => uploadedChunks.has(index))
       }
+    };
 
-      // 处理响应结果
-      if (response.exists && response.url) {
-        this.currentFileUrl = response.url;
-        return { exists: true, url: response.url };
-      }
+    const results = await this.options.pluginManager?.executeHook(
+      ExtensionPoint.STORAGE_BEFORE_SAVE,
+      context
+    );
+    if (results?.includes(false)) return;
 
-      // 返回已上传的分片信息
-      return {
-        exists: false,
-        uploadedChunks: Array.isArray(response.uploadedChunks) ? response.uploadedChunks : []
-      };
-    } catch (error) {
-      // 检查失败时不中断，仅记录日志
-      console.warn('秒传检查失败:', error);
-      return { exists: false, uploadedChunks: [] };
-    }
+    await store.save(context.checkpoint);
+    await this.options.pluginManager?.executeHook(ExtensionPoint.STORAGE_AFTER_SAVE, context);
   }
 
   /**
-   * 合并文件分片
-   * @param hash 文件哈希值
-   * @param totalChunks 总分片数
-   * @param fileName 文件名
-   * @param platform 平台适配器
-   * @returns 合并结果，包含文件URL
+   * 记录分片已被服务端确认
+   * 检查点写入失败不影响上传
    */
-  private async mergeChunks(
-    hash: string,
-    totalChunks: number,
-    fileName: string,
-    platform: PlatformAdapter
-  ): Promise<{ url: string }> {
-    // 准备请求数据
-    const requestData = {
-      hash,
-      totalChunks,
-      fileName
-    };
+  private acknowledgeCheckpoint(session: UploadSession, chunkIndex: number): void {
+    const store = this.options.checkpointStore;
+    if (!store) return;
 
-    // 构建请求配置
-    let requestConfig: any = {
-      url: this.options.mergeUrl as string,
-      method: 'POST',
-      data: requestData,
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.options.headers
-      }
-    };
+    store.acknowledge(session.hash, chunkIndex, session.parts.get(chunkIndex)).catch(error => {
+      console.warn('记录上传检查点失败:', error);
+    });
+  }
 
-    // 应用请求拦截器
-    if (this.options.requestInterceptor) {
-      requestConfig = await this.options.requestInterceptor(requestConfig);
+  /**
+   * 删除上传检查点
+   */
+  private async removeCheckpoint(hash: string): Promise<void> {
+    if (this.options.checkpointStore) {
+      await this.options.checkpointStore.remove(hash);
     }
+  }
 
-    // 发送请求
-    let response = await platform.request(
-      requestConfig.url,
-      requestConfig.method,
-      requestConfig.data,
-      { headers: requestConfig.headers }
-    );
+  /**
+   * 检查任务是否仍应继续上传
+   * 任务被暂停或取消时抛出错误，避免在哈希计算或秒传检查之后继续上传
+   */
+  private assertTaskActive(taskId: string): void {
+    const status = this.tasks.get(taskId)?.status;
 
-    // 应用响应拦截器
-    if (this.options.responseInterceptor) {
-      response = await this.options.responseInterceptor(response);
+    if (status === 'paused') {
+      throw this.createPausedError(taskId);
     }
 
-    // 检查响应
-    if (!response || !response.url) {
-      throw new Error('合并请求失败: 服务器响应不包含URL');
+    if (status === 'canceled') {
+      throw new Error('上传已取消');
     }
+  }
 
-    // 触发合并成功事件
-    this.emit('transport:mergeSuccess', {
-      hash,
-      url: response.url,
-      fileName
-    });
+  /**
+   * 创建任务暂停错误
+   */
+  private createPausedError(taskId: string): Error {
+    const error = new Error(`上传任务已暂停: ${taskId}`);
+    (error as any).code = UPLOAD_PAUSED_ERROR_CODE;
+    return error;
+  }
 
-    return { url: response.url };
+  /**
+   * 获取当前使用的上传协议
+   */
+  getProtocol(): UploadProtocol {
+    return this.protocol;
   }
 
   /**
@@ -904,7 +1812,7 @@ export class HttpTransport extends BaseModule {
     }
 
     // 如果状态是最终状态，记录结束时间
-    if (status === 'completed' || status === 'error' || status === 'canceled') {
+    if (['completed', 'ready', 'rejected', 'error', 'canceled'].includes(status)) {
       task.endTime = Date.now();
     }
 
@@ -917,9 +1825,14 @@ export class HttpTransport extends BaseModule {
       error: task.error
     });
 
-    // 触发特定状态事件
-    if (status === 'completed') {
+    // 触发特定状态事件，后处理完成视为上传成功
+    if (status === 'completed' || status === 'ready') {
       this.emit('transport:success', { taskId, result: task.result });
+      if (status === 'ready') {
+        this.emit('transport:ready', { taskId, result: task.result });
+      }
+    } else if (status === 'rejected') {
+      this.emit('transport:rejected', { taskId, result: task.result, error: task.error });
     } else if (status === 'error') {
       this.emit('transport:error', { taskId, error: task.error });
     } else if (status === 'canceled') {
@@ -936,8 +1849,18 @@ export class HttpTransport extends BaseModule {
 
     task.progress = progress;
 
+    const onProgress = this.taskOptions.get(taskId)?.onProgress;
+    if (onProgress) {
+      onProgress(progress, {
+        loaded: Math.round((task.file.size * progress) / 100),
+        total: task.file.size,
+        progress,
+        stage: 'upload'
+      });
+    }
+
     // 触发进度事件
-    this.emit('transport:progress', { taskId, progress });
+    this.emit('transport:progress', { taskId, progress, stage: 'upload' });
   }
 
   /**
@@ -956,6 +1879,11 @@ export class HttpTransport extends BaseModule {
    * 检查错误是否可重试
    */
   private isRetryableError(error: any): boolean {
+    // 插件拒绝的操作重试结果不变
+    if (error.code === PLUGIN_HOOK_REJECTED_ERROR_CODE) {
+      return false;
+    }
+
     // 网络错误通常可以重试
     if (
       error.name === 'NetworkError' ||
@@ -971,6 +1899,11 @@ export class HttpTransport extends BaseModule {
       return true;
     }
 
+    // 分片在传输中损坏，重新上传该分片
+    if (error.code === CHUNK_INTEGRITY_MISMATCH_ERROR_CODE) {
+      return true;
+    }
+
     // 服务器错误通常可以重试
     if (error.status >= 500 || error.statusCode >= 500) {
       return true;
@@ -1004,20 +1937,20 @@ export class HttpTransport extends BaseModule {
    * 暂停上传
    */
   pause(): void {
-    this.isPaused = true;
-
-    // 中止所有活跃的请求
-    for (const controller of this.abortControllers.values()) {
-      controller.abort();
-    }
-
-    // 更新所有uploading状态的任务为paused
+    // 先更新状态，使被中止的分片请求识别为暂停而不是失败
     for (const [taskId, task] of this.tasks.entries()) {
-      if (task.status === 'uploading') {
+      if (task.status === 'preparing' || task.status === 'uploading') {
         this.updateTaskStatus(taskId, 'paused');
       }
     }
 
+    // 中止所有活跃的请求，服务端后处理不受客户端暂停影响，继续跟踪
+    for (const [key, controller] of this.abortControllers.entries()) {
+      if (!key.endsWith('_processing')) {
+        controller.abort();
+      }
+    }
+
     // 触发暂停事件
     this.emit('transport:paused', {
       timestamp: Date.now(),
@@ -1033,8 +1966,6 @@ export class HttpTransport extends BaseModule {
    * 恢复上传
    */
   resume(): void {
-    this.isPaused = false;
-
     // 恢复所有暂停的任务
     for (const [taskId, task] of this.tasks.entries()) {
       if (task.status === 'paused') {
@@ -1060,8 +1991,9 @@ export class HttpTransport extends BaseModule {
 
     // 更新所有非最终状态的任务为canceled
     for (const [taskId, task] of this.tasks.entries()) {
-      if (['uploading', 'preparing', 'paused'].includes(task.status)) {
+      if (['uploading', 'preparing', 'paused', 'processing'].includes(task.status)) {
         this.updateTaskStatus(taskId, 'canceled');
+        this.abortSession(taskId);
       }
     }
 
@@ -1075,6 +2007,47 @@ export class HttpTransport extends BaseModule {
     });
   }
 
+  /**
+   * 暂停指定的上传任务
+   * 中止该任务进行中的分片请求并保留服务端上传会话，
+   * 对应的uploadFile调用以UPLOAD_PAUSED错误结束，之后以相同taskId重新上传即可续传
+   * @param taskId 任务ID
+   * @returns 是否成功暂停
+   */
+  pauseTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || !['preparing', 'uploading'].includes(task.status)) {
+      return false;
+    }
+
+    // 先更新状态，使被中止的分片请求识别为暂停而不是失败
+    this.updateTaskStatus(taskId, 'paused');
+
+    for (const [key, controller] of this.abortControllers.entries()) {
+      if (key.startsWith(`${taskId}_`)) {
+        controller.abort();
+        this.abortControllers.delete(key);
+      }
+    }
+
+    this.emit('transport:taskPaused', { taskId, progress: task.progress });
+
+    return true;
+  }
+
+  /**
+   * 设置任务优先级
+   * 影响该任务之后提交的分片在并发管理器中的排队顺序
+   * @param taskId 任务ID
+   * @param priority 优先级，数字越大越优先
+   */
+  setTaskPriority(taskId: string, priority: number): void {
+    const options = this.taskOptions.get(taskId);
+    if (options) {
+      options.priority = priority;
+    }
+  }
+
   /**
    * 取消指定的上传任务
    */
@@ -1083,7 +2056,7 @@ export class HttpTransport extends BaseModule {
     if (!task) return false;
 
     // 如果任务已经处于最终状态，不能取消
-    if (['completed', 'error', 'canceled'].includes(task.status)) {
+    if (['completed', 'ready', 'rejected', 'error', 'canceled'].includes(task.status)) {
       return false;
     }
 
@@ -1097,6 +2070,7 @@ export class HttpTransport extends BaseModule {
 
     // 更新任务状态
     this.updateTaskStatus(taskId, 'canceled');
+    this.abortSession(taskId);
 
     // 触发任务取消事件
     this.emit('transport:taskCanceled', { taskId });
@@ -1132,6 +2106,29 @@ export class HttpTransport extends BaseModule {
     return this.chunkStrategy;
   }
 
+  /**
+   * 获取并发管理器
+   * 所有上传任务的分片请求共享该管理器的并发名额
+   */
+  getConcurrencyManager(): ConcurrencyManager {
+    return this.concurrencyManager;
+  }
+
+  /**
+   * 设置带宽限制器，传入null取消限速
+   * 已在等待的分片不受影响
+   */
+  setBandwidthLimiter(limiter: BandwidthLimiter | null): void {
+    this.options.bandwidthLimiter = limiter || undefined;
+  }
+
+  /**
+   * 获取带宽限制器
+   */
+  getBandwidthLimiter(): BandwidthLimiter | undefined {
+    return this.options.bandwidthLimiter;
+  }
+
   /**
    * 获取并发管理器统计信息
    */
@@ -1139,10 +2136,44 @@ export class HttpTransport extends BaseModule {
     return this.concurrencyManager.getStats();
   }
 
+  /**
+   * 导出热替换时交接给新传输模块的状态
+   * 导出后本模块销毁时不再终止服务端会话和删除检查点，暂停的任务由新模块续传
+   */
+  exportState(): TransportHandoffState {
+    this.handedOff = true;
+
+    return {
+      networkSpeed: this.chunkStrategy.getCurrentNetworkSpeed(),
+      rtt: this.chunkStrategy.getCurrentRtt(),
+      concurrency: this.concurrencyManager.concurrency
+    };
+  }
+
+  /**
+   * 导入被替换的传输模块交接的状态
+   * 沿用已测得的网络状况，避免重新从初始分片大小和并发数开始调整；
+   * 替换失败时本模块导入自己导出的状态，重新负责服务端会话和检查点
+   */
+  importState(state: TransportHandoffState): void {
+    this.handedOff = false;
+    this.chunkStrategy.updateNetworkSpeed(state.networkSpeed);
+    this.chunkStrategy.updateRtt(state.rtt);
+
+    if (state.concurrency > 0) {
+      this.concurrencyManager.setConcurrency(state.concurrency);
+    }
+  }
+
   /**
    * 模块销毁时清理资源
    */
   protected async onDestroy(): Promise<void> {
+    // 已交接的服务端会话由新的传输模块继续使用
+    if (this.handedOff) {
+      this.sessions.clear();
+    }
+
     // 取消所有上传
     this.cancel();
 
@@ -0,0 +1,220 @@
+import {
+  FileChunk,
+  ProcessingJobRef,
+  ProtocolCompleteResult,
+  ProtocolContext,
+  ProtocolPrepareResult,
+  UploadProtocol,
+  UploadSession
+} from '../../interfaces';
+
+/**
+ * 默认协议选项
+ */
+export interface DefaultProtocolOptions {
+  /**
+   * 分片上传URL
+   */
+  target: string;
+
+  /**
+   * 检查文件是否已存在的URL，默认 `${target}/check`
+   */
+  checkUrl?: string;
+
+  /**
+   * 合并分片的URL，默认 `${target}/merge`
+   */
+  mergeUrl?: string;
+
+  /**
+   * 自定义分片上传URL生成函数
+   */
+  generateUploadUrl?: (
+    file: File,
+    chunkIndex: number,
+    totalChunks: number
+  ) => string | Promise<string>;
+}
+
+/**
+ * 默认上传协议
+ *
+ * - 检查：POST checkUrl，JSON { hash, size, name, type }，响应 { exists, url, uploadedChunks }
+ * - 分片：POST target，FormData { chunk, hash, index, total, start, end, chunkHash? }，
+ *   启用分片完整性校验时响应 { digest } 应为服务端计算的分片摘要
+ * - 合并：POST mergeUrl，JSON { hash, totalChunks, fileName, chunkRanges?, encryption?, integrity? }，
+ *   响应 { url, job?, jobId? }
+ *
+ * 自适应分片重新切分后分片大小不一致，分片的total可能变化，
+ * 服务端应按合并请求的totalChunks和chunkRanges（分片索引到字节范围[start, end)）拼接文件。
+ *
+ * 合并响应包含job（{ id, statusUrl, eventsUrl }）或jobId时表示服务端还需后处理，
+ * 仅有jobId时状态URL默认为 `${target}/jobs/${jobId}`。
+ */
+export class DefaultUploadProtocol implements UploadProtocol {
+  readonly name = 'default';
+  private options: DefaultProtocolOptions;
+
+  constructor(options: DefaultProtocolOptions) {
+    if (!options.target) {
+      throw new Error('上传目标URL必须提供');
+    }
+
+    this.options = {
+      ...options,
+      checkUrl: options.checkUrl || `${options.target}/check`,
+      mergeUrl: options.mergeUrl || `${options.target}/merge`
+    };
+  }
+
+  /**
+   * 检查文件是否已存在
+   * 检查失败时不中断上传，按未上传处理
+   */
+  async prepare(session: UploadSession, context: ProtocolContext): Promise<ProtocolPrepareResult> {
+    // 无法从服务端获取已上传分片时不返回uploadedChunks，由客户端检查点决定续传位置
+    const defaultResult = { exists: false };
+
+    if (!session.quickUpload) {
+      return defaultResult;
+    }
+
+    try {
+      const { data } = await context.request({
+        url: this.options.checkUrl as string,
+        method: 'POST',
+        data: {
+          hash: session.hash,
+          size: session.fileSize,
+          name: session.fileName,
+          type: session.fileType
+        },
+        headers: {
+          'Content-Type': 'application/json',
+          ...context.headers
+        }
+      });
+
+      // 如果没有响应数据，返回默认结果
+      if (!data || typeof data !== 'object') {
+        return defaultResult;
+      }
+
+      if (data.exists && data.url) {
+        return { exists: true, url: data.url };
+      }
+
+      return {
+        exists: false,
+        uploadedChunks: Array.isArray(data.uploadedChunks) ? data.uploadedChunks : []
+      };
+    } catch (error) {
+      // 检查失败时不中断，仅记录日志
+      console.warn('秒传检查失败:', error);
+      return defaultResult;
+    }
+  }
+
+  /**
+   * 上传单个分片
+   */
+  async uploadChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    signal?: AbortSignal
+  ): Promise<any> {
+    // 构建表单数据
+    const formData = new FormData();
+    formData.append('chunk', chunk.data);
+    formData.append('hash', session.hash);
+    formData.append('index', chunk.index.toString());
+    formData.append('total', session.totalChunks.toString());
+    formData.append('start', chunk.start.toString());
+    formData.append('end', chunk.end.toString());
+    if (chunk.hash) {
+      formData.append('chunkHash', chunk.hash);
+    }
+
+    // 生成上传URL
+    let uploadUrl = this.options.target;
+    if (this.options.generateUploadUrl) {
+      uploadUrl = await Promise.resolve(
+        this.options.generateUploadUrl(session.file, chunk.index, session.totalChunks)
+      );
+    }
+
+    const { data } = await context.request({
+      url: uploadUrl,
+      method: 'POST',
+      data: formData,
+      headers: { ...context.headers },
+      timeout: context.timeout,
+      signal
+    });
+
+    return data;
+  }
+
+  /**
+   * 合并文件分片
+   */
+  async complete(
+    session: UploadSession,
+    context: ProtocolContext
+  ): Promise<ProtocolCompleteResult> {
+    const { data } = await context.request({
+      url: this.options.mergeUrl as string,
+      method: 'POST',
+      data: {
+        hash: session.hash,
+        totalChunks: session.totalChunks,
+        fileName: session.fileName,
+        ...(session.chunkRanges ? { chunkRanges: session.chunkRanges } : {}),
+        ...(session.data.encryption ? { encryption: session.data.encryption } : {}),
+        ...(session.data.integrity ? { integrity: session.data.integrity } : {})
+      },
+      headers: {
+        'Content-Type': 'application/json',
+        ...context.headers
+      }
+    });
+
+    const job = this.readJob(data);
+
+    // 检查响应，存在后处理任务时URL由后处理结果提供
+    if (!data || (!data.url && !job)) {
+      throw new Error('合并请求失败: 服务器响应不包含URL');
+    }
+
+    return { url: data.url || '', job, response: data };
+  }
+
+  /**
+   * 从合并响应中读取后处理任务引用
+   */
+  private readJob(data: any): ProcessingJobRef | undefined {
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+
+    if (data.job && typeof data.job === 'object' && data.job.id) {
+      return {
+        id: String(data.job.id),
+        statusUrl: data.job.statusUrl,
+        eventsUrl: data.job.eventsUrl
+      };
+    }
+
+    if (data.jobId) {
+      const id = String(data.jobId);
+      return {
+        id,
+        statusUrl: `${this.options.target}/jobs/${encodeURIComponent(id)}`
+      };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * 上传协议适配器导出
+ */
+
+export { DefaultUploadProtocol, type DefaultProtocolOptions } from './default-protocol';
+export { TusUploadProtocol, type TusProtocolOptions } from './tus-protocol';
+export {
+  S3MultipartUploadProtocol,
+  type S3MultipartProtocolOptions,
+  type S3Operation,
+  type S3SignableRequest
+} from './s3-multipart-protocol';
@@ -0,0 +1,368 @@
+import {
+  FileChunk,
+  ProtocolCompleteResult,
+  ProtocolContext,
+  ProtocolPrepareResult,
+  ProtocolRequest,
+  ProtocolResponse,
+  UploadProtocol,
+  UploadSession
+} from '../../interfaces';
+
+/**
+ * S3分片上传要求除最后一片外每片至少5MB
+ */
+const S3_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * S3请求操作类型
+ */
+export type S3Operation = 'head' | 'initiate' | 'listParts' | 'uploadPart' | 'complete' | 'abort';
+
+/**
+ * 待签名的S3请求
+ */
+export interface S3SignableRequest extends ProtocolRequest {
+  operation: S3Operation; // 操作类型
+  key: string; // 对象键
+  uploadId?: string; // 上传ID
+  partNumber?: number; // 分片编号（从1开始）
+}
+
+/**
+ * S3分片上传协议选项
+ */
+export interface S3MultipartProtocolOptions {
+  /**
+   * 存储桶地址，如 https://bucket.s3.region.amazonaws.com
+   */
+  endpoint: string;
+
+  /**
+   * 生成对象键，默认 `${hash}/${fileName}`
+   */
+  getKey?: (session: UploadSession) => string;
+
+  /**
+   * 请求签名函数，用于替换为预签名URL或添加Authorization头
+   */
+  signRequest?: (request: S3SignableRequest) => ProtocolRequest | Promise<ProtocolRequest>;
+}
+
+/**
+ * S3风格分片上传协议
+ *
+ * - 秒传：HEAD 对象，存在即视为已上传
+ * - 初始化：POST ?uploads，响应XML中的UploadId
+ * - 恢复：GET ?uploadId=，ListParts获取已上传分片及ETag
+ * - 上传：PUT ?partNumber=&uploadId=，记录响应头ETag
+ * - 完成：POST ?uploadId=，CompleteMultipartUpload
+ * - 终止：DELETE ?uploadId=
+ *
+ * 浏览器环境需在存储桶CORS配置中暴露ETag响应头。
+ */
+export class S3MultipartUploadProtocol implements UploadProtocol {
+  readonly name = 's3-multipart';
+  readonly minChunkSize = S3_MIN_PART_SIZE;
+  private options: S3MultipartProtocolOptions;
+
+  /**
+   * 按文件哈希缓存的UploadId，用于同一文件再次上传时恢复
+   */
+  private uploadIds: Map<string, string> = new Map();
+
+  constructor(options: S3MultipartProtocolOptions) {
+    if (!options.endpoint) {
+      throw new Error('S3存储桶地址必须提供');
+    }
+
+    this.options = {
+      ...options,
+      endpoint: options.endpoint.replace(/\/+$/, '')
+    };
+  }
+
+  /**
+   * 检查对象是否存在，恢复或初始化分片上传
+   */
+  async prepare(session: UploadSession, context: ProtocolContext): Promise<ProtocolPrepareResult> {
+    const key = this.getKey(session);
+    session.data.key = key;
+
+    if (session.quickUpload && (await this.objectExists(key, context))) {
+      return { exists: true, url: this.getObjectUrl(key) };
+    }
+
+    const knownUploadId = session.uploadId || this.uploadIds.get(session.hash);
+    if (knownUploadId) {
+      const parts = await this.listParts(key, knownUploadId, context);
+
+      if (parts) {
+        session.uploadId = knownUploadId;
+        parts.forEach((etag, partNumber) => session.parts.set(partNumber - 1, etag));
+
+        return {
+          exists: false,
+          uploadedChunks: Array.from(session.parts.keys()).filter(
+            index => index < session.totalChunks
+          )
+        };
+      }
+
+      // 服务端已不存在该上传，重新初始化
+      this.uploadIds.delete(session.hash);
+    }
+
+    const response = await this.send(context, {
+      operation: 'initiate',
+      key,
+      url: `${this.getObjectUrl(key)}?uploads`,
+      method: 'POST',
+      headers: {
+        ...context.headers,
+        'Content-Type': session.fileType || 'application/octet-stream'
+      }
+    });
+
+    const uploadId = this.readXmlTag(response.data, 'UploadId');
+    if (!uploadId) {
+      throw new Error('S3初始化分片上传失败: 响应不包含UploadId');
+    }
+
+    session.uploadId = uploadId;
+    this.uploadIds.set(session.hash, uploadId);
+
+    return { exists: false, uploadedChunks: [] };
+  }
+
+  /**
+   * 上传分片并记录ETag
+   */
+  async uploadChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (!session.uploadId) {
+      throw new Error('S3分片上传尚未初始化');
+    }
+
+    const key = session.data.key as string;
+    const partNumber = chunk.index + 1;
+
+    const response = await this.send(context, {
+      operation: 'uploadPart',
+      key,
+      uploadId: session.uploadId,
+      partNumber,
+      url: `${this.getObjectUrl(key)}?partNumber=${partNumber}&uploadId=${encodeURIComponent(
+        session.uploadId
+      )}`,
+      method: 'PUT',
+      data: chunk.data,
+      headers: { ...context.headers },
+      timeout: context.timeout,
+      signal
+    });
+
+    const etag = response.headers['etag'];
+    if (!etag) {
+      throw new Error('S3分片上传响应不包含ETag，请检查存储桶CORS是否暴露ETag');
+    }
+
+    session.parts.set(chunk.index, etag);
+
+    return { partNumber, etag };
+  }
+
+  /**
+   * 完成分片上传
+   */
+  async complete(
+    session: UploadSession,
+    context: ProtocolContext
+  ): Promise<ProtocolCompleteResult> {
+    if (!session.uploadId) {
+      throw new Error('S3分片上传尚未初始化');
+    }
+
+    const key = session.data.key as string;
+    const parts: string[] = [];
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      const etag = session.parts.get(index);
+      if (!etag) {
+        throw new Error(`S3分片${index + 1}缺少ETag，无法完成上传`);
+      }
+      parts.push(`<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`);
+    }
+
+    const response = await this.send(context, {
+      operation: 'complete',
+      key,
+      uploadId: session.uploadId,
+      url: `${this.getObjectUrl(key)}?uploadId=${encodeURIComponent(session.uploadId)}`,
+      method: 'POST',
+      data: `<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`,
+      headers: {
+        ...context.headers,
+        'Content-Type': 'application/xml'
+      }
+    });
+
+    // S3在完成请求出错时可能返回200并在响应体中携带Error
+    const errorCode = this.readXmlTag(response.data, 'Code');
+    if (errorCode && typeof response.data === 'string' && response.data.includes('<Error>')) {
+      throw new Error(`S3完成分片上传失败: ${errorCode}`);
+    }
+
+    this.uploadIds.delete(session.hash);
+
+    return {
+      url: this.readXmlTag(response.data, 'Location') || this.getObjectUrl(key),
+      response: response.data
+    };
+  }
+
+  /**
+   * 终止分片上传
+   */
+  async abort(session: UploadSession, context: ProtocolContext): Promise<void> {
+    this.uploadIds.delete(session.hash);
+
+    if (!session.uploadId) {
+      return;
+    }
+
+    const key = session.data.key as string;
+
+    await this.send(context, {
+      operation: 'abort',
+      key,
+      uploadId: session.uploadId,
+      url: `${this.getObjectUrl(key)}?uploadId=${encodeURIComponent(session.uploadId)}`,
+      method: 'DELETE',
+      headers: { ...context.headers }
+    });
+  }
+
+  /**
+   * 检查对象是否已存在
+   */
+  private async objectExists(key: string, context: ProtocolContext): Promise<boolean> {
+    try {
+      await this.send(context, {
+        operation: 'head',
+        key,
+        url: this.getObjectUrl(key),
+        method: 'HEAD',
+        headers: { ...context.headers }
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.status !== 404 && error?.status !== 403) {
+        console.warn('S3对象检查失败:', error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * 列出已上传分片
+   * @returns 分片编号到ETag的映射，上传不存在时返回null
+   */
+  private async listParts(
+    key: string,
+    uploadId: string,
+    context: ProtocolContext
+  ): Promise<Map<number, string> | null> {
+    try {
+      const response = await this.send(context, {
+        operation: 'listParts',
+        key,
+        uploadId,
+        url: `${this.getObjectUrl(key)}?uploadId=${encodeURIComponent(uploadId)}`,
+        method: 'GET',
+        headers: { ...context.headers }
+      });
+
+      const parts = new Map<number, string>();
+      const body = typeof response.data === 'string' ? response.data : '';
+      const partPattern = /<Part>([\s\S]*?)<\/Part>/g;
+      let match: RegExpExecArray | null;
+
+      while ((match = partPattern.exec(body)) !== null) {
+        const partNumber = parseInt(this.readXmlTag(match[1], 'PartNumber') || '', 10);
+        const etag = this.readXmlTag(match[1], 'ETag');
+        if (!Number.isNaN(partNumber) && etag) {
+          parts.set(partNumber, etag);
+        }
+      }
+
+      return parts;
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 签名并发送请求
+   */
+  private async send(
+    context: ProtocolContext,
+    request: S3SignableRequest
+  ): Promise<ProtocolResponse> {
+    const signed = this.options.signRequest ? await this.options.signRequest(request) : request;
+
+    return context.request({
+      url: signed.url,
+      method: signed.method,
+      data: signed.data,
+      headers: signed.headers,
+      timeout: signed.timeout,
+      signal: signed.signal
+    });
+  }
+
+  /**
+   * 获取对象键
+   */
+  private getKey(session: UploadSession): string {
+    return this.options.getKey
+      ? this.options.getKey(session)
+      : `${session.hash}/${session.fileName}`;
+  }
+
+  /**
+   * 获取对象URL，对键的每一段分别编码
+   */
+  private getObjectUrl(key: string): string {
+    return `${this.options.endpoint}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /**
+   * 读取XML中第一个指定标签的文本
+   * 常见XML实体（如ETag中的&quot;）会被还原
+   */
+  private readXmlTag(xml: unknown, tag: string): string | undefined {
+    if (typeof xml !== 'string') {
+      return undefined;
+    }
+
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    if (!match) {
+      return undefined;
+    }
+
+    return match[1]
+      .trim()
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,312 @@
+import {
+  FileChunk,
+  ProtocolCompleteResult,
+  ProtocolContext,
+  ProtocolPrepareResult,
+  UploadProtocol,
+  UploadSession
+} from '../../interfaces';
+
+/**
+ * tus协议版本
+ */
+const TUS_VERSION = '1.0.0';
+
+/**
+ * tus协议选项
+ */
+export interface TusProtocolOptions {
+  /**
+   * 创建上传的端点URL
+   */
+  endpoint: string;
+
+  /**
+   * 自定义Upload-Metadata，默认包含filename、filetype和hash
+   */
+  metadata?: (session: UploadSession) => Record<string, string>;
+
+  /**
+   * 取消上传时是否发送DELETE终止服务端上传，默认true
+   */
+  terminateOnAbort?: boolean;
+}
+
+/**
+ * tus.io 1.0 上传协议
+ *
+ * 支持core协议及creation、termination扩展：
+ * - 创建：POST endpoint，Upload-Length/Upload-Metadata，响应Location为上传URL
+ * - 恢复：HEAD 上传URL，根据Upload-Offset计算已确认分片
+ * - 上传：PATCH 上传URL，Upload-Offset + application/offset+octet-stream
+ * - 终止：DELETE 上传URL
+ *
+ * tus要求数据按偏移顺序写入，因此分片逐个上传。
+ */
+export class TusUploadProtocol implements UploadProtocol {
+  readonly name = 'tus';
+  readonly sequential = true;
+  private options: TusProtocolOptions;
+
+  /**
+   * 按文件哈希缓存的上传URL，用于同一文件再次上传时通过HEAD恢复
+   */
+  private uploadUrls: Map<string, string> = new Map();
+
+  constructor(options: TusProtocolOptions) {
+    if (!options.endpoint) {
+      throw new Error('tus端点URL必须提供');
+    }
+
+    this.options = {
+      terminateOnAbort: true,
+      ...options
+    };
+  }
+
+  /**
+   * 恢复已有上传或创建新上传
+   */
+  async prepare(session: UploadSession, context: ProtocolContext): Promise<ProtocolPrepareResult> {
+    const knownUrl = session.uploadUrl || this.uploadUrls.get(session.hash);
+
+    if (knownUrl) {
+      const offset = await this.fetchOffset(knownUrl, context);
+
+      if (offset !== null) {
+        session.uploadUrl = knownUrl;
+        session.data.offset = offset;
+
+        return {
+          exists: false,
+          uploadedChunks: this.getCompletedChunks(session, offset)
+        };
+      }
+
+      // 服务端已不存在该上传，重新创建
+      this.uploadUrls.delete(session.hash);
+    }
+
+    const response = await context.request({
+      url: this.options.endpoint,
+      method: 'POST',
+      headers: {
+        ...context.headers,
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(session.fileSize),
+        'Upload-Metadata': this.encodeMetadata(session)
+      }
+    });
+
+    const location = response.headers['location'];
+    if (!location) {
+      throw new Error('tus创建上传失败: 服务器响应不包含Location');
+    }
+
+    session.uploadUrl = this.resolveUrl(location);
+    session.data.offset = 0;
+    this.uploadUrls.set(session.hash, session.uploadUrl);
+
+    return { exists: false, uploadedChunks: [] };
+  }
+
+  /**
+   * 从当前偏移写入分片数据
+   * 偏移落在分片中间时只发送剩余部分；偏移冲突(409)时重新同步偏移后重试一次
+   */
+  async uploadChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    signal?: AbortSignal
+  ): Promise<any> {
+    try {
+      return await this.patchChunk(session, chunk, context, signal);
+    } catch (error: any) {
+      if (error?.status !== 409) {
+        throw error;
+      }
+
+      const offset = await this.fetchOffset(session.uploadUrl as string, context);
+      if (offset === null) {
+        throw error;
+      }
+
+      session.data.offset = offset;
+      return this.patchChunk(session, chunk, context, signal);
+    }
+  }
+
+  /**
+   * 完成上传
+   * tus没有合并步骤，偏移到达文件大小即完成
+   */
+  async complete(
+    session: UploadSession,
+    _context: ProtocolContext
+  ): Promise<ProtocolCompleteResult> {
+    if (!session.uploadUrl) {
+      throw new Error('tus上传尚未创建');
+    }
+
+    if ((session.data.offset || 0) < session.fileSize) {
+      throw new Error(`tus上传未完成: ${session.data.offset}/${session.fileSize}`);
+    }
+
+    this.uploadUrls.delete(session.hash);
+
+    return { url: session.uploadUrl };
+  }
+
+  /**
+   * 终止上传
+   */
+  async abort(session: UploadSession, context: ProtocolContext): Promise<void> {
+    this.uploadUrls.delete(session.hash);
+
+    if (!session.uploadUrl || !this.options.terminateOnAbort) {
+      return;
+    }
+
+    await context.request({
+      url: session.uploadUrl,
+      method: 'DELETE',
+      headers: {
+        ...context.headers,
+        'Tus-Resumable': TUS_VERSION
+      }
+    });
+  }
+
+  /**
+   * 发送PATCH请求
+   */
+  private async patchChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (!session.uploadUrl) {
+      throw new Error('tus上传尚未创建');
+    }
+
+    const offset: number = session.data.offset || 0;
+
+    // 该分片已被服务端确认
+    if (chunk.end <= offset) {
+      return { offset };
+    }
+
+    if (chunk.start > offset) {
+      throw new Error(`tus分片不连续: 分片起始${chunk.start}，服务端偏移${offset}`);
+    }
+
+    const body = chunk.start < offset ? chunk.data.slice(offset - chunk.start) : chunk.data;
+
+    const response = await context.request({
+      url: session.uploadUrl,
+      method: 'PATCH',
+      data: body,
+      headers: {
+        ...context.headers,
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream'
+      },
+      timeout: context.timeout,
+      signal
+    });
+
+    // 平台不支持读取响应头时，按已发送字节推算偏移
+    const newOffset = parseInt(response.headers['upload-offset'], 10);
+    session.data.offset = Number.isNaN(newOffset) ? chunk.end : newOffset;
+
+    return { offset: session.data.offset };
+  }
+
+  /**
+   * 通过HEAD请求获取服务端偏移
+   * @returns 偏移量，上传不存在时返回null
+   */
+  private async fetchOffset(uploadUrl: string, context: ProtocolContext): Promise<number | null> {
+    try {
+      const response = await context.request({
+        url: uploadUrl,
+        method: 'HEAD',
+        headers: {
+          ...context.headers,
+          'Tus-Resumable': TUS_VERSION
+        }
+      });
+
+      const offset = parseInt(response.headers['upload-offset'], 10);
+      return Number.isNaN(offset) ? null : offset;
+    } catch (error: any) {
+      if (error?.status === 404 || error?.status === 410 || error?.status === 403) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 计算偏移之前已完整写入的分片
+   */
+  private getCompletedChunks(session: UploadSession, offset: number): number[] {
+    const completed: number[] = [];
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      // 自适应分片重新切分后分片大小不一致，按记录的字节范围计算
+      const end = session.chunkRanges
+        ? session.chunkRanges[index][1]
+        : Math.min((index + 1) * session.chunkSize, session.fileSize);
+      if (end <= offset) {
+        completed.push(index);
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * 编码Upload-Metadata，值为base64
+   */
+  private encodeMetadata(session: UploadSession): string {
+    const metadata = this.options.metadata
+      ? this.options.metadata(session)
+      : {
+          filename: session.fileName,
+          filetype: session.fileType,
+          hash: session.hash
+        };
+
+    return Object.entries(metadata)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key} ${this.toBase64(value)}`)
+      .join(',');
+  }
+
+  /**
+   * UTF-8字符串转base64
+   */
+  private toBase64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  /**
+   * 将Location解析为绝对地址
+   */
+  private resolveUrl(location: string): string {
+    try {
+      return new URL(location, this.options.endpoint).toString();
+    } catch {
+      return location;
+    }
+  }
+}
@@ -6,5 +6,23 @@
 // 导出接口定义
 export * from './interfaces';
 
-// 在这里可以添加对具体实现的导出
-// 例如: export * from './implementations/http-transport';
+// 导出服务端后处理状态跟踪器
+export * from './processing-tracker';
+
+// 导出下载输出目标
+export * from './download-sink';
+
+// 导出带宽限制器
+export * from './bandwidth-limiter';
+
+// 导出上传协议适配器
+export * from './implementations/protocols';
+
+// 导出分片策略、分片迭代器和并发管理器
+export * from './chunk-strategy';
+export * from './chunk-iterator';
+export * from './concurrency-manager';
+
+// 导出上传和下载传输模块
+export * from './implementations/http-transport';
+export * from './implementations/download-transport';
@@ -14,11 +14,19 @@ export enum TransportStatus {
   PREPARING = 'preparing', // 准备中状态
   UPLOADING = 'uploading', // 上传中状态
   PAUSED = 'paused', // 已暂停状态
-  COMPLETED = 'completed', // 已完成状态
+  COMPLETED = 'completed', // 已完成状态（服务端无后处理）
+  PROCESSING = 'processing', // 上传完成，服务端后处理中（转码、病毒扫描、缩略图等）
+  READY = 'ready', // 服务端后处理完成，文件可用
+  REJECTED = 'rejected', // 服务端后处理拒绝了文件
   ERROR = 'error', // 错误状态
   CANCELED = 'canceled' // 已取消状态
 }
 
+/**
+ * 上传生命周期阶段
+ */
+export type UploadStage = 'upload' | 'processing';
+
 /**
  * 传输事件类型定义
  * 传输过程中可能触发的事件
@@ -50,6 +58,11 @@ export interface FileChunk {
   uploaded?: boolean; // 是否已上传(可选)
 }
 
+/**
+ * 分片字节范围 [start, end)，在分片布局数组中的下标即分片索引
+ */
+export type ChunkRange = [number, number];
+
 /**
  * 传输选项接口
  * 配置传输行为的各种选项
@@ -86,6 +99,9 @@ export interface ProgressInfo {
   totalChunks?: number; // 总分片数
   startTime?: number; // 开始时间戳
   elapsedTime?: number; // 已用时间(毫秒)
+  stage?: UploadStage; // 当前阶段
+  stageName?: string; // 服务端后处理步骤名称（如scan、transcode、thumbnail）
+  stageProgress?: number; // 当前阶段进度百分比(0-100)
 }
 
 /**
@@ -216,3 +232,161 @@ export interface Transport
 export interface TransportFactory {
   createTransport(type: string, options: TransportOptions): Transport; // 创建传输实例
 }
+
+/**
+ * 上传会话
+ * 描述一次文件上传在服务端协议层面的状态，由协议适配器读写
+ */
+export interface UploadSession {
+  hash: string; // 文件哈希
+  file: any; // 上传的文件（浏览器为File，小程序为文件路径等）
+  fileName: string; // 文件名
+  fileSize: number; // 文件大小
+  fileType: string; // 文件类型
+  chunkSize: number; // 分片大小，自适应分片时为尚未发送的分片的当前大小
+  totalChunks: number; // 总分片数，自适应分片时随重新切分变化，以合并时为准
+  chunkRanges?: ChunkRange[]; // 分片索引到字节范围的映射，自适应分片重新切分后分片大小不固定
+  quickUpload: boolean; // 是否尝试秒传
+  uploadId?: string; // 服务端上传会话ID（如S3的UploadId）
+  uploadUrl?: string; // 服务端上传会话地址（如tus的上传URL）
+  parts: Map<number, any>; // 各分片的服务端确认信息（如S3的ETag）
+  data: Record<string, any>; // 协议私有数据；encryption（加密元数据）和integrity（分片哈希Merkle根）需随合并请求提交
+}
+
+/**
+ * 协议请求配置
+ */
+export interface ProtocolRequest {
+  url: string; // 请求地址
+  method: string; // 请求方法
+  data?: any; // 请求数据
+  headers?: Record<string, string>; // 请求头
+  timeout?: number; // 超时时间（毫秒）
+  signal?: AbortSignal; // 中止信号
+}
+
+/**
+ * 协议响应
+ */
+export interface ProtocolResponse<T = any> {
+  status: number; // HTTP状态码，平台不支持完整响应时为200
+  headers: Record<string, string>; // 响应头，键名小写
+  data: T; // 响应数据
+}
+
+/**
+ * 协议上下文
+ * 由传输模块提供，封装了请求拦截器、公共请求头和平台适配器
+ */
+export interface ProtocolContext {
+  headers: Record<string, string>; // 公共请求头
+  timeout?: number; // 请求超时时间（毫秒）
+  request<T = any>(config: ProtocolRequest): Promise<ProtocolResponse<T>>; // 发送请求
+}
+
+/**
+ * 上传准备结果
+ */
+export interface ProtocolPrepareResult {
+  exists: boolean; // 文件是否已存在（秒传）
+  url?: string; // 已存在文件的URL
+  uploadedChunks?: number[]; // 服务端已确认的分片索引，服务端无法提供时为undefined
+}
+
+/**
+ * 服务端后处理任务引用
+ * 合并接口返回，客户端据此跟踪后处理状态
+ */
+export interface ProcessingJobRef {
+  id: string; // 任务ID
+  statusUrl?: string; // 轮询状态的URL
+  eventsUrl?: string; // Server-Sent Events状态推送URL
+}
+
+/**
+ * 服务端后处理状态
+ */
+export interface ProcessingStatus {
+  state: 'processing' | 'ready' | 'rejected'; // 后处理状态
+  stage?: string; // 当前处理步骤
+  progress?: number; // 当前步骤进度百分比(0-100)
+  url?: string; // 处理完成后的文件URL
+  reason?: string; // 被拒绝的原因
+  data?: any; // 服务端返回的其他数据
+}
+
+/**
+ * 上传完成结果
+ */
+export interface ProtocolCompleteResult {
+  url: string; // 文件URL，存在后处理任务时可能为空，由后处理结果提供
+  job?: ProcessingJobRef; // 服务端后处理任务
+  response?: any; // 服务端原始响应
+}
+
+/**
+ * 上传协议适配器接口
+ * 传输模块通过该接口与不同的服务端上传协议交互
+ */
+export interface UploadProtocol {
+  readonly name: string; // 协议名称
+  readonly sequential?: boolean; // 是否要求分片按顺序逐个上传
+  readonly minChunkSize?: number; // 协议要求的最小分片大小（字节）
+
+  prepare(session: UploadSession, context: ProtocolContext): Promise<ProtocolPrepareResult>; // 检查秒传/创建或恢复上传会话
+  uploadChunk(
+    session: UploadSession,
+    chunk: FileChunk,
+    context: ProtocolContext,
+    signal?: AbortSignal
+  ): Promise<any>; // 上传单个分片
+  complete(session: UploadSession, context: ProtocolContext): Promise<ProtocolCompleteResult>; // 完成上传（合并分片）
+  abort?(session: UploadSession, context: ProtocolContext): Promise<void>; // 终止上传并释放服务端资源
+}
+
+/**
+ * SECURITY_VALIDATE_FILE、TRANSPORT_BEFORE_UPLOAD和TRANSPORT_AFTER_UPLOAD扩展点钩子上下文
+ * VALIDATE_FILE在BEFORE_UPLOAD之前执行，钩子返回false时文件校验不通过，拒绝上传；
+ * BEFORE_UPLOAD在计算文件哈希前执行，钩子返回false时取消上传；
+ * AFTER_UPLOAD在上传完成（包括秒传）后执行，上下文中包含文件哈希和URL
+ */
+export interface UploadHookContext {
+  taskId: string; // 上传任务ID
+  file: File; // 上传的文件
+  hash?: string; // 文件哈希，仅AFTER_UPLOAD
+  url?: string; // 文件URL，仅AFTER_UPLOAD
+}
+
+/**
+ * TRANSPORT_BEFORE_CHUNK_UPLOAD和TRANSPORT_AFTER_CHUNK_UPLOAD扩展点钩子上下文
+ * BEFORE_CHUNK_UPLOAD在加密之后、计算分片摘要之前执行，钩子可替换chunk.data(需要file:modifyContent能力)
+ * 或修改headers(需要request:modifyHeaders能力)，
+ * 返回false时该分片上传失败且不重试；AFTER_CHUNK_UPLOAD在服务端确认分片后执行。
+ * 分片重试时会再次执行钩子
+ */
+export interface ChunkHookContext {
+  taskId: string; // 上传任务ID
+  hash: string; // 文件哈希
+  chunk: FileChunk; // 将要发送的分片
+  headers: Record<string, string>; // 本分片请求附加的请求头
+  response?: any; // 服务端确认，仅AFTER_CHUNK_UPLOAD
+}
+
+/**
+ * NETWORK_REQUEST_INTERCEPTOR扩展点钩子上下文
+ * 在传输选项的requestInterceptor之后执行，钩子可修改request的url、headers(需要request:modifyHeaders能力)
+ * 和data(需要file:modifyContent能力)，返回false时请求失败
+ */
+export interface RequestHookContext {
+  request: ProtocolRequest; // 将要发出的请求
+}
+
+/**
+ * NETWORK_RESPONSE_INTERCEPTOR扩展点钩子上下文
+ * 在传输选项的responseInterceptor之前执行，钩子可修改response的status和data(需要response:modify能力)，
+ * 未声明request:modifyHeaders能力的钩子看不到请求头，返回false时请求失败
+ */
+export interface ResponseHookContext {
+  request: ProtocolRequest; // 已发出的请求
+  response: ProtocolResponse; // 服务端响应
+}
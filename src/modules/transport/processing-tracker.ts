@@ -0,0 +1,324 @@
+import { ProcessingJobRef, ProcessingStatus, ProtocolContext } from './interfaces';
+
+/**
+ * 后处理被服务端拒绝时抛出的错误代码
+ */
+export const PROCESSING_REJECTED_ERROR_CODE = 'PROCESSING_REJECTED';
+
+/**
+ * 等待后处理超时时抛出的错误代码
+ */
+export const PROCESSING_TIMEOUT_ERROR_CODE = 'PROCESSING_TIMEOUT';
+
+/**
+ * 后处理状态推送连接
+ * 与浏览器EventSource的子集兼容，便于在小程序或测试中替换
+ */
+export interface ProcessingEventSource {
+  onmessage: ((event: { data: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  close(): void;
+}
+
+/**
+ * 后处理状态跟踪选项
+ */
+export interface ProcessingTrackerOptions {
+  /**
+   * 初始轮询间隔(毫秒)，默认1000
+   */
+  pollInterval?: number;
+
+  /**
+   * 最大轮询间隔(毫秒)，默认30000
+   */
+  maxPollInterval?: number;
+
+  /**
+   * 状态未变化时轮询间隔的增长倍数，默认2
+   */
+  backoffFactor?: number;
+
+  /**
+   * 连续轮询失败的最大次数，超过后放弃跟踪，默认5
+   */
+  maxPollErrors?: number;
+
+  /**
+   * 等待后处理完成的最长时间(毫秒)，默认不限制
+   */
+  timeout?: number;
+
+  /**
+   * 创建状态推送连接，默认使用全局EventSource；返回null或不可用时使用轮询
+   * 注意EventSource无法携带自定义请求头，需要鉴权的服务端应通过URL传递凭证
+   */
+  createEventSource?: (url: string) => ProcessingEventSource | null;
+}
+
+/**
+ * 服务端状态别名
+ */
+const READY_STATES = ['ready', 'completed', 'complete', 'done', 'success', 'succeeded'];
+const REJECTED_STATES = ['rejected', 'failed', 'error', 'infected', 'invalid'];
+
+/**
+ * 服务端后处理状态跟踪器
+ *
+ * 合并完成后服务端可能还需要转码、病毒扫描或生成缩略图。
+ * 跟踪器优先通过Server-Sent Events接收状态推送，连接不可用或中断时
+ * 回退到轮询状态接口；状态未变化时按倍数延长轮询间隔，变化后恢复初始间隔。
+ */
+export class ProcessingTracker {
+  private options: Required<Omit<ProcessingTrackerOptions, 'timeout' | 'createEventSource'>> &
+    Pick<ProcessingTrackerOptions, 'timeout' | 'createEventSource'>;
+
+  constructor(options: ProcessingTrackerOptions = {}) {
+    this.options = {
+      pollInterval: 1000,
+      maxPollInterval: 30000,
+      backoffFactor: 2,
+      maxPollErrors: 5,
+      ...options
+    };
+  }
+
+  /**
+   * 跟踪后处理任务直到完成或被拒绝
+   * @param job 后处理任务引用
+   * @param context 协议上下文，轮询请求经过请求/响应拦截器
+   * @param onUpdate 状态更新回调
+   * @param signal 中止信号，中止后以中止原因结束
+   * @returns 最终状态（ready或rejected）
+   */
+  async track(
+    job: ProcessingJobRef,
+    context: ProtocolContext,
+    onUpdate: (status: ProcessingStatus) => void,
+    signal?: AbortSignal
+  ): Promise<ProcessingStatus> {
+    if (!job.eventsUrl && !job.statusUrl) {
+      throw new Error(`后处理任务缺少状态地址: ${job.id}`);
+    }
+
+    // 内部中止控制器：超时、外部中止和完成时统一结束推送连接与轮询
+    const controller = new AbortController();
+    const abortFromOuter = () => controller.abort();
+    signal?.addEventListener('abort', abortFromOuter);
+
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let timedOut = false;
+    if (this.options.timeout) {
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.options.timeout);
+    }
+
+    let lastStatus: ProcessingStatus | null = null;
+    const update = (status: ProcessingStatus): boolean => {
+      const changed = !lastStatus || !this.isSameStatus(lastStatus, status);
+      lastStatus = status;
+      if (changed) {
+        onUpdate(status);
+      }
+      return changed;
+    };
+
+    try {
+      if (job.eventsUrl) {
+        const result = await this.listen(job.eventsUrl, controller.signal, update);
+        if (result) {
+          return result;
+        }
+      }
+
+      if (!job.statusUrl) {
+        throw new Error(`后处理状态推送中断且没有轮询地址: ${job.id}`);
+      }
+
+      return await this.poll(job.statusUrl, context, controller.signal, update);
+    } catch (error) {
+      if (timedOut) {
+        const timeoutError = new Error(`等待后处理超时: ${job.id}`);
+        (timeoutError as any).code = PROCESSING_TIMEOUT_ERROR_CODE;
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromOuter);
+      controller.abort();
+    }
+  }
+
+  /**
+   * 通过Server-Sent Events接收状态
+   * @returns 最终状态；推送不可用或连接中断时返回null，由调用方回退到轮询
+   */
+  private listen(
+    url: string,
+    signal: AbortSignal,
+    update: (status: ProcessingStatus) => boolean
+  ): Promise<ProcessingStatus | null> {
+    const source = this.createEventSource(url);
+    if (!source) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve, reject) => {
+      const finish = (callback: () => void) => {
+        source.onmessage = null;
+        source.onerror = null;
+        source.close();
+        signal.removeEventListener('abort', onAbort);
+        callback();
+      };
+
+      const onAbort = () => finish(() => reject(this.createAbortError()));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+
+      source.onmessage = event => {
+        let payload: any;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          // 忽略无法解析的推送（如心跳）
+          return;
+        }
+
+        const status = this.normalizeStatus(payload);
+        update(status);
+
+        if (status.state !== 'processing') {
+          finish(() => resolve(status));
+        }
+      };
+
+      source.onerror = () => {
+        finish(() => resolve(null));
+      };
+    });
+  }
+
+  /**
+   * 轮询状态接口
+   */
+  private async poll(
+    url: string,
+    context: ProtocolContext,
+    signal: AbortSignal,
+    update: (status: ProcessingStatus) => boolean
+  ): Promise<ProcessingStatus> {
+    const { pollInterval, maxPollInterval, backoffFactor, maxPollErrors } = this.options;
+    let interval = pollInterval;
+    let errors = 0;
+
+    for (;;) {
+      if (signal.aborted) {
+        throw this.createAbortError();
+      }
+
+      let changed = false;
+      try {
+        const response = await context.request({
+          url,
+          method: 'GET',
+          headers: { ...context.headers },
+          timeout: context.timeout,
+          signal
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`查询后处理状态失败: HTTP ${response.status}`);
+        }
+
+        errors = 0;
+        const status = this.normalizeStatus(response.data);
+        changed = update(status);
+
+        if (status.state !== 'processing') {
+          return status;
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          throw this.createAbortError();
+        }
+
+        errors++;
+        if (errors > maxPollErrors) {
+          throw error;
+        }
+      }
+
+      // 状态变化时恢复初始间隔，否则指数退避
+      interval = changed ? pollInterval : Math.min(interval * backoffFactor, maxPollInterval);
+      await this.delay(interval, signal);
+    }
+  }
+
+  /**
+   * 将服务端响应转换为统一的后处理状态
+   */
+  private normalizeStatus(data: any): ProcessingStatus {
+    const raw = String(data?.state ?? data?.status ?? '').toLowerCase();
+
+    let state: ProcessingStatus['state'] = 'processing';
+    if (READY_STATES.includes(raw)) {
+      state = 'ready';
+    } else if (REJECTED_STATES.includes(raw)) {
+      state = 'rejected';
+    }
+
+    const progress = Number(data?.progress);
+
+    return {
+      state,
+      stage: data?.stage,
+      progress: Number.isFinite(progress) ? Math.max(0, Math.min(100, progress)) : undefined,
+      url: data?.url,
+      reason: data?.reason ?? data?.message,
+      data
+    };
+  }
+
+  private isSameStatus(a: ProcessingStatus, b: ProcessingStatus): boolean {
+    return a.state === b.state && a.stage === b.stage && a.progress === b.progress;
+  }
+
+  private createEventSource(url: string): ProcessingEventSource | null {
+    if (this.options.createEventSource) {
+      return this.options.createEventSource(url);
+    }
+
+    if (typeof EventSource === 'undefined') {
+      return null;
+    }
+
+    return new EventSource(url) as unknown as ProcessingEventSource;
+  }
+
+  private createAbortError(): Error {
+    const error = new Error('后处理状态跟踪已中止');
+    error.name = 'AbortError';
+    return error;
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createAbortError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort);
+    });
+  }
+}
@@ -74,7 +74,8 @@ export class BrowserAdapter extends PlatformAdapter {
       };
 
       if (data) {
-        if (data instanceof FormData) {
+        if (data instanceof FormData || data instanceof Blob || data instanceof ArrayBuffer) {
+          // 二进制数据原样发送，如tus的PATCH请求体
           fetchOptions.body = data;
         } else if (typeof data === 'object') {
           fetchOptions.headers = {
@@ -100,14 +101,33 @@ export class BrowserAdapter extends PlatformAdapter {
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`请求失败 (${response.status}): ${errorText}`);
+        const error = new Error(`请求失败 (${response.status}): ${errorText}`);
+        (error as any).status = response.status;
+        throw error;
       }
 
-      try {
-        return await response.json();
-      } catch (_e) {
-        return await response.text();
+      let body: any;
+      if (options.responseType === 'arraybuffer') {
+        body = await response.arrayBuffer();
+      } else {
+        const text = await response.text();
+        body = text;
+        try {
+          body = text && options.responseType !== 'text' ? JSON.parse(text) : text;
+        } catch (_e) {
+          // 非JSON响应，保留原始文本
+        }
+      }
+
+      if (options.fullResponse) {
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          headers[key.toLowerCase()] = value;
+        });
+        return { status: response.status, headers, data: body };
       }
+
+      return body;
     } catch (error) {
       throw this.handleError(error as Error, { url, method, data, options });
     }
@@ -164,14 +184,20 @@ export class BrowserAdapter extends PlatformAdapter {
           } catch (_e) {
             response = xhr.responseText;
           }
-          resolve(response);
+
+          if (options.fullResponse) {
+            resolve({
+              status: xhr.status,
+              headers: this.parseResponseHeaders(xhr.getAllResponseHeaders()),
+              data: response
+            });
+          } else {
+            resolve(response);
+          }
         } else {
-          reject(
-            this.handleError(new Error(`请求失败 (${xhr.status}): ${xhr.responseText}`), {
-              url,
-              status: xhr.status
-            })
-          );
+          const error = new Error(`请求失败 (${xhr.status}): ${xhr.responseText}`);
+          (error as any).status = xhr.status;
+          reject(this.handleError(error, { url, status: xhr.status }));
         }
       });
 
@@ -198,6 +224,26 @@ export class BrowserAdapter extends PlatformAdapter {
     });
   }
 
+  /**
+   * 解析XHR响应头字符串
+   * @param raw getAllResponseHeaders返回的字符串
+   */
+  private parseResponseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    raw
+      .trim()
+      .split(/[\r\n]+/)
+      .forEach(line => {
+        const index = line.indexOf(':');
+        if (index > 0) {
+          headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        }
+      });
+
+    return headers;
+  }
+
   /**
    * 读取文件数据
    * @param file 文件对象
@@ -298,6 +344,11 @@ export class BrowserAdapter extends PlatformAdapter {
       chunkedUpload: typeof Blob !== 'undefined' && typeof Blob.prototype.slice !== 'undefined',
       webWorker: typeof Worker !== 'undefined',
       indexedDB: typeof indexedDB !== 'undefined',
+      opfs:
+        typeof Worker !== 'undefined' &&
+        typeof navigator.storage?.getDirectory === 'function' &&
+        typeof FileSystemFileHandle !== 'undefined' &&
+        'createSyncAccessHandle' in FileSystemFileHandle.prototype,
       webCrypto: typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined',
       streams: typeof ReadableStream !== 'undefined',
       dragAndDrop:
@@ -12,6 +12,7 @@ export class BrowserFeaturesDetector {
       chunkedUpload: BrowserFeaturesDetector.detectChunkedUpload(),
       webWorker: BrowserFeaturesDetector.detectWebWorker(),
       indexedDB: BrowserFeaturesDetector.detectIndexedDB(),
+      opfs: BrowserFeaturesDetector.detectOPFS(),
       webCrypto: BrowserFeaturesDetector.detectWebCrypto(),
       streams: BrowserFeaturesDetector.detectStreams(),
       dragAndDrop: BrowserFeaturesDetector.detectDragAndDrop(),
@@ -42,6 +43,19 @@ export class BrowserFeaturesDetector {
     return typeof indexedDB !== 'undefined';
   }
 
+  /**
+   * 检测是否支持OPFS同步访问句柄
+   * 同步访问句柄只能在Worker中使用，因此同时要求支持Web Worker
+   */
+  private static detectOPFS(): boolean {
+    return (
+      BrowserFeaturesDetector.detectWebWorker() &&
+      typeof navigator.storage?.getDirectory === 'function' &&
+      typeof FileSystemFileHandle !== 'undefined' &&
+      'createSyncAccessHandle' in FileSystemFileHandle.prototype
+    );
+  }
+
   /**
    * 检测是否支持Web Crypto API
    */
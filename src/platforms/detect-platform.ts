@@ -0,0 +1,61 @@
+import { PlatformAdapter } from './platform-base';
+import { BrowserAdapter } from './browser/browser-adapter';
+import { WechatAdapter } from './miniapp/wechat-adapter';
+import { TaroAdapter } from './miniapp/taro-adapter';
+import { UniAppAdapter } from './miniapp/uniapp-adapter';
+
+/**
+ * 可自动创建的平台名称
+ * React Native适配器需要原生模块，Node.js适配器需要单独引入，均由调用方创建后传入
+ */
+export type PlatformName = 'browser' | 'wechat' | 'taro' | 'uniapp';
+
+/**
+ * 创建平台适配器
+ * 指定平台名称时创建对应适配器，否则按运行环境检测。
+ * Taro和UniApp的小程序环境同样存在wx，H5环境同样存在window，需先于微信和浏览器检测
+ * @param name 平台名称
+ */
+export function detectPlatform(name?: PlatformName | string): PlatformAdapter {
+  if (name) {
+    switch (name.toLowerCase()) {
+      case 'browser':
+        return new BrowserAdapter();
+      case 'wechat':
+        return new WechatAdapter();
+      case 'taro':
+        return new TaroAdapter();
+      case 'uniapp':
+        return new UniAppAdapter();
+      default:
+        throw new Error(`不支持的平台: ${name}`);
+    }
+  }
+
+  // Taro环境检测
+  if (typeof process !== 'undefined' && process.env && process.env.TARO_ENV) {
+    return new TaroAdapter();
+  }
+
+  // UniApp环境检测
+  if (typeof (globalThis as any).uni !== 'undefined') {
+    return new UniAppAdapter();
+  }
+
+  if (typeof wx !== 'undefined' && typeof wx.uploadFile === 'function') {
+    return new WechatAdapter();
+  }
+
+  if (typeof window !== 'undefined') {
+    return new BrowserAdapter();
+  }
+
+  // Node.js适配器不随平台入口打包，避免浏览器构建引入fs和http模块
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    throw new Error(
+      '未检测到支持的运行环境，Node.js环境请从 filechunk-pro/platforms/node 引入NodeAdapter并通过platform选项传入'
+    );
+  }
+
+  throw new Error('未检测到支持的运行环境');
+}
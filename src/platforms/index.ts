@@ -2,4 +2,17 @@
  * 平台适配导出
  */
 
-// 后续添加平台适配导出
+// 导出适配器基类和分片类型
+export * from './platform-base';
+
+// 导出平台检测
+export * from './detect-platform';
+
+// 导出各平台适配器
+export { BrowserAdapter } from './browser/browser-adapter';
+export { WechatAdapter } from './miniapp/wechat-adapter';
+export { TaroAdapter } from './miniapp/taro-adapter';
+export { UniAppAdapter } from './miniapp/uniapp-adapter';
+
+// React Native适配器依赖react-native，通过 'filechunk-pro/platforms/native' 单独引入
+// Node.js适配器依赖fs和http模块，通过 'filechunk-pro/platforms/node' 单独引入
@@ -1,4 +1,10 @@
-import { PlatformAdapter, FileChunk, PlatformFeatures, RequestOptions } from '../platform-base';
+import {
+  ChunkByteRange,
+  PlatformAdapter,
+  FileChunk,
+  PlatformFeatures,
+  RequestOptions
+} from '../platform-base';
 
 // 定义Taro类型，以避免导入错误
 interface TaroStatic {
@@ -220,6 +226,7 @@ export class TaroAdapter extends PlatformAdapter {
       chunkedUpload: true,
       webWorker: false,
       indexedDB: false,
+      opfs: false,
       webCrypto: false,
       streams: false,
       dragAndDrop: false,
@@ -245,6 +252,28 @@ export class TaroAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * 按字节范围创建文件分片
+   * H5环境切分File对象，其他环境使用文件路径
+   * @param file 文件对象
+   * @param ranges 分片字节范围
+   */
+  public createRangeChunks(file: any, ranges: ChunkByteRange[]): FileChunk[] {
+    if (this.env.isH5) {
+      return super.createRangeChunks(file, ranges) as FileChunk[];
+    }
+
+    const filePath = file.path;
+    return ranges.map(({ index, start, end }) => ({
+      index,
+      data: null,
+      start,
+      end,
+      size: end - start,
+      path: filePath
+    }));
+  }
+
   /**
    * H5环境创建文件分片
    */
@@ -363,14 +392,32 @@ export class TaroAdapter extends PlatformAdapter {
         const response = await fetch(url, fetchOptions);
 
         if (!response.ok) {
-          throw new Error(`请求失败 (${response.status}): ${response.statusText}`);
+          const error = new Error(`请求失败 (${response.status}): ${response.statusText}`);
+          (error as any).status = response.status;
+          throw error;
         }
 
-        try {
-          return await response.json();
-        } catch {
-          return await response.text();
+        let body: any;
+        if (options.responseType === 'arraybuffer') {
+          body = await response.arrayBuffer();
+        } else {
+          const text = await response.text();
+          try {
+            body = text ? JSON.parse(text) : text;
+          } catch {
+            body = text;
+          }
+        }
+
+        if (options.fullResponse) {
+          const header: Record<string, string> = {};
+          response.headers.forEach((value, key) => {
+            header[key.toLowerCase()] = value;
+          });
+          return { status: response.status, headers: header, data: body };
         }
+
+        return body;
       } else {
         // 小程序环境使用Taro.request
         return new Promise((resolve, reject) => {
@@ -380,11 +427,22 @@ export class TaroAdapter extends PlatformAdapter {
             data,
             header: headers,
             timeout,
+            responseType: options.responseType === 'arraybuffer' ? 'arraybuffer' : undefined,
             success: (res: any) => {
               if (res.statusCode >= 200 && res.statusCode < 300) {
-                resolve(res.data);
+                if (options.fullResponse) {
+                  const header: Record<string, string> = {};
+                  Object.keys(res.header || {}).forEach(key => {
+                    header[key.toLowerCase()] = String(res.header[key]);
+                  });
+                  resolve({ status: res.statusCode, headers: header, data: res.data });
+                } else {
+                  resolve(res.data);
+                }
               } else {
-                reject(new Error(`请求失败 (${res.statusCode})`));
+                const error = new Error(`请求失败 (${res.statusCode})`);
+                (error as any).status = res.statusCode;
+                reject(error);
               }
             },
             fail: (error: any) => {
@@ -576,6 +634,41 @@ export class TaroAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * 在文件指定位置写入数据，文件不存在时创建
+   * @param filePath 文件路径
+   * @param data 数据
+   * @param position 写入位置(字节)
+   */
+  public async writeFile(filePath: string, data: ArrayBuffer, position = 0): Promise<void> {
+    if (!this.fs) {
+      return super.writeFile(filePath, data, position);
+    }
+
+    const call = <T>(method: string, options: Record<string, any>) =>
+      new Promise<T>((resolve, reject) => {
+        this.fs[method]({
+          ...options,
+          success: (res: T) => resolve(res),
+          fail: (err: { errMsg?: string }) =>
+            reject(
+              this.handleError(new Error(err.errMsg || '写入文件失败'), { filePath, position })
+            )
+        });
+      });
+
+    // r+不会截断已写入的分片，文件不存在时以w+创建
+    const { fd } = await call<{ fd: string }>('open', { filePath, flag: 'r+' }).catch(() =>
+      call<{ fd: string }>('open', { filePath, flag: 'w+' })
+    );
+
+    try {
+      await call('write', { fd, data, position });
+    } finally {
+      await call('close', { fd });
+    }
+  }
+
   /**
    * 读取文件数据
    * @param file 文件对象或路径
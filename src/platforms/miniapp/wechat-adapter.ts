@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 // @ts-nocheck
-import { PlatformAdapter } from '../platform-base';
+import { ChunkByteRange, PlatformAdapter } from '../platform-base';
 import { FileChunk, FileInfo, RequestOptions, SelectFileOptions } from '../../types';
 
 /**
@@ -58,6 +58,22 @@ export class WechatAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * 按字节范围创建文件分片
+   * @param file 文件路径
+   * @param ranges 分片字节范围
+   */
+  public createRangeChunks(file: string, ranges: ChunkByteRange[]): FileChunk[] {
+    return ranges.map(({ index, start, end }) => ({
+      index,
+      data: null,
+      start,
+      end,
+      size: end - start,
+      path: file
+    }));
+  }
+
   /**
    * 发送网络请求
    * @param url 请求地址
@@ -90,12 +106,23 @@ export class WechatAdapter extends PlatformAdapter {
           data,
           header: options.headers,
           timeout: options.timeout,
+          responseType: options.responseType === 'arraybuffer' ? 'arraybuffer' : undefined,
           success: res => {
             if (res.statusCode >= 200 && res.statusCode < 300) {
-              resolve(res.data);
+              if (options.fullResponse) {
+                const headers: Record<string, string> = {};
+                Object.keys(res.header || {}).forEach(key => {
+                  headers[key.toLowerCase()] = String((res.header as any)[key]);
+                });
+                resolve({ status: res.statusCode, headers, data: res.data });
+              } else {
+                resolve(res.data);
+              }
             } else {
+              const error = new Error(`请求失败 (${res.statusCode})`);
+              (error as any).status = res.statusCode;
               reject(
-                this.handleError(new Error(`请求失败 (${res.statusCode})`), {
+                this.handleError(error, {
                   url,
                   statusCode: res.statusCode
                 })
@@ -322,6 +349,37 @@ export class WechatAdapter extends PlatformAdapter {
     });
   }
 
+  /**
+   * 在文件指定位置写入数据，文件不存在时创建
+   * @param filePath 文件路径
+   * @param data 数据
+   * @param position 写入位置(字节)
+   */
+  public async writeFile(filePath: string, data: ArrayBuffer, position = 0): Promise<void> {
+    const fs = wx.getFileSystemManager();
+
+    const call = <T>(method: 'open' | 'write' | 'close', options: Record<string, any>) =>
+      new Promise<T>((resolve, reject) => {
+        (fs[method] as (options: any) => void)({
+          ...options,
+          success: (res: T) => resolve(res),
+          fail: (err: { errMsg: string }) =>
+            reject(this.handleError(new Error(err.errMsg), { filePath, position }))
+        });
+      });
+
+    // r+不会截断已写入的分片，文件不存在时以w+创建
+    const { fd } = await call<{ fd: string }>('open', { filePath, flag: 'r+' }).catch(() =>
+      call<{ fd: string }>('open', { filePath, flag: 'w+' })
+    );
+
+    try {
+      await call('write', { fd, data, position });
+    } finally {
+      await call('close', { fd });
+    }
+  }
+
   /**
    * 优化内存使用 - 为分片创建临时文件
    * @param chunk 分片对象
@@ -353,6 +411,7 @@ export class WechatAdapter extends PlatformAdapter {
       chunkedUpload: true, // 通过文件系统API实现
       webWorker: false, // 小程序不支持
       indexedDB: false, // 小程序不支持
+      opfs: false, // 小程序不支持
       webCrypto: false, // 小程序不支持
       streams: false, // 小程序不支持
       dragAndDrop: false, // 小程序不支持
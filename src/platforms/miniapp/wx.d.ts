@@ -36,7 +36,13 @@ declare namespace WechatMiniprogram {
     data?: any;
     header?: Record<string, string>;
     timeout?: number;
-    success?: (res: { data: any; statusCode: number; errMsg: string }) => void;
+    responseType?: 'text' | 'arraybuffer';
+    success?: (res: {
+      data: any;
+      statusCode: number;
+      header?: Record<string, string>;
+      errMsg: string;
+    }) => void;
     fail?: (res: { errMsg: string }) => void;
     complete?: () => void;
   }
@@ -61,6 +67,27 @@ declare namespace WechatMiniprogram {
       fail?: (res: { errMsg: string }) => void;
     }): void;
 
+    open(options: {
+      filePath: string;
+      flag?: string;
+      success?: (res: { fd: string }) => void;
+      fail?: (res: { errMsg: string }) => void;
+    }): void;
+
+    write(options: {
+      fd: string;
+      data: ArrayBuffer;
+      position?: number;
+      success?: (res: { bytesWritten: number }) => void;
+      fail?: (res: { errMsg: string }) => void;
+    }): void;
+
+    close(options: {
+      fd: string;
+      success?: () => void;
+      fail?: (res: { errMsg: string }) => void;
+    }): void;
+
     stat(options: {
       path: string;
       success?: (res: { stats: FileStats } | { stat: FileStats }) => void;
@@ -48,7 +48,7 @@ try {
   console.warn('React Native未安装，ReactNativeAdapter将无法正常工作');
 }
 
-import { PlatformAdapter, FileChunk, RequestOptions } from '../platform-base';
+import { ChunkByteRange, PlatformAdapter, FileChunk, RequestOptions } from '../platform-base';
 import { Kernel } from '../../core/kernel';
 /*
  * 注意：针对React Native的特殊性，我们采用条件导入方式实现其功能
@@ -200,6 +200,39 @@ export class ReactNativeAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * 按字节范围创建文件分片
+   * @param file 文件对象
+   * @param ranges 分片字节范围
+   */
+  public async createRangeChunks(file: any, ranges: ChunkByteRange[]): Promise<FileChunk[]> {
+    try {
+      if (!file || !file.uri) {
+        throw new Error('无效的文件对象');
+      }
+
+      const fileInfo = await this.getFileInfo(file);
+
+      return ranges.map(({ index, start, end }) => ({
+        index,
+        data: {
+          uri: file.uri,
+          start,
+          end,
+          name: fileInfo.name
+        },
+        start,
+        end,
+        size: end - start
+      }));
+    } catch (error) {
+      throw this.handleError(error as Error, {
+        operation: 'createRangeChunks',
+        file
+      });
+    }
+  }
+
   /**
    * 发送网络请求
    * @param url 请求地址
@@ -228,7 +261,9 @@ export class ReactNativeAdapter extends PlatformAdapter {
         method,
         headers: options.headers || {},
         timeout: options.timeout || 30000,
-        body: data
+        body: data,
+        responseType: options.responseType,
+        fullResponse: options.fullResponse
       };
 
       // 注册进度回调
@@ -364,6 +399,39 @@ export class ReactNativeAdapter extends PlatformAdapter {
     }
   }
 
+  /**
+   * 在文件指定位置写入数据，文件不存在时创建
+   * 需要原生模块提供writeFile({ path, position, base64 })
+   * @param filePath 文件路径
+   * @param data 数据
+   * @param position 写入位置(字节)
+   */
+  public async writeFile(filePath: string, data: ArrayBuffer, position = 0): Promise<void> {
+    try {
+      if (!this.nativeUploadModule || !this.nativeUploadModule.writeFile) {
+        throw new Error('原生文件写入功能不可用');
+      }
+
+      const bytes = new Uint8Array(data);
+      let binary = '';
+      for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+      }
+
+      await this.nativeUploadModule.writeFile({
+        path: filePath,
+        position,
+        base64: globalThis.btoa(binary)
+      });
+    } catch (error) {
+      throw this.handleError(error as Error, {
+        operation: 'writeFile',
+        filePath,
+        position
+      });
+    }
+  }
+
   /**
    * 获取文件信息
    * @param file 文件对象
@@ -664,16 +732,33 @@ export class ReactNativeAdapter extends PlatformAdapter {
 
     // 解析响应
     if (!response.ok) {
-      throw new Error(`请求失败: ${response.status} ${response.statusText}`);
+      const error = new Error(`请求失败: ${response.status} ${response.statusText}`);
+      error.status = response.status;
+      throw error;
     }
 
-    // 尝试解析为JSON
-    try {
-      return await response.json();
-    } catch {
-      // 如果不是JSON，返回文本
-      return await response.text();
+    let body: any;
+    if (config.responseType === 'arraybuffer') {
+      body = await response.arrayBuffer();
+    } else {
+      // 尝试解析为JSON，如果不是JSON，返回文本
+      const text = await response.text();
+      try {
+        body = text ? JSON.parse(text) : text;
+      } catch {
+        body = text;
+      }
     }
+
+    if (config.fullResponse) {
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+      return { status: response.status, headers, data: body };
+    }
+
+    return body;
   }
 
   /**
@@ -687,6 +772,7 @@ export class ReactNativeAdapter extends PlatformAdapter {
       chunkedUpload: hasNativeModule && !!this.nativeUploadModule.uploadChunk,
       webWorker: false, // RN不支持WebWorker
       indexedDB: false, // RN不支持IndexedDB
+      opfs: false, // RN不支持OPFS
       webCrypto: typeof globalThis.crypto !== 'undefined' && !!globalThis.crypto.subtle,
       streams: false, // RN不支持Streams API
       dragAndDrop: false, // RN不支持拖放
@@ -0,0 +1,11 @@
+/**
+ * Node.js平台入口
+ * 用于命令行工具和服务端之间的传输，包含Node.js适配器和文件系统存储引擎
+ */
+
+export * from './node-adapter';
+export {
+  FileSystemStorage,
+  type FileSystemStorageOptions,
+  STORAGE_LOCK_TIMEOUT_ERROR_CODE
+} from '../../modules/storage/file-system-storage';
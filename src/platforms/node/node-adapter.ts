@@ -0,0 +1,453 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { ChunkByteRange, FileChunk, PlatformAdapter, RequestOptions } from '../platform-base';
+import { FileInfo } from '../../types';
+import { StorageEngine } from '../../modules/storage/storage-engine';
+import {
+  FileSystemStorage,
+  FileSystemStorageOptions
+} from '../../modules/storage/file-system-storage';
+
+/**
+ * 报告上传进度时每次写入请求的字节数
+ */
+const PROGRESS_SLICE_SIZE = 64 * 1024;
+
+/**
+ * Node.js平台配置
+ */
+export interface NodeAdapterConfig {
+  /** 最大并发请求数，同时作为每个主机的最大连接数，默认6 */
+  maxConcurrentRequests?: number;
+  /** 是否复用连接，默认true */
+  keepAlive?: boolean;
+  /** 默认存储引擎的配置，false表示不持久化上传状态 */
+  storage?: FileSystemStorageOptions | false;
+}
+
+/**
+ * Node.js平台适配器
+ * 用于命令行工具和服务端之间的传输。文件以路径或Blob表示，
+ * 路径通过fs.openAsBlob打开，分片按需从磁盘读取，不会整体读入内存；
+ * 网络请求通过http/https模块发送。需要Node.js 20及以上版本
+ */
+export class NodeAdapter extends PlatformAdapter {
+  /** Node.js配置 */
+  private config: Required<Omit<NodeAdapterConfig, 'storage'>> & Pick<NodeAdapterConfig, 'storage'>;
+  /** HTTP连接池 */
+  private httpAgent: http.Agent;
+  /** HTTPS连接池 */
+  private httpsAgent: https.Agent;
+
+  /**
+   * 构造函数
+   * @param config Node.js平台配置
+   */
+  constructor(config: NodeAdapterConfig = {}) {
+    super('node');
+
+    this.config = {
+      maxConcurrentRequests: 6,
+      keepAlive: true,
+      ...config
+    };
+
+    const agentOptions = {
+      keepAlive: this.config.keepAlive,
+      maxSockets: this.config.maxConcurrentRequests
+    };
+    this.httpAgent = new http.Agent(agentOptions);
+    this.httpsAgent = new https.Agent(agentOptions);
+  }
+
+  /**
+   * 检测当前环境是否为Node.js
+   */
+  public isSupported(): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node;
+  }
+
+  /**
+   * 按路径打开文件，返回可直接上传的File
+   * 文件数据在读取分片时才从磁盘读取，打开后文件被修改时读取失败
+   * @param filePath 文件路径
+   * @param type MIME类型，默认按扩展名推断
+   */
+  public async openFile(filePath: string, type?: string): Promise<File> {
+    try {
+      const mimeType = type ?? this.getMimeTypeByExtension(filePath);
+      const [blob, stats] = await Promise.all([
+        fs.openAsBlob(filePath, { type: mimeType }),
+        fs.promises.stat(filePath)
+      ]);
+
+      return new File([blob as unknown as Blob], path.basename(filePath), {
+        type: mimeType,
+        lastModified: stats.mtimeMs
+      });
+    } catch (error) {
+      throw this.handleError(error as Error, { filePath });
+    }
+  }
+
+  /**
+   * 创建文件分片
+   * @param file 文件路径或Blob
+   * @param chunkSize 分片大小(字节)
+   */
+  public async createChunks(file: string | Blob, chunkSize: number): Promise<FileChunk[]> {
+    const blob = await this.toBlob(file);
+    const chunks: FileChunk[] = [];
+
+    for (let start = 0, index = 0; start < blob.size; index++) {
+      const end = Math.min(start + chunkSize, blob.size);
+      chunks.push({ index, data: blob.slice(start, end), start, end, size: end - start });
+      start = end;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 按字节范围创建文件分片
+   * @param file 文件路径或Blob
+   * @param ranges 分片字节范围
+   */
+  public override async createRangeChunks(
+    file: string | Blob,
+    ranges: ChunkByteRange[]
+  ): Promise<FileChunk[]> {
+    return super.createRangeChunks(await this.toBlob(file), ranges);
+  }
+
+  /**
+   * 发送网络请求
+   * @param url 请求地址，需为绝对地址
+   * @param method 请求方法
+   * @param data 请求数据
+   * @param options 请求选项
+   */
+  public async request(
+    url: string,
+    method: string,
+    data?: any,
+    options: RequestOptions = {}
+  ): Promise<any> {
+    try {
+      const headers: Record<string, string> = { ...(options.headers || {}) };
+      const body = await this.encodeBody(data, headers);
+      const response = await this.send(new URL(url), method, headers, body, options);
+
+      if (response.status < 200 || response.status >= 300) {
+        const error = new Error(`请求失败 (${response.status}): ${response.body.toString()}`);
+        (error as any).status = response.status;
+        throw error;
+      }
+
+      let responseData: any;
+      if (options.responseType === 'arraybuffer') {
+        responseData = response.body.buffer.slice(
+          response.body.byteOffset,
+          response.body.byteOffset + response.body.byteLength
+        );
+      } else {
+        const text = response.body.toString('utf8');
+        responseData = text;
+        try {
+          responseData = text && options.responseType !== 'text' ? JSON.parse(text) : text;
+        } catch {
+          // 非JSON响应，保留原始文本
+        }
+      }
+
+      if (options.fullResponse) {
+        return { status: response.status, headers: response.headers, data: responseData };
+      }
+
+      return responseData;
+    } catch (error) {
+      throw this.handleError(error as Error, { url, method, options });
+    }
+  }
+
+  /**
+   * 读取文件数据
+   * @param file 文件路径或Blob
+   * @param start 起始位置
+   * @param end 结束位置，默认文件末尾
+   */
+  public async readFile(file: string | Blob, start = 0, end?: number): Promise<ArrayBuffer> {
+    try {
+      if (typeof file !== 'string') {
+        return await file.slice(start, end).arrayBuffer();
+      }
+
+      const handle = await fs.promises.open(file, 'r');
+      try {
+        const { size } = await handle.stat();
+        const length = Math.max(0, Math.min(end ?? size, size) - start);
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, start);
+
+        return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw this.handleError(error as Error, { file, start, end });
+    }
+  }
+
+  /**
+   * 获取文件信息
+   * @param file 文件路径或File
+   */
+  public async getFileInfo(file: string | File): Promise<FileInfo> {
+    try {
+      if (typeof file !== 'string') {
+        return {
+          name: file.name,
+          size: file.size,
+          type: file.type || this.getMimeTypeByExtension(file.name),
+          lastModified: file.lastModified || Date.now()
+        };
+      }
+
+      const stats = await fs.promises.stat(file);
+      if (!stats.isFile()) {
+        throw new Error(`不是文件: ${file}`);
+      }
+
+      return {
+        name: path.basename(file),
+        size: stats.size,
+        type: this.getMimeTypeByExtension(file),
+        lastModified: stats.mtimeMs
+      };
+    } catch (error) {
+      throw this.handleError(error as Error, { file });
+    }
+  }
+
+  /**
+   * 选择文件
+   * Node.js环境没有文件选择界面，需通过openFile按路径打开文件
+   */
+  public async selectFile(): Promise<File[]> {
+    throw this.handleError(new Error('Node.js环境不支持选择文件，请使用openFile按路径打开'));
+  }
+
+  /**
+   * 在文件指定位置写入数据，文件不存在时创建
+   * @param filePath 文件路径
+   * @param data 数据
+   * @param position 写入位置(字节)
+   */
+  public override async writeFile(
+    filePath: string,
+    data: ArrayBuffer,
+    position = 0
+  ): Promise<void> {
+    try {
+      // 不截断已写入的分片
+      const handle = await fs.promises.open(filePath, fs.constants.O_RDWR | fs.constants.O_CREAT);
+      try {
+        await handle.write(new Uint8Array(data), 0, data.byteLength, position);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw this.handleError(error as Error, { filePath, position });
+    }
+  }
+
+  /**
+   * 创建默认的文件系统存储引擎
+   */
+  public override createStorage(): StorageEngine | null {
+    return this.config.storage === false ? null : new FileSystemStorage(this.config.storage);
+  }
+
+  /**
+   * 关闭连接池中的空闲连接
+   */
+  public destroy(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+  }
+
+  /**
+   * 检测Node.js特性
+   */
+  protected detectFeatures(): void {
+    this.features = {
+      chunkedUpload: typeof Blob !== 'undefined',
+      webWorker: false,
+      indexedDB: false,
+      opfs: false,
+      webCrypto: typeof globalThis.crypto?.subtle !== 'undefined',
+      streams: typeof ReadableStream !== 'undefined',
+      dragAndDrop: false,
+      folderUpload: false,
+      maxConcurrentRequests: this.config.maxConcurrentRequests,
+      maxFileSize: Number.MAX_SAFE_INTEGER
+    };
+
+    this.eventBus.emit('featuresDetected', this.features);
+  }
+
+  /**
+   * 将文件路径打开为Blob
+   */
+  private async toBlob(file: string | Blob): Promise<Blob> {
+    if (typeof file !== 'string') return file;
+
+    try {
+      return (await fs.openAsBlob(file)) as unknown as Blob;
+    } catch (error) {
+      throw this.handleError(error as Error, { file });
+    }
+  }
+
+  /**
+   * 编码请求体
+   * FormData和Blob由Response编码，multipart/form-data的boundary随Content-Type一起设置
+   * @param data 请求数据
+   * @param headers 请求头，按需补充Content-Type
+   */
+  private async encodeBody(data: any, headers: Record<string, string>): Promise<Buffer | null> {
+    if (data === undefined || data === null) return null;
+
+    const setContentType = (type: string | null) => {
+      const exists = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+      if (type && !exists) headers['Content-Type'] = type;
+    };
+
+    if (Buffer.isBuffer(data)) return data;
+    if (data instanceof ArrayBuffer) return Buffer.from(data);
+    if (ArrayBuffer.isView(data)) return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+    if (data instanceof FormData || data instanceof Blob) {
+      const response = new Response(data);
+      setContentType(response.headers.get('content-type'));
+      return Buffer.from(await response.arrayBuffer());
+    }
+
+    if (typeof data === 'object') {
+      setContentType('application/json');
+      return Buffer.from(JSON.stringify(data), 'utf8');
+    }
+
+    return Buffer.from(String(data), 'utf8');
+  }
+
+  /**
+   * 发送请求并读取完整响应
+   */
+  private send(
+    target: URL,
+    method: string,
+    headers: Record<string, string>,
+    body: Buffer | null,
+    options: RequestOptions
+  ): Promise<{ status: number; headers: Record<string, string>; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+      const secure = target.protocol === 'https:';
+      const request = (secure ? https : http).request(
+        target,
+        {
+          method,
+          headers: body ? { ...headers, 'Content-Length': String(body.length) } : headers,
+          agent: secure ? this.httpsAgent : this.httpAgent,
+          timeout: options.timeout,
+          signal: options.signal
+        },
+        response => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('error', reject);
+          response.on('end', () => {
+            const responseHeaders: Record<string, string> = {};
+            Object.entries(response.headers).forEach(([key, value]) => {
+              if (value !== undefined) {
+                responseHeaders[key.toLowerCase()] = Array.isArray(value)
+                  ? value.join(', ')
+                  : value;
+              }
+            });
+
+            resolve({
+              status: response.statusCode || 0,
+              headers: responseHeaders,
+              body: Buffer.concat(chunks)
+            });
+          });
+        }
+      );
+
+      request.on('timeout', () => request.destroy(new Error('请求超时')));
+      request.on('error', reject);
+
+      // 提供引用给调用者
+      if (options.taskRef) {
+        options.taskRef(request);
+      }
+
+      if (!body || !options.onProgress) {
+        request.end(body || undefined);
+        return;
+      }
+
+      // 分段写入请求体以报告上传进度
+      const onProgress = options.onProgress;
+      let offset = 0;
+      const writeNext = () => {
+        while (offset < body.length) {
+          const end = Math.min(offset + PROGRESS_SLICE_SIZE, body.length);
+          const flushed = request.write(body.subarray(offset, end));
+          offset = end;
+          onProgress(Math.round((offset / body.length) * 100));
+
+          if (!flushed) {
+            request.once('drain', writeNext);
+            return;
+          }
+        }
+        request.end();
+      };
+      writeNext();
+    });
+  }
+
+  /**
+   * 根据文件扩展名获取MIME类型
+   * @param filename 文件名
+   */
+  private getMimeTypeByExtension(filename: string): string {
+    const ext = path.extname(filename).slice(1).toLowerCase();
+    const mimeTypes: Record<string, string> = {
+      jpg: 'image/jpeg',
+      jpeg: 'image/jpeg',
+      png: 'image/png',
+      gif: 'image/gif',
+      webp: 'image/webp',
+      pdf: 'application/pdf',
+      txt: 'text/plain',
+      html: 'text/html',
+      css: 'text/css',
+      js: 'text/javascript',
+      json: 'application/json',
+      xml: 'application/xml',
+      zip: 'application/zip',
+      gz: 'application/gzip',
+      tar: 'application/x-tar',
+      mp3: 'audio/mpeg',
+      mp4: 'video/mp4',
+      csv: 'text/csv'
+    };
+
+    return mimeTypes[ext] || 'application/octet-stream';
+  }
+}
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import { FileChunkKernel } from '../core/kernel';
+import { StorageEngine } from '../modules/storage/storage-engine';
 
 /**
  * 平台特性描述接口
@@ -11,6 +12,8 @@ export interface PlatformFeatures {
   webWorker: boolean;
   /** 是否支持IndexedDB */
   indexedDB: boolean;
+  /** 是否支持OPFS同步访问句柄(需要Web Worker) */
+  opfs: boolean;
   /** 是否支持Web Crypto API */
   webCrypto: boolean;
   /** 是否支持Streams API */
@@ -39,10 +42,27 @@ export interface RequestOptions {
   onProgress?: (progress: number) => void;
   /** 任务引用回调 */
   taskRef?: (task: any) => void;
+  /** 是否返回包含状态码和响应头的完整响应 */
+  fullResponse?: boolean;
+  /** 响应数据类型，arraybuffer时返回原始二进制数据，默认按JSON解析 */
+  responseType?: 'json' | 'text' | 'arraybuffer';
   /** 其他自定义选项 */
   [key: string]: any;
 }
 
+/**
+ * 完整响应接口
+ * 请求选项fullResponse为true时返回
+ */
+export interface RawResponse<T = any> {
+  /** HTTP状态码 */
+  status: number;
+  /** 响应头，键名统一为小写 */
+  headers: Record<string, string>;
+  /** 响应数据 */
+  data: T;
+}
+
 /**
  * 分片数据接口
  */
@@ -63,6 +83,18 @@ export interface FileChunk {
   tempPath?: string;
 }
 
+/**
+ * 分片字节范围
+ */
+export interface ChunkByteRange {
+  /** 分片索引 */
+  index: number;
+  /** 起始位置（包含） */
+  start: number;
+  /** 结束位置（不包含） */
+  end: number;
+}
+
 /**
  * 平台适配器基类
  * 提供跨平台统一接口，处理平台特性差异
@@ -123,6 +155,30 @@ export abstract class PlatformAdapter {
    */
   public abstract createChunks(file: any, chunkSize: number): Promise<FileChunk[]> | FileChunk[];
 
+  /**
+   * 按字节范围创建文件分片
+   * 用于自适应分片重新切分尚未上传的部分，分片大小可以不一致。
+   * 默认实现切分Blob，文件以路径表示的平台需要覆盖此方法
+   * @param file 需要分片的文件
+   * @param ranges 分片字节范围
+   */
+  public createRangeChunks(
+    file: any,
+    ranges: ChunkByteRange[]
+  ): Promise<FileChunk[]> | FileChunk[] {
+    if (!file || typeof file.slice !== 'function') {
+      throw this.handleError(new Error('当前平台不支持按字节范围创建分片'), { file });
+    }
+
+    return ranges.map(({ index, start, end }) => ({
+      index,
+      data: file.slice(start, end),
+      start,
+      end,
+      size: end - start
+    }));
+  }
+
   /**
    * 发送网络请求
    * @param url 请求地址
@@ -166,6 +222,25 @@ export abstract class PlatformAdapter {
     directory?: boolean;
   }): Promise<any[]>;
 
+  /**
+   * 在文件指定位置写入数据
+   * 用于分片下载到文件路径（小程序、React Native），不支持文件系统的平台抛出错误
+   * @param filePath 文件路径，不存在时创建
+   * @param data 写入的数据
+   * @param position 写入位置(字节)
+   */
+  public async writeFile(filePath: string, _data: ArrayBuffer, _position = 0): Promise<void> {
+    throw this.handleError(new Error('当前平台不支持写入文件'), { filePath });
+  }
+
+  /**
+   * 创建平台默认的存储引擎
+   * 未指定存储引擎时用于持久化上传状态，返回null时由上传器按运行环境选择
+   */
+  public createStorage(): StorageEngine | null {
+    return null;
+  }
+
   /**
    * 获取默认特性支持
    * 每个平台需覆盖此方法提供准确特性
@@ -175,6 +250,7 @@ export abstract class PlatformAdapter {
       chunkedUpload: false,
       webWorker: false,
       indexedDB: false,
+      opfs: false,
       webCrypto: false,
       streams: false,
       dragAndDrop: false,
@@ -207,7 +283,7 @@ export abstract class PlatformAdapter {
     }
 
     // 使用降级实现
-    this.kernel?.emit('featureFallback', { platform: this.name, feature });
+    this.kernel?.getEventBus().emit('featureFallback', { platform: this.name, feature });
     return fallbackFn();
   }
 
@@ -222,7 +298,12 @@ export abstract class PlatformAdapter {
     (enhancedError as any)['context'] = context;
     (enhancedError as any)['platform'] = this.name;
 
-    this.kernel?.emit('platformError', {
+    // 保留HTTP状态码，供重试判断和协议适配器使用
+    if ((error as any).status !== undefined) {
+      (enhancedError as any)['status'] = (error as any).status;
+    }
+
+    this.kernel?.getEventBus().emit('platformError', {
       error: enhancedError,
       platform: this.name,
       context
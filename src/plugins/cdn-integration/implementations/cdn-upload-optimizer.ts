@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { CDNProviderType, CDNUploadOptions } from '../interfaces';
 import { CDNProviderManager } from './cdn-provider-manager';
+import { BandwidthLimiter } from '../../../modules/transport/bandwidth-limiter';
 
 /**
  * CDN上传优化选项
@@ -58,6 +59,8 @@ export interface CDNUploadOptimizerOptions {
   queuePrioritizer?: (a: QueueItem, b: QueueItem) => number;
   /** 最大队列长度 */
   maxQueueLength?: number;
+  /** 带宽限制器，通常使用内核注册的bandwidth模块，与其他传输共享全局速率上限 */
+  bandwidthLimiter?: BandwidthLimiter;
   /** 配置回调 */
   callbacks?: {
     /** 上传开始回调 */
@@ -299,8 +302,8 @@ export class CDNUploadOptimizer {
       this.processQueue();
     }
 
-    // 返回任务ID
-    return `task-${key}-${Date.now()}`;
+    // 返回任务ID，与startUpload中的任务ID一致，可用于设置任务速率上限
+    return `task-${key}-${queueItem.addedAt}`;
   }
 
   /**
@@ -770,6 +773,7 @@ export class CDNUploadOptimizer {
       task.endTime = Date.now();
       task.url = uploadResult;
       this.activeUploads.set(taskId, task);
+      this.options.bandwidthLimiter?.removeTask(taskId);
 
       // 触发上传完成回调
       if (this.options.callbacks?.onUploadComplete) {
@@ -819,6 +823,7 @@ export class CDNUploadOptimizer {
         task.error = error as Error;
         task.endTime = Date.now();
         this.activeUploads.set(taskId, task);
+        this.options.bandwidthLimiter?.removeTask(taskId);
 
         // 触发上传错误回调
         if (this.options.callbacks?.onUploadError) {
@@ -876,6 +881,11 @@ export class CDNUploadOptimizer {
     // 生成上传URL
     const uploadUrl = await provider.generateUploadUrl(item.options);
 
+    // 请求发出后无法再限速，发送前按上传数据大小申请带宽
+    if (this.options.bandwidthLimiter) {
+      await this.options.bandwidthLimiter.acquire(uploadData.size, { taskId: task.id });
+    }
+
     // 上传文件
     const uploadStartTime = Date.now();
     let lastProgressTime = uploadStartTime;
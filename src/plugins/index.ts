@@ -1,2 +1,3 @@
 export * from './plugin-manager';
 export * from './plugin-api';
+export * from './semver';
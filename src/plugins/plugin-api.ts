@@ -1,4 +1,12 @@
-import { Plugin, PluginAPI } from './plugin-manager';
+import {
+  Plugin,
+  PluginAPI,
+  PluginEvents,
+  PluginHookOptions,
+  PluginManager
+} from './plugin-manager';
+import { EventEmitter } from '../core/event-bus';
+import { FileChunkKernel } from '../core/kernel';
 
 /**
  * 核心功能扩展点枚举
@@ -36,27 +44,472 @@ export enum ExtensionPoint {
 }
 
 /**
- * 创建标准化的插件API辅助函数
- * 用于在插件管理器中为每个插件创建标准API实例
+ * 插件能力
+ * 插件在Plugin.capabilities中声明需要的能力，插件API只提供已声明能力对应的功能
+ */
+export type PluginCapability =
+  | 'file:readMetadata' // 读取文件名、大小、类型等元数据
+  | 'file:readContent' // 读取文件和分片内容
+  | 'file:modifyContent' // 修改文件和分片内容
+  | 'request:modifyHeaders' // 读取和修改请求头、请求地址
+  | 'response:read' // 读取响应
+  | 'response:modify' // 修改响应
+  | 'queue:modifyMetadata' // 修改加入队列的文件元数据
+  | 'events:listen' // 订阅事件
+  | 'events:emit' // 发布事件
+  | 'config:read' // 读取内核配置
+  | 'ui:render' // 渲染界面
+  | 'kernel:access'; // 直接访问内核，仅应授予受信任的插件
+
+/**
+ * 扩展点需要的插件能力，插件未声明这些能力时不能在该扩展点注册钩子
+ */
+export const EXTENSION_POINT_CAPABILITIES: Record<ExtensionPoint, PluginCapability[]> = {
+  [ExtensionPoint.TRANSPORT_BEFORE_UPLOAD]: ['file:readMetadata'],
+  [ExtensionPoint.TRANSPORT_AFTER_UPLOAD]: ['file:readMetadata'],
+  [ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD]: ['file:readContent'],
+  [ExtensionPoint.TRANSPORT_AFTER_CHUNK_UPLOAD]: ['file:readContent'],
+  [ExtensionPoint.STORAGE_BEFORE_SAVE]: ['file:readMetadata'],
+  [ExtensionPoint.STORAGE_AFTER_SAVE]: ['file:readMetadata'],
+  [ExtensionPoint.SECURITY_VALIDATE_FILE]: ['file:readMetadata'],
+  [ExtensionPoint.SECURITY_BEFORE_ENCRYPTION]: ['file:readContent', 'file:modifyContent'],
+  [ExtensionPoint.SECURITY_AFTER_ENCRYPTION]: ['file:readContent'],
+  [ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR]: ['request:modifyHeaders'],
+  [ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR]: ['response:read'],
+  [ExtensionPoint.NETWORK_CDN_SELECT]: ['file:readMetadata'],
+  [ExtensionPoint.QUEUE_BEFORE_ADD]: ['file:readMetadata'],
+  [ExtensionPoint.QUEUE_AFTER_ADD]: ['file:readMetadata'],
+  [ExtensionPoint.QUEUE_BEFORE_PROCESS]: ['file:readMetadata'],
+  [ExtensionPoint.UI_RENDER_UPLOAD_BUTTON]: ['ui:render'],
+  [ExtensionPoint.UI_RENDER_PROGRESS]: ['ui:render'],
+  [ExtensionPoint.UI_RENDER_FILE_LIST]: ['ui:render']
+};
+
+/**
+ * 插件API访问未声明的能力时抛出的错误代码
+ */
+export const PLUGIN_PERMISSION_DENIED_ERROR_CODE = 'PLUGIN_PERMISSION_DENIED';
+
+// 未声明request:modifyHeaders能力的插件读取事件、配置和钩子上下文时隐藏的字段
+const SENSITIVE_KEYS = /^(headers|authorization|cookie|token|accessToken|secret)$/i;
+
+/**
+ * 创建插件权限错误
+ */
+export function createPermissionError(pluginName: string, action: string): Error {
+  const error = new Error(`插件 ${pluginName} 没有${action}的权限`);
+  (error as any).code = PLUGIN_PERMISSION_DENIED_ERROR_CODE;
+  return error;
+}
+
+/**
+ * 隐藏普通对象中的请求头、令牌等敏感字段，不修改传入的对象
+ */
+export function redactSensitiveData<T>(value: T, depth: number = 0): T {
+  if (depth > 5 || !value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSensitiveData(item, depth + 1)) as unknown as T;
+  }
+
+  // 只处理普通对象，文件、Blob等实例原样返回
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEYS.test(key) ? '[REDACTED]' : redactSensitiveData(item, depth + 1)
+    ])
+  ) as T;
+}
+
+/**
+ * 扩展点上下文中钩子可以修改的字段及需要的能力，字段以`.`分隔路径
+ * 未列出的字段和插件未声明对应能力的字段对钩子只读
+ */
+export const EXTENSION_POINT_WRITABLE_FIELDS: Partial<
+  Record<ExtensionPoint, Record<string, PluginCapability>>
+> = {
+  [ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD]: {
+    'chunk.data': 'file:modifyContent',
+    headers: 'request:modifyHeaders'
+  },
+  [ExtensionPoint.SECURITY_BEFORE_ENCRYPTION]: { data: 'file:modifyContent' },
+  [ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR]: {
+    'request.url': 'request:modifyHeaders',
+    'request.headers': 'request:modifyHeaders',
+    'request.data': 'file:modifyContent'
+  },
+  [ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR]: {
+    'response.status': 'response:modify',
+    'response.data': 'response:modify'
+  },
+  [ExtensionPoint.NETWORK_CDN_SELECT]: { providerId: 'file:readMetadata' },
+  [ExtensionPoint.QUEUE_BEFORE_ADD]: { metadata: 'queue:modifyMetadata' }
+};
+
+/**
+ * 复制后超过该深度的值不再复制，按引用传给钩子
+ */
+const MAX_HOOK_CONTEXT_DEPTH = 10;
+
+/**
+ * 隐藏的字段在钩子上下文中的值
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * 传给单个钩子的上下文
+ */
+export interface HookContext<T> {
+  context: T; // 钩子收到的上下文副本
+  commit: () => void; // 将钩子对可写字段的修改写回原上下文
+}
+
+/**
+ * 复制钩子上下文的选项
+ */
+interface HookCloneOptions {
+  redact: boolean; // 是否隐藏请求头、令牌等敏感字段
+  readContent: boolean; // 是否保留文件、Blob和二进制数据，否则只提供元数据
+  placeholders: WeakSet<object>; // 代替文件传给钩子的元数据对象
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * 获取文件元数据，代替文件内容传给未声明file:readContent能力的钩子
+ */
+function describeBlob(blob: Blob): Record<string, unknown> {
+  return {
+    name: (blob as File).name,
+    size: blob.size,
+    type: blob.type,
+    lastModified: (blob as File).lastModified
+  };
+}
+
+/**
+ * 获取二进制数据的元数据，代替数据内容传给未声明file:readContent能力的钩子
+ */
+function describeBinary(value: ArrayBuffer | ArrayBufferView): Record<string, unknown> {
+  return { size: value.byteLength };
+}
+
+/**
+ * 复制钩子上下文中的普通对象、数组、表单和二进制数据
+ * Blob等不可变对象和其他类的实例原样保留，未声明file:readContent能力时文件和二进制数据只提供元数据
+ */
+function cloneHookValue<T>(value: T, options?: HookCloneOptions, depth: number = 0): T {
+  if (depth > MAX_HOOK_CONTEXT_DEPTH || !value || typeof value !== 'object') {
+    return value;
+  }
+
+  // 按类型标签判断，兼容其他realm中创建的ArrayBuffer
+  const isArrayBuffer = Object.prototype.toString.call(value) === '[object ArrayBuffer]';
+  if (options && !options.readContent && (isArrayBuffer || ArrayBuffer.isView(value))) {
+    const placeholder = describeBinary(value as unknown as ArrayBuffer | ArrayBufferView);
+    options.placeholders.add(placeholder);
+    return placeholder as unknown as T;
+  }
+  if (isArrayBuffer) {
+    return (value as unknown as ArrayBuffer).slice(0) as unknown as T;
+  }
+  if (ArrayBuffer.isView(value)) {
+    const buffer = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
+    const View = value.constructor as new (buffer: ArrayBufferLike) => ArrayBufferView;
+    return new View(buffer) as unknown as T;
+  }
+  if (options && !options.readContent && typeof Blob !== 'undefined' && value instanceof Blob) {
+    const placeholder = describeBlob(value);
+    options.placeholders.add(placeholder);
+    return placeholder as unknown as T;
+  }
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    const form = new FormData();
+    value.forEach((item, key) => {
+      if (typeof item === 'string' || !options || options.readContent) {
+        form.append(key, item);
+      } else {
+        form.append(key, JSON.stringify(describeBlob(item)));
+      }
+    });
+    // 文件字段被替换为元数据的表单不写回
+    if (options && !options.readContent) {
+      options.placeholders.add(form);
+    }
+    return form as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneHookValue(item, options, depth + 1)) as unknown as T;
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      options?.redact && SENSITIVE_KEYS.test(key)
+        ? REDACTED
+        : cloneHookValue(item, options, depth + 1)
+    ])
+  ) as T;
+}
+
+/**
+ * 将钩子修改后的值合并到原值，钩子看到的隐藏值和文件元数据替换回原值
+ */
+function mergeHookValue(
+  value: unknown,
+  original: unknown,
+  placeholders: WeakSet<object>,
+  depth: number = 0
+): unknown {
+  if (value === REDACTED || (value && typeof value === 'object' && placeholders.has(value))) {
+    return original;
+  }
+  if (depth > MAX_HOOK_CONTEXT_DEPTH) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      mergeHookValue(
+        item,
+        Array.isArray(original) ? original[index] : undefined,
+        placeholders,
+        depth + 1
+      )
+    );
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        mergeHookValue(
+          item,
+          isPlainObject(original) ? original[key] : undefined,
+          placeholders,
+          depth + 1
+        )
+      ])
+    );
+  }
+  return cloneHookValue(value);
+}
+
+/**
+ * 将钩子上下文中不可写的字段设为只读，钩子修改只读字段时抛出TypeError
+ * @param writable 可写字段相对当前值的路径，空路径表示整个值可写
+ */
+function protectHookValue(value: unknown, writable: string[][], depth: number = 0): void {
+  if (
+    depth > MAX_HOOK_CONTEXT_DEPTH ||
+    writable.some(path => path.length === 0) ||
+    !(Array.isArray(value) || isPlainObject(value))
+  ) {
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    const paths = writable.filter(path => path[0] === key).map(path => path.slice(1));
+    protectHookValue((value as Record<string, unknown>)[key], paths, depth + 1);
+
+    if (!paths.some(path => path.length === 0)) {
+      Object.defineProperty(value, key, { writable: false, configurable: false });
+    }
+  }
+  Object.preventExtensions(value);
+}
+
+function getField(value: any, path: string[]): any {
+  return path.reduce((current, key) => (isPlainObject(current) ? current[key] : undefined), value);
+}
+
+/**
+ * 创建传给单个钩子的上下文副本
+ * 副本按插件能力收窄：未声明request:modifyHeaders时隐藏请求头和令牌，未声明file:readContent时
+ * 文件只提供元数据；内置扩展点只有插件声明了对应能力的字段可写，自定义钩子的上下文均可写。
+ * 钩子只能修改自己的副本，调用方在钩子按时完成后调用commit写回可写字段，
+ * 超时的钩子之后再修改副本不会影响正在进行的操作
+ */
+export function createHookContext<T>(plugin: Plugin, hookName: string, context: T): HookContext<T> {
+  const capabilities = plugin.capabilities || [];
+  const options: HookCloneOptions = {
+    redact: !capabilities.includes('request:modifyHeaders'),
+    readContent: capabilities.includes('file:readContent'),
+    placeholders: new WeakSet()
+  };
+  const copy = cloneHookValue(context, options);
+
+  const fields = EXTENSION_POINT_WRITABLE_FIELDS[hookName as ExtensionPoint];
+  const isExtensionPoint = Object.values(ExtensionPoint).includes(hookName as ExtensionPoint);
+  const writable = isExtensionPoint
+    ? Object.entries(fields || {})
+        .filter(([, capability]) => capabilities.includes(capability))
+        .map(([field]) => field.split('.'))
+    : [[]];
+  protectHookValue(copy, writable);
+
+  return {
+    context: copy,
+    commit: () => {
+      for (const path of writable) {
+        // 自定义钩子写回上下文的所有顶层字段
+        const keys = path.length > 0 ? [path] : Object.keys(copy || {}).map(key => [key]);
+        for (const field of keys) {
+          const parent = getField(context, field.slice(0, -1));
+          const key = field[field.length - 1];
+          if (!isPlainObject(parent) && !Array.isArray(parent)) continue;
+
+          (parent as Record<string, unknown>)[key] = mergeHookValue(
+            getField(copy, field),
+            (parent as Record<string, unknown>)[key],
+            options.placeholders
+          );
+        }
+      }
+    }
+  };
+}
+
+/**
+ * 创建按插件能力收窄的插件API
+ * 插件被卸载或禁用后API的所有功能都不可再用
  */
 export function createPluginAPI(
   plugin: Plugin,
   config: any,
   callbacks: {
-    registerHook: (hookName: string, callback: (...args: any[]) => any) => void;
+    registerHook: (
+      hookName: string,
+      callback: (...args: any[]) => any,
+      options?: PluginHookOptions
+    ) => void;
     getPlugin: (name: string) => Plugin | undefined;
-    getKernel: () => any;
-    getEventBus: () => any;
+    getKernel: () => FileChunkKernel;
+    getEventBus: () => EventEmitter;
+    isActive: () => boolean;
   }
 ): PluginAPI {
-  return {
-    kernel: callbacks.getKernel(),
-    events: callbacks.getEventBus(),
-    registerHook: (hookName: string, callback: (...args: any[]) => any) =>
-      callbacks.registerHook(hookName, callback),
+  const capabilities = Object.freeze([...(plugin.capabilities || [])]);
+  const hasCapability = (capability: PluginCapability) => capabilities.includes(capability);
+  const revealSensitive = hasCapability('request:modifyHeaders');
+  const subscriberId = `plugin:${plugin.name}`;
+
+  const ensureActive = () => {
+    if (!callbacks.isActive()) {
+      throw new Error(`插件 ${plugin.name} 已卸载或被禁用`);
+    }
+  };
+
+  const api: PluginAPI = {
+    capabilities,
+    hasCapability,
+    registerHook: (hookName, callback, options) => {
+      ensureActive();
+      callbacks.registerHook(hookName, callback, options);
+    },
     getPlugin: callbacks.getPlugin,
     configuration: config
   };
+
+  if (hasCapability('kernel:access')) {
+    Object.defineProperty(api, 'kernel', {
+      enumerable: true,
+      get: () => {
+        ensureActive();
+        return callbacks.getKernel();
+      }
+    });
+  }
+
+  if (hasCapability('events:listen') || hasCapability('events:emit')) {
+    const events: PluginEvents = {};
+    // 插件可以使用自定义事件名，不按事件映射检查
+    const eventBus = callbacks.getEventBus() as unknown as EventEmitter<Record<string, any>>;
+
+    if (hasCapability('events:listen')) {
+      const subscribe =
+        (method: 'on' | 'once') => (event: string, handler: (data: any) => void) => {
+          ensureActive();
+          const wrapper = (data: unknown) =>
+            handler(revealSensitive ? data : redactSensitiveData(data));
+          eventBus[method](event, wrapper, { subscriberId });
+          return () => {
+            eventBus.off(event, wrapper);
+          };
+        };
+      events.on = subscribe('on');
+      events.once = subscribe('once');
+    }
+
+    if (hasCapability('events:emit')) {
+      events.emit = (event, data) => {
+        ensureActive();
+        return eventBus.emit(event, data);
+      };
+    }
+
+    api.events = events;
+  }
+
+  if (hasCapability('config:read')) {
+    api.getConfig = <T = any>(path: string, defaultValue?: T): T => {
+      ensureActive();
+      const value = callbacks.getKernel().getConfig<T>(path, defaultValue);
+      return revealSensitive ? value : redactSensitiveData(value);
+    };
+  }
+
+  return api;
+}
+
+/**
+ * 扩展点钩子拒绝操作时的错误代码
+ */
+export const PLUGIN_HOOK_REJECTED_ERROR_CODE = 'PLUGIN_HOOK_REJECTED';
+
+/**
+ * 在内置模块中执行扩展点
+ * 每个钩子收到按插件能力收窄的上下文副本，按时完成的钩子对可写字段的修改写回上下文，
+ * 调用方在所有钩子完成后读取修改结果；
+ * 任一钩子返回false时拒绝本次操作，出错或超时的钩子不影响操作
+ *
+ * @param pluginManager - 插件管理器，未提供时直接返回上下文
+ * @param point - 扩展点
+ * @param context - 钩子上下文
+ * @returns 钩子修改后的上下文
+ * @throws 钩子拒绝时抛出PLUGIN_HOOK_REJECTED错误
+ */
+export async function runExtensionPoint<T>(
+  pluginManager: Pick<PluginManager, 'executeHook'> | undefined,
+  point: ExtensionPoint,
+  context: T
+): Promise<T> {
+  if (!pluginManager) {
+    return context;
+  }
+
+  const results = await pluginManager.executeHook(point, context);
+
+  if (results.includes(false)) {
+    const error = new Error(`扩展点 ${point} 的钩子拒绝了本次操作`);
+    (error as any).code = PLUGIN_HOOK_REJECTED_ERROR_CODE;
+    throw error;
+  }
+
+  return context;
 }
 
 /**
@@ -66,9 +519,10 @@ export function createPluginAPI(
 export function registerExtensionPoint<T extends (...args: any[]) => any>(
   api: PluginAPI,
   point: ExtensionPoint,
-  handler: T
+  handler: T,
+  options?: PluginHookOptions
 ): void {
-  api.registerHook(point, handler);
+  api.registerHook(point, handler, options);
 }
 
 /**
@@ -83,6 +537,7 @@ export class PluginHelper {
     name: string;
     version: string;
     dependencies?: string[];
+    capabilities?: PluginCapability[];
     initialize: (api: PluginAPI) => Promise<void> | void;
     destroy?: () => Promise<void> | void;
   }): Plugin {
@@ -90,6 +545,7 @@ export class PluginHelper {
       name: options.name,
       version: options.version,
       dependencies: options.dependencies,
+      capabilities: options.capabilities,
       initialize: options.initialize,
       destroy: options.destroy
     };
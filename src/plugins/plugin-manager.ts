@@ -1,38 +1,147 @@
 import { EventEmitter } from '../core/event-bus';
 import { FileChunkKernel } from '../core/kernel';
+import { sortByDependencies } from '../core/module-registry';
+import { ModuleDependencyError } from '../types/modules';
+import { VERSION } from '../version';
+import { isValidRange, parseVersion, satisfies } from './semver';
+import {
+  EXTENSION_POINT_CAPABILITIES,
+  ExtensionPoint,
+  PluginCapability,
+  createHookContext,
+  createPermissionError,
+  createPluginAPI
+} from './plugin-api';
+
+/**
+ * 插件依赖
+ */
+export interface PluginRequirements {
+  plugins?: Record<string, string>; // 依赖的插件名称及版本范围，依赖的插件先初始化
+  modules?: string[]; // 依赖的内核模块ID或接口ID
+}
 
+/**
+ * 插件清单与实现
+ */
 export interface Plugin {
   name: string;
-  version: string;
-  dependencies?: string[];
+  version: string; // 语义化版本号
+  dependencies?: string[]; // 依赖的插件名称，等同于requires.plugins中版本范围为*的依赖
+  requires?: PluginRequirements;
+  conflicts?: Record<string, string>; // 不能同时使用的插件名称及版本范围
+  engine?: string; // 兼容的FileChunk Pro版本范围
+  capabilities?: PluginCapability[]; // 插件需要的能力，未声明的能力不会出现在插件API中
   initialize: (api: PluginAPI) => Promise<void> | void;
   destroy?: () => Promise<void> | void;
 }
 
+/**
+ * 插件可用的事件功能，按events:listen和events:emit能力提供
+ */
+export interface PluginEvents {
+  on?: (event: string, handler: (data: any) => void) => () => void; // 返回取消订阅函数
+  once?: (event: string, handler: (data: any) => void) => () => void;
+  emit?: (event: string, data?: any) => Promise<void>;
+}
+
+/**
+ * 钩子注册选项
+ */
+export interface PluginHookOptions {
+  priority?: number; // 优先级，数字越大越先执行，相同优先级按注册顺序执行，默认0
+}
+
 export interface PluginAPI {
-  kernel: FileChunkKernel;
-  events: EventEmitter;
-  registerHook: (hookName: string, callback: (...args: any[]) => any) => void;
+  capabilities: readonly PluginCapability[];
+  hasCapability: (capability: PluginCapability) => boolean;
+  kernel?: FileChunkKernel; // 需要kernel:access能力
+  events?: PluginEvents; // 需要events:listen或events:emit能力
+  getConfig?: <T = any>(path: string, defaultValue?: T) => T; // 需要config:read能力
+  registerHook: (
+    hookName: string,
+    callback: (...args: any[]) => any,
+    options?: PluginHookOptions
+  ) => void;
   getPlugin: (name: string) => Plugin | undefined;
   configuration: Record<string, any>;
 }
 
+/**
+ * 插件管理器选项
+ */
+export interface PluginManagerOptions {
+  hookTimeout?: number; // 单个钩子和插件初始化的超时时间(ms)
+  maxFailures?: number; // 钩子连续失败多少次后禁用插件
+}
+
+/**
+ * 插件钩子执行超时的错误代码
+ */
+export const PLUGIN_HOOK_TIMEOUT_ERROR_CODE = 'PLUGIN_HOOK_TIMEOUT';
+
+/**
+ * 插件清单无效或与当前环境不兼容时的错误代码
+ */
+export const PLUGIN_INCOMPATIBLE_ERROR_CODE = 'PLUGIN_INCOMPATIBLE';
+
+/**
+ * 创建插件不兼容错误
+ */
+function createIncompatibleError(pluginName: string, reason: string): Error {
+  const error = new Error(`插件 ${pluginName} 无法加载: ${reason}`);
+  (error as any).code = PLUGIN_INCOMPATIBLE_ERROR_CODE;
+  (error as any).pluginName = pluginName;
+  return error;
+}
+
+/**
+ * 获取插件依赖的插件及版本范围
+ */
+function getRequiredPlugins(plugin: Plugin): Record<string, string> {
+  const required: Record<string, string> = {};
+  plugin.dependencies?.forEach(name => {
+    required[name] = '*';
+  });
+  return { ...required, ...plugin.requires?.plugins };
+}
+
+/**
+ * 已注册的钩子
+ */
+interface PluginHook {
+  pluginName: string;
+  callback: (...args: any[]) => any;
+  priority: number;
+}
+
 export class PluginManager {
   private plugins: Map<string, Plugin> = new Map();
   private pluginApis: Map<string, PluginAPI> = new Map();
   private pluginConfigs: Map<string, any> = new Map();
   private kernel: FileChunkKernel;
   private eventBus: EventEmitter;
-  private hooks: Map<string, Set<(...args: any[]) => any>> = new Map();
+  private hooks: Map<string, PluginHook[]> = new Map();
   private initialized: Set<string> = new Set();
+  private disabled: Set<string> = new Set();
+  private failures: Map<string, number> = new Map();
+  private errors: Map<string, Error> = new Map();
+  private unloading: Set<string> = new Set();
+  private options: Required<PluginManagerOptions>;
 
-  constructor(kernel: FileChunkKernel, eventBus: EventEmitter) {
+  constructor(kernel: FileChunkKernel, eventBus: EventEmitter, options: PluginManagerOptions = {}) {
     this.kernel = kernel;
     this.eventBus = eventBus;
+    this.options = {
+      hookTimeout: 5000,
+      maxFailures: 3,
+      ...options
+    };
   }
 
   /**
    * 注册插件
+   * 只校验清单格式，依赖、冲突和引擎版本在初始化时检查，因此插件可以按任意顺序注册
    */
   async register(plugin: Plugin, config?: any): Promise<boolean> {
     if (this.plugins.has(plugin.name)) {
@@ -40,30 +149,25 @@ export class PluginManager {
       return false;
     }
 
+    const manifestError = this.validateManifest(plugin);
+    if (manifestError) {
+      console.error(manifestError.message);
+      return false;
+    }
+
     // 存储插件和配置
     this.plugins.set(plugin.name, plugin);
     this.pluginConfigs.set(plugin.name, config || {});
 
-    // 检查依赖
-    if (plugin.dependencies) {
-      for (const dep of plugin.dependencies) {
-        if (!this.plugins.has(dep)) {
-          console.error(`Plugin ${plugin.name} depends on ${dep}, but it's not registered`);
-          this.plugins.delete(plugin.name);
-          return false;
-        }
-      }
-    }
-
-    // 创建插件API
-    const api: PluginAPI = {
-      kernel: this.kernel,
-      events: this.eventBus,
-      registerHook: (hookName: string, callback: (...args: any[]) => any) =>
-        this.registerHook(plugin.name, hookName, callback),
-      getPlugin: (name: string) => this.plugins.get(name),
-      configuration: config || {}
-    };
+    // 创建按插件能力收窄的插件API
+    const api = createPluginAPI(plugin, config || {}, {
+      registerHook: (hookName, callback, hookOptions) =>
+        this.registerHook(plugin.name, hookName, callback, hookOptions),
+      getPlugin: name => this.plugins.get(name),
+      getKernel: () => this.kernel,
+      getEventBus: () => this.eventBus,
+      isActive: () => this.plugins.get(plugin.name) === plugin && !this.disabled.has(plugin.name)
+    });
 
     this.pluginApis.set(plugin.name, api);
 
@@ -73,6 +177,7 @@ export class PluginManager {
 
   /**
    * 初始化插件
+   * 先按依赖顺序初始化插件依赖的插件，插件不兼容或依赖无法满足时返回false，原因可通过getPluginError获取
    */
   async initialize(pluginName: string): Promise<boolean> {
     if (!this.plugins.has(pluginName)) {
@@ -84,117 +189,356 @@ export class PluginManager {
       return true; // 已经初始化
     }
 
-    const plugin = this.plugins.get(pluginName)!;
-    const api = this.pluginApis.get(pluginName)!;
+    let order: string[];
+    try {
+      order = this.sortPlugins([pluginName]);
+    } catch (error) {
+      this.reject(pluginName, (error as Error).message);
+      return false;
+    }
 
-    // 先初始化依赖
-    if (plugin.dependencies) {
-      for (const dep of plugin.dependencies) {
-        if (!this.initialized.has(dep)) {
-          const success = await this.initialize(dep);
-          if (!success) {
-            console.error(`Failed to initialize dependency ${dep} for plugin ${pluginName}`);
-            return false;
-          }
+    for (const name of order) {
+      if (!(await this.initializeOne(name))) {
+        if (name !== pluginName) {
+          this.reject(pluginName, `依赖的插件 ${name} 未能初始化`);
         }
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 按依赖顺序初始化所有注册的插件
+   * 不兼容的插件、循环依赖中的插件以及依赖它们的插件不会被初始化
+   */
+  async initializeAll(): Promise<boolean> {
+    let pending = Array.from(this.plugins.keys()).filter(
+      name => !this.initialized.has(name) && !this.disabled.has(name)
+    );
+    const rejected = new Set<string>();
+    let success = true;
+    let order: string[] = [];
+
+    // 拒绝循环依赖中的插件后重新排序，依赖它的插件在初始化时因依赖未初始化而被拒绝
+    while (pending.length > 0) {
+      try {
+        order = this.sortPlugins(pending, rejected);
+        break;
+      } catch (error) {
+        if (!(error instanceof ModuleDependencyError)) throw error;
+        this.reject(error.moduleId, error.message);
+        rejected.add(error.moduleId);
+        pending = pending.filter(name => name !== error.moduleId);
+        success = false;
+      }
+    }
+
+    for (const pluginName of order) {
+      if (!this.initialized.has(pluginName) && !(await this.initializeOne(pluginName))) {
+        success = false;
       }
     }
+    return success;
+  }
+
+  /**
+   * 获取插件无法加载或初始化失败的原因
+   */
+  getPluginError(pluginName: string): Error | undefined {
+    return this.errors.get(pluginName);
+  }
+
+  /**
+   * 卸载插件
+   * 依赖该插件的插件会先被卸载
+   */
+  async unload(pluginName: string): Promise<boolean> {
+    if (!this.plugins.has(pluginName)) {
+      console.warn(`Cannot unload plugin ${pluginName}: not found`);
+      return false;
+    }
+
+    if (this.unloading.has(pluginName)) {
+      return true;
+    }
+    this.unloading.add(pluginName);
 
     try {
-      await Promise.resolve(plugin.initialize(api));
+      // 级联卸载依赖该插件的插件
+      for (const [name, plugin] of Array.from(this.plugins.entries())) {
+        if (name !== pluginName && pluginName in getRequiredPlugins(plugin)) {
+          await this.unload(name);
+        }
+      }
+
+      const plugin = this.plugins.get(pluginName)!;
+
+      // 执行插件的销毁方法
+      if (this.initialized.has(pluginName) && plugin.destroy) {
+        try {
+          await this.withTimeout(pluginName, 'destroy', () => plugin.destroy!());
+        } catch (error) {
+          console.error(`Error during plugin ${pluginName} destruction:`, error);
+          // 继续卸载，即使销毁失败
+        }
+      }
+
+      // 移除所有该插件注册的钩子和事件订阅
+      this.removePluginHooks(pluginName);
+      this.eventBus.offBySubscriber(`plugin:${pluginName}`);
+
+      // 清理插件状态
+      this.initialized.delete(pluginName);
+      this.disabled.delete(pluginName);
+      this.failures.delete(pluginName);
+      this.errors.delete(pluginName);
+      this.pluginApis.delete(pluginName);
+      this.pluginConfigs.delete(pluginName);
+      this.plugins.delete(pluginName);
+    } finally {
+      this.unloading.delete(pluginName);
+    }
+
+    this.eventBus.emit('plugin:unloaded', { name: pluginName });
+    return true;
+  }
+
+  /**
+   * 初始化单个插件，调用时插件依赖的插件应已初始化
+   */
+  private async initializeOne(pluginName: string): Promise<boolean> {
+    if (this.initialized.has(pluginName)) {
+      return true;
+    }
+
+    const plugin = this.plugins.get(pluginName)!;
+    const api = this.pluginApis.get(pluginName)!;
+
+    if (this.disabled.has(pluginName)) {
+      this.reject(pluginName, '插件已被禁用');
+      return false;
+    }
+
+    const reason = this.checkCompatibility(plugin);
+    if (reason) {
+      this.reject(pluginName, reason);
+      return false;
+    }
+
+    try {
+      await this.withTimeout(pluginName, 'initialize', () => plugin.initialize(api));
       this.initialized.add(pluginName);
+      this.errors.delete(pluginName);
       this.eventBus.emit('plugin:initialized', { name: pluginName });
       return true;
     } catch (error) {
       console.error(`Failed to initialize plugin ${pluginName}:`, error);
+      this.errors.set(pluginName, error as Error);
+      // 清理初始化过程中已注册的钩子和订阅
+      this.removePluginHooks(pluginName);
+      this.eventBus.offBySubscriber(`plugin:${pluginName}`);
       return false;
     }
   }
 
   /**
-   * 初始化所有注册的插件
+   * 校验插件清单格式
    */
-  async initializeAll(): Promise<boolean> {
-    let success = true;
-    for (const pluginName of this.plugins.keys()) {
-      if (!this.initialized.has(pluginName)) {
-        const result = await this.initialize(pluginName);
-        if (!result) {
-          success = false;
-        }
+  private validateManifest(plugin: Plugin): Error | null {
+    if (!parseVersion(plugin.version)) {
+      return createIncompatibleError(plugin.name, `版本号 ${plugin.version} 不是有效的语义化版本`);
+    }
+
+    const ranges: Array<[string, string]> = [
+      ...(plugin.engine ? [['engine', plugin.engine] as [string, string]] : []),
+      ...Object.entries(getRequiredPlugins(plugin)).map(
+        ([name, range]) => [`requires.plugins.${name}`, range] as [string, string]
+      ),
+      ...Object.entries(plugin.conflicts || {}).map(
+        ([name, range]) => [`conflicts.${name}`, range] as [string, string]
+      )
+    ];
+
+    for (const [field, range] of ranges) {
+      if (!isValidRange(range)) {
+        return createIncompatibleError(plugin.name, `${field} 的版本范围 ${range} 无效`);
       }
     }
-    return success;
+
+    return null;
   }
 
   /**
-   * 卸载插件
+   * 检查插件与当前版本、已注册的插件和内核模块是否兼容
+   * 冲突只与已初始化的插件比较，双方任一声明冲突即不兼容，被拒绝的插件不会阻止其他插件初始化
+   *
+   * @returns 不兼容的原因，兼容时返回null
    */
-  async unload(pluginName: string): Promise<boolean> {
-    if (!this.plugins.has(pluginName)) {
-      console.warn(`Cannot unload plugin ${pluginName}: not found`);
+  private checkCompatibility(plugin: Plugin): string | null {
+    if (plugin.engine && !satisfies(VERSION, plugin.engine)) {
+      return `要求 FileChunk Pro ${plugin.engine}，当前版本为 ${VERSION}`;
+    }
+
+    for (const [name, range] of Object.entries(getRequiredPlugins(plugin))) {
+      const dependency = this.plugins.get(name);
+      if (!dependency) {
+        return `依赖的插件 ${name}@${range} 未注册`;
+      }
+      if (!satisfies(dependency.version, range)) {
+        return `依赖的插件 ${name}@${range} 版本不匹配，已注册的版本为 ${dependency.version}`;
+      }
+      if (!this.initialized.has(name)) {
+        return `依赖的插件 ${name} 未能初始化`;
+      }
+    }
+
+    for (const moduleId of plugin.requires?.modules || []) {
+      if (this.kernel.resolveModuleIds(moduleId).length === 0) {
+        return `依赖的模块 ${moduleId} 未注册`;
+      }
+    }
+
+    for (const name of this.initialized) {
+      const other = this.plugins.get(name)!;
+      if (name === plugin.name) continue;
+
+      const range = plugin.conflicts?.[name];
+      if (range && satisfies(other.version, range)) {
+        return `与已初始化的插件 ${name}@${other.version} 冲突(${range})`;
+      }
+
+      const reverseRange = other.conflicts?.[plugin.name];
+      if (reverseRange && satisfies(plugin.version, reverseRange)) {
+        return `已初始化的插件 ${name}@${other.version} 声明与其冲突(${reverseRange})`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 按依赖关系排序插件及其依赖的插件，依赖在前
+   *
+   * @param pluginNames - 要排序的插件
+   * @param excluded - 不参与排序的插件
+   * @throws {ModuleDependencyError} 存在循环依赖时抛出
+   */
+  private sortPlugins(pluginNames: string[], excluded: Set<string> = new Set()): string[] {
+    return sortByDependencies(pluginNames, name =>
+      Object.keys(getRequiredPlugins(this.plugins.get(name)!)).filter(
+        dependency => this.plugins.has(dependency) && !excluded.has(dependency)
+      )
+    );
+  }
+
+  /**
+   * 记录插件无法加载的原因
+   */
+  private reject(pluginName: string, reason: string): void {
+    const error = createIncompatibleError(pluginName, reason);
+    this.errors.set(pluginName, error);
+    console.error(error.message);
+    this.eventBus.emit('plugin:incompatible', { name: pluginName, reason });
+  }
+
+  /**
+   * 禁用插件
+   * 移除插件的钩子和事件订阅并调用destroy，插件保持注册状态，可通过enablePlugin重新启用。
+   * 已初始化的依赖该插件的插件会先被禁用
+   */
+  async disablePlugin(pluginName: string, error?: unknown): Promise<boolean> {
+    const plugin = this.plugins.get(pluginName);
+    if (!plugin || this.disabled.has(pluginName)) {
       return false;
     }
 
-    // 检查是否有其他插件依赖于这个插件
-    for (const [name, plugin] of this.plugins.entries()) {
-      if (plugin.dependencies?.includes(pluginName)) {
-        console.error(`Cannot unload plugin ${pluginName}: it's a dependency of ${name}`);
-        return false;
+    this.disabled.add(pluginName);
+
+    // 级联禁用依赖该插件的插件
+    for (const [name, dependent] of Array.from(this.plugins.entries())) {
+      if (this.initialized.has(name) && pluginName in getRequiredPlugins(dependent)) {
+        await this.disablePlugin(name, `依赖的插件 ${pluginName} 已被禁用`);
       }
     }
 
-    const plugin = this.plugins.get(pluginName)!;
+    this.removePluginHooks(pluginName);
+    this.eventBus.offBySubscriber(`plugin:${pluginName}`);
 
-    // 执行插件的销毁方法
     if (this.initialized.has(pluginName) && plugin.destroy) {
       try {
-        await Promise.resolve(plugin.destroy());
-      } catch (error) {
-        console.error(`Error during plugin ${pluginName} destruction:`, error);
-        // 继续卸载，即使销毁失败
+        await this.withTimeout(pluginName, 'destroy', () => plugin.destroy!());
+      } catch (destroyError) {
+        console.error(`Error during plugin ${pluginName} destruction:`, destroyError);
       }
     }
+    this.initialized.delete(pluginName);
 
-    // 移除所有该插件注册的钩子
-    for (const [hookName, callbacks] of this.hooks.entries()) {
-      const filteredCallbacks = Array.from(callbacks).filter(callback => {
-        const pluginNameProp = (callback as any).__pluginName;
-        return pluginNameProp !== pluginName;
-      });
-      this.hooks.set(hookName, new Set(filteredCallbacks));
+    this.eventBus.emit('plugin:disabled', {
+      name: pluginName,
+      error: error instanceof Error ? error.message : error ? String(error) : undefined,
+      failures: this.failures.get(pluginName) || 0
+    });
+    return true;
+  }
+
+  /**
+   * 重新启用被禁用的插件并重新初始化
+   * 被级联禁用的依赖该插件的插件需要分别重新启用
+   */
+  async enablePlugin(pluginName: string): Promise<boolean> {
+    if (!this.disabled.has(pluginName)) {
+      return this.plugins.has(pluginName);
     }
 
-    // 清理插件状态
-    this.initialized.delete(pluginName);
-    this.pluginApis.delete(pluginName);
-    this.pluginConfigs.delete(pluginName);
-    this.plugins.delete(pluginName);
+    this.disabled.delete(pluginName);
+    this.failures.delete(pluginName);
+    return this.initialize(pluginName);
+  }
 
-    this.eventBus.emit('plugin:unloaded', { name: pluginName });
-    return true;
+  /**
+   * 获取被禁用的插件列表
+   */
+  getDisabledPlugins(): string[] {
+    return Array.from(this.disabled);
   }
 
   /**
    * 注册钩子
+   * 在内置扩展点注册钩子需要插件声明该扩展点要求的能力
    */
   private registerHook(
     pluginName: string,
     hookName: string,
-    callback: (...args: any[]) => any
+    callback: (...args: any[]) => any,
+    options: PluginHookOptions = {}
   ): void {
-    if (!this.hooks.has(hookName)) {
-      this.hooks.set(hookName, new Set());
+    const plugin = this.plugins.get(pluginName)!;
+    const required = EXTENSION_POINT_CAPABILITIES[hookName as ExtensionPoint] || [];
+    const missing = required.filter(capability => !plugin.capabilities?.includes(capability));
+
+    if (missing.length > 0) {
+      throw createPermissionError(pluginName, `注册钩子 ${hookName}(需要 ${missing.join(', ')})`);
     }
 
-    // 给回调函数添加插件标识，便于卸载时清理
-    (callback as any).__pluginName = pluginName;
+    if (!this.hooks.has(hookName)) {
+      this.hooks.set(hookName, []);
+    }
 
-    this.hooks.get(hookName)!.add(callback);
+    // 插入到优先级不低于它的钩子之后，保证执行顺序确定
+    const hooks = this.hooks.get(hookName)!;
+    const priority = options.priority || 0;
+    const position = hooks.findIndex(hook => hook.priority < priority);
+    hooks.splice(position === -1 ? hooks.length : position, 0, { pluginName, callback, priority });
   }
 
   /**
    * 执行钩子
+   * 钩子按优先级从高到低、相同优先级按注册顺序依次执行，前一个钩子完成后才执行下一个；
+   * 每个钩子单独计时和捕获错误，出错或超时的钩子结果为null；
+   * 每个钩子收到按插件能力收窄的参数副本，只有按时完成的钩子对可写字段的修改写回参数，
+   * 后一个钩子能看到前一个钩子的修改；
+   * 插件的钩子连续失败达到maxFailures次后自动禁用该插件
    */
   async executeHook(hookName: string, ...args: any[]): Promise<any[]> {
     if (!this.hooks.has(hookName)) {
@@ -202,18 +546,79 @@ export class PluginManager {
     }
 
     const results = [];
-    for (const callback of this.hooks.get(hookName)!) {
+    // 复制一份，执行过程中禁用插件不影响本次遍历
+    for (const { pluginName, callback } of [...this.hooks.get(hookName)!]) {
+      if (this.disabled.has(pluginName)) {
+        continue;
+      }
+
+      const plugin = this.plugins.get(pluginName)!;
+      const hookArgs = args.map(arg => createHookContext(plugin, hookName, arg));
+
       try {
-        const result = await Promise.resolve(callback(...args));
+        const result = await this.withTimeout(pluginName, hookName, () =>
+          callback(...hookArgs.map(hookArg => hookArg.context))
+        );
+        hookArgs.forEach(hookArg => hookArg.commit());
+        this.failures.delete(pluginName);
         results.push(result);
       } catch (error) {
         console.error(`Error executing hook ${hookName}:`, error);
         results.push(null);
+        await this.recordFailure(pluginName, error);
       }
     }
     return results;
   }
 
+  /**
+   * 记录插件失败，连续失败次数达到上限时禁用插件
+   */
+  private async recordFailure(pluginName: string, error: unknown): Promise<void> {
+    const failures = (this.failures.get(pluginName) || 0) + 1;
+    this.failures.set(pluginName, failures);
+
+    if (failures >= this.options.maxFailures) {
+      await this.disablePlugin(pluginName, error);
+    }
+  }
+
+  /**
+   * 移除插件注册的所有钩子
+   */
+  private removePluginHooks(pluginName: string): void {
+    for (const [hookName, hooks] of this.hooks.entries()) {
+      this.hooks.set(
+        hookName,
+        hooks.filter(hook => hook.pluginName !== pluginName)
+      );
+    }
+  }
+
+  /**
+   * 在超时时间内执行插件代码
+   */
+  private withTimeout<T>(
+    pluginName: string,
+    action: string,
+    task: () => T | Promise<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new Error(
+          `插件 ${pluginName} 执行 ${action} 超时(${this.options.hookTimeout}ms)`
+        );
+        (error as any).code = PLUGIN_HOOK_TIMEOUT_ERROR_CODE;
+        reject(error);
+      }, this.options.hookTimeout);
+
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
   /**
    * 获取已注册的插件列表
    */
@@ -0,0 +1,203 @@
+/**
+ * 插件清单使用的语义化版本工具
+ *
+ * 支持的版本范围写法：`*`、`1.2.3`、`=1.2.3`、`>1.2.3`、`>=1.2.3`、`<2.0.0`、`<=1.2.3`、
+ * `^1.2.3`、`~1.2.3`、`1.x`、`1.2.x`，空格分隔表示同时满足，`||`分隔表示满足其一。
+ * 预发布版本按semver规则排序，但不做npm对预发布版本的额外限制
+ */
+
+/**
+ * 解析后的版本号
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// 比较符 + 可带x通配的版本号，如 >=1.2.x
+const COMPARATOR_PATTERN =
+  /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * 解析版本号
+ *
+ * @returns 解析结果，不是有效的语义化版本时返回null
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * 比较两个版本号
+ *
+ * @returns a小于b时为负数，相等时为0，大于时为正数
+ * @throws 版本号无效时抛出错误
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const left = toSemVer(a);
+  const right = toSemVer(b);
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+/**
+ * 检查版本范围写法是否有效
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检查版本是否满足版本范围
+ *
+ * @throws 版本号或版本范围无效时抛出错误
+ */
+export function satisfies(version: string, range: string): boolean {
+  const semver = toSemVer(version);
+  return parseRange(range).some(set => set.every(comparator => comparator(semver)));
+}
+
+type Comparator = (version: SemVer) => boolean;
+
+/**
+ * 将版本范围解析为比较函数，外层为“或”，内层为“与”
+ */
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(part => {
+    const tokens = part.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      return [() => true];
+    }
+    return tokens.map(parseComparator);
+  });
+}
+
+/**
+ * 解析单个比较符
+ */
+function parseComparator(token: string): Comparator {
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`无效的版本范围: ${token}`);
+  }
+
+  const [, operator = '=', ...rest] = match;
+  const parts = rest
+    .slice(0, 3)
+    .map(part => (part === undefined || /[xX*]/.test(part) ? null : Number(part)));
+  const prerelease = rest[3] ? rest[3].split('.') : [];
+
+  // 通配部分之后的数字没有意义，如 1.x.3
+  const wildcard = parts.indexOf(null);
+  const [major, minor, patch] =
+    wildcard === -1 ? parts : parts.map((part, index) => (index < wildcard ? part : null));
+
+  if (major === null) {
+    // * 或 x：任意版本（<、>与任意版本组合时视为不可满足）
+    return operator === '<' || operator === '>' ? () => false : () => true;
+  }
+
+  const base: SemVer = { major, minor: minor ?? 0, patch: patch ?? 0, prerelease };
+  const cmp = (version: SemVer) => compareVersions(version, base);
+
+  // 部分版本号按区间处理，如 1.2 等同于 >=1.2.0 <1.3.0
+  const upper: SemVer | null =
+    minor === null
+      ? { major: major + 1, minor: 0, patch: 0, prerelease: [] }
+      : patch === null
+        ? { major, minor: minor + 1, patch: 0, prerelease: [] }
+        : null;
+  const belowUpper = (version: SemVer) => !upper || compareVersions(version, upper) < 0;
+
+  switch (operator) {
+    case '^': {
+      // 不修改最左侧的非零部分
+      const caretUpper: SemVer =
+        major > 0 || minor === null
+          ? { major: major + 1, minor: 0, patch: 0, prerelease: [] }
+          : minor > 0 || patch === null
+            ? { major: 0, minor: minor + 1, patch: 0, prerelease: [] }
+            : { major: 0, minor: 0, patch: patch + 1, prerelease: [] };
+      return version => cmp(version) >= 0 && compareVersions(version, caretUpper) < 0;
+    }
+    case '~': {
+      const tildeUpper: SemVer =
+        minor === null
+          ? { major: major + 1, minor: 0, patch: 0, prerelease: [] }
+          : { major, minor: minor + 1, patch: 0, prerelease: [] };
+      return version => cmp(version) >= 0 && compareVersions(version, tildeUpper) < 0;
+    }
+    case '>':
+      return version => (upper ? compareVersions(version, upper) >= 0 : cmp(version) > 0);
+    case '>=':
+      return version => cmp(version) >= 0;
+    case '<':
+      return version => cmp(version) < 0;
+    case '<=':
+      return version => (upper ? belowUpper(version) : cmp(version) <= 0);
+    default:
+      return version => cmp(version) >= 0 && (upper ? belowUpper(version) : cmp(version) === 0);
+  }
+}
+
+/**
+ * 比较预发布标识，没有预发布标识的版本更大
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const left = /^\d+$/.test(a[i]) ? Number(a[i]) : null;
+    const right = /^\d+$/.test(b[i]) ? Number(b[i]) : null;
+
+    // 数字标识小于字母标识
+    if (left !== null && right !== null) return left - right;
+    if (left !== null) return -1;
+    if (right !== null) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function toSemVer(version: string | SemVer): SemVer {
+  if (typeof version !== 'string') {
+    return version;
+  }
+
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new Error(`无效的版本号: ${version}`);
+  }
+  return parsed;
+}
@@ -1,6 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import React from 'react';
-import { ReactiveUploader, ReactiveUploaderOptions, UploadState } from '../reactive-uploader';
+import {
+  ReactiveUploader,
+  ReactiveUploaderOptions,
+  UploadHandle,
+  UploadState
+} from '../reactive-uploader';
+import { Subscription } from '../observable';
+import type { UploadItem } from '../types';
 
 /**
  * 上传钩子返回值类型
@@ -91,6 +98,121 @@ export function useFileUpload(options: ReactiveUploaderOptions): UseFileUploadRe
   };
 }
 
+/**
+ * 多文件上传钩子返回值类型
+ */
+export interface UseMultiFileUploadResult {
+  /** 本钩子开始的所有上传，按开始顺序排列 */
+  uploads: UploadItem[];
+  /** 上传多个文件方法 */
+  upload: (files: File[] | FileList) => UploadHandle[];
+  /** 暂停所有上传方法 */
+  pause: () => void;
+  /** 恢复所有上传方法 */
+  resume: () => void;
+  /** 取消所有上传方法 */
+  cancel: () => void;
+  /** 移除已结束的上传 */
+  clearSettled: () => void;
+  /** 上传器实例 */
+  uploader: ReactiveUploader;
+}
+
+/**
+ * React多文件上传钩子
+ * 每个文件使用独立的上传句柄，状态互不覆盖；上传器随组件创建，组件卸载时取消未结束的上传
+ * @param options 上传选项
+ * @returns 各文件的上传状态和控制方法
+ */
+export function useMultiFileUpload(options: ReactiveUploaderOptions): UseMultiFileUploadResult {
+  // 创建并保存上传器引用，确保只创建一次
+  const uploaderRef = useRef<ReactiveUploader | null>(null);
+  if (!uploaderRef.current) {
+    uploaderRef.current = new ReactiveUploader(options);
+  }
+
+  const uploader = uploaderRef.current;
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const subscriptionsRef = useRef<Map<string, Subscription>>(new Map());
+
+  // 卸载时取消所有句柄的订阅和未结束的上传
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach(subscription => subscription.unsubscribe());
+      subscriptions.clear();
+      uploader.cancel();
+    };
+  }, [uploader]);
+
+  // 上传文件方法
+  const upload = useCallback(
+    (files: File[] | FileList) => {
+      const handles = Array.from(files).map(file => uploader.upload(file));
+
+      setUploads(prev => [
+        ...prev,
+        ...handles.map(handle => ({ id: handle.id, state: handle.state, handle }))
+      ]);
+
+      handles.forEach(handle => {
+        const subscription = handle.state$.subscribe((state: UploadState) => {
+          setUploads(prev => prev.map(item => (item.id === handle.id ? { ...item, state } : item)));
+        });
+        subscriptionsRef.current.set(handle.id, subscription);
+      });
+
+      return handles;
+    },
+    [uploader]
+  );
+
+  // 暂停上传方法
+  const pause = useCallback(() => {
+    uploader.pause();
+  }, [uploader]);
+
+  // 恢复上传方法
+  const resume = useCallback(() => {
+    uploader.resume();
+  }, [uploader]);
+
+  // 取消上传方法
+  const cancel = useCallback(() => {
+    uploader.cancel();
+  }, [uploader]);
+
+  // 移除已结束的上传
+  const clearSettled = useCallback(() => {
+    setUploads(prev =>
+      prev.filter(item => {
+        if (!isSettled(item.state)) return true;
+
+        subscriptionsRef.current.get(item.id)?.unsubscribe();
+        subscriptionsRef.current.delete(item.id);
+        return false;
+      })
+    );
+  }, []);
+
+  return {
+    uploads,
+    upload,
+    pause,
+    resume,
+    cancel,
+    clearSettled,
+    uploader
+  };
+}
+
+/**
+ * 上传是否已结束
+ */
+function isSettled(state: UploadState): boolean {
+  return ['completed', 'ready', 'rejected', 'error', 'canceled'].includes(state.status);
+}
+
 /**
  * 进度追踪钩子
  * @param uploader 上传器实例
@@ -1,7 +1,12 @@
-import { ref, reactive, onMounted, onUnmounted, watch } from 'vue';
-import { ReactiveUploader, ReactiveUploaderOptions, UploadState } from '../reactive-uploader';
+import { ref, reactive, onMounted, onUnmounted, watch, Ref } from 'vue';
+import {
+  ReactiveUploader,
+  ReactiveUploaderOptions,
+  UploadHandle,
+  UploadState
+} from '../reactive-uploader';
 import { Subscription } from '../observable';
-import type { ReactiveUploaderInterface } from '../types';
+import type { ReactiveUploaderInterface, UploadItem } from '../types';
 
 /**
  * 上传器接口，用于解决类型不兼容问题
@@ -142,6 +147,98 @@ export function useUploader(options: ReactiveUploaderOptions): UseUploaderResult
   };
 }
 
+/**
+ * 多文件上传组合函数返回值接口
+ */
+export interface UseMultiUploaderResult {
+  /** 本组合函数开始的所有上传，按开始顺序排列 */
+  uploads: Ref<UploadItem[]>;
+  /** 未结束的上传数 */
+  activeCount: Ref<number>;
+  /** 上传多个文件方法 */
+  upload: (files: File[] | FileList) => UploadHandle[];
+  /** 暂停所有上传方法 */
+  pause: () => void;
+  /** 恢复所有上传方法 */
+  resume: () => void;
+  /** 取消所有上传方法 */
+  cancel: () => void;
+  /** 移除已结束的上传 */
+  clearSettled: () => void;
+  /** 上传器实例 */
+  uploader: ReactiveUploader;
+}
+
+/**
+ * Vue多文件上传组合函数
+ * 每个文件使用独立的上传句柄，状态互不覆盖；上传器随组件创建，组件卸载时取消未结束的上传
+ * @param options 上传选项
+ * @returns 各文件的上传状态和控制方法
+ */
+export function useMultiUploader(options: ReactiveUploaderOptions): UseMultiUploaderResult {
+  const uploader = new ReactiveUploader(options);
+  const uploads = ref<UploadItem[]>([]) as Ref<UploadItem[]>;
+  const activeCount = ref(0);
+
+  // 每个句柄的状态订阅
+  const subscriptions = new Map<string, Subscription>();
+  const activeSubscription = uploader.uploads$.subscribe(handles => {
+    activeCount.value = handles.length;
+  });
+
+  onUnmounted(() => {
+    // 清理订阅并取消未结束的上传
+    activeSubscription.unsubscribe();
+    subscriptions.forEach(sub => sub.unsubscribe());
+    subscriptions.clear();
+    uploader.cancel();
+  });
+
+  // 上传方法
+  const upload = (files: File[] | FileList) => {
+    const handles = Array.from(files).map(file => uploader.upload(file));
+
+    handles.forEach(handle => {
+      uploads.value.push({ id: handle.id, state: handle.state, handle });
+      subscriptions.set(
+        handle.id,
+        handle.state$.subscribe(state => {
+          const item = uploads.value.find(upload => upload.id === handle.id);
+          if (item) {
+            item.state = state;
+          }
+        })
+      );
+    });
+
+    return handles;
+  };
+
+  // 移除已结束的上传
+  const clearSettled = () => {
+    uploads.value = uploads.value.filter(item => {
+      if (!['completed', 'ready', 'rejected', 'error', 'canceled'].includes(item.state.status)) {
+        return true;
+      }
+
+      subscriptions.get(item.id)?.unsubscribe();
+      subscriptions.delete(item.id);
+      return false;
+    });
+  };
+
+  return {
+    uploads,
+    activeCount,
+    upload,
+    pause: () => uploader.pause(),
+    resume: () => uploader.resume(),
+    cancel: () => uploader.cancel(),
+    clearSettled,
+    uploader
+  };
+}
+
 /**
  * 拖放上传钩子
  * @param uploader 上传器实例
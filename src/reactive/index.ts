@@ -4,10 +4,27 @@
 export {
   ReactiveUploader,
   ReactiveUploaderOptions,
+  UploadHandle,
   UploadState,
-  UploadStatus
+  UploadStatus,
+  UPLOAD_QUEUE_FULL_ERROR_CODE
 } from './reactive-uploader';
-export { Observable, BehaviorSubject, Observer, Subscription } from './observable';
+export { ReactiveUploaderInterface, UploadItem } from './types';
+export {
+  Observable,
+  BehaviorSubject,
+  Observer,
+  Subscription,
+  Subscribable,
+  InteropObservable,
+  ObservableInput,
+  observableSymbol,
+  from,
+  fromEvent,
+  fromPromise,
+  of,
+  combineLatest
+} from './observable';
 export {
   map,
   filter,
@@ -20,7 +37,16 @@ export {
   catchError,
   retry,
   switchMap,
-  startWith
+  startWith,
+  mergeMap,
+  concatMap,
+  scan,
+  bufferTime,
+  sampleTime,
+  withLatestFrom,
+  share,
+  shareReplay,
+  ShareReplayConfig
 } from './operators';
 // 暂时注释掉hooks导出，等框架依赖安装后再启用
 // export * from './hooks';
@@ -1,5 +1,19 @@
 import { noop } from '../utils';
 
+declare global {
+  interface SymbolConstructor {
+    /** TC39 Observable提案的互操作符号，与RxJS的声明一致 */
+    readonly observable: symbol;
+  }
+}
+
+/**
+ * 互操作符号
+ * 与RxJS相同，运行环境没有Symbol.observable时使用'@@observable'
+ */
+export const observableSymbol: symbol | string =
+  (typeof Symbol === 'function' && Symbol.observable) || '@@observable';
+
 /**
  * 观察者接口定义
  */
@@ -17,14 +31,48 @@ export interface Subscription {
   closed: boolean;
 }
 
+/**
+ * 可订阅对象，RxJS等库的Observable都满足此接口
+ */
+export interface Subscribable<T> {
+  subscribe(observer: Partial<Observer<T>>): { unsubscribe(): void };
+}
+
+/**
+ * 实现Symbol.observable互操作协议的对象
+ */
+export interface InteropObservable<T> {
+  [Symbol.observable](): Subscribable<T>;
+}
+
+/**
+ * 可转换为Observable的输入
+ */
+export type ObservableInput<T> =
+  | Subscribable<T>
+  | InteropObservable<T>
+  | PromiseLike<T>
+  | ArrayLike<T>
+  | Iterable<T>;
+
 /**
  * 操作符函数类型
  */
 export type OperatorFunction<T, R> = (source: Observable<T>) => Observable<R>;
 
+/**
+ * 互操作方法的类型声明
+ * 方法以observableSymbol为键实现，运行环境没有Symbol.observable时键为'@@observable'，与RxJS一致
+ */
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
+export interface Observable<T> {
+  [Symbol.observable](): Observable<T>;
+}
+
 /**
  * 可观察对象基础实现
  */
+// eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
 export class Observable<T> {
   /**
    * 构造函数
@@ -43,13 +91,15 @@ export class Observable<T> {
     error?: (error: any) => void,
     complete?: () => void
   ): Subscription {
+    // 以方法形式调用传入的观察者，RxJS的Subscriber等依赖this
+    const partial = typeof observerOrNext === 'function' ? undefined : observerOrNext;
     const observer: Observer<T> =
       typeof observerOrNext === 'function'
         ? { next: observerOrNext, error: error || noop, complete: complete || noop }
         : {
-            next: observerOrNext?.next || noop,
-            error: observerOrNext?.error || error || noop,
-            complete: observerOrNext?.complete || complete || noop
+            next: partial?.next ? value => partial.next!(value) : noop,
+            error: partial?.error ? err => partial.error!(err) : error || noop,
+            complete: partial?.complete ? () => partial.complete!() : complete || noop
           };
 
     let closed = false;
@@ -82,6 +132,13 @@ export class Observable<T> {
     };
   }
 
+  /**
+   * Symbol.observable互操作，使RxJS的from等方法可以直接接收本Observable
+   */
+  public [observableSymbol](): Observable<T> {
+    return this;
+  }
+
   /**
    * 映射操作符 - 转换值
    * @param project 映射函数
@@ -355,3 +412,82 @@ export function of<T>(...values: T[]): Observable<T> {
     };
   });
 }
+
+/**
+ * 将互操作Observable、Promise或可迭代对象转换为Observable
+ * @param input 输入，如RxJS的Observable
+ */
+export function from<T>(input: ObservableInput<T>): Observable<T> {
+  if (input instanceof Observable) {
+    return input;
+  }
+
+  const interop = (input as any)[observableSymbol];
+  if (typeof interop === 'function' || typeof (input as any).subscribe === 'function') {
+    const target: Subscribable<T> = typeof interop === 'function' ? interop.call(input) : input;
+    return new Observable<T>(observer => {
+      const subscription = target.subscribe(observer);
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  if (typeof (input as any).then === 'function') {
+    return fromPromise(Promise.resolve(input as PromiseLike<T>));
+  }
+
+  if (typeof (input as any)[Symbol.iterator] === 'function' || 'length' in input) {
+    return of(...Array.from(input as ArrayLike<T>));
+  }
+
+  throw new TypeError('无法转换为Observable的输入');
+}
+
+/**
+ * 组合多个Observable的最新值
+ * 所有输入都发出过值后，任一输入发出新值时发出各输入最新值组成的数组；
+ * 所有输入完成时完成，有输入未发出值就完成时直接完成
+ * @param sources 输入Observable
+ */
+export function combineLatest<T extends unknown[]>(
+  sources: [...{ [K in keyof T]: ObservableInput<T[K]> }]
+): Observable<T> {
+  return new Observable<T>(observer => {
+    const values: unknown[] = new Array(sources.length);
+    const hasValue: boolean[] = new Array(sources.length).fill(false);
+    const subscriptions: Subscription[] = [];
+    let completed = 0;
+
+    if (sources.length === 0) {
+      observer.complete();
+      return;
+    }
+
+    let ended = false;
+    sources.forEach((source, index) => {
+      if (ended) return;
+
+      subscriptions.push(
+        from(source as ObservableInput<unknown>).subscribe({
+          next: value => {
+            values[index] = value;
+            hasValue[index] = true;
+            if (hasValue.every(Boolean)) {
+              observer.next(values.slice() as T);
+            }
+          },
+          error: err => observer.error(err),
+          complete: () => {
+            completed++;
+            if (!ended && (completed === sources.length || !hasValue[index])) {
+              ended = true;
+              observer.complete();
+              subscriptions.forEach(sub => sub.unsubscribe());
+            }
+          }
+        })
+      );
+    });
+
+    return () => subscriptions.forEach(sub => sub.unsubscribe());
+  });
+}
@@ -1,7 +1,14 @@
 /**
  * 响应式操作符
  */
-import { Observable, OperatorFunction } from './observable';
+import {
+  Observable,
+  ObservableInput,
+  Observer,
+  OperatorFunction,
+  Subscription,
+  from
+} from './observable';
 
 /**
  * map操作符 - 转换值
@@ -362,3 +369,380 @@ export function startWith<T>(value: T): OperatorFunction<T, T> {
     });
   };
 }
+
+/**
+ * mergeMap操作符 - 将每个源值映射到Observable并合并输出
+ * 超过并发数的源值排队，等有内部Observable完成后再订阅
+ * @param project 映射函数
+ * @param concurrency 同时订阅的内部Observable数量上限
+ * @returns 操作符函数
+ */
+export function mergeMap<T, R>(
+  project: (value: T, index: number) => ObservableInput<R>,
+  concurrency: number = Infinity
+): OperatorFunction<T, R> {
+  return (source: Observable<T>): Observable<R> => {
+    return new Observable<R>(observer => {
+      const buffer: T[] = [];
+      const innerSubscriptions = new Set<Subscription>();
+      let active = 0;
+      let index = 0;
+      let outerCompleted = false;
+
+      const checkComplete = () => {
+        if (outerCompleted && active === 0 && buffer.length === 0) {
+          observer.complete();
+        }
+      };
+
+      const subscribeInner = (value: T) => {
+        let inner: Observable<R>;
+        try {
+          inner = from(project(value, index++));
+        } catch (err) {
+          observer.error(err);
+          return;
+        }
+
+        active++;
+        let innerCompleted = false;
+        let subscription: Subscription | null = null;
+        subscription = inner.subscribe({
+          next: innerValue => observer.next(innerValue),
+          error: err => observer.error(err),
+          complete: () => {
+            innerCompleted = true;
+            active--;
+            // 同步完成时订阅尚未返回，不需要移除
+            if (subscription) {
+              innerSubscriptions.delete(subscription);
+            }
+
+            if (buffer.length > 0) {
+              subscribeInner(buffer.shift() as T);
+            } else {
+              checkComplete();
+            }
+          }
+        });
+
+        if (!innerCompleted) {
+          innerSubscriptions.add(subscription);
+        }
+      };
+
+      const outerSubscription = source.subscribe({
+        next: value => {
+          if (active < concurrency) {
+            subscribeInner(value);
+          } else {
+            buffer.push(value);
+          }
+        },
+        error: err => observer.error(err),
+        complete: () => {
+          outerCompleted = true;
+          checkComplete();
+        }
+      });
+
+      return {
+        unsubscribe: () => {
+          buffer.length = 0;
+          innerSubscriptions.forEach(sub => sub.unsubscribe());
+          innerSubscriptions.clear();
+          outerSubscription.unsubscribe();
+        },
+        closed: false
+      };
+    });
+  };
+}
+
+/**
+ * concatMap操作符 - 将每个源值映射到Observable，按顺序逐个订阅
+ * @param project 映射函数
+ * @returns 操作符函数
+ */
+export function concatMap<T, R>(
+  project: (value: T, index: number) => ObservableInput<R>
+): OperatorFunction<T, R> {
+  return mergeMap(project, 1);
+}
+
+/**
+ * scan操作符 - 累积源值并发出每次累积的结果
+ * @param accumulator 累积函数
+ * @param seed 初始值
+ * @returns 操作符函数
+ */
+export function scan<T, R>(
+  accumulator: (acc: R, value: T, index: number) => R,
+  seed: R
+): OperatorFunction<T, R> {
+  return (source: Observable<T>): Observable<R> => {
+    return new Observable<R>(observer => {
+      let acc = seed;
+      let index = 0;
+
+      return source.subscribe({
+        next: value => {
+          try {
+            acc = accumulator(acc, value, index++);
+            observer.next(acc);
+          } catch (err) {
+            observer.error(err);
+          }
+        },
+        error: err => observer.error(err),
+        complete: () => observer.complete()
+      });
+    });
+  };
+}
+
+/**
+ * bufferTime操作符 - 按固定时间间隔发出期间收集的源值数组
+ * 与RxJS一致，间隔内没有值时发出空数组，源完成时发出剩余的值
+ * @param time 间隔时间(ms)
+ * @returns 操作符函数
+ */
+export function bufferTime<T>(time: number): OperatorFunction<T, T[]> {
+  return (source: Observable<T>): Observable<T[]> => {
+    return new Observable<T[]>(observer => {
+      let buffer: T[] = [];
+
+      const interval = setInterval(() => {
+        const values = buffer;
+        buffer = [];
+        observer.next(values);
+      }, time);
+
+      const subscription = source.subscribe({
+        next: value => buffer.push(value),
+        error: err => {
+          clearInterval(interval);
+          observer.error(err);
+        },
+        complete: () => {
+          clearInterval(interval);
+          observer.next(buffer);
+          observer.complete();
+        }
+      });
+
+      return {
+        unsubscribe: () => {
+          clearInterval(interval);
+          subscription.unsubscribe();
+        },
+        closed: false
+      };
+    });
+  };
+}
+
+/**
+ * sampleTime操作符 - 按固定时间间隔发出期间最新的源值
+ * 间隔内没有新值时不发出，源完成时不再发出未采样的值
+ * @param time 采样间隔(ms)
+ * @returns 操作符函数
+ */
+export function sampleTime<T>(time: number): OperatorFunction<T, T> {
+  return (source: Observable<T>): Observable<T> => {
+    return new Observable<T>(observer => {
+      let lastValue: T | undefined;
+      let hasValue = false;
+
+      const interval = setInterval(() => {
+        if (hasValue) {
+          hasValue = false;
+          observer.next(lastValue as T);
+        }
+      }, time);
+
+      const subscription = source.subscribe({
+        next: value => {
+          lastValue = value;
+          hasValue = true;
+        },
+        error: err => {
+          clearInterval(interval);
+          observer.error(err);
+        },
+        complete: () => {
+          clearInterval(interval);
+          observer.complete();
+        }
+      });
+
+      return {
+        unsubscribe: () => {
+          clearInterval(interval);
+          subscription.unsubscribe();
+        },
+        closed: false
+      };
+    });
+  };
+}
+
+/**
+ * withLatestFrom操作符 - 源发出值时附带其他Observable的最新值
+ * 其他Observable都发出过值之前，源值被忽略
+ * @param inputs 其他Observable
+ * @returns 操作符函数
+ */
+export function withLatestFrom<T, O extends unknown[]>(
+  ...inputs: [...{ [K in keyof O]: ObservableInput<O[K]> }]
+): OperatorFunction<T, [T, ...O]> {
+  return (source: Observable<T>): Observable<[T, ...O]> => {
+    return new Observable<[T, ...O]>(observer => {
+      const latest: unknown[] = new Array(inputs.length);
+      const hasValue: boolean[] = new Array(inputs.length).fill(false);
+
+      // 先订阅其他Observable，使同步发出的值可用
+      const inputSubscriptions = inputs.map((input, index) =>
+        from(input as ObservableInput<unknown>).subscribe({
+          next: value => {
+            latest[index] = value;
+            hasValue[index] = true;
+          },
+          error: err => observer.error(err)
+        })
+      );
+
+      const subscription = source.subscribe({
+        next: value => {
+          if (hasValue.every(Boolean)) {
+            observer.next([value, ...latest] as [T, ...O]);
+          }
+        },
+        error: err => observer.error(err),
+        complete: () => observer.complete()
+      });
+
+      return {
+        unsubscribe: () => {
+          inputSubscriptions.forEach(sub => sub.unsubscribe());
+          subscription.unsubscribe();
+        },
+        closed: false
+      };
+    });
+  };
+}
+
+/**
+ * share操作符 - 多个订阅者共享同一个源订阅
+ * 第一个订阅者订阅时连接源，最后一个订阅者取消订阅或源结束时断开，之后再订阅会重新连接
+ * @returns 操作符函数
+ */
+export function share<T>(): OperatorFunction<T, T> {
+  return (source: Observable<T>): Observable<T> =>
+    multicast(source, { bufferSize: 0, resetOnComplete: true, resetOnRefCountZero: true });
+}
+
+/**
+ * shareReplay配置
+ */
+export interface ShareReplayConfig {
+  /** 重放给新订阅者的值的数量，默认全部 */
+  bufferSize?: number;
+  /** 所有订阅者取消订阅时是否断开源，默认保持连接 */
+  refCount?: boolean;
+}
+
+/**
+ * shareReplay操作符 - 共享源订阅，并向新订阅者重放最近的值
+ * 源完成后新订阅者收到重放的值和完成通知，源出错后再订阅会重新连接
+ * @param config 重放数量或配置
+ * @returns 操作符函数
+ */
+export function shareReplay<T>(config: number | ShareReplayConfig = {}): OperatorFunction<T, T> {
+  const { bufferSize = Infinity, refCount = false } =
+    typeof config === 'number' ? { bufferSize: config } : config;
+
+  return (source: Observable<T>): Observable<T> =>
+    multicast(source, { bufferSize, resetOnComplete: false, resetOnRefCountZero: refCount });
+}
+
+/**
+ * 共享源订阅的实现
+ */
+function multicast<T>(
+  source: Observable<T>,
+  options: { bufferSize: number; resetOnComplete: boolean; resetOnRefCountZero: boolean }
+): Observable<T> {
+  const observers = new Set<Observer<T>>();
+  let buffer: T[] = [];
+  let connection: Subscription | null = null;
+  let connected = false;
+  let completed = false;
+
+  const reset = () => {
+    connection?.unsubscribe();
+    connection = null;
+    connected = false;
+    completed = false;
+    buffer = [];
+  };
+
+  // 结束时先移除订阅者，通知中的重新订阅会重新连接
+  const drain = () => {
+    const current = Array.from(observers);
+    observers.clear();
+    return current;
+  };
+
+  return new Observable<T>(observer => {
+    buffer.forEach(value => observer.next(value));
+    if (completed) {
+      observer.complete();
+      return;
+    }
+
+    observers.add(observer);
+
+    if (!connected) {
+      connected = true;
+      const subscription = source.subscribe({
+        next: value => {
+          if (options.bufferSize > 0) {
+            buffer.push(value);
+            if (buffer.length > options.bufferSize) {
+              buffer.shift();
+            }
+          }
+          Array.from(observers).forEach(current => current.next(value));
+        },
+        error: err => {
+          const current = drain();
+          reset();
+          current.forEach(item => item.error(err));
+        },
+        complete: () => {
+          const current = drain();
+          if (options.resetOnComplete) {
+            reset();
+          } else {
+            completed = true;
+          }
+          current.forEach(item => item.complete());
+        }
+      });
+
+      // 源同步结束并重置时不保留订阅
+      if (connected) {
+        connection = subscription;
+      }
+    }
+
+    return () => {
+      observers.delete(observer);
+      if (observers.size === 0 && options.resetOnRefCountZero && !completed) {
+        reset();
+      }
+    };
+  });
+}
@@ -1,12 +1,21 @@
 import { BehaviorSubject, Observable } from './observable';
 import { map, filter, distinctUntilChanged } from './operators';
 import { FileChunkKernel } from '../core/kernel';
-import { HttpTransport } from '../modules/transport/implementations/http-transport';
-import { BrowserAdapter } from '../platforms/browser/browser-adapter';
-import { WechatAdapter } from '../platforms/miniapp/wechat-adapter';
-import { IndexedDBStorage } from '../modules/storage/indexeddb-storage';
-import { TaroAdapter } from '../platforms/miniapp/taro-adapter';
-import { UniAppAdapter } from '../platforms/miniapp/uniapp-adapter';
+import { FileChunkEventMap, FileChunkEventName } from '../core/event-map';
+import {
+  HttpTransport,
+  UPLOAD_PAUSED_ERROR_CODE
+} from '../modules/transport/implementations/http-transport';
+import { PlatformAdapter } from '../platforms/platform-base';
+import { PlatformName, detectPlatform } from '../platforms/detect-platform';
+import { StorageEngine } from '../modules/storage/storage-engine';
+import { UploadStage } from '../modules/transport/interfaces';
+import { createDefaultStorage, registerUploaderModules } from '../uploader/uploader-modules';
+
+/**
+ * 达到背压高水位线时拒绝新上传的错误代码
+ */
+export const UPLOAD_QUEUE_FULL_ERROR_CODE = 'UPLOAD_QUEUE_FULL';
 
 /**
  * 上传状态类型
@@ -17,6 +26,9 @@ export type UploadStatus =
   | 'uploading'
   | 'paused'
   | 'completed'
+  | 'processing'
+  | 'ready'
+  | 'rejected'
   | 'error'
   | 'canceled';
 
@@ -29,6 +41,12 @@ export interface UploadState {
   file: File | null;
   error: Error | null;
   result: any;
+  /** 当前阶段：上传中或服务端后处理中 */
+  stage?: UploadStage;
+  /** 服务端后处理步骤名称 */
+  stageName?: string;
+  /** 服务端后处理步骤进度(0-100) */
+  stageProgress?: number;
 }
 
 /**
@@ -53,22 +71,168 @@ export interface ReactiveUploaderOptions {
   headers?: Record<string, string>;
   /** 自动检测最佳分片大小 */
   autoChunkSize?: boolean;
-  /** 自定义平台适配器 */
-  platform?: string;
-  /** 背压阈值 - 当队列中未处理项超过此值时应用背压策略 */
+  /** 平台名称或自定义平台适配器 */
+  platform?: PlatformName | PlatformAdapter;
+  /** 存储引擎，默认按平台选择（与createUploader相同），传入false不注册存储模块 */
+  storage?: StorageEngine | false;
+  /** 背压阈值 - 当未结束的上传数达到此值时应用背压策略 */
   backpressureThreshold?: number;
   /** 背压高水位线 - 当达到此阈值时暂停添加新项 */
   highWaterMark?: number;
 }
 
+/**
+ * 单个文件的上传句柄
+ * 各上传的状态流相互独立，上传结束（完成、失败或取消）后流随之完成
+ */
+export interface UploadHandle {
+  /** 上传ID，同时作为传输任务ID */
+  readonly id: string;
+  /** 上传的文件 */
+  readonly file: File;
+  /** 当前状态 */
+  readonly state: UploadState;
+  /** 状态流 */
+  readonly state$: Observable<UploadState>;
+  /** 进度流 */
+  readonly progress$: Observable<number>;
+  /** 状态变化流 */
+  readonly status$: Observable<UploadStatus>;
+  /** 错误流 */
+  readonly error$: Observable<Error>;
+  /** 完成流，发出上传结果 */
+  readonly completed$: Observable<any>;
+  /** 暂停上传 */
+  pause(): void;
+  /** 恢复已暂停的上传 */
+  resume(): void;
+  /** 取消上传 */
+  cancel(): void;
+}
+
+/**
+ * 上传已结束的状态
+ */
+const SETTLED_STATUSES: UploadStatus[] = ['completed', 'ready', 'rejected', 'error', 'canceled'];
+
+/**
+ * 上传句柄委托给上传器的控制方法
+ */
+interface UploadControls {
+  pause(handle: ReactiveUploadHandle): void;
+  resume(handle: ReactiveUploadHandle): void;
+  cancel(handle: ReactiveUploadHandle): void;
+  stateChanged(handle: ReactiveUploadHandle): void;
+}
+
+/**
+ * 从状态流派生进度、状态、错误和完成流
+ */
+function deriveStreams(state$: Observable<UploadState>) {
+  return {
+    progress$: state$.pipe<number>(
+      map((state: UploadState) => state.progress),
+      distinctUntilChanged()
+    ),
+    status$: state$.pipe<UploadStatus>(
+      map((state: UploadState) => state.status),
+      distinctUntilChanged()
+    ),
+    error$: state$.pipe<Error>(
+      filter((state: UploadState) => state.status === 'error' || state.status === 'rejected'),
+      map((state: UploadState) => state.error as Error)
+    ),
+    completed$: state$.pipe<any>(
+      filter((state: UploadState) => state.status === 'completed' || state.status === 'ready'),
+      map((state: UploadState) => state.result)
+    )
+  };
+}
+
+/**
+ * 上传句柄实现
+ */
+class ReactiveUploadHandle implements UploadHandle {
+  readonly state$: Observable<UploadState>;
+  readonly progress$: Observable<number>;
+  readonly status$: Observable<UploadStatus>;
+  readonly error$: Observable<Error>;
+  readonly completed$: Observable<any>;
+
+  private subject: BehaviorSubject<UploadState>;
+
+  constructor(
+    readonly id: string,
+    readonly file: File,
+    private controls: UploadControls
+  ) {
+    this.subject = new BehaviorSubject<UploadState>({
+      status: 'preparing',
+      progress: 0,
+      file,
+      error: null,
+      result: null,
+      stage: 'upload'
+    });
+    this.state$ = this.subject.asObservable();
+
+    const streams = deriveStreams(this.state$);
+    this.progress$ = streams.progress$;
+    this.status$ = streams.status$;
+    this.error$ = streams.error$;
+    this.completed$ = streams.completed$;
+  }
+
+  get state(): UploadState {
+    return this.subject.value;
+  }
+
+  get settled(): boolean {
+    return SETTLED_STATUSES.includes(this.state.status);
+  }
+
+  update(newState: Partial<UploadState>): void {
+    this.subject.next({ ...this.subject.value, ...newState });
+    this.controls.stateChanged(this);
+  }
+
+  complete(): void {
+    this.subject.complete();
+  }
+
+  pause(): void {
+    this.controls.pause(this);
+  }
+
+  resume(): void {
+    this.controls.resume(this);
+  }
+
+  cancel(): void {
+    this.controls.cancel(this);
+  }
+}
+
 /**
  * 响应式上传器 - 提供基于Observable的文件上传API
+ *
+ * 每次upload返回独立的上传句柄，多个文件同时上传时状态互不影响；
+ * 实例上的state$等流跟随最近一次开始的上传，uploads$发出所有未结束的上传句柄。
  */
 export class ReactiveUploader {
   /** 内部微内核实例 */
   private kernel: FileChunkKernel;
 
-  /** 内部状态流 */
+  /** 平台适配器 */
+  private platform: PlatformAdapter;
+
+  /** 传输模块 */
+  private transport: HttpTransport;
+
+  /** 模块初始化 */
+  private initPromise: Promise<void> | null = null;
+
+  /** 最近一次上传的状态 */
   private _state$: BehaviorSubject<UploadState>;
 
   /** 公开状态流（只读） */
@@ -86,12 +250,36 @@ export class ReactiveUploader {
   /** 完成流 */
   public completed$: Observable<any>;
 
-  /** 当前队列长度 */
-  private queueSize = 0;
+  /** 未结束的上传句柄 */
+  private _uploads$: BehaviorSubject<UploadHandle[]>;
+
+  /** 所有未结束的上传句柄流 */
+  public uploads$: Observable<UploadHandle[]>;
+
+  /** 未结束的上传，暂停的上传仍计入 */
+  private handles: Map<string, ReactiveUploadHandle> = new Map();
+
+  /** 最近一次开始的上传 */
+  private current: ReactiveUploadHandle | null = null;
+
+  /** 上传ID序号 */
+  private uploadSeq = 0;
 
   /** 是否应用背压 */
   private backpressureApplied = false;
 
+  /** 上传句柄的控制方法 */
+  private controls: UploadControls = {
+    pause: handle => this.pauseUpload(handle),
+    resume: handle => this.resumeUpload(handle),
+    cancel: handle => this.cancelUpload(handle),
+    stateChanged: handle => {
+      if (handle === this.current) {
+        this._state$.next(handle.state);
+      }
+    }
+  };
+
   /**
    * 创建响应式上传器实例
    * @param options 上传配置选项
@@ -100,6 +288,26 @@ export class ReactiveUploader {
     // 创建微内核实例
     this.kernel = new FileChunkKernel();
 
+    // 按上传器的方式注册平台适配、存储和传输模块
+    const platform =
+      typeof options.platform === 'object' ? options.platform : detectPlatform(options.platform);
+    const modules = registerUploaderModules(this.kernel, {
+      platform,
+      storage: options.storage === false ? null : options.storage || createDefaultStorage(platform),
+      transport: new HttpTransport({
+        target: options.target,
+        chunkSize: options.chunkSize || 2 * 1024 * 1024, // 默认2MB
+        concurrency: options.concurrency || 3,
+        autoRetry: options.autoRetry !== false, // 默认启用
+        maxRetries: options.maxRetries || 3,
+        retryDelay: options.retryDelay || 1000,
+        timeout: options.timeout || 30000,
+        headers: options.headers || {}
+      })
+    });
+    this.platform = modules.platform;
+    this.transport = modules.transport;
+
     // 初始化状态
     this._state$ = new BehaviorSubject<UploadState>({
       status: 'idle',
@@ -113,242 +321,280 @@ export class ReactiveUploader {
     this.state$ = this._state$.asObservable();
 
     // 派生的特定流
-    this.progress$ = this.state$.pipe(
-      map(state => state.progress),
-      distinctUntilChanged()
-    );
-
-    this.status$ = this.state$.pipe(
-      map(state => state.status),
-      distinctUntilChanged()
-    );
+    const streams = deriveStreams(this.state$);
+    this.progress$ = streams.progress$;
+    this.status$ = streams.status$;
+    this.error$ = streams.error$;
+    this.completed$ = streams.completed$;
 
-    this.error$ = this.state$.pipe(
-      filter(state => state.status === 'error'),
-      map(state => state.error as Error)
-    );
-
-    this.completed$ = this.state$.pipe(
-      filter(state => state.status === 'completed'),
-      map(state => state.result)
-    );
-
-    // 初始化模块
-    this.initializeModules();
+    this._uploads$ = new BehaviorSubject<UploadHandle[]>([]);
+    this.uploads$ = this._uploads$.asObservable();
 
     // 连接内核事件到状态流
     this.connectKernelEvents();
   }
 
   /**
-   * 初始化上传模块
-   */
-  private initializeModules(): void {
-    this.kernel
-      // 注册传输模块
-      .registerModule(
-        'transport',
-        new HttpTransport({
-          target: this.options.target,
-          chunkSize: this.options.chunkSize || 2 * 1024 * 1024, // 默认2MB
-          concurrency: this.options.concurrency || 3,
-          autoRetry: this.options.autoRetry !== false, // 默认启用
-          maxRetries: this.options.maxRetries || 3,
-          retryDelay: this.options.retryDelay || 1000,
-          timeout: this.options.timeout || 30000,
-          headers: this.options.headers || {}
-        })
-      )
-      // 注册平台适配器
-      .registerModule('platform', this.detectPlatform())
-      // 注册存储模块
-      .registerModule('storage', new IndexedDBStorage());
-  }
-
-  /**
-   * 检测平台并返回适配器
+   * 等待模块初始化完成
    */
-  private detectPlatform() {
-    // 如果指定了平台，使用指定平台
-    if (this.options.platform) {
-      switch (this.options.platform.toLowerCase()) {
-        case 'browser':
-          return new BrowserAdapter();
-        case 'wechat':
-          return new WechatAdapter();
-        case 'taro':
-          return new TaroAdapter();
-        case 'uniapp':
-          return new UniAppAdapter();
-        default:
-          throw new Error(`不支持的平台: ${this.options.platform}`);
-      }
-    }
-
-    // 自动检测平台
-    if (typeof window !== 'undefined') {
-      return new BrowserAdapter();
-    }
-
-    if (typeof wx !== 'undefined' && typeof wx.uploadFile === 'function') {
-      return new WechatAdapter();
-    }
-
-    // Taro环境检测
-    if (typeof process !== 'undefined' && process.env && process.env.TARO_ENV) {
-      return new TaroAdapter();
-    }
+  private ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.kernel.initializeAll().then(report => {
+        if (report.success) return;
 
-    // UniApp环境检测
-    if (typeof window !== 'undefined' && typeof (window as any).uni !== 'undefined') {
-      return new UniAppAdapter();
+        const failed = report.failed.map(failure => failure.moduleId);
+        throw new Error(`上传器模块初始化失败: ${failed.join(', ')}`);
+      });
     }
 
-    throw new Error('未检测到支持的运行环境');
+    return this.initPromise;
   }
 
   /**
-   * 连接内核事件到状态流
+   * 连接传输模块事件到对应上传的状态流
    */
   private connectKernelEvents(): void {
-    this.kernel.on('stateChange', state => {
-      this._state$.next({ ...this._state$.value, ...state });
-    });
-
-    // 进度更新
-    this.kernel.on('progress', (progress?: number) => {
-      if (progress !== undefined) {
-        this.updateState({ progress });
-      }
-    });
-
-    // 上传成功
-    this.kernel.on('success', (result: any) => {
-      this.updateState({
-        status: 'completed',
-        progress: 100,
-        result
+    const eventBus = this.kernel.getEventBus();
+
+    // 传输任务状态，包含服务端后处理阶段（processing → ready/rejected）
+    eventBus.on('transport:statusChanged', event => {
+      const handle = event && this.handles.get(event.taskId);
+      if (!handle || event.status === 'idle') return;
+
+      const processing =
+        event.status === 'processing' || event.status === 'ready' || event.status === 'rejected';
+
+      handle.update({
+        status: event.status,
+        progress: event.progress,
+        result: event.result ?? handle.state.result,
+        error: event.error ? createTaskError(event.error) : null,
+        ...(processing ? { stage: 'processing' as UploadStage } : {})
       });
     });
 
-    // 上传错误
-    this.kernel.on('error', (error?: Error) => {
-      if (error) {
-        this.updateState({
-          status: 'error',
-          error
+    eventBus.on('transport:progress', event => {
+      const handle = event && this.handles.get(event.taskId);
+      if (!handle) return;
+
+      if (event.stage === 'processing') {
+        handle.update({
+          stage: 'processing',
+          stageName: event.stageName,
+          stageProgress: event.stageProgress
         });
+      } else if (typeof event.progress === 'number') {
+        handle.update({ stage: 'upload', progress: event.progress });
       }
     });
   }
 
   /**
-   * 更新内部状态
+   * 将内核事件总线上的事件转换为可观察流
+   * @param event 事件名称
    */
-  private updateState(newState: Partial<UploadState>): void {
-    this._state$.next({ ...this._state$.value, ...newState });
+  public event$<K extends FileChunkEventName>(event: K): Observable<FileChunkEventMap[K]> {
+    const eventBus = this.kernel.getEventBus();
+
+    return new Observable<FileChunkEventMap[K]>(observer => {
+      const handler = (data: FileChunkEventMap[K]) => observer.next(data);
+      eventBus.on(event, handler);
+      return () => {
+        eventBus.off(event, handler);
+      };
+    });
   }
 
   /**
    * 上传文件
+   * 达到背压高水位线时返回的句柄直接处于错误状态，错误代码为UPLOAD_QUEUE_FULL
    * @param file 要上传的文件
+   * @returns 该文件的上传句柄
    */
-  public upload(file: File): Observable<UploadState> {
+  public upload(file: File): UploadHandle {
+    const handle = new ReactiveUploadHandle(this.createUploadId(), file, this.controls);
+
     // 应用背压策略
     if (
       this.backpressureApplied &&
       this.options.highWaterMark &&
-      this.queueSize >= this.options.highWaterMark
+      this.handles.size >= this.options.highWaterMark
     ) {
-      return new Observable(observer => {
-        observer.error(new Error('上传队列已满，请稍后再试'));
-        return {
-          unsubscribe: () => {},
-          closed: false
-        };
-      });
+      const error = new Error('上传队列已满，请稍后再试');
+      (error as any).code = UPLOAD_QUEUE_FULL_ERROR_CODE;
+      handle.update({ status: 'error', error });
+      handle.complete();
+      return handle;
     }
 
-    // 增加队列计数
-    this.queueSize++;
+    this.handles.set(handle.id, handle);
+    this.current = handle;
+    this._state$.next(handle.state);
+    this.publishUploads();
 
     // 检查是否需要应用背压
     this.checkBackpressure();
 
-    // 更新状态
-    this.updateState({
-      file,
-      status: 'preparing',
-      progress: 0,
-      error: null,
-      result: null
-    });
+    void this.run(handle);
 
-    // 触发上传
-    (this.kernel as any)
-      .upload(file)
-      .then((_result: any) => {
-        // 上传成功处理，已通过事件处理
-        this.queueSize = Math.max(0, this.queueSize - 1);
-        this.checkBackpressure();
-      })
-      .catch((_error: any) => {
-        // 错误处理，已通过事件处理
-        this.queueSize = Math.max(0, this.queueSize - 1);
-        this.checkBackpressure();
-      });
+    return handle;
+  }
+
+  /**
+   * 执行上传，上传被暂停时保留句柄，之后恢复时再次执行
+   */
+  private async run(handle: ReactiveUploadHandle): Promise<void> {
+    try {
+      await this.ready();
+
+      // 等待初始化期间被暂停时保留句柄，恢复时再次执行
+      if (handle.state.status === 'paused') return;
+
+      // 等待初始化期间可能已被取消
+      if (handle.state.status !== 'canceled') {
+        const url = await this.transport.uploadFile(handle.file, this.platform, {
+          taskId: handle.id
+        });
+
+        // 完成状态通常已由传输事件更新
+        if (handle.state.status !== 'completed' && handle.state.status !== 'ready') {
+          handle.update({ status: 'completed', progress: 100, result: handle.state.result ?? url });
+        }
+      }
+    } catch (error) {
+      if ((error as any)?.code === UPLOAD_PAUSED_ERROR_CODE) {
+        return;
+      }
 
-    // 返回状态流
-    return this.state$;
+      // 取消和服务端拒绝已通过传输事件更新状态
+      if (handle.state.status !== 'canceled' && handle.state.status !== 'rejected') {
+        handle.update({ status: 'error', error: toError(error) });
+      }
+    }
+
+    this.settle(handle);
+  }
+
+  /**
+   * 结束上传，释放背压计数并完成句柄的状态流
+   */
+  private settle(handle: ReactiveUploadHandle): void {
+    if (!this.handles.delete(handle.id)) return;
+
+    handle.complete();
+    this.publishUploads();
+    this.checkBackpressure();
+  }
+
+  /**
+   * 发出当前未结束的上传句柄
+   */
+  private publishUploads(): void {
+    this._uploads$.next(Array.from(this.handles.values()));
+  }
+
+  /**
+   * 生成上传ID
+   */
+  private createUploadId(): string {
+    return `reactive_${Date.now().toString(36)}_${++this.uploadSeq}`;
   }
 
   /**
    * 检查并应用背压策略
+   * 按未结束的上传数计算，暂停的上传仍占用名额，结束后才释放
    */
   private checkBackpressure(): void {
     if (!this.options.backpressureThreshold) return;
 
-    if (!this.backpressureApplied && this.queueSize >= this.options.backpressureThreshold) {
+    const queueSize = this.handles.size;
+
+    if (!this.backpressureApplied && queueSize >= this.options.backpressureThreshold) {
       this.backpressureApplied = true;
       // 触发背压事件，可用于通知UI暂停接受新的上传
-      this.kernel.emit('backpressure', { applied: true, queueSize: this.queueSize });
-    } else if (this.backpressureApplied && this.queueSize < this.options.backpressureThreshold) {
+      this.kernel.getEventBus().emit('backpressure', { applied: true, queueSize });
+    } else if (this.backpressureApplied && queueSize < this.options.backpressureThreshold) {
       this.backpressureApplied = false;
       // 解除背压，恢复接受新的上传
-      this.kernel.emit('backpressure', { applied: false, queueSize: this.queueSize });
+      this.kernel.getEventBus().emit('backpressure', { applied: false, queueSize });
     }
   }
 
   /**
-   * 暂停上传
+   * 暂停单个上传，准备阶段（计算哈希、秒传检查）也可暂停
    */
-  public pause(): void {
-    if (this._state$.value.status !== 'uploading') return;
+  private pauseUpload(handle: ReactiveUploadHandle): void {
+    const status = handle.state.status;
+    if (status !== 'uploading' && status !== 'preparing') return;
 
-    (this.kernel as any).pause();
-    this.updateState({ status: 'paused' });
+    // 暂停状态由传输模块的状态事件更新；等待初始化期间传输任务尚未创建，直接标记暂停
+    if (!this.transport.pauseTask(handle.id)) {
+      handle.update({ status: 'paused' });
+    }
   }
 
   /**
-   * 恢复上传
+   * 恢复单个上传，以相同任务ID重新上传即可续传
    */
-  public resume(): void {
-    if (this._state$.value.status !== 'paused') return;
+  private resumeUpload(handle: ReactiveUploadHandle): void {
+    if (handle.state.status !== 'paused' || !this.handles.has(handle.id)) return;
 
-    (this.kernel as any).resume();
-    this.updateState({ status: 'uploading' });
+    handle.update({ status: 'preparing' });
+    void this.run(handle);
   }
 
   /**
-   * 取消上传
+   * 取消单个上传
    */
-  public cancel(): void {
-    (this.kernel as any).cancel();
-    this.updateState({
+  private cancelUpload(handle: ReactiveUploadHandle): void {
+    if (handle.settled || !this.handles.has(handle.id)) return;
+
+    const paused = handle.state.status === 'paused';
+    this.transport.cancelTask(handle.id);
+    handle.update({
       status: 'canceled',
       progress: 0,
       error: null,
       result: null
     });
+
+    // 暂停的上传没有进行中的上传调用，直接结束
+    if (paused) {
+      this.settle(handle);
+    }
   }
+
+  /**
+   * 暂停所有上传
+   */
+  public pause(): void {
+    this.handles.forEach(handle => this.pauseUpload(handle));
+  }
+
+  /**
+   * 恢复所有已暂停的上传
+   */
+  public resume(): void {
+    this.handles.forEach(handle => this.resumeUpload(handle));
+  }
+
+  /**
+   * 取消所有上传
+   */
+  public cancel(): void {
+    Array.from(this.handles.values()).forEach(handle => this.cancelUpload(handle));
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error || '上传失败'));
+}
+
+/**
+ * 将传输任务记录的错误转换为Error，保留错误代码
+ */
+function createTaskError(taskError: { message: string; code: string }): Error {
+  const error = new Error(taskError.message);
+  (error as any).code = taskError.code;
+  return error;
 }
@@ -1,5 +1,5 @@
 import { Observable } from './observable';
-import { UploadState } from './reactive-uploader';
+import { UploadHandle, UploadState } from './reactive-uploader';
 
 /**
  * 响应式上传器接口
@@ -15,4 +15,18 @@ export interface ReactiveUploaderInterface {
   error$: Observable<Error>;
   /** 完成流 */
   completed$: Observable<any>;
+  /** 未结束的上传句柄流 */
+  uploads$: Observable<UploadHandle[]>;
+}
+
+/**
+ * 多文件上传中的单个文件
+ */
+export interface UploadItem {
+  /** 上传ID */
+  id: string;
+  /** 该文件的上传状态 */
+  state: UploadState;
+  /** 上传句柄，可单独暂停、恢复或取消 */
+  handle: UploadHandle;
 }
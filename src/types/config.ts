@@ -0,0 +1,63 @@
+/**
+ * 配置项的值类型
+ */
+export type ConfigValueType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  | 'function';
+
+/**
+ * 单个配置项的声明
+ */
+export interface ConfigFieldSchema {
+  type: ConfigValueType | ConfigValueType[]; // 允许的值类型
+  description?: string; // 配置项说明，用于生成配置参考文档
+  default?: unknown; // 默认值
+  required?: boolean; // 是否必须提供
+  min?: number; // 数值最小值
+  max?: number; // 数值最大值
+  enum?: readonly unknown[]; // 允许的取值
+  properties?: ConfigSchema; // 对象类型配置项的子配置项
+  items?: ConfigFieldSchema; // 数组类型配置项的元素声明
+  deprecated?: string; // 弃用说明，设置后使用该配置项时给出警告
+}
+
+/**
+ * 配置声明，键为配置项名称
+ */
+export type ConfigSchema = Record<string, ConfigFieldSchema>;
+
+/**
+ * 配置校验问题
+ */
+export interface ConfigViolation {
+  path: string; // 配置项路径
+  message: string; // 问题描述
+  value: unknown; // 配置项的值
+}
+
+/**
+ * 配置校验结果
+ */
+export interface ConfigValidationResult {
+  valid: boolean;
+  violations: ConfigViolation[]; // 不符合声明的配置项
+  deprecations: ConfigViolation[]; // 使用了已弃用的配置项
+}
+
+/**
+ * 配置校验错误类型，包含所有不符合声明的配置项
+ */
+export class ConfigValidationError extends Error {
+  violations: ConfigViolation[];
+
+  constructor(message: string, violations: ConfigViolation[]) {
+    super(`${message}: ${violations.map(violation => violation.message).join('; ')}`);
+    this.name = 'ConfigValidationError';
+    this.violations = violations;
+  }
+}
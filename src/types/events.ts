@@ -1,7 +1,7 @@
 /**
- * 事件处理器类型
+ * 事件处理器类型，通配符订阅的处理器通过eventName获得实际发布的事件名
  */
-export type EventHandler<T = any> = (eventData: T) => void | Promise<void>;
+export type EventHandler<T = any> = (eventData: T, eventName?: string) => void | Promise<void>;
 
 /**
  * 事件处理器注册信息
@@ -52,6 +52,8 @@ export interface RequestOptions {
   onProgress?: (progress: number) => void;
   /** 任务引用回调 */
   taskRef?: (task: any) => void;
+  /** 是否返回包含状态码和响应头的完整响应 */
+  fullResponse?: boolean;
 }
 
 /**
@@ -1,3 +1,6 @@
+import type { PlatformFeatures } from '../platforms/platform-base';
+import type { ConfigSchema } from './config';
+
 /**
  * 模块状态枚举
  */
@@ -24,6 +27,9 @@ export interface ModuleMetadata {
   dependencies?: string[]; // 依赖的其他模块ID
   implements?: string; // 该模块实现的接口ID（用于接口与实现分离）
   isInterface?: boolean; // 标记该模块是否为接口定义
+  priority?: number; // 同一接口有多个实现时的优先级，数字越大越优先
+  requiredFeatures?: Array<keyof PlatformFeatures>; // 当前平台具备这些特性时该实现才可用
+  configSchema?: ConfigSchema; // 模块配置声明，用于校验配置和生成配置参考文档
 }
 
 /**
@@ -70,6 +76,9 @@ export interface ModuleRegistrationOptions {
   autoStart?: boolean; // 初始化后是否自动启动
   initTimeout?: number; // 初始化超时时间(ms)
   startTimeout?: number; // 启动超时时间(ms)
+  stopTimeout?: number; // 停止超时时间(ms)
+  destroyTimeout?: number; // 销毁超时时间(ms)
+  optional?: boolean; // 是否为可选模块，可选模块启动失败不影响其他模块运行
 }
 
 /**
@@ -14,6 +14,8 @@ export interface IStorageOptions {
   autoCleanup?: boolean;
   /** 过期时间(毫秒) */
   defaultTTL?: number;
+  /** 二进制数据的分段大小(字节)，按字节范围读取时只加载涉及的分段 */
+  binaryChunkSize?: number;
 }
 
 /**
@@ -56,6 +58,8 @@ export interface StorageItem {
   priority?: number;
   /** 是否使用分块存储(仅用于IndexedDB大文件存储) */
   isChunked?: boolean;
+  /** 是否为二进制数据 */
+  isBinary?: boolean;
 }
 
 /**
@@ -0,0 +1,320 @@
+import { FileChunkKernel } from '../core/kernel';
+import { PlatformAdapter } from '../platforms/platform-base';
+import { detectPlatform } from '../platforms/detect-platform';
+import { CheckpointStore } from '../modules/storage/checkpoint-store';
+import { HttpTransport } from '../modules/transport/implementations/http-transport';
+import { BandwidthLimiter } from '../modules/transport/bandwidth-limiter';
+import { UploadQueueManager } from '../modules/queue/implementations/upload-queue-manager';
+import { QueueEventName, QueueEvents } from '../modules/queue/interfaces';
+import {
+  UploadOptions,
+  UploadResult,
+  UploadSettledResult,
+  Uploader,
+  UploaderEvent,
+  UploaderEventMap,
+  UploaderOptions
+} from './types';
+import { createDefaultStorage, registerUploaderModules } from './uploader-modules';
+
+/**
+ * 上传被取消时的错误代码
+ */
+export const UPLOAD_CANCELED_ERROR_CODE = 'UPLOAD_CANCELED';
+
+/**
+ * 上传器事件对应的队列事件
+ */
+const QUEUE_EVENTS: Record<UploaderEvent, QueueEventName> = {
+  start: QueueEvents.UPLOAD_STARTED,
+  progress: QueueEvents.UPLOAD_PROGRESS,
+  processing: QueueEvents.UPLOAD_PROCESSING,
+  complete: QueueEvents.UPLOAD_COMPLETED,
+  error: QueueEvents.UPLOAD_FAILED,
+  cancel: QueueEvents.UPLOAD_CANCELED,
+  pause: QueueEvents.QUEUE_PAUSED,
+  resume: QueueEvents.QUEUE_RESUMED,
+  queue: QueueEvents.QUEUE_UPDATED
+};
+
+/**
+ * 暂存的上传结果上限，超过时丢弃最早的结果
+ * 不经upload调用加入队列的项目（如从存储恢复的项目）结束时没有等待者，结果不会被取走
+ */
+const MAX_SETTLED_RESULTS = 100;
+
+/**
+ * 上传结束状态，完成时为文件URL
+ */
+type Settlement = { url: string } | { error: Error };
+
+/**
+ * 上传器实现
+ *
+ * 在微内核中按依赖顺序注册平台适配、存储、传输、带宽限制和队列模块，
+ * 文件通过队列上传，完成、失败和取消事件按队列项ID结束对应的上传调用。
+ */
+class FileChunkUploader implements Uploader {
+  readonly kernel: FileChunkKernel;
+  readonly platform: PlatformAdapter;
+  readonly transport: HttpTransport;
+  readonly queue: UploadQueueManager;
+  readonly bandwidth?: BandwidthLimiter;
+
+  private initPromise: Promise<void> | null = null;
+  private pending: Map<string, (settlement: Settlement) => void> = new Map();
+  // 等待者订阅之前已结束的上传
+  private settled: Map<string, Settlement> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(options: UploaderOptions) {
+    const { platform, storage, queue, bandwidth, kernel, ...transportOptions } = options;
+
+    this.kernel = new FileChunkKernel(kernel);
+
+    const adapter = typeof platform === 'object' ? platform : detectPlatform(platform);
+    const engine = storage === false ? null : storage || createDefaultStorage(adapter);
+
+    const modules = registerUploaderModules(this.kernel, {
+      platform: adapter,
+      storage: engine,
+      transport: new HttpTransport({
+        ...transportOptions,
+        checkpointStore:
+          transportOptions.checkpointStore || (engine ? new CheckpointStore(engine) : undefined)
+      }),
+      bandwidth: bandwidth ? new BandwidthLimiter(bandwidth) : undefined,
+      queue: new UploadQueueManager({ persistQueue: !!engine, ...queue })
+    });
+    this.platform = modules.platform;
+    this.transport = modules.transport;
+    this.bandwidth = modules.bandwidth;
+    this.queue = modules.queue!;
+
+    this.listenQueue();
+  }
+
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.kernel.initializeAll().then(report => {
+        if (report.success) return;
+
+        const failed = report.failed.map(failure => failure.moduleId);
+        throw new Error(`上传器模块初始化失败: ${failed.join(', ')}`);
+      });
+    }
+
+    return this.initPromise;
+  }
+
+  async upload<F = File>(file: F, options: UploadOptions = {}): Promise<UploadResult<F>> {
+    const id = await this.enqueue(file, options);
+    return this.track(id, file, options);
+  }
+
+  async uploadMany<F = File>(
+    files: F[],
+    options: UploadOptions = {}
+  ): Promise<UploadSettledResult<F>[]> {
+    // 按传入顺序加入队列，相同优先级时先加入的先上传
+    const ids: Array<string | Error> = [];
+    for (const file of files) {
+      ids.push(await this.enqueue(file, options).catch((error: Error) => error));
+    }
+
+    return Promise.all(
+      files.map((file, index): Promise<UploadSettledResult<F>> => {
+        const id = ids[index];
+        if (id instanceof Error) {
+          return Promise.resolve({ status: 'failed', id: null, file, error: id });
+        }
+
+        return this.track(id, file, options).then(
+          result => ({ status: 'completed', ...result }),
+          (error: Error) => ({
+            status: (error as any).code === UPLOAD_CANCELED_ERROR_CODE ? 'canceled' : 'failed',
+            id,
+            file,
+            error
+          })
+        );
+      })
+    );
+  }
+
+  async pause(): Promise<void> {
+    await this.ready();
+    await this.queue.pauseQueue();
+  }
+
+  async resume(): Promise<void> {
+    await this.ready();
+    await this.queue.resumeQueue();
+  }
+
+  async cancel(id?: string): Promise<void> {
+    await this.ready();
+
+    if (id) {
+      await this.queue.cancelUpload(id);
+      return;
+    }
+
+    for (const item of this.queue.getQueueState().queue) {
+      await this.queue.cancelUpload(item.id);
+    }
+  }
+
+  on<E extends UploaderEvent>(event: E, handler: (data: UploaderEventMap[E]) => void): () => void {
+    return this.queue.on(QUEUE_EVENTS[event], (data: any) =>
+      handler(toEventData(event, data) as UploaderEventMap[E])
+    );
+  }
+
+  async destroy(): Promise<void> {
+    await this.cancel().catch(error => console.warn('取消上传失败:', error));
+
+    // 队列事件异步派发，直接结束仍在等待的上传
+    for (const [id, settle] of this.pending) {
+      settle({ error: createCanceledError(id) });
+    }
+    this.pending.clear();
+    this.settled.clear();
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    await this.kernel.destroyAll();
+  }
+
+  /**
+   * 监听队列的上传结束事件
+   */
+  private listenQueue(): void {
+    this.unsubscribers.push(
+      this.queue.on(QueueEvents.UPLOAD_COMPLETED, ({ id, result }) =>
+        this.settle(id, { url: result })
+      ),
+      this.queue.on(QueueEvents.UPLOAD_FAILED, ({ id, error }) =>
+        this.settle(id, { error: toError(error) })
+      ),
+      this.queue.on(QueueEvents.UPLOAD_CANCELED, ({ id }) =>
+        this.settle(id, { error: createCanceledError(id) })
+      )
+    );
+  }
+
+  /**
+   * 结束上传，没有等待者时暂存结果
+   */
+  private settle(id: string, settlement: Settlement): void {
+    const resolve = this.pending.get(id);
+    if (resolve) {
+      this.pending.delete(id);
+      resolve(settlement);
+    } else {
+      this.settled.set(id, settlement);
+      if (this.settled.size > MAX_SETTLED_RESULTS) {
+        this.settled.delete(this.settled.keys().next().value!);
+      }
+    }
+  }
+
+  /**
+   * 将文件加入上传队列
+   * @returns 队列项ID
+   */
+  private async enqueue(file: unknown, options: UploadOptions): Promise<string> {
+    await this.ready();
+
+    if (options.signal?.aborted) {
+      throw createCanceledError();
+    }
+
+    return this.queue.addToQueue(file, {
+      ...options.metadata,
+      ...(options.priority !== undefined ? { priority: options.priority } : {}),
+      ...(options.bandwidthLimit !== undefined ? { bandwidthLimit: options.bandwidthLimit } : {})
+    });
+  }
+
+  /**
+   * 等待队列项上传结束
+   */
+  private async track<F>(id: string, file: F, options: UploadOptions): Promise<UploadResult<F>> {
+    const { signal, onProgress } = options;
+
+    const stopProgress = onProgress
+      ? this.on('progress', event => {
+          if (event.id === id) onProgress(event.progress);
+        })
+      : null;
+    const abort = () => {
+      this.queue.cancelUpload(id).catch(() => undefined);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      const settlement = await new Promise<Settlement>(resolve => {
+        const settled = this.settled.get(id);
+        if (settled) {
+          this.settled.delete(id);
+          resolve(settled);
+        } else {
+          this.pending.set(id, resolve);
+        }
+      });
+
+      if ('error' in settlement) {
+        throw settlement.error;
+      }
+
+      return { id, file, url: settlement.url };
+    } finally {
+      stopProgress?.();
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+/**
+ * 将队列事件数据转换为上传器事件数据
+ */
+function toEventData(event: UploaderEvent, data: any): unknown {
+  switch (event) {
+    case 'start':
+      return { id: data.id, file: data.file };
+    case 'complete':
+      return { id: data.id, url: data.result };
+    case 'error':
+      return { id: data.id, error: toError(data.error) };
+    default:
+      return data;
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error || '上传失败'));
+}
+
+function createCanceledError(id?: string): Error {
+  const error = new Error(id ? `上传已取消: ${id}` : '上传已取消');
+  (error as any).code = UPLOAD_CANCELED_ERROR_CODE;
+  return error;
+}
+
+/**
+ * 创建上传器
+ *
+ * 自动检测平台适配器，在微内核中按依赖顺序注册平台适配、存储、传输和队列模块
+ * （配置带宽限制时同时注册带宽限制模块），模块在首次上传时初始化。
+ *
+ * @example
+ * const uploader = createUploader({ target: '/api/upload' });
+ * const { url } = await uploader.upload(file, { onProgress: p => console.log(p) });
+ *
+ * @param options 上传器选项
+ */
+export function createUploader(options: UploaderOptions): Uploader {
+  return new FileChunkUploader(options);
+}
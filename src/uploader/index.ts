@@ -0,0 +1,8 @@
+/**
+ * 上传器入口
+ * 组合平台适配、存储、传输和队列模块的高层接口
+ */
+
+export * from './types';
+export { createUploader, UPLOAD_CANCELED_ERROR_CODE } from './create-uploader';
+export { UploaderBuilder } from './uploader-builder';
@@ -0,0 +1,185 @@
+import { FileChunkKernel, KernelConfig } from '../core/kernel';
+import { PlatformAdapter } from '../platforms/platform-base';
+import { PlatformName } from '../platforms/detect-platform';
+import { StorageEngine } from '../modules/storage/storage-engine';
+import {
+  HttpTransport,
+  HttpTransportOptions
+} from '../modules/transport/implementations/http-transport';
+import { BandwidthLimiter, BandwidthLimiterOptions } from '../modules/transport/bandwidth-limiter';
+import { UploadQueueManager } from '../modules/queue/implementations/upload-queue-manager';
+import { QueueManagerOptions, QueueStateSummary } from '../modules/queue/interfaces';
+
+/**
+ * 上传器选项
+ * 传输相关选项与HttpTransport一致
+ */
+export interface UploaderOptions extends HttpTransportOptions {
+  /**
+   * 平台适配器或平台名称，不提供时按运行环境检测
+   * React Native需传入ReactNativeAdapter实例
+   */
+  platform?: PlatformName | PlatformAdapter;
+
+  /**
+   * 存储引擎，用于持久化上传队列和断点续传检查点
+   * 不提供时浏览器使用IndexedDB，小程序使用本地存储；传入false不持久化
+   */
+  storage?: StorageEngine | false;
+
+  /**
+   * 上传队列选项
+   */
+  queue?: QueueManagerOptions;
+
+  /**
+   * 带宽限制选项，提供时注册带宽限制模块
+   */
+  bandwidth?: BandwidthLimiterOptions;
+
+  /**
+   * 微内核全局配置
+   */
+  kernel?: KernelConfig;
+}
+
+/**
+ * 单个文件的上传选项
+ */
+export interface UploadOptions {
+  /**
+   * 优先级，数值大的先上传
+   */
+  priority?: number;
+
+  /**
+   * 上传速率上限（字节/秒），需要配置带宽限制
+   */
+  bandwidthLimit?: number;
+
+  /**
+   * 自定义元数据，随队列项保存
+   */
+  metadata?: Record<string, any>;
+
+  /**
+   * 取消信号，触发时取消该文件的上传
+   */
+  signal?: AbortSignal;
+
+  /**
+   * 上传进度回调(0-100)
+   */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * 上传结果
+ */
+export interface UploadResult<F = File> {
+  /** 队列项ID */
+  id: string;
+  /** 上传的文件 */
+  file: F;
+  /** 文件URL */
+  url: string;
+}
+
+/**
+ * 批量上传中单个文件的结果
+ * 单个文件失败或取消不影响其他文件
+ */
+export type UploadSettledResult<F = File> =
+  | ({ status: 'completed' } & UploadResult<F>)
+  | { status: 'failed' | 'canceled'; id: string | null; file: F; error: Error };
+
+/**
+ * 上传器事件及其数据
+ */
+export interface UploaderEventMap {
+  /** 文件开始上传 */
+  start: { id: string; file: any };
+  /** 上传进度(0-100) */
+  progress: { id: string; progress: number };
+  /** 服务端后处理进度 */
+  processing: { id: string; stage?: string; progress?: number };
+  /** 上传完成 */
+  complete: { id: string; url: string };
+  /** 上传失败 */
+  error: { id: string; error: Error };
+  /** 上传被取消 */
+  cancel: { id: string };
+  /** 队列暂停 */
+  pause: void;
+  /** 队列恢复 */
+  resume: void;
+  /** 队列状态变化 */
+  queue: QueueStateSummary;
+}
+
+/**
+ * 上传器事件名
+ */
+export type UploaderEvent = keyof UploaderEventMap;
+
+/**
+ * 上传器
+ * 由createUploader创建，组合平台适配、存储、传输和队列模块
+ */
+export interface Uploader {
+  /** 微内核实例 */
+  readonly kernel: FileChunkKernel;
+  /** 平台适配器 */
+  readonly platform: PlatformAdapter;
+  /** 传输模块 */
+  readonly transport: HttpTransport;
+  /** 上传队列 */
+  readonly queue: UploadQueueManager;
+  /** 带宽限制模块，未配置时为undefined */
+  readonly bandwidth?: BandwidthLimiter;
+
+  /**
+   * 等待所有模块初始化完成
+   * 上传方法会自动等待，通常无需直接调用
+   */
+  ready(): Promise<void>;
+
+  /**
+   * 上传单个文件
+   * @returns 上传完成后的结果，失败或取消时拒绝
+   */
+  upload<F = File>(file: F, options?: UploadOptions): Promise<UploadResult<F>>;
+
+  /**
+   * 批量上传文件
+   * @returns 每个文件的结果，顺序与传入的文件一致
+   */
+  uploadMany<F = File>(files: F[], options?: UploadOptions): Promise<UploadSettledResult<F>[]>;
+
+  /**
+   * 暂停上传队列，正在上传的文件保留服务端会话，恢复后续传
+   */
+  pause(): Promise<void>;
+
+  /**
+   * 恢复上传队列
+   */
+  resume(): Promise<void>;
+
+  /**
+   * 取消上传
+   * @param id 队列项ID，不提供时取消所有上传
+   */
+  cancel(id?: string): Promise<void>;
+
+  /**
+   * 订阅上传器事件
+   * @returns 取消订阅函数
+   */
+  on<E extends UploaderEvent>(event: E, handler: (data: UploaderEventMap[E]) => void): () => void;
+
+  /**
+   * 取消所有上传并销毁模块
+   */
+  destroy(): Promise<void>;
+}
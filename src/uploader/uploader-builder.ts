@@ -0,0 +1,84 @@
+import { KernelConfig } from '../core/kernel';
+import { PlatformAdapter } from '../platforms/platform-base';
+import { PlatformName } from '../platforms/detect-platform';
+import { StorageEngine } from '../modules/storage/storage-engine';
+import { HttpTransportOptions } from '../modules/transport/implementations/http-transport';
+import { BandwidthLimiterOptions } from '../modules/transport/bandwidth-limiter';
+import { QueueManagerOptions } from '../modules/queue/interfaces';
+import { Uploader, UploaderOptions } from './types';
+import { createUploader } from './create-uploader';
+
+/**
+ * 上传器构建器
+ *
+ * @example
+ * const uploader = new UploaderBuilder('/api/upload')
+ *   .withPlatform('wechat')
+ *   .withQueue({ maxConcurrent: 2 })
+ *   .build();
+ */
+export class UploaderBuilder {
+  private options: UploaderOptions;
+
+  /**
+   * @param target 上传地址，使用自定义协议时可不提供
+   */
+  constructor(target?: string) {
+    this.options = target ? { target } : {};
+  }
+
+  /**
+   * 设置传输选项
+   */
+  withTransport(options: HttpTransportOptions): this {
+    this.options = { ...this.options, ...options };
+    return this;
+  }
+
+  /**
+   * 设置平台适配器或平台名称
+   */
+  withPlatform(platform: PlatformName | PlatformAdapter): this {
+    this.options.platform = platform;
+    return this;
+  }
+
+  /**
+   * 设置存储引擎，传入false不持久化
+   */
+  withStorage(storage: StorageEngine | false): this {
+    this.options.storage = storage;
+    return this;
+  }
+
+  /**
+   * 设置上传队列选项
+   */
+  withQueue(options: QueueManagerOptions): this {
+    this.options.queue = { ...this.options.queue, ...options };
+    return this;
+  }
+
+  /**
+   * 启用带宽限制
+   */
+  withBandwidth(options: BandwidthLimiterOptions = {}): this {
+    this.options.bandwidth = { ...this.options.bandwidth, ...options };
+    return this;
+  }
+
+  /**
+   * 设置微内核配置
+   */
+  withKernel(config: KernelConfig): this {
+    this.options.kernel = { ...this.options.kernel, ...config };
+    return this;
+  }
+
+  /**
+   * 创建上传器
+   */
+  build(): Uploader {
+    return createUploader({ ...this.options });
+  }
+}
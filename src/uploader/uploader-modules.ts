@@ -0,0 +1,200 @@
+import { FileChunkKernel, KernelEventType, Module } from '../core/kernel';
+import { EventEmitter } from '../core/event-bus';
+import { IKernel, IModule } from '../core/interfaces';
+import { PlatformAdapter } from '../platforms/platform-base';
+import { StorageEngine } from '../modules/storage/storage-engine';
+import { IndexedDBStorage } from '../modules/storage/indexeddb-storage';
+import { OPFSStorage } from '../modules/storage/opfs-storage';
+import { MiniappStorage } from '../modules/storage/miniapp-storage';
+import { HttpTransport } from '../modules/transport/implementations/http-transport';
+import { BandwidthLimiter } from '../modules/transport/bandwidth-limiter';
+import { UploadQueueManager } from '../modules/queue/implementations/upload-queue-manager';
+
+/**
+ * 上传器在微内核中注册的模块
+ * 未提供存储引擎时不注册存储模块，带宽限制和队列模块可选
+ */
+export interface UploaderModules {
+  platform: PlatformAdapter;
+  storage: StorageEngine | null;
+  transport: HttpTransport;
+  bandwidth?: BandwidthLimiter;
+  queue?: UploadQueueManager;
+}
+
+/**
+ * 适配器提供的内核模块声明
+ */
+type ModuleDeclaration = Pick<Module, 'id' | 'dependencies' | 'initialize'>;
+
+/**
+ * 将对象适配为内核模块
+ *
+ * 内核的getModule返回注册的模块，其他模块据此直接调用平台适配器、存储引擎等对象的方法，
+ * 因此适配器除内核所需的ID、依赖和初始化方法外，转发被适配对象的属性和方法（方法绑定到被适配对象），
+ * 被适配对象本身不被修改。
+ *
+ * @param instance 被适配的对象
+ * @param declaration 模块ID、依赖和初始化方法
+ * @returns 模块适配器，可作为被适配对象使用
+ */
+export function createModuleAdapter<T extends object>(
+  instance: T,
+  declaration: ModuleDeclaration
+): T & Module {
+  const bound = new WeakMap<object, unknown>();
+
+  return new Proxy(instance, {
+    get(target, property) {
+      if (Object.prototype.hasOwnProperty.call(declaration, property)) {
+        return declaration[property as keyof ModuleDeclaration];
+      }
+
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      // 同一方法多次读取时返回同一个绑定函数
+      let method = bound.get(value);
+      if (!method) {
+        method = value.bind(target);
+        bound.set(value, method);
+      }
+      return method;
+    },
+    has(target, property) {
+      return (
+        Object.prototype.hasOwnProperty.call(declaration, property) || Reflect.has(target, property)
+      );
+    }
+  }) as T & Module;
+}
+
+/**
+ * 创建内核的IKernel视图
+ * 存储引擎等按IKernel初始化的模块通过该视图访问内核的模块和事件总线，
+ * 通过视图注册的模块适配为内核模块，状态更新以内核状态变化事件发出
+ *
+ * @param kernel 微内核实例
+ */
+export function createKernelView(kernel: FileChunkKernel): IKernel {
+  const eventBus = kernel.getEventBus() as unknown as EventEmitter<Record<string, any>>;
+
+  const view: IKernel = {
+    registerModule<T extends IModule>(name: string, module: T): IKernel {
+      kernel.registerModule(
+        createModuleAdapter(module, { id: name, initialize: () => module.init(view) })
+      );
+      return view;
+    },
+    getModule<T>(name: string): T {
+      return kernel.getModule(name) as unknown as T;
+    },
+    on(event, handler) {
+      eventBus.on(event, handler);
+      return view;
+    },
+    off(event, handler) {
+      eventBus.off(event, handler);
+      return view;
+    },
+    emit(event, data) {
+      eventBus.emit(event, data);
+      return view;
+    },
+    updateState(newState) {
+      eventBus.emit(KernelEventType.KERNEL_STATE_CHANGED, newState);
+      return view;
+    }
+  };
+
+  return view;
+}
+
+/**
+ * 在微内核中按依赖顺序注册上传模块
+ * 队列和传输模块通过内核按ID查找平台、存储、传输和带宽限制模块
+ *
+ * @param kernel 微内核实例
+ * @param modules 上传模块
+ * @returns 注册的模块适配器
+ */
+export function registerUploaderModules(
+  kernel: FileChunkKernel,
+  modules: UploaderModules
+): UploaderModules {
+  const { platform, storage, transport, bandwidth, queue } = modules;
+  const register = <T extends object>(
+    id: string,
+    instance: T,
+    dependencies: string[],
+    initialize: () => Promise<void> | void
+  ): T => {
+    const module = createModuleAdapter(instance, { id, dependencies, initialize });
+    kernel.registerModule(module);
+    return module;
+  };
+
+  const registered: UploaderModules = {
+    platform: register('platform', platform, [], () => platform.init(kernel)),
+    storage:
+      storage && register('storage', storage, [], () => storage.init(createKernelView(kernel))),
+    transport: register('transport', transport, ['platform'], () => {
+      transport.setKernel(kernel);
+      transport.setEventBus(kernel.getEventBus());
+      return transport.init();
+    })
+  };
+
+  if (bandwidth) {
+    registered.bandwidth = register('bandwidth', bandwidth, [], () => {
+      bandwidth.setKernel(kernel);
+      bandwidth.setEventBus(kernel.getEventBus());
+      return bandwidth.init();
+    });
+  }
+
+  if (queue) {
+    registered.queue = register(
+      'queue',
+      queue,
+      [
+        'platform',
+        'transport',
+        ...(storage ? ['storage'] : []),
+        ...(bandwidth ? ['bandwidth'] : [])
+      ],
+      () => queue.init(kernel)
+    );
+  }
+
+  return registered;
+}
+
+/**
+ * 创建默认存储引擎
+ * 优先使用平台提供的存储引擎(如Node.js的文件存储)，平台支持OPFS时使用OPFS，
+ * 其他浏览器使用IndexedDB，小程序使用本地存储，其他环境不持久化
+ */
+export function createDefaultStorage(platform: PlatformAdapter): StorageEngine | null {
+  const platformStorage = platform.createStorage?.();
+  if (platformStorage) {
+    return platformStorage;
+  }
+
+  if (platform.getFeatures?.().opfs) {
+    return new OPFSStorage();
+  }
+
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBStorage();
+  }
+
+  const name = platform.getPlatformName?.();
+  if (name === 'wechat-miniapp' || name === 'Taro' || name === 'UniApp') {
+    return new MiniappStorage();
+  }
+
+  return null;
+}
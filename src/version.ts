@@ -0,0 +1,4 @@
+/**
+ * FileChunk Pro版本号，插件清单的engine版本范围按该版本检查
+ */
+export const VERSION = '0.1.0';
@@ -0,0 +1,303 @@
+/**
+ * FileChunk Pro - 哈希算法
+ *
+ * Worker与主线程降级路径共用的增量哈希实现，保证两条路径计算结果一致。
+ */
+
+import SparkMD5 from 'spark-md5';
+
+/**
+ * 文件哈希算法
+ * - md5: SparkMD5增量计算，兼容多数秒传服务端
+ * - sha256: 增量SHA-256，抗碰撞能力更强
+ * - sample: 抽样哈希，只读取首尾分块和中间分块的少量字节，适合超大文件
+ */
+export type FileHashAlgorithm = 'md5' | 'sha256' | 'sample';
+
+/**
+ * 增量哈希计算器接口
+ */
+export interface IncrementalHasher {
+  /**
+   * 追加数据
+   */
+  append(data: ArrayBuffer): void;
+
+  /**
+   * 结束计算并返回十六进制哈希值
+   */
+  end(): string;
+}
+
+/**
+ * 抽样哈希时中间分块每个采样点读取的字节数
+ */
+const SAMPLE_BYTES = 2;
+
+/**
+ * SHA-256轮常量
+ */
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * 增量SHA-256实现
+ *
+ * Web Crypto的digest只接受完整数据，无法流式计算，因此在此单独实现。
+ */
+export class Sha256 implements IncrementalHasher {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private bytesHashed = 0;
+  private words = new Uint32Array(64);
+  private finished = false;
+
+  append(data: ArrayBuffer): void {
+    if (this.finished) {
+      throw new Error('哈希计算已结束，不能继续追加数据');
+    }
+
+    const bytes = new Uint8Array(data);
+    let offset = 0;
+    this.bytesHashed += bytes.length;
+
+    // 先补齐上次残留的分组
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, bytes.length);
+      this.block.set(bytes.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+
+      if (this.blockLength === 64) {
+        this.processBlock(this.block, 0);
+        this.blockLength = 0;
+      }
+    }
+
+    // 直接处理完整分组，避免额外拷贝
+    while (offset + 64 <= bytes.length) {
+      this.processBlock(bytes, offset);
+      offset += 64;
+    }
+
+    if (offset < bytes.length) {
+      this.block.set(bytes.subarray(offset), 0);
+      this.blockLength = bytes.length - offset;
+    }
+  }
+
+  end(): string {
+    if (this.finished) {
+      throw new Error('哈希计算已结束');
+    }
+    this.finished = true;
+
+    const totalBytes = this.bytesHashed;
+    const padding = new Uint8Array(this.blockLength < 56 ? 64 : 128);
+    padding.set(this.block.subarray(0, this.blockLength));
+    padding[this.blockLength] = 0x80;
+
+    // 以大端序写入消息长度（位）
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(totalBytes / 0x20000000));
+    view.setUint32(padding.length - 4, (totalBytes << 3) >>> 0);
+
+    for (let offset = 0; offset < padding.length; offset += 64) {
+      this.processBlock(padding, offset);
+    }
+
+    let hex = '';
+    for (let i = 0; i < this.state.length; i++) {
+      hex += this.state[i].toString(16).padStart(8, '0');
+    }
+    return hex;
+  }
+
+  /**
+   * 处理一个512位分组
+   */
+  private processBlock(bytes: Uint8Array, offset: number): void {
+    const w = this.words;
+
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]) >>> 0;
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let a = this.state[0];
+    let b = this.state[1];
+    let c = this.state[2];
+    let d = this.state[3];
+    let e = this.state[4];
+    let f = this.state[5];
+    let g = this.state[6];
+    let h = this.state[7];
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    this.state[0] = (this.state[0] + a) >>> 0;
+    this.state[1] = (this.state[1] + b) >>> 0;
+    this.state[2] = (this.state[2] + c) >>> 0;
+    this.state[3] = (this.state[3] + d) >>> 0;
+    this.state[4] = (this.state[4] + e) >>> 0;
+    this.state[5] = (this.state[5] + f) >>> 0;
+    this.state[6] = (this.state[6] + g) >>> 0;
+    this.state[7] = (this.state[7] + h) >>> 0;
+  }
+}
+
+/**
+ * 创建增量哈希计算器
+ *
+ * 抽样哈希的取样在读取端完成（见getSampleRanges），计算端与md5相同。
+ */
+export function createHasher(algorithm: FileHashAlgorithm = 'md5'): IncrementalHasher {
+  switch (algorithm) {
+    case 'sha256':
+      return new Sha256();
+    case 'md5':
+    case 'sample':
+      return new SparkMD5.ArrayBuffer();
+    default:
+      throw new Error(`不支持的哈希算法: ${algorithm}`);
+  }
+}
+
+/**
+ * 计算抽样哈希需要读取的字节区间
+ *
+ * 首尾分块完整读取，中间每个分块读取头、中、尾各SAMPLE_BYTES字节。
+ * 文件不足三个分块时读取全部内容。
+ *
+ * @param totalSize 文件大小
+ * @param chunkSize 分块大小
+ * @returns [start, end) 区间列表
+ */
+export function getSampleRanges(totalSize: number, chunkSize: number): Array<[number, number]> {
+  if (totalSize <= chunkSize * 3) {
+    return [[0, totalSize]];
+  }
+
+  const ranges: Array<[number, number]> = [[0, chunkSize]];
+  const lastChunkStart = totalSize - chunkSize;
+
+  for (let offset = chunkSize; offset < lastChunkStart; offset += chunkSize) {
+    const end = Math.min(offset + chunkSize, lastChunkStart);
+    const middle = offset + Math.floor((end - offset) / 2);
+
+    ranges.push([offset, Math.min(offset + SAMPLE_BYTES, end)]);
+    ranges.push([middle, Math.min(middle + SAMPLE_BYTES, end)]);
+    ranges.push([Math.max(end - SAMPLE_BYTES, offset), end]);
+  }
+
+  ranges.push([lastChunkStart, totalSize]);
+  return ranges;
+}
+
+/**
+ * 将文件大小编码为抽样哈希的附加数据
+ *
+ * 抽样只覆盖部分字节，混入文件大小可以区分仅长度不同的文件。
+ */
+export function encodeSampleSize(totalSize: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(8);
+  const view = new DataView(buffer);
+  view.setUint32(0, Math.floor(totalSize / 0x100000000));
+  view.setUint32(4, totalSize >>> 0);
+  return buffer;
+}
+
+/**
+ * 十六进制字符串转字节
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error(`无效的十六进制哈希: ${hex}`);
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * 计算分片哈希的Merkle根
+ *
+ * 叶子为按分片索引排列的分片哈希，父节点为 H(左子节点字节 || 右子节点字节)，
+ * 奇数个节点时最后一个节点直接提升到上一层。只有一个分片时根即为该分片哈希。
+ * 服务端按相同规则计算即可校验合并后的文件，无需重新计算整个文件的哈希。
+ *
+ * @param leaves 十六进制分片哈希
+ * @param algorithm 哈希算法，与分片哈希一致
+ * @returns 十六进制Merkle根
+ */
+export function computeMerkleRoot(
+  leaves: string[],
+  algorithm: Exclude<FileHashAlgorithm, 'sample'>
+): string {
+  if (leaves.length === 0) {
+    return createHasher(algorithm).end();
+  }
+
+  let level = leaves.map(leaf => hexToBytes(leaf));
+
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+
+      const combined = new Uint8Array(level[i].length + level[i + 1].length);
+      combined.set(level[i]);
+      combined.set(level[i + 1], level[i].length);
+
+      const hasher = createHasher(algorithm);
+      hasher.append(combined.buffer);
+      next.push(hexToBytes(hasher.end()));
+    }
+
+    level = next;
+  }
+
+  return Array.from(level[0], byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -5,19 +5,36 @@
  * 并提供进度报告和内存优化。
  */
 
-import SparkMD5 from 'spark-md5';
+import { createHasher, FileHashAlgorithm, IncrementalHasher } from './hash-algorithms';
 
 /**
  * Worker消息类型定义
+ * HASH_START/HASH_APPEND/HASH_END 用于流式计算：主线程逐块读取文件并发送，
+ * Worker增量计算，避免一次性把整个文件读入内存。
  */
 type WorkerMessage = {
-  type: 'HASH_FILE' | 'HASH_BLOB' | 'HASH_CHUNKS';
+  type: 'HASH_FILE' | 'HASH_BLOB' | 'HASH_CHUNKS' | 'HASH_START' | 'HASH_APPEND' | 'HASH_END';
   data: ArrayBuffer | ArrayBuffer[] | null;
   chunkSize?: number;
   totalSize?: number;
   fileId?: string;
+  algorithm?: FileHashAlgorithm;
 };
 
+/**
+ * 流式计算会话
+ */
+type StreamSession = {
+  hasher: IncrementalHasher;
+  processedSize: number;
+  totalSize: number;
+};
+
+/**
+ * 进行中的流式计算会话，按fileId区分
+ */
+const streamSessions: Map<string, StreamSession> = new Map();
+
 /**
  * Worker响应类型定义
  */
@@ -39,11 +56,11 @@ function postToMain(message: WorkerResponse): void {
 /**
  * 计算单个Blob或ArrayBuffer的哈希值
  */
-function calculateHashForBlob(data: ArrayBuffer): string {
+function calculateHashForBlob(data: ArrayBuffer, algorithm?: FileHashAlgorithm): string {
   try {
-    const spark = new SparkMD5.ArrayBuffer();
-    spark.append(data);
-    return spark.end();
+    const hasher = createHasher(algorithm);
+    hasher.append(data);
+    return hasher.end();
   } catch (error) {
     throw new Error(`哈希计算错误: ${(error as Error).message}`);
   }
@@ -56,10 +73,11 @@ function calculateHashForBlob(data: ArrayBuffer): string {
 async function calculateHashForChunks(
   chunks: ArrayBuffer[],
   totalSize: number,
-  fileId?: string
+  fileId?: string,
+  algorithm?: FileHashAlgorithm
 ): Promise<string> {
   try {
-    const spark = new SparkMD5.ArrayBuffer();
+    const hasher = createHasher(algorithm);
     let processedSize = 0;
 
     // 逐块处理，并报告进度
@@ -67,7 +85,7 @@ async function calculateHashForChunks(
       const chunk = chunks[i];
 
       // 追加当前块到哈希计算器
-      spark.append(chunk);
+      hasher.append(chunk);
 
       // 更新进度
       processedSize += chunk.byteLength;
@@ -88,7 +106,7 @@ async function calculateHashForChunks(
     }
 
     // 完成所有块的处理，返回最终哈希值
-    return spark.end();
+    return hasher.end();
   } catch (error) {
     throw new Error(`分块哈希计算错误: ${(error as Error).message}`);
   }
@@ -102,7 +120,8 @@ async function calculateHashForFile(
   fileData: ArrayBuffer,
   chunkSize: number,
   totalSize: number,
-  fileId?: string
+  fileId?: string,
+  algorithm?: FileHashAlgorithm
 ): Promise<string> {
   try {
     const chunks: ArrayBuffer[] = [];
@@ -117,7 +136,12 @@ async function calculateHashForFile(
     }
 
     // 计算分块哈希
-    return await calculateHashForChunks(chunks, totalSize || fileData.byteLength, fileId);
+    return await calculateHashForChunks(
+      chunks,
+      totalSize || fileData.byteLength,
+      fileId,
+      algorithm
+    );
   } catch (error) {
     throw new Error(`文件哈希计算错误: ${(error as Error).message}`);
   }
@@ -126,17 +150,65 @@ async function calculateHashForFile(
 // 监听主线程消息
 self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
   try {
-    const { type, data, chunkSize = 2 * 1024 * 1024, totalSize, fileId } = event.data;
+    const { type, data, chunkSize = 2 * 1024 * 1024, totalSize, fileId, algorithm } = event.data;
     let hash: string;
 
     switch (type) {
+      case 'HASH_START':
+        // 开始流式计算
+        streamSessions.set(fileId || '', {
+          hasher: createHasher(algorithm),
+          processedSize: 0,
+          totalSize: totalSize || 0
+        });
+        break;
+
+      case 'HASH_APPEND': {
+        // 追加一个数据块，处理完成后回报进度，主线程据此发送下一块
+        const session = streamSessions.get(fileId || '');
+        if (!session) {
+          throw new Error('流式计算会话不存在');
+        }
+        if (!(data instanceof ArrayBuffer)) {
+          throw new Error('无效的分块数据');
+        }
+
+        session.hasher.append(data);
+        session.processedSize += data.byteLength;
+
+        postToMain({
+          type: 'PROGRESS',
+          progress: session.totalSize
+            ? Math.min(Math.floor((session.processedSize / session.totalSize) * 100), 100)
+            : 0,
+          fileId
+        });
+        break;
+      }
+
+      case 'HASH_END': {
+        const session = streamSessions.get(fileId || '');
+        if (!session) {
+          throw new Error('流式计算会话不存在');
+        }
+
+        streamSessions.delete(fileId || '');
+
+        postToMain({
+          type: 'COMPLETE',
+          hash: session.hasher.end(),
+          fileId
+        });
+        break;
+      }
+
       case 'HASH_BLOB':
         // 处理单个Blob/ArrayBuffer
         if (!data || (!ArrayBuffer.isView(data) && !(data instanceof ArrayBuffer))) {
           throw new Error('无效的数据格式');
         }
 
-        hash = calculateHashForBlob(data as ArrayBuffer);
+        hash = calculateHashForBlob(data as ArrayBuffer, algorithm);
 
         postToMain({
           type: 'COMPLETE',
@@ -155,7 +227,8 @@ self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
           data as ArrayBuffer,
           chunkSize,
           totalSize || (data as ArrayBuffer).byteLength,
-          fileId
+          fileId,
+          algorithm
         );
 
         postToMain({
@@ -174,7 +247,8 @@ self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
         hash = await calculateHashForChunks(
           data as ArrayBuffer[],
           totalSize || data.reduce((sum, chunk) => sum + (chunk as ArrayBuffer).byteLength, 0),
-          fileId
+          fileId,
+          algorithm
         );
 
         postToMain({
@@ -189,6 +263,10 @@ self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
     }
   } catch (error) {
     // 统一的错误处理
+    if (event.data.fileId !== undefined) {
+      streamSessions.delete(event.data.fileId);
+    }
+
     postToMain({
       type: 'ERROR',
       error: (error as Error).message,
@@ -10,12 +10,22 @@ export {
   WorkerType,
   WorkerEventType,
   type WorkerEvent,
+  type WorkerEventMap,
   type WorkerOptions,
   type HashTask
 } from './worker-manager';
 
+export {
+  Sha256,
+  createHasher,
+  getSampleRanges,
+  type FileHashAlgorithm,
+  type IncrementalHasher
+} from './hash-algorithms';
+
 // 将所有Worker文件作为可能的Worker条目点导出
 // 注意：Worker文件不能直接导入，应该通过Worker构造函数加载
 export const WORKER_PATHS = {
-  HASH_WORKER: './hash-worker.ts'
+  HASH_WORKER: './hash-worker.ts',
+  OPFS_WORKER: './opfs-worker.ts'
 };
@@ -0,0 +1,22 @@
+/**
+ * FileChunk Pro - OPFS文件访问Worker
+ *
+ * OPFS的同步访问句柄只能在专用Worker中使用。该Worker接收主线程的文件操作请求，
+ * 使用同步访问句柄读写文件，读取的数据以可转移对象返回。
+ */
+
+import {
+  OPFSDirectoryHandle,
+  OPFSRequest,
+  SyncAccessFileSystem,
+  handleOPFSRequest
+} from '../modules/storage/opfs-file-system';
+
+const fileSystem = new SyncAccessFileSystem(
+  navigator.storage.getDirectory() as unknown as Promise<OPFSDirectoryHandle>
+);
+
+self.addEventListener('message', async (event: MessageEvent<OPFSRequest>) => {
+  const { response, transfer } = await handleOPFSRequest(fileSystem, event.data);
+  (self as unknown as Worker).postMessage(response, transfer);
+});
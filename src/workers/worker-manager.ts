@@ -6,13 +6,24 @@
  */
 
 import { EventEmitter } from '../core/event-bus';
-import SparkMD5 from 'spark-md5';
+import {
+  createHasher,
+  encodeSampleSize,
+  FileHashAlgorithm,
+  getSampleRanges
+} from './hash-algorithms';
+
+/**
+ * 默认哈希分块大小
+ */
+const DEFAULT_HASH_CHUNK_SIZE = 2 * 1024 * 1024;
 
 /**
  * Worker类型枚举
  */
 export enum WorkerType {
-  HASH = 'hash'
+  HASH = 'hash',
+  OPFS = 'opfs'
 }
 
 /**
@@ -36,6 +47,15 @@ export interface WorkerEvent {
   error?: Error;
 }
 
+/**
+ * Worker管理器事件映射
+ */
+export interface WorkerEventMap {
+  [WorkerEventType.PROGRESS]: WorkerEvent;
+  [WorkerEventType.COMPLETE]: WorkerEvent;
+  [WorkerEventType.ERROR]: WorkerEvent;
+}
+
 /**
  * Worker配置选项
  */
@@ -57,6 +77,10 @@ export interface HashTask {
   data: ArrayBuffer | ArrayBuffer[] | Blob;
   chunkSize?: number;
   totalSize?: number;
+  /**
+   * 哈希算法，默认md5
+   */
+  algorithm?: FileHashAlgorithm;
   onProgress?: (progress: number) => void;
   onComplete?: (hash: string) => void;
   onError?: (error: Error) => void;
@@ -87,7 +111,7 @@ interface QueuedTask {
  *
  * 负责创建、管理和协调Web Worker的操作
  */
-export class WorkerManager extends EventEmitter {
+export class WorkerManager extends EventEmitter<WorkerEventMap> {
   private workers: Map<string, Worker> = new Map();
   private taskQueue: Map<string, any> = new Map();
   private activeWorkers: Map<string, boolean> = new Map();
@@ -146,6 +170,9 @@ export class WorkerManager extends EventEmitter {
         case WorkerType.HASH:
           worker = new Worker(new URL('./hash-worker.ts', import.meta.url), { type: 'module' });
           break;
+        case WorkerType.OPFS:
+          worker = new Worker(new URL('./opfs-worker.ts', import.meta.url), { type: 'module' });
+          break;
         default:
           throw new Error(`不支持的Worker类型: ${type}`);
       }
@@ -157,6 +184,14 @@ export class WorkerManager extends EventEmitter {
     }
   }
 
+  /**
+   * 创建独占使用的Worker
+   * 不加入Worker池，由调用方负责终止
+   */
+  createDedicatedWorker(type: WorkerType): Worker | null {
+    return this.createWorker(type);
+  }
+
   /**
    * 获取一个空闲的Worker（从池中或创建新的）
    */
@@ -333,6 +368,11 @@ export class WorkerManager extends EventEmitter {
    * 计算文件或数据块的哈希值
    */
   public async calculateHash(task: HashTask): Promise<string> {
+    // 抽样哈希先在读取端取样，之后按md5处理
+    if (task.algorithm === 'sample') {
+      task = this.toSampledTask(task);
+    }
+
     // 如果环境不支持Web Worker且启用了自动降级
     if (!this.isWorkerSupported && this.options.autoFallback) {
       return this.calculateHashSync(task);
@@ -344,6 +384,12 @@ export class WorkerManager extends EventEmitter {
       // 获取一个可用的哈希Worker
       const worker = this.getWorker(WorkerType.HASH);
 
+      // Worker创建失败且没有其他活跃Worker时，队列永远不会被消费，直接降级到主线程
+      if (!worker && this.options.autoFallback && this.getActiveWorkerCount() === 0) {
+        this.calculateHashSync(task).then(resolve, reject);
+        return;
+      }
+
       // 如果没有可用的Worker（达到并发限制或创建失败）
       if (!worker) {
         // 加入等待队列
@@ -364,9 +410,20 @@ export class WorkerManager extends EventEmitter {
       this.workers.set(workerId, worker);
       this.activeWorkers.set(workerId, true);
 
+      // 流式发送时，Worker每处理完一块回报进度，再发送下一块
+      let sendNextBlock: (() => void) | null = null;
+
       // 保存任务信息
       const taskWithCallbacks = {
         ...task,
+        onProgress: (progress: number) => {
+          if (typeof task.onProgress === 'function') {
+            task.onProgress(progress);
+          }
+          if (sendNextBlock) {
+            sendNextBlock();
+          }
+        },
         onComplete: (hash: string) => {
           if (typeof task.onComplete === 'function') {
             task.onComplete(hash);
@@ -413,8 +470,9 @@ export class WorkerManager extends EventEmitter {
       // 准备数据，区分不同类型
       const messageData: any = {
         fileId: task.fileId,
-        chunkSize: task.chunkSize || 2 * 1024 * 1024,
-        totalSize: task.totalSize
+        chunkSize: task.chunkSize || DEFAULT_HASH_CHUNK_SIZE,
+        totalSize: task.totalSize,
+        algorithm: task.algorithm
       };
 
       // 处理不同类型的输入数据
@@ -423,18 +481,43 @@ export class WorkerManager extends EventEmitter {
         messageData.type = 'HASH_CHUNKS';
         messageData.data = task.data;
       } else if (task.data instanceof Blob) {
-        // 如果是Blob，需要转换为ArrayBuffer
-        const reader = new FileReader();
-        reader.onload = e => {
-          messageData.type = 'HASH_FILE';
-          messageData.data = e.target?.result as ArrayBuffer;
-          messageData.totalSize = messageData.totalSize || (task.data as Blob).size;
-          worker.postMessage(messageData, [messageData.data]);
-        };
-        reader.onerror = () => {
-          reject(new Error('读取Blob数据失败'));
+        // 如果是Blob，逐块读取并流式发送，避免整个文件驻留内存
+        const blob = task.data;
+        const chunkSize = messageData.chunkSize as number;
+        let offset = 0;
+
+        sendNextBlock = () => {
+          if (offset >= blob.size) {
+            sendNextBlock = null;
+            worker.postMessage({ type: 'HASH_END', fileId: task.fileId });
+            return;
+          }
+
+          const end = Math.min(offset + chunkSize, blob.size);
+          const slice = blob.slice(offset, end);
+          offset = end;
+
+          this.readBlob(slice)
+            .then(buffer => {
+              worker.postMessage({ type: 'HASH_APPEND', fileId: task.fileId, data: buffer }, [
+                buffer
+              ]);
+            })
+            .catch(error => {
+              sendNextBlock = null;
+              this.taskQueue.delete(workerId);
+              this.markWorkerActive(workerId, false);
+              reject(error);
+            });
         };
-        reader.readAsArrayBuffer(task.data as Blob);
+
+        worker.postMessage({
+          type: 'HASH_START',
+          fileId: task.fileId,
+          algorithm: task.algorithm,
+          totalSize: messageData.totalSize || blob.size
+        });
+        sendNextBlock();
         return;
       } else {
         // 如果是单个ArrayBuffer
@@ -474,64 +557,49 @@ export class WorkerManager extends EventEmitter {
         progress: 0
       });
 
-      let data: ArrayBuffer;
-      let chunks: ArrayBuffer[] = [];
+      const chunkSize = task.chunkSize || DEFAULT_HASH_CHUNK_SIZE;
+      const hasher = createHasher(task.algorithm);
+
+      // 统一为按块读取的数据源，Blob按需读取，避免整个文件驻留内存
+      let blockCount: number;
+      let readBlock: (index: number) => Promise<ArrayBuffer>;
+      let totalSize: number;
 
-      // 处理不同类型的输入数据
       if (Array.isArray(task.data)) {
-        chunks = task.data;
+        const chunks = task.data;
+        blockCount = chunks.length;
+        readBlock = async index => chunks[index];
+        totalSize = task.totalSize || chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
       } else if (task.data instanceof Blob) {
-        // 将Blob转换为ArrayBuffer
-        data = await new Promise<ArrayBuffer>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = e => resolve(e.target?.result as ArrayBuffer);
-          reader.onerror = () => reject(new Error('读取Blob数据失败'));
-          reader.readAsArrayBuffer(task.data as Blob);
-        });
-
-        // 分块处理
-        const chunkSize = task.chunkSize || 2 * 1024 * 1024;
-        const totalSize = data.byteLength;
-        let offset = 0;
-
-        while (offset < totalSize) {
-          const end = Math.min(offset + chunkSize, totalSize);
-          chunks.push(data.slice(offset, end));
-          offset = end;
-        }
+        const blob = task.data;
+        blockCount = Math.ceil(blob.size / chunkSize);
+        readBlock = index =>
+          this.readBlob(
+            blob.slice(index * chunkSize, Math.min((index + 1) * chunkSize, blob.size))
+          );
+        totalSize = task.totalSize || blob.size;
       } else {
-        // 直接使用ArrayBuffer
-        data = task.data as ArrayBuffer;
-
-        // 分块处理
-        const chunkSize = task.chunkSize || 2 * 1024 * 1024;
-        const totalSize = data.byteLength;
-        let offset = 0;
-
-        while (offset < totalSize) {
-          const end = Math.min(offset + chunkSize, totalSize);
-          chunks.push(data.slice(offset, end));
-          offset = end;
-        }
+        const buffer = task.data;
+        blockCount = Math.ceil(buffer.byteLength / chunkSize);
+        readBlock = async index =>
+          buffer.slice(index * chunkSize, Math.min((index + 1) * chunkSize, buffer.byteLength));
+        totalSize = task.totalSize || buffer.byteLength;
       }
 
-      // 计算总大小
-      const totalSize = task.totalSize || chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
-
-      // 使用SparkMD5计算哈希值
-      const spark = new SparkMD5.ArrayBuffer();
       let processedSize = 0;
 
       // 逐块处理
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
+      for (let i = 0; i < blockCount; i++) {
+        const chunk = await readBlock(i);
 
         // 添加块到哈希计算器
-        spark.append(chunk);
+        hasher.append(chunk);
 
         // 更新进度
         processedSize += chunk.byteLength;
-        const progress = Math.min(Math.round((processedSize / totalSize) * 100), 100);
+        const progress = totalSize
+          ? Math.min(Math.round((processedSize / totalSize) * 100), 100)
+          : 100;
 
         // 通知进度
         if (typeof task.onProgress === 'function') {
@@ -546,13 +614,13 @@ export class WorkerManager extends EventEmitter {
         });
 
         // 防止UI阻塞，给主线程喘息的机会
-        if (i < chunks.length - 1) {
+        if (i < blockCount - 1) {
           await new Promise(resolve => setTimeout(resolve, 0));
         }
       }
 
       // 计算最终哈希值
-      const hash = spark.end();
+      const hash = hasher.end();
 
       // 通知完成
       if (typeof task.onComplete === 'function') {
@@ -586,6 +654,62 @@ export class WorkerManager extends EventEmitter {
     }
   }
 
+  /**
+   * 将抽样哈希任务转换为对取样数据的md5任务
+   *
+   * 取样区间见getSampleRanges，末尾追加文件大小。
+   * 预先分块的ArrayBuffer数组无法按偏移取样，只追加文件大小。
+   */
+  private toSampledTask(task: HashTask): HashTask {
+    const chunkSize = task.chunkSize || DEFAULT_HASH_CHUNK_SIZE;
+    let data: HashTask['data'];
+
+    if (Array.isArray(task.data)) {
+      const totalSize = task.data.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+      data = [...task.data, encodeSampleSize(totalSize)];
+    } else if (task.data instanceof Blob) {
+      const blob = task.data;
+      const parts: BlobPart[] = getSampleRanges(blob.size, chunkSize).map(([start, end]) =>
+        blob.slice(start, end)
+      );
+      parts.push(encodeSampleSize(blob.size));
+      data = new Blob(parts);
+    } else {
+      const buffer = task.data;
+      const ranges = getSampleRanges(buffer.byteLength, chunkSize);
+      const trailer = new Uint8Array(encodeSampleSize(buffer.byteLength));
+      const sampledSize = ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+      const sampled = new Uint8Array(sampledSize + trailer.byteLength);
+      let offset = 0;
+
+      for (const [start, end] of ranges) {
+        sampled.set(new Uint8Array(buffer, start, end - start), offset);
+        offset += end - start;
+      }
+      sampled.set(trailer, offset);
+      data = sampled.buffer;
+    }
+
+    return {
+      ...task,
+      data,
+      algorithm: 'md5',
+      totalSize: undefined
+    };
+  }
+
+  /**
+   * 读取Blob为ArrayBuffer
+   */
+  private readBlob(blob: Blob): Promise<ArrayBuffer> {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = e => resolve(e.target?.result as ArrayBuffer);
+      reader.onerror = () => reject(new Error('读取Blob数据失败'));
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+
   /**
    * 获取指定类型的队列长度
    */
@@ -0,0 +1,118 @@
+import { FileChunkKernel, KernelEventType } from '../../../src/core/kernel';
+import { BaseModule } from '../../../src/core/module-base';
+import { applyConfigDefaults, validateConfig } from '../../../src/core/config-schema';
+import { ConfigSchema, ConfigValidationError } from '../../../src/types/config';
+import { HttpTransport } from '../../../src/modules/transport/implementations/http-transport';
+import { UploadQueueManager } from '../../../src/modules/queue/implementations/upload-queue-manager';
+import { ConfigReferenceGenerator } from '../../../src/modules/docs/implementations/config-reference-generator';
+
+// Worker在测试环境中不可用
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({})
+}));
+
+const SCHEMA: ConfigSchema = {
+  chunkSize: { type: 'integer', min: 1, default: 1024, description: '分片大小' },
+  mode: { type: 'string', enum: ['fast', 'safe'], default: 'fast' },
+  retry: {
+    type: 'object',
+    properties: {
+      count: { type: 'integer', min: 0, default: 3 },
+      delay: { type: 'number', deprecated: '请使用retry.backoff' }
+    }
+  }
+};
+
+class UploadModule extends BaseModule {
+  constructor(config?: Record<string, unknown>) {
+    super({ id: 'upload', name: 'upload', version: '1.0.0', configSchema: SCHEMA }, config);
+  }
+}
+
+describe('配置声明', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应一次报告所有不符合声明的配置项', () => {
+    const result = validateConfig(SCHEMA, { chunkSize: -1, mode: 'turbo', retry: { count: 1.5 } });
+
+    expect(result.valid).toBe(false);
+    expect(result.violations.map(violation => violation.path)).toEqual([
+      'chunkSize',
+      'mode',
+      'retry.count'
+    ]);
+    expect(applyConfigDefaults(SCHEMA, { retry: {} })).toEqual({
+      chunkSize: 1024,
+      mode: 'fast',
+      retry: { count: 3 }
+    });
+  });
+
+  test('内核应校验配置修改并只为有效修改发布事件', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const kernel = new FileChunkKernel();
+    kernel.registerModule({
+      id: 'upload',
+      metadata: { id: 'upload', name: 'upload', version: '1.0.0', configSchema: SCHEMA },
+      initialize: () => undefined
+    });
+
+    const changes: unknown[] = [];
+    kernel.getEventBus().on(KernelEventType.CONFIG_CHANGED, event => void changes.push(event));
+
+    expect(kernel.getConfig('upload.chunkSize')).toBe(1024);
+
+    let error: unknown;
+    try {
+      kernel.updateConfig({ upload: { chunkSize: 0, mode: 'turbo' } });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).violations).toHaveLength(2);
+    expect(() => kernel.setConfig('upload.retry.count', -1)).toThrow(ConfigValidationError);
+    expect(kernel.getConfig('upload.mode')).toBe('fast');
+    expect(changes).toEqual([]);
+
+    kernel.setConfig('upload.chunkSize', 2048);
+    kernel.updateConfig({ upload: { retry: { delay: 100 } }, app: { name: 'demo' } });
+
+    expect(changes).toEqual([
+      { path: 'upload.chunkSize', oldValue: undefined, newValue: 2048 },
+      { path: 'upload.retry.delay', oldValue: undefined, newValue: 100 },
+      { path: 'app.name', oldValue: undefined, newValue: 'demo' }
+    ]);
+    expect(warn).toHaveBeenCalledWith('upload.retry.delay 已弃用: 请使用retry.backoff');
+  });
+
+  test('模块应按声明补全默认值并拒绝无效的配置更新', () => {
+    const module = new UploadModule({ mode: 'safe' });
+    expect(module.getConfig()).toEqual({ chunkSize: 1024, mode: 'safe', retry: { count: 3 } });
+
+    expect(() => module.updateConfig({ chunkSize: 'large' })).toThrow(ConfigValidationError);
+    expect(module.getConfig('chunkSize')).toBe(1024);
+    expect(() => new UploadModule({ mode: 'turbo' })).toThrow('upload.mode');
+  });
+
+  test('内置模块应在创建时校验选项', () => {
+    expect(() => new HttpTransport({ target: '/upload', chunkSize: -1 })).toThrow(
+      ConfigValidationError
+    );
+
+    expect(() => new UploadQueueManager({ maxConcurrentUploads: 0 })).toThrow(
+      'queue.maxConcurrentUploads 不能小于 1'
+    );
+  });
+
+  test('应根据配置声明生成配置参考文档', () => {
+    const markdown = new ConfigReferenceGenerator().render({ upload: SCHEMA });
+
+    expect(markdown).toContain('## upload');
+    expect(markdown).toContain('| `chunkSize` | `integer` | `1024` | 分片大小；>= 1 |');
+    expect(markdown).toContain(
+      '| `retry.delay` | `number` | - | **已弃用**：请使用retry.backoff |'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  EVENT_HANDLER_TIMEOUT_ERROR_CODE,
+  EventBusImpl,
+  EventEmitter
+} from '../../../src/core/event-bus';
+import { BaseModule } from '../../../src/core/module-base';
+
+class ListenerModule extends BaseModule {
+  readonly received: string[] = [];
+
+  constructor() {
+    super({ id: 'listener', name: 'listener', version: '1.0.0' });
+  }
+
+  protected onInit(): void {
+    this.on('transport:start', event => this.received.push(event.taskId));
+    this.once('transport:canceled', event => this.received.push(event.taskId));
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('EventBusImpl', () => {
+  test('应按订阅ID取消订阅并按优先级调用处理器', () => {
+    const bus = new EventBusImpl();
+    const calls: string[] = [];
+
+    const low = bus.on('upload.start', () => void calls.push('low'), { priority: 1 });
+    bus.on('upload.start', () => void calls.push('high'), { priority: 10 });
+    bus.on('upload.*', (_data, eventName) => void calls.push(`wildcard:${eventName}`));
+
+    expect(bus.emit('upload.start', null)).toBe(3);
+    expect(calls).toEqual(['high', 'low', 'wildcard:upload.start']);
+
+    expect(bus.off(low)).toBe(true);
+    expect(bus.off(low)).toBe(false);
+    expect(bus.countSubscribers('upload.start')).toBe(2);
+    expect(bus.getEventNames()).toEqual(['upload.start', 'upload.*']);
+  });
+
+  test('应按订阅者ID批量取消订阅', () => {
+    const bus = new EventBusImpl();
+    const handler = jest.fn();
+
+    bus.on('a', handler, { subscriberId: 'panel' });
+    bus.once('b', handler, { subscriberId: 'panel' });
+    bus.on('a', handler, { subscriberId: 'other' });
+
+    expect(bus.offBySubscriber('panel')).toBe(2);
+    expect(bus.countSubscribers('a')).toBe(1);
+    expect(bus.hasSubscribers('b')).toBe(false);
+  });
+
+  test('应记录历史并重放给当前订阅者', async () => {
+    const bus = new EventBusImpl({ history: { enabled: true, maxEvents: 3 } });
+    bus.emit('upload.progress', 10);
+    bus.emit('upload.progress', 20);
+    bus.emit('download.progress', 30);
+    bus.emit('upload.progress', 40);
+
+    expect(bus.getHistory().map(record => record.data)).toEqual([20, 30, 40]);
+    expect(bus.getHistory('upload.*', 1).map(record => record.data)).toEqual([40]);
+
+    const replayed: number[] = [];
+    bus.on('upload.progress', (value: number) => {
+      replayed.push(value);
+    });
+
+    await expect(bus.replayHistory('upload.*')).resolves.toBe(2);
+    expect(replayed).toEqual([20, 40]);
+    // 重放的事件不再记录
+    expect(bus.getHistory()).toHaveLength(3);
+  });
+
+  test('订阅时可只将历史事件重放给新订阅者', () => {
+    const bus = new EventBusImpl({ history: { enabled: true } });
+    const existing = jest.fn();
+    bus.on('upload.*', existing);
+    bus.emit('upload.start', 'a');
+    bus.emit('upload.complete', 'a');
+
+    const late = jest.fn();
+    bus.on('upload.*', late, { replay: true });
+    const latest = jest.fn();
+    bus.once('upload.*', latest, { replay: true });
+
+    expect(late.mock.calls).toEqual([
+      ['a', 'upload.start'],
+      ['a', 'upload.complete']
+    ]);
+    expect(latest.mock.calls).toEqual([['a', 'upload.complete']]);
+    expect(existing).toHaveBeenCalledTimes(2);
+    expect(bus.countSubscribers('upload.start')).toBe(2);
+  });
+
+  test('超时的处理器不应阻塞发布', async () => {
+    jest.useFakeTimers();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bus = new EventBusImpl();
+    const fast = jest.fn();
+
+    bus.on('slow', () => new Promise<void>(() => undefined));
+    bus.on('slow', fast);
+
+    const pending = bus.emitAsync('slow', null, { timeout: 100 });
+    jest.advanceTimersByTime(100);
+    await expect(pending).resolves.toHaveLength(2);
+    expect(fast).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('超过 100ms 未完成'));
+
+    const strict = bus.emitAsync('slow', null, { timeout: 100, catchErrors: false });
+    jest.advanceTimersByTime(100);
+    await expect(strict).rejects.toMatchObject({ code: EVENT_HANDLER_TIMEOUT_ERROR_CODE });
+
+    jest.useRealTimers();
+  });
+});
+
+describe('EventEmitter', () => {
+  test('模块销毁时应取消其注册的订阅', async () => {
+    const bus = new EventEmitter();
+    const module = new ListenerModule();
+    module.setEventBus(bus);
+    await module.init();
+
+    await bus.emit('transport:start', { taskId: 't1', file: null });
+    expect(bus.listenerCount()).toBe(2);
+
+    await module.destroy();
+    await bus.emit('transport:start', { taskId: 't2', file: null });
+
+    expect(module.received).toEqual(['t1']);
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  test('emit应在处理器超时后继续', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bus = new EventEmitter<Record<string, any>>({ handlerTimeout: 50 });
+    bus.on('slow', () => new Promise<void>(() => undefined));
+
+    const pending = bus.emit('slow');
+    jest.advanceTimersByTime(50);
+    await expect(pending).resolves.toBeUndefined();
+
+    jest.useRealTimers();
+  });
+});
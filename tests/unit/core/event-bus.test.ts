@@ -1,10 +1,10 @@
 import { EventEmitter, EventPriority } from '../../../src/core/event-bus';
 
 describe('EventBus', () => {
-  let eventBus: EventEmitter;
+  let eventBus: EventEmitter<Record<string, any>>;
 
   beforeEach(() => {
-    eventBus = new EventEmitter();
+    eventBus = new EventEmitter<Record<string, any>>();
     // 为了测试简单，禁用异步
     eventBus.disableAsync();
   });
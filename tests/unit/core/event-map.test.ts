@@ -0,0 +1,81 @@
+import { EventEmitter } from '../../../src/core/event-bus';
+import { BaseModule } from '../../../src/core/module-base';
+import { QueueEvents } from '../../../src/modules/queue/interfaces';
+
+// 插件通过声明合并扩展事件映射
+declare module '../../../src/core/event-map' {
+  interface FileChunkEventMap {
+    'watermark:applied': { fileId: string; text: string };
+  }
+}
+
+class WatermarkModule extends BaseModule {
+  constructor() {
+    super({ id: 'watermark', name: 'watermark', version: '1.0.0' });
+  }
+
+  apply(fileId: string): void {
+    this.emit('watermark:applied', { fileId, text: 'FileChunk' });
+
+    // @ts-expect-error 事件数据缺少字段
+    this.emit('watermark:applied', { fileId });
+  }
+}
+
+describe('FileChunkEventMap', () => {
+  test('事件处理器应收到映射中声明的数据类型', async () => {
+    const bus = new EventEmitter();
+    const hashes: string[] = [];
+
+    bus.on('transport:hashComplete', event => {
+      hashes.push(event.hash);
+    });
+    await bus.emit('transport:hashComplete', { taskId: 't1', hash: 'abc', algorithm: 'md5' });
+
+    expect(hashes).toEqual(['abc']);
+  });
+
+  test('事件名或数据不匹配时应无法通过编译', () => {
+    const bus = new EventEmitter();
+
+    // @ts-expect-error 拼写错误的事件名
+    bus.on('transport:hashComplet', () => undefined);
+
+    // @ts-expect-error 数据类型错误
+    bus.emitSync('transport:progress', { taskId: 't1', progress: '50%', stage: 'upload' });
+
+    // @ts-expect-error 缺少事件数据
+    bus.emitSync('module:registered');
+
+    // 数据为void的事件可以省略参数
+    bus.emitSync(QueueEvents.QUEUE_PAUSED);
+
+    expect(bus.listenerCount()).toBe(1);
+  });
+
+  test('声明合并扩展的事件应可在模块中发布', () => {
+    const bus = new EventEmitter();
+    const applied = jest.fn();
+    bus.on('watermark:applied', applied);
+
+    const module = new WatermarkModule();
+    module.setEventBus(bus);
+    module.apply('file-1');
+
+    expect(applied).toHaveBeenCalledWith({ fileId: 'file-1', text: 'FileChunk' });
+  });
+
+  test('通配符处理器应收到事件名和数据', () => {
+    const bus = new EventEmitter();
+    const events: string[] = [];
+
+    bus.onAny(({ event, payload }) => {
+      if (event === 'bandwidth:limitChanged') {
+        events.push(`${event}:${payload.globalLimit}`);
+      }
+    });
+    bus.emitSync('bandwidth:limitChanged', { globalLimit: 1024, effectiveLimit: 1024 });
+
+    expect(events).toEqual(['bandwidth:limitChanged:1024']);
+  });
+});
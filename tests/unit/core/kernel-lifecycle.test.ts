@@ -0,0 +1,139 @@
+import { FileChunkKernel, Module, ModuleState } from '../../../src/core/kernel';
+import { ModuleDependencyError, ModuleLifecycleError } from '../../../src/types/modules';
+
+/**
+ * 创建记录生命周期调用顺序的测试模块
+ */
+function createModule(id: string, calls: string[], overrides: Partial<Module> = {}): Module {
+  return {
+    id,
+    initialize: () => void calls.push(`init:${id}`),
+    start: () => void calls.push(`start:${id}`),
+    stop: () => void calls.push(`stop:${id}`),
+    destroy: () => void calls.push(`destroy:${id}`),
+    ...overrides
+  };
+}
+
+describe('FileChunkKernel生命周期', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应按依赖顺序启动并以逆序停止和销毁模块', async () => {
+    const kernel = new FileChunkKernel();
+    const calls: string[] = [];
+    kernel.registerModule(createModule('queue', calls, { dependencies: ['transport'] }));
+    kernel.registerModule(createModule('transport', calls, { dependencies: ['storage'] }));
+    kernel.registerModule(createModule('storage', calls));
+
+    const report = await kernel.startAll();
+    expect(report).toMatchObject({
+      phase: 'start',
+      success: true,
+      completed: ['storage', 'transport', 'queue'],
+      failed: []
+    });
+
+    calls.length = 0;
+    await expect(kernel.stopAll()).resolves.toMatchObject({ success: true });
+    await expect(kernel.destroyAll()).resolves.toMatchObject({ success: true });
+    expect(calls).toEqual([
+      'stop:queue',
+      'stop:transport',
+      'stop:storage',
+      'destroy:queue',
+      'destroy:transport',
+      'destroy:storage'
+    ]);
+    expect(kernel.getModuleIds()).toEqual([]);
+  });
+
+  test('生命周期方法超时时应将模块标记为出错', async () => {
+    jest.useFakeTimers();
+    const kernel = new FileChunkKernel({ moduleInitTimeout: 1000 });
+    kernel.registerModule(createModule('slow', [], { initialize: () => new Promise(() => {}) }));
+    kernel.registerModule(createModule('fast', [], { initialize: () => new Promise(() => {}) }), {
+      initTimeout: 100
+    });
+
+    const pending = kernel.initializeAll();
+    await jest.advanceTimersByTimeAsync(1100);
+    const report = await pending;
+
+    expect(report.success).toBe(false);
+    expect(report.failed.map(failure => failure.moduleId)).toEqual(['slow', 'fast']);
+    expect(report.failed[0].error).toBeInstanceOf(ModuleLifecycleError);
+    expect(report.failed[0].error).toMatchObject({ moduleId: 'slow', lifecycle: 'init' });
+    expect(kernel.getModuleState('fast')).toBe(ModuleState.ERROR);
+
+    jest.useRealTimers();
+  });
+
+  test('可选模块启动失败时其余模块应继续运行', async () => {
+    const kernel = new FileChunkKernel();
+    const calls: string[] = [];
+    const error = new Error('统计服务不可用');
+    kernel.registerModule(createModule('storage', calls));
+    kernel.registerModule(
+      createModule('analytics', calls, {
+        start: () => {
+          throw error;
+        }
+      }),
+      { optional: true }
+    );
+
+    const report = await kernel.startAll();
+
+    expect(report.success).toBe(true);
+    expect(report.failed).toEqual([{ moduleId: 'analytics', error, optional: true }]);
+    expect(report.rolledBack).toEqual([]);
+    expect(kernel.getModuleState('storage')).toBe(ModuleState.STARTED);
+  });
+
+  test('必需模块启动失败时应停止本次启动的模块', async () => {
+    const kernel = new FileChunkKernel();
+    const calls: string[] = [];
+    kernel.registerModule(createModule('storage', calls));
+    kernel.registerModule(createModule('transport', calls));
+    kernel.registerModule(
+      createModule('queue', calls, {
+        dependencies: ['storage'],
+        start: () => Promise.reject(new Error('队列恢复失败'))
+      })
+    );
+
+    const report = await kernel.startAll();
+
+    expect(report.success).toBe(false);
+    expect(report.failed.map(failure => failure.moduleId)).toEqual(['queue']);
+    expect(report.rolledBack).toEqual(['transport', 'storage']);
+    expect(kernel.getModuleState('storage')).toBe(ModuleState.STOPPED);
+    expect(kernel.getModuleState('transport')).toBe(ModuleState.STOPPED);
+  });
+
+  test('循环依赖应抛出包含依赖环的错误', async () => {
+    const kernel = new FileChunkKernel();
+    kernel.registerModule(createModule('a', [], { dependencies: ['b'] }));
+    kernel.registerModule(createModule('b', [], { dependencies: ['a'] }));
+
+    await expect(kernel.startAll()).rejects.toThrow(ModuleDependencyError);
+    await expect(kernel.startAll()).rejects.toThrow('a -> b -> a');
+  });
+
+  test('设置autoInit和autoStart时应在注册后启动模块', async () => {
+    const kernel = new FileChunkKernel();
+    const calls: string[] = [];
+    kernel.registerModule(createModule('storage', calls), { autoInit: true, autoStart: true });
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(calls).toEqual(['init:storage', 'start:storage']);
+    expect(kernel.getModuleState('storage')).toBe(ModuleState.STARTED);
+  });
+});
@@ -0,0 +1,217 @@
+import { FileChunkKernel, KernelEventType, Module, ModuleState } from '../../../src/core/kernel';
+import { ModuleMetadata } from '../../../src/types/modules';
+import { createUploader } from '../../../src/uploader';
+import { HttpTransport } from '../../../src/modules/transport/implementations/http-transport';
+import { TusUploadProtocol } from '../../../src/modules/transport/implementations/protocols';
+import { TextEncoder } from 'util';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes,
+  installTusRoutes
+} from '../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，以任务ID作为文件哈希
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(async ({ fileId }: { fileId: string }) => fileId)
+  })
+}));
+
+// jsdom未提供TextEncoder
+(global as any).TextEncoder = TextEncoder;
+
+/**
+ * 带计数状态的测试模块
+ */
+class CounterModule implements Module {
+  id = 'counter';
+  metadata?: ModuleMetadata;
+  initialize = jest.fn();
+  start = jest.fn();
+  stop = jest.fn();
+  destroy = jest.fn();
+
+  constructor(public count = 0) {}
+
+  exportState() {
+    return { count: this.count };
+  }
+
+  importState(state: unknown) {
+    this.count = (state as { count: number }).count;
+  }
+}
+
+describe('FileChunkKernel.replaceModule', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应交接状态、沿用运行状态并通知依赖模块', async () => {
+    const kernel = new FileChunkKernel();
+    const oldCounter = new CounterModule(3);
+    const dependent = {
+      id: 'dependent',
+      dependencies: ['counter'],
+      initialize: jest.fn(),
+      onDependencyReplaced: jest.fn()
+    };
+    kernel.registerModule(oldCounter);
+    kernel.registerModule(dependent);
+    await kernel.startAll();
+
+    const events: string[] = [];
+    kernel
+      .getEventBus()
+      .on(KernelEventType.MODULE_REPLACE, () => void events.push('replace'))
+      .on(KernelEventType.MODULE_REPLACE_COMPLETE, event => {
+        events.push(`complete:${event.stateTransferred}`);
+      });
+
+    const newCounter = new CounterModule();
+    const onReplaced = jest.fn();
+    await expect(kernel.replaceModule('counter', newCounter, { onReplaced })).resolves.toBe(true);
+
+    expect(kernel.getModule('counter')).toBe(newCounter);
+    expect(kernel.getModuleState('counter')).toBe(ModuleState.STARTED);
+    expect(newCounter.count).toBe(3);
+    expect(newCounter.start).toHaveBeenCalled();
+    expect(oldCounter.stop).toHaveBeenCalled();
+    expect(oldCounter.destroy).toHaveBeenCalled();
+    expect(dependent.onDependencyReplaced).toHaveBeenCalledWith('counter', newCounter, oldCounter);
+    expect(onReplaced).toHaveBeenCalledWith(oldCounter, newCounter);
+    expect(events).toEqual(['replace', 'complete:true']);
+  });
+
+  test('新模块初始化失败时应恢复旧模块', async () => {
+    const kernel = new FileChunkKernel();
+    const oldCounter = new CounterModule(3);
+    kernel.registerModule(oldCounter);
+    await kernel.startAll();
+
+    const broken = new CounterModule();
+    broken.initialize.mockImplementation(() => {
+      throw new Error('初始化失败');
+    });
+
+    await expect(kernel.replaceModule('counter', broken)).resolves.toBe(false);
+
+    expect(kernel.getModule('counter')).toBe(oldCounter);
+    expect(kernel.getModuleState('counter')).toBe(ModuleState.STARTED);
+    expect(oldCounter.start).toHaveBeenCalledTimes(2);
+    expect(oldCounter.destroy).not.toHaveBeenCalled();
+  });
+
+  test('新模块启动失败时应销毁新模块并完整恢复旧模块', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const kernel = new FileChunkKernel();
+    const oldCounter = new CounterModule(3);
+    oldCounter.metadata = {
+      id: 'counter',
+      name: 'counter',
+      version: '1.0.0',
+      configSchema: { step: { type: 'integer', default: 1 } }
+    };
+    const restored = jest.spyOn(oldCounter, 'importState');
+    kernel.registerModule(oldCounter);
+    await kernel.startAll();
+
+    const broken = new CounterModule();
+    broken.metadata = {
+      id: 'counter',
+      name: 'counter',
+      version: '2.0.0',
+      configSchema: { limit: { type: 'integer', default: 10 } }
+    };
+    broken.start.mockImplementation(() => {
+      throw new Error('启动失败');
+    });
+
+    await expect(kernel.replaceModule('counter', broken)).resolves.toBe(false);
+
+    // 已初始化的新模块被销毁，旧模块导入自己导出的状态以撤销交接
+    expect(broken.initialize).toHaveBeenCalledTimes(1);
+    expect(broken.destroy).toHaveBeenCalledTimes(1);
+    expect(restored).toHaveBeenCalledWith({ count: 3 });
+
+    expect(kernel.getModule('counter')).toBe(oldCounter);
+    expect(kernel.getModuleState('counter')).toBe(ModuleState.STARTED);
+    expect(kernel.getConfigSchemas()).toEqual({ counter: oldCounter.metadata.configSchema });
+    expect((kernel as any).moduleErrors.has('counter')).toBe(false);
+    expect(oldCounter.destroy).not.toHaveBeenCalled();
+  });
+
+  test('ID不一致的模块不能替换', async () => {
+    const kernel = new FileChunkKernel();
+    kernel.registerModule(new CounterModule());
+
+    const other = Object.assign(new CounterModule(), { id: 'other' });
+    await expect(kernel.replaceModule('counter', other)).resolves.toBe(false);
+    await expect(kernel.replaceModule('missing', new CounterModule())).resolves.toBe(false);
+  });
+});
+
+describe('热替换传输模块', () => {
+  test('替换上传协议后队列中的上传应由新传输模块完成', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const server = new MockProtocolServer();
+    installDefaultRoutes(server);
+    installTusRoutes(server);
+
+    // 旧协议的分片请求挂起，暂停后再返回
+    const releases: Array<() => void> = [];
+    server.on(
+      'POST',
+      /^\/upload$/,
+      () =>
+        new Promise(resolve => {
+          releases.push(() => resolve({ status: 200, data: { success: true } }));
+        })
+    );
+
+    const uploader = createUploader({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      platform: server.createPlatform(),
+      storage: false,
+      autoRetry: false,
+      queue: { maxConcurrentUploads: 1 }
+    });
+    await uploader.ready();
+
+    const first = uploader.upload(new File([new Uint8Array(1024)], 'a.bin'));
+    const second = uploader.upload(new File([new Uint8Array(1024)], 'b.bin'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const kernel = uploader.kernel;
+    const transport = new HttpTransport({
+      protocol: new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` }),
+      autoRetry: false
+    });
+    const module = Object.assign(transport, {
+      id: 'transport',
+      initialize: () => {
+        transport.setKernel(kernel);
+        transport.setEventBus(kernel.getEventBus());
+        return transport.init();
+      }
+    });
+
+    const replaced = kernel.replaceModule('transport', module);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    releases.forEach(release => release());
+    await expect(replaced).resolves.toBe(true);
+
+    const results = await Promise.all([first, second]);
+    expect(results.map(result => result.file.name)).toEqual(['a.bin', 'b.bin']);
+    expect(server.requests.some(request => request.method === 'PATCH')).toBe(true);
+    expect(uploader.queue.getQueueState().totalQueued).toBe(0);
+
+    await uploader.destroy();
+    jest.restoreAllMocks();
+  });
+});
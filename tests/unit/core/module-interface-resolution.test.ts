@@ -0,0 +1,111 @@
+import { FileChunkKernel, Module, ModuleState } from '../../../src/core/kernel';
+import { BaseModule } from '../../../src/core/module-base';
+import { ModuleDependencyError, ModuleMetadata } from '../../../src/types/modules';
+import { MemoryStorageEngine } from '../../utils/memory-storage-engine';
+
+/**
+ * 创建实现storage接口的存储模块
+ */
+function createStorage(id: string, metadata: Partial<ModuleMetadata> = {}) {
+  return Object.assign(new MemoryStorageEngine(), {
+    id,
+    metadata: { id, name: id, version: '1.0.0', implements: 'storage', ...metadata },
+    initialize: jest.fn()
+  });
+}
+
+/**
+ * 创建提供平台特性的平台模块
+ */
+function createPlatform(features: Record<string, boolean>): Module {
+  return { id: 'platform', initialize: () => undefined, getFeatures: () => features } as Module;
+}
+
+class CacheModule extends BaseModule {
+  constructor() {
+    super({ id: 'cache', name: 'cache', version: '1.0.0', dependencies: ['storage'] });
+  }
+
+  getStorage(): MemoryStorageEngine {
+    return this.getModule<MemoryStorageEngine>('storage');
+  }
+
+  getMissing(): unknown {
+    return this.getModule('missing');
+  }
+}
+
+describe('接口与实现解析', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应按优先级和平台特性解析接口的实现', async () => {
+    const kernel = new FileChunkKernel();
+    const indexedDB = createStorage('indexeddb-storage', {
+      priority: 10,
+      requiredFeatures: ['indexedDB']
+    });
+    const miniapp = createStorage('miniapp-storage');
+    kernel.registerModule(createPlatform({ indexedDB: false }));
+    kernel.registerModule(indexedDB);
+    kernel.registerModule(miniapp);
+
+    // 平台不支持IndexedDB时使用较低优先级的实现
+    expect(kernel.getModule('storage')).toBe(miniapp);
+
+    const cache = new CacheModule();
+    cache.setKernel(kernel);
+    kernel.registerModule(
+      Object.assign(cache, {
+        id: 'cache',
+        dependencies: ['storage'],
+        initialize: () => cache.init()
+      })
+    );
+
+    await expect(kernel.initializeAll()).resolves.toMatchObject({ success: true });
+    expect(cache.getStorage()).toBe(miniapp);
+    expect(miniapp.initialize).toHaveBeenCalled();
+    expect(indexedDB.initialize).not.toHaveBeenCalled();
+
+    // 已选用的实现被依赖时不能销毁
+    await expect(kernel.destroyModule('miniapp-storage')).resolves.toBe(false);
+  });
+
+  test('实现初始化失败时应使用下一个实现', async () => {
+    const kernel = new FileChunkKernel();
+    const primary = createStorage('primary', { priority: 2 });
+    primary.initialize.mockRejectedValue(new Error('数据库打开失败'));
+    const fallback = createStorage('fallback', { priority: 1 });
+    kernel.registerModule(primary);
+    kernel.registerModule(fallback);
+    kernel.registerModule({ id: 'queue', dependencies: ['storage'], initialize: jest.fn() });
+
+    await expect(kernel.initializeModule('queue')).resolves.toBe(true);
+    expect(kernel.getModuleState('primary')).toBe(ModuleState.ERROR);
+    expect(kernel.getModule('storage')).toBe(fallback);
+  });
+
+  test('没有可用的实现时应抛出依赖错误', async () => {
+    const kernel = new FileChunkKernel();
+    kernel.registerModule(createStorage('indexeddb-storage', { requiredFeatures: ['indexedDB'] }));
+    kernel.registerModule({ id: 'queue', dependencies: ['storage'], initialize: jest.fn() });
+
+    const errors: unknown[] = [];
+    kernel.getEventBus().on('module:error', event => void errors.push(event.error));
+
+    await expect(kernel.initializeModule('queue')).resolves.toBe(false);
+    expect(errors[0]).toBeInstanceOf(ModuleDependencyError);
+    expect(errors[0]).toMatchObject({ moduleId: 'queue', dependencyId: 'storage' });
+    await expect(kernel.initializeAll()).rejects.toThrow(ModuleDependencyError);
+
+    const cache = new CacheModule();
+    cache.setKernel(kernel);
+    expect(() => cache.getMissing()).toThrow(ModuleDependencyError);
+  });
+});
@@ -0,0 +1,370 @@
+import { UploadQueueManager } from '../../../../src/modules/queue/implementations/upload-queue-manager';
+import { QueueEvents, QueueItemStatus } from '../../../../src/modules/queue/interfaces';
+import { ConcurrencyManager } from '../../../../src/modules/transport/concurrency-manager';
+import { BandwidthLimiter } from '../../../../src/modules/transport/bandwidth-limiter';
+import { MemoryStorageEngine } from '../../../utils/memory-storage-engine';
+
+/**
+ * 可控制完成时机的模拟传输模块
+ */
+class MockTransport {
+  concurrencyManager = new ConcurrencyManager({ maxConcurrency: 3, enableAdaptive: false });
+  started: string[] = [];
+  priorities: Map<string, number> = new Map();
+  private pending: Map<string, { resolve: (url: string) => void; reject: (e: any) => void }> =
+    new Map();
+
+  uploadFile = jest.fn(
+    (_file: File, _platform: any, options: { taskId: string; priority: number }) =>
+      new Promise<string>((resolve, reject) => {
+        this.started.push(options.taskId);
+        this.priorities.set(options.taskId, options.priority);
+        this.pending.set(options.taskId, { resolve, reject });
+      })
+  );
+
+  pauseTask = jest.fn((taskId: string) => {
+    const entry = this.pending.get(taskId);
+    if (!entry) return false;
+    this.pending.delete(taskId);
+    entry.reject(Object.assign(new Error('paused'), { code: 'UPLOAD_PAUSED' }));
+    return true;
+  });
+
+  cancelTask = jest.fn((taskId: string) => {
+    this.pending.delete(taskId);
+    return true;
+  });
+
+  setTaskPriority = jest.fn((taskId: string, priority: number) => {
+    this.priorities.set(taskId, priority);
+  });
+
+  setBandwidthLimiter = jest.fn();
+
+  getConcurrencyManager() {
+    return this.concurrencyManager;
+  }
+
+  /**
+   * 完成指定任务
+   */
+  complete(taskId: string) {
+    const entry = this.pending.get(taskId);
+    this.pending.delete(taskId);
+    entry?.resolve(`https://cdn.example.com/${taskId}`);
+  }
+
+  /**
+   * 使指定任务失败
+   */
+  fail(taskId: string) {
+    const entry = this.pending.get(taskId);
+    this.pending.delete(taskId);
+    entry?.reject(new Error('network error'));
+  }
+
+  get running(): string[] {
+    return Array.from(this.pending.keys());
+  }
+}
+
+// 等待异步状态更新与事件派发
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createFile = (name: string) => new File(['content'], name, { type: 'text/plain' });
+
+describe('UploadQueueManager 多文件并发上传', () => {
+  let transport: MockTransport;
+  let kernel: any;
+
+  beforeEach(() => {
+    transport = new MockTransport();
+    kernel = {
+      getModule: (id: string) => (id === 'transport' ? transport : {})
+    };
+  });
+
+  afterEach(() => {
+    transport.concurrencyManager.destroy();
+  });
+
+  const createManager = async (options = {}) => {
+    const manager = new UploadQueueManager({ persistQueue: false, ...options });
+    await manager.init(kernel);
+    return manager;
+  };
+
+  test('应同时上传不超过maxConcurrentUploads个文件', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 2 });
+
+    const ids = await manager.addBulkToQueue(['a', 'b', 'c', 'd'].map(createFile));
+    await flush();
+
+    expect(transport.running).toEqual(ids.slice(0, 2));
+    expect(manager.getQueueState().activeUploads).toBe(2);
+    expect(manager.getQueueState().processingItems).toEqual(ids.slice(0, 2));
+
+    transport.complete(ids[0]);
+    await flush();
+
+    expect(transport.running).toEqual([ids[1], ids[2]]);
+    expect(manager.getQueueLength()).toBe(3);
+  });
+
+  test('全部完成后应回到空闲状态并触发队列空事件', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 3 });
+    const onEmpty = jest.fn();
+    const onCompleted = jest.fn();
+    manager.on(QueueEvents.QUEUE_EMPTY, onEmpty);
+    manager.on(QueueEvents.UPLOAD_COMPLETED, onCompleted);
+
+    const ids = await manager.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+
+    transport.fail(ids[0]);
+    transport.complete(ids[1]);
+    await flush();
+    await flush();
+
+    const state = manager.getQueueState();
+    expect(state.status).toBe(QueueItemStatus.IDLE);
+    expect(state.activeUploads).toBe(0);
+    expect(manager.getQueueItem(ids[0])?.status).toBe(QueueItemStatus.FAILED);
+    expect(onCompleted).toHaveBeenCalledWith(expect.objectContaining({ id: ids[1] }));
+    expect(onEmpty).toHaveBeenCalledTimes(1);
+  });
+
+  test('持久化失败时仍应结束上传并触发事件', async () => {
+    const storage = {
+      save: jest.fn().mockRejectedValue(new Error('quota exceeded')),
+      get: jest.fn().mockResolvedValue(null),
+      remove: jest.fn().mockRejectedValue(new Error('quota exceeded'))
+    };
+    kernel.getModule = (id: string) =>
+      id === 'transport' ? transport : id === 'storage' ? storage : {};
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const manager = await createManager({ persistQueue: true, maxConcurrentUploads: 2 });
+    const onFailed = jest.fn();
+    const onCompleted = jest.fn();
+    manager.on(QueueEvents.UPLOAD_FAILED, onFailed);
+    manager.on(QueueEvents.UPLOAD_COMPLETED, onCompleted);
+
+    const ids = await manager.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+
+    transport.fail(ids[0]);
+    transport.complete(ids[1]);
+    await flush();
+    await flush();
+
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: ids[0] }));
+    expect(onCompleted).toHaveBeenCalledWith(expect.objectContaining({ id: ids[1] }));
+    expect(manager.getQueueState().activeUploads).toBe(0);
+    jest.restoreAllMocks();
+  });
+
+  test('应将全局分片并发预算应用到传输模块的并发管理器', async () => {
+    await createManager({ chunkConcurrency: 8 });
+
+    expect(transport.concurrencyManager.getMaxConcurrency()).toBe(8);
+    expect(transport.concurrencyManager.concurrency).toBe(8);
+  });
+
+  test('默认排序应优先处理高优先级项目', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 1 });
+
+    const low = await manager.addToQueue(createFile('low'));
+    await flush();
+    const normal = await manager.addToQueue(createFile('normal'));
+    const high = await manager.addToQueue(createFile('high'), { priority: 5 });
+
+    transport.complete(low);
+    await flush();
+
+    expect(transport.running).toEqual([high]);
+    expect(transport.priorities.get(high)).toBe(5);
+
+    transport.complete(high);
+    await flush();
+    expect(transport.running).toEqual([normal]);
+  });
+
+  test('启用抢占时高优先级项目应暂停排序靠后的上传', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 2, enablePreemption: true });
+    const onPreempted = jest.fn();
+    manager.on(QueueEvents.UPLOAD_PREEMPTED, onPreempted);
+
+    const [first, second] = await manager.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+
+    const urgent = await manager.addToQueue(createFile('urgent'), { priority: 10 });
+    await flush();
+    await flush();
+
+    expect(transport.pauseTask).toHaveBeenCalledWith(second);
+    expect(transport.running).toEqual([first, urgent]);
+    expect(manager.getQueueItem(second)?.status).toBe(QueueItemStatus.QUEUED);
+    expect(onPreempted).toHaveBeenCalledWith(expect.objectContaining({ id: second }));
+
+    // 被抢占的项目在有空闲名额后以相同任务ID重新上传
+    transport.complete(urgent);
+    await flush();
+    expect(transport.running).toEqual([first, second]);
+    expect(transport.started.filter(id => id === second)).toHaveLength(2);
+  });
+
+  test('updatePriority应同步任务优先级并触发抢占', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 1, enablePreemption: true });
+
+    const [first, second] = await manager.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+    expect(transport.running).toEqual([first]);
+
+    await manager.updatePriority(second, 3);
+    await flush();
+    await flush();
+
+    expect(transport.pauseTask).toHaveBeenCalledWith(first);
+    expect(transport.running).toEqual([second]);
+
+    await manager.updatePriority(second, 1);
+    expect(transport.setTaskPriority).toHaveBeenCalledWith(second, 1);
+  });
+
+  test('未启用抢占时不应暂停进行中的上传', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 1 });
+
+    const first = await manager.addToQueue(createFile('a'));
+    await flush();
+    await manager.addToQueue(createFile('urgent'), { priority: 10 });
+    await flush();
+
+    expect(transport.pauseTask).not.toHaveBeenCalled();
+    expect(transport.running).toEqual([first]);
+  });
+
+  test('暂停和恢复队列应暂停并重新上传所有进行中的项目', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 2 });
+
+    const ids = await manager.addBulkToQueue(['a', 'b', 'c'].map(createFile));
+    await flush();
+
+    await manager.pauseQueue();
+    await flush();
+
+    expect(transport.running).toEqual([]);
+    expect(manager.getQueueState().activeUploads).toBe(0);
+    expect(manager.getQueueItem(ids[0])?.status).toBe(QueueItemStatus.PAUSED);
+    expect(manager.getQueueItem(ids[2])?.status).toBe(QueueItemStatus.QUEUED);
+
+    await manager.resumeQueue();
+    await flush();
+
+    expect(transport.running).toEqual(ids.slice(0, 2));
+  });
+
+  test('等待持久化期间暂停队列时不应开始上传', async () => {
+    // 处理中项目的持久化等待释放
+    let releaseSave: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => (releaseSave = resolve));
+    const storage = {
+      save: jest.fn((key: string) =>
+        key === 'filechunk_processing' ? blocked : Promise.resolve()
+      ),
+      get: jest.fn().mockResolvedValue(null),
+      remove: jest.fn().mockResolvedValue(undefined)
+    };
+    kernel.getModule = (id: string) =>
+      id === 'transport' ? transport : id === 'storage' ? storage : {};
+
+    const manager = await createManager({ persistQueue: true, maxConcurrentUploads: 1 });
+    const id = await manager.addToQueue(createFile('a'));
+
+    await manager.pauseQueue();
+    releaseSave();
+    await flush();
+    await flush();
+
+    expect(transport.running).toEqual([]);
+    expect(manager.getQueueItem(id)?.status).toBe(QueueItemStatus.PAUSED);
+    expect(manager.getQueueState().activeUploads).toBe(0);
+
+    await manager.resumeQueue();
+    await flush();
+    expect(transport.running).toEqual([id]);
+  });
+
+  test('从存储恢复的项目在重新关联文件前不应占用上传名额', async () => {
+    const storage = new MemoryStorageEngine();
+    kernel.getModule = (id: string) =>
+      id === 'transport' ? transport : id === 'storage' ? storage : {};
+
+    const previous = await createManager({ persistQueue: true, maxConcurrentUploads: 1 });
+    const [interrupted, queued] = await previous.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+    expect(transport.running).toEqual([interrupted]);
+
+    // 页面刷新后从存储恢复，恢复的项目没有文件
+    transport = new MockTransport();
+    const manager = await createManager({ persistQueue: true, maxConcurrentUploads: 1 });
+    expect(manager.getQueueItem(interrupted)?.status).toBe(QueueItemStatus.PAUSED);
+    expect(manager.getQueueItem(queued)?.status).toBe(QueueItemStatus.QUEUED);
+
+    const added = await manager.addToQueue(createFile('c'));
+    await flush();
+    expect(transport.started).toEqual([added]);
+
+    // 重新关联文件后按顺序上传
+    expect(await manager.attachFile(interrupted, createFile('a'))).toBe(true);
+    transport.complete(added);
+    await flush();
+    await flush();
+
+    expect(transport.started).toEqual([added, interrupted]);
+    expect(transport.uploadFile).toHaveBeenCalledTimes(2);
+    expect(transport.uploadFile.mock.calls.every(([file]) => file instanceof File)).toBe(true);
+  });
+
+  test('取消进行中的项目应释放名额', async () => {
+    const manager = await createManager({ maxConcurrentUploads: 1 });
+
+    const [first, second] = await manager.addBulkToQueue(['a', 'b'].map(createFile));
+    await flush();
+
+    await manager.cancelUpload(first);
+    await flush();
+
+    expect(transport.cancelTask).toHaveBeenCalledWith(first);
+    expect(transport.running).toEqual([second]);
+    expect(manager.getQueueItem(first)).toBeNull();
+  });
+
+  test('应将带宽限制模块连接到传输模块并按队列项设置速率上限', async () => {
+    const limiter = new BandwidthLimiter({ globalLimit: 1024 * 1024 });
+    kernel.getModule = (id: string) =>
+      id === 'transport' ? transport : id === 'bandwidth' ? limiter : {};
+
+    const manager = await createManager({ maxConcurrentUploads: 1 });
+    expect(transport.setBandwidthLimiter).toHaveBeenCalledWith(limiter);
+
+    const [first, second] = await manager.addBulkToQueue(['a', 'b'].map(createFile), {
+      bandwidthLimit: 256 * 1024
+    });
+    await flush();
+
+    expect(limiter.getTaskLimit(first)).toBe(256 * 1024);
+    expect(limiter.getTaskLimit(second)).toBe(0);
+
+    // 上传中调整速率上限立即生效
+    await manager.setBandwidthLimit(first, 512 * 1024);
+    expect(limiter.getTaskLimit(first)).toBe(512 * 1024);
+
+    transport.complete(first);
+    await flush();
+
+    expect(limiter.getTaskLimit(first)).toBe(0);
+    expect(limiter.getTaskLimit(second)).toBe(256 * 1024);
+  });
+});
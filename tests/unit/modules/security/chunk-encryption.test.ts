@@ -0,0 +1,400 @@
+import { TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+import {
+  ChunkEncryptor,
+  readChunkData
+} from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { ChunkDecryptor } from '../../../../src/modules/security/implementations/chunk-decryptor';
+import { ChunkEncryptionHookContext } from '../../../../src/modules/security/interfaces';
+import {
+  HttpTransport,
+  UPLOAD_PAUSED_ERROR_CODE
+} from '../../../../src/modules/transport/implementations/http-transport';
+import {
+  DefaultUploadProtocol,
+  TusUploadProtocol
+} from '../../../../src/modules/transport/implementations/protocols';
+import { PluginManager } from '../../../../src/plugins/plugin-manager';
+import { ExtensionPoint } from '../../../../src/plugins/plugin-api';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import { FileChunk } from '../../../../src/modules/transport/interfaces';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，直接返回固定哈希
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+/**
+ * 将jsdom中创建的缓冲区转换为Node缓冲区
+ * Node的Web Crypto只接受本realm的BufferSource
+ */
+function toNodeBuffer(value: any): any {
+  if (Object.prototype.toString.call(value) === '[object ArrayBuffer]') {
+    return Buffer.from(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toNodeBuffer(v)]));
+  }
+  return value;
+}
+
+const subtle = new Proxy(webcrypto.subtle, {
+  get(target, property) {
+    const value = (target as any)[property];
+    return typeof value === 'function'
+      ? (...args: any[]) => value.apply(target, args.map(toNodeBuffer))
+      : value;
+  }
+});
+
+// jsdom未提供TextEncoder和Web Crypto的subtle接口
+(global as any).TextEncoder = TextEncoder;
+Object.defineProperty(global, 'crypto', {
+  value: { subtle, getRandomValues: (array: any) => webcrypto.getRandomValues(array) },
+  configurable: true
+});
+
+const CHUNK_SIZE = 1024;
+
+async function generateRsaKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    {
+      name: 'RSA-OAEP',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([0x01, 0x00, 0x01]),
+      hash: 'SHA-256'
+    },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function generateEcdhKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, [
+    'deriveBits'
+  ]) as Promise<CryptoKeyPair>;
+}
+
+function createPlaintext(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31) % 251;
+  return bytes;
+}
+
+function createChunks(plaintext: Uint8Array): FileChunk[] {
+  const chunks: FileChunk[] = [];
+  for (let start = 0, index = 0; start < plaintext.length; start += CHUNK_SIZE, index++) {
+    const end = Math.min(start + CHUNK_SIZE, plaintext.length);
+    chunks.push({
+      index,
+      data: new Blob([plaintext.slice(start, end)]),
+      start,
+      end,
+      size: end - start
+    });
+  }
+  return chunks;
+}
+
+/**
+ * 加密全部分片并拼接密文，模拟服务端合并后的文件
+ */
+async function encryptAll(encryptor: ChunkEncryptor, plaintext: Uint8Array) {
+  const chunks = createChunks(plaintext);
+  const metadata = await encryptor.prepare({
+    hash: 'filehash',
+    chunkSize: CHUNK_SIZE,
+    totalChunks: chunks.length,
+    fileSize: plaintext.length
+  });
+
+  const parts: Uint8Array[] = [];
+  for (const chunk of chunks) {
+    const encrypted = await encryptor.encryptChunk('filehash', chunk);
+    parts.push(new Uint8Array(await readChunkData(encrypted.data)));
+  }
+
+  return { metadata, ciphertext: concat(parts) };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * 以不规则大小的数据块流式解密
+ */
+async function decryptStream(decryptor: ChunkDecryptor, ciphertext: Uint8Array) {
+  const output: Uint8Array[] = [];
+  const sizes = [7, 1500, 333, 4096];
+  let offset = 0;
+
+  for (let i = 0; offset < ciphertext.length; i++) {
+    const size = sizes[i % sizes.length];
+    output.push(...(await decryptor.push(ciphertext.slice(offset, offset + size))));
+    offset += size;
+  }
+  output.push(...(await decryptor.flush()));
+
+  return concat(output);
+}
+
+describe('分片端到端加密', () => {
+  test('RSA-OAEP包装密钥，流式解密得到原文', async () => {
+    const keyPair = await generateRsaKeyPair();
+    const encryptor = new ChunkEncryptor({ publicKey: keyPair.publicKey, keyId: 'rsa-1' });
+    const plaintext = createPlaintext(CHUNK_SIZE * 3 + 100);
+
+    const { metadata, ciphertext } = await encryptAll(encryptor, plaintext);
+
+    expect(metadata.keyWrap).toMatchObject({ algorithm: 'RSA-OAEP', keyId: 'rsa-1' });
+    expect(ciphertext.length).toBe(plaintext.length + 4 * 16);
+
+    const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+    expect(await decryptStream(decryptor, ciphertext)).toEqual(plaintext);
+  });
+
+  test('ECDH包装密钥，流式解密得到原文', async () => {
+    const keyPair = await generateEcdhKeyPair();
+    const encryptor = new ChunkEncryptor({ publicKey: keyPair.publicKey });
+    const plaintext = createPlaintext(CHUNK_SIZE * 2);
+
+    const { metadata, ciphertext } = await encryptAll(encryptor, plaintext);
+
+    expect(metadata.keyWrap.algorithm).toBe('ECDH-HKDF-A256KW');
+    expect(metadata.keyWrap.ephemeralPublicKey).toMatchObject({ kty: 'EC', crv: 'P-256' });
+
+    const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+    expect(await decryptStream(decryptor, ciphertext)).toEqual(plaintext);
+  });
+
+  test('同一分片重试时密文相同，不同分片随机数不同', async () => {
+    const keyPair = await generateRsaKeyPair();
+    const encryptor = new ChunkEncryptor({ publicKey: keyPair.publicKey });
+    const chunks = createChunks(new Uint8Array(CHUNK_SIZE * 2));
+    await encryptor.prepare({
+      hash: 'filehash',
+      chunkSize: CHUNK_SIZE,
+      totalChunks: 2,
+      fileSize: CHUNK_SIZE * 2
+    });
+
+    const read = async (chunk: FileChunk) =>
+      new Uint8Array(await readChunkData((await encryptor.encryptChunk('filehash', chunk)).data));
+
+    const first = await read(chunks[0]);
+    expect(await read(chunks[0])).toEqual(first);
+    // 明文相同的两个分片密文不同
+    expect(await read(chunks[1])).not.toEqual(first);
+  });
+
+  test('密文被篡改或截断时解密失败', async () => {
+    const keyPair = await generateRsaKeyPair();
+    const encryptor = new ChunkEncryptor({ publicKey: keyPair.publicKey });
+    const { metadata, ciphertext } = await encryptAll(encryptor, createPlaintext(CHUNK_SIZE * 2));
+
+    const tampered = ciphertext.slice();
+    tampered[10] ^= 0xff;
+    const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+    await expect(decryptStream(decryptor, tampered)).rejects.toThrow();
+
+    const truncated = ciphertext.slice(0, CHUNK_SIZE + 16);
+    const truncatedDecryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+    await expect(decryptStream(truncatedDecryptor, truncated)).rejects.toThrow(
+      '密文分片数量不匹配'
+    );
+  });
+
+  test('加密前后执行安全扩展点钩子', async () => {
+    const keyPair = await generateRsaKeyPair();
+    const pluginManager = new PluginManager({} as any, new EventEmitter());
+    const calls: string[] = [];
+
+    await pluginManager.register({
+      name: 'audit',
+      version: '1.0.0',
+      capabilities: ['file:readContent', 'file:modifyContent'],
+      initialize: api => {
+        api.registerHook(
+          ExtensionPoint.SECURITY_BEFORE_ENCRYPTION,
+          (context: ChunkEncryptionHookContext) => {
+            calls.push(`before:${context.chunkIndex}:${context.data.byteLength}`);
+            // 钩子可以替换明文，如添加固定头部
+            context.data = concat([new Uint8Array([1, 2, 3]), new Uint8Array(context.data)])
+              .buffer as ArrayBuffer;
+          }
+        );
+        api.registerHook(
+          ExtensionPoint.SECURITY_AFTER_ENCRYPTION,
+          (context: ChunkEncryptionHookContext) => {
+            calls.push(`after:${context.chunkIndex}:${context.nonce?.length}`);
+          }
+        );
+      }
+    });
+    await pluginManager.initializeAll();
+
+    const encryptor = new ChunkEncryptor({ publicKey: keyPair.publicKey, pluginManager });
+    const { metadata, ciphertext } = await encryptAll(encryptor, createPlaintext(100));
+
+    expect(calls).toEqual(['before:0:100', 'after:0:12']);
+
+    const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+    const plaintext = await decryptor.decryptChunk(0, ciphertext);
+    expect(new Uint8Array(plaintext).slice(0, 3)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  describe('HttpTransport 加密上传', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('上传密文分片并在合并请求中提交加密元数据', async () => {
+      const keyPair = await generateRsaKeyPair();
+      const server = new MockProtocolServer();
+      installDefaultRoutes(server);
+
+      const stored = new Map<number, Blob>();
+      server.on('POST', /^\/upload$/, request => {
+        const form = request.data as FormData;
+        stored.set(parseInt(String(form.get('index')), 10), form.get('chunk') as Blob);
+        return { status: 200, data: { success: true } };
+      });
+
+      let mergeBody: any = null;
+      server.on('POST', /^\/upload\/merge$/, request => {
+        mergeBody = request.data;
+        return { status: 200, data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/secret` } };
+      });
+
+      const transport = new HttpTransport({
+        target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+        autoRetry: false,
+        encryption: new ChunkEncryptor({ publicKey: keyPair.publicKey })
+      });
+      transport.setEventBus(new EventEmitter());
+
+      const plaintext = createPlaintext(600 * 1024);
+      const file = new File([plaintext], 'secret.bin');
+      await transport.uploadFile(file, server.createPlatform());
+
+      // 加密上传不进行秒传检查
+      expect(server.count('POST', /^\/upload\/check$/)).toBe(0);
+
+      const metadata = mergeBody.encryption;
+      expect(metadata).toMatchObject({ algorithm: 'AES-GCM', plaintextSize: plaintext.length });
+      expect(stored.size).toBe(metadata.totalChunks);
+
+      const parts: Uint8Array[] = [];
+      for (let index = 0; index < metadata.totalChunks; index++) {
+        parts.push(new Uint8Array(await readChunkData(stored.get(index)!)));
+      }
+
+      const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+      const output = [...(await decryptor.push(concat(parts))), ...(await decryptor.flush())];
+      expect(concat(output)).toEqual(plaintext);
+    });
+
+    test('没有检查点存储时暂停后续传应沿用原分片大小和数据密钥', async () => {
+      const keyPair = await generateRsaKeyPair();
+      const server = new MockProtocolServer();
+      installDefaultRoutes(server);
+
+      const stored = new Map<number, Blob>();
+      let transport: HttpTransport;
+      server.on('POST', /^\/upload$/, request => {
+        const form = request.data as FormData;
+        stored.set(parseInt(String(form.get('index')), 10), form.get('chunk') as Blob);
+        // 第一个分片上传后暂停任务
+        if (stored.size === 1) {
+          transport.pauseTask('task');
+        }
+        return { status: 200, data: { success: true } };
+      });
+
+      let mergeBody: any = null;
+      server.on('POST', /^\/upload\/merge$/, request => {
+        mergeBody = request.data;
+        return { status: 200, data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/secret` } };
+      });
+
+      // 服务端报告已收到的分片
+      class ResumingProtocol extends DefaultUploadProtocol {
+        async prepare() {
+          return { exists: false, uploadedChunks: Array.from(stored.keys()) };
+        }
+      }
+
+      transport = new HttpTransport({
+        target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+        protocol: new ResumingProtocol({ target: `${PROTOCOL_SERVER_BASE_URL}/upload` }),
+        autoRetry: false,
+        concurrency: 1,
+        encryption: new ChunkEncryptor({ publicKey: keyPair.publicKey })
+      });
+      transport.setEventBus(new EventEmitter());
+
+      // 网速变化后分片策略给出不同的分片大小
+      jest
+        .spyOn((transport as any).chunkStrategy, 'getOptimalChunkSize')
+        .mockReturnValueOnce(256 * 1024)
+        .mockReturnValue(128 * 1024);
+
+      const plaintext = createPlaintext(600 * 1024);
+      const file = new File([plaintext], 'secret.bin');
+      const platform = server.createPlatform();
+
+      await expect(transport.uploadFile(file, platform, { taskId: 'task' })).rejects.toMatchObject({
+        code: UPLOAD_PAUSED_ERROR_CODE
+      });
+      await transport.uploadFile(file, platform, { taskId: 'task' });
+
+      const metadata = mergeBody.encryption;
+      expect(metadata).toMatchObject({ chunkSize: 256 * 1024, totalChunks: 3 });
+
+      // 已上传的分片不重复上传
+      expect(server.count('POST', /^\/upload$/)).toBe(3);
+
+      const parts: Uint8Array[] = [];
+      for (let index = 0; index < metadata.totalChunks; index++) {
+        parts.push(new Uint8Array(await readChunkData(stored.get(index)!)));
+      }
+
+      const decryptor = await ChunkDecryptor.create(metadata, keyPair.privateKey);
+      const output = [...(await decryptor.push(concat(parts))), ...(await decryptor.flush())];
+      expect(concat(output)).toEqual(plaintext);
+    });
+
+    test('顺序上传协议不能启用加密', async () => {
+      const keyPair = await generateRsaKeyPair();
+
+      expect(
+        () =>
+          new HttpTransport({
+            protocol: new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` }),
+            encryption: new ChunkEncryptor({ publicKey: keyPair.publicKey })
+          })
+      ).toThrow('加密上传不支持顺序上传协议');
+    });
+  });
+});
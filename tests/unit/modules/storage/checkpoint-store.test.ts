@@ -0,0 +1,105 @@
+import { CheckpointStore } from '../../../../src/modules/storage/checkpoint-store';
+import { MemoryStorageEngine } from '../../../utils/memory-storage-engine';
+
+const createCheckpoint = (hash = 'hash-1') => ({
+  hash,
+  fileName: 'video.mp4',
+  fileSize: 10 * 1024,
+  chunkSize: 1024,
+  totalChunks: 10,
+  protocol: 'default',
+  uploadId: 'upload-1',
+  acknowledgedChunks: [],
+  parts: []
+});
+
+describe('CheckpointStore', () => {
+  let storage: MemoryStorageEngine;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    storage = new MemoryStorageEngine();
+    store = new CheckpointStore(storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应保存并读取检查点', async () => {
+    await store.save(createCheckpoint());
+
+    // 使用新实例读取，模拟页面刷新后从存储恢复
+    const checkpoint = await new CheckpointStore(storage).load('hash-1');
+
+    expect(checkpoint).toEqual(
+      expect.objectContaining({
+        hash: 'hash-1',
+        chunkSize: 1024,
+        uploadId: 'upload-1',
+        acknowledgedChunks: []
+      })
+    );
+    expect(await store.list()).toEqual(['hash-1']);
+  });
+
+  test('并发确认的分片不应丢失', async () => {
+    await store.save(createCheckpoint());
+
+    await Promise.all([
+      store.acknowledge('hash-1', 3, 'etag-3'),
+      store.acknowledge('hash-1', 0),
+      store.acknowledge('hash-1', 7, 'etag-7'),
+      store.acknowledge('hash-1', 3, 'etag-3b')
+    ]);
+
+    const checkpoint = await new CheckpointStore(storage).load('hash-1');
+    expect(checkpoint?.acknowledgedChunks).toEqual([0, 3, 7]);
+    expect(checkpoint?.parts).toEqual([
+      [7, 'etag-7'],
+      [3, 'etag-3b']
+    ]);
+  });
+
+  test('过期的检查点应自动失效', async () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await store.save(createCheckpoint());
+
+    spy.mockReturnValue(now + 8 * 24 * 60 * 60 * 1000);
+
+    expect(await new CheckpointStore(storage).load('hash-1')).toBeNull();
+    expect(storage.data.has('checkpoint:hash-1')).toBe(false);
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('损坏的检查点应被删除', async () => {
+    await store.save(createCheckpoint());
+    await store.save(createCheckpoint('hash-2'));
+
+    storage.data.set('checkpoint:hash-1', '{not json');
+    storage.data.set(
+      'checkpoint:hash-2',
+      JSON.stringify({ ...createCheckpoint('hash-2'), version: 1, acknowledgedChunks: [42] })
+    );
+
+    const fresh = new CheckpointStore(storage);
+    const removed = await fresh.cleanupExpired();
+
+    expect(removed).toBe(2);
+    expect(storage.data.has('checkpoint:hash-1')).toBe(false);
+    expect(storage.data.has('checkpoint:hash-2')).toBe(false);
+    expect(await fresh.list()).toEqual([]);
+  });
+
+  test('删除检查点后排队中的写入不应恢复数据', async () => {
+    await store.save(createCheckpoint());
+
+    const pending = store.acknowledge('hash-1', 1);
+    await store.remove('hash-1');
+    await pending;
+
+    expect(storage.data.has('checkpoint:hash-1')).toBe(false);
+    expect(await store.load('hash-1')).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileSystemStorage,
+  STORAGE_LOCK_TIMEOUT_ERROR_CODE
+} from '../../../../src/modules/storage/file-system-storage';
+import { CacheCleanupStrategy } from '../../../../src/types/storage';
+
+const DIRECTORY = 'filechunk-pro%3Astorage';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i % 256);
+
+const readBytes = async (blob: Blob | null) =>
+  Array.from(new Uint8Array(await blob!.arrayBuffer()));
+
+describe('FileSystemStorage', () => {
+  let root: string;
+  let directory: string;
+
+  const createStorage = (options: Record<string, any> = {}) =>
+    new FileSystemStorage({ directory: root, ...options });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filechunk-storage-'));
+    directory = path.join(root, DIRECTORY);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('应以文件保存数据并在重新打开后恢复', async () => {
+    const storage = createStorage();
+
+    await storage.save('state', { status: 'paused', chunks: [0, 1] });
+    await storage.saveBlob('file', new Blob([bytes(10)], { type: 'video/mp4' }));
+
+    // 二进制数据原样写入文件，写入完成后不遗留临时文件和锁文件
+    expect(Array.from(fs.readFileSync(path.join(directory, 'file.data')))).toEqual(
+      Array.from(bytes(10))
+    );
+    expect(fs.readdirSync(directory).sort()).toEqual(['file.data', 'index.json', 'state.data']);
+
+    const blob = await storage.getBlob('file', { start: 2, end: 6 });
+    expect(blob!.type).toBe('video/mp4');
+    expect(await readBytes(blob)).toEqual([2, 3, 4, 5]);
+
+    const segments: number[][] = [];
+    for await (const segment of storage.streamBlob('file', { start: 4, chunkSize: 4 })) {
+      segments.push(await readBytes(segment));
+    }
+    expect(segments).toEqual([
+      [4, 5, 6, 7],
+      [8, 9]
+    ]);
+
+    // 未写入索引的数据文件在打开时删除
+    fs.writeFileSync(path.join(directory, 'orphan.data'), 'orphan');
+
+    const reopened = createStorage();
+    expect(await reopened.get('state')).toEqual({ status: 'paused', chunks: [0, 1] });
+    expect(await readBytes(await reopened.get<Blob>('file'))).toEqual(Array.from(bytes(10)));
+    expect(await reopened.getStats()).toMatchObject({ items: 2, currentSize: 44 });
+    expect(fs.existsSync(path.join(directory, 'orphan.data'))).toBe(false);
+
+    await reopened.remove('file');
+    expect(await reopened.exists('file')).toBe(false);
+    expect(fs.existsSync(path.join(directory, 'file.data'))).toBe(false);
+
+    await reopened.clear();
+    expect(await storage.get('state')).toBeNull();
+    expect(fs.readdirSync(directory)).toEqual(['index.json']);
+  });
+
+  test('应按默认过期时间和清理策略释放空间', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const storage = createStorage({
+      maxStorageSize: 100,
+      cleanupThreshold: 0.8,
+      cleanupStrategy: CacheCleanupStrategy.PRIORITY,
+      defaultTTL: 500
+    });
+
+    await storage.saveBlob('a', bytes(10));
+    await storage.saveBlob('b', bytes(40));
+    await storage.setPriority('a', 1);
+    await storage.setExpiry('b', 5000);
+
+    // 使用量将超过阈值，低优先级的b先被清理
+    await storage.saveBlob('c', bytes(40));
+    expect((await storage.getStats()).keys).toEqual(['a', 'c']);
+
+    now += 600;
+    expect(await storage.get('a')).toBeNull();
+    expect(await storage.cleanupExpired()).toBe(1);
+    expect((await storage.getStats()).items).toBe(0);
+    expect(fs.readdirSync(directory)).toEqual(['index.json']);
+  });
+
+  test('应等待其他进程释放存储锁', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const storage = createStorage({ lockTimeout: 200 });
+    await storage.init();
+
+    // 模拟其他进程持有锁
+    const lockPath = path.join(directory, '.lock');
+    fs.writeFileSync(lockPath, '1');
+
+    const error = await storage.save('a', 'value').catch(e => e);
+    expect(error.code).toBe(STORAGE_LOCK_TIMEOUT_ERROR_CODE);
+    expect(await storage.exists('a')).toBe(false);
+    expect(fs.readdirSync(directory)).toEqual(['.lock']);
+
+    // 持有进程释放锁后写入继续
+    const saved = storage.save('b', 'value');
+    setTimeout(() => fs.rmSync(lockPath), 50);
+    await saved;
+    expect(await storage.get('b')).toBe('value');
+
+    // 长时间未释放的锁视为持有进程已退出
+    fs.writeFileSync(lockPath, '1');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, past, past);
+
+    await storage.save('c', 'value');
+    expect(await storage.get('c')).toBe('value');
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { IndexedDBStorage } from '../../../../src/modules/storage/indexeddb-storage';
+import { supportsBinaryStorage } from '../../../../src/modules/storage/storage-engine';
+import { readChunkData } from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { installMemoryIndexedDB } from '../../../utils/memory-indexeddb';
+
+const DB_NAME = 'binary-test-storage';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i);
+
+const readBytes = async (blob: Blob | null) =>
+  Array.from(new Uint8Array(await readChunkData(blob!)));
+
+describe('IndexedDBStorage二进制存储', () => {
+  const memory = installMemoryIndexedDB();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // 测试环境没有IDBKeyRange，过期清理会输出警告
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应原样分段保存ArrayBuffer并按字节范围读取', async () => {
+    const storage = new IndexedDBStorage({ prefix: 'binary-test', binaryChunkSize: 4 });
+    expect(supportsBinaryStorage(storage)).toBe(true);
+
+    await storage.saveBlob('file', bytes(10).buffer);
+
+    const chunks = memory.records(DB_NAME, 'chunks');
+    expect(chunks.map(chunk => chunk.id)).toEqual(['file_chunk_0', 'file_chunk_1', 'file_chunk_2']);
+    expect(chunks.every(chunk => chunk.data instanceof ArrayBuffer)).toBe(true);
+
+    expect(await readBytes(await storage.getBlob('file', { start: 3, end: 9 }))).toEqual([
+      3, 4, 5, 6, 7, 8
+    ]);
+    expect(await readBytes(await storage.getBlob('file', { start: 8 }))).toEqual([8, 9]);
+    expect(await readBytes((await storage.get('file')) as Blob)).toEqual(Array.from(bytes(10)));
+    expect(await storage.getBlob('missing')).toBeNull();
+
+    // 配额统计使用实际字节数
+    expect((await storage.getStats()).currentSize).toBe(10);
+  });
+
+  test('应按段读取Blob并在覆盖和删除时清理旧分段', async () => {
+    const storage = new IndexedDBStorage({ prefix: 'binary-test', binaryChunkSize: 4 });
+
+    await storage.saveBlob('file', new Blob([bytes(10)], { type: 'application/octet-stream' }));
+    await storage.saveBlob('file', new Blob([bytes(6)], { type: 'image/png' }));
+    expect(memory.records(DB_NAME, 'chunks')).toHaveLength(2);
+
+    const segments: number[][] = [];
+    for await (const segment of storage.streamBlob('file', { start: 1, chunkSize: 2 })) {
+      expect(segment.type).toBe('image/png');
+      segments.push(await readBytes(segment));
+    }
+    expect(segments).toEqual([[1, 2], [3, 4], [5]]);
+
+    await storage.remove('file');
+    expect(memory.records(DB_NAME, 'chunks')).toEqual([]);
+    expect(await storage.exists('file')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { OPFSStorage } from '../../../../src/modules/storage/opfs-storage';
+import {
+  OPFSRequest,
+  SyncAccessFileSystem,
+  WorkerFileSystem,
+  handleOPFSRequest
+} from '../../../../src/modules/storage/opfs-file-system';
+import { readChunkData } from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { CacheCleanupStrategy } from '../../../../src/types/storage';
+import { createUploader } from '../../../../src/uploader';
+import { MemoryDirectoryHandle } from '../../../utils/memory-opfs';
+import { MockProtocolServer } from '../../../utils/protocol-mock-server';
+
+// jsdom未提供TextEncoder和TextDecoder
+(global as any).TextEncoder = TextEncoder;
+(global as any).TextDecoder = TextDecoder;
+
+// Worker在测试环境中不可用
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({}),
+  WorkerType: { OPFS: 'opfs' }
+}));
+
+const DIRECTORY = 'filechunk-pro%3Astorage';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i % 256);
+
+const readBytes = async (blob: Blob | null) =>
+  Array.from(new Uint8Array(await readChunkData(blob!)));
+
+describe('OPFSStorage', () => {
+  let root: MemoryDirectoryHandle;
+
+  const createStorage = (options: Record<string, any> = {}) =>
+    new OPFSStorage({ fileSystem: new SyncAccessFileSystem(root), ...options });
+
+  beforeEach(() => {
+    root = new MemoryDirectoryHandle();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应以文件保存数据并在重新打开后恢复', async () => {
+    const storage = createStorage();
+
+    await storage.save('state', { status: 'paused', chunks: [0, 1] });
+    await storage.saveBlob('file', new Blob([bytes(10)], { type: 'video/mp4' }));
+
+    // 二进制数据原样写入文件
+    expect(Array.from(root.read(`${DIRECTORY}/file.data`)!)).toEqual(Array.from(bytes(10)));
+
+    const blob = await storage.getBlob('file', { start: 2, end: 6 });
+    expect(blob!.type).toBe('video/mp4');
+    expect(await readBytes(blob)).toEqual([2, 3, 4, 5]);
+
+    const segments: number[][] = [];
+    for await (const segment of storage.streamBlob('file', { start: 4, chunkSize: 4 })) {
+      segments.push(await readBytes(segment));
+    }
+    expect(segments).toEqual([
+      [4, 5, 6, 7],
+      [8, 9]
+    ]);
+
+    // 未写入索引的数据文件在打开时删除
+    const directory = await root.getDirectoryHandle(DIRECTORY);
+    await directory.getFileHandle('orphan.data', { create: true });
+
+    const reopened = createStorage();
+    expect(await reopened.get('state')).toEqual({ status: 'paused', chunks: [0, 1] });
+    expect(await readBytes(await reopened.get<Blob>('file'))).toEqual(Array.from(bytes(10)));
+    expect(await reopened.getStats()).toMatchObject({ items: 2, currentSize: 44 });
+    expect(root.read(`${DIRECTORY}/orphan.data`)).toBeNull();
+
+    await reopened.remove('file');
+    expect(await reopened.exists('file')).toBe(false);
+    expect(root.read(`${DIRECTORY}/file.data`)).toBeNull();
+  });
+
+  test('应按默认过期时间和清理策略释放空间', async () => {
+    let now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const storage = createStorage({
+      maxStorageSize: 100,
+      cleanupThreshold: 0.8,
+      cleanupStrategy: CacheCleanupStrategy.PRIORITY,
+      defaultTTL: 500
+    });
+
+    await storage.saveBlob('a', bytes(10));
+    await storage.saveBlob('b', bytes(40));
+    await storage.setPriority('a', 1);
+    await storage.setExpiry('b', 5000);
+
+    // 使用量将超过阈值，低优先级的b先被清理
+    await storage.saveBlob('c', bytes(40));
+    expect((await storage.getStats()).keys).toEqual(['a', 'c']);
+
+    now += 600;
+    expect(await storage.get('a')).toBeNull();
+    expect(await storage.getBlob('c')).toBeNull();
+    expect((await storage.getStats()).items).toBe(0);
+  });
+
+  test('写入中断或索引损坏时不应丢失已保存的数据', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fileSystem = new SyncAccessFileSystem(root);
+    const storage = new OPFSStorage({ fileSystem });
+
+    await storage.save('state', { status: 'paused' });
+    await storage.saveBlob('file', bytes(10));
+
+    // 写入只完成一部分时中断
+    const writeFile = fileSystem.writeFile.bind(fileSystem);
+    const interruptWrite = () =>
+      jest.spyOn(fileSystem, 'writeFile').mockImplementationOnce(async path => {
+        await writeFile(path, bytes(3).buffer);
+        throw new Error('写入中断');
+      });
+
+    // 覆盖数据文件中断时原数据保持完整
+    interruptWrite();
+    await expect(storage.saveBlob('file', bytes(20))).rejects.toThrow('写入中断');
+    expect(Array.from(root.read(`${DIRECTORY}/file.data`)!)).toEqual(Array.from(bytes(10)));
+
+    // 写入索引中断时原索引保持完整
+    interruptWrite();
+    await expect(storage.setPriority('file', 1)).rejects.toThrow('写入中断');
+
+    const reopened = createStorage();
+    expect(await reopened.get('state')).toEqual({ status: 'paused' });
+    expect(await readBytes(await reopened.getBlob('file'))).toEqual(Array.from(bytes(10)));
+    // 中断遗留的临时文件在打开时删除
+    expect((await fileSystem.list(DIRECTORY)).sort()).toEqual([
+      'file.data',
+      'index.json',
+      'state.data'
+    ]);
+
+    // 索引无法解析时不删除数据文件
+    const index = await (await root.getDirectoryHandle(DIRECTORY)).getFileHandle('index.json');
+    index.data = index.data.slice(0, 20);
+
+    const damaged = createStorage();
+    expect(await damaged.exists('file')).toBe(false);
+    expect(root.read(`${DIRECTORY}/file.data`)).not.toBeNull();
+    expect(root.read(`${DIRECTORY}/state.data`)).not.toBeNull();
+  });
+
+  test('连续读取时应合并访问信息的索引写入', async () => {
+    const fileSystem = new SyncAccessFileSystem(root);
+    const storage = new OPFSStorage({ fileSystem });
+    await storage.saveBlob('file', bytes(10));
+
+    const rename = jest.spyOn(fileSystem, 'rename');
+    for await (const segment of storage.streamBlob('file', { chunkSize: 2 })) {
+      expect(segment.size).toBe(2);
+    }
+    await storage.getBlob('file', { start: 4, end: 6 });
+    expect(rename).not.toHaveBeenCalled();
+
+    // 释放资源时立即写入
+    await storage.dispose();
+    expect(rename).toHaveBeenCalledTimes(1);
+
+    const index = JSON.parse(new TextDecoder().decode(root.read(`${DIRECTORY}/index.json`)!));
+    expect(index.items[0].accessCount).toBe(7);
+  });
+
+  test('应通过Worker消息调用文件操作', async () => {
+    const fileSystem = new SyncAccessFileSystem(root);
+    const listeners: Array<(event: any) => void> = [];
+    const worker = {
+      addEventListener: (type: string, listener: (event: any) => void) => {
+        if (type === 'message') listeners.push(listener);
+      },
+      postMessage: async (request: OPFSRequest) => {
+        const { response } = await handleOPFSRequest(fileSystem, request);
+        listeners.forEach(listener => listener({ data: response }));
+      },
+      terminate: jest.fn()
+    };
+
+    const client = new WorkerFileSystem(worker as unknown as Worker);
+
+    expect(await client.writeFile('spool/a.bin', bytes(8).buffer)).toBe(8);
+    expect(
+      Array.from(new Uint8Array((await client.readFile('spool/a.bin', { start: 6 }))!))
+    ).toEqual([6, 7]);
+    expect(await client.list('spool')).toEqual(['a.bin']);
+    expect(await client.readFile('spool/missing.bin')).toBeNull();
+    await expect(client.writeFile('spool', bytes(1).buffer)).rejects.toThrow('spool 不是文件');
+  });
+
+  test('平台支持OPFS时应默认使用OPFS存储', () => {
+    const platform = new MockProtocolServer().createPlatform();
+    platform.getFeatures = () => ({ opfs: true });
+
+    const uploader = createUploader({ target: '/upload', platform });
+    expect(uploader.kernel.getModule('storage')).toBeInstanceOf(OPFSStorage);
+  });
+});
@@ -0,0 +1,206 @@
+import { HttpTransport } from '../../../../src/modules/transport/implementations/http-transport';
+import { ChunkStrategy } from '../../../../src/modules/transport/chunk-strategy';
+import { ChunkEncryptor } from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { CheckpointStore } from '../../../../src/modules/storage/checkpoint-store';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import { MemoryStorageEngine } from '../../../utils/memory-storage-engine';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，直接返回固定哈希
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+const MB = 1024 * 1024;
+const FILE_SIZE = 8 * MB;
+const RTT = 200;
+
+describe('HttpTransport 自适应分片', () => {
+  let server: MockProtocolServer;
+  let events: EventEmitter;
+  let now: number;
+  let bytesPerSecond: number;
+  let failingChunk: number | null;
+  let slowdownAfter: number | null;
+  let received: Array<{ index: number; start: number; end: number; size: number }>;
+  let mergeBody: any;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    events = new EventEmitter();
+    now = 1_000_000;
+    bytesPerSecond = MB;
+    failingChunk = null;
+    slowdownAfter = null;
+    received = [];
+    mergeBody = null;
+
+    // 请求耗时由模拟时钟决定：每个请求一次往返时间，分片再加上按带宽计算的传输时间
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const state = installDefaultRoutes(server);
+
+    server
+      .on('POST', /^\/upload\/check$/, () => {
+        now += RTT;
+        return {
+          status: 200,
+          data: { exists: false, uploadedChunks: Array.from(state.chunks.get('filehash') || []) }
+        };
+      })
+      .on('POST', /^\/upload$/, request => {
+        const form = request.data as FormData;
+        const index = parseInt(String(form.get('index')), 10);
+        const size = (form.get('chunk') as Blob).size;
+        now += RTT + (size / bytesPerSecond) * 1000;
+
+        if (index === failingChunk) {
+          return { status: 400 };
+        }
+
+        received.push({
+          index,
+          start: parseInt(String(form.get('start')), 10),
+          end: parseInt(String(form.get('end')), 10),
+          size
+        });
+        if (slowdownAfter !== null && received.length >= slowdownAfter) {
+          bytesPerSecond = MB / 10;
+        }
+        const chunks = state.chunks.get('filehash') || new Set<number>();
+        chunks.add(index);
+        state.chunks.set('filehash', chunks);
+        return { status: 200, data: { success: true } };
+      })
+      .on('POST', /^\/upload\/merge$/, request => {
+        mergeBody = request.data;
+        return { status: 200, data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/filehash` } };
+      });
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createTransport = (storage?: MemoryStorageEngine) => {
+    const transport = new HttpTransport({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      concurrency: 1,
+      autoRetry: false,
+      adaptiveChunking: true,
+      checkpointStore: storage ? new CheckpointStore(storage) : undefined
+    });
+    transport.setEventBus(events);
+    return transport;
+  };
+
+  const createFile = () =>
+    new File([new Uint8Array(FILE_SIZE)], 'video.mp4', { type: 'video/mp4' });
+
+  // 分片字节范围应首尾相接并覆盖整个文件
+  const expectContiguous = (ranges: Array<[number, number]>) => {
+    ranges.forEach(([start], index) => {
+      expect(start).toBe(index === 0 ? 0 : ranges[index - 1][1]);
+    });
+    expect(ranges[ranges.length - 1][1]).toBe(FILE_SIZE);
+  };
+
+  test('应按实测吞吐量和往返时间重新切分剩余分片，并在合并时提交字节范围', async () => {
+    const rechunked = jest.fn();
+    events.on('transport:rechunked', rechunked);
+
+    const transport = createTransport();
+    await transport.uploadFile(createFile(), server.createPlatform());
+
+    // 首个分片512KB，1MB/s扣除200ms往返时间后每个分片目标为2.8秒的数据量
+    const chunkSize = Math.floor(MB * 2.8);
+    expect(rechunked).toHaveBeenCalledTimes(1);
+    expect(rechunked).toHaveBeenCalledWith(
+      expect.objectContaining({ fromIndex: 1, chunkSize, totalChunks: 4 })
+    );
+    expect(transport.getChunkStrategy().getCurrentRtt()).toBe(RTT);
+
+    expect(received.map(chunk => chunk.size)).toEqual([
+      512 * 1024,
+      chunkSize,
+      chunkSize,
+      FILE_SIZE - 512 * 1024 - chunkSize * 2
+    ]);
+    expect(mergeBody.totalChunks).toBe(4);
+    expect(mergeBody.chunkRanges).toEqual(received.map(chunk => [chunk.start, chunk.end]));
+    expectContiguous(mergeBody.chunkRanges);
+  });
+
+  test('网络变慢时缩小尚未发送的分片', async () => {
+    const rechunked = jest.fn();
+    events.on('transport:rechunked', rechunked);
+
+    // 第一个分片之后带宽降到原来的十分之一
+    slowdownAfter = 1;
+
+    await createTransport().uploadFile(createFile(), server.createPlatform());
+
+    // 首次切分放大分片，之后随测得的吞吐量下降逐次缩小
+    const sizes = rechunked.mock.calls.map(([event]) => event.chunkSize);
+    expect(sizes.length).toBeGreaterThanOrEqual(3);
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+    expect(received.slice(2).every(chunk => chunk.size < sizes[0])).toBe(true);
+    expect(mergeBody.totalChunks).toBe(received.length);
+    expectContiguous(mergeBody.chunkRanges);
+  });
+
+  test('应用重启后按检查点记录的字节范围续传', async () => {
+    const storage = new MemoryStorageEngine();
+
+    // 重新切分后的第三个分片失败
+    failingChunk = 2;
+    await expect(
+      createTransport(storage).uploadFile(createFile(), server.createPlatform())
+    ).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const checkpoint = await new CheckpointStore(storage).load('filehash');
+    expect(checkpoint?.chunkRanges).toHaveLength(4);
+    expect(checkpoint?.acknowledgedChunks).toEqual([0, 1]);
+
+    failingChunk = null;
+    received = [];
+    await createTransport(storage).uploadFile(createFile(), server.createPlatform());
+
+    // 已确认的分片不重新上传，剩余分片沿用原有字节范围
+    expect(received.map(chunk => chunk.index)).toEqual([2, 3]);
+    expect(received.map(chunk => [chunk.start, chunk.end])).toEqual(
+      checkpoint!.chunkRanges!.slice(2)
+    );
+    expect(mergeBody.chunkRanges).toEqual(checkpoint!.chunkRanges);
+  });
+
+  test('自适应分片不能与加密上传同时使用', () => {
+    expect(
+      () =>
+        new HttpTransport({
+          target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+          adaptiveChunking: true,
+          encryption: {} as ChunkEncryptor
+        })
+    ).toThrow('加密上传不支持自适应分片');
+  });
+
+  test('分片策略应从分片耗时中扣除往返时间', () => {
+    const strategy = new ChunkStrategy({ targetChunkTime: 3 });
+    strategy.updateRtt(500);
+    strategy.recordChunk(MB, 1500);
+
+    expect(strategy.getCurrentNetworkSpeed()).toBe(MB);
+    expect(strategy.getOptimalChunkSize()).toBe(Math.floor(MB * 2.5));
+  });
+});
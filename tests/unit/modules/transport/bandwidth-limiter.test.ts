@@ -0,0 +1,164 @@
+import { BandwidthLimiter } from '../../../../src/modules/transport/bandwidth-limiter';
+import { EventEmitter } from '../../../../src/core/event-bus';
+
+describe('BandwidthLimiter', () => {
+  let limiter: BandwidthLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2024, 0, 1, 10, 0, 0));
+  });
+
+  afterEach(async () => {
+    await limiter?.destroy().catch(() => undefined);
+    jest.useRealTimers();
+  });
+
+  /**
+   * 记录申请完成的时间（相对测试开始的毫秒数）
+   */
+  const track = (promise: Promise<void>) => {
+    const start = Date.now();
+    const state: { at: number | null; error: any } = { at: null, error: null };
+    promise.then(
+      () => {
+        state.at = Date.now() - start;
+      },
+      error => {
+        state.error = error;
+      }
+    );
+    return state;
+  };
+
+  const advance = async (ms: number) => {
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  test('全局速率上限应共享给所有申请，超出突发容量的申请等待令牌补充', async () => {
+    limiter = new BandwidthLimiter({ globalLimit: 1000 });
+
+    const first = track(limiter.acquire(1000, { taskId: 'a' }));
+    const second = track(limiter.acquire(500, { taskId: 'b' }));
+    const third = track(limiter.acquire(500, { taskId: 'a' }));
+    await advance(0);
+
+    expect(first.at).toBe(0);
+    expect(second.at).toBeNull();
+
+    await advance(1000);
+    expect(second.at).toBe(500);
+    expect(third.at).toBe(1000);
+  });
+
+  test('大于突发容量的申请先行发送，欠额由后续申请偿还', async () => {
+    limiter = new BandwidthLimiter({ globalLimit: 1000 });
+
+    const large = track(limiter.acquire(3000));
+    const next = track(limiter.acquire(1000));
+    await advance(0);
+    expect(large.at).toBe(0);
+
+    // 欠额2000字节，再等待满桶1000字节
+    await advance(2999);
+    expect(next.at).toBeNull();
+    await advance(1);
+    expect(next.at).toBe(3000);
+  });
+
+  test('任务速率上限只限制该任务，可在运行时修改', async () => {
+    limiter = new BandwidthLimiter({ taskLimits: { slow: 100 } });
+
+    const slowFirst = track(limiter.acquire(100, { taskId: 'slow' }));
+    const slowSecond = track(limiter.acquire(100, { taskId: 'slow' }));
+    const fast = track(limiter.acquire(10000, { taskId: 'fast' }));
+    await advance(0);
+
+    expect(slowFirst.at).toBe(0);
+    expect(slowSecond.at).toBeNull();
+    expect(fast.at).toBe(0);
+
+    // 100毫秒后已补充10字节，提速后剩余90字节只需等待90毫秒
+    await advance(100);
+    limiter.setTaskLimit('slow', 1000);
+    await advance(90);
+    expect(slowSecond.at).toBe(190);
+
+    limiter.setTaskLimit('slow', 0);
+    expect(limiter.getTaskLimit('slow')).toBe(0);
+  });
+
+  test('提高全局速率上限后等待中的申请按新速率放行', async () => {
+    limiter = new BandwidthLimiter({ globalLimit: 100 });
+    const events = new EventEmitter();
+    const changed = jest.fn();
+    events.on('bandwidth:limitChanged', changed);
+    limiter.setEventBus(events);
+
+    await limiter.acquire(100);
+    const pending = track(limiter.acquire(100));
+
+    limiter.setGlobalLimit(1000);
+    await advance(99);
+    expect(pending.at).toBeNull();
+    await advance(1);
+    expect(pending.at).toBe(100);
+
+    expect(changed).toHaveBeenCalledWith(
+      expect.objectContaining({ globalLimit: 1000, effectiveLimit: 1000 })
+    );
+  });
+
+  test('时段规则覆盖全局速率上限，支持跨越午夜', () => {
+    limiter = new BandwidthLimiter({
+      globalLimit: 1024 * 1024,
+      schedule: [
+        { start: '22:00', end: '07:00', limit: 0 },
+        { start: '09:00', end: '18:00', limit: 256 * 1024, days: [1, 2, 3, 4, 5] }
+      ]
+    });
+
+    // 2024-01-01为周一
+    expect(limiter.getEffectiveLimit(new Date(2024, 0, 1, 10, 0))).toBe(256 * 1024);
+    expect(limiter.getEffectiveLimit(new Date(2024, 0, 1, 20, 0))).toBe(1024 * 1024);
+    expect(limiter.getEffectiveLimit(new Date(2024, 0, 1, 23, 30))).toBe(0);
+    expect(limiter.getEffectiveLimit(new Date(2024, 0, 2, 6, 59))).toBe(0);
+    // 周六不在工作时段限速
+    expect(limiter.getEffectiveLimit(new Date(2024, 0, 6, 10, 0))).toBe(1024 * 1024);
+
+    expect(() => limiter.setSchedule([{ start: '25:00', end: '07:00', limit: 0 }])).toThrow(
+      '无效的时段时间'
+    );
+  });
+
+  test('进入不限速时段时立即放行等待中的申请', async () => {
+    jest.setSystemTime(new Date(2024, 0, 1, 21, 59, 59));
+    limiter = new BandwidthLimiter({
+      globalLimit: 1,
+      schedule: [{ start: '22:00', end: '07:00', limit: 0 }]
+    });
+
+    await limiter.acquire(1);
+    const pending = track(limiter.acquire(1000));
+
+    await advance(1000);
+    expect(pending.at).toBe(1000);
+  });
+
+  test('中止信号应拒绝等待中的申请且不占用令牌', async () => {
+    limiter = new BandwidthLimiter({ globalLimit: 1000 });
+    await limiter.acquire(1000);
+
+    const controller = new AbortController();
+    const aborted = track(limiter.acquire(1000, { signal: controller.signal }));
+    const next = track(limiter.acquire(1000));
+
+    controller.abort();
+    await advance(0);
+    expect(aborted.error).toMatchObject({ name: 'AbortError' });
+
+    await advance(1000);
+    expect(next.at).toBe(1000);
+    expect(limiter.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { HttpTransport } from '../../../../src/modules/transport/implementations/http-transport';
+import { CheckpointStore } from '../../../../src/modules/storage/checkpoint-store';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import { MemoryStorageEngine } from '../../../utils/memory-storage-engine';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，直接返回固定哈希
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+const FILE_SIZE = 1536 * 1024;
+
+/**
+ * 创建传输模块，模拟页面刷新时使用同一存储创建新的实例
+ */
+function createTransport(storage: MemoryStorageEngine, events: EventEmitter = new EventEmitter()) {
+  const transport = new HttpTransport({
+    target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+    autoRetry: false,
+    checkpointStore: new CheckpointStore(storage)
+  });
+  transport.setEventBus(events);
+  return transport;
+}
+
+describe('HttpTransport 客户端检查点续传', () => {
+  let server: MockProtocolServer;
+  let storage: MemoryStorageEngine;
+  let chunkIndexes: number[];
+  let failingChunk: number | null;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    storage = new MemoryStorageEngine();
+    chunkIndexes = [];
+    failingChunk = 1;
+
+    const state = installDefaultRoutes(server);
+
+    // 服务端没有检查接口
+    server.on('POST', /^\/upload\/check$/, () => ({ status: 404 }));
+
+    // 记录分片请求，并让指定分片失败
+    server.on('POST', /^\/upload$/, request => {
+      const form = request.data as FormData;
+      const index = parseInt(String(form.get('index')), 10);
+      chunkIndexes.push(index);
+      if (index === failingChunk) {
+        return { status: 400 };
+      }
+
+      const hash = String(form.get('hash'));
+      const received = state.chunks.get(hash) || new Set<number>();
+      received.add(index);
+      state.chunks.set(hash, received);
+      return { status: 200, data: { success: true } };
+    });
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createFile = () =>
+    new File([new Uint8Array(FILE_SIZE)], 'photo.raw', { type: 'application/octet-stream' });
+
+  test('服务端没有检查接口时应根据检查点跳过已确认的分片', async () => {
+    await expect(
+      createTransport(storage).uploadFile(createFile(), server.createPlatform())
+    ).rejects.toThrow();
+
+    // 等待检查点写入完成
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const uploadedBeforeReload = chunkIndexes.filter(index => index !== 1);
+    expect(uploadedBeforeReload.length).toBeGreaterThan(0);
+
+    // 页面刷新后重新上传
+    chunkIndexes = [];
+    failingChunk = null;
+    const events = new EventEmitter();
+    const reconciled = jest.fn();
+    events.on('transport:checkpointReconciled', reconciled);
+
+    const url = await createTransport(storage, events).uploadFile(
+      createFile(),
+      server.createPlatform()
+    );
+
+    expect(url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/filehash`);
+    expect(chunkIndexes.filter(index => uploadedBeforeReload.includes(index))).toEqual([]);
+    expect(chunkIndexes).toContain(1);
+    expect(reconciled).toHaveBeenCalledWith(
+      expect.objectContaining({ serverChunks: null, resumedChunks: uploadedBeforeReload.length })
+    );
+
+    // 上传完成后检查点被删除
+    expect(await new CheckpointStore(storage).list()).toEqual([]);
+  });
+
+  test('服务端报告已上传分片时应以服务端为准', async () => {
+    await expect(
+      createTransport(storage).uploadFile(createFile(), server.createPlatform())
+    ).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // 服务端恢复检查接口，但已清空分片
+    server.on('POST', /^\/upload\/check$/, () => ({
+      status: 200,
+      data: { exists: false, uploadedChunks: [] }
+    }));
+
+    chunkIndexes = [];
+    failingChunk = null;
+    await createTransport(storage).uploadFile(createFile(), server.createPlatform());
+
+    expect(chunkIndexes.sort()).toEqual([0, 1, 2]);
+  });
+
+  test('取消上传时删除检查点失败不应产生未处理的拒绝', async () => {
+    const checkpointStore = new CheckpointStore(storage);
+    jest.spyOn(checkpointStore, 'remove').mockRejectedValue(new Error('storage unavailable'));
+    const transport = new HttpTransport({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      autoRetry: false,
+      checkpointStore
+    });
+    transport.setEventBus(new EventEmitter());
+
+    // 分片请求挂起，直到任务被取消
+    let releaseChunk: () => void = () => undefined;
+    server.on('POST', /^\/upload$/, async () => {
+      await new Promise<void>(resolve => (releaseChunk = resolve));
+      return { status: 200, data: { success: true } };
+    });
+
+    const upload = transport.uploadFile(createFile(), server.createPlatform(), { taskId: 'task' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(transport.cancelTask('task')).toBe(true);
+    releaseChunk();
+    await expect(upload).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(console.warn).toHaveBeenCalledWith('删除上传检查点失败:', expect.any(Error));
+  });
+});
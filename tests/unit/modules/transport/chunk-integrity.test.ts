@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import {
+  CHUNK_INTEGRITY_MISMATCH_ERROR_CODE,
+  HttpTransport,
+  HttpTransportOptions
+} from '../../../../src/modules/transport/implementations/http-transport';
+import { readChunkData } from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { computeMerkleRoot, createHasher } from '../../../../src/workers/hash-algorithms';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，文件哈希直接返回固定值
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+const CHUNK_SIZE = 512 * 1024;
+
+/**
+ * 在当前线程计算分片哈希，代替Worker
+ */
+const workerManager = {
+  calculateHash: jest.fn(async (task: { data: Blob; algorithm: any }) => {
+    const hasher = createHasher(task.algorithm);
+    hasher.append(await readChunkData(task.data));
+    return hasher.end();
+  })
+};
+
+function makeBytes(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 13 + 5) & 0xff;
+  }
+  return bytes;
+}
+
+describe('HttpTransport 分片完整性校验', () => {
+  const bytes = makeBytes(CHUNK_SIZE + 1000);
+  const chunkHashes = [bytes.subarray(0, CHUNK_SIZE), bytes.subarray(CHUNK_SIZE)].map(chunk =>
+    createHash('sha256').update(chunk).digest()
+  );
+
+  let server: MockProtocolServer;
+  let events: EventEmitter;
+  let received: Set<number>;
+  let digestHeaders: string[];
+  let mergeBody: any;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    events = new EventEmitter();
+    received = new Set();
+    digestHeaders = [];
+    mergeBody = null;
+
+    installDefaultRoutes(server);
+    server
+      .on('POST', /^\/upload$/, request => {
+        const form = request.data as FormData;
+        const index = parseInt(String(form.get('index')), 10);
+        received.add(index);
+        digestHeaders.push(request.headers['content-digest']);
+        return { status: 200, data: { digest: chunkHashes[index].toString('hex') } };
+      })
+      .on('POST', /^\/upload\/merge$/, request => {
+        mergeBody = request.data;
+        return { status: 200, data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/merged` } };
+      });
+
+    workerManager.calculateHash.mockClear();
+  });
+
+  const createTransport = (options: Partial<HttpTransportOptions> = {}) => {
+    const transport = new HttpTransport({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      chunkSize: CHUNK_SIZE,
+      retryDelay: 1,
+      chunkIntegrity: true,
+      workerManager: workerManager as any,
+      ...options
+    });
+    transport.setEventBus(events);
+    return transport;
+  };
+
+  const createFile = () => new File([bytes], 'data.bin');
+
+  test('每个分片应发送Content-Digest，合并时提交Merkle根', async () => {
+    await createTransport().uploadFile(createFile(), server.createPlatform());
+
+    expect(digestHeaders.sort()).toEqual(
+      chunkHashes.map(hash => `sha-256=:${hash.toString('base64')}:`).sort()
+    );
+    expect(mergeBody.integrity).toEqual({
+      algorithm: 'sha256',
+      merkleRoot: computeMerkleRoot(
+        chunkHashes.map(hash => hash.toString('hex')),
+        'sha256'
+      ),
+      totalChunks: 2
+    });
+  });
+
+  test('服务端确认的摘要不一致时只重传该分片', async () => {
+    let corrupted = false;
+    server.on('POST', /^\/upload$/, request => {
+      const index = parseInt(String((request.data as FormData).get('index')), 10);
+      received.add(index);
+
+      // 第一次上传分片1时模拟传输损坏
+      if (index === 1 && !corrupted) {
+        corrupted = true;
+        return { status: 200, data: { digest: 'sha-256=:AAAA:' } };
+      }
+      return { status: 200, data: { digest: chunkHashes[index].toString('base64') } };
+    });
+
+    const mismatches: any[] = [];
+    events.on('transport:chunkIntegrityMismatch', (event: any) => {
+      mismatches.push(event);
+    });
+
+    await createTransport().uploadFile(createFile(), server.createPlatform());
+
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0]).toMatchObject({
+      chunkIndex: 1,
+      expected: chunkHashes[1].toString('hex'),
+      actual: '000000'
+    });
+    expect(server.count('POST', /^\/upload$/)).toBe(3);
+    // 重试复用缓存的分片哈希，文件哈希之外每个分片只计算一次
+    const chunkTasks = workerManager.calculateHash.mock.calls.filter(([task]: any[]) =>
+      task.fileId.includes('_chunk_')
+    );
+    expect(chunkTasks).toHaveLength(2);
+  });
+
+  test('摘要连续不一致时应继续重试，达到最大重试次数后以最后的错误结束', async () => {
+    let corruptions = 0;
+    server.on('POST', /^\/upload$/, request => {
+      const index = parseInt(String((request.data as FormData).get('index')), 10);
+
+      // 分片1连续两次传输损坏
+      if (index === 1 && corruptions < 2) {
+        corruptions++;
+        return { status: 200, data: { digest: 'sha-256=:AAAA:' } };
+      }
+      return { status: 200, data: { digest: chunkHashes[index].toString('base64') } };
+    });
+
+    await createTransport().uploadFile(createFile(), server.createPlatform());
+    expect(server.count('POST', /^\/upload$/)).toBe(4);
+
+    // 只允许重试一次时第二次损坏结束上传
+    corruptions = 0;
+    server.requests = [];
+    const error = await createTransport({ maxRetries: 1 })
+      .uploadFile(createFile(), server.createPlatform())
+      .catch(e => e);
+
+    expect(error.code).toBe(CHUNK_INTEGRITY_MISMATCH_ERROR_CODE);
+    expect(server.count('POST', /^\/upload$/)).toBe(3);
+  });
+
+  test('服务端返回422时按完整性错误处理并重试', async () => {
+    let rejected = false;
+    server.on('POST', /^\/upload$/, request => {
+      const index = parseInt(String((request.data as FormData).get('index')), 10);
+      if (index === 0 && !rejected) {
+        rejected = true;
+        return { status: 422, data: { error: 'Digest mismatch' } };
+      }
+      received.add(index);
+      return { status: 200, data: { success: true } };
+    });
+
+    const errors: any[] = [];
+    events.on('transport:chunkError', (event: any) => {
+      errors.push(event);
+    });
+    const onChunkError = jest.fn();
+
+    await createTransport({ onChunkError }).uploadFile(createFile(), server.createPlatform());
+
+    expect(received).toEqual(new Set([0, 1]));
+    expect(server.count('POST', /^\/upload$/)).toBe(3);
+    expect(errors).toEqual([expect.objectContaining({ chunkIndex: 0, retryable: true })]);
+    expect(onChunkError.mock.calls[0][1].code).toBe(CHUNK_INTEGRITY_MISMATCH_ERROR_CODE);
+  });
+});
@@ -0,0 +1,304 @@
+import { createHash, webcrypto } from 'crypto';
+import {
+  DOWNLOAD_INTEGRITY_ERROR_CODE,
+  DOWNLOAD_PAUSED_ERROR_CODE,
+  DOWNLOAD_SOURCE_CHANGED_ERROR_CODE,
+  DownloadTransport,
+  DownloadTransportOptions
+} from '../../../../src/modules/transport/implementations/download-transport';
+import { readChunkData } from '../../../../src/modules/security/implementations/chunk-encryptor';
+import { CheckpointStore } from '../../../../src/modules/storage/checkpoint-store';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import { MemoryStorageEngine } from '../../../utils/memory-storage-engine';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installRangeRoutes
+} from '../../../utils/protocol-mock-server';
+
+// jsdom未提供Web Crypto的digest，使用Node实现
+Object.defineProperty(global, 'crypto', {
+  value: {
+    subtle: {
+      digest: (algorithm: string, data: any) =>
+        webcrypto.subtle.digest(algorithm, Buffer.from(data))
+    }
+  },
+  configurable: true
+});
+
+const CHUNK_SIZE = 512 * 1024;
+const FILE_URL = `${PROTOCOL_SERVER_BASE_URL}/downloads/video.bin`;
+
+/**
+ * 支持二进制数据的内存存储引擎
+ */
+class BinaryMemoryStorageEngine extends MemoryStorageEngine {
+  blobs: Map<string, Blob> = new Map();
+
+  async saveBlob(key: string, data: Blob | ArrayBuffer | ArrayBufferView): Promise<void> {
+    this.blobs.set(key, data instanceof Blob ? data : new Blob([data as BlobPart]));
+  }
+
+  async getBlob(key: string): Promise<Blob | null> {
+    return this.blobs.get(key) || null;
+  }
+
+  async *streamBlob(key: string): AsyncIterable<Blob> {
+    const blob = this.blobs.get(key);
+    if (blob) yield blob;
+  }
+
+  async remove(key: string): Promise<void> {
+    this.blobs.delete(key);
+    await super.remove(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.blobs.has(key) || super.exists(key);
+  }
+}
+
+function makeBytes(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 17 + 3) & 0xff;
+  }
+  return bytes;
+}
+
+describe('DownloadTransport', () => {
+  // 分片策略最小分片512KB，文件分为3个分片
+  const bytes = makeBytes(CHUNK_SIZE * 2 + 1000);
+  const sha256 = createHash('sha256').update(bytes).digest('hex');
+
+  let server: MockProtocolServer;
+  let events: EventEmitter;
+  let transports: DownloadTransport[];
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    events = new EventEmitter();
+    transports = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    transports.forEach(transport => transport.getConcurrencyManager().destroy());
+    jest.restoreAllMocks();
+  });
+
+  const createTransport = (options: DownloadTransportOptions = {}) => {
+    const transport = new DownloadTransport({ retryDelay: 1, ...options });
+    transport.setEventBus(events);
+    transports.push(transport);
+    return transport;
+  };
+
+  const chunkRequests = () =>
+    server.requests
+      .filter(request => request.headers['range'] !== 'bytes=0-0')
+      .map(request => request.headers['range']);
+
+  // 逐字节比较大数组很慢，比较哈希
+  const digest = (data: ArrayBuffer | Uint8Array) =>
+    createHash('sha256')
+      .update(Buffer.from(data as ArrayBuffer))
+      .digest('hex');
+  const readBlob = async (data: Blob | string) => digest(await readChunkData(data as Blob));
+
+  test('应并发请求Range分片并按位置组装Blob，校验期望哈希', async () => {
+    installRangeRoutes(server, { 'video.bin': bytes });
+    const progress: number[] = [];
+
+    const result = await createTransport().download(FILE_URL, server.createPlatform(), {
+      expectedHash: sha256,
+      onProgress: value => progress.push(value)
+    });
+
+    expect(result.size).toBe(bytes.length);
+    expect(result.hash).toBe(sha256);
+    expect(await readBlob(result.data)).toBe(sha256);
+    expect(chunkRequests().sort()).toEqual(
+      [
+        `bytes=0-${CHUNK_SIZE - 1}`,
+        `bytes=${CHUNK_SIZE}-${CHUNK_SIZE * 2 - 1}`,
+        `bytes=${CHUNK_SIZE * 2}-${bytes.length - 1}`
+      ].sort()
+    );
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  test('暂停后继续只下载缺少的分片', async () => {
+    installRangeRoutes(server, { 'video.bin': bytes });
+    const transport = createTransport({ concurrency: 1 });
+
+    const paused = jest.fn();
+    events.on('download:taskPaused', paused);
+
+    // 第一个分片完成后暂停，继续下载时不再暂停
+    let pauseOnProgress = true;
+    const first = transport.download(FILE_URL, server.createPlatform(), {
+      taskId: 'task-1',
+      onProgress: value => {
+        if (value > 0 && pauseOnProgress) {
+          pauseOnProgress = false;
+          transport.pauseTask('task-1');
+        }
+      }
+    });
+
+    await expect(first).rejects.toMatchObject({ code: DOWNLOAD_PAUSED_ERROR_CODE });
+    expect(transport.getTask('task-1')?.status).toBe('paused');
+    expect(chunkRequests()).toHaveLength(1);
+
+    const result = await transport.resumeTask('task-1');
+
+    expect(await readBlob(result!.data)).toBe(sha256);
+    expect(chunkRequests()).toHaveLength(3);
+    expect(paused).toHaveBeenCalledTimes(1);
+  });
+
+  test('应用重启后根据检查点和持久化的分片续传', async () => {
+    const origin = new MockProtocolServer();
+    installRangeRoutes(origin, { 'video.bin': bytes });
+
+    // 第一次下载时最后一个分片失败，其余请求转发到Range路由
+    const lastRange = `bytes=${CHUNK_SIZE * 2}-${bytes.length - 1}`;
+    let failing = true;
+    server.on('GET', /^\/downloads\/video\.bin$/, request =>
+      failing && request.headers['range'] === lastRange
+        ? { status: 503 }
+        : origin.handle(request.url.href, 'GET', undefined, request.headers)
+    );
+
+    const storage = new MemoryStorageEngine();
+    const options = {
+      autoRetry: false,
+      checkpointStore: new CheckpointStore(storage, { prefix: 'download:' }),
+      storage
+    };
+
+    await expect(
+      createTransport(options).download(FILE_URL, server.createPlatform())
+    ).rejects.toMatchObject({ status: 503 });
+
+    failing = false;
+    server.requests = [];
+    const resumed = jest.fn();
+    events.on('download:resumeFromCheckpoint', resumed);
+
+    const result = await createTransport({
+      ...options,
+      checkpointStore: new CheckpointStore(storage, { prefix: 'download:' })
+    }).download(FILE_URL, server.createPlatform());
+
+    expect(await readBlob(result.data)).toBe(sha256);
+    expect(chunkRequests()).toEqual([lastRange]);
+    expect(resumed).toHaveBeenCalledWith(
+      expect.objectContaining({ downloadedChunks: expect.arrayContaining([0, 1]) })
+    );
+    // 完成后清理检查点和持久化的分片
+    expect(Array.from(storage.data.keys()).filter(key => key !== 'download:index')).toEqual([]);
+  });
+
+  test('存储引擎支持二进制数据时分片按原始字节持久化', async () => {
+    const origin = new MockProtocolServer();
+    installRangeRoutes(origin, { 'video.bin': bytes });
+
+    const lastRange = `bytes=${CHUNK_SIZE * 2}-${bytes.length - 1}`;
+    let failing = true;
+    server.on('GET', /^\/downloads\/video\.bin$/, request =>
+      failing && request.headers['range'] === lastRange
+        ? { status: 503 }
+        : origin.handle(request.url.href, 'GET', undefined, request.headers)
+    );
+
+    const storage = new BinaryMemoryStorageEngine();
+    const options = {
+      autoRetry: false,
+      checkpointStore: new CheckpointStore(storage, { prefix: 'download:' }),
+      storage
+    };
+
+    await expect(
+      createTransport(options).download(FILE_URL, server.createPlatform())
+    ).rejects.toMatchObject({ status: 503 });
+
+    // 已下载的分片以二进制数据保存，不经过Base64序列化
+    expect(storage.blobs.size).toBe(2);
+    expect(Array.from(storage.data.keys()).some(key => key.includes(':part:'))).toBe(false);
+    const [part] = Array.from(storage.blobs.values());
+    expect(part.size).toBe(CHUNK_SIZE);
+
+    failing = false;
+    server.requests = [];
+
+    const result = await createTransport({
+      ...options,
+      checkpointStore: new CheckpointStore(storage, { prefix: 'download:' })
+    }).download(FILE_URL, server.createPlatform());
+
+    expect(await readBlob(result.data)).toBe(sha256);
+    expect(chunkRequests()).toEqual([lastRange]);
+    expect(storage.blobs.size).toBe(0);
+  });
+
+  test('哈希不一致时以完整性错误结束并丢弃检查点', async () => {
+    installRangeRoutes(server, { 'video.bin': bytes });
+    const storage = new MemoryStorageEngine();
+    const checkpointStore = new CheckpointStore(storage, { prefix: 'download:' });
+
+    await expect(
+      createTransport({ checkpointStore }).download(FILE_URL, server.createPlatform(), {
+        taskId: 'task-2',
+        expectedHash: '0'.repeat(64)
+      })
+    ).rejects.toMatchObject({ code: DOWNLOAD_INTEGRITY_ERROR_CODE });
+
+    expect(await checkpointStore.load(FILE_URL)).toBeNull();
+  });
+
+  test('远端文件变化时停止续传', async () => {
+    const state = installRangeRoutes(server, { 'video.bin': bytes });
+    const transport = createTransport({ concurrency: 1 });
+
+    await expect(
+      transport.download(FILE_URL, server.createPlatform(), {
+        onProgress: value => {
+          if (value > 0) state.etag = '"v2"';
+        }
+      })
+    ).rejects.toMatchObject({ code: DOWNLOAD_SOURCE_CHANGED_ERROR_CODE });
+  });
+
+  test('提供filePath时通过平台适配器按位置写入文件', async () => {
+    installRangeRoutes(server, { 'video.bin': bytes });
+    const written = new Uint8Array(bytes.length);
+    const platform = {
+      ...server.createPlatform(),
+      writeFile: jest.fn(async (_path: string, data: ArrayBuffer, position: number) => {
+        written.set(new Uint8Array(data), position);
+      }),
+      readFile: jest.fn(async () => written.slice().buffer)
+    };
+
+    const result = await createTransport().download(FILE_URL, platform, {
+      filePath: '/data/video.bin',
+      expectedHash: sha256
+    });
+
+    expect(result.data).toBe('/data/video.bin');
+    expect(digest(written)).toBe(sha256);
+    expect(platform.writeFile).toHaveBeenCalledTimes(3);
+  });
+
+  test('服务端不支持Range时退化为一次完整下载', async () => {
+    installRangeRoutes(server, { 'video.bin': bytes }, { acceptRanges: false });
+
+    const result = await createTransport().download(FILE_URL, server.createPlatform());
+
+    expect(await readBlob(result.data)).toBe(sha256);
+    expect(server.requests).toHaveLength(1);
+  });
+});
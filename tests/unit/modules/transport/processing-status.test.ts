@@ -0,0 +1,99 @@
+import { HttpTransport } from '../../../../src/modules/transport/implementations/http-transport';
+import { PROCESSING_REJECTED_ERROR_CODE } from '../../../../src/modules/transport/processing-tracker';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，直接返回固定哈希
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+describe('HttpTransport 服务端后处理状态', () => {
+  let server: MockProtocolServer;
+  let events: EventEmitter;
+  let transport: HttpTransport;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    events = new EventEmitter();
+    installDefaultRoutes(server);
+
+    // 合并后服务端返回后处理任务
+    server.on('POST', /^\/upload\/merge$/, () => ({
+      status: 200,
+      data: { jobId: 'job-1' }
+    }));
+
+    transport = new HttpTransport({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      autoRetry: false,
+      processing: { pollInterval: 1, createEventSource: () => null }
+    });
+    transport.setEventBus(events);
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createFile = () => new File([new Uint8Array(1024)], 'clip.mp4', { type: 'video/mp4' });
+
+  test('后处理完成后uploadFile才返回，状态经过processing到ready', async () => {
+    const responses = [
+      { state: 'processing', stage: 'scan', progress: 50 },
+      { state: 'processing', stage: 'transcode', progress: 20 },
+      { state: 'ready', url: `${PROTOCOL_SERVER_BASE_URL}/files/clip.m3u8` }
+    ];
+    server.on('GET', /^\/upload\/jobs\/job-1$/, () => ({
+      status: 200,
+      data: responses.shift()
+    }));
+
+    const statuses: string[] = [];
+    events.on('transport:statusChanged', (event: any) => {
+      statuses.push(event.status);
+    });
+    const ready = jest.fn();
+    events.on('transport:ready', ready);
+
+    const stages: Array<string | undefined> = [];
+    const url = await transport.uploadFile(createFile(), server.createPlatform(), {
+      taskId: 'task-1',
+      onProgress: (_progress, info) => {
+        if (info?.stage === 'processing') stages.push(info.stageName);
+      }
+    });
+
+    expect(url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/clip.m3u8`);
+    expect(statuses.slice(-2)).toEqual(['processing', 'ready']);
+    expect(statuses).not.toContain('completed');
+    expect(stages).toEqual([undefined, 'scan', 'transcode', undefined]);
+    expect(ready).toHaveBeenCalledTimes(1);
+    expect(transport.getTask('task-1')?.status).toBe('ready');
+  });
+
+  test('后处理被拒绝时任务状态为rejected并抛出错误', async () => {
+    server.on('GET', /^\/upload\/jobs\/job-1$/, () => ({
+      status: 200,
+      data: { state: 'rejected', reason: 'virus detected' }
+    }));
+
+    const rejected = jest.fn();
+    events.on('transport:rejected', rejected);
+
+    await expect(
+      transport.uploadFile(createFile(), server.createPlatform(), { taskId: 'task-2' })
+    ).rejects.toMatchObject({ code: PROCESSING_REJECTED_ERROR_CODE, reason: 'virus detected' });
+
+    expect(transport.getTask('task-2')?.status).toBe('rejected');
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+});
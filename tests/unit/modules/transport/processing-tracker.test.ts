@@ -0,0 +1,173 @@
+import {
+  PROCESSING_TIMEOUT_ERROR_CODE,
+  ProcessingEventSource,
+  ProcessingTracker
+} from '../../../../src/modules/transport/processing-tracker';
+import { ProcessingStatus, ProtocolContext } from '../../../../src/modules/transport/interfaces';
+
+/**
+ * 模拟Server-Sent Events连接
+ */
+class FakeEventSource implements ProcessingEventSource {
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {}
+
+  push(data: any): void {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  fail(): void {
+    this.onerror?.({});
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * 创建按顺序返回状态的协议上下文，记录每次请求的时间
+ */
+function createPollingContext(responses: any[]) {
+  const calls: number[] = [];
+  const context: ProtocolContext = {
+    headers: {},
+    request: jest.fn(async () => {
+      calls.push(Date.now());
+      const next = responses.length > 1 ? responses.shift() : responses[0];
+      if (next instanceof Error) throw next;
+      return { status: 200, headers: {}, data: next };
+    }) as any
+  };
+  return { context, calls };
+}
+
+describe('ProcessingTracker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('应通过SSE推送跟踪状态直到ready', async () => {
+    let source: FakeEventSource | null = null;
+    const tracker = new ProcessingTracker({
+      createEventSource: url => (source = new FakeEventSource(url))
+    });
+    const { context } = createPollingContext([{ state: 'processing' }]);
+    const updates: ProcessingStatus[] = [];
+
+    const promise = tracker.track(
+      { id: 'job-1', eventsUrl: '/jobs/job-1/events', statusUrl: '/jobs/job-1' },
+      context,
+      status => updates.push(status)
+    );
+
+    source!.push({ state: 'processing', stage: 'scan', progress: 40 });
+    source!.push(': heartbeat');
+    source!.push({ state: 'processing', stage: 'transcode', progress: 10 });
+    source!.push({ state: 'ready', url: 'https://cdn.example.com/video.m3u8' });
+
+    const result = await promise;
+
+    expect(result.state).toBe('ready');
+    expect(result.url).toBe('https://cdn.example.com/video.m3u8');
+    expect(updates.map(update => update.stage)).toEqual(['scan', 'transcode', undefined]);
+    expect(source!.url).toBe('/jobs/job-1/events');
+    expect(source!.closed).toBe(true);
+    expect(context.request).not.toHaveBeenCalled();
+  });
+
+  test('SSE连接中断时应回退到轮询', async () => {
+    let source: FakeEventSource | null = null;
+    const tracker = new ProcessingTracker({
+      pollInterval: 1,
+      createEventSource: url => (source = new FakeEventSource(url))
+    });
+    const { context } = createPollingContext([
+      { status: 'processing', stage: 'scan' },
+      { status: 'failed', reason: 'virus detected' }
+    ]);
+
+    const promise = tracker.track(
+      { id: 'job-2', eventsUrl: '/jobs/job-2/events', statusUrl: '/jobs/job-2' },
+      context,
+      () => undefined
+    );
+
+    source!.push({ state: 'processing', stage: 'scan' });
+    source!.fail();
+
+    const result = await promise;
+
+    expect(source!.closed).toBe(true);
+    expect(result.state).toBe('rejected');
+    expect(result.reason).toBe('virus detected');
+    expect(context.request).toHaveBeenCalledTimes(2);
+  });
+
+  test('状态未变化时应指数退避，变化后恢复初始间隔', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    const tracker = new ProcessingTracker({
+      pollInterval: 100,
+      backoffFactor: 2,
+      maxPollInterval: 300,
+      createEventSource: () => null
+    });
+    const { context, calls } = createPollingContext([
+      { state: 'processing', stage: 'scan', progress: 0 },
+      { state: 'processing', stage: 'scan', progress: 0 },
+      { state: 'processing', stage: 'scan', progress: 0 },
+      { state: 'processing', stage: 'scan', progress: 50 },
+      { state: 'ready' }
+    ]);
+
+    const promise = tracker.track(
+      { id: 'job-3', statusUrl: '/jobs/job-3' },
+      context,
+      () => undefined
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(promise).resolves.toMatchObject({ state: 'ready' });
+    expect(calls).toEqual([0, 100, 300, 600, 700]);
+  });
+
+  test('连续轮询失败超过上限时应结束跟踪', async () => {
+    const tracker = new ProcessingTracker({
+      pollInterval: 1,
+      maxPollErrors: 2,
+      createEventSource: () => null
+    });
+    const { context } = createPollingContext([new Error('网络错误')]);
+
+    await expect(
+      tracker.track({ id: 'job-4', statusUrl: '/jobs/job-4' }, context, () => undefined)
+    ).rejects.toThrow('网络错误');
+    expect(context.request).toHaveBeenCalledTimes(3);
+  });
+
+  test('超时后应以PROCESSING_TIMEOUT结束', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    const tracker = new ProcessingTracker({
+      pollInterval: 100,
+      timeout: 250,
+      createEventSource: () => null
+    });
+    const { context } = createPollingContext([{ state: 'processing' }]);
+
+    const promise = tracker.track(
+      { id: 'job-5', statusUrl: '/jobs/job-5' },
+      context,
+      () => undefined
+    );
+    const assertion = expect(promise).rejects.toMatchObject({
+      code: PROCESSING_TIMEOUT_ERROR_CODE
+    });
+    await jest.advanceTimersByTimeAsync(300);
+    await assertion;
+  });
+});
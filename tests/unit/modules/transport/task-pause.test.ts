@@ -0,0 +1,62 @@
+import {
+  HttpTransport,
+  UPLOAD_PAUSED_ERROR_CODE
+} from '../../../../src/modules/transport/implementations/http-transport';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../../utils/protocol-mock-server';
+
+// 由测试控制各任务的哈希计算何时完成
+const mockHashes: Array<(hash: string) => void> = [];
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(() => new Promise(resolve => mockHashes.push(resolve)))
+  })
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createFile = (name: string) =>
+  new File([new Uint8Array(1024)], name, { type: 'application/octet-stream' });
+
+describe('HttpTransport 任务暂停状态', () => {
+  let server: MockProtocolServer;
+
+  beforeEach(() => {
+    mockHashes.length = 0;
+    server = new MockProtocolServer();
+    installDefaultRoutes(server);
+  });
+
+  test('暂停后开始新任务不应恢复已暂停的任务', async () => {
+    const transport = new HttpTransport({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      autoRetry: false,
+      enableQuickUpload: false
+    });
+    transport.setEventBus(new EventEmitter());
+    const platform = server.createPlatform();
+
+    const first = transport.uploadFile(createFile('a.bin'), platform, { taskId: 'a' });
+    await flush();
+
+    // 任务a计算哈希时暂停所有任务，随后开始任务b
+    transport.pause();
+    const second = transport.uploadFile(createFile('b.bin'), platform, { taskId: 'b' });
+    await flush();
+
+    mockHashes[0]('hash-a');
+    mockHashes[1]('hash-b');
+
+    await expect(first).rejects.toMatchObject({ code: UPLOAD_PAUSED_ERROR_CODE });
+    await expect(second).resolves.toBe(`${PROTOCOL_SERVER_BASE_URL}/files/hash-b`);
+
+    const uploadedHashes = server.requests
+      .filter(request => request.data instanceof FormData)
+      .map(request => String((request.data as FormData).get('hash')));
+    expect(uploadedHashes).toEqual(['hash-b']);
+  });
+});
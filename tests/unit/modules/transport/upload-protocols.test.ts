@@ -0,0 +1,345 @@
+import {
+  DefaultUploadProtocol,
+  S3MultipartUploadProtocol,
+  TusUploadProtocol
+} from '../../../../src/modules/transport/implementations/protocols';
+import { HttpTransport } from '../../../../src/modules/transport/implementations/http-transport';
+import { UploadSession } from '../../../../src/modules/transport/interfaces';
+import { EventEmitter } from '../../../../src/core/event-bus';
+import { TextEncoder } from 'util';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes,
+  installS3Routes,
+  installTusRoutes
+} from '../../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，直接返回固定哈希
+jest.mock('../../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+// jsdom未提供TextEncoder
+(global as any).TextEncoder = TextEncoder;
+
+const CHUNK_SIZE = 4;
+
+/**
+ * 创建测试用上传会话
+ */
+function createSession(content: string, hash = 'filehash'): UploadSession {
+  const file = new File([content], 'test.txt', { type: 'text/plain' });
+  return {
+    hash,
+    file,
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type,
+    chunkSize: CHUNK_SIZE,
+    totalChunks: Math.ceil(file.size / CHUNK_SIZE),
+    quickUpload: true,
+    parts: new Map(),
+    data: {}
+  };
+}
+
+/**
+ * 将会话文件切分为分片
+ */
+function createChunks(session: UploadSession) {
+  const chunks = [];
+  for (let index = 0; index < session.totalChunks; index++) {
+    const start = index * CHUNK_SIZE;
+    const end = Math.min(start + CHUNK_SIZE, session.fileSize);
+    chunks.push({ index, data: session.file.slice(start, end), start, end, size: end - start });
+  }
+  return chunks;
+}
+
+describe('上传协议适配器', () => {
+  let server: MockProtocolServer;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+  });
+
+  describe('DefaultUploadProtocol', () => {
+    test('应完成检查、分片上传和合并流程', async () => {
+      const state = installDefaultRoutes(server);
+      const protocol = new DefaultUploadProtocol({ target: `${PROTOCOL_SERVER_BASE_URL}/upload` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      const prepared = await protocol.prepare(session, context);
+      expect(prepared.exists).toBe(false);
+
+      for (const chunk of createChunks(session)) {
+        await protocol.uploadChunk(session, chunk, context);
+      }
+      expect(state.chunks.get('filehash')?.size).toBe(3);
+
+      const result = await protocol.complete(session, context);
+      expect(result.url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/filehash`);
+
+      // 再次上传同一文件应命中秒传
+      const again = await protocol.prepare(createSession('0123456789'), context);
+      expect(again).toEqual(expect.objectContaining({ exists: true, url: result.url }));
+    });
+
+    test('应返回服务端已确认的分片用于断点续传', async () => {
+      installDefaultRoutes(server);
+      const protocol = new DefaultUploadProtocol({ target: `${PROTOCOL_SERVER_BASE_URL}/upload` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      await protocol.uploadChunk(session, createChunks(session)[1], context);
+
+      const prepared = await protocol.prepare(session, context);
+      expect(prepared.uploadedChunks).toEqual([1]);
+    });
+  });
+
+  describe('TusUploadProtocol', () => {
+    test('应通过POST创建上传并按偏移PATCH写入', async () => {
+      const state = installTusRoutes(server);
+      const protocol = new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      const prepared = await protocol.prepare(session, context);
+      expect(prepared.exists).toBe(false);
+      expect(session.uploadUrl).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/1`);
+
+      const creation = server.requests[0];
+      expect(creation.headers['tus-resumable']).toBe('1.0.0');
+      expect(creation.headers['upload-length']).toBe('10');
+      expect(creation.headers['upload-metadata']).toContain(`filename ${btoa('test.txt')}`);
+
+      for (const chunk of createChunks(session)) {
+        await protocol.uploadChunk(session, chunk, context);
+      }
+      expect(state.uploads.get('1')?.offset).toBe(10);
+
+      const result = await protocol.complete(session, context);
+      expect(result.url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/1`);
+    });
+
+    test('应通过HEAD恢复上传偏移', async () => {
+      installTusRoutes(server);
+      const protocol = new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      await protocol.prepare(session, context);
+      await protocol.uploadChunk(session, createChunks(session)[0], context);
+
+      // 同一文件重新上传时恢复已写入的偏移
+      const resumed = createSession('0123456789');
+      const prepared = await protocol.prepare(resumed, context);
+
+      expect(server.count('POST', /^\/files$/)).toBe(1);
+      expect(server.count('HEAD')).toBe(1);
+      expect(prepared.uploadedChunks).toEqual([0]);
+      expect(resumed.data.offset).toBe(4);
+    });
+
+    test('服务端丢失上传时应重新创建', async () => {
+      const state = installTusRoutes(server);
+      const protocol = new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` });
+      const context = server.createContext();
+
+      await protocol.prepare(createSession('0123456789'), context);
+      state.uploads.clear();
+
+      const session = createSession('0123456789');
+      const prepared = await protocol.prepare(session, context);
+
+      expect(prepared.uploadedChunks).toEqual([]);
+      expect(session.uploadUrl).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/2`);
+    });
+
+    test('偏移冲突时应同步偏移后重试', async () => {
+      const state = installTusRoutes(server);
+      const protocol = new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+      const chunks = createChunks(session);
+
+      await protocol.prepare(session, context);
+      await protocol.uploadChunk(session, chunks[0], context);
+
+      // 模拟服务端已经接收了第二个分片的前两个字节
+      state.uploads.get('1')!.offset = 6;
+
+      await protocol.uploadChunk(session, chunks[1], context);
+
+      expect(state.uploads.get('1')?.offset).toBe(8);
+      const patches = server.requests.filter(request => request.method === 'PATCH');
+      expect(patches[patches.length - 1].headers['upload-offset']).toBe('6');
+      expect((patches[patches.length - 1].data as Blob).size).toBe(2);
+    });
+
+    test('取消时应DELETE终止上传', async () => {
+      const state = installTusRoutes(server);
+      const protocol = new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      await protocol.prepare(session, context);
+      await protocol.abort!(session, context);
+
+      expect(state.uploads.size).toBe(0);
+      expect(server.count('DELETE', /^\/files\/1$/)).toBe(1);
+    });
+  });
+
+  describe('S3MultipartUploadProtocol', () => {
+    const endpoint = `${PROTOCOL_SERVER_BASE_URL}/bucket`;
+    const getKey = (session: UploadSession) => session.hash;
+
+    test('应初始化分片上传、上传分片并完成合并', async () => {
+      const state = installS3Routes(server);
+      const protocol = new S3MultipartUploadProtocol({ endpoint, getKey });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      const prepared = await protocol.prepare(session, context);
+      expect(prepared.exists).toBe(false);
+      expect(session.uploadId).toBe('upload-1');
+
+      for (const chunk of createChunks(session)) {
+        await protocol.uploadChunk(session, chunk, context);
+      }
+      expect(session.parts.size).toBe(3);
+
+      const result = await protocol.complete(session, context);
+      expect(result.url).toBe(`${endpoint}/filehash`);
+      expect(state.objects.has('filehash')).toBe(true);
+      expect(state.uploads.size).toBe(0);
+    });
+
+    test('对象已存在时应秒传', async () => {
+      const state = installS3Routes(server);
+      state.objects.add('filehash');
+      const protocol = new S3MultipartUploadProtocol({ endpoint, getKey });
+
+      const prepared = await protocol.prepare(createSession('0123456789'), server.createContext());
+
+      expect(prepared).toEqual(
+        expect.objectContaining({ exists: true, url: `${endpoint}/filehash` })
+      );
+      expect(server.count('POST')).toBe(0);
+    });
+
+    test('应通过ListParts恢复已上传分片', async () => {
+      installS3Routes(server);
+      const protocol = new S3MultipartUploadProtocol({ endpoint, getKey });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+      const chunks = createChunks(session);
+
+      await protocol.prepare(session, context);
+      await protocol.uploadChunk(session, chunks[0], context);
+      await protocol.uploadChunk(session, chunks[2], context);
+
+      const resumed = createSession('0123456789');
+      const prepared = await protocol.prepare(resumed, context);
+      expect(prepared.uploadedChunks).toEqual([0, 2]);
+      expect(server.count('POST', /\?uploads$/)).toBe(1);
+
+      await protocol.uploadChunk(resumed, chunks[1], context);
+      const result = await protocol.complete(resumed, context);
+      expect(result.url).toBe(`${endpoint}/filehash`);
+    });
+
+    test('应对每个请求调用签名函数', async () => {
+      installS3Routes(server);
+      const signRequest = jest.fn(async request => ({
+        ...request,
+        headers: { ...request.headers, Authorization: `signed-${request.operation}` }
+      }));
+      const protocol = new S3MultipartUploadProtocol({ endpoint, getKey, signRequest });
+      const context = server.createContext();
+      const session = createSession('0123');
+
+      await protocol.prepare(session, context);
+      await protocol.uploadChunk(session, createChunks(session)[0], context);
+
+      expect(signRequest.mock.calls.map(([request]) => request.operation)).toEqual([
+        'head',
+        'initiate',
+        'uploadPart'
+      ]);
+      expect(server.requests.map(request => request.headers.authorization)).toEqual([
+        'signed-head',
+        'signed-initiate',
+        'signed-uploadPart'
+      ]);
+    });
+
+    test('取消时应中止分片上传', async () => {
+      const state = installS3Routes(server);
+      const protocol = new S3MultipartUploadProtocol({ endpoint, getKey });
+      const context = server.createContext();
+      const session = createSession('0123456789');
+
+      await protocol.prepare(session, context);
+      await protocol.abort!(session, context);
+
+      expect(state.uploads.size).toBe(0);
+    });
+  });
+
+  describe('HttpTransport集成', () => {
+    // ChunkStrategy的最小分片为512KB，使用1.5MB文件产生多个分片
+    const createLargeFile = () =>
+      new File([new Uint8Array(1536 * 1024)], 'large.bin', { type: 'application/octet-stream' });
+
+    test('应使用tus协议顺序上传文件', async () => {
+      const state = installTusRoutes(server);
+      const transport = new HttpTransport({
+        protocol: new TusUploadProtocol({ endpoint: `${PROTOCOL_SERVER_BASE_URL}/files` }),
+        concurrency: 3
+      });
+      transport.setEventBus(new EventEmitter());
+
+      const url = await transport.uploadFile(createLargeFile(), server.createPlatform());
+
+      expect(url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/1`);
+      expect(state.uploads.get('1')?.offset).toBe(1536 * 1024);
+      expect(server.count('PATCH')).toBeGreaterThan(1);
+    });
+
+    test('应使用S3分片上传协议并遵守最小分片大小', async () => {
+      const state = installS3Routes(server);
+      const transport = new HttpTransport({
+        protocol: new S3MultipartUploadProtocol({
+          endpoint: `${PROTOCOL_SERVER_BASE_URL}/bucket`,
+          getKey: session => `uploads/${session.hash}`
+        })
+      });
+      transport.setEventBus(new EventEmitter());
+
+      const url = await transport.uploadFile(createLargeFile(), server.createPlatform());
+
+      expect(url).toBe(`${PROTOCOL_SERVER_BASE_URL}/bucket/uploads/filehash`);
+      expect(state.objects.has('uploads/filehash')).toBe(true);
+      // 文件小于S3最小分片5MB，只产生一个分片
+      expect(server.count('PUT')).toBe(1);
+    });
+
+    test('未指定协议时应使用默认协议', async () => {
+      installDefaultRoutes(server);
+      const transport = new HttpTransport({ target: `${PROTOCOL_SERVER_BASE_URL}/upload` });
+      transport.setEventBus(new EventEmitter());
+
+      const url = await transport.uploadFile(createLargeFile(), server.createPlatform());
+
+      expect(transport.getProtocol().name).toBe('default');
+      expect(url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/filehash`);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { NodeAdapter } from '../../../src/platforms/node';
+import { FileSystemStorage } from '../../../src/modules/storage/file-system-storage';
+import { createUploader } from '../../../src/uploader';
+
+// Worker在测试环境中不可用，以任务ID作为文件哈希
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(async ({ fileId }: { fileId: string }) => fileId)
+  })
+}));
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => i % 256);
+
+type Handler = (
+  request: http.IncomingMessage,
+  body: Buffer,
+  response: http.ServerResponse
+) => void | Promise<void>;
+
+describe('NodeAdapter', () => {
+  let root: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, Handler>;
+  let adapter: NodeAdapter;
+
+  const sendJSON = (response: http.ServerResponse, status: number, data: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'X-Upload-Id': 'u1' });
+    response.end(JSON.stringify(data));
+  };
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'filechunk-node-'));
+    routes = {};
+    adapter = new NodeAdapter({ storage: { directory: root } });
+
+    server = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', async () => {
+        const handler = routes[`${request.method} ${request.url}`];
+        if (handler) {
+          await handler(request, Buffer.concat(chunks), response);
+        } else {
+          response.writeHead(404).end('not found');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    adapter.destroy();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('应按路径读取文件、创建分片并写入文件', async () => {
+    const filePath = path.join(root, 'video.mp4');
+    fs.writeFileSync(filePath, bytes(10));
+
+    expect(await adapter.getFileInfo(filePath)).toMatchObject({
+      name: 'video.mp4',
+      size: 10,
+      type: 'video/mp4'
+    });
+
+    const file = await adapter.openFile(filePath);
+    expect(file).toMatchObject({ name: 'video.mp4', size: 10, type: 'video/mp4' });
+
+    const chunks = await adapter.createChunks(filePath, 4);
+    expect(chunks.map(({ start, end }) => [start, end])).toEqual([
+      [0, 4],
+      [4, 8],
+      [8, 10]
+    ]);
+    expect(Array.from(new Uint8Array(await chunks[2].data.arrayBuffer()))).toEqual([8, 9]);
+
+    const [range] = await adapter.createRangeChunks(file, [{ index: 0, start: 3, end: 5 }]);
+    expect(Array.from(new Uint8Array(await range.data.arrayBuffer()))).toEqual([3, 4]);
+
+    expect(Array.from(new Uint8Array(await adapter.readFile(filePath, 6)))).toEqual([6, 7, 8, 9]);
+    expect(Array.from(new Uint8Array(await adapter.readFile(file, 1, 3)))).toEqual([1, 2]);
+
+    // 按位置写入时不截断已写入的数据
+    const target = path.join(root, 'download.bin');
+    await adapter.writeFile(target, bytes(4).buffer, 4);
+    await adapter.writeFile(target, bytes(4).buffer, 0);
+    expect(Array.from(fs.readFileSync(target))).toEqual([0, 1, 2, 3, 0, 1, 2, 3]);
+
+    await expect(adapter.getFileInfo(path.join(root, 'missing.bin'))).rejects.toThrow(
+      '[node平台错误]'
+    );
+  });
+
+  test('应通过http模块发送请求', async () => {
+    routes['POST /echo'] = (request, body, response) =>
+      sendJSON(response, 200, {
+        contentType: request.headers['content-type'],
+        body: body.toString()
+      });
+    routes['GET /binary'] = (_request, _body, response) => {
+      response.end(Buffer.from(bytes(3)));
+    };
+    routes['GET /fail'] = (_request, _body, response) => {
+      response.writeHead(503).end('unavailable');
+    };
+
+    const json = await adapter.request(`${baseUrl}/echo`, 'POST', { a: 1 }, { fullResponse: true });
+    expect(json).toEqual({
+      status: 200,
+      headers: expect.objectContaining({ 'x-upload-id': 'u1' }),
+      data: { contentType: 'application/json', body: '{"a":1}' }
+    });
+
+    // FormData按multipart编码，分段写入时报告进度
+    const formData = new FormData();
+    formData.append('chunk', new Blob([bytes(200 * 1024)]));
+    formData.append('index', '0');
+    const progress: number[] = [];
+
+    const multipart = await adapter.request(`${baseUrl}/echo`, 'POST', formData, {
+      onProgress: value => progress.push(value)
+    });
+    expect(multipart.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(100);
+
+    const binary = await adapter.request(`${baseUrl}/binary`, 'GET', undefined, {
+      responseType: 'arraybuffer'
+    });
+    expect(Array.from(new Uint8Array(binary))).toEqual([0, 1, 2]);
+
+    const error = await adapter.request(`${baseUrl}/fail`, 'GET').catch(e => e);
+    expect(error.status).toBe(503);
+    expect(error.message).toContain('请求失败 (503): unavailable');
+  });
+
+  test('应作为上传器平台上传文件并默认使用文件存储', async () => {
+    const received: Record<string, Buffer> = {};
+
+    routes['POST /upload/check'] = (_request, _body, response) =>
+      sendJSON(response, 200, { exists: false });
+    routes['POST /upload'] = async (request, body, response) => {
+      const formData = await new Response(body, {
+        headers: { 'Content-Type': request.headers['content-type'] as string }
+      }).formData();
+      const chunk = formData.get('chunk') as Blob;
+      received[formData.get('index') as string] = Buffer.from(await chunk.arrayBuffer());
+      sendJSON(response, 200, {});
+    };
+    routes['POST /upload/merge'] = (_request, body, response) => {
+      const { hash } = JSON.parse(body.toString());
+      sendJSON(response, 200, { url: `${baseUrl}/files/${hash}` });
+    };
+
+    const filePath = path.join(root, 'data.bin');
+    fs.writeFileSync(filePath, bytes(10 * 1024));
+
+    const uploader = createUploader({
+      target: `${baseUrl}/upload`,
+      platform: adapter,
+      chunkSize: 4 * 1024,
+      autoRetry: false
+    });
+    expect(uploader.kernel.getModule('storage')).toBeInstanceOf(FileSystemStorage);
+
+    const result = await uploader.upload(await adapter.openFile(filePath));
+    expect(result.url).toBe(`${baseUrl}/files/${result.id}`);
+
+    const uploaded = Buffer.concat(
+      Object.keys(received)
+        .sort((a, b) => Number(a) - Number(b))
+        .map(index => received[index])
+    );
+    expect(uploaded.equals(fs.readFileSync(filePath))).toBe(true);
+
+    await uploader.destroy();
+  });
+});
@@ -0,0 +1,408 @@
+import { EventEmitter } from '../../../src/core/event-bus';
+import {
+  ExtensionPoint,
+  PLUGIN_HOOK_REJECTED_ERROR_CODE,
+  Plugin,
+  PluginManager
+} from '../../../src/plugins';
+import {
+  HttpTransport,
+  HttpTransportOptions
+} from '../../../src/modules/transport/implementations/http-transport';
+import { DownloadTransport } from '../../../src/modules/transport/implementations/download-transport';
+import { UploadQueueManager } from '../../../src/modules/queue/implementations/upload-queue-manager';
+import { QueueItemStatus } from '../../../src/modules/queue/interfaces';
+import { readChunkData } from '../../../src/modules/security/implementations/chunk-encryptor';
+import { CheckpointStore } from '../../../src/modules/storage/checkpoint-store';
+import { CDNConnector } from '../../../src/modules/network/cdn-connector';
+import { MemoryStorageEngine } from '../../utils/memory-storage-engine';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes,
+  installRangeRoutes
+} from '../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，文件哈希直接返回固定值
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn().mockResolvedValue('filehash')
+  })
+}));
+
+const CHUNK_SIZE = 512 * 1024;
+const UPLOAD_TARGET = `${PROTOCOL_SERVER_BASE_URL}/upload`;
+
+// 等待异步状态更新与事件派发
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * 注册并初始化插件
+ */
+async function createPluginManager(...plugins: Plugin[]): Promise<PluginManager> {
+  const manager = new PluginManager({} as any, new EventEmitter());
+  for (const plugin of plugins) {
+    await manager.register(plugin);
+  }
+  await manager.initializeAll();
+  return manager;
+}
+
+describe('上传流程扩展点', () => {
+  describe('HttpTransport', () => {
+    let server: MockProtocolServer;
+
+    beforeEach(() => {
+      server = new MockProtocolServer();
+      installDefaultRoutes(server);
+    });
+
+    const createTransport = (
+      pluginManager: PluginManager,
+      options: Partial<HttpTransportOptions> = {}
+    ) => {
+      const transport = new HttpTransport({
+        target: `${PROTOCOL_SERVER_BASE_URL}/legacy`,
+        chunkSize: CHUNK_SIZE,
+        concurrency: 1,
+        retryDelay: 1,
+        pluginManager,
+        ...options
+      });
+      transport.setEventBus(new EventEmitter());
+      return transport;
+    };
+
+    const createFile = () => new File([new Uint8Array(CHUNK_SIZE + 100)], 'data.bin');
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('应按确定顺序执行钩子，钩子可改写地址、请求头、分片数据和响应', async () => {
+      const calls: string[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'gateway',
+        version: '1.0.0',
+        capabilities: [
+          'file:readMetadata',
+          'file:readContent',
+          'file:modifyContent',
+          'request:modifyHeaders',
+          'response:read',
+          'response:modify'
+        ],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, () => {
+            calls.push('beforeUpload');
+          });
+          api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD, context => {
+            calls.push(`beforeChunk:${context.chunk.index}:${context.headers['x-tenant']}`);
+          });
+          // 优先级高的钩子先执行
+          api.registerHook(
+            ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD,
+            context => {
+              context.headers['x-tenant'] = 'acme';
+              context.chunk.data = new Blob([`chunk-${context.chunk.index}`]);
+            },
+            { priority: 10 }
+          );
+          api.registerHook(ExtensionPoint.TRANSPORT_AFTER_CHUNK_UPLOAD, context => {
+            calls.push(`afterChunk:${context.chunk.index}:${context.response.success}`);
+          });
+          api.registerHook(ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR, context => {
+            context.request.url = context.request.url.replace('/legacy', '/upload');
+          });
+          api.registerHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context => {
+            if (context.request.url.endsWith('/merge')) {
+              context.response.data.url = 'https://cdn.example.com/data.bin';
+            }
+          });
+          api.registerHook(ExtensionPoint.TRANSPORT_AFTER_UPLOAD, context => {
+            calls.push(`afterUpload:${context.hash}:${context.url}`);
+          });
+        }
+      });
+
+      const url = await createTransport(pluginManager).uploadFile(
+        createFile(),
+        server.createPlatform()
+      );
+
+      expect(url).toBe('https://cdn.example.com/data.bin');
+      expect(calls).toEqual([
+        'beforeUpload',
+        'beforeChunk:0:acme',
+        'afterChunk:0:true',
+        'beforeChunk:1:acme',
+        'afterChunk:1:true',
+        'afterUpload:filehash:https://cdn.example.com/data.bin'
+      ]);
+
+      const chunkRequests = server.requests.filter(request => request.url.pathname === '/upload');
+      expect(chunkRequests.map(request => request.headers['x-tenant'])).toEqual(['acme', 'acme']);
+      const body = (chunkRequests[0].data as FormData).get('chunk') as Blob;
+      expect(Buffer.from(await readChunkData(body)).toString()).toBe('chunk-0');
+    });
+
+    test('钩子返回false时应拒绝操作且不重试', async () => {
+      const pluginManager = await createPluginManager({
+        name: 'policy',
+        version: '1.0.0',
+        capabilities: ['file:readContent'],
+        initialize: api => {
+          api.registerHook(
+            ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD,
+            context => context.chunk.index !== 1
+          );
+        }
+      });
+      const transport = createTransport(pluginManager);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await expect(
+        transport.uploadFile(createFile(), server.createPlatform(), { taskId: 'task' })
+      ).rejects.toBeDefined();
+
+      expect(transport.getTask('task')?.status).toBe('error');
+      expect(server.requests.filter(request => request.method === 'POST').length).toBe(2);
+
+      const vetoManager = await createPluginManager({
+        name: 'blocker',
+        version: '1.0.0',
+        capabilities: ['file:readMetadata'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, () => false);
+        }
+      });
+      server.requests = [];
+
+      await expect(
+        createTransport(vetoManager).uploadFile(createFile(), server.createPlatform())
+      ).rejects.toMatchObject({ code: PLUGIN_HOOK_REJECTED_ERROR_CODE });
+      expect(server.requests).toEqual([]);
+    });
+
+    test('钩子以TypedArray替换分片数据时按替换后的字节数发送', async () => {
+      const sizes: number[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'compressor',
+        version: '1.0.0',
+        capabilities: ['file:readContent', 'file:modifyContent'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD, context => {
+            context.chunk.data = new Uint8Array(Buffer.from(`chunk-${context.chunk.index}`));
+          });
+          api.registerHook(ExtensionPoint.TRANSPORT_AFTER_CHUNK_UPLOAD, context => {
+            sizes.push(context.chunk.size);
+          });
+        }
+      });
+
+      await createTransport(pluginManager, { target: UPLOAD_TARGET }).uploadFile(
+        createFile(),
+        server.createPlatform()
+      );
+
+      expect(sizes).toEqual([7, 7]);
+      const chunkRequests = server.requests.filter(request => request.url.pathname === '/upload');
+      const body = (chunkRequests[1].data as FormData).get('chunk') as Blob;
+      expect(body.size).toBe(7);
+      expect(Buffer.from(await readChunkData(body)).toString()).toBe('chunk-1');
+    });
+
+    test('文件校验钩子先于上传前钩子执行，校验不通过时不发送任何请求', async () => {
+      const calls: string[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'validator',
+        version: '1.0.0',
+        capabilities: ['file:readMetadata'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.SECURITY_VALIDATE_FILE, context => {
+            calls.push(`validate:${context.file.name}`);
+            return !context.file.name.endsWith('.exe');
+          });
+          api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, context => {
+            calls.push(`beforeUpload:${context.file.name}`);
+          });
+        }
+      });
+      const transport = createTransport(pluginManager, { target: UPLOAD_TARGET });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(
+        transport.uploadFile(new File([new Uint8Array(100)], 'setup.exe'), server.createPlatform())
+      ).rejects.toMatchObject({ code: PLUGIN_HOOK_REJECTED_ERROR_CODE });
+      expect(server.requests).toEqual([]);
+
+      await transport.uploadFile(createFile(), server.createPlatform());
+      expect(calls).toEqual(['validate:setup.exe', 'validate:data.bin', 'beforeUpload:data.bin']);
+    });
+
+    test('保存检查点前后执行存储钩子，钩子拒绝时不保存检查点', async () => {
+      const saved: string[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'checkpoint-audit',
+        version: '1.0.0',
+        capabilities: ['file:readMetadata'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.STORAGE_BEFORE_SAVE, context => {
+            // 只允许保存分片数不少于2的检查点
+            return context.checkpoint.totalChunks >= 2;
+          });
+          api.registerHook(ExtensionPoint.STORAGE_AFTER_SAVE, context => {
+            saved.push(`${context.hash}:${context.checkpoint.totalChunks}`);
+          });
+        }
+      });
+      const store = new CheckpointStore(new MemoryStorageEngine());
+      const save = jest.spyOn(store, 'save');
+
+      await createTransport(pluginManager, {
+        target: UPLOAD_TARGET,
+        checkpointStore: store
+      }).uploadFile(createFile(), server.createPlatform());
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(saved).toEqual(['filehash:2']);
+
+      await createTransport(pluginManager, {
+        target: UPLOAD_TARGET,
+        checkpointStore: store
+      }).uploadFile(new File([new Uint8Array(100)], 'small.bin'), server.createPlatform());
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(saved).toEqual(['filehash:2']);
+    });
+  });
+
+  describe('DownloadTransport', () => {
+    test('每个下载请求执行请求和响应拦截钩子', async () => {
+      const server = new MockProtocolServer();
+      installRangeRoutes(server, { 'video.bin': new Uint8Array(1000).fill(7) });
+      const statuses: number[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'mirror',
+        version: '1.0.0',
+        capabilities: ['request:modifyHeaders', 'response:read'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR, context => {
+            context.request.url = context.request.url.replace('/mirror/', '/downloads/');
+            context.request.headers!['x-tenant'] = 'acme';
+          });
+          api.registerHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context => {
+            statuses.push(context.response.status);
+          });
+        }
+      });
+      const transport = new DownloadTransport({ retryDelay: 1, pluginManager });
+      transport.setEventBus(new EventEmitter());
+
+      try {
+        const result = await transport.download(
+          `${PROTOCOL_SERVER_BASE_URL}/mirror/video.bin`,
+          server.createPlatform()
+        );
+
+        expect(result.size).toBe(1000);
+        expect(server.requests.length).toBeGreaterThan(0);
+        expect(server.requests.map(request => request.url.pathname)).toEqual(
+          server.requests.map(() => '/downloads/video.bin')
+        );
+        expect(server.requests.every(request => request.headers['x-tenant'] === 'acme')).toBe(true);
+        expect(statuses).toEqual(server.requests.map(() => 206));
+      } finally {
+        transport.getConcurrencyManager().destroy();
+      }
+    });
+  });
+
+  describe('CDNConnector', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('处理失效文件时优先尝试钩子选择的CDN，提供商列表中不包含密钥', async () => {
+      const seen: any[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'cdn-router',
+        version: '1.0.0',
+        capabilities: ['file:readMetadata'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.NETWORK_CDN_SELECT, context => {
+            seen.push(context.providers);
+            context.providerId = context.fileName.endsWith('.mp4') ? 'video' : context.providerId;
+          });
+        }
+      });
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+
+      const connector = new CDNConnector({
+        providers: [
+          { id: 'main', name: '主CDN', baseUrl: 'https://main.example.com', apiKey: 'secret' },
+          { id: 'video', name: '视频CDN', baseUrl: 'https://video.example.com' }
+        ],
+        autoDetectInvalidation: false,
+        pluginManager
+      });
+
+      expect(await connector.handleInvalidatedFile('abc', 'movie.mp4')).toBe(
+        'https://video.example.com/abc/movie.mp4'
+      );
+      expect(await connector.handleInvalidatedFile('abc', 'notes.txt')).toBe(
+        'https://main.example.com/abc/notes.txt'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(seen[0]).toEqual([
+        { id: 'main', name: '主CDN', baseUrl: 'https://main.example.com', status: 'active' },
+        { id: 'video', name: '视频CDN', baseUrl: 'https://video.example.com', status: 'active' }
+      ]);
+    });
+  });
+
+  describe('UploadQueueManager', () => {
+    test('钩子可修改元数据、拒绝加入队列和拒绝开始上传', async () => {
+      const added: string[] = [];
+      const pluginManager = await createPluginManager({
+        name: 'queue-policy',
+        version: '1.0.0',
+        capabilities: ['file:readMetadata', 'queue:modifyMetadata'],
+        initialize: api => {
+          api.registerHook(ExtensionPoint.QUEUE_BEFORE_ADD, context => {
+            context.metadata.priority = context.file.name.startsWith('urgent') ? 10 : 0;
+            return !context.file.name.endsWith('.exe');
+          });
+          api.registerHook(ExtensionPoint.QUEUE_AFTER_ADD, context => {
+            added.push(`${context.item.metadata.fileName}:${context.item.metadata.priority}`);
+          });
+          api.registerHook(
+            ExtensionPoint.QUEUE_BEFORE_PROCESS,
+            context => !context.item.metadata.fileName.startsWith('blocked')
+          );
+        }
+      });
+
+      const uploadFile = jest.fn().mockResolvedValue('https://cdn.example.com/file');
+      const manager = new UploadQueueManager({ persistQueue: false, pluginManager });
+      await manager.init({
+        getModule: (id: string) => (id === 'transport' ? { uploadFile } : {})
+      } as any);
+
+      const createFile = (name: string) => new File(['content'], name);
+      await expect(manager.addToQueue(createFile('setup.exe'))).rejects.toMatchObject({
+        code: PLUGIN_HOOK_REJECTED_ERROR_CODE
+      });
+      const urgentId = await manager.addToQueue(createFile('urgent.txt'));
+      const blockedId = await manager.addToQueue(createFile('blocked.txt'));
+      await flush();
+
+      expect(added).toEqual(['urgent.txt:10', 'blocked.txt:0']);
+      expect(uploadFile).toHaveBeenCalledTimes(1);
+      expect(uploadFile.mock.calls[0][2]).toMatchObject({ taskId: urgentId, priority: 10 });
+      expect(manager.getQueueItem(blockedId)?.status).toBe(QueueItemStatus.FAILED);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { EventEmitter } from '../../../src/core/event-bus';
+import { FileChunkKernel } from '../../../src/core/kernel';
+import {
+  PLUGIN_INCOMPATIBLE_ERROR_CODE,
+  Plugin,
+  PluginManager,
+  satisfies
+} from '../../../src/plugins';
+
+/**
+ * 创建记录初始化和销毁顺序的插件
+ */
+function createPlugin(name: string, calls: string[], manifest: Partial<Plugin> = {}): Plugin {
+  return {
+    name,
+    version: '1.0.0',
+    initialize: () => void calls.push(`init:${name}`),
+    destroy: () => void calls.push(`destroy:${name}`),
+    ...manifest
+  };
+}
+
+describe('插件清单', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('应支持常用的版本范围写法', () => {
+    expect(satisfies('1.4.2', '^1.2.0')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.1')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '1.2.x || >=2.0.0 <3')).toBe(false);
+    expect(satisfies('2.5.0', '1.2.x || >=2.0.0 <3')).toBe(true);
+    expect(satisfies('1.0.0-beta.2', '>=1.0.0-beta.1 <1.0.0')).toBe(true);
+  });
+
+  test('应按依赖顺序初始化插件，与注册顺序无关', async () => {
+    const calls: string[] = [];
+    const manager = new PluginManager({} as any, new EventEmitter());
+
+    await manager.register(
+      createPlugin('ui', calls, { requires: { plugins: { auth: '^1.0.0' } } })
+    );
+    await manager.register(createPlugin('auth', calls, { dependencies: ['logger'] }));
+    await manager.register(createPlugin('logger', calls, { version: '1.3.0' }));
+
+    expect(await manager.initializeAll()).toBe(true);
+    expect(calls).toEqual(['init:logger', 'init:auth', 'init:ui']);
+  });
+
+  test('应拒绝不兼容的插件并给出具体原因', async () => {
+    const calls: string[] = [];
+    const kernel = new FileChunkKernel();
+    const incompatible = jest.fn();
+    kernel.getEventBus().on('plugin:incompatible', incompatible);
+    const manager = new PluginManager(kernel, kernel.getEventBus());
+
+    await manager.register(createPlugin('future', calls, { engine: '>=2.0.0' }));
+    await manager.register(
+      createPlugin('old-dep', calls, { requires: { plugins: { auth: '^2.0.0' } } })
+    );
+    await manager.register(createPlugin('auth', calls));
+    await manager.register(createPlugin('cdn', calls, { requires: { modules: ['transport'] } }));
+    await manager.register(createPlugin('legacy-auth', calls, { conflicts: { auth: '<2.0.0' } }));
+    await manager.register(createPlugin('a', calls, { dependencies: ['b'] }));
+    await manager.register(createPlugin('b', calls, { dependencies: ['a'] }));
+    await manager.register(createPlugin('c', calls, { dependencies: ['a'] }));
+    expect(await manager.register(createPlugin('bad', calls, { version: '1.0' }))).toBe(false);
+
+    expect(await manager.initializeAll()).toBe(false);
+    expect(calls).toEqual(['init:auth']);
+
+    const reasons = Object.fromEntries(
+      ['future', 'old-dep', 'cdn', 'legacy-auth', 'a', 'b', 'c'].map(name => [
+        name,
+        manager.getPluginError(name)?.message
+      ])
+    );
+    expect(reasons).toEqual({
+      future: '插件 future 无法加载: 要求 FileChunk Pro >=2.0.0，当前版本为 0.1.0',
+      'old-dep': '插件 old-dep 无法加载: 依赖的插件 auth@^2.0.0 版本不匹配，已注册的版本为 1.0.0',
+      cdn: '插件 cdn 无法加载: 依赖的模块 transport 未注册',
+      'legacy-auth': '插件 legacy-auth 无法加载: 与已初始化的插件 auth@1.0.0 冲突(<2.0.0)',
+      a: '插件 a 无法加载: 检测到循环依赖: a -> b -> a',
+      b: '插件 b 无法加载: 依赖的插件 a 未能初始化',
+      c: '插件 c 无法加载: 依赖的插件 a 未能初始化'
+    });
+    expect(manager.getPluginError('future')).toMatchObject({
+      code: PLUGIN_INCOMPATIBLE_ERROR_CODE
+    });
+    expect(incompatible).toHaveBeenCalledWith({
+      name: 'cdn',
+      reason: '依赖的模块 transport 未注册'
+    });
+  });
+
+  test('应双向检查与已初始化插件的冲突', async () => {
+    const calls: string[] = [];
+    const manager = new PluginManager({} as any, new EventEmitter());
+
+    await manager.register(createPlugin('modern', calls, { conflicts: { legacy: '*' } }));
+    await manager.register(createPlugin('legacy', calls));
+    await manager.register(createPlugin('helper', calls, { conflicts: { legacy: '<2.0.0' } }));
+
+    expect(await manager.initializeAll()).toBe(false);
+
+    // legacy未声明冲突，但已初始化的modern声明了与它冲突；被拒绝的legacy不影响helper
+    expect(calls).toEqual(['init:modern', 'init:helper']);
+    expect(manager.getPluginError('legacy')?.message).toBe(
+      '插件 legacy 无法加载: 已初始化的插件 modern@1.0.0 声明与其冲突(*)'
+    );
+  });
+
+  test('卸载插件时应先卸载依赖它的插件', async () => {
+    const calls: string[] = [];
+    const manager = new PluginManager({} as any, new EventEmitter());
+
+    await manager.register(createPlugin('logger', calls));
+    await manager.register(createPlugin('auth', calls, { dependencies: ['logger'] }));
+    await manager.register(createPlugin('ui', calls, { requires: { plugins: { auth: '*' } } }));
+    await manager.register(createPlugin('metrics', calls));
+    await manager.initializeAll();
+    calls.length = 0;
+
+    expect(await manager.unload('logger')).toBe(true);
+    expect(calls).toEqual(['destroy:ui', 'destroy:auth', 'destroy:logger']);
+    expect(manager.getRegisteredPlugins()).toEqual(['metrics']);
+  });
+
+  test('禁用插件时应先禁用依赖它的插件', async () => {
+    const calls: string[] = [];
+    const eventBus = new EventEmitter();
+    const manager = new PluginManager({} as any, eventBus);
+    const disabled: Array<{ name: string; error?: string }> = [];
+    eventBus.on('plugin:disabled', ({ name, error }) => void disabled.push({ name, error }));
+
+    await manager.register(createPlugin('logger', calls));
+    await manager.register(createPlugin('auth', calls, { dependencies: ['logger'] }));
+    await manager.register(createPlugin('ui', calls, { requires: { plugins: { auth: '*' } } }));
+    await manager.register(createPlugin('metrics', calls));
+    await manager.initializeAll();
+    calls.length = 0;
+
+    expect(await manager.disablePlugin('logger')).toBe(true);
+    expect(calls).toEqual(['destroy:ui', 'destroy:auth', 'destroy:logger']);
+    expect(manager.getDisabledPlugins().sort()).toEqual(['auth', 'logger', 'ui']);
+    expect(disabled).toEqual([
+      { name: 'ui', error: '依赖的插件 auth 已被禁用' },
+      { name: 'auth', error: '依赖的插件 logger 已被禁用' },
+      { name: 'logger', error: undefined }
+    ]);
+
+    // 依赖的插件重新启用后，被级联禁用的插件可分别重新启用
+    calls.length = 0;
+    expect(await manager.enablePlugin('logger')).toBe(true);
+    expect(await manager.enablePlugin('auth')).toBe(true);
+    expect(await manager.enablePlugin('ui')).toBe(true);
+    expect(calls).toEqual(['init:logger', 'init:auth', 'init:ui']);
+    expect(manager.getDisabledPlugins()).toEqual([]);
+  });
+});
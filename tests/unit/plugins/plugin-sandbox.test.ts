@@ -0,0 +1,290 @@
+import { EventEmitter } from '../../../src/core/event-bus';
+import { FileChunkKernel } from '../../../src/core/kernel';
+import {
+  ExtensionPoint,
+  PLUGIN_PERMISSION_DENIED_ERROR_CODE,
+  PluginAPI,
+  PluginManager
+} from '../../../src/plugins';
+
+describe('插件沙箱', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('插件API应只提供已声明的能力', async () => {
+    const kernel = new FileChunkKernel();
+    const manager = new PluginManager(kernel, kernel.getEventBus());
+    let api: PluginAPI | undefined;
+    let hookError: unknown;
+
+    await manager.register({
+      name: 'metrics',
+      version: '1.0.0',
+      capabilities: ['file:readMetadata', 'config:read'],
+      initialize: pluginApi => {
+        api = pluginApi;
+        try {
+          pluginApi.registerHook(ExtensionPoint.NETWORK_REQUEST_INTERCEPTOR, () => undefined);
+        } catch (error) {
+          hookError = error;
+        }
+        pluginApi.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, () => 'ok');
+      }
+    });
+
+    expect(await manager.initializeAll()).toBe(true);
+    expect(api!.kernel).toBeUndefined();
+    expect(api!.events).toBeUndefined();
+    expect(api!.hasCapability('config:read')).toBe(true);
+    expect(hookError).toMatchObject({ code: PLUGIN_PERMISSION_DENIED_ERROR_CODE });
+    expect(await manager.executeHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD)).toEqual(['ok']);
+
+    kernel.setConfig('transport.headers', { authorization: 'secret' });
+    expect(api!.getConfig!('transport')).toEqual({ headers: '[REDACTED]' });
+
+    await manager.unload('metrics');
+    expect(() => api!.registerHook('custom', () => undefined)).toThrow('已卸载或被禁用');
+  });
+
+  test('订阅事件时应隐藏请求头，卸载插件时应取消订阅', async () => {
+    const eventBus = new EventEmitter<Record<string, any>>();
+    const manager = new PluginManager({} as any, eventBus as unknown as EventEmitter);
+    const received: unknown[] = [];
+
+    await manager.register({
+      name: 'logger',
+      version: '1.0.0',
+      capabilities: ['events:listen'],
+      initialize: api => {
+        api.events!.on!('upload:request', data => void received.push(data));
+        expect(api.events!.emit).toBeUndefined();
+      }
+    });
+    await manager.initializeAll();
+
+    await eventBus.emit('upload:request', { url: '/upload', headers: { token: 'secret' } });
+    await manager.unload('logger');
+    await eventBus.emit('upload:request', { url: '/upload' });
+
+    expect(received).toEqual([{ url: '/upload', headers: '[REDACTED]' }]);
+  });
+
+  test('钩子超时或连续出错时应禁用插件', async () => {
+    jest.useFakeTimers();
+    const eventBus = new EventEmitter();
+    const manager = new PluginManager({} as any, eventBus, { hookTimeout: 100, maxFailures: 2 });
+    const disabled = jest.fn();
+    const destroy = jest.fn();
+    eventBus.on('plugin:disabled', disabled);
+
+    await manager.register({
+      name: 'flaky',
+      version: '1.0.0',
+      initialize: api => {
+        api.registerHook('custom', () => new Promise(() => {}));
+      },
+      destroy
+    });
+    await manager.register({
+      name: 'stable',
+      version: '1.0.0',
+      initialize: api => {
+        api.registerHook('custom', () => 'stable');
+      }
+    });
+    await manager.initializeAll();
+
+    for (let i = 0; i < 2; i++) {
+      const pending = manager.executeHook('custom');
+      await jest.advanceTimersByTimeAsync(100);
+      expect(await pending).toEqual([null, 'stable']);
+    }
+
+    expect(manager.getDisabledPlugins()).toEqual(['flaky']);
+    expect(manager.getInitializedPlugins()).toEqual(['stable']);
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(disabled).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'flaky',
+        failures: 2,
+        error: expect.stringContaining('超时')
+      })
+    );
+    expect(await manager.executeHook('custom')).toEqual(['stable']);
+
+    expect(await manager.enablePlugin('flaky')).toBe(true);
+    expect(manager.getDisabledPlugins()).toEqual([]);
+
+    jest.useRealTimers();
+  });
+
+  test('钩子上下文应按插件能力隐藏请求头并限制可写字段', async () => {
+    const manager = new PluginManager({} as any, new EventEmitter());
+    const seen: Record<string, unknown> = {};
+
+    await manager.register({
+      name: 'reader',
+      version: '1.0.0',
+      capabilities: ['response:read'],
+      initialize: api => {
+        api.registerHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context => {
+          seen.reader = context.request.headers;
+          context.response.data.url = 'https://evil.example.com';
+        });
+      }
+    });
+    await manager.register({
+      name: 'rewriter',
+      version: '1.0.0',
+      capabilities: ['response:read', 'response:modify'],
+      initialize: api => {
+        api.registerHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context => {
+          context.response.data.url = 'https://cdn.example.com/a';
+          expect(() => {
+            context.request.url = 'https://evil.example.com';
+          }).toThrow(TypeError);
+        });
+      }
+    });
+    await manager.register({
+      name: 'gateway',
+      version: '1.0.0',
+      capabilities: ['response:read', 'request:modifyHeaders'],
+      initialize: api => {
+        api.registerHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context => {
+          seen.gateway = context.request.headers;
+        });
+      }
+    });
+    await manager.initializeAll();
+
+    const context = {
+      request: {
+        url: '/upload/merge',
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret' }
+      },
+      response: { status: 200, headers: {}, data: { url: '/files/a', token: 'download-token' } }
+    };
+    const results = await manager.executeHook(ExtensionPoint.NETWORK_RESPONSE_INTERCEPTOR, context);
+
+    // 修改只读字段的钩子出错，其修改不写回
+    expect(results).toEqual([null, undefined, undefined]);
+    expect(seen).toEqual({
+      reader: '[REDACTED]',
+      gateway: { Authorization: 'Bearer secret' }
+    });
+    expect(context.request.url).toBe('/upload/merge');
+    // 钩子看不到的令牌保持原值
+    expect(context.response.data).toEqual({
+      url: 'https://cdn.example.com/a',
+      token: 'download-token'
+    });
+  });
+
+  test('未声明文件内容能力的钩子只能读取文件元数据', async () => {
+    const manager = new PluginManager({} as any, new EventEmitter());
+    const seen: unknown[] = [];
+
+    await manager.register({
+      name: 'audit',
+      version: '1.0.0',
+      capabilities: ['file:readMetadata', 'file:readContent'],
+      initialize: api => {
+        api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, context => {
+          seen.push(context.file);
+        });
+        api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD, context => {
+          context.chunk.data = new Blob(['replaced']);
+        });
+      }
+    });
+    await manager.register({
+      name: 'metrics',
+      version: '1.0.0',
+      capabilities: ['file:readMetadata'],
+      initialize: api => {
+        api.registerHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, context => {
+          seen.push(context.file);
+        });
+      }
+    });
+    await manager.initializeAll();
+
+    const file = new File(['content'], 'a.txt', { type: 'text/plain' });
+    await manager.executeHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, { taskId: 't', file });
+    expect(seen[0]).toBe(file);
+    expect(seen[1]).not.toBeInstanceOf(Blob);
+    expect(seen[1]).toMatchObject({ name: 'a.txt', size: 7, type: 'text/plain' });
+
+    // 二进制数据同样只对声明了file:readContent能力的钩子提供副本
+    const bytes = new Uint8Array([1, 2, 3]);
+    seen.length = 0;
+    await manager.executeHook(ExtensionPoint.TRANSPORT_BEFORE_UPLOAD, { taskId: 't', file: bytes });
+    expect(seen[0]).not.toBe(bytes);
+    expect(seen[0]).toEqual(bytes);
+    expect(seen[1]).toEqual({ size: 3 });
+
+    // 替换分片数据需要file:modifyContent能力
+    const data = new Blob(['chunk']);
+    const chunkContext = { taskId: 't', hash: 'h', chunk: { index: 0, data }, headers: {} };
+    expect(
+      await manager.executeHook(ExtensionPoint.TRANSPORT_BEFORE_CHUNK_UPLOAD, chunkContext)
+    ).toEqual([null]);
+    expect(chunkContext.chunk.data).toBe(data);
+  });
+
+  test('超时的钩子之后修改上下文不应影响调用方', async () => {
+    jest.useFakeTimers();
+    const manager = new PluginManager({} as any, new EventEmitter(), { hookTimeout: 100 });
+    const data = new Uint8Array([1, 2, 3]);
+    let lateContext: any;
+
+    await manager.register({
+      name: 'slow',
+      version: '1.0.0',
+      initialize: api => {
+        api.registerHook(
+          'custom',
+          async (context: any) => {
+            lateContext = context;
+            await new Promise(resolve => setTimeout(resolve, 500));
+            context.chunk.data = new Blob(['late']);
+            context.chunk.bytes[0] = 0;
+          },
+          { priority: 10 }
+        );
+      }
+    });
+    await manager.register({
+      name: 'tagger',
+      version: '1.0.0',
+      initialize: api => {
+        api.registerHook('custom', (context: any) => {
+          context.tag = 'tagged';
+        });
+      }
+    });
+    await manager.initializeAll();
+
+    const chunk = { index: 0, data: new Blob(['chunk']), bytes: data };
+    const context: any = { chunk, tag: '' };
+    const pending = manager.executeHook('custom', context);
+    await jest.advanceTimersByTimeAsync(100);
+    await pending;
+    await jest.advanceTimersByTimeAsync(500);
+
+    // 超时钩子的修改只作用于它自己的副本
+    expect(lateContext).not.toBe(context);
+    expect(context.chunk.data).toBe(chunk.data);
+    expect(context.tag).toBe('tagged');
+    expect(Array.from(data)).toEqual([1, 2, 3]);
+
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,125 @@
+import { useMultiFileUpload } from '../../../src/reactive/hooks/react-hooks';
+import { useMultiUploader } from '../../../src/reactive/hooks/vue-composables';
+import { UploadHandle, UploadState } from '../../../src/reactive';
+import { mountComposable, renderHook } from '../../utils/hook-runtime';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../utils/protocol-mock-server';
+
+// 测试环境没有React渲染器和Vue运行时，使用最小的钩子运行时
+jest.mock('react', () => ({
+  ...jest.requireActual('react'),
+  ...jest.requireActual('../../utils/hook-runtime').reactHooks
+}));
+jest.mock('vue', () => jest.requireActual('../../utils/hook-runtime').vueRuntime);
+
+// Worker在测试环境中不可用，以任务ID作为文件哈希
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(async ({ fileId }: { fileId: string }) => fileId)
+  })
+}));
+
+const createFile = (name: string, size = 1024) =>
+  new File([new Uint8Array(size)], name, { type: 'application/octet-stream' });
+
+// 等待上传开始秒传检查
+const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+/**
+ * 等待上传结束，返回最终状态
+ */
+const settled = (handle: UploadHandle) =>
+  new Promise<UploadState>(resolve => {
+    handle.state$.subscribe({ complete: () => resolve(handle.state) });
+  });
+
+describe('多文件上传钩子', () => {
+  let server: MockProtocolServer;
+  let hold: boolean;
+  let release: () => void;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    installDefaultRoutes(server);
+
+    // hold为true时秒传检查挂起，直到测试放行
+    hold = false;
+    const gate = new Promise<void>(resolve => (release = resolve));
+    server.on('POST', /^\/upload\/check$/, async () => {
+      if (hold) await gate;
+      return { status: 200, data: { exists: false, uploadedChunks: [] } };
+    });
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    release();
+    jest.restoreAllMocks();
+  });
+
+  const options = () => ({
+    target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+    platform: server.createPlatform(),
+    storage: false as const,
+    autoRetry: false,
+    retryDelay: 1
+  });
+
+  const chunkRequests = () => server.count('POST', /^\/upload$/);
+
+  test('useMultiFileUpload应分别跟踪每个文件，卸载时取消未结束的上传', async () => {
+    const { result, unmount } = renderHook(() => useMultiFileUpload(options()));
+
+    const [done] = result().upload([createFile('a.bin')]);
+    expect((await settled(done)).status).toBe('completed');
+    expect(result().uploads.map(item => item.state.status)).toEqual(['completed']);
+
+    hold = true;
+    const handles = result().upload([createFile('b.bin'), createFile('c.bin')]);
+    await flush();
+    expect(result().uploads.map(item => `${item.state.file?.name}:${item.state.status}`)).toEqual([
+      'a.bin:completed',
+      'b.bin:preparing',
+      'c.bin:preparing'
+    ]);
+
+    const requestsBeforeUnmount = chunkRequests();
+    const finished = Promise.all(handles.map(settled));
+    unmount();
+    release();
+
+    expect((await finished).map(state => state.status)).toEqual(['canceled', 'canceled']);
+    expect(chunkRequests()).toBe(requestsBeforeUnmount);
+    expect(done.state.status).toBe('completed');
+  });
+
+  test('useMultiUploader应统计未结束的上传，卸载时取消未结束的上传', async () => {
+    const { result, unmount } = mountComposable(() => useMultiUploader(options()));
+
+    const [first, second] = result.upload([createFile('a.bin'), createFile('b.bin')]);
+    expect(result.activeCount.value).toBe(2);
+    expect(result.uploads.value.map(item => item.state.file?.name)).toEqual(['a.bin', 'b.bin']);
+
+    const states = await Promise.all([settled(first), settled(second)]);
+    expect(states.map(state => state.status)).toEqual(['completed', 'completed']);
+    expect(result.activeCount.value).toBe(0);
+    expect(result.uploads.value.map(item => item.state.status)).toEqual(['completed', 'completed']);
+
+    hold = true;
+    const [pending] = result.upload([createFile('c.bin')]);
+    await flush();
+    expect(pending.state.status).toBe('preparing');
+
+    const requestsBeforeUnmount = chunkRequests();
+    unmount();
+    release();
+
+    expect((await settled(pending)).status).toBe('canceled');
+    expect(chunkRequests()).toBe(requestsBeforeUnmount);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  Observable as RxObservable,
+  firstValueFrom,
+  from as rxFrom,
+  of as rxOf,
+  take,
+  toArray
+} from 'rxjs';
+import {
+  BehaviorSubject,
+  Observable,
+  from,
+  observableSymbol,
+  of
+} from '../../../src/reactive/observable';
+
+/**
+ * 收集同步发出的值
+ */
+function collect<T>(observable: Observable<T>): Array<T | 'complete'> {
+  const values: Array<T | 'complete'> = [];
+  observable.subscribe({
+    next: value => values.push(value),
+    complete: () => values.push('complete')
+  });
+  return values;
+}
+
+describe('Observable互操作', () => {
+  test('RxJS应能直接消费本库的Observable', async () => {
+    const source = of(1, 2, 3);
+    expect((source as any)[observableSymbol]()).toBe(source);
+
+    expect(await firstValueFrom(rxFrom(source).pipe(toArray()))).toEqual([1, 2, 3]);
+
+    const state$ = new BehaviorSubject({ progress: 0 });
+    const progress = firstValueFrom(rxFrom(state$.asObservable()).pipe(take(2), toArray()));
+    state$.next({ progress: 50 });
+    expect(await progress).toEqual([{ progress: 0 }, { progress: 50 }]);
+  });
+
+  test('应能将RxJS的Observable转换为本库的Observable并传递取消订阅', () => {
+    expect(collect(from(rxOf('a', 'b')))).toEqual(['a', 'b', 'complete']);
+
+    let tornDown = false;
+    const source = new RxObservable<number>(subscriber => {
+      subscriber.next(1);
+      return () => {
+        tornDown = true;
+      };
+    });
+    const values: number[] = [];
+    const subscription = from<number>(source).subscribe(value => values.push(value));
+    subscription.unsubscribe();
+
+    expect(values).toEqual([1]);
+    expect(tornDown).toBe(true);
+  });
+
+  test('应支持只实现互操作协议的对象、Promise和数组', async () => {
+    const interop = {
+      [observableSymbol]: () => ({
+        subscribe: (observer: { next(value: string): void; complete(): void }) => {
+          observer.next('x');
+          observer.complete();
+          return { unsubscribe: () => undefined };
+        }
+      })
+    };
+
+    expect(collect(from(interop as any))).toEqual(['x', 'complete']);
+    expect(collect(from([1, 2]))).toEqual([1, 2, 'complete']);
+
+    const values: number[] = [];
+    await new Promise<void>(resolve =>
+      from(Promise.resolve(42)).subscribe({ next: value => values.push(value), complete: resolve })
+    );
+    expect(values).toEqual([42]);
+  });
+
+  test('应以方法形式调用观察者对象', () => {
+    class Collector {
+      values: number[] = [];
+      next(value: number) {
+        this.values.push(value);
+      }
+    }
+
+    const collector = new Collector();
+    of(1, 2).subscribe(collector);
+    expect(collector.values).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,150 @@
+import { Observable, combineLatest } from '../../../src/reactive/observable';
+import {
+  bufferTime,
+  concatMap,
+  mergeMap,
+  sampleTime,
+  scan,
+  share,
+  shareReplay,
+  withLatestFrom
+} from '../../../src/reactive/operators';
+import { FRAME, MarbleNotification, cold, expectMarbles } from '../../utils/marbles';
+
+/**
+ * 在指定帧订阅，记录收到通知的帧（从0帧开始计时）
+ */
+function subscribeAt<T>(observable: Observable<T>, frame: number, received: MarbleNotification[]) {
+  const start = Date.now();
+  setTimeout(() => {
+    const now = () => Math.round((Date.now() - start) / FRAME);
+    observable.subscribe({
+      next: value => received.push({ frame: now(), kind: 'N', value }),
+      error: error => received.push({ frame: now(), kind: 'E', value: error }),
+      complete: () => received.push({ frame: now(), kind: 'C' })
+    });
+  }, frame * FRAME);
+}
+
+describe('响应式操作符', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('mergeMap应按并发数订阅内部Observable', () => {
+    const project = (value: string) => cold('--v|', { v: value });
+
+    expectMarbles(cold('abc|').pipe(mergeMap(project)), '--abc|');
+    // 第三个值等第一个内部Observable完成后才订阅
+    expectMarbles(cold('abc|').pipe(mergeMap(project, 2)), '--ab-c|');
+  });
+
+  test('concatMap应逐个订阅内部Observable', () => {
+    expectMarbles(
+      cold('ab|').pipe(concatMap(value => cold('-v|', { v: value.toUpperCase() }))),
+      '-A-B|'
+    );
+    // 内部输入可以是数组等可迭代对象
+    expectMarbles(cold('a----(b|)').pipe(concatMap(value => [value, value])), '(aa)-(bb|)');
+  });
+
+  test('scan应发出每次累积的结果', () => {
+    const source = cold('-a-b-c|', { a: 1, b: 2, c: 3 });
+
+    expectMarbles(
+      source.pipe(scan((total: number, value: number) => total + value, 0)),
+      '-x-y-z|',
+      { x: 1, y: 3, z: 6 }
+    );
+  });
+
+  test('bufferTime应按时间间隔发出收集的值', () => {
+    expectMarbles(cold('a-b-c---d-|').pipe(bufferTime(3 * FRAME)), '---x--y--z(w|)', {
+      x: ['a', 'b'],
+      y: ['c'],
+      z: ['d'],
+      w: []
+    });
+  });
+
+  test('sampleTime应按时间间隔发出最新值', () => {
+    expectMarbles(cold('ab-----c--|').pipe(sampleTime(3 * FRAME)), '---b-----c|');
+  });
+
+  test('combineLatest应在所有输入都有值后组合最新值', () => {
+    expectMarbles(combineLatest([cold('-a--b|'), cold('--x--y|')]), '--u-vw|', {
+      u: ['a', 'x'],
+      v: ['b', 'x'],
+      w: ['b', 'y']
+    });
+    // 输入未发出值就完成时直接完成
+    expectMarbles(combineLatest([cold('--|'), cold('-a---|')]), '--|');
+  });
+
+  test('withLatestFrom应附带其他输入的最新值', () => {
+    expectMarbles(cold('-a--b--c|').pipe(withLatestFrom(cold('--x--y|'))), '----u--v|', {
+      u: ['b', 'x'],
+      v: ['c', 'y']
+    });
+  });
+
+  test('share应共享源订阅并在结束后重新连接', () => {
+    const source = cold('-a-b-c|');
+    const shared = source.pipe(share());
+    const first: MarbleNotification[] = [];
+    const second: MarbleNotification[] = [];
+
+    subscribeAt(shared, 0, first);
+    subscribeAt(shared, 2, second);
+    jest.advanceTimersByTime(10 * FRAME);
+
+    expect(source.subscriptions).toBe(1);
+    expect(first.map(n => n.value ?? n.kind)).toEqual(['a', 'b', 'c', 'C']);
+    expect(second).toEqual([
+      { frame: 3, kind: 'N', value: 'b' },
+      { frame: 5, kind: 'N', value: 'c' },
+      { frame: 6, kind: 'C' }
+    ]);
+
+    // 源完成后再订阅会重新连接
+    expectMarbles(shared, '-a-b-c|');
+    expect(source.subscriptions).toBe(2);
+
+    // 所有订阅者取消订阅时断开源
+    const subscription = shared.subscribe(() => undefined);
+    subscription.unsubscribe();
+    expectMarbles(shared, '-a-b-c|');
+    expect(source.subscriptions).toBe(4);
+  });
+
+  test('shareReplay应向新订阅者重放最近的值', () => {
+    const source = cold('-a-b-c|');
+    const shared = source.pipe(shareReplay(1));
+    const late: MarbleNotification[] = [];
+
+    subscribeAt(shared, 0, []);
+    subscribeAt(shared, 4, late);
+    jest.advanceTimersByTime(10 * FRAME);
+
+    expect(late).toEqual([
+      { frame: 4, kind: 'N', value: 'b' },
+      { frame: 5, kind: 'N', value: 'c' },
+      { frame: 6, kind: 'C' }
+    ]);
+
+    // 源完成后新订阅者立即收到重放的值和完成通知
+    expectMarbles(shared, '(c|)');
+    expect(source.subscriptions).toBe(1);
+
+    // 出错后再订阅会重新连接
+    const failing = cold('-a#');
+    const replayed = failing.pipe(shareReplay());
+    expectMarbles(replayed, '-a#');
+    expectMarbles(replayed, '-a#');
+    expect(failing.subscriptions).toBe(2);
+  });
+});
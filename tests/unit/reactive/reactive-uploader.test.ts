@@ -0,0 +1,174 @@
+import {
+  ReactiveUploader,
+  UploadHandle,
+  UploadState,
+  UPLOAD_QUEUE_FULL_ERROR_CODE
+} from '../../../src/reactive';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，以任务ID作为文件哈希
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(async ({ fileId }: { fileId: string }) => fileId)
+  })
+}));
+
+const createFile = (name: string, size = 1024) =>
+  new File([new Uint8Array(size)], name, { type: 'application/octet-stream' });
+
+/**
+ * 等待上传结束，返回最终状态
+ */
+const settled = (handle: UploadHandle) =>
+  new Promise<UploadState>(resolve => {
+    handle.state$.subscribe({ complete: () => resolve(handle.state) });
+  });
+
+describe('ReactiveUploader', () => {
+  let server: MockProtocolServer;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    installDefaultRoutes(server);
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const create = (options: Record<string, any> = {}) =>
+    new ReactiveUploader({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      platform: server.createPlatform(),
+      storage: false,
+      autoRetry: false,
+      retryDelay: 1,
+      ...options
+    });
+
+  test('同时上传的文件应各自维护状态', async () => {
+    const uploader = create();
+    const active: string[][] = [];
+    uploader.uploads$.subscribe(handles => active.push(handles.map(handle => handle.file.name)));
+
+    const first = uploader.upload(createFile('a.bin'));
+    const second = uploader.upload(createFile('b.bin'));
+    expect(first.id).not.toBe(second.id);
+
+    // 第二个文件合并失败
+    server.on('POST', /^\/upload\/merge$/, request =>
+      request.data.hash === second.id
+        ? { status: 400, data: { error: 'Merge failed' } }
+        : { status: 200, data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/${request.data.hash}` } }
+    );
+
+    const progress: number[] = [];
+    const results: unknown[] = [];
+    first.progress$.subscribe(value => progress.push(value));
+    first.completed$.subscribe(result => results.push(result));
+
+    const [firstState, secondState] = await Promise.all([settled(first), settled(second)]);
+
+    expect(firstState).toMatchObject({ status: 'completed', progress: 100, error: null });
+    expect(firstState.file?.name).toBe('a.bin');
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(results).toHaveLength(1);
+
+    expect(secondState.status).toBe('error');
+    expect(secondState.file?.name).toBe('b.bin');
+    expect(secondState.error).toBeInstanceOf(Error);
+
+    expect(active[0]).toEqual([]);
+    expect(active).toContainEqual(['a.bin', 'b.bin']);
+    expect(active[active.length - 1]).toEqual([]);
+  });
+
+  test('背压应在上传真正结束后解除', async () => {
+    const uploader = create({ backpressureThreshold: 2, highWaterMark: 2 });
+    const backpressure: unknown[] = [];
+    uploader.event$('backpressure').subscribe(event => backpressure.push(event));
+
+    // 秒传检查挂起，直到测试放行
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => (release = resolve));
+    server.on('POST', /^\/upload\/check$/, async () => {
+      await gate;
+      return { status: 200, data: { exists: false, uploadedChunks: [] } };
+    });
+
+    const first = uploader.upload(createFile('a.bin'));
+    const second = uploader.upload(createFile('b.bin'));
+    const rejected = uploader.upload(createFile('c.bin'));
+
+    expect(backpressure).toEqual([{ applied: true, queueSize: 2 }]);
+    expect(rejected.state.status).toBe('error');
+    expect(rejected.state.error).toMatchObject({ code: UPLOAD_QUEUE_FULL_ERROR_CODE });
+
+    // 取消请求发出后，上传结束前仍占用名额
+    first.cancel();
+    expect(first.state.status).toBe('canceled');
+    expect(uploader.upload(createFile('d.bin')).state.status).toBe('error');
+
+    const firstSettled = settled(first);
+    const secondSettled = settled(second);
+    release();
+
+    expect((await firstSettled).status).toBe('canceled');
+    expect((await secondSettled).status).toBe('completed');
+    expect(backpressure).toEqual([
+      { applied: true, queueSize: 2 },
+      { applied: false, queueSize: 1 }
+    ]);
+
+    const next = uploader.upload(createFile('e.bin'));
+    expect((await settled(next)).status).toBe('completed');
+  });
+
+  test('准备阶段应可暂停，恢复后完成上传', async () => {
+    const uploader = create();
+
+    // 模块初始化完成前暂停，不发出任何请求
+    const early = uploader.upload(createFile('a.bin'));
+    early.pause();
+    expect(early.state.status).toBe('paused');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(early.state.status).toBe('paused');
+    expect(server.requests).toEqual([]);
+
+    early.resume();
+    expect((await settled(early)).status).toBe('completed');
+
+    // 秒传检查期间暂停，此时传输任务处于准备阶段
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => (release = resolve));
+    let checking: () => void = () => undefined;
+    const checkStarted = new Promise<void>(resolve => (checking = resolve));
+    server.on('POST', /^\/upload\/check$/, async () => {
+      checking();
+      await gate;
+      return { status: 200, data: { exists: false, uploadedChunks: [] } };
+    });
+
+    const chunkRequests = server.count('POST', /^\/upload$/);
+    const handle = uploader.upload(createFile('b.bin'));
+    await checkStarted;
+    expect(handle.state.status).toBe('preparing');
+
+    handle.pause();
+    expect(handle.state.status).toBe('paused');
+    release();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(handle.state.status).toBe('paused');
+    expect(server.count('POST', /^\/upload$/)).toBe(chunkRequests);
+
+    handle.resume();
+    expect((await settled(handle)).status).toBe('completed');
+  });
+});
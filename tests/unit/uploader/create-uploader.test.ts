@@ -0,0 +1,188 @@
+import { createUploader, UPLOAD_CANCELED_ERROR_CODE, UploaderBuilder } from '../../../src/uploader';
+import { detectPlatform } from '../../../src/platforms/detect-platform';
+import { BrowserAdapter } from '../../../src/platforms/browser/browser-adapter';
+import { WechatAdapter } from '../../../src/platforms/miniapp/wechat-adapter';
+import { MemoryStorageEngine } from '../../utils/memory-storage-engine';
+import {
+  MockProtocolServer,
+  PROTOCOL_SERVER_BASE_URL,
+  installDefaultRoutes
+} from '../../utils/protocol-mock-server';
+
+// Worker在测试环境中不可用，以任务ID作为文件哈希
+jest.mock('../../../src/workers/worker-manager', () => ({
+  getWorkerManager: () => ({
+    calculateHash: jest.fn(async ({ fileId }: { fileId: string }) => fileId)
+  })
+}));
+
+const createFile = (name: string, size = 1024) =>
+  new File([new Uint8Array(size)], name, { type: 'application/octet-stream' });
+
+describe('createUploader', () => {
+  let server: MockProtocolServer;
+
+  beforeEach(() => {
+    server = new MockProtocolServer();
+    installDefaultRoutes(server);
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const create = (options: Record<string, any> = {}) =>
+    createUploader({
+      target: `${PROTOCOL_SERVER_BASE_URL}/upload`,
+      platform: server.createPlatform(),
+      storage: false,
+      autoRetry: false,
+      ...options
+    });
+
+  test('应按依赖顺序注册模块并上传文件', async () => {
+    const storage = new MemoryStorageEngine();
+    const init = jest.spyOn(storage, 'init');
+    const uploader = create({ storage, bandwidth: {} });
+    await uploader.ready();
+
+    // 依赖模块先于队列初始化
+    const ids = uploader.kernel.getModuleIds();
+    expect(ids).toEqual(
+      expect.arrayContaining(['platform', 'storage', 'transport', 'bandwidth', 'queue'])
+    );
+    expect(uploader.kernel.getModule('queue')).toBe(uploader.queue);
+    expect(uploader.transport.getBandwidthLimiter()).toBe(uploader.bandwidth);
+
+    // 模块以适配器注册，不修改传入的存储引擎，存储引擎通过IKernel视图初始化
+    expect(uploader.kernel.getModule('storage')).toBeInstanceOf(MemoryStorageEngine);
+    expect(storage).not.toHaveProperty('id');
+    expect(storage).not.toHaveProperty('initialize');
+    expect(init.mock.calls[0][0].getModule('queue')).toBe(uploader.queue);
+
+    const file = createFile('a.bin');
+    const events: string[] = [];
+    uploader.on('start', event => events.push(`start:${event.file === file}`));
+    uploader.on('complete', event => events.push(`complete:${event.url}`));
+
+    const progress: number[] = [];
+    const result = await uploader.upload(file, { onProgress: value => progress.push(value) });
+
+    expect(result.file).toBe(file);
+    expect(result.url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/${result.id}`);
+    expect(progress[progress.length - 1]).toBe(100);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(events).toEqual(['start:true', `complete:${result.url}`]);
+
+    await uploader.destroy();
+  });
+
+  test('批量上传中单个文件失败不影响其他文件', async () => {
+    const uploader = create();
+    const files = [createFile('a.bin'), createFile('b.bin'), createFile('c.bin')];
+
+    // 第二个文件的分片上传失败
+    let uploads = 0;
+    server.on('POST', /^\/upload$/, () => {
+      uploads++;
+      return uploads === 2 ? { status: 500 } : { status: 200, data: { success: true } };
+    });
+    server.on('POST', /^\/upload\/merge$/, request => ({
+      status: 200,
+      data: { url: `${PROTOCOL_SERVER_BASE_URL}/files/${request.data.hash}` }
+    }));
+
+    const results = await uploader.uploadMany(files, { priority: 1 });
+
+    expect(results.map(result => result.status)).toEqual(['completed', 'failed', 'completed']);
+    expect(results.map(result => result.file)).toEqual(files);
+    expect(results[1].id).toEqual(expect.any(String));
+
+    await uploader.destroy();
+  });
+
+  test('取消信号应取消对应文件的上传', async () => {
+    const uploader = create();
+
+    // 已取消的信号不加入队列
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(
+      uploader.upload(createFile('a.bin'), { signal: aborted.signal })
+    ).rejects.toMatchObject({ code: UPLOAD_CANCELED_ERROR_CODE });
+
+    // 上传过程中取消
+    const controller = new AbortController();
+    let resolveChunk: () => void = () => undefined;
+    server.on(
+      'POST',
+      /^\/upload$/,
+      () =>
+        new Promise(resolve => {
+          resolveChunk = () => resolve({ status: 200, data: { success: true } });
+        })
+    );
+    const canceled = jest.fn();
+    uploader.on('cancel', canceled);
+
+    const pending = uploader.upload(createFile('b.bin'), { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+    resolveChunk();
+
+    await expect(pending).rejects.toMatchObject({ code: UPLOAD_CANCELED_ERROR_CODE });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(canceled).toHaveBeenCalledTimes(1);
+    expect(uploader.queue.getQueueState().totalQueued).toBe(0);
+
+    await uploader.destroy();
+  });
+
+  test('没有等待者的上传结果应限量暂存，取走后删除', async () => {
+    const uploader = create();
+    const settled: Map<string, unknown> = (uploader as any).settled;
+
+    const result = await uploader.upload(createFile('a.bin'));
+    expect(settled.has(result.id)).toBe(false);
+
+    // 直接加入队列的项目没有等待者
+    const id = await uploader.queue.addToQueue(createFile('b.bin'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(settled.has(id)).toBe(true);
+
+    for (let index = 0; index < 150; index++) {
+      (uploader as any).settle(`orphan_${index}`, { url: `url_${index}` });
+    }
+    expect(settled.size).toBe(100);
+    expect(settled.has(id)).toBe(false);
+    expect(settled.has('orphan_49')).toBe(false);
+    expect(settled.has('orphan_50')).toBe(true);
+    expect(settled.has('orphan_149')).toBe(true);
+
+    await uploader.destroy();
+  });
+
+  test('构建器应合并各项选项', async () => {
+    const uploader = new UploaderBuilder(`${PROTOCOL_SERVER_BASE_URL}/upload`)
+      .withPlatform(server.createPlatform())
+      .withStorage(false)
+      .withTransport({ autoRetry: false })
+      .withQueue({ maxConcurrentUploads: 1 })
+      .build();
+
+    const result = await uploader.upload(createFile('a.bin'));
+    expect(result.url).toBe(`${PROTOCOL_SERVER_BASE_URL}/files/${result.id}`);
+
+    await uploader.destroy();
+  });
+
+  test('应按平台名称或运行环境创建平台适配器', () => {
+    expect(detectPlatform()).toBeInstanceOf(BrowserAdapter);
+    expect(detectPlatform('wechat')).toBeInstanceOf(WechatAdapter);
+    expect(() => detectPlatform('symbian')).toThrow('不支持的平台: symbian');
+  });
+});
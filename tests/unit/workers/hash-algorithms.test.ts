@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import SparkMD5 from 'spark-md5';
+import {
+  Sha256,
+  computeMerkleRoot,
+  createHasher,
+  encodeSampleSize,
+  getSampleRanges
+} from '../../../src/workers/hash-algorithms';
+
+/**
+ * 生成指定长度的测试数据
+ */
+function makeBuffer(size: number): ArrayBuffer {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 31 + 7) & 0xff;
+  }
+  return bytes.buffer;
+}
+
+describe('哈希算法', () => {
+  test('SHA-256应与标准实现一致', () => {
+    for (const size of [0, 3, 55, 56, 63, 64, 65, 1000]) {
+      const buffer = makeBuffer(size);
+      const hasher = new Sha256();
+      hasher.append(buffer);
+
+      const expected = createHash('sha256').update(new Uint8Array(buffer)).digest('hex');
+      expect(hasher.end()).toBe(expected);
+    }
+  });
+
+  test('SHA-256增量追加结果应与一次性计算一致', () => {
+    const buffer = makeBuffer(5000);
+    const hasher = new Sha256();
+
+    // 使用不对齐的分块大小追加
+    for (let offset = 0; offset < buffer.byteLength; offset += 77) {
+      hasher.append(buffer.slice(offset, Math.min(offset + 77, buffer.byteLength)));
+    }
+
+    const expected = createHash('sha256').update(new Uint8Array(buffer)).digest('hex');
+    expect(hasher.end()).toBe(expected);
+  });
+
+  test('md5与sample应使用SparkMD5', () => {
+    const buffer = makeBuffer(1024);
+    const expected = SparkMD5.ArrayBuffer.hash(buffer);
+
+    for (const algorithm of ['md5', 'sample'] as const) {
+      const hasher = createHasher(algorithm);
+      hasher.append(buffer);
+      expect(hasher.end()).toBe(expected);
+    }
+  });
+
+  test('小文件抽样应覆盖全部内容', () => {
+    expect(getSampleRanges(300, 100)).toEqual([[0, 300]]);
+  });
+
+  test('大文件抽样应读取首尾分块和中间分块的采样点', () => {
+    const ranges = getSampleRanges(1000, 100);
+
+    expect(ranges[0]).toEqual([0, 100]);
+    expect(ranges[ranges.length - 1]).toEqual([900, 1000]);
+    // 中间8个分块，每个3个采样点
+    expect(ranges).toHaveLength(2 + 8 * 3);
+    expect(ranges[1]).toEqual([100, 102]);
+    expect(ranges[2]).toEqual([150, 152]);
+    expect(ranges[3]).toEqual([198, 200]);
+  });
+
+  test('抽样附加数据应编码文件大小', () => {
+    const view = new DataView(encodeSampleSize(2 ** 33 + 5));
+    expect(view.getUint32(0)).toBe(2);
+    expect(view.getUint32(4)).toBe(5);
+  });
+
+  test('Merkle根应逐层两两哈希，奇数节点直接提升', () => {
+    const leaves = ['a', 'b', 'c'].map(text => createHash('sha256').update(text).digest());
+    const hashPair = (left: Buffer, right: Buffer) =>
+      createHash('sha256')
+        .update(Buffer.concat([left, right]))
+        .digest();
+
+    const expected = hashPair(hashPair(leaves[0], leaves[1]), leaves[2]).toString('hex');
+    const hexLeaves = leaves.map(leaf => leaf.toString('hex'));
+
+    expect(computeMerkleRoot(hexLeaves, 'sha256')).toBe(expected);
+    expect(computeMerkleRoot(hexLeaves.slice(0, 1), 'sha256')).toBe(hexLeaves[0]);
+    expect(computeMerkleRoot([], 'sha256')).toBe(createHash('sha256').digest('hex'));
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * 测试用的最小钩子运行时
+ *
+ * 测试环境没有React渲染器和Vue运行时，在jest.mock中以此替换React的状态钩子和Vue的组合式API，
+ * 在组件之外执行自定义钩子和组合函数，并可模拟重新渲染和卸载。
+ */
+
+type Cleanup = void | (() => void);
+
+interface EffectSlot {
+  deps?: unknown[];
+  cleanup?: Cleanup;
+}
+
+let rendering: HookRenderer<unknown> | null = null;
+
+function currentRenderer(): HookRenderer<unknown> {
+  if (!rendering) {
+    throw new Error('钩子只能在renderHook中调用');
+  }
+  return rendering;
+}
+
+function depsChanged(previous: unknown[] | undefined, next: unknown[] | undefined): boolean {
+  if (!previous || !next) return true;
+  return previous.length !== next.length || next.some((dep, index) => dep !== previous[index]);
+}
+
+/**
+ * 执行钩子的渲染器，每次渲染按调用顺序复用钩子状态
+ */
+class HookRenderer<T> {
+  private slots: unknown[] = [];
+  private cursor = 0;
+  private pendingEffects: Array<() => void> = [];
+  private effects: EffectSlot[] = [];
+
+  constructor(private hook: () => T) {}
+
+  render(): T {
+    rendering = this as HookRenderer<unknown>;
+    this.cursor = 0;
+    let value: T;
+    try {
+      value = this.hook();
+    } finally {
+      rendering = null;
+    }
+
+    // 与React一致，副作用在渲染完成后执行
+    const effects = this.pendingEffects;
+    this.pendingEffects = [];
+    effects.forEach(run => run());
+    return value;
+  }
+
+  unmount(): void {
+    this.effects.forEach(effect => {
+      if (typeof effect.cleanup === 'function') effect.cleanup();
+    });
+    this.effects = [];
+  }
+
+  slot<S>(create: () => S): S {
+    const index = this.cursor++;
+    if (index >= this.slots.length) {
+      this.slots.push(create());
+    }
+    return this.slots[index] as S;
+  }
+
+  effect(effect: () => Cleanup, deps?: unknown[]): void {
+    const slot = this.slot<EffectSlot>(() => ({}));
+    if (this.effects.includes(slot) && !depsChanged(slot.deps, deps)) return;
+
+    slot.deps = deps;
+    this.pendingEffects.push(() => {
+      if (typeof slot.cleanup === 'function') slot.cleanup();
+      slot.cleanup = effect();
+      if (!this.effects.includes(slot)) this.effects.push(slot);
+    });
+  }
+}
+
+/**
+ * 替换React的状态钩子
+ */
+export const reactHooks = {
+  useState<S>(initial: S | (() => S)) {
+    const slot = currentRenderer().slot(() => ({
+      value: typeof initial === 'function' ? (initial as () => S)() : initial
+    }));
+    const setState = (next: S | ((previous: S) => S)) => {
+      slot.value = typeof next === 'function' ? (next as (previous: S) => S)(slot.value) : next;
+    };
+    return [slot.value, setState] as const;
+  },
+  useRef<R>(initial: R) {
+    return currentRenderer().slot(() => ({ current: initial }));
+  },
+  useCallback<F>(callback: F) {
+    return callback;
+  },
+  useEffect(effect: () => Cleanup, deps?: unknown[]) {
+    currentRenderer().effect(effect, deps);
+  }
+};
+
+/**
+ * 执行React自定义钩子
+ * result()重新渲染并返回钩子的最新返回值，unmount()执行所有副作用的清理函数
+ */
+export function renderHook<T>(hook: () => T) {
+  const renderer = new HookRenderer(hook);
+  renderer.render();
+
+  return {
+    result: () => renderer.render(),
+    unmount: () => renderer.unmount()
+  };
+}
+
+let mounting: { mounted: Array<() => void>; unmounted: Array<() => void> } | null = null;
+
+/**
+ * 替换Vue的组合式API，ref和reactive不追踪依赖
+ */
+export const vueRuntime = {
+  ref<V>(value: V) {
+    return { value };
+  },
+  reactive<V>(value: V) {
+    return value;
+  },
+  watch() {
+    return () => undefined;
+  },
+  onMounted(callback: () => void) {
+    mounting?.mounted.push(callback);
+  },
+  onUnmounted(callback: () => void) {
+    mounting?.unmounted.push(callback);
+  }
+};
+
+/**
+ * 执行Vue组合函数，unmount()执行onUnmounted注册的回调
+ */
+export function mountComposable<T>(composable: () => T) {
+  const lifecycle = { mounted: [] as Array<() => void>, unmounted: [] as Array<() => void> };
+  mounting = lifecycle;
+  let result: T;
+  try {
+    result = composable();
+  } finally {
+    mounting = null;
+  }
+  lifecycle.mounted.forEach(callback => callback());
+
+  return {
+    result,
+    unmount: () => lifecycle.unmounted.forEach(callback => callback())
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * 弹珠图测试工具
+ * 基于jest的假定时器，每个字符占一帧（FRAME毫秒）：`-`为空帧，字母为发出的值，
+ * `|`为完成，`#`为错误，`(ab)`表示同一帧发出多个值，空格仅用于对齐。
+ * 使用前需调用jest.useFakeTimers()
+ */
+
+import { Observable, Observer } from '../../src/reactive/observable';
+
+/** 每帧的毫秒数 */
+export const FRAME = 10;
+
+/**
+ * 通知记录
+ */
+export interface MarbleNotification {
+  frame: number;
+  kind: 'N' | 'E' | 'C';
+  value?: unknown;
+}
+
+/**
+ * 解析弹珠图
+ * @param marbles 弹珠图
+ * @param values 字母对应的值，未提供时值为字母本身
+ * @param error `#`对应的错误
+ */
+export function parseMarbles(
+  marbles: string,
+  values: Record<string, unknown> = {},
+  error: unknown = 'error'
+): MarbleNotification[] {
+  const notifications: MarbleNotification[] = [];
+  let frame = 0;
+  let groupStart: number | null = null;
+
+  for (const char of marbles) {
+    if (char === ' ') continue;
+
+    const current = groupStart ?? frame;
+    switch (char) {
+      case '-':
+        break;
+      case '(':
+        groupStart = frame;
+        break;
+      case ')':
+        groupStart = null;
+        break;
+      case '|':
+        notifications.push({ frame: current, kind: 'C' });
+        break;
+      case '#':
+        notifications.push({ frame: current, kind: 'E', value: error });
+        break;
+      default:
+        notifications.push({
+          frame: current,
+          kind: 'N',
+          value: char in values ? values[char] : char
+        });
+    }
+    frame++;
+  }
+
+  return notifications;
+}
+
+/**
+ * 按通知记录向观察者发送，第0帧的通知同步发送
+ * @returns 清除未发送通知的函数
+ */
+function schedule(notifications: MarbleNotification[], deliver: (n: MarbleNotification) => void) {
+  const timers: ReturnType<typeof setTimeout>[] = [];
+
+  for (const notification of notifications) {
+    if (notification.frame === 0) {
+      deliver(notification);
+    } else {
+      timers.push(setTimeout(() => deliver(notification), notification.frame * FRAME));
+    }
+  }
+
+  return () => timers.forEach(timer => clearTimeout(timer));
+}
+
+function notify<T>(observer: Observer<T>, notification: MarbleNotification): void {
+  if (notification.kind === 'N') observer.next(notification.value as T);
+  else if (notification.kind === 'E') observer.error(notification.value);
+  else observer.complete();
+}
+
+/**
+ * 创建冷Observable，每次订阅从第0帧开始
+ */
+export function cold<T = string>(
+  marbles: string,
+  values?: Record<string, T>,
+  error?: unknown
+): Observable<T> & { subscriptions: number } {
+  const notifications = parseMarbles(marbles, values, error);
+  const observable = new Observable<T>(observer => {
+    observable.subscriptions++;
+    return schedule(notifications, notification => notify(observer, notification));
+  }) as Observable<T> & { subscriptions: number };
+  observable.subscriptions = 0;
+  return observable;
+}
+
+/**
+ * 创建热Observable，从创建时开始计时，订阅者只收到订阅之后的通知
+ */
+export function hot<T = string>(
+  marbles: string,
+  values?: Record<string, T>,
+  error?: unknown
+): Observable<T> {
+  const observers = new Set<Observer<T>>();
+  schedule(
+    parseMarbles(marbles, values, error).filter(notification => notification.frame > 0),
+    notification => Array.from(observers).forEach(observer => notify(observer, notification))
+  );
+
+  return new Observable<T>(observer => {
+    observers.add(observer);
+    return () => observers.delete(observer);
+  });
+}
+
+/**
+ * 订阅Observable并推进假定时器，返回收到的通知
+ * @param observable 被测Observable
+ * @param frames 推进的帧数
+ */
+export function record<T>(observable: Observable<T>, frames: number): MarbleNotification[] {
+  const start = Date.now();
+  const notifications: MarbleNotification[] = [];
+  const frame = () => Math.round((Date.now() - start) / FRAME);
+
+  const subscription = observable.subscribe({
+    next: value => notifications.push({ frame: frame(), kind: 'N', value }),
+    error: error => notifications.push({ frame: frame(), kind: 'E', value: error }),
+    complete: () => notifications.push({ frame: frame(), kind: 'C' })
+  });
+  jest.advanceTimersByTime(frames * FRAME);
+  subscription.unsubscribe();
+
+  return notifications;
+}
+
+/**
+ * 断言Observable的输出与弹珠图一致
+ */
+export function expectMarbles<T>(
+  observable: Observable<T>,
+  expected: string,
+  values?: Record<string, unknown>,
+  error?: unknown
+): void {
+  const notifications = parseMarbles(expected, values, error);
+  expect(record(observable, expected.replace(/ /g, '').length + 10)).toEqual(notifications);
+}
@@ -0,0 +1,227 @@
+/**
+ * 内存IndexedDB
+ * 测试用的IndexedDB替身，只实现IndexedDBStorage用到的部分：
+ * 打开/升级数据库、对象存储与索引的get/put/delete/clear/getAll，以及事务完成事件。
+ * 请求回调在微任务中触发，事务在所有请求完成后的下一个宏任务中完成
+ */
+
+type Callback = ((event: any) => void) | null;
+
+class MemoryRequest {
+  result: any;
+  error: Error | null = null;
+  onsuccess: Callback = null;
+  onerror: Callback = null;
+}
+
+class MemoryTransaction {
+  oncomplete: Callback = null;
+  onerror: Callback = null;
+  private pending = 0;
+  private done = false;
+
+  constructor(
+    private database: MemoryDatabase,
+    private storeNames: string[]
+  ) {
+    this.scheduleComplete();
+  }
+
+  objectStore(name: string): MemoryObjectStore {
+    if (!this.storeNames.includes(name)) {
+      throw new Error(`对象存储 ${name} 不在事务范围内`);
+    }
+    return new MemoryObjectStore(this.database.getStore(name), this);
+  }
+
+  /**
+   * 执行请求，回调中发起的新请求仍属于当前事务
+   */
+  request(operation: () => any): MemoryRequest {
+    const request = new MemoryRequest();
+    this.pending++;
+
+    Promise.resolve().then(() => {
+      try {
+        request.result = operation();
+        request.onsuccess?.({ target: request });
+      } catch (error) {
+        request.error = error as Error;
+        request.onerror?.({ target: request });
+        this.onerror?.({ target: request });
+      }
+      this.pending--;
+      this.scheduleComplete();
+    });
+
+    return request;
+  }
+
+  private scheduleComplete(): void {
+    setTimeout(() => {
+      if (this.pending === 0 && !this.done) {
+        this.done = true;
+        this.oncomplete?.({ target: this });
+      }
+    }, 0);
+  }
+}
+
+interface StoreData {
+  keyPath: string;
+  records: Map<IDBValidKey, any>;
+  indexes: Map<string, string>;
+}
+
+class MemoryIndex {
+  constructor(
+    private data: StoreData,
+    private keyPath: string,
+    private transaction: MemoryTransaction
+  ) {}
+
+  getAll(query?: IDBValidKey): MemoryRequest {
+    return this.transaction.request(() =>
+      [...this.data.records.values()].filter(
+        record => query === undefined || record[this.keyPath] === query
+      )
+    );
+  }
+}
+
+class MemoryObjectStore {
+  constructor(
+    private data: StoreData,
+    private transaction: MemoryTransaction
+  ) {}
+
+  get(key: IDBValidKey): MemoryRequest {
+    return this.transaction.request(() => this.data.records.get(key));
+  }
+
+  getAll(): MemoryRequest {
+    return this.transaction.request(() => [...this.data.records.values()]);
+  }
+
+  put(value: any): MemoryRequest {
+    return this.transaction.request(() => {
+      const key = value[this.data.keyPath];
+      this.data.records.set(key, { ...value });
+      return key;
+    });
+  }
+
+  delete(key: IDBValidKey): MemoryRequest {
+    return this.transaction.request(() => void this.data.records.delete(key));
+  }
+
+  clear(): MemoryRequest {
+    return this.transaction.request(() => void this.data.records.clear());
+  }
+
+  index(name: string): MemoryIndex {
+    const keyPath = this.data.indexes.get(name);
+    if (!keyPath) {
+      throw new Error(`索引 ${name} 不存在`);
+    }
+    return new MemoryIndex(this.data, keyPath, this.transaction);
+  }
+
+  createIndex(name: string, keyPath: string): void {
+    this.data.indexes.set(name, keyPath);
+  }
+}
+
+class MemoryDatabase {
+  onerror: Callback = null;
+  readonly stores = new Map<string, StoreData>();
+
+  constructor(
+    public name: string,
+    public version: number
+  ) {}
+
+  get objectStoreNames() {
+    return { contains: (name: string) => this.stores.has(name) };
+  }
+
+  createObjectStore(name: string, options: { keyPath: string }): MemoryObjectStore {
+    const data: StoreData = { keyPath: options.keyPath, records: new Map(), indexes: new Map() };
+    this.stores.set(name, data);
+    // 升级期间创建的对象存储只用于建立索引
+    return new MemoryObjectStore(data, null as unknown as MemoryTransaction);
+  }
+
+  getStore(name: string): StoreData {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw new Error(`对象存储 ${name} 不存在`);
+    }
+    return store;
+  }
+
+  transaction(storeNames: string | string[]): MemoryTransaction {
+    return new MemoryTransaction(this, Array.isArray(storeNames) ? storeNames : [storeNames]);
+  }
+
+  close(): void {}
+}
+
+export class MemoryIndexedDB {
+  readonly databases = new Map<string, MemoryDatabase>();
+
+  open(
+    name: string,
+    version = 1
+  ): MemoryRequest & { onupgradeneeded: Callback; onblocked: Callback } {
+    const request = Object.assign(new MemoryRequest(), {
+      onupgradeneeded: null as Callback,
+      onblocked: null as Callback
+    });
+
+    setTimeout(() => {
+      let database = this.databases.get(name);
+      const upgrade = !database || database.version < version;
+      if (!database) {
+        database = new MemoryDatabase(name, version);
+        this.databases.set(name, database);
+      }
+
+      request.result = database;
+      if (upgrade) {
+        database.version = version;
+        request.onupgradeneeded?.({ target: request });
+      }
+      request.onsuccess?.({ target: request });
+    }, 0);
+
+    return request;
+  }
+
+  /**
+   * 获取对象存储中的全部记录
+   */
+  records(databaseName: string, storeName: string): any[] {
+    const store = this.databases.get(databaseName)?.stores.get(storeName);
+    return store ? [...store.records.values()] : [];
+  }
+}
+
+/**
+ * 在当前测试文件中使用内存IndexedDB替换window.indexedDB
+ */
+export function installMemoryIndexedDB(): MemoryIndexedDB {
+  const memory = new MemoryIndexedDB();
+  const original = window.indexedDB;
+
+  beforeEach(() => {
+    memory.databases.clear();
+    Object.defineProperty(window, 'indexedDB', { value: memory, configurable: true });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(window, 'indexedDB', { value: original, configurable: true });
+  });
+
+  return memory;
+}
@@ -0,0 +1,132 @@
+/**
+ * 内存OPFS
+ * 测试用的OPFS替身，实现目录句柄、文件句柄和同步访问句柄中SyncAccessFileSystem用到的部分。
+ * 与浏览器一致，同一文件同时只能打开一个同步访问句柄，找不到条目时抛出NotFoundError
+ */
+
+import {
+  OPFSDirectoryHandle,
+  OPFSFileHandle,
+  OPFSSyncAccessHandle
+} from '../../src/modules/storage/opfs-file-system';
+
+function notFound(name: string): Error {
+  return Object.assign(new Error(`${name} 不存在`), { name: 'NotFoundError' });
+}
+
+function typeMismatch(name: string, type: string): Error {
+  return Object.assign(new Error(`${name} 不是${type}`), { name: 'TypeMismatchError' });
+}
+
+export class MemoryFileHandle implements OPFSFileHandle {
+  data = new Uint8Array(0);
+  private open = false;
+
+  constructor(
+    private parent: MemoryDirectoryHandle,
+    private name: string
+  ) {}
+
+  async createSyncAccessHandle(): Promise<OPFSSyncAccessHandle> {
+    if (this.open) {
+      throw Object.assign(new Error('文件已被其他同步访问句柄打开'), {
+        name: 'NoModificationAllowedError'
+      });
+    }
+    this.open = true;
+
+    const toBytes = (buffer: ArrayBufferView) =>
+      new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+    return {
+      read: (buffer, { at = 0 } = {}) => {
+        const bytes = this.data.subarray(at, at + buffer.byteLength);
+        toBytes(buffer).set(bytes);
+        return bytes.length;
+      },
+      write: (buffer, { at = 0 } = {}) => {
+        const bytes = toBytes(buffer);
+        if (at + bytes.length > this.data.length) {
+          const grown = new Uint8Array(at + bytes.length);
+          grown.set(this.data);
+          this.data = grown;
+        }
+        this.data.set(bytes, at);
+        return bytes.length;
+      },
+      truncate: size => {
+        const truncated = new Uint8Array(size);
+        truncated.set(this.data.subarray(0, size));
+        this.data = truncated;
+      },
+      getSize: () => this.data.length,
+      flush: () => undefined,
+      close: () => {
+        this.open = false;
+      }
+    };
+  }
+
+  async move(destination: MemoryDirectoryHandle, name: string): Promise<void> {
+    if (this.open) {
+      throw Object.assign(new Error('文件已被同步访问句柄打开'), {
+        name: 'NoModificationAllowedError'
+      });
+    }
+
+    // 与浏览器一致，目标文件已存在时被替换
+    this.parent.entries.delete(this.name);
+    destination.entries.set(name, this);
+    this.parent = destination;
+    this.name = name;
+  }
+}
+
+export class MemoryDirectoryHandle implements OPFSDirectoryHandle {
+  readonly entries: Map<string, MemoryDirectoryHandle | MemoryFileHandle> = new Map();
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}): Promise<MemoryFileHandle> {
+    const entry = this.entries.get(name);
+    if (entry instanceof MemoryFileHandle) return entry;
+    if (entry) throw typeMismatch(name, '文件');
+    if (!options.create) throw notFound(name);
+
+    const file = new MemoryFileHandle(this, name);
+    this.entries.set(name, file);
+    return file;
+  }
+
+  async getDirectoryHandle(
+    name: string,
+    options: { create?: boolean } = {}
+  ): Promise<MemoryDirectoryHandle> {
+    const entry = this.entries.get(name);
+    if (entry instanceof MemoryDirectoryHandle) return entry;
+    if (entry) throw typeMismatch(name, '目录');
+    if (!options.create) throw notFound(name);
+
+    const directory = new MemoryDirectoryHandle();
+    this.entries.set(name, directory);
+    return directory;
+  }
+
+  async removeEntry(name: string): Promise<void> {
+    if (!this.entries.delete(name)) throw notFound(name);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    yield* this.entries.keys();
+  }
+
+  /**
+   * 按路径获取文件内容，不存在时返回null
+   */
+  read(path: string): Uint8Array | null {
+    const parts = path.split('/');
+    let entry: MemoryDirectoryHandle | MemoryFileHandle | undefined = this;
+    for (const part of parts) {
+      entry = entry instanceof MemoryDirectoryHandle ? entry.entries.get(part) : undefined;
+    }
+    return entry instanceof MemoryFileHandle ? entry.data : null;
+  }
+}
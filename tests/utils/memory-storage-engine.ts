@@ -0,0 +1,32 @@
+/**
+ * 内存存储引擎
+ * 测试用的存储引擎替身，以序列化后的字符串保存数据，行为与持久化存储一致
+ */
+
+import { BaseStorageEngine } from '../../src/modules/storage/storage-engine';
+
+export class MemoryStorageEngine extends BaseStorageEngine {
+  /** 底层数据，测试中可直接修改以模拟损坏 */
+  data: Map<string, string> = new Map();
+
+  async save<T>(key: string, data: T): Promise<void> {
+    this.data.set(key, this.serialize(data));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.data.get(key);
+    return value === undefined ? null : this.deserialize(value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.data.has(key);
+  }
+}
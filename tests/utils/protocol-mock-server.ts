@@ -0,0 +1,359 @@
+/**
+ * 上传协议模拟服务器
+ * 在进程内模拟默认协议、tus 1.0和S3分片上传服务端，直接对接平台适配器的request接口
+ */
+
+import { ProtocolContext, ProtocolRequest } from '../../src/modules/transport/interfaces';
+
+// 模拟服务器URL基础地址
+export const PROTOCOL_SERVER_BASE_URL = 'https://upload.example.com';
+
+/**
+ * 模拟请求
+ */
+export interface MockHttpRequest {
+  url: URL;
+  method: string;
+  headers: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * 模拟响应
+ */
+export interface MockHttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  data?: any;
+}
+
+type RouteHandler = (
+  request: MockHttpRequest,
+  match: RegExpExecArray
+) => MockHttpResponse | Promise<MockHttpResponse>;
+
+/**
+ * 计算请求体字节数
+ */
+export function bodySize(data: any): number {
+  if (data instanceof Blob) return data.size;
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (typeof data === 'string') return data.length;
+  return 0;
+}
+
+/**
+ * 进程内模拟服务器
+ */
+export class MockProtocolServer {
+  /** 收到的所有请求 */
+  requests: MockHttpRequest[] = [];
+
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+
+  /**
+   * 注册路由
+   * @param method 请求方法
+   * @param pattern 匹配路径和查询字符串的正则
+   * @param handler 处理函数
+   */
+  on(method: string, pattern: RegExp, handler: RouteHandler): this {
+    this.routes.unshift({ method, pattern, handler });
+    return this;
+  }
+
+  /**
+   * 处理请求，状态码>=400时抛出带status的错误（与平台适配器行为一致）
+   */
+  async handle(
+    url: string,
+    method: string,
+    data?: any,
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; headers: Record<string, string>; data: any }> {
+    const request: MockHttpRequest = {
+      url: new URL(url, PROTOCOL_SERVER_BASE_URL),
+      method: method.toUpperCase(),
+      headers: Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v])),
+      data
+    };
+    this.requests.push(request);
+
+    const target = `${request.url.pathname}${request.url.search}`;
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(target) : null;
+      if (match) {
+        const response = await route.handler(request, match);
+        const result = {
+          status: response.status,
+          headers: Object.fromEntries(
+            Object.entries(response.headers || {}).map(([k, v]) => [k.toLowerCase(), v])
+          ),
+          data: response.data === undefined ? '' : response.data
+        };
+
+        if (result.status >= 400) {
+          const error = new Error(`请求失败 (${result.status})`);
+          (error as any).status = result.status;
+          throw error;
+        }
+        return result;
+      }
+    }
+
+    const error = new Error(`请求失败 (404): ${method} ${target}`);
+    (error as any).status = 404;
+    throw error;
+  }
+
+  /**
+   * 创建协议上下文
+   */
+  createContext(headers: Record<string, string> = {}): ProtocolContext {
+    return {
+      headers,
+      request: (config: ProtocolRequest) =>
+        this.handle(config.url, config.method, config.data, config.headers)
+    };
+  }
+
+  /**
+   * 创建平台适配器替身
+   */
+  createPlatform(): any {
+    return {
+      init: async () => undefined,
+      request: async (url: string, method: string, data?: any, options: any = {}) => {
+        const response = await this.handle(url, method, data, options.headers);
+        return options.fullResponse ? response : response.data;
+      },
+      createChunks: (file: Blob, chunkSize: number) => {
+        const chunks = [];
+        for (let start = 0, index = 0; start < file.size; start += chunkSize, index++) {
+          const end = Math.min(start + chunkSize, file.size);
+          chunks.push({ index, data: file.slice(start, end), start, end, size: end - start });
+        }
+        return chunks;
+      },
+      createRangeChunks: (
+        file: Blob,
+        ranges: Array<{ index: number; start: number; end: number }>
+      ) =>
+        ranges.map(({ index, start, end }) => ({
+          index,
+          data: file.slice(start, end),
+          start,
+          end,
+          size: end - start
+        })),
+      readFile: async () => new ArrayBuffer(0),
+      getFileInfo: async (file: File) => ({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        lastModified: file.lastModified
+      })
+    };
+  }
+
+  /**
+   * 统计匹配的请求数
+   */
+  count(method: string, pathPattern?: RegExp): number {
+    return this.requests.filter(
+      request =>
+        request.method === method &&
+        (!pathPattern || pathPattern.test(`${request.url.pathname}${request.url.search}`))
+    ).length;
+  }
+}
+
+/**
+ * 安装默认协议路由：/upload、/upload/check、/upload/merge
+ */
+export function installDefaultRoutes(server: MockProtocolServer) {
+  const files = new Map<string, string>();
+  const chunks = new Map<string, Set<number>>();
+
+  server
+    .on('POST', /^\/upload$/, request => {
+      const form = request.data as FormData;
+      const hash = String(form.get('hash'));
+      const received = chunks.get(hash) || new Set<number>();
+      received.add(parseInt(String(form.get('index')), 10));
+      chunks.set(hash, received);
+      return { status: 200, data: { success: true } };
+    })
+    .on('POST', /^\/upload\/check$/, request => {
+      const { hash } = request.data;
+      const url = files.get(hash);
+      return {
+        status: 200,
+        data: url
+          ? { exists: true, url }
+          : { exists: false, uploadedChunks: Array.from(chunks.get(hash) || []) }
+      };
+    })
+    .on('POST', /^\/upload\/merge$/, request => {
+      const { hash, totalChunks } = request.data;
+      if ((chunks.get(hash)?.size || 0) !== totalChunks) {
+        return { status: 400, data: { error: 'Incomplete chunks' } };
+      }
+      const url = `${PROTOCOL_SERVER_BASE_URL}/files/${hash}`;
+      files.set(hash, url);
+      return { status: 200, data: { url } };
+    });
+
+  return { files, chunks };
+}
+
+/**
+ * 安装tus 1.0路由：/files
+ */
+export function installTusRoutes(server: MockProtocolServer) {
+  const uploads = new Map<string, { length: number; offset: number; metadata: string }>();
+  let nextId = 1;
+
+  server
+    .on('POST', /^\/files$/, request => {
+      const id = String(nextId++);
+      uploads.set(id, {
+        length: parseInt(request.headers['upload-length'], 10),
+        offset: 0,
+        metadata: request.headers['upload-metadata'] || ''
+      });
+      return { status: 201, headers: { Location: `/files/${id}` } };
+    })
+    .on('HEAD', /^\/files\/(\w+)$/, (_request, match) => {
+      const upload = uploads.get(match[1]);
+      if (!upload) return { status: 404 };
+      return {
+        status: 200,
+        headers: {
+          'Upload-Offset': String(upload.offset),
+          'Upload-Length': String(upload.length)
+        }
+      };
+    })
+    .on('PATCH', /^\/files\/(\w+)$/, (request, match) => {
+      const upload = uploads.get(match[1]);
+      if (!upload) return { status: 404 };
+      if (request.headers['content-type'] !== 'application/offset+octet-stream') {
+        return { status: 415 };
+      }
+      if (parseInt(request.headers['upload-offset'], 10) !== upload.offset) {
+        return { status: 409 };
+      }
+      upload.offset += bodySize(request.data);
+      return { status: 204, headers: { 'Upload-Offset': String(upload.offset) } };
+    })
+    .on('DELETE', /^\/files\/(\w+)$/, (_request, match) => {
+      if (!uploads.delete(match[1])) return { status: 404 };
+      return { status: 204 };
+    });
+
+  return { uploads };
+}
+
+/**
+ * 安装S3分片上传路由：/bucket/{key}
+ */
+export function installS3Routes(server: MockProtocolServer) {
+  const objects = new Set<string>();
+  const uploads = new Map<string, { key: string; parts: Map<number, string> }>();
+  let nextId = 1;
+
+  server
+    .on('HEAD', /^\/bucket\/([^?]+)$/, (_request, match) => ({
+      status: objects.has(match[1]) ? 200 : 404
+    }))
+    .on('POST', /^\/bucket\/([^?]+)\?uploads$/, (_request, match) => {
+      const uploadId = `upload-${nextId++}`;
+      uploads.set(uploadId, { key: match[1], parts: new Map() });
+      return {
+        status: 200,
+        data: `<InitiateMultipartUploadResult><Key>${match[1]}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`
+      };
+    })
+    .on('PUT', /^\/bucket\/([^?]+)\?partNumber=(\d+)&uploadId=([\w-]+)$/, (request, match) => {
+      const upload = uploads.get(match[3]);
+      if (!upload) return { status: 404 };
+      const etag = `"etag-${match[2]}-${bodySize(request.data)}"`;
+      upload.parts.set(parseInt(match[2], 10), etag);
+      return { status: 200, headers: { ETag: etag } };
+    })
+    .on('GET', /^\/bucket\/([^?]+)\?uploadId=([\w-]+)$/, (_request, match) => {
+      const upload = uploads.get(match[2]);
+      if (!upload) return { status: 404 };
+      const parts = Array.from(upload.parts.entries())
+        .map(
+          ([partNumber, etag]) =>
+            `<Part><PartNumber>${partNumber}</PartNumber><ETag>${etag.replace(/"/g, '&quot;')}</ETag></Part>`
+        )
+        .join('');
+      return { status: 200, data: `<ListPartsResult>${parts}</ListPartsResult>` };
+    })
+    .on('POST', /^\/bucket\/([^?]+)\?uploadId=([\w-]+)$/, (request, match) => {
+      const upload = uploads.get(match[2]);
+      if (!upload) return { status: 404 };
+      const expected = Array.from(upload.parts.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([n, etag]) => `<Part><PartNumber>${n}</PartNumber><ETag>${etag}</ETag></Part>`)
+        .join('');
+      if (request.data !== `<CompleteMultipartUpload>${expected}</CompleteMultipartUpload>`) {
+        return {
+          status: 200,
+          data: '<Error><Code>InvalidPart</Code></Error>'
+        };
+      }
+      uploads.delete(match[2]);
+      objects.add(match[1]);
+      return {
+        status: 200,
+        data: `<CompleteMultipartUploadResult><Location>${PROTOCOL_SERVER_BASE_URL}/bucket/${match[1]}</Location></CompleteMultipartUploadResult>`
+      };
+    })
+    .on('DELETE', /^\/bucket\/([^?]+)\?uploadId=([\w-]+)$/, (_request, match) => {
+      if (!uploads.delete(match[2])) return { status: 404 };
+      return { status: 204 };
+    });
+
+  return { objects, uploads };
+}
+
+/**
+ * 安装支持Range的下载路由：GET /downloads/{name}
+ * 修改返回对象中的etag可模拟远端文件变化
+ */
+export function installRangeRoutes(
+  server: MockProtocolServer,
+  files: Record<string, Uint8Array>,
+  options: { acceptRanges?: boolean } = {}
+) {
+  const state = { etag: '"v1"' };
+
+  server.on('GET', /^\/downloads\/([^?]+)$/, (request, match) => {
+    const bytes = files[match[1]];
+    if (!bytes) return { status: 404 };
+
+    const headers = { ETag: state.etag, 'Content-Type': 'application/octet-stream' };
+    const range = /^bytes=(\d+)-(\d+)$/.exec(request.headers['range'] || '');
+    const ifRange = request.headers['if-range'];
+
+    if (options.acceptRanges === false || !range || (ifRange && ifRange !== state.etag)) {
+      return { status: 200, headers, data: bytes.slice().buffer };
+    }
+
+    const start = parseInt(range[1], 10);
+    if (start >= bytes.length) return { status: 416 };
+
+    const end = Math.min(parseInt(range[2], 10), bytes.length - 1);
+    return {
+      status: 206,
+      headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${bytes.length}` },
+      data: bytes.slice(start, end + 1).buffer
+    };
+  });
+
+  return state;
+}